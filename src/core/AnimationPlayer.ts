@@ -0,0 +1,401 @@
+/**
+ * Animation Player
+ *
+ * Previews imported animation clips by driving entity transforms.
+ * One clip is active at a time; its channels are bound to every scene
+ * object whose name path matches the channel's target path, so all
+ * instances of a model animate together.
+ *
+ * The transforms of bound objects are captured when playback starts or a
+ * pose is previewed, and restored on stop. Previewing stops before the
+ * scene is saved or exported ('scene:serializing'), so files never hold
+ * the animated pose. Transform edits to bound objects while previewing
+ * ('entity:propertyUpdated') are captured too, so stopping keeps them.
+ *
+ * Events emitted:
+ * - 'animation:clipsChanged' - animation assets were registered/unregistered
+ * - 'animation:stateChanged' - clip or playback state changed
+ * - 'animation:timeChanged' - playhead moved
+ *
+ * @example
+ * ```typescript
+ * const player = new AnimationPlayer({ eventBus, sceneGraph, assetRegistry });
+ * player.setClip(player.getClips()[0].uuid);
+ * player.play();
+ *
+ * // Every frame:
+ * player.update(deltaSeconds);
+ * ```
+ */
+
+import type { EventBus } from '@core/EventBus';
+import type { SceneGraph } from '@core/SceneGraph';
+import type { AssetRegistry, AssetRegisteredEvent, AssetUnregisteredEvent } from '@core/assets/AssetRegistry';
+import type { PropertyUpdatedEvent } from '@core/PropertyChangeHandler';
+import type { IAnimationAsset, IAnimationChannel } from '@core/assets/interfaces/IAnimationAsset';
+import { isAnimationAsset, sampleAnimationChannel } from '@core/assets/interfaces/IAnimationAsset';
+import type { ISceneObject, Transform } from '@core/interfaces/ISceneObject';
+import { getObjectNamePath, matchesNamePath } from '@core/interfaces/ISceneObject';
+import { quatToEulerDegrees } from '@utils/math/quaternion';
+import type { Quat } from '@utils/math/quaternion';
+
+/**
+ * Playback state of the animation player.
+ */
+export type AnimationPlaybackState = 'stopped' | 'playing' | 'paused';
+
+/**
+ * Configuration for AnimationPlayer.
+ */
+export interface AnimationPlayerOptions {
+  eventBus: EventBus;
+  sceneGraph: SceneGraph;
+  assetRegistry: AssetRegistry;
+}
+
+/**
+ * Event data for 'animation:stateChanged'.
+ */
+export interface AnimationStateChangedEvent {
+  /** UUID of the active clip, or null when none is selected */
+  clipUuid: string | null;
+  state: AnimationPlaybackState;
+}
+
+/**
+ * Event data for 'animation:timeChanged'.
+ */
+export interface AnimationTimeChangedEvent {
+  /** Playhead time in seconds */
+  time: number;
+  /** Active clip duration in seconds */
+  duration: number;
+}
+
+/**
+ * Transform properties an animation channel can drive.
+ */
+const TRANSFORM_PROPERTIES = ['position', 'rotation', 'scale'] as const;
+
+/**
+ * A channel and the scene objects it drives.
+ */
+interface ChannelBinding {
+  channel: IAnimationChannel;
+  targets: ISceneObject[];
+}
+
+/**
+ * Plays animation clips on scene objects.
+ */
+export class AnimationPlayer {
+  private readonly eventBus: EventBus;
+  private readonly sceneGraph: SceneGraph;
+  private readonly assetRegistry: AssetRegistry;
+
+  private clip: IAnimationAsset | null = null;
+  private bindings: ChannelBinding[] = [];
+  private readonly restTransforms = new Map<ISceneObject, Transform>();
+  private state: AnimationPlaybackState = 'stopped';
+  private time = 0;
+  private loop = true;
+
+  constructor(options: AnimationPlayerOptions) {
+    this.eventBus = options.eventBus;
+    this.sceneGraph = options.sceneGraph;
+    this.assetRegistry = options.assetRegistry;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Get every registered animation clip.
+   */
+  getClips(): IAnimationAsset[] {
+    return this.assetRegistry.getByType<IAnimationAsset>('animation');
+  }
+
+  /**
+   * Get the active clip.
+   */
+  getClip(): IAnimationAsset | null {
+    return this.clip;
+  }
+
+  /**
+   * Select the active clip. Stops the current clip first.
+   *
+   * @param uuid - Animation asset UUID, or null to clear
+   */
+  setClip(uuid: string | null): void {
+    this.stop();
+
+    const asset = uuid ? this.assetRegistry.get(uuid) : undefined;
+    this.clip = isAnimationAsset(asset) ? asset : null;
+    this.emitState();
+    this.emitTime();
+  }
+
+  getState(): AnimationPlaybackState {
+    return this.state;
+  }
+
+  /**
+   * Get the playhead time in seconds.
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Get the active clip duration in seconds (0 without a clip).
+   */
+  getDuration(): number {
+    return this.clip?.duration ?? 0;
+  }
+
+  isLooping(): boolean {
+    return this.loop;
+  }
+
+  setLooping(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Start or resume playback. Restarts from the beginning when a
+   * non-looping clip already reached its end.
+   */
+  play(): void {
+    if (!this.clip || this.state === 'playing') return;
+
+    if (this.state === 'stopped') {
+      this.bind();
+    }
+    if (!this.loop && this.time >= this.getDuration()) {
+      this.time = 0;
+    }
+
+    this.state = 'playing';
+    this.apply();
+    this.emitState();
+    this.emitTime();
+  }
+
+  /**
+   * Pause playback, keeping the current pose.
+   */
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.state = 'paused';
+    this.emitState();
+  }
+
+  /**
+   * Stop playback, rewind and restore the captured transforms.
+   */
+  stop(): void {
+    if (this.state === 'stopped') return;
+
+    for (const [object, transform] of this.restTransforms) {
+      object.transform.position = [...transform.position];
+      object.transform.rotation = [...transform.rotation];
+      object.transform.scale = [...transform.scale];
+    }
+    this.restTransforms.clear();
+    this.bindings = [];
+    this.state = 'stopped';
+    this.time = 0;
+
+    this.emitState();
+    this.emitTime();
+  }
+
+  /**
+   * Move the playhead and apply the pose. Seeking while stopped enters
+   * the paused state so the pose can be previewed.
+   *
+   * @param time - Time in seconds (clamped to the clip)
+   */
+  seek(time: number): void {
+    if (!this.clip) return;
+
+    if (this.state === 'stopped') {
+      this.bind();
+      this.state = 'paused';
+      this.emitState();
+    }
+
+    this.time = Math.min(Math.max(time, 0), this.getDuration());
+    this.apply();
+    this.emitTime();
+  }
+
+  /**
+   * Advance playback. Call once per frame.
+   *
+   * @param deltaSeconds - Time since the last frame in seconds
+   */
+  update(deltaSeconds: number): void {
+    if (this.state !== 'playing' || !this.clip) return;
+
+    const duration = this.getDuration();
+    this.time += deltaSeconds;
+
+    if (this.time >= duration) {
+      if (this.loop && duration > 0) {
+        this.time %= duration;
+      } else {
+        this.time = duration;
+        this.state = 'paused';
+        this.emitState();
+      }
+    }
+
+    this.apply();
+    this.emitTime();
+  }
+
+  /**
+   * Stop playback and remove event listeners.
+   */
+  dispose(): void {
+    this.stop();
+    this.eventBus.off('asset:registered', this.handleAssetRegistered);
+    this.eventBus.off('asset:unregistered', this.handleAssetUnregistered);
+    this.eventBus.off('scene:cleared', this.handleSceneCleared);
+    this.eventBus.off('scene:serializing', this.handleSceneSerializing);
+    this.eventBus.off('entity:propertyUpdated', this.handlePropertyUpdated);
+  }
+
+  /**
+   * Resolve channel targets and capture their transforms.
+   */
+  private bind(): void {
+    this.bindings = [];
+    this.restTransforms.clear();
+    if (!this.clip) return;
+
+    const objects = this.sceneGraph.getAllObjects().map((object) => ({
+      object,
+      namePath: getObjectNamePath(object),
+    }));
+
+    for (const channel of this.clip.channels) {
+      const targets = objects
+        .filter(({ namePath }) => matchesNamePath(namePath, channel.targetPath))
+        .map(({ object }) => object);
+
+      for (const target of targets) {
+        if (!this.restTransforms.has(target)) {
+          this.restTransforms.set(target, {
+            position: [...target.transform.position],
+            rotation: [...target.transform.rotation],
+            scale: [...target.transform.scale],
+          });
+        }
+      }
+
+      if (targets.length > 0) {
+        this.bindings.push({ channel, targets });
+      }
+    }
+  }
+
+  /**
+   * Write the pose at the current time to the bound objects.
+   */
+  private apply(): void {
+    for (const { channel, targets } of this.bindings) {
+      const value = sampleAnimationChannel(channel, this.time);
+      if (value.length === 0) continue;
+
+      const vector: [number, number, number] = channel.property === 'rotation'
+        ? quatToEulerDegrees(value as Quat)
+        : [value[0], value[1], value[2]];
+
+      for (const target of targets) {
+        target.transform[channel.property] = [...vector];
+      }
+    }
+  }
+
+  private setupEventListeners(): void {
+    this.eventBus.on('asset:registered', this.handleAssetRegistered);
+    this.eventBus.on('asset:unregistered', this.handleAssetUnregistered);
+    this.eventBus.on('scene:cleared', this.handleSceneCleared);
+    this.eventBus.on('scene:serializing', this.handleSceneSerializing);
+    this.eventBus.on('entity:propertyUpdated', this.handlePropertyUpdated);
+  }
+
+  private handleAssetRegistered = (event: AssetRegisteredEvent): void => {
+    if (event.asset.type === 'animation') {
+      this.eventBus.emit('animation:clipsChanged');
+    }
+  };
+
+  private handleAssetUnregistered = (event: AssetUnregisteredEvent): void => {
+    if (event.type !== 'animation') return;
+
+    if (this.clip?.uuid === event.uuid) {
+      this.setClip(null);
+    }
+    this.eventBus.emit('animation:clipsChanged');
+  };
+
+  /**
+   * The bound objects are gone; drop them without restoring.
+   */
+  private handleSceneCleared = (): void => {
+    if (this.state === 'stopped') return;
+
+    this.restTransforms.clear();
+    this.bindings = [];
+    this.state = 'stopped';
+    this.time = 0;
+    this.emitState();
+    this.emitTime();
+  };
+
+  /**
+   * Put the rest transforms back before the scene is written to a file.
+   */
+  private handleSceneSerializing = (): void => {
+    this.stop();
+  };
+
+  /**
+   * Keep user edits to a bound object's transform when the preview stops:
+   * the edited axes become part of its rest transform.
+   */
+  private handlePropertyUpdated = (event: PropertyUpdatedEvent): void => {
+    const rest = this.restTransforms.get(event.entity);
+    if (!rest) return;
+
+    const [name, axis] = event.property.split('.');
+    const property = TRANSFORM_PROPERTIES.find((candidate) => candidate === name);
+    if (!property) return;
+
+    const current = event.entity.transform[property];
+    const index = axis === undefined ? -1 : ['x', 'y', 'z'].indexOf(axis);
+    if (index < 0) {
+      rest[property] = [...current];
+    } else {
+      rest[property][index] = current[index];
+    }
+  };
+
+  private emitState(): void {
+    this.eventBus.emit<AnimationStateChangedEvent>('animation:stateChanged', {
+      clipUuid: this.clip?.uuid ?? null,
+      state: this.state,
+    });
+  }
+
+  private emitTime(): void {
+    this.eventBus.emit<AnimationTimeChangedEvent>('animation:timeChanged', {
+      time: this.time,
+      duration: this.getDuration(),
+    });
+  }
+}
@@ -24,8 +24,9 @@ import { SelectionManager } from '@core/SelectionManager';
 import { PropertyChangeHandler } from '@core/PropertyChangeHandler';
 import { CommandHistory } from '@core/commands/CommandHistory';
 import { KeyboardShortcutManager } from '@core/KeyboardShortcutManager';
-import { InputManager } from '@core/InputManager';
+import { InputManager, MouseButton } from '@core/InputManager';
 import { SettingsService } from '@core/SettingsService';
+import { SceneEnvironment } from '@core/SceneEnvironment';
 import { SceneController } from '@core/SceneController';
 import { ShaderEditorService } from '@core/ShaderEditorService';
 import { ImportController } from '@core/ImportController';
@@ -33,8 +34,21 @@ import { PluginManager } from '@core/PluginManager';
 
 import { EditorLayout } from '@ui/panels/EditorLayout';
 import { SettingsWindow } from '@ui/windows/SettingsWindow';
+import { RenderWindow } from '@ui/windows/RenderWindow';
+import { RenderOutputWindow } from '@ui/windows/RenderOutputWindow';
+import type { RenderOutputRequest } from '@ui/windows/RenderOutputWindow';
+import { showProjectChooserDialog } from '@ui/components/ProjectChooserDialog';
 
-import { CubeFactory, SphereFactory, PrimitiveRegistry } from '@plugins/primitives';
+import {
+  CubeFactory,
+  SphereFactory,
+  PlaneFactory,
+  CylinderFactory,
+  ConeFactory,
+  TorusFactory,
+  CapsuleFactory,
+  PrimitiveRegistry,
+} from '@plugins/primitives';
 import {
   AssetRegistry,
   ShaderAssetFactory,
@@ -45,22 +59,43 @@ import {
   BUILT_IN_MATERIALS,
 } from '@core/assets';
 import { ProjectService } from '@core/ProjectService';
+import { ProjectArchiveService } from '@core/ProjectArchiveService';
+import type { IProjectArchiveReport } from '@core/ProjectArchiveService';
+import { MemoryStorageBackend, selectStorageBackend } from '@core/storage';
+import type { IStorageBackend } from '@core/storage';
 import { LineRenderer } from '@plugins/renderers/line/LineRenderer';
 import { ForwardRenderer } from '@plugins/renderers/forward/ForwardRenderer';
+import { DeferredRenderer } from '@plugins/renderers/deferred/DeferredRenderer';
+import { PathTracerController, buildPathTracerScene } from '@plugins/renderers/raytracing';
+import { RenderOutputService } from '@plugins/renderers/output';
 import { LightGizmoRenderer } from '@plugins/renderers/gizmos/LightGizmoRenderer';
 import { ViewportGizmoRenderer } from '@plugins/renderers/gizmos/ViewportGizmoRenderer';
 import { GridRenderer } from '@plugins/viewport/GridRenderer';
+import { CameraPreviewRenderer } from '@plugins/viewport/CameraPreviewRenderer';
 import { TransformGizmoController } from '@plugins/gizmos';
-import { OrbitController } from '@plugins/navigation';
+import { OrbitController, FlyController, type StandardView } from '@plugins/navigation';
 import { DirectionalLight } from '@plugins/lights/DirectionalLight';
 import { LightManager } from '@core/LightManager';
+import { AnimationPlayer } from '@core/AnimationPlayer';
 import { GLTFImportService } from '@plugins/importers/gltf/GLTFImportService';
+import { GLTFExporter } from '@plugins/exporters/gltf/GLTFExporter';
 import { GLTFImporter } from '@plugins/importers/gltf/GLTFImporter';
 import { setMeshAssetResolver } from '@plugins/primitives/MeshEntity';
+import { downloadBlob, pickFile } from '@utils/files';
 
 import type { RenderCameraAdapter } from '@core/RenderCameraAdapter';
 import type { IMeshAsset } from '@core/assets/interfaces/IMeshAsset';
 import type { IPluginContext } from '@core/interfaces/IPlugin';
+import type { IRenderPipeline, RenderPipelineType } from '@core/interfaces/IRenderPipeline';
+
+/** Longest side of a path traced render, in pixels */
+const RENDER_MAX_DIMENSION = 640;
+
+/** Samples per pixel for a path traced render */
+const RENDER_SAMPLES = 256;
+
+/** Maximum bounces per path for a path traced render */
+const RENDER_MAX_BOUNCES = 4;
 
 /**
  * Configuration options for the Application.
@@ -105,18 +140,29 @@ export class Application {
   private gl!: WebGL2RenderingContext;
   private lineRenderer!: LineRenderer;
   private forwardRenderer!: ForwardRenderer;
+  private deferredRenderer!: DeferredRenderer;
+  private activeRenderer!: IRenderPipeline;
   private lightGizmoRenderer!: LightGizmoRenderer;
   private viewportGizmoRenderer!: ViewportGizmoRenderer;
   private gridRenderer!: GridRenderer;
+  private cameraPreviewRenderer!: CameraPreviewRenderer;
   private lightManager!: LightManager;
+  private animationPlayer!: AnimationPlayer;
   private renderCamera!: RenderCameraAdapter;
+  private editorRenderCamera!: RenderCameraAdapter;
   private cameraEntity!: CameraEntity;
 
+  // Scene camera the viewport looks through (null = editor camera)
+  private viewCamera: CameraEntity | null = null;
+  private viewportSize = { width: 0, height: 0 };
+  private cameraPreviewKey = '';
+
   // Scene entities
   private directionalLight!: DirectionalLight;
 
   // Navigation
   private orbitController!: OrbitController;
+  private flyController!: FlyController;
 
   // Transform gizmos
   private transformGizmoController!: TransformGizmoController;
@@ -124,6 +170,10 @@ export class Application {
   // UI
   private layout!: EditorLayout;
   private settingsWindow!: SettingsWindow;
+  private renderWindow!: RenderWindow;
+  private readonly pathTracerController = new PathTracerController();
+  private renderOutputWindow!: RenderOutputWindow;
+  private renderOutputService!: RenderOutputService;
 
   // Scene Management
   private sceneController!: SceneController;
@@ -173,17 +223,25 @@ export class Application {
     this.primitiveRegistry = new PrimitiveRegistry({ eventBus: this.eventBus });
     this.primitiveRegistry.register(new CubeFactory());
     this.primitiveRegistry.register(new SphereFactory());
-    console.log('Primitive registry initialized with Cube and Sphere factories');
+    this.primitiveRegistry.register(new PlaneFactory());
+    this.primitiveRegistry.register(new CylinderFactory());
+    this.primitiveRegistry.register(new ConeFactory());
+    this.primitiveRegistry.register(new TorusFactory());
+    this.primitiveRegistry.register(new CapsuleFactory());
+    console.log(`Primitive registry initialized with ${this.primitiveRegistry.getTypes().join(', ')} factories`);
 
     // Initialize settings service
     this.settingsService = new SettingsService({ eventBus: this.eventBus });
     console.log('Settings service initialized');
 
+    // Scene environment (ambient light, background, grid) of the open scene
+    const sceneEnvironment = new SceneEnvironment({ eventBus: this.eventBus });
+
     // Initialize asset system
     const assetRegistry = new AssetRegistry(this.eventBus);
     const shaderFactory = new ShaderAssetFactory();
     const materialFactory = new MaterialAssetFactory();
-    const assetStore = new FileSystemAssetStore(this.eventBus);
+    const assetStore = new FileSystemAssetStore(this.eventBus, selectStorageBackend());
     const assetMetaService = new AssetMetaService();
 
     // Initialize project service
@@ -212,7 +270,12 @@ export class Application {
     console.log('Shader editor service initialized with pre-compiled shaders');
 
     // Setup project commands
-    this.setupProjectCommands(projectService);
+    const projectArchiveService = new ProjectArchiveService({
+      projectService,
+      assetRegistry,
+      storageBackend: assetStore.defaultBackend,
+    });
+    this.setupProjectCommands(projectService, projectArchiveService, assetStore.defaultBackend);
 
     // Set up mesh asset resolver for MeshEntity
     setMeshAssetResolver((uuid: string) => {
@@ -241,10 +304,20 @@ export class Application {
       fieldOfView: 60,
       nearClipPlane: 0.1,
       farClipPlane: 100,
+      // Clear to the scene background from the Environment settings
+      clearFlags: 'skybox',
+      backgroundColor: [0.15, 0.15, 0.17],
     });
     this.sceneGraph.add(this.cameraEntity);
     console.log('Camera entity added to scene');
 
+    // Initialize animation preview player (driven by the render loop)
+    this.animationPlayer = new AnimationPlayer({
+      eventBus: this.eventBus,
+      sceneGraph: this.sceneGraph,
+      assetRegistry,
+    });
+
     // Initialize UI layout
     this.layout = new EditorLayout({
       container: this.container,
@@ -259,6 +332,8 @@ export class Application {
       projectService,
       shaderEditorService,
       assetMetaService,
+      animationPlayer: this.animationPlayer,
+      sceneEnvironment,
     });
     this.layout.initialize();
     console.log('UI layout initialized');
@@ -279,6 +354,7 @@ export class Application {
     this.lightManager = new LightManager({
       eventBus: this.eventBus,
       sceneGraph: this.sceneGraph,
+      sceneEnvironment,
     });
     console.log('Light manager initialized');
 
@@ -295,17 +371,21 @@ export class Application {
       lightManager: this.lightManager,
       shaderEditorService,
       projectService,
+      sceneEnvironment,
     };
 
     // Initialize plugin manager and register all plugins
     this.pluginManager = new PluginManager(pluginContext);
 
     this.forwardRenderer = new ForwardRenderer();
+    this.deferredRenderer = new DeferredRenderer();
+    this.activeRenderer = this.forwardRenderer;
     this.lineRenderer = new LineRenderer();
     this.gridRenderer = new GridRenderer();
     const gltfImporter = new GLTFImporter(gltfImportService, assetRegistry, materialFactory);
 
     this.pluginManager.register(this.forwardRenderer);
+    this.pluginManager.register(this.deferredRenderer);
     this.pluginManager.register(this.lineRenderer);
     this.pluginManager.register(this.gridRenderer);
     this.pluginManager.register(gltfImporter);
@@ -386,6 +466,11 @@ export class Application {
     this.viewportGizmoRenderer.initialize();
     console.log('Viewport gizmo renderer initialized');
 
+    // Initialize camera preview renderer (inset for the selected scene camera)
+    this.cameraPreviewRenderer = new CameraPreviewRenderer(this.gl);
+    this.cameraPreviewRenderer.initialize();
+    console.log('Camera preview renderer initialized');
+
     // Initialize input manager
     const viewportCanvas = this.layout.getViewport()!.getCanvas();
     new InputManager(viewportCanvas, this.eventBus);
@@ -395,14 +480,20 @@ export class Application {
     this.orbitController = new OrbitController(this.cameraEntity, this.eventBus, viewportCanvas);
     console.log('Orbit controller initialized');
 
+    // Initialize fly controller (off until toggled)
+    this.flyController = new FlyController(this.cameraEntity, this.eventBus, viewportCanvas);
+    console.log('Fly controller initialized');
+
     // Initialize scene controller
     this.sceneController = new SceneController({
       eventBus: this.eventBus,
       sceneGraph: this.sceneGraph,
       primitiveRegistry: this.primitiveRegistry,
+      gltfExporter: new GLTFExporter({ assetRegistry }),
+      sceneEnvironment,
     });
     this.setupSceneCommands();
-    this.setupLauncherListener();
+    this.setupLauncherListener(projectService);
     console.log('Scene controller initialized');
 
     // Initialize keyboard shortcuts
@@ -415,6 +506,7 @@ export class Application {
       eventBus: this.eventBus,
       sceneGraph: this.sceneGraph,
       commandHistory: this.commandHistory,
+      sceneEnvironment,
     });
     console.log('Property change handler initialized');
 
@@ -426,15 +518,20 @@ export class Application {
       selectionManager: this.selectionManager,
       commandHistory: this.commandHistory,
       canvas: viewportCanvas,
+      settingsService: this.settingsService,
     });
     this.transformGizmoController.initialize();
     console.log('Transform gizmo controller initialized');
 
     // Create render camera adapter
-    this.renderCamera = this.cameraEntity.asRenderCamera(1);
+    this.editorRenderCamera = this.cameraEntity.asRenderCamera(1);
+    this.renderCamera = this.editorRenderCamera;
 
     // Setup viewport resize handling
     this.setupResizeHandling();
+    this.setupViewCameraCommands();
+    this.setupStandardViews(viewportCanvas);
+    this.setupRenderCommands(assetRegistry);
 
     this.isInitialized = true;
     console.log('Application initialized successfully');
@@ -490,10 +587,19 @@ export class Application {
       throw new Error('Application not initialized');
     }
 
-    const render = (): void => {
-      // Use Forward Renderer for solid shaded rendering
-      this.forwardRenderer.beginFrame(this.renderCamera);
-      this.forwardRenderer.render(this.sceneGraph);
+    let lastFrameTime: number | null = null;
+
+    const render = (timestamp: number): void => {
+      // Advance animation preview before drawing
+      const deltaSeconds = lastFrameTime === null ? 0 : (timestamp - lastFrameTime) / 1000;
+      lastFrameTime = timestamp;
+      this.animationPlayer.update(deltaSeconds);
+      this.orbitController.update(deltaSeconds);
+      this.flyController.update(deltaSeconds);
+
+      // Render the scene with the active pipeline (forward or deferred)
+      this.activeRenderer.beginFrame(this.renderCamera);
+      this.activeRenderer.render(this.sceneGraph);
 
       // Render grid (after scene, before gizmos)
       this.gridRenderer.render(this.renderCamera);
@@ -507,7 +613,11 @@ export class Application {
       // Render viewport orientation gizmo (always visible in corner)
       this.viewportGizmoRenderer.render(this.renderCamera);
 
-      this.forwardRenderer.endFrame();
+      this.activeRenderer.endFrame();
+
+      // Render the selected scene camera's view into the corner inset
+      this.renderCameraPreview();
+
       this.animationFrameId = requestAnimationFrame(render);
     };
 
@@ -538,6 +648,95 @@ export class Application {
     }
   }
 
+  /**
+   * Render the inset preview of the selected camera, unless the viewport
+   * is already looking through it.
+   */
+  private renderCameraPreview(): void {
+    const selected = this.selectionManager.getPrimary();
+    const viewed = this.viewCamera ?? this.cameraEntity;
+    const camera = selected instanceof CameraEntity && selected !== viewed ? selected : null;
+
+    const rect = camera
+      ? this.cameraPreviewRenderer.render(
+        this.activeRenderer,
+        this.sceneGraph,
+        camera,
+        this.viewportSize.width,
+        this.viewportSize.height
+      )
+      : null;
+
+    // Only touch the DOM when the inset changes
+    const preview = camera && rect ? { label: camera.name, ...rect } : null;
+    const key = preview ? JSON.stringify(preview) : '';
+    if (key !== this.cameraPreviewKey) {
+      this.cameraPreviewKey = key;
+      this.layout.getViewport()?.setCameraPreview(preview);
+    }
+  }
+
+  /**
+   * Look through a scene camera, or back through the editor camera.
+   * Orbit navigation only drives the editor camera, so it is disabled
+   * while looking through another camera.
+   *
+   * @param camera - Scene camera to look through, or null for the editor camera
+   */
+  setViewCamera(camera: CameraEntity | null): void {
+    const next = camera === this.cameraEntity ? null : camera;
+    if (next === this.viewCamera) return;
+
+    if (next) {
+      this.setFlyMode(false);
+    }
+
+    this.viewCamera = next;
+    if (next) {
+      this.renderCamera = next.asRenderCamera(this.editorRenderCamera.aspect);
+    } else {
+      this.renderCamera = this.editorRenderCamera;
+    }
+
+    this.orbitController.setEnabled(next === null);
+    this.eventBus.emit('viewport:viewCameraChanged', { name: next?.name ?? null });
+  }
+
+  /**
+   * Switch the editor camera between orbit and fly navigation. Fly mode
+   * drives the editor camera, so it leaves any look-through camera; orbit
+   * navigation resumes around the point the camera was looking at.
+   *
+   * @param active - True for fly navigation, false for orbit navigation
+   */
+  setFlyMode(active: boolean): void {
+    if (active === this.flyController.getIsActive()) return;
+
+    if (active) {
+      this.setViewCamera(null);
+    } else {
+      this.orbitController.syncFromCamera();
+    }
+
+    this.flyController.setActive(active);
+    this.orbitController.setEnabled(!active);
+  }
+
+  /**
+   * Check whether the editor camera is in fly navigation.
+   */
+  isFlyMode(): boolean {
+    return this.flyController.getIsActive();
+  }
+
+  /**
+   * Get the scene camera the viewport is looking through, or null for the
+   * editor camera.
+   */
+  getViewCamera(): CameraEntity | null {
+    return this.viewCamera;
+  }
+
   /**
    * Stop the render loop.
    */
@@ -554,8 +753,14 @@ export class Application {
    */
   async dispose(): Promise<void> {
     this.stopRenderLoop();
+    this.pathTracerController.stop();
+    this.renderWindow?.hide();
+    this.renderOutputWindow?.hide();
+    this.animationPlayer?.dispose();
     await this.pluginManager?.disposeAll();
+    this.cameraPreviewRenderer?.dispose();
     this.orbitController?.dispose?.();
+    this.flyController?.dispose?.();
     this.isInitialized = false;
     console.log('Application disposed');
   }
@@ -603,13 +808,23 @@ export class Application {
         console.error('Failed to export scene as HTML:', result.error);
       }
     });
+
+    // Export as glTF binary
+    this.eventBus.on('command:export', async () => {
+      const result = await this.sceneController.exportSceneAsGLTF();
+      if (!result.success && result.error) {
+        console.error('Failed to export scene as glTF:', result.error);
+      }
+    });
   }
 
   /**
    * Set up listener for postMessage from launcher HTML files.
    * When a launcher sends scene data, this loads it into the editor.
+   * Launcher sessions have no project folder, so an in-memory project is
+   * opened to hold any assets created while editing the scene.
    */
-  private setupLauncherListener(): void {
+  private setupLauncherListener(projectService: ProjectService): void {
     const protocol = SceneController.LAUNCHER_PROTOCOL;
 
     this.postMessageListener = async (event: MessageEvent) => {
@@ -622,6 +837,13 @@ export class Application {
       if (event.data.type === 'loadScene' && event.data.scene) {
         console.log('Received scene from launcher:', event.data.scene.name);
 
+        if (!projectService.isProjectOpen) {
+          await projectService.openProject({
+            backend: new MemoryStorageBackend(),
+            projectName: event.data.scene.name,
+          });
+        }
+
         const result = await this.sceneController.loadFromSceneData(event.data.scene);
 
         // Notify launcher of result
@@ -653,19 +875,255 @@ export class Application {
 
   private setupResizeHandling(): void {
     this.eventBus.on('viewport:resized', (data: { width: number; height: number; aspectRatio: number }) => {
+      this.viewportSize = { width: data.width, height: data.height };
+      this.editorRenderCamera.setAspect(data.aspectRatio);
       this.renderCamera.setAspect(data.aspectRatio);
       this.lineRenderer.resize(data.width, data.height);
-      this.forwardRenderer.resize(data.width, data.height);
+      this.activeRenderer.resize(data.width, data.height);
+    });
+  }
+
+  /**
+   * Set up look-through camera and fly mode handling for the viewport.
+   */
+  private setupViewCameraCommands(): void {
+    this.eventBus.on('command:toggleLookThroughCamera', () => {
+      if (this.viewCamera) {
+        this.setViewCamera(null);
+        return;
+      }
+
+      const selected = this.selectionManager.getPrimary();
+      if (selected instanceof CameraEntity) {
+        this.setViewCamera(selected);
+      }
+    });
+
+    // Fall back to the editor camera when the viewed camera leaves the scene
+    this.eventBus.on('scene:objectRemoved', () => {
+      if (this.viewCamera && !this.sceneGraph.find(this.viewCamera.id)) {
+        this.setViewCamera(null);
+      }
+    });
+
+    this.eventBus.on('scene:cleared', () => {
+      this.setViewCamera(null);
+    });
+
+    this.eventBus.on('command:toggleFlyMode', () => {
+      this.setFlyMode(!this.flyController.getIsActive());
     });
   }
 
+  /**
+   * Set up standard view and projection commands, and view picking on the
+   * orientation gizmo. These drive the editor camera, so they leave any
+   * look-through camera first.
+   */
+  private setupStandardViews(canvas: HTMLCanvasElement): void {
+    this.eventBus.on<{ view: StandardView }>('command:setStandardView', (data) => {
+      this.setViewCamera(null);
+      this.setFlyMode(false);
+      this.orbitController.setStandardView(data.view);
+    });
+
+    this.eventBus.on('command:setOppositeView', () => {
+      this.setViewCamera(null);
+      this.setFlyMode(false);
+      this.orbitController.setOppositeView();
+    });
+
+    this.eventBus.on('command:toggleOrthographic', () => {
+      this.setViewCamera(null);
+      if (this.flyController.getIsActive()) {
+        this.orbitController.syncFromCamera();
+      }
+      this.orbitController.toggleOrthographic();
+      this.eventBus.emit('viewport:projectionChanged', {
+        projection: this.cameraEntity.getCameraComponent().projection,
+      });
+    });
+
+    // Clicking an axis end of the orientation gizmo snaps to that view.
+    // The click is reported as a gizmo drag so it doesn't change the selection.
+    let pickedView: StandardView | null = null;
+    this.eventBus.on<{ button: number; x: number; y: number }>('input:mouseDown', (data) => {
+      if (data.button !== MouseButton.LEFT) return;
+
+      pickedView = this.viewportGizmoRenderer.pickView(
+        data.x, data.y, this.renderCamera, canvas.clientWidth, canvas.clientHeight
+      );
+      if (pickedView) {
+        this.eventBus.emit('gizmo:dragStart', { view: pickedView });
+      }
+    });
+
+    this.eventBus.on('input:mouseUp', () => {
+      if (!pickedView) return;
+
+      this.eventBus.emit('gizmo:dragEnd', { view: pickedView });
+      this.eventBus.emit('command:setStandardView', { view: pickedView });
+      pickedView = null;
+    });
+  }
+
+  /**
+   * Set up render command handlers for the Rendering menu.
+   */
+  private setupRenderCommands(assetRegistry: AssetRegistry): void {
+    this.renderWindow = new RenderWindow({ eventBus: this.eventBus });
+    this.renderOutputWindow = new RenderOutputWindow({ eventBus: this.eventBus });
+    this.renderOutputService = new RenderOutputService({
+      gl: this.gl,
+      scene: this.sceneGraph,
+      getPipeline: () => this.activeRenderer,
+    });
+
+    this.eventBus.on<{ type: RenderPipelineType }>('command:setRenderPipeline', (data) => {
+      this.setRenderPipeline(data.type);
+    });
+
+    this.eventBus.on('command:render', () => {
+      this.startPathTracedRender(assetRegistry);
+    });
+
+    this.eventBus.on('command:stopRender', () => {
+      if (!this.pathTracerController.isRunning()) return;
+
+      this.pathTracerController.stop();
+      this.renderWindow.markStopped();
+    });
+
+    this.eventBus.on('command:renderOutput', () => {
+      const cameras = this.sceneGraph.getAllObjects()
+        .filter((object): object is CameraEntity => object instanceof CameraEntity)
+        .map((camera) => ({ id: camera.id, name: camera.name }));
+      this.renderOutputWindow.show(cameras, this.cameraEntity.id);
+    });
+
+    this.eventBus.on<RenderOutputRequest>('command:renderOutputImage', (request) => {
+      void this.renderOutputImage(request);
+    });
+  }
+
+  /**
+   * Render a still image with the active pipeline and save it to a file.
+   */
+  private async renderOutputImage(request: RenderOutputRequest): Promise<void> {
+    const camera = this.sceneGraph.find(request.cameraId);
+    if (!(camera instanceof CameraEntity)) {
+      this.renderOutputWindow.setStatus('Camera not found');
+      return;
+    }
+
+    this.renderOutputWindow.setBusy(true);
+    this.renderOutputWindow.setStatus('Rendering…');
+    try {
+      const image = await this.renderOutputService.render({
+        width: request.width,
+        height: request.height,
+        camera,
+        supersampling: request.supersampling,
+        format: request.format,
+      });
+
+      const result = await this.renderOutputService.save(image, this.sceneController.sceneName);
+      if (result.success) {
+        this.renderOutputWindow.setStatus(`Saved ${image.width}×${image.height} ${image.format.toUpperCase()}`);
+      } else {
+        this.renderOutputWindow.setStatus(result.cancelled ? 'Save cancelled' : `Save failed: ${result.error}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Render output failed:', message);
+      this.renderOutputWindow.setStatus(`Render failed: ${message}`);
+    } finally {
+      this.renderOutputWindow.setBusy(false);
+    }
+  }
+
+  /**
+   * Path trace the scene from the render camera into the render window.
+   * The scene is snapshotted, so edits made while rendering are not picked up.
+   */
+  private startPathTracedRender(assetRegistry: AssetRegistry): void {
+    const aspect = this.renderCamera.aspect > 0 ? this.renderCamera.aspect : 1;
+    const width = Math.round(aspect >= 1 ? RENDER_MAX_DIMENSION : RENDER_MAX_DIMENSION * aspect);
+    const height = Math.round(aspect >= 1 ? RENDER_MAX_DIMENSION / aspect : RENDER_MAX_DIMENSION);
+
+    const scene = buildPathTracerScene({
+      scene: this.sceneGraph,
+      camera: this.renderCamera,
+      lightManager: this.lightManager,
+      assetRegistry,
+    });
+
+    this.renderWindow.show(width, height, RENDER_SAMPLES);
+    this.pathTracerController.start(
+      scene,
+      { width, height, maxSamples: RENDER_SAMPLES, maxBounces: RENDER_MAX_BOUNCES },
+      {
+        onProgress: (samples, pixels, done) => this.renderWindow.updateProgress(samples, pixels, done),
+        onError: (message) => {
+          console.error('Path traced render failed:', message);
+          this.renderWindow.showError(message);
+        },
+      }
+    );
+  }
+
+  /**
+   * Switch the pipeline used to render the viewport.
+   * Both pipelines stay initialized, so switching is immediate.
+   *
+   * @param type - Pipeline to activate
+   */
+  setRenderPipeline(type: RenderPipelineType): void {
+    const pipeline = [this.forwardRenderer, this.deferredRenderer].find((p) => p.type === type);
+    if (!pipeline) {
+      console.warn(`Render pipeline not available: ${type}`);
+      return;
+    }
+
+    if (pipeline === this.activeRenderer) return;
+
+    this.activeRenderer = pipeline;
+    this.layout.getViewport()?.resize();
+    this.eventBus.emit('renderer:pipelineChanged', { type });
+    console.log(`Switched to ${pipeline.name}`);
+  }
+
+  /**
+   * Get the type of the pipeline rendering the viewport.
+   */
+  getRenderPipeline(): RenderPipelineType {
+    return this.activeRenderer.type;
+  }
+
   /**
    * Set up project command handlers for project management.
    */
-  private setupProjectCommands(projectService: ProjectService): void {
-    // Open Project (File menu or Asset Browser button)
-    this.eventBus.on('command:openProject', async () => {
-      const result = await projectService.openProject();
+  private setupProjectCommands(
+    projectService: ProjectService,
+    projectArchiveService: ProjectArchiveService,
+    storageBackend: IStorageBackend
+  ): void {
+    // Open Project (File menu or Asset Browser button). Backends that keep
+    // projects by name ask which project to open, create or delete unless
+    // one is given; the File System Access backend shows a folder picker.
+    this.eventBus.on('command:openProject', async (data?: { projectName?: string }) => {
+      let projectName = data?.projectName;
+      if (!projectName && storageBackend.kind !== 'file-system-access') {
+        projectName = await showProjectChooserDialog({
+          storageName: storageBackend.displayName,
+          listProjects: () => projectService.listProjects(storageBackend),
+          deleteProject: (name) => projectService.deleteProject(name, storageBackend),
+          lastProject: ProjectService.getLastProjectName() ?? undefined,
+        }) ?? undefined;
+        if (!projectName) return;
+      }
+
+      const result = await projectService.openProject({ projectName });
       if (result.success) {
         console.log(`Opened project: ${result.projectName} (${result.assetsDiscovered} assets discovered)`);
       } else if (result.error) {
@@ -682,6 +1140,47 @@ export class Application {
         console.error('Failed to close project:', result.error);
       }
     });
+
+    // Export Project: download the open project as a zip archive
+    this.eventBus.on('command:exportProject', async () => {
+      const result = await projectArchiveService.exportProject();
+      if (!result.success) {
+        console.error('Failed to export project:', result.error);
+        return;
+      }
+      this.reportArchiveProblems('Exported', result);
+      downloadBlob(result.blob!, result.fileName!);
+      console.log(`Exported project: ${result.fileName} (${result.fileCount} files)`);
+    });
+
+    // Import Project: restore a zip archive into a new project and open it
+    this.eventBus.on('command:importProject', async () => {
+      const file = await pickFile('.zip,application/zip');
+      if (!file) return;
+
+      const result = await projectArchiveService.importProject(file);
+      if (!result.success) {
+        console.error('Failed to import project:', result.error);
+        return;
+      }
+      this.reportArchiveProblems('Imported', result);
+      console.log(`Imported project: ${result.projectName} (${result.fileCount} files)`);
+    });
+  }
+
+  /**
+   * Log missing files and unresolved references found in a project archive.
+   */
+  private reportArchiveProblems(action: string, report: Partial<IProjectArchiveReport>): void {
+    for (const path of report.missingFiles ?? []) {
+      console.warn(`${action} project is missing file: ${path}`);
+    }
+    for (const reference of report.unresolvedReferences ?? []) {
+      console.warn(`${action} project has an unresolved ${reference.type} reference in ${reference.path}: ${reference.uuid}`);
+    }
+    for (const path of report.unreadableFiles ?? []) {
+      console.warn(`${action} project has an unreadable file: ${path}`);
+    }
   }
 
   /**
@@ -726,6 +1225,7 @@ export class Application {
    * Subscribe handlers for the Asset Browser's source-backed asset actions:
    * - `modelMeta:addToScene` — instantiate the model in the scene
    * - `modelMeta:reimport` — re-parse the source `.glb` and update derived assets
+   * - `modelMeta:settingsApplied` — reimport after the ModelImportInspector saves new settings
    * - `modelMeta:delete`   — remove the source file + companion `.assetmeta` from disk
    * - `asset:duplicateRequested` — copy the asset on disk (model) or in-memory (material/shader)
    *
@@ -763,21 +1263,41 @@ export class Application {
     });
 
     // Reimport — read the source file, run reimport (preserves UUIDs), refresh project
-    this.eventBus.on('modelMeta:reimport', async (data: ModelMetaPayload) => {
-      const path = sourcePathOf(data);
+    const reimportModel = async (
+      path: string,
+      meta: ModelMetaPayload['meta']
+    ): Promise<void> => {
       try {
         const file = await projectService.readSourceFile(path);
         if (!file) {
           console.error(`Reimport failed: source file not found at ${path}`);
           return;
         }
-        await gltfImporter.reimport(file, data.meta);
+        await gltfImporter.reimport(file, meta);
+
+        // Scene instances cache geometry per mesh UUID, which reimport keeps;
+        // drop the caches so they pick up the reprocessed meshes
+        const { MeshEntity } = await import('@plugins/primitives/MeshEntity');
+        const meshUuids = new Set(meta.contents.meshes.map(mesh => mesh.uuid));
+        for (const object of this.sceneGraph.getAllObjects()) {
+          if (object instanceof MeshEntity && object.meshAssetRef && meshUuids.has(object.meshAssetRef.uuid)) {
+            object.invalidateCache();
+          }
+        }
+
         await projectService.rescanProject();
         console.log(`Reimported model: ${path}`);
       } catch (error) {
         console.error('Reimport failed:', error);
       }
-    });
+    };
+
+    this.eventBus.on('modelMeta:reimport', (data: ModelMetaPayload) => reimportModel(sourcePathOf(data), data.meta));
+
+    // Import settings applied in the ModelImportInspector — reimport with the saved settings
+    this.eventBus.on('modelMeta:settingsApplied', (data: Pick<ModelMetaPayload, 'meta' | 'filename'>) =>
+      reimportModel(data.meta.sourcePath, data.meta)
+    );
 
     // Delete — unregister derived assets, delete source + .assetmeta from disk, refresh
     this.eventBus.on('modelMeta:delete', async (data: ModelMetaPayload) => {
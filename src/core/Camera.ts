@@ -3,6 +3,8 @@
  *
  * Implements the ICamera interface for render pipelines.
  * Manages view and projection matrices based on position, target, and projection settings.
+ * Projects with a perspective frustum by default, or orthographically with
+ * `orthographicSize` as half the vertical view size.
  *
  * @example
  * ```typescript
@@ -16,8 +18,8 @@
  * ```
  */
 
-import type { ICamera } from './interfaces';
-import { mat4Perspective, mat4LookAt, mat4Multiply, degToRad } from '@utils/math/transforms';
+import type { ICamera, CameraProjection } from './interfaces';
+import { mat4Perspective, mat4Orthographic, mat4LookAt, mat4Multiply, degToRad } from '@utils/math/transforms';
 
 /**
  * Camera implementation for rendering.
@@ -31,6 +33,8 @@ export class Camera implements ICamera {
   private _aspect: number = 1;
   private _near: number = 0.1;
   private _far: number = 100;
+  private _projection: CameraProjection = 'perspective';
+  private _orthographicSize: number = 5;
 
   private _viewMatrixDirty = true;
   private _projectionMatrixDirty = true;
@@ -51,6 +55,8 @@ export class Camera implements ICamera {
     aspect?: number;
     near?: number;
     far?: number;
+    projection?: CameraProjection;
+    orthographicSize?: number;
   }) {
     if (options?.position) this._position = [...options.position];
     if (options?.target) this._target = [...options.target];
@@ -59,6 +65,8 @@ export class Camera implements ICamera {
     if (options?.aspect !== undefined) this._aspect = options.aspect;
     if (options?.near !== undefined) this._near = options.near;
     if (options?.far !== undefined) this._far = options.far;
+    if (options?.projection !== undefined) this._projection = options.projection;
+    if (options?.orthographicSize !== undefined) this._orthographicSize = options.orthographicSize;
   }
 
   // --- ICamera readonly properties ---
@@ -91,6 +99,14 @@ export class Camera implements ICamera {
     return this._far;
   }
 
+  get projection(): CameraProjection {
+    return this._projection;
+  }
+
+  get orthographicSize(): number {
+    return this._orthographicSize;
+  }
+
   // --- Setters (mark matrices dirty) ---
 
   /**
@@ -149,6 +165,22 @@ export class Camera implements ICamera {
     this._projectionMatrixDirty = true;
   }
 
+  /**
+   * Set projection mode.
+   */
+  setProjection(projection: CameraProjection): void {
+    this._projection = projection;
+    this._projectionMatrixDirty = true;
+  }
+
+  /**
+   * Set half the vertical view size for orthographic projection.
+   */
+  setOrthographicSize(size: number): void {
+    this._orthographicSize = size;
+    this._projectionMatrixDirty = true;
+  }
+
   // --- ICamera methods ---
 
   /**
@@ -169,12 +201,25 @@ export class Camera implements ICamera {
    */
   getProjectionMatrix(): Float32Array {
     if (this._projectionMatrixDirty) {
-      this._projectionMatrix = mat4Perspective(
-        this._fov,
-        this._aspect,
-        this._near,
-        this._far
-      );
+      if (this._projection === 'orthographic') {
+        const halfHeight = this._orthographicSize;
+        const halfWidth = halfHeight * this._aspect;
+        this._projectionMatrix = mat4Orthographic(
+          -halfWidth,
+          halfWidth,
+          -halfHeight,
+          halfHeight,
+          this._near,
+          this._far
+        );
+      } else {
+        this._projectionMatrix = mat4Perspective(
+          this._fov,
+          this._aspect,
+          this._near,
+          this._far
+        );
+      }
       this._projectionMatrixDirty = false;
     }
     return this._projectionMatrix;
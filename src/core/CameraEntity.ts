@@ -4,7 +4,7 @@
  * Implements the composition pattern for camera:
  * - CameraEntity implements IEntity (appears in hierarchy)
  * - Transform component provides position/rotation (single source of truth)
- * - CameraComponent provides FOV, clip planes, etc.
+ * - CameraComponent provides projection, FOV, clip planes, etc.
  * - RenderCameraAdapter bridges to ICamera for render pipelines
  *
  * This follows Unity's pattern where Camera is a Component on a GameObject.
@@ -26,7 +26,7 @@
  */
 
 import type { ISceneObject, Transform, IComponent, IEntity } from './interfaces';
-import type { ICameraComponent } from './interfaces/ICameraComponent';
+import type { ICameraComponent, CameraClearFlags, CameraProjection } from './interfaces/ICameraComponent';
 import { createDefaultTransform } from './interfaces';
 import { createDefaultCameraComponent } from './interfaces/ICameraComponent';
 import { RenderCameraAdapter } from './RenderCameraAdapter';
@@ -92,9 +92,13 @@ export class CameraEntity implements IEntity, ISerializable<ISerializedEntity> {
     name?: string;
     position?: [number, number, number];
     target?: [number, number, number];
+    projection?: CameraProjection;
     fieldOfView?: number;
+    orthographicSize?: number;
     nearClipPlane?: number;
     farClipPlane?: number;
+    clearFlags?: CameraClearFlags;
+    backgroundColor?: [number, number, number];
   }) {
     this.id = options?.id ?? generateUUID();
     this.entityId = EntityIdGenerator.next();
@@ -117,15 +121,27 @@ export class CameraEntity implements IEntity, ISerializable<ISerializedEntity> {
 
     // Initialize camera component
     this.cameraComponent = createDefaultCameraComponent();
+    if (options?.projection !== undefined) {
+      this.cameraComponent.projection = options.projection;
+    }
     if (options?.fieldOfView !== undefined) {
       this.cameraComponent.fieldOfView = options.fieldOfView;
     }
+    if (options?.orthographicSize !== undefined) {
+      this.cameraComponent.orthographicSize = options.orthographicSize;
+    }
     if (options?.nearClipPlane !== undefined) {
       this.cameraComponent.nearClipPlane = options.nearClipPlane;
     }
     if (options?.farClipPlane !== undefined) {
       this.cameraComponent.farClipPlane = options.farClipPlane;
     }
+    if (options?.clearFlags !== undefined) {
+      this.cameraComponent.clearFlags = options.clearFlags;
+    }
+    if (options?.backgroundColor !== undefined) {
+      this.cameraComponent.backgroundColor = [...options.backgroundColor];
+    }
 
     // Register all components
     this.initializeComponents();
@@ -251,9 +267,13 @@ export class CameraEntity implements IEntity, ISerializable<ISerializedEntity> {
     // Serialize camera component
     components.push({
       type: 'camera',
+      projection: this.cameraComponent.projection,
       fieldOfView: this.cameraComponent.fieldOfView,
+      orthographicSize: this.cameraComponent.orthographicSize,
       nearClipPlane: this.cameraComponent.nearClipPlane,
       farClipPlane: this.cameraComponent.farClipPlane,
+      clearFlags: this.cameraComponent.clearFlags,
+      backgroundColor: [...this.cameraComponent.backgroundColor],
       target: [...this._target],
     });
 
@@ -295,15 +315,27 @@ export class CameraEntity implements IEntity, ISerializable<ISerializedEntity> {
     // Restore camera component
     const cameraData = data.components.find((c) => c.type === 'camera');
     if (cameraData) {
+      if (cameraData.projection !== undefined) {
+        this.cameraComponent.projection = cameraData.projection as CameraProjection;
+      }
       if (cameraData.fieldOfView !== undefined) {
         this.cameraComponent.fieldOfView = cameraData.fieldOfView as number;
       }
+      if (cameraData.orthographicSize !== undefined) {
+        this.cameraComponent.orthographicSize = cameraData.orthographicSize as number;
+      }
       if (cameraData.nearClipPlane !== undefined) {
         this.cameraComponent.nearClipPlane = cameraData.nearClipPlane as number;
       }
       if (cameraData.farClipPlane !== undefined) {
         this.cameraComponent.farClipPlane = cameraData.farClipPlane as number;
       }
+      if (cameraData.clearFlags !== undefined) {
+        this.cameraComponent.clearFlags = cameraData.clearFlags as CameraClearFlags;
+      }
+      if (cameraData.backgroundColor !== undefined) {
+        this.cameraComponent.backgroundColor = [...(cameraData.backgroundColor as [number, number, number])];
+      }
       if (cameraData.target !== undefined) {
         this._target = [...(cameraData.target as [number, number, number])];
       }
@@ -32,6 +32,7 @@ import type { EventBus } from '@core/EventBus';
 import type { SceneGraph } from '@core/SceneGraph';
 import type { ProjectService } from '@core/ProjectService';
 import type { IImporter, ImportOptions, ImportResult } from '@core/interfaces';
+import { pickFile } from '@utils/files';
 
 /**
  * Result of an import operation.
@@ -302,22 +303,7 @@ export class ImportController {
    * Used for browsers without File System Access API support.
    */
   private showFallbackFilePicker(): Promise<File | null> {
-    return new Promise((resolve) => {
-      const input = document.createElement('input');
-      input.type = 'file';
-      input.accept = this.buildFallbackAcceptList();
-
-      input.onchange = () => {
-        const file = input.files?.[0] ?? null;
-        resolve(file);
-      };
-
-      input.oncancel = () => {
-        resolve(null);
-      };
-
-      input.click();
-    });
+    return pickFile(this.buildFallbackAcceptList());
   }
 
   /**
@@ -4,6 +4,9 @@
  * Tracks mouse state, keyboard modifiers, and emits normalized input events.
  * Used by navigation controllers and interaction systems.
  *
+ * Key events are read in the capture phase, so a listener can consume() a
+ * key before editor shortcuts (registered on window) see it.
+ *
  * @example
  * ```typescript
  * const inputManager = new InputManager(canvas, eventBus);
@@ -73,6 +76,17 @@ export interface WheelEvent {
   modifiers: ModifierState;
 }
 
+/**
+ * Keyboard event data.
+ */
+export interface KeyEvent {
+  key: string;
+  code: string;
+  modifiers: ModifierState;
+  /** Keep this key from reaching other keyboard handlers (keyDown only) */
+  consume(): void;
+}
+
 /**
  * Centralized input manager for viewport interactions.
  * Tracks mouse state, keyboard modifiers, and emits normalized events.
@@ -95,6 +109,7 @@ export class InputManager {
     wheel: (e: globalThis.WheelEvent) => void;
     keyDown: (e: KeyboardEvent) => void;
     keyUp: (e: KeyboardEvent) => void;
+    blur: () => void;
     contextMenu: (e: Event) => void;
   };
 
@@ -116,6 +131,7 @@ export class InputManager {
       wheel: this.handleWheel.bind(this),
       keyDown: this.handleKeyDown.bind(this),
       keyUp: this.handleKeyUp.bind(this),
+      blur: this.handleBlur.bind(this),
       contextMenu: this.handleContextMenu.bind(this),
     };
 
@@ -166,9 +182,12 @@ export class InputManager {
     window.addEventListener('mousemove', this.boundHandlers.mouseMove);
     window.addEventListener('mouseup', this.boundHandlers.mouseUp);
 
-    // Keyboard events on window
-    window.addEventListener('keydown', this.boundHandlers.keyDown);
-    window.addEventListener('keyup', this.boundHandlers.keyUp);
+    // Keyboard events on window, captured ahead of shortcut handlers
+    window.addEventListener('keydown', this.boundHandlers.keyDown, true);
+    window.addEventListener('keyup', this.boundHandlers.keyUp, true);
+
+    // Key releases are missed while the window is unfocused
+    window.addEventListener('blur', this.boundHandlers.blur);
   }
 
   private detachListeners(): void {
@@ -178,8 +197,9 @@ export class InputManager {
 
     window.removeEventListener('mousemove', this.boundHandlers.mouseMove);
     window.removeEventListener('mouseup', this.boundHandlers.mouseUp);
-    window.removeEventListener('keydown', this.boundHandlers.keyDown);
-    window.removeEventListener('keyup', this.boundHandlers.keyUp);
+    window.removeEventListener('keydown', this.boundHandlers.keyDown, true);
+    window.removeEventListener('keyup', this.boundHandlers.keyUp, true);
+    window.removeEventListener('blur', this.boundHandlers.blur);
   }
 
   private handleMouseDown(e: globalThis.MouseEvent): void {
@@ -302,11 +322,20 @@ export class InputManager {
   private handleKeyDown(e: KeyboardEvent): void {
     this.updateModifiers(e);
 
+    let consumed = false;
     this.eventBus.emit('input:keyDown', {
       key: e.key,
       code: e.code,
       modifiers: { ...this.modifiers },
-    });
+      consume: () => {
+        consumed = true;
+      },
+    } as KeyEvent);
+
+    if (consumed) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+    }
   }
 
   private handleKeyUp(e: KeyboardEvent): void {
@@ -316,7 +345,13 @@ export class InputManager {
       key: e.key,
       code: e.code,
       modifiers: { ...this.modifiers },
-    });
+      consume: () => {},
+    } as KeyEvent);
+  }
+
+  private handleBlur(): void {
+    this.modifiers = { alt: false, ctrl: false, shift: false, meta: false };
+    this.eventBus.emit('input:blur');
   }
 
   private handleContextMenu(e: Event): void {
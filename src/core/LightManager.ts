@@ -5,15 +5,26 @@
  * Used by renderers to gather light data for shader uniforms.
  *
  * Supports multiple light types:
- * - Directional lights (direction from transform rotation)
- * - Point lights (future)
- * - Spot lights (future)
+ * - Directional lights (direction from world rotation)
+ * - Point lights (world position, falloff within range)
+ * - Spot lights (world position and direction, cone falloff)
+ *
+ * Positions and directions include the transforms of parent objects.
+ *
+ * Shadow settings are passed through unchanged; the renderer decides which
+ * lights actually get shadow maps.
+ *
+ * Ambient light comes from the scene environment settings when a
+ * SceneEnvironment is provided.
  */
 
 import type { EventBus } from '@core/EventBus';
 import type { SceneGraph } from '@core/SceneGraph';
-import type { ILightComponent, LightType } from '@core/interfaces/ILightComponent';
+import type { SceneEnvironment } from '@core/SceneEnvironment';
+import type { ILightComponent, LightType, ShadowResolution } from '@core/interfaces/ILightComponent';
 import { isLightDirectionProvider } from '@core/interfaces/ILightComponent';
+import type { ISceneObject } from '@core/interfaces/ISceneObject';
+import { getObjectWorldMatrix } from '@core/interfaces/ISceneObject';
 
 /**
  * Light data structure for shader uniforms.
@@ -31,18 +42,26 @@ export interface LightData {
   enabled: boolean;
   /** Range for point/spot lights */
   range?: number;
-  /** Spot angle for spot lights */
+  /** Full outer cone angle in degrees for spot lights */
   spotAngle?: number;
+  /** Inner cone angle as a fraction of spotAngle for spot lights */
+  innerSpotRatio?: number;
+  /** Whether the light casts shadows */
+  castShadows?: boolean;
+  /** Shadow strength (0-1) */
+  shadowStrength?: number;
+  /** Shadow depth bias in world units */
+  shadowBias?: number;
+  /** Shadow normal offset bias in world units */
+  shadowNormalBias?: number;
+  /** Shadow map resolution in texels per side */
+  shadowResolution?: ShadowResolution;
 }
 
 /**
  * Internal representation of a light entity.
  */
-interface LightEntity {
-  id: string;
-  transform: {
-    position: [number, number, number];
-  };
+interface LightEntity extends ISceneObject {
   hasComponent(type: string): boolean;
   getComponent<T>(type: string): T | null;
   getWorldDirection?(): [number, number, number];
@@ -56,11 +75,18 @@ interface LightEntity {
 export interface LightManagerConfig {
   eventBus: EventBus;
   sceneGraph: SceneGraph;
+  /** Scene environment providing the ambient light (optional) */
+  sceneEnvironment?: SceneEnvironment;
 }
 
 /**
- * Maximum number of lights supported in shaders.
- * Keep in sync with ForwardRenderer MAX_LIGHTS constant.
+ * Ambient light used without a scene environment.
+ */
+const DEFAULT_AMBIENT_COLOR: [number, number, number] = [0.15, 0.15, 0.2]; // Slightly blue ambient
+
+/**
+ * Maximum number of lights supported in forward shaders.
+ * Keep in sync with MAX_LIGHTS in the built-in fragment shaders.
  */
 export const MAX_LIGHTS = 8;
 
@@ -68,7 +94,7 @@ export const MAX_LIGHTS = 8;
  * Manages scene lights and provides light data for rendering.
  *
  * Light direction for directional/spot lights is computed from
- * the entity's transform rotation, NOT stored in the component.
+ * the entity's world rotation, NOT stored in the component.
  *
  * @example
  * ```typescript
@@ -80,21 +106,26 @@ export const MAX_LIGHTS = 8;
 export class LightManager {
   private readonly eventBus: EventBus;
   private readonly sceneGraph: SceneGraph;
+  private readonly sceneEnvironment: SceneEnvironment | null;
   private cachedLights: LightEntity[] = [];
   private isDirty = true;
 
   constructor(config: LightManagerConfig) {
     this.eventBus = config.eventBus;
     this.sceneGraph = config.sceneGraph;
+    this.sceneEnvironment = config.sceneEnvironment ?? null;
 
     this.setupEventListeners();
   }
 
   /**
-   * Get all active lights in the scene.
+   * Get active lights in the scene, in scene order.
    * Returns an array of LightData for shader uniforms.
+   *
+   * @param limit - Maximum number of lights to return. Defaults to the
+   *   forward shader limit; pipelines that batch lights can pass Infinity.
    */
-  getActiveLights(): LightData[] {
+  getActiveLights(limit: number = MAX_LIGHTS): LightData[] {
     if (this.isDirty) {
       this.refreshLightCache();
       this.isDirty = false;
@@ -102,7 +133,7 @@ export class LightManager {
 
     return this.cachedLights
       .filter(light => this.isLightEnabled(light))
-      .slice(0, MAX_LIGHTS)
+      .slice(0, limit)
       .map(light => this.getLightData(light));
   }
 
@@ -131,12 +162,17 @@ export class LightManager {
   }
 
   /**
-   * Get ambient light color.
-   * Currently returns a fixed ambient approximation.
-   * Future: Make configurable via scene settings.
+   * Get all spot lights.
+   */
+  getSpotLights(): LightData[] {
+    return this.getActiveLights().filter(l => l.lightType === 'spot');
+  }
+
+  /**
+   * Get ambient light color, with the scene's ambient intensity applied.
    */
   getAmbientColor(): [number, number, number] {
-    return [0.15, 0.15, 0.2]; // Slightly blue ambient
+    return this.sceneEnvironment?.getAmbientColor() ?? [...DEFAULT_AMBIENT_COLOR];
   }
 
   /**
@@ -231,14 +267,22 @@ export class LightManager {
       ];
     }
 
+    const worldMatrix = getObjectWorldMatrix(light);
+
     return {
       lightType: component?.lightType ?? 'directional',
       direction,
-      position: light.transform.position,
+      position: [worldMatrix[12], worldMatrix[13], worldMatrix[14]],
       color,
       enabled: component?.enabled ?? true,
       range: component?.range,
       spotAngle: component?.spotAngle,
+      innerSpotRatio: component?.innerSpotRatio,
+      castShadows: component?.castShadows,
+      shadowStrength: component?.shadowStrength,
+      shadowBias: component?.shadowBias,
+      shadowNormalBias: component?.shadowNormalBias,
+      shadowResolution: component?.shadowResolution,
     };
   }
 }
@@ -0,0 +1,483 @@
+/**
+ * ProjectArchiveService - Project export/import as a single zip archive
+ *
+ * Packs every file of the open project (sources, .assetmeta files, JSON
+ * assets and `.ready-set-render/project.json`) into a zip archive, and
+ * restores such an archive into a new project through a storage backend.
+ *
+ * Both directions check the archive for:
+ * - Missing files: `.assetmeta` files without their source file, and model
+ *   or texture assets whose `source.projectPath` is not in the archive
+ * - Unresolved references: asset references (`{ uuid, type }`) in JSON
+ *   assets that match no asset in the archive and no built-in asset
+ *
+ * Problems are reported with the result; they do not stop the operation.
+ *
+ * @example
+ * ```typescript
+ * const archiveService = new ProjectArchiveService({
+ *   projectService,
+ *   assetRegistry,
+ *   storageBackend: assetStore.defaultBackend,
+ * });
+ *
+ * const exported = await archiveService.exportProject();
+ * if (exported.success) {
+ *   downloadBlob(exported.blob!, exported.fileName!);
+ * }
+ *
+ * const imported = await archiveService.importProject(zipFile);
+ * console.log(imported.missingFiles, imported.unresolvedReferences);
+ * ```
+ */
+
+import type { AssetRegistry } from './assets/AssetRegistry';
+import { isAssetReference } from './assets/interfaces/IAssetReference';
+import type { IProjectMetadata, IProjectService } from './interfaces/IProjectService';
+import type { IStorageBackend } from './storage/IStorageBackend';
+import { createZip, readZip, ZipFormatError } from '@utils/zip';
+import type { IZipEntry } from '@utils/zip';
+
+/**
+ * Path of the project metadata file inside a project (and its archive).
+ */
+const PROJECT_FILE_PATH = '.ready-set-render/project.json';
+
+/**
+ * An asset reference that does not resolve to any known asset.
+ */
+export interface IUnresolvedReference {
+  /** Archive path of the file containing the reference */
+  path: string;
+  /** UUID of the missing asset */
+  uuid: string;
+  /** Asset type the reference expects */
+  type: string;
+}
+
+/**
+ * Problems found while checking an archive.
+ */
+export interface IProjectArchiveReport {
+  /** Files other files depend on that are not in the archive */
+  missingFiles: string[];
+  /** References to assets that are neither in the archive nor built in */
+  unresolvedReferences: IUnresolvedReference[];
+  /** JSON assets and .assetmeta files that could not be parsed */
+  unreadableFiles: string[];
+}
+
+/**
+ * Result of exporting a project.
+ */
+export interface IProjectExportResult extends Partial<IProjectArchiveReport> {
+  success: boolean;
+  /** The zip archive */
+  blob?: Blob;
+  /** Suggested download name (e.g. "My Project.zip") */
+  fileName?: string;
+  /** Number of files in the archive */
+  fileCount?: number;
+  /** Error message if the export failed */
+  error?: string;
+}
+
+/**
+ * Options for importing a project archive.
+ */
+export interface IProjectImportOptions {
+  /** Backend to create the project in. Default: the service's storage backend */
+  backend?: IStorageBackend;
+  /**
+   * Name for the new project, for backends that store projects by name.
+   * Default: the name in the archive's project.json, made unique.
+   */
+  projectName?: string;
+}
+
+/**
+ * Result of importing a project archive.
+ */
+export interface IProjectImportResult extends Partial<IProjectArchiveReport> {
+  success: boolean;
+  /** Name of the opened project */
+  projectName?: string;
+  /** Number of files written */
+  fileCount?: number;
+  /** Error message if the import failed */
+  error?: string;
+}
+
+/**
+ * Options for creating a ProjectArchiveService.
+ */
+export interface ProjectArchiveServiceOptions {
+  /** Project service that owns the open project */
+  projectService: IProjectService;
+  /** Asset registry, used to recognize built-in assets */
+  assetRegistry: AssetRegistry;
+  /** Backend imported projects are created in */
+  storageBackend: IStorageBackend;
+}
+
+/**
+ * Project archive service implementation.
+ */
+export class ProjectArchiveService {
+  private readonly projectService: IProjectService;
+  private readonly assetRegistry: AssetRegistry;
+  private readonly storageBackend: IStorageBackend;
+
+  constructor(options: ProjectArchiveServiceOptions) {
+    this.projectService = options.projectService;
+    this.assetRegistry = options.assetRegistry;
+    this.storageBackend = options.storageBackend;
+  }
+
+  /**
+   * Pack the open project into a zip archive.
+   */
+  async exportProject(): Promise<IProjectExportResult> {
+    const root = this.projectService.getProjectHandle();
+    if (!this.projectService.isProjectOpen || !root) {
+      return { success: false, error: 'No project is open.' };
+    }
+
+    try {
+      const entries: IZipEntry[] = [];
+      await this.collectFiles(root, '', entries);
+
+      const report = this.checkArchive(entries);
+      const archive = await createZip(entries);
+      const projectName = this.projectService.projectName ?? root.name;
+
+      return {
+        success: true,
+        blob: new Blob([archive], { type: 'application/zip' }),
+        fileName: `${sanitizeFilename(projectName)}.zip`,
+        fileCount: entries.length,
+        ...report,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error exporting project.',
+      };
+    }
+  }
+
+  /**
+   * Restore a project archive into a new project and open it.
+   *
+   * @param archive - The zip file
+   * @param options - Target backend and project name
+   */
+  async importProject(archive: Blob, options: IProjectImportOptions = {}): Promise<IProjectImportResult> {
+    const backend = options.backend ?? this.storageBackend;
+    if (!backend.isSupported()) {
+      return { success: false, error: `${backend.displayName} is not supported in this browser.` };
+    }
+
+    let entries: IZipEntry[];
+    try {
+      entries = stripSharedFolder(await readZip(new Uint8Array(await archive.arrayBuffer())));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof ZipFormatError ? error.message : 'Failed to read the archive.',
+      };
+    }
+
+    const unsafePath = entries.find((entry) => !isSafePath(entry.path));
+    if (unsafePath) {
+      return { success: false, error: `Unsafe path in archive: ${unsafePath.path}` };
+    }
+
+    const projectFile = entries.find((entry) => entry.path === PROJECT_FILE_PATH);
+    const metadata = projectFile ? parseJSON(projectFile.data) : null;
+    if (!projectFile || !isProjectMetadata(metadata)) {
+      return { success: false, error: `The archive is not a project (missing ${PROJECT_FILE_PATH}).` };
+    }
+
+    const report = this.checkArchive(entries);
+
+    let root: FileSystemDirectoryHandle;
+    try {
+      const projectName = options.projectName ?? (await this.getUniqueProjectName(backend, metadata.name));
+      root = await backend.openRoot(projectName);
+      if (!(await isEmptyDirectory(root))) {
+        return {
+          success: false,
+          error: 'The chosen folder is not empty. Choose an empty folder to import the project into.',
+        };
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return { success: false, error: 'User cancelled folder selection.' };
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create the project folder.',
+      };
+    }
+
+    try {
+      // The project is named after its folder, as for newly created projects
+      const renamed: IProjectMetadata = { ...metadata, name: root.name };
+      projectFile.data = new TextEncoder().encode(JSON.stringify(renamed, null, 2));
+
+      for (const entry of entries) {
+        await writeFile(root, entry.path, entry.data);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to write project files: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const openResult = await this.projectService.openProject({ backend: withFixedRoot(backend, root) });
+    if (!openResult.success) {
+      return { success: false, error: openResult.error };
+    }
+
+    return {
+      success: true,
+      projectName: openResult.projectName,
+      fileCount: entries.length,
+      ...report,
+    };
+  }
+
+  /**
+   * Check archive entries for missing files and unresolved asset references.
+   *
+   * @param entries - Archive files
+   */
+  checkArchive(entries: readonly IZipEntry[]): IProjectArchiveReport {
+    const paths = new Set(entries.map((entry) => entry.path));
+    const knownUuids = new Set<string>();
+    const references: IUnresolvedReference[] = [];
+    const missingFiles = new Set<string>();
+    const unreadableFiles: string[] = [];
+
+    for (const asset of this.assetRegistry.getAll()) {
+      if ((asset as { isBuiltIn?: boolean }).isBuiltIn) {
+        knownUuids.add(asset.uuid);
+      }
+    }
+
+    for (const entry of entries) {
+      const isMeta = entry.path.endsWith('.assetmeta');
+      if ((!isMeta && !entry.path.endsWith('.json')) || entry.path === PROJECT_FILE_PATH) {
+        continue;
+      }
+
+      const data = parseJSON(entry.data);
+      if (typeof data !== 'object' || data === null) {
+        unreadableFiles.push(entry.path);
+        continue;
+      }
+
+      if (isMeta) {
+        // A meta defines its own UUID and those of its derived assets
+        collectUuids(data, knownUuids);
+        const sourcePath = entry.path.slice(0, -'.assetmeta'.length);
+        if (!paths.has(sourcePath)) {
+          missingFiles.add(sourcePath);
+        }
+        continue;
+      }
+
+      const asset = data as { uuid?: unknown; source?: { projectPath?: unknown } };
+      if (typeof asset.uuid === 'string') {
+        knownUuids.add(asset.uuid);
+      }
+      const projectPath = asset.source?.projectPath;
+      if (typeof projectPath === 'string' && !paths.has(projectPath)) {
+        missingFiles.add(projectPath);
+      }
+      collectReferences(data, entry.path, data, references);
+    }
+
+    const seen = new Set<string>();
+    const unresolvedReferences = references.filter((reference) => {
+      const key = `${reference.path}\n${reference.uuid}`;
+      if (knownUuids.has(reference.uuid) || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    return {
+      missingFiles: [...missingFiles].sort(),
+      unresolvedReferences,
+      unreadableFiles,
+    };
+  }
+
+  /**
+   * Recursively read every file under a directory.
+   */
+  private async collectFiles(
+    dirHandle: FileSystemDirectoryHandle,
+    relativePath: string,
+    results: IZipEntry[]
+  ): Promise<void> {
+    for await (const [name, handle] of dirHandle.entries()) {
+      const path = relativePath ? `${relativePath}/${name}` : name;
+      if (handle.kind === 'directory') {
+        await this.collectFiles(handle as FileSystemDirectoryHandle, path, results);
+        continue;
+      }
+
+      const file = await (handle as FileSystemFileHandle).getFile();
+      results.push({
+        path,
+        data: new Uint8Array(await file.arrayBuffer()),
+        lastModified: new Date(file.lastModified),
+      });
+    }
+  }
+
+  /**
+   * Pick a project name not yet used in the backend: "Name", "Name (2)", ...
+   */
+  private async getUniqueProjectName(backend: IStorageBackend, name: string): Promise<string> {
+    const existing = new Set(await backend.listProjects());
+    let candidate = name;
+    for (let i = 2; existing.has(candidate); i++) {
+      candidate = `${name} (${i})`;
+    }
+    return candidate;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * A backend that opens an already chosen root, so the project service can
+ * open the imported folder without showing the directory picker again.
+ */
+function withFixedRoot(backend: IStorageBackend, root: FileSystemDirectoryHandle): IStorageBackend {
+  return {
+    kind: backend.kind,
+    displayName: backend.displayName,
+    isSupported: () => true,
+    openRoot: async () => root,
+    listProjects: () => backend.listProjects(),
+    deleteProject: (projectName) => backend.deleteProject(projectName),
+  };
+}
+
+/**
+ * Drop a folder that wraps the whole archive, as produced by zipping a
+ * project folder by hand ("MyProject/assets/..." → "assets/...").
+ */
+function stripSharedFolder(entries: IZipEntry[]): IZipEntry[] {
+  if (entries.length === 0 || entries.some((entry) => entry.path === PROJECT_FILE_PATH)) {
+    return entries;
+  }
+
+  const folder = entries[0].path.split('/')[0];
+  const prefix = `${folder}/`;
+  if (!entries.every((entry) => entry.path.startsWith(prefix))) {
+    return entries;
+  }
+  return entries.map((entry) => ({ ...entry, path: entry.path.slice(prefix.length) }));
+}
+
+function isSafePath(path: string): boolean {
+  if (!path || path.startsWith('/') || path.includes('\\') || /^[a-zA-Z]:/.test(path)) {
+    return false;
+  }
+  return path.split('/').every((part) => part !== '' && part !== '.' && part !== '..');
+}
+
+function isProjectMetadata(value: unknown): value is IProjectMetadata {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as IProjectMetadata).name === 'string' &&
+    typeof (value as IProjectMetadata).version === 'string'
+  );
+}
+
+function parseJSON(data: Uint8Array): unknown {
+  try {
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add every string found under a `uuid` key.
+ */
+function collectUuids(value: unknown, uuids: Set<string>): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectUuids(item, uuids);
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'uuid' && typeof child === 'string') {
+        uuids.add(child);
+      } else {
+        collectUuids(child, uuids);
+      }
+    }
+  }
+}
+
+/**
+ * Collect nested asset references (the asset object itself is skipped).
+ */
+function collectReferences(
+  value: unknown,
+  path: string,
+  root: unknown,
+  results: IUnresolvedReference[]
+): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectReferences(item, path, root, results);
+    return;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return;
+  }
+  if (value !== root && isAssetReference(value)) {
+    results.push({ path, uuid: value.uuid, type: value.type });
+    return;
+  }
+  for (const child of Object.values(value)) {
+    collectReferences(child, path, root, results);
+  }
+}
+
+async function isEmptyDirectory(dirHandle: FileSystemDirectoryHandle): Promise<boolean> {
+  for await (const _name of dirHandle.keys()) {
+    return false;
+  }
+  return true;
+}
+
+async function writeFile(root: FileSystemDirectoryHandle, path: string, data: Uint8Array): Promise<void> {
+  const parts = path.split('/');
+  const fileName = parts.pop()!;
+
+  let dirHandle = root;
+  for (const part of parts) {
+    dirHandle = await dirHandle.getDirectoryHandle(part, { create: true });
+  }
+
+  const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+function sanitizeFilename(name: string): string {
+  return name.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').trim() || 'project';
+}
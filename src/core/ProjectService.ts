@@ -39,10 +39,10 @@
 
 import type { EventBus } from './EventBus';
 import type { AssetRegistry } from './assets/AssetRegistry';
-import type { FileSystemAssetStore } from './assets/FileSystemAssetStore';
 import type {
   IProjectService,
   IProjectMetadata,
+  IProjectOpenOptions,
   IProjectOpenResult,
   IProjectCloseResult,
   ISourceFile,
@@ -52,11 +52,17 @@ import type {
   SourceFilesScannedEvent,
   ProjectRefreshedEvent,
 } from './interfaces/IProjectService';
-import type { IAsset, AssetType } from './assets/interfaces';
+import type { IAsset, AssetType, IAssetStore } from './assets/interfaces';
+import type { IStorageBackend, StorageBackendKind } from './storage/IStorageBackend';
 import type { IModelAsset } from './assets/interfaces/IModelAsset';
 import type { IModelAssetMeta } from './assets/interfaces/IModelAssetMeta';
+import type { ITextureAsset } from './assets/interfaces/ITextureAsset';
+import type { ITextureAssetMeta } from './assets/interfaces/ITextureAssetMeta';
 import { AssetMetaService } from './assets/AssetMetaService';
 import { ModelAssetFactory } from './assets/ModelAssetFactory';
+import { TextureAssetFactory } from './assets/TextureAssetFactory';
+import { SourceHashService } from './assets/SourceHashService';
+import { createTextureImportSettings } from './assets/DefaultImportSettings';
 
 /**
  * Supported source file extensions and their types.
@@ -64,10 +70,10 @@ import { ModelAssetFactory } from './assets/ModelAssetFactory';
 const SOURCE_FILE_EXTENSIONS: Record<string, { type: SourceFileType; format: string }> = {
   '.glb': { type: 'model', format: 'glb' },
   '.gltf': { type: 'model', format: 'gltf' },
-  // Future: texture support
-  // '.png': { type: 'texture', format: 'png' },
-  // '.jpg': { type: 'texture', format: 'jpg' },
-  // '.jpeg': { type: 'texture', format: 'jpeg' },
+  '.png': { type: 'texture', format: 'png' },
+  '.jpg': { type: 'texture', format: 'jpg' },
+  '.jpeg': { type: 'texture', format: 'jpeg' },
+  '.hdr': { type: 'texture', format: 'hdr' },
 };
 
 /**
@@ -117,7 +123,7 @@ export interface ProjectServiceOptions {
   /** Asset registry for managing assets */
   assetRegistry: AssetRegistry;
   /** Asset store for file system operations */
-  assetStore: FileSystemAssetStore;
+  assetStore: IAssetStore;
 }
 
 /**
@@ -126,9 +132,11 @@ export interface ProjectServiceOptions {
 export class ProjectService implements IProjectService {
   private readonly eventBus: EventBus;
   private readonly assetRegistry: AssetRegistry;
-  private readonly assetStore: FileSystemAssetStore;
+  private readonly assetStore: IAssetStore;
   private readonly assetMetaService: AssetMetaService;
   private readonly modelAssetFactory: ModelAssetFactory;
+  private readonly textureAssetFactory: TextureAssetFactory;
+  private readonly sourceHashService: SourceHashService;
 
   private _projectMetadata: IProjectMetadata | undefined;
   private rootHandle: FileSystemDirectoryHandle | null = null;
@@ -148,6 +156,8 @@ export class ProjectService implements IProjectService {
     this.assetStore = options.assetStore;
     this.assetMetaService = new AssetMetaService();
     this.modelAssetFactory = new ModelAssetFactory();
+    this.textureAssetFactory = new TextureAssetFactory();
+    this.sourceHashService = new SourceHashService();
   }
 
   /**
@@ -186,20 +196,72 @@ export class ProjectService implements IProjectService {
   }
 
   /**
-   * Check if the File System Access API is supported.
+   * Where the open project is stored.
+   */
+  get storageKind(): StorageBackendKind | undefined {
+    return this.isProjectOpen ? this.assetStore.backend?.kind : undefined;
+  }
+
+  /**
+   * Check if the default storage backend is supported.
    */
   isSupported(): boolean {
     return this.assetStore.isSupported();
   }
 
+  /**
+   * List the projects kept by a storage backend.
+   */
+  async listProjects(backend: IStorageBackend = this.assetStore.defaultBackend): Promise<string[]> {
+    if (!backend.isSupported()) {
+      return [];
+    }
+    try {
+      return await backend.listProjects();
+    } catch (error) {
+      console.error(`Failed to list projects in ${backend.displayName}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete a project kept by a storage backend.
+   * Closes the project first if it is the one currently open.
+   */
+  async deleteProject(
+    projectName: string,
+    backend: IStorageBackend = this.assetStore.defaultBackend
+  ): Promise<boolean> {
+    if (!backend.isSupported()) {
+      return false;
+    }
+
+    if (this.assetStore.backend === backend && this.rootHandle?.name === projectName) {
+      await this.closeProject();
+    }
+
+    try {
+      const deleted = await backend.deleteProject(projectName);
+      if (deleted && ProjectService.getLastProjectName() === projectName) {
+        this.clearLastProject();
+      }
+      return deleted;
+    } catch (error) {
+      console.error(`Failed to delete project ${projectName} from ${backend.displayName}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Open a project folder.
    */
-  async openProject(): Promise<IProjectOpenResult> {
-    if (!this.isSupported()) {
+  async openProject(options: IProjectOpenOptions = {}): Promise<IProjectOpenResult> {
+    const supported = options.backend ? options.backend.isSupported() : this.isSupported();
+    if (!supported) {
+      const backend = options.backend ?? this.assetStore.defaultBackend;
       return {
         success: false,
-        error: 'File System Access API is not supported in this browser. Please use Chrome or Edge.',
+        error: `${backend.displayName} is not supported in this browser.`,
       };
     }
 
@@ -209,8 +271,11 @@ export class ProjectService implements IProjectService {
     }
 
     try {
-      // Show folder picker via asset store
-      const openResult = await this.assetStore.openFolder();
+      // Show folder picker (or open the named project) via asset store
+      const openResult = await this.assetStore.openFolder({
+        backend: options.backend,
+        folderName: options.projectName,
+      });
       if (!openResult.success) {
         return {
           success: false,
@@ -255,29 +320,37 @@ export class ProjectService implements IProjectService {
       // first open, not only after a fresh import.
       const modelAssets = await this.scanForModelMetas();
 
+      // Register project image files as texture assets so materials can
+      // sample them.
+      const textureAssets = await this.scanForTextureMetas();
+
       // Scan for source files
       const sourceFiles = await this.scanSourceFiles();
 
-      // Remember this project for next session
-      this.saveLastProject(this.rootHandle.name);
+      // Remember this project for next session (in-memory projects do not survive it)
+      const storage = this.assetStore.backend?.kind ?? this.assetStore.defaultBackend.kind;
+      if (storage !== 'memory') {
+        this.saveLastProject(this.rootHandle.name);
+      }
 
       // Emit project opened event
       this.eventBus.emit<ProjectOpenedEvent>('project:opened', {
         projectName: this._projectMetadata.name,
         projectPath: this.rootHandle.name,
-        assetsDiscovered: assets.length + modelAssets.length,
+        assetsDiscovered: assets.length + modelAssets.length + textureAssets.length,
         isNew,
+        storage,
       });
 
       console.log(
-        `Project opened: ${assets.length} assets + ${modelAssets.length} models, ` +
-        `${sourceFiles.length} source files`
+        `Project opened: ${assets.length} assets + ${modelAssets.length} models + ` +
+        `${textureAssets.length} textures, ${sourceFiles.length} source files`
       );
 
       return {
         success: true,
         projectName: this._projectMetadata.name,
-        assetsDiscovered: assets.length + modelAssets.length,
+        assetsDiscovered: assets.length + modelAssets.length + textureAssets.length,
         isNew,
       };
     } catch (error) {
@@ -352,8 +425,8 @@ export class ProjectService implements IProjectService {
 
     const discoveredAssets: IAsset[] = [];
 
-    // List all assets from the store (includes mesh and model assets)
-    const assetTypes: AssetType[] = ['shader', 'material', 'scene', 'texture', 'mesh', 'model'];
+    // List all assets from the store (includes mesh, animation and model assets)
+    const assetTypes: AssetType[] = ['shader', 'material', 'scene', 'texture', 'mesh', 'animation', 'model'];
 
     for (const type of assetTypes) {
       const metadata = await this.assetStore.listAssets(type);
@@ -491,6 +564,132 @@ export class ProjectService implements IProjectService {
     }
   }
 
+  /**
+   * Scan the project for image files (.png/.jpg/.jpeg) and register each
+   * one as an `ITextureAsset`.
+   *
+   * Images that already have a texture `.assetmeta` keep the UUID and import
+   * settings stored there. Images without one get a default meta written
+   * next to them, so material references survive a reload.
+   *
+   * @returns The list of registered `ITextureAsset`s
+   */
+  async scanForTextureMetas(): Promise<ITextureAsset[]> {
+    if (!this.isProjectOpen || !this.rootHandle) {
+      return [];
+    }
+
+    const discovered: ITextureAsset[] = [];
+
+    try {
+      await this.walkForTextureMetas(this.rootHandle, '', discovered);
+    } catch (error) {
+      console.error('Failed to scan for texture metas:', error);
+    }
+
+    return discovered;
+  }
+
+  /**
+   * Recursively walk a directory looking for texture source files and
+   * register them (creating missing `.assetmeta` files on the way).
+   */
+  private async walkForTextureMetas(
+    dirHandle: FileSystemDirectoryHandle,
+    relativePath: string,
+    results: ITextureAsset[]
+  ): Promise<void> {
+    try {
+      for await (const [name, handle] of dirHandle.entries()) {
+        if (handle.kind === 'directory') {
+          if (name.startsWith('.') || name === METADATA_FOLDER) {
+            continue;
+          }
+          const subPath = relativePath ? `${relativePath}/${name}` : name;
+          await this.walkForTextureMetas(
+            handle as FileSystemDirectoryHandle,
+            subPath,
+            results
+          );
+          continue;
+        }
+
+        const fileInfo = SOURCE_FILE_EXTENSIONS[this.getFileExtension(name)];
+        if (handle.kind !== 'file' || fileInfo?.type !== 'texture') {
+          continue;
+        }
+
+        const sourcePath = relativePath ? `${relativePath}/${name}` : name;
+        const meta = await this.readOrCreateTextureMeta(
+          dirHandle,
+          handle as FileSystemFileHandle,
+          sourcePath,
+          fileInfo.format
+        );
+        if (!meta) {
+          continue;
+        }
+
+        const textureAsset = this.textureAssetFactory.fromMeta(meta, name);
+        if (this.assetRegistry.get(textureAsset.uuid)) {
+          this.assetRegistry.unregister(textureAsset.uuid);
+        }
+        this.assetRegistry.register(textureAsset);
+        results.push(textureAsset);
+      }
+    } catch (error) {
+      console.warn(`Failed to walk directory ${relativePath}:`, error);
+    }
+  }
+
+  /**
+   * Read the texture `.assetmeta` for an image, creating a default one if
+   * none exists yet. Dimensions are not known without decoding the image,
+   * so a fresh meta records them as 0. Radiance `.hdr` files are imported
+   * as HDRI environment maps.
+   */
+  private async readOrCreateTextureMeta(
+    dirHandle: FileSystemDirectoryHandle,
+    fileHandle: FileSystemFileHandle,
+    sourcePath: string,
+    format: string
+  ): Promise<ITextureAssetMeta | null> {
+    const filename = fileHandle.name;
+
+    if (await this.assetMetaService.hasMeta(dirHandle, filename)) {
+      const result = await this.assetMetaService.readTextureMeta(dirHandle, filename);
+      if (!result.success || !result.meta) {
+        console.warn(`Failed to read .assetmeta for ${filename}: ${result.error}`);
+        return null;
+      }
+      return result.meta;
+    }
+
+    const file = await fileHandle.getFile();
+    const isHDR = format === 'hdr';
+    const result = await this.assetMetaService.createTextureMeta(
+      dirHandle,
+      filename,
+      sourcePath,
+      this.sourceHashService.computeQuickHash(file),
+      {
+        width: 0,
+        height: 0,
+        format,
+        hasAlpha: format === 'png',
+        bitsPerChannel: isHDR ? 32 : 8,
+        channelCount: format === 'png' ? 4 : 3,
+        isHDR,
+      },
+      isHDR ? createTextureImportSettings('hdri') : undefined
+    );
+    if (!result.success || !result.meta) {
+      console.warn(`Failed to create .assetmeta for ${filename}: ${result.error}`);
+      return null;
+    }
+    return result.meta;
+  }
+
   /**
    * Scan the project folder for source files (e.g., .glb, .gltf).
    * Source files are the original files that can be imported into the editor.
@@ -753,18 +952,21 @@ export class ProjectService implements IProjectService {
     // Rescan source-backed model metas
     const modelAssets = await this.scanForModelMetas();
 
+    // Rescan project image files
+    const textureAssets = await this.scanForTextureMetas();
+
     // Rescan source files
     const sourceFiles = await this.scanSourceFiles();
 
     // Emit refresh event
     this.eventBus.emit<ProjectRefreshedEvent>('project:refreshed', {
-      assetsDiscovered: assets.length + modelAssets.length,
+      assetsDiscovered: assets.length + modelAssets.length + textureAssets.length,
       sourceFilesDiscovered: sourceFiles.length,
     });
 
     console.log(
-      `Project rescanned: ${assets.length} assets + ${modelAssets.length} models, ` +
-      `${sourceFiles.length} source files`
+      `Project rescanned: ${assets.length} assets + ${modelAssets.length} models + ` +
+      `${textureAssets.length} textures, ${sourceFiles.length} source files`
     );
   }
 
@@ -834,6 +1036,13 @@ export class ProjectService implements IProjectService {
       }
     }
 
+    // Texture assets are registered per image file
+    for (const texture of this.assetRegistry.getByType<ITextureAsset>('texture')) {
+      if (texture.source.projectPath) {
+        importedPaths.set(texture.source.projectPath, texture.uuid);
+      }
+    }
+
     // Mark source files that have been imported
     for (const sourceFile of sourceFiles) {
       const modelUuid = importedPaths.get(sourceFile.path);
@@ -9,6 +9,9 @@
  * - Component-specific properties handled by checking hasComponent()
  * - All changes create Commands for undo/redo support
  * - Rapid changes are coalesced (e.g., slider drags become single undo entry)
+ * - Multi-selection edits ('objects:propertyChanged') become one batched undo entry
+ * - Scene environment properties ('environment.ambientColor', ...) edit the
+ *   SceneEnvironment through SceneSettingsChangeCommand
  *
  * Data Flow:
  * 1. PropertiesPanel emits 'object:propertyChanged' event
@@ -35,8 +38,12 @@ import type { SceneGraph } from './SceneGraph';
 import type { CommandHistory } from './commands/CommandHistory';
 import type { ISceneObject, IEntity, IComponent } from './interfaces';
 import type { ICameraComponent } from './interfaces/ICameraComponent';
+import type { ShadowResolution } from './interfaces/ILightComponent';
+import type { SceneEnvironment, SceneEnvironmentProperty } from './SceneEnvironment';
 import { PropertyChangeCommand } from './commands/PropertyChangeCommand';
+import { SceneSettingsChangeCommand } from './commands/SceneSettingsChangeCommand';
 import { isPropertyEditable } from './interfaces';
+import { createAssetReference } from './assets/interfaces/IAssetReference';
 
 /**
  * Property change event payload.
@@ -50,6 +57,18 @@ export interface PropertyChangeEvent {
   value: unknown;
 }
 
+/**
+ * Property change event payload for a multi-selection edit.
+ */
+export interface MultiPropertyChangeEvent {
+  /** Entity IDs to change together */
+  ids: string[];
+  /** Property path (e.g., 'position.x') */
+  property: string;
+  /** New value, applied to every entity */
+  value: unknown;
+}
+
 /**
  * Event payload emitted after a property is updated.
  */
@@ -69,8 +88,15 @@ export interface PropertyChangeHandlerOptions {
   sceneGraph: SceneGraph;
   /** Command history for undo/redo support (optional for backwards compatibility) */
   commandHistory?: CommandHistory;
+  /** Scene environment for 'environment.*' properties (optional) */
+  sceneEnvironment?: SceneEnvironment;
 }
 
+/**
+ * Prefix of scene environment property paths (e.g. 'environment.showGrid').
+ */
+const ENVIRONMENT_PREFIX = 'environment.';
+
 /**
  * Type guard to check if an object is an IEntity.
  */
@@ -93,15 +119,40 @@ export class PropertyChangeHandler {
   private readonly eventBus: EventBus;
   private readonly sceneGraph: SceneGraph;
   private readonly commandHistory: CommandHistory | null;
+  private readonly sceneEnvironment: SceneEnvironment | null;
 
   constructor(options: PropertyChangeHandlerOptions) {
     this.eventBus = options.eventBus;
     this.sceneGraph = options.sceneGraph;
     this.commandHistory = options.commandHistory ?? null;
+    this.sceneEnvironment = options.sceneEnvironment ?? null;
 
     // Bind and subscribe to property change events
     this.handlePropertyChange = this.handlePropertyChange.bind(this);
+    this.handleMultiPropertyChange = this.handleMultiPropertyChange.bind(this);
     this.eventBus.on('object:propertyChanged', this.handlePropertyChange);
+    this.eventBus.on('objects:propertyChanged', this.handleMultiPropertyChange);
+  }
+
+  /**
+   * Handle a property change for several entities at once.
+   * All changes are combined into a single undo entry.
+   */
+  private handleMultiPropertyChange(event: MultiPropertyChangeEvent): void {
+    const { ids, property, value } = event;
+
+    if (!this.commandHistory) {
+      for (const id of ids) {
+        this.handlePropertyChange({ id, property, value });
+      }
+      return;
+    }
+
+    this.commandHistory.beginBatch();
+    for (const id of ids) {
+      this.handlePropertyChange({ id, property, value });
+    }
+    this.commandHistory.endBatch(`Change ${property} of ${ids.length} objects`);
   }
 
   /**
@@ -111,6 +162,12 @@ export class PropertyChangeHandler {
   private handlePropertyChange(event: PropertyChangeEvent): void {
     const { id, property, value } = event;
 
+    // Scene environment settings are edited on the scene root
+    if (property.startsWith(ENVIRONMENT_PREFIX)) {
+      this.handleEnvironmentChange(property.slice(ENVIRONMENT_PREFIX.length), value);
+      return;
+    }
+
     // Find the entity in the scene graph
     const entity = this.sceneGraph.find(id);
     if (!entity) {
@@ -139,6 +196,34 @@ export class PropertyChangeHandler {
     }
   }
 
+  /**
+   * Handle a scene environment setting change.
+   */
+  private handleEnvironmentChange(property: string, value: unknown): void {
+    if (!this.sceneEnvironment) {
+      console.warn('PropertyChangeHandler: No scene environment for environment properties');
+      return;
+    }
+    if (!(property in this.sceneEnvironment.getSettings())) {
+      console.warn(`PropertyChangeHandler: Unknown environment property '${property}'`);
+      return;
+    }
+
+    const key = property as SceneEnvironmentProperty;
+    const newValue = this.normalizeValue(`${ENVIRONMENT_PREFIX}${property}`, value) as never;
+
+    if (this.commandHistory) {
+      this.commandHistory.execute(new SceneSettingsChangeCommand({
+        environment: this.sceneEnvironment,
+        property: key,
+        oldValue: this.sceneEnvironment.get(key),
+        newValue,
+      }));
+    } else {
+      this.sceneEnvironment.set(key, newValue);
+    }
+  }
+
   /**
    * Get the current value of a property from an entity.
    * Used to capture old value before applying changes.
@@ -225,8 +310,12 @@ export class PropertyChangeHandler {
     if (!cameraComponent) return undefined;
 
     switch (property) {
+      case 'projection':
+        return cameraComponent.projection;
       case 'fieldOfView':
         return cameraComponent.fieldOfView;
+      case 'orthographicSize':
+        return cameraComponent.orthographicSize;
       case 'nearClipPlane':
         return cameraComponent.nearClipPlane;
       case 'farClipPlane':
@@ -293,6 +382,12 @@ export class PropertyChangeHandler {
       enabled?: boolean;
       range?: number;
       spotAngle?: number;
+      innerSpotRatio?: number;
+      castShadows?: boolean;
+      shadowStrength?: number;
+      shadowBias?: number;
+      shadowNormalBias?: number;
+      shadowResolution?: ShadowResolution;
     };
 
     switch (property) {
@@ -308,6 +403,18 @@ export class PropertyChangeHandler {
         return light.range;
       case 'spotAngle':
         return light.spotAngle;
+      case 'innerSpotRatio':
+        return light.innerSpotRatio;
+      case 'castShadows':
+        return light.castShadows;
+      case 'shadowStrength':
+        return light.shadowStrength;
+      case 'shadowBias':
+        return light.shadowBias;
+      case 'shadowNormalBias':
+        return light.shadowNormalBias;
+      case 'shadowResolution':
+        return light.shadowResolution;
       default:
         return undefined;
     }
@@ -318,9 +425,10 @@ export class PropertyChangeHandler {
    * Converts hex colors to RGB arrays, etc.
    */
   private normalizeValue(property: string, value: unknown): unknown {
-    // Convert hex color strings to RGB arrays for camera, material, and light colors
+    // Convert hex color strings to RGB arrays for camera, material, light and scene colors
     if (
-      (property === 'camera.backgroundColor' || property === 'material.color' || property === 'light.color') &&
+      (property === 'camera.backgroundColor' || property === 'material.color' || property === 'light.color' ||
+        property === 'environment.ambientColor' || property === 'environment.backgroundColor') &&
       typeof value === 'string' &&
       value.startsWith('#')
     ) {
@@ -331,6 +439,11 @@ export class PropertyChangeHandler {
       return [r, g, b];
     }
 
+    // The environment map picker sends a texture UUID, or '' for none
+    if (property === 'environment.environmentMap' && typeof value === 'string') {
+      return value ? createAssetReference(value, 'texture') : null;
+    }
+
     return value;
   }
 
@@ -473,12 +586,24 @@ export class PropertyChangeHandler {
     if (!cameraComponent) return false;
 
     switch (property) {
+      case 'projection':
+        if (value === 'perspective' || value === 'orthographic') {
+          cameraComponent.projection = value;
+          return true;
+        }
+        break;
       case 'fieldOfView':
         if (typeof value === 'number') {
           cameraComponent.fieldOfView = value;
           return true;
         }
         break;
+      case 'orthographicSize':
+        if (typeof value === 'number') {
+          cameraComponent.orthographicSize = value;
+          return true;
+        }
+        break;
       case 'nearClipPlane':
         if (typeof value === 'number') {
           cameraComponent.nearClipPlane = value;
@@ -590,5 +715,6 @@ export class PropertyChangeHandler {
    */
   dispose(): void {
     this.eventBus.off('object:propertyChanged', this.handlePropertyChange);
+    this.eventBus.off('objects:propertyChanged', this.handleMultiPropertyChange);
   }
 }
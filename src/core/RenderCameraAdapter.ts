@@ -21,8 +21,9 @@
  */
 
 import type { ICamera } from './interfaces';
+import type { CameraClearFlags, CameraProjection } from './interfaces/ICameraComponent';
 import type { CameraEntity } from './CameraEntity';
-import { mat4Perspective, mat4LookAt, mat4Multiply, degToRad } from '@utils/math/transforms';
+import { mat4Perspective, mat4Orthographic, mat4LookAt, mat4Multiply, degToRad } from '@utils/math/transforms';
 
 /**
  * Adapter that bridges CameraEntity to ICamera interface.
@@ -44,6 +45,8 @@ export class RenderCameraAdapter implements ICamera {
   private _lastFov: number = 0;
   private _lastNear: number = 0;
   private _lastFar: number = 0;
+  private _lastProjection: CameraProjection = 'perspective';
+  private _lastOrthographicSize: number = 0;
 
   /**
    * Create a new RenderCameraAdapter.
@@ -110,6 +113,34 @@ export class RenderCameraAdapter implements ICamera {
     return this.entity.getCameraComponent().farClipPlane;
   }
 
+  /**
+   * Projection mode.
+   */
+  get projection(): CameraProjection {
+    return this.entity.getCameraComponent().projection;
+  }
+
+  /**
+   * Half the vertical view size for orthographic projection.
+   */
+  get orthographicSize(): number {
+    return this.entity.getCameraComponent().orthographicSize;
+  }
+
+  /**
+   * What to clear before rendering.
+   */
+  get clearFlags(): CameraClearFlags {
+    return this.entity.getCameraComponent().clearFlags;
+  }
+
+  /**
+   * Background color for 'solidColor' clears.
+   */
+  get backgroundColor(): [number, number, number] {
+    return this.entity.getCameraComponent().backgroundColor;
+  }
+
   // =========================================
   // Aspect ratio setter
   // =========================================
@@ -149,24 +180,40 @@ export class RenderCameraAdapter implements ICamera {
 
   /**
    * Get the projection matrix.
-   * Recomputes if FOV, aspect, near, or far has changed.
+   * Recomputes if the projection mode, FOV, orthographic size, aspect,
+   * near, or far has changed.
    */
   getProjectionMatrix(): Float32Array {
     this.checkProjectionDirty();
 
     if (this._projectionMatrixDirty) {
-      this._projectionMatrix = mat4Perspective(
-        this.fov,
-        this._aspect,
-        this.near,
-        this.far
-      );
+      if (this.projection === 'orthographic') {
+        const halfHeight = this.orthographicSize;
+        const halfWidth = halfHeight * this._aspect;
+        this._projectionMatrix = mat4Orthographic(
+          -halfWidth,
+          halfWidth,
+          -halfHeight,
+          halfHeight,
+          this.near,
+          this.far
+        );
+      } else {
+        this._projectionMatrix = mat4Perspective(
+          this.fov,
+          this._aspect,
+          this.near,
+          this.far
+        );
+      }
       this._projectionMatrixDirty = false;
 
       // Update cache
       this._lastFov = this.fov;
       this._lastNear = this.near;
       this._lastFar = this.far;
+      this._lastProjection = this.projection;
+      this._lastOrthographicSize = this.orthographicSize;
     }
 
     return this._projectionMatrix;
@@ -213,7 +260,9 @@ export class RenderCameraAdapter implements ICamera {
     if (
       this.fov !== this._lastFov ||
       this.near !== this._lastNear ||
-      this.far !== this._lastFar
+      this.far !== this._lastFar ||
+      this.projection !== this._lastProjection ||
+      this.orthographicSize !== this._lastOrthographicSize
     ) {
       this._projectionMatrixDirty = true;
     }
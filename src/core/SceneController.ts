@@ -24,19 +24,25 @@
  *
  * // Save As (always prompts for file location)
  * await sceneController.saveSceneAs();
+ *
+ * // Export as glTF binary (requires the gltfExporter option)
+ * await sceneController.exportSceneAsGLTF();
  * ```
  */
 
 import type { EventBus } from './EventBus';
 import type { SceneGraph } from './SceneGraph';
 import type { PrimitiveRegistry } from '@plugins/primitives';
+import type { GLTFExporter } from '@plugins/exporters/gltf/GLTFExporter';
 import { SceneAssetFactory } from './assets/SceneAssetFactory';
 import type { ISceneAsset } from './assets/interfaces/ISceneAsset';
+import type { SceneEnvironment, SceneEnvironmentChangedEvent } from './SceneEnvironment';
 import { showConfirmDialog } from '@ui/components/ConfirmDialog';
 import {
   SceneLauncherExporter,
   SCENE_LAUNCHER_PROTOCOL,
 } from './SceneLauncherExporter';
+import { downloadBlob } from '@utils/files';
 
 /**
  * Scene file type options for the file picker.
@@ -84,6 +90,10 @@ export interface SceneControllerOptions {
   sceneGraph: SceneGraph;
   /** Primitive registry for creating default content */
   primitiveRegistry: PrimitiveRegistry;
+  /** glTF exporter used by File > Export (export is unavailable without it) */
+  gltfExporter?: GLTFExporter;
+  /** Environment that receives the settings of each loaded scene (optional) */
+  sceneEnvironment?: SceneEnvironment;
 }
 
 /**
@@ -102,6 +112,8 @@ export class SceneController {
   private readonly eventBus: EventBus;
   private readonly sceneGraph: SceneGraph;
   private readonly primitiveRegistry: PrimitiveRegistry;
+  private readonly gltfExporter: GLTFExporter | null;
+  private readonly sceneEnvironment: SceneEnvironment | null;
 
   /** Current scene asset (in-memory representation) */
   private currentScene: ISceneAsset | null = null;
@@ -119,11 +131,14 @@ export class SceneController {
     this.eventBus = options.eventBus;
     this.sceneGraph = options.sceneGraph;
     this.primitiveRegistry = options.primitiveRegistry;
+    this.gltfExporter = options.gltfExporter ?? null;
+    this.sceneEnvironment = options.sceneEnvironment ?? null;
 
     // Create initial scene asset
     this.currentScene = SceneAssetFactory.create({
       name: SceneController.DEFAULT_SCENE_NAME,
     });
+    this.sceneEnvironment?.load(this.currentScene.settings);
 
     // Listen for scene changes to mark as dirty
     this.setupDirtyTracking();
@@ -182,6 +197,7 @@ export class SceneController {
     this.currentScene = SceneAssetFactory.create({
       name: SceneController.DEFAULT_SCENE_NAME,
     });
+    this.sceneEnvironment?.load(this.currentScene.settings);
 
     // Reset file handle and dirty state
     this.fileHandle = null;
@@ -244,6 +260,7 @@ export class SceneController {
       // when dirty tracking fires during entity addition
       this.currentScene = sceneAsset;
       this.fileHandle = handle;
+      this.sceneEnvironment?.load(sceneAsset.settings);
 
       // Clear and load into scene graph
       const entities = SceneAssetFactory.loadIntoSceneGraph(sceneAsset, this.sceneGraph, true);
@@ -365,22 +382,14 @@ export class SceneController {
    */
   async exportSceneAsHTML(editorUrl?: string): Promise<SceneOperationResult> {
     try {
-      // Update scene entities from current scene graph state
-      if (!this.currentScene) {
-        this.currentScene = SceneAssetFactory.createFromSceneGraph(
-          this.sceneGraph,
-          this.sceneName
-        );
-      } else {
-        SceneAssetFactory.updateEntities(this.currentScene, this.sceneGraph);
-      }
+      const scene = this.updateSceneAsset();
 
       // Default to GitHub Pages deployment URL
       const url = editorUrl ?? 'https://neupher.github.io/ready-set-render';
 
       // Generate HTML
       const html = SceneLauncherExporter.generateHTML({
-        scene: this.currentScene,
+        scene,
         editorUrl: url,
       });
 
@@ -397,6 +406,40 @@ export class SceneController {
     }
   }
 
+  /**
+   * Export the current scene as a glTF binary (.glb) file.
+   * Exported files open in Blender and other glTF 2.0 tools.
+   *
+   * @returns Result indicating success or error
+   */
+  async exportSceneAsGLTF(): Promise<SceneOperationResult> {
+    if (!this.gltfExporter) {
+      return { success: false, error: 'glTF export is not available.' };
+    }
+
+    try {
+      this.eventBus.emit('scene:serializing');
+      const result = await this.gltfExporter.export(this.sceneGraph, {
+        format: 'glb',
+        sceneName: this.sceneName,
+      });
+
+      for (const warning of result.warnings) {
+        console.warn(`glTF export: ${warning}`);
+      }
+
+      const filename = `${this.sanitizeFilename(this.sceneName)}${result.fileExtension}`;
+      downloadBlob(new Blob([result.data], { type: result.mimeType }), filename);
+
+      console.log(`Scene exported as glTF: ${filename}`);
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error exporting scene.';
+      console.error('Failed to export scene as glTF:', message);
+      return { success: false, error: message };
+    }
+  }
+
   /**
    * Load a scene from scene data (used when receiving from launcher via postMessage).
    *
@@ -408,6 +451,7 @@ export class SceneController {
       // Update current scene BEFORE loading entities
       this.currentScene = sceneData;
       this.fileHandle = null; // No file handle for launcher-loaded scenes
+      this.sceneEnvironment?.load(sceneData.settings);
 
       // Clear and load into scene graph
       const entities = SceneAssetFactory.loadIntoSceneGraph(sceneData, this.sceneGraph, true);
@@ -456,6 +500,33 @@ export class SceneController {
 
     // Track transform changes (from gizmos)
     this.eventBus.on('command:executed', () => this.markDirty());
+
+    // Track scene environment edits (loading a scene's settings is not an edit)
+    this.eventBus.on<SceneEnvironmentChangedEvent>('scene:environmentChanged', (data) => {
+      if (data.property) this.markDirty();
+    });
+  }
+
+  /**
+   * Bring the scene asset up to date with the scene graph.
+   * Emits 'scene:serializing' first, so previews that pose objects
+   * (animation playback) can restore the transforms being saved.
+   */
+  private updateSceneAsset(): ISceneAsset {
+    this.eventBus.emit('scene:serializing');
+
+    if (!this.currentScene) {
+      this.currentScene = SceneAssetFactory.createFromSceneGraph(
+        this.sceneGraph,
+        this.sceneName
+      );
+    } else {
+      SceneAssetFactory.updateEntities(this.currentScene, this.sceneGraph);
+    }
+    if (this.sceneEnvironment) {
+      this.currentScene.settings = this.sceneEnvironment.toSceneSettings();
+    }
+    return this.currentScene;
   }
 
   /**
@@ -463,18 +534,10 @@ export class SceneController {
    */
   private async saveToHandle(handle: FileSystemFileHandle): Promise<SceneOperationResult> {
     try {
-      // Update scene entities from current scene graph state
-      if (!this.currentScene) {
-        this.currentScene = SceneAssetFactory.createFromSceneGraph(
-          this.sceneGraph,
-          this.sceneName
-        );
-      } else {
-        SceneAssetFactory.updateEntities(this.currentScene, this.sceneGraph);
-      }
+      const scene = this.updateSceneAsset();
 
       // Serialize to JSON
-      const json = SceneAssetFactory.toJSON(this.currentScene, true);
+      const json = SceneAssetFactory.toJSON(scene, true);
 
       // Write to file
       const writable = await handle.createWritable();
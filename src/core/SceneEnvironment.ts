@@ -0,0 +1,162 @@
+/**
+ * SceneEnvironment
+ *
+ * Runtime copy of the open scene's settings (`ISceneAsset.settings`):
+ * ambient light, background color, grid visibility and the HDRI environment
+ * map used for image-based lighting. SceneController
+ * loads it when a scene is created or opened and writes it back when the
+ * scene is saved; renderers, the light manager and the grid read from it.
+ *
+ * Edits from the Properties Panel go through SceneSettingsChangeCommand so
+ * they can be undone.
+ *
+ * @example
+ * ```typescript
+ * const environment = new SceneEnvironment({ eventBus });
+ *
+ * environment.load(sceneAsset.settings);
+ * environment.set('ambientIntensity', 0.5);
+ *
+ * eventBus.on('scene:environmentChanged', ({ property, settings }) => {
+ *   console.log(`${property ?? 'all settings'} changed`, settings);
+ * });
+ * ```
+ */
+
+import type { EventBus } from './EventBus';
+import type { ISceneSettings } from './assets/interfaces/ISceneAsset';
+import { createDefaultSceneSettings } from './assets/interfaces/ISceneAsset';
+import { isAssetReference } from './assets/interfaces/IAssetReference';
+
+/**
+ * Scene settings with every field present.
+ */
+export type SceneEnvironmentSettings = Required<ISceneSettings>;
+
+/**
+ * Name of an environment setting.
+ */
+export type SceneEnvironmentProperty = keyof SceneEnvironmentSettings;
+
+/**
+ * Payload of the 'scene:environmentChanged' event.
+ */
+export interface SceneEnvironmentChangedEvent {
+  /** The changed setting, or null when a scene's settings were loaded */
+  property: SceneEnvironmentProperty | null;
+  /** All settings after the change */
+  settings: Readonly<SceneEnvironmentSettings>;
+}
+
+/**
+ * Options for creating a SceneEnvironment.
+ */
+export interface SceneEnvironmentOptions {
+  /** Event bus for change notifications */
+  eventBus: EventBus;
+}
+
+/**
+ * Scene environment settings of the open scene.
+ */
+export class SceneEnvironment {
+  private readonly eventBus: EventBus;
+  private settings: SceneEnvironmentSettings;
+
+  constructor(options: SceneEnvironmentOptions) {
+    this.eventBus = options.eventBus;
+    this.settings = withDefaults({});
+  }
+
+  /**
+   * Get all settings.
+   */
+  getSettings(): Readonly<SceneEnvironmentSettings> {
+    return this.settings;
+  }
+
+  /**
+   * Get a copy of the settings for serialization into a scene asset.
+   */
+  toSceneSettings(): ISceneSettings {
+    return cloneSettings(this.settings);
+  }
+
+  /**
+   * Get a single setting.
+   *
+   * @param property - Setting name
+   */
+  get<P extends SceneEnvironmentProperty>(property: P): SceneEnvironmentSettings[P] {
+    return this.settings[property];
+  }
+
+  /**
+   * Change a single setting.
+   * Emits 'scene:environmentChanged' if the value differs.
+   *
+   * @param property - Setting name
+   * @param value - New value
+   */
+  set<P extends SceneEnvironmentProperty>(property: P, value: SceneEnvironmentSettings[P]): void {
+    if (valuesEqual(this.settings[property], value)) {
+      return;
+    }
+
+    this.settings[property] = cloneSettings({ [property]: value })[property] as SceneEnvironmentSettings[P];
+    this.emitChanged(property);
+  }
+
+  /**
+   * Replace all settings with those of a scene.
+   * Missing fields fall back to the scene defaults.
+   *
+   * @param settings - Settings stored in the scene asset
+   */
+  load(settings: ISceneSettings = {}): void {
+    this.settings = withDefaults(settings);
+    this.emitChanged(null);
+  }
+
+  /**
+   * Ambient light color with the ambient intensity applied.
+   */
+  getAmbientColor(): [number, number, number] {
+    const [r, g, b] = this.settings.ambientColor;
+    const intensity = this.settings.ambientIntensity;
+    return [r * intensity, g * intensity, b * intensity];
+  }
+
+  private emitChanged(property: SceneEnvironmentProperty | null): void {
+    this.eventBus.emit<SceneEnvironmentChangedEvent>('scene:environmentChanged', {
+      property,
+      settings: this.settings,
+    });
+  }
+}
+
+function withDefaults(settings: ISceneSettings): SceneEnvironmentSettings {
+  const defined = Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined)
+  ) as ISceneSettings;
+  return cloneSettings({ ...createDefaultSceneSettings(), ...defined }) as SceneEnvironmentSettings;
+}
+
+function cloneSettings(settings: ISceneSettings): ISceneSettings {
+  return {
+    ...settings,
+    ambientColor: settings.ambientColor && [...settings.ambientColor],
+    backgroundColor: settings.backgroundColor && [...settings.backgroundColor],
+    environmentMap: settings.environmentMap && { ...settings.environmentMap },
+  };
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  if (isAssetReference(a) && isAssetReference(b)) {
+    return a.uuid === b.uuid;
+  }
+  return a === b;
+}
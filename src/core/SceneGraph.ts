@@ -281,12 +281,14 @@ export class SceneGraph implements IScene {
   }
 
   /**
-   * Move an object to a new parent.
+   * Move an object to a new parent, or to a new position among its siblings.
    *
    * @param object - The object to move
    * @param newParent - The new parent object
+   * @param index - Optional position among the new parent's children,
+   *   counted after the object is removed (defaults to last)
    */
-  reparent(object: ISceneObject, newParent: ISceneObject): void {
+  reparent(object: ISceneObject, newParent: ISceneObject, index?: number): void {
     if (object === this.root) {
       console.warn('Cannot reparent root scene object');
       return;
@@ -310,7 +312,11 @@ export class SceneGraph implements IScene {
     const oldParent = object.parent;
     this.removeFromParent(object);
 
-    newParent.children.push(object);
+    if (index === undefined || index < 0 || index >= newParent.children.length) {
+      newParent.children.push(object);
+    } else {
+      newParent.children.splice(index, 0, object);
+    }
     object.parent = newParent;
 
     this.eventBus.emit('scene:objectReparented', {
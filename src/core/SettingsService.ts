@@ -52,11 +52,62 @@ export interface GridSettings {
   opacity: number;
 }
 
+/**
+ * Transform gizmo snapping configuration.
+ * Holding Ctrl while dragging inverts `enabled`.
+ */
+export interface SnapSettings {
+  /** Whether gizmo drags snap by default */
+  enabled: boolean;
+  /** Translation increment (world units) */
+  translateIncrement: number;
+  /** Rotation increment (degrees) */
+  rotateIncrement: number;
+  /** Scale increment */
+  scaleIncrement: number;
+}
+
+/**
+ * Post-processing configuration for the forward and deferred renderers.
+ * Effects need float render targets (EXT_color_buffer_float); without them
+ * the renderers tone map in their shaders and these settings are ignored.
+ */
+export interface RendererSettings {
+  /** Exposure multiplier applied before tone mapping */
+  exposure: number;
+  /** ACES filmic tone mapping (colors are clamped when off) */
+  toneMapping: boolean;
+  /** Whether pixels brighter than the threshold glow */
+  bloom: boolean;
+  /** HDR brightness above which pixels bloom (1 = white) */
+  bloomThreshold: number;
+  /** Strength of the added bloom */
+  bloomIntensity: number;
+  /** Whether screen-space ambient occlusion darkens creases */
+  ssao: boolean;
+  /** SSAO sample radius (world units) */
+  ssaoRadius: number;
+  /** SSAO darkening exponent */
+  ssaoIntensity: number;
+  /** Whether fast approximate anti-aliasing is applied */
+  fxaa: boolean;
+  /** Whether the color grading values below are applied */
+  colorGrading: boolean;
+  /** Contrast around mid gray (1 = unchanged) */
+  contrast: number;
+  /** Saturation (0 = grayscale, 1 = unchanged) */
+  saturation: number;
+  /** White balance from -1 (cool) to 1 (warm) */
+  temperature: number;
+}
+
 /**
  * All application settings.
  */
 export interface AppSettings {
   grid: GridSettings;
+  snap: SnapSettings;
+  renderer: RendererSettings;
 }
 
 /**
@@ -78,6 +129,27 @@ const DEFAULT_SETTINGS: AppSettings = {
     showAxisLines: true,
     opacity: 1.0,
   },
+  snap: {
+    enabled: false,
+    translateIncrement: 1,
+    rotateIncrement: 15,
+    scaleIncrement: 0.1,
+  },
+  renderer: {
+    exposure: 1,
+    toneMapping: true,
+    bloom: true,
+    bloomThreshold: 1,
+    bloomIntensity: 0.6,
+    ssao: false,
+    ssaoRadius: 0.5,
+    ssaoIntensity: 1.5,
+    fxaa: true,
+    colorGrading: false,
+    contrast: 1,
+    saturation: 1,
+    temperature: 0,
+  },
 };
 
 /**
@@ -247,14 +319,17 @@ export class SettingsService {
    */
   private mergeWithDefaults(stored: Partial<AppSettings>): AppSettings {
     const result = structuredClone(DEFAULT_SETTINGS);
-
-    for (const section of Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]) {
+    const mergeSection = <K extends keyof AppSettings>(section: K): void => {
       if (stored[section]) {
         result[section] = {
           ...result[section],
           ...stored[section],
         };
       }
+    };
+
+    for (const section of Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]) {
+      mergeSection(section);
     }
 
     return result;
@@ -511,8 +511,25 @@ export class ShaderEditorService {
       'uCameraPosition',
       'uLightDirections',
       'uLightColors',
+      'uLightPositions',
+      'uLightTypes',
+      'uLightRanges',
+      'uLightSpotCones',
+      'uLightShadows',
+      'uLightShadowBias',
+      'uShadowMaps',
+      'uShadowMatrices',
+      'uSkinned',
+      'uJointMatrices',
       'uLightCount',
       'uAmbientColor',
+      'uIrradianceMap',
+      'uPrefilteredMap',
+      'uBrdfLut',
+      'uPrefilteredMaxLod',
+      'uEnvironmentIntensity',
+      'uUseEnvironment',
+      'uHDROutput',
     ];
 
     for (const name of commonUniforms) {
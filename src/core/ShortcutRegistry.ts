@@ -7,6 +7,12 @@
  * Shortcuts registered:
  * - Delete: Delete selected mesh entities
  * - Shift+D: Duplicate selected cloneable entities
+ * - 0: Look through the selected camera / back to the editor camera
+ * - 1 / 3 / 7: Front / right / top view
+ * - 9: View from the opposite side (1 then 9 for back, 3 then 9 for left,
+ *   7 then 9 for bottom; Chromium reserves Ctrl+1-8 for switching tabs)
+ * - 5: Toggle orthographic / perspective projection
+ * - `: Toggle fly navigation (WASD + right-drag look)
  * - Ctrl+Z / Ctrl+Y / Ctrl+Shift+Z: Undo/Redo (via KeyboardShortcutManager)
  *
  * @example
@@ -27,10 +33,12 @@ import type { SelectionManager } from '@core/SelectionManager';
 import type { SceneGraph } from '@core/SceneGraph';
 import type { EventBus } from '@core/EventBus';
 import type { ISceneObject } from '@core/interfaces';
+import type { StandardView } from '@plugins/navigation/OrbitController';
 import { isCloneable } from '@core/interfaces';
 
 import { DeleteEntityCommand } from '@core/commands/DeleteEntityCommand';
 import { DuplicateEntityCommand } from '@core/commands/DuplicateEntityCommand';
+import { ReparentEntityCommand } from '@core/commands/ReparentEntityCommand';
 
 /**
  * Configuration for editor shortcuts.
@@ -48,6 +56,15 @@ export interface EditorShortcutOptions {
   eventBus: EventBus;
 }
 
+/**
+ * Standard view shortcuts, laid out like the numpad in other DCC tools.
+ */
+const STANDARD_VIEW_SHORTCUTS: Array<{ key: string; view: StandardView; label: string }> = [
+  { key: '1', view: 'front', label: 'Front' },
+  { key: '3', view: 'right', label: 'Right' },
+  { key: '7', view: 'top', label: 'Top' },
+];
+
 /**
  * Check if an object has a specific component.
  * Helper function until IEntity interface is properly defined.
@@ -93,6 +110,53 @@ export function registerEditorShortcuts(options: EditorShortcutOptions): void {
     description: 'Import 3D model',
   });
 
+  // Look through camera shortcut (0, as on the numpad in other DCC tools)
+  shortcutManager.register({
+    key: '0',
+    action: () => {
+      eventBus.emit('command:toggleLookThroughCamera');
+    },
+    description: 'Toggle look through selected camera',
+  });
+
+  // Standard view shortcuts (1/3/7, Ctrl for the opposite side)
+  for (const { key, view, label } of STANDARD_VIEW_SHORTCUTS) {
+    shortcutManager.register({
+      key,
+      action: () => {
+        eventBus.emit('command:setStandardView', { view });
+      },
+      description: `${label} view`,
+    });
+  }
+
+  // Opposite view shortcut (9)
+  shortcutManager.register({
+    key: '9',
+    action: () => {
+      eventBus.emit('command:setOppositeView');
+    },
+    description: 'View from the opposite side',
+  });
+
+  // Orthographic toggle shortcut (5)
+  shortcutManager.register({
+    key: '5',
+    action: () => {
+      eventBus.emit('command:toggleOrthographic');
+    },
+    description: 'Toggle orthographic / perspective',
+  });
+
+  // Fly navigation shortcut (`)
+  shortcutManager.register({
+    key: '`',
+    action: () => {
+      eventBus.emit('command:toggleFlyMode');
+    },
+    description: 'Toggle fly navigation',
+  });
+
   // Delete shortcut (Delete key)
   shortcutManager.register({
     key: 'Delete',
@@ -140,12 +204,12 @@ export function registerEditorShortcuts(options: EditorShortcutOptions): void {
     description: 'Duplicate selected objects',
   });
 
-  console.log('Editor shortcuts registered (Delete=delete, Shift+D=duplicate)');
+  console.log('Editor shortcuts registered (Delete=delete, Shift+D=duplicate, 1/3/7/9=views, 5=ortho, `=fly)');
 }
 
 /**
- * Register context menu event handlers for delete/duplicate.
- * These handle requests from the HierarchyPanel context menu.
+ * Register hierarchy event handlers for delete/duplicate/reparent.
+ * These handle requests from the HierarchyPanel context menu and drag-and-drop.
  */
 export function registerContextMenuHandlers(options: EditorShortcutOptions): void {
   const {
@@ -180,5 +244,21 @@ export function registerContextMenuHandlers(options: EditorShortcutOptions): voi
     }
   });
 
+  // Handle reparent/reorder request from hierarchy drag-and-drop
+  eventBus.on('entity:requestReparent', (data: { id: string; parentId: string; index?: number }) => {
+    const entity = sceneGraph.find(data.id);
+    const newParent = sceneGraph.find(data.parentId);
+    if (entity && newParent && entity !== sceneGraph.getRoot()) {
+      const reparentCmd = new ReparentEntityCommand({
+        entity,
+        newParent,
+        index: data.index,
+        sceneGraph,
+        eventBus,
+      });
+      commandHistory.execute(reparentCmd);
+    }
+  });
+
   console.log('Context menu handlers registered');
 }
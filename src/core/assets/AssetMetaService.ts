@@ -47,7 +47,17 @@ import {
   type IModelMetaNode,
   isModelAssetMeta,
 } from './interfaces/IModelAssetMeta';
-import { createDefaultModelImportSettings } from './DefaultImportSettings';
+import {
+  TEXTURE_ASSET_META_VERSION,
+  type ITextureAssetMeta,
+  type ITextureImportSettings,
+  type ITextureProperties,
+  isTextureAssetMeta,
+} from './interfaces/ITextureAssetMeta';
+import {
+  createDefaultModelImportSettings,
+  createDefaultTextureImportSettings,
+} from './DefaultImportSettings';
 
 /**
  * Result of a meta file operation.
@@ -116,6 +126,54 @@ export class AssetMetaService {
     };
   }
 
+  /**
+   * Create a new texture asset meta for a .png/.jpg file.
+   *
+   * @param directoryHandle - Directory containing the source file
+   * @param sourceFilename - Name of the source file (e.g., "wood.png")
+   * @param sourcePath - Relative path from project root (e.g., "sources/textures/wood.png")
+   * @param sourceHash - Hash of the source file for change detection
+   * @param properties - Cached properties of the source image
+   * @param importSettings - Optional custom import settings (defaults used if not provided)
+   * @returns The created texture asset meta
+   */
+  async createTextureMeta(
+    directoryHandle: FileSystemDirectoryHandle,
+    sourceFilename: string,
+    sourcePath: string,
+    sourceHash: string,
+    properties: ITextureProperties,
+    importSettings?: Partial<ITextureImportSettings>
+  ): Promise<AssetMetaResult<ITextureAssetMeta>> {
+    const meta: ITextureAssetMeta = {
+      version: TEXTURE_ASSET_META_VERSION,
+      uuid: generateUUID(),
+      type: 'texture',
+      importedAt: new Date().toISOString(),
+      sourceHash,
+      isDirty: false,
+      sourcePath,
+      importSettings: {
+        ...createDefaultTextureImportSettings(),
+        ...importSettings,
+      },
+      properties,
+    };
+
+    const saveResult = await this.saveMeta(directoryHandle, sourceFilename, meta);
+    if (!saveResult.success) {
+      return {
+        success: false,
+        error: saveResult.error,
+      };
+    }
+
+    return {
+      success: true,
+      meta,
+    };
+  }
+
   /**
    * Read an asset meta file.
    *
@@ -184,6 +242,36 @@ export class AssetMetaService {
     };
   }
 
+  /**
+   * Read a texture asset meta file.
+   *
+   * @param directoryHandle - Directory containing the meta file
+   * @param sourceFilename - Name of the source file (e.g., "wood.png")
+   * @returns The parsed texture asset meta or error
+   */
+  async readTextureMeta(
+    directoryHandle: FileSystemDirectoryHandle,
+    sourceFilename: string
+  ): Promise<AssetMetaResult<ITextureAssetMeta>> {
+    const result = await this.readMeta(directoryHandle, sourceFilename);
+
+    if (!result.success) {
+      return result as AssetMetaResult<ITextureAssetMeta>;
+    }
+
+    if (!isTextureAssetMeta(result.meta)) {
+      return {
+        success: false,
+        error: 'Meta file is not a valid texture asset meta',
+      };
+    }
+
+    return {
+      success: true,
+      meta: result.meta,
+    };
+  }
+
   /**
    * Save an asset meta file.
    *
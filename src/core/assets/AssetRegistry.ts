@@ -80,6 +80,7 @@ export class AssetRegistry {
     this.typeIndex.set('texture', new Set());
     this.typeIndex.set('model', new Set());
     this.typeIndex.set('mesh', new Set());
+    this.typeIndex.set('animation', new Set());
   }
 
   /**
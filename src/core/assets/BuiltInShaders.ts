@@ -50,6 +50,14 @@ const LAMBERT_UNIFORMS: IUniformDeclaration[] = [
     uiType: 'color',
     group: 'Surface',
   },
+  {
+    name: 'uBaseColorMap',
+    type: 'sampler2D',
+    displayName: 'Base Color Map',
+    defaultValue: null,
+    uiType: 'texture',
+    group: 'Surface',
+  },
 ];
 
 /**
@@ -112,6 +120,22 @@ const PBR_UNIFORMS: IUniformDeclaration[] = [
     uiType: 'slider',
     group: 'Surface',
   },
+  {
+    name: 'uBaseColorMap',
+    type: 'sampler2D',
+    displayName: 'Base Color Map',
+    defaultValue: null,
+    uiType: 'texture',
+    group: 'Surface',
+  },
+  {
+    name: 'uMetallicRoughnessMap',
+    type: 'sampler2D',
+    displayName: 'Metallic Roughness Map',
+    defaultValue: null,
+    uiType: 'texture',
+    group: 'Surface',
+  },
   {
     name: 'uEmission',
     type: 'vec3',
@@ -1,9 +1,11 @@
 /**
- * FileSystemAssetStore - File System Access API based asset storage
+ * FileSystemAssetStore - Directory handle based asset storage
  *
- * This store uses the modern File System Access API to persist assets
- * to real files on disk. The user selects a project folder, and assets
- * are stored in a standard directory structure:
+ * This store persists assets as JSON files in a project folder. Where the
+ * folder lives is decided by an IStorageBackend: a real folder picked with
+ * the File System Access API, a folder in the Origin Private File System,
+ * or an in-memory folder. Assets are stored in a standard directory
+ * structure:
  *
  * ```
  * project-folder/
@@ -21,11 +23,11 @@
  *
  * @example
  * ```typescript
- * const store = new FileSystemAssetStore(eventBus);
+ * const store = new FileSystemAssetStore(eventBus, selectStorageBackend());
  *
  * // Check browser support
  * if (!store.isSupported()) {
- *   console.warn('File System Access API not supported');
+ *   console.warn('Storage backend not supported');
  * }
  *
  * // Open project folder
@@ -40,6 +42,7 @@ import type { EventBus } from '../EventBus';
 import type {
   IAssetStore,
   IFolderOpenResult,
+  IFolderOpenOptions,
   IAssetLoadResult,
   IAssetSaveResult,
   IAsset,
@@ -47,12 +50,15 @@ import type {
   IAssetMetadata,
 } from './interfaces';
 import { getAssetFileExtension, isAssetMetadata } from './interfaces';
+import type { IStorageBackend, StorageBackendKind } from '../storage/IStorageBackend';
+import { FileSystemAccessBackend } from '../storage/FileSystemAccessBackend';
 
 /**
  * Event data for store state changes.
  */
 export interface AssetStoreOpenedEvent {
   folderName: string;
+  storage: StorageBackendKind;
 }
 
 export interface AssetStoreClosedEvent {
@@ -69,15 +75,17 @@ const ASSET_FOLDERS: Record<AssetType, string> = {
   texture: 'textures',
   model: 'models',
   mesh: 'meshes',
+  animation: 'animations',
 };
 
 /**
- * File System Access API asset store implementation.
+ * Directory handle based asset store implementation.
  */
 export class FileSystemAssetStore implements IAssetStore {
   private rootHandle: FileSystemDirectoryHandle | null = null;
   private assetsHandle: FileSystemDirectoryHandle | null = null;
   private _folderName: string | undefined;
+  private _backend: IStorageBackend | null = null;
 
   /**
    * Cache of asset folder handles for each type.
@@ -88,8 +96,12 @@ export class FileSystemAssetStore implements IAssetStore {
    * Create a new FileSystemAssetStore.
    *
    * @param eventBus - Event bus for publishing store events
+   * @param defaultBackend - Backend used when openFolder() is given none
    */
-  constructor(private readonly eventBus: EventBus) {}
+  constructor(
+    private readonly eventBus: EventBus,
+    readonly defaultBackend: IStorageBackend = new FileSystemAccessBackend()
+  ) {}
 
   /**
    * Get the root directory handle (for external access like ProjectService).
@@ -113,32 +125,38 @@ export class FileSystemAssetStore implements IAssetStore {
   }
 
   /**
-   * Check if the File System Access API is supported.
+   * Backend of the currently open folder.
+   */
+  get backend(): IStorageBackend | null {
+    return this._backend;
+  }
+
+  /**
+   * Check if the default backend is supported.
    */
   isSupported(): boolean {
-    return 'showDirectoryPicker' in window;
+    return this.defaultBackend.isSupported();
   }
 
   /**
    * Open a folder for asset storage.
    */
-  async openFolder(): Promise<IFolderOpenResult> {
-    if (!this.isSupported()) {
+  async openFolder(options: IFolderOpenOptions = {}): Promise<IFolderOpenResult> {
+    const backend = options.backend ?? this.defaultBackend;
+    if (!backend.isSupported()) {
       return {
         success: false,
-        error: 'File System Access API is not supported in this browser.',
+        error: `${backend.displayName} is not supported in this browser.`,
       };
     }
 
     try {
-      // Show the directory picker
-      const handle = await window.showDirectoryPicker({
-        mode: 'readwrite',
-        startIn: 'documents',
-      });
+      // Show the directory picker, or open the named folder
+      const handle = await backend.openRoot(options.folderName);
 
       this.rootHandle = handle;
       this._folderName = handle.name;
+      this._backend = backend;
 
       // Create or get the assets directory
       this.assetsHandle = await handle.getDirectoryHandle('assets', { create: true });
@@ -153,6 +171,7 @@ export class FileSystemAssetStore implements IAssetStore {
 
       this.eventBus.emit<AssetStoreOpenedEvent>('assetStore:opened', {
         folderName: handle.name,
+        storage: backend.kind,
       });
 
       return {
@@ -184,6 +203,7 @@ export class FileSystemAssetStore implements IAssetStore {
     this.rootHandle = null;
     this.assetsHandle = null;
     this._folderName = undefined;
+    this._backend = null;
     this.folderHandles.clear();
 
     if (previousName) {
@@ -109,7 +109,17 @@ export class ModelAssetFactory {
           uuid: mat.uuid,
           name: mat.name,
         })),
-        textures: [],
+        textures: (meta.contents.textures ?? []).map((tex) => ({
+          uuid: tex.uuid,
+          name: tex.name,
+          width: tex.width,
+          height: tex.height,
+        })),
+        animations: (meta.contents.animations ?? []).map((anim) => ({
+          uuid: anim.uuid,
+          name: anim.name,
+          duration: anim.duration,
+        })),
       },
       hierarchy: meta.hierarchy.map((node) => this.metaNodeToModelNode(node)),
       description: meta.description,
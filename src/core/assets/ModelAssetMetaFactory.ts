@@ -29,12 +29,16 @@ import {
 import {
   type IDerivedMeshRef,
   type IDerivedMaterialRef,
+  type IDerivedTextureRef,
+  type IDerivedAnimationRef,
 } from './interfaces/IAssetMeta';
 import { createDefaultModelImportSettings } from './DefaultImportSettings';
 import type {
   IGLTFMeshData,
   IGLTFMaterialData,
+  IGLTFTextureData,
   IGLTFNodeData,
+  IGLTFAnimationData,
   IGLTFImportResult,
 } from '@plugins/importers/gltf/GLTFImportService';
 
@@ -67,6 +71,12 @@ export class ModelAssetMetaFactory {
     // Create material references with UUIDs
     const materialRefs = this.createMaterialReferences(gltfResult.materials);
 
+    // Create texture references with UUIDs
+    const textureRefs = this.createTextureReferences(gltfResult.textures ?? []);
+
+    // Create animation references with UUIDs
+    const animationRefs = this.createAnimationReferences(gltfResult.animations ?? []);
+
     // Convert GLTF hierarchy to model meta nodes
     const hierarchy = this.convertHierarchy(gltfResult.hierarchy);
 
@@ -85,6 +95,8 @@ export class ModelAssetMetaFactory {
       contents: {
         meshes: meshRefs,
         materials: materialRefs,
+        textures: textureRefs,
+        animations: animationRefs,
       },
       hierarchy,
     };
@@ -117,6 +129,49 @@ export class ModelAssetMetaFactory {
     }));
   }
 
+  /**
+   * Create texture references from GLTF texture data.
+   * Materials reference these UUIDs from their sampler parameters.
+   */
+  private createTextureReferences(textures: IGLTFTextureData[]): IDerivedTextureRef[] {
+    return textures.map((texture, index) => this.createTextureReference(texture, index));
+  }
+
+  /**
+   * Create a single texture reference with a fresh UUID.
+   */
+  private createTextureReference(texture: IGLTFTextureData, index: number): IDerivedTextureRef {
+    return {
+      uuid: generateUUID(),
+      name: texture.name,
+      sourceIndex: index,
+      width: texture.width,
+      height: texture.height,
+      hasAlpha: texture.mimeType === 'image/png',
+    };
+  }
+
+  /**
+   * Create animation references from GLTF animation data.
+   * Animation assets are created with these UUIDs.
+   */
+  private createAnimationReferences(animations: IGLTFAnimationData[]): IDerivedAnimationRef[] {
+    return animations.map((animation, index) => this.createAnimationReference(animation, index));
+  }
+
+  /**
+   * Create a single animation reference with a fresh UUID.
+   */
+  private createAnimationReference(animation: IGLTFAnimationData, index: number): IDerivedAnimationRef {
+    return {
+      uuid: generateUUID(),
+      name: animation.name,
+      sourceIndex: index,
+      duration: animation.duration,
+      channelCount: animation.channels.length,
+    };
+  }
+
   /**
    * Convert GLTF hierarchy to model meta nodes.
    */
@@ -220,6 +275,54 @@ export class ModelAssetMetaFactory {
     });
   }
 
+  /**
+   * Update texture references in an existing meta with new import data.
+   * Preserves existing UUIDs where possible (matched by sourceIndex).
+   *
+   * @param existingMeta - The existing model asset meta
+   * @param newTextures - New texture data from reimport
+   * @returns Updated texture references
+   */
+  updateTextureReferences(
+    existingMeta: IModelAssetMeta,
+    newTextures: IGLTFTextureData[]
+  ): IDerivedTextureRef[] {
+    const existingByIndex = new Map<number, IDerivedTextureRef>();
+    for (const texture of existingMeta.contents.textures ?? []) {
+      existingByIndex.set(texture.sourceIndex, texture);
+    }
+
+    return newTextures.map((texture, index) => {
+      const updated = this.createTextureReference(texture, index);
+      const existing = existingByIndex.get(index);
+      return existing ? { ...updated, uuid: existing.uuid } : updated;
+    });
+  }
+
+  /**
+   * Update animation references in an existing meta with new import data.
+   * Preserves existing UUIDs where possible (matched by sourceIndex).
+   *
+   * @param existingMeta - The existing model asset meta
+   * @param newAnimations - New animation data from reimport
+   * @returns Updated animation references
+   */
+  updateAnimationReferences(
+    existingMeta: IModelAssetMeta,
+    newAnimations: IGLTFAnimationData[]
+  ): IDerivedAnimationRef[] {
+    const existingByIndex = new Map<number, IDerivedAnimationRef>();
+    for (const animation of existingMeta.contents.animations ?? []) {
+      existingByIndex.set(animation.sourceIndex, animation);
+    }
+
+    return newAnimations.map((animation, index) => {
+      const updated = this.createAnimationReference(animation, index);
+      const existing = existingByIndex.get(index);
+      return existing ? { ...updated, uuid: existing.uuid } : updated;
+    });
+  }
+
   /**
    * Create updated contents for reimport, preserving UUIDs.
    *
@@ -234,6 +337,8 @@ export class ModelAssetMetaFactory {
     return {
       meshes: this.updateMeshReferences(existingMeta, gltfResult.meshes),
       materials: this.updateMaterialReferences(existingMeta, gltfResult.materials),
+      textures: this.updateTextureReferences(existingMeta, gltfResult.textures ?? []),
+      animations: this.updateAnimationReferences(existingMeta, gltfResult.animations ?? []),
     };
   }
 }
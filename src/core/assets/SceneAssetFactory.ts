@@ -32,7 +32,7 @@ import {
   createDefaultSceneSettings,
   SCENE_ASSET_VERSION,
 } from '@core/assets/interfaces/ISceneAsset';
-import { EntitySerializer } from '@core/serialization/EntitySerializer';
+import { EntitySerializer, compareSiblingIndex } from '@core/serialization/EntitySerializer';
 import { generateUUID } from '@utils/uuid';
 
 /**
@@ -142,10 +142,12 @@ export class SceneAssetFactory {
     const entities = EntitySerializer.deserializeEntities(scene.entities);
 
     // Add to scene graph (root entities only, children are added via parent reference)
-    for (const entity of entities) {
-      if (!entity.parent) {
-        sceneGraph.add(entity as ISceneObject);
-      }
+    const siblingIndices = new Map(scene.entities.map((data) => [data.uuid, data.siblingIndex]));
+    const rootEntities = entities
+      .filter((entity) => !entity.parent)
+      .sort((a, b) => compareSiblingIndex(siblingIndices.get(a.id), siblingIndices.get(b.id)));
+    for (const entity of rootEntities) {
+      sceneGraph.add(entity as ISceneObject);
     }
 
     return entities;
@@ -0,0 +1,153 @@
+/**
+ * TextureAssetFactory - Factory for creating texture assets
+ *
+ * Synthesizes `ITextureAsset` entries either from a texture `.assetmeta`
+ * (project image files) or from image data embedded in an imported model.
+ *
+ * @example
+ * ```typescript
+ * const factory = new TextureAssetFactory();
+ *
+ * // Project image file with an existing meta
+ * const wood = factory.fromMeta(woodMeta, 'wood.png');
+ *
+ * // Image embedded in a GLB
+ * const baseColor = factory.createEmbedded({
+ *   uuid: ref.uuid,
+ *   name: 'BaseColor',
+ *   data: new Blob([bytes], { type: 'image/png' }),
+ *   mimeType: 'image/png',
+ *   importSettings: createTextureImportSettings('default'),
+ * });
+ * ```
+ */
+
+import type { ITextureAsset } from './interfaces/ITextureAsset';
+import type { ITextureAssetMeta, ITextureImportSettings } from './interfaces/ITextureAssetMeta';
+import type { IAssetReference } from './interfaces/IAssetReference';
+import { TEXTURE_ASSET_VERSION } from './interfaces/ITextureAsset';
+import { generateUUID } from '../../utils/uuid';
+
+/**
+ * MIME types for supported image extensions.
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.hdr': 'image/vnd.radiance',
+};
+
+/**
+ * Options for creating a texture asset from embedded image data.
+ */
+export interface IEmbeddedTextureCreateOptions {
+  /**
+   * Optional custom UUID. If not provided, one will be generated.
+   */
+  uuid?: string;
+
+  /**
+   * Display name of the texture.
+   */
+  name: string;
+
+  /**
+   * Encoded image bytes.
+   */
+  data: Blob;
+
+  /**
+   * MIME type of the encoded image.
+   */
+  mimeType: string;
+
+  /**
+   * Import settings used when uploading the texture.
+   */
+  importSettings: ITextureImportSettings;
+
+  /**
+   * Reference to the model the texture was extracted from.
+   */
+  parentModelRef?: IAssetReference;
+}
+
+/**
+ * Factory for creating texture assets.
+ */
+export class TextureAssetFactory {
+  /**
+   * Create a texture asset from an on-disk texture `.assetmeta`.
+   *
+   * The returned asset preserves the meta's UUID so material references stay valid.
+   *
+   * @param meta - The deserialized `.assetmeta` contents
+   * @param sourceFilename - Source image filename (e.g., 'wood.png')
+   * @returns An `ITextureAsset` synthesized from the meta
+   */
+  fromMeta(meta: ITextureAssetMeta, sourceFilename: string): ITextureAsset {
+    return {
+      uuid: meta.uuid,
+      name: this.getBaseNameFromFilename(sourceFilename),
+      type: 'texture',
+      version: TEXTURE_ASSET_VERSION,
+      created: meta.importedAt,
+      modified: meta.importedAt,
+      isBuiltIn: false,
+      source: {
+        filename: sourceFilename,
+        projectPath: meta.sourcePath,
+        mimeType: this.getMimeTypeFromFilename(sourceFilename),
+      },
+      importSettings: { ...meta.importSettings },
+      properties: { ...meta.properties },
+    };
+  }
+
+  /**
+   * Create a texture asset for image data embedded in another source file.
+   *
+   * @param options - Creation options
+   * @returns A new in-memory texture asset
+   */
+  createEmbedded(options: IEmbeddedTextureCreateOptions): ITextureAsset {
+    const now = new Date().toISOString();
+
+    return {
+      uuid: options.uuid ?? generateUUID(),
+      name: options.name,
+      type: 'texture',
+      version: TEXTURE_ASSET_VERSION,
+      created: now,
+      modified: now,
+      isBuiltIn: false,
+      source: {
+        filename: options.name,
+        mimeType: options.mimeType,
+      },
+      importSettings: { ...options.importSettings },
+      data: options.data,
+      parentModelRef: options.parentModelRef ? { ...options.parentModelRef } : undefined,
+    };
+  }
+
+  /**
+   * Get the MIME type for an image filename.
+   * Falls back to 'application/octet-stream' for unknown extensions.
+   */
+  getMimeTypeFromFilename(filename: string): string {
+    const dot = filename.lastIndexOf('.');
+    const ext = dot >= 0 ? filename.slice(dot).toLowerCase() : '';
+    return IMAGE_MIME_TYPES[ext] ?? 'application/octet-stream';
+  }
+
+  /**
+   * Get the base name without extension from a filename.
+   */
+  private getBaseNameFromFilename(filename: string): string {
+    const dot = filename.lastIndexOf('.');
+    return dot > 0 ? filename.slice(0, dot) : filename;
+  }
+}
@@ -6,7 +6,7 @@
  *
  * Key components:
  * - AssetRegistry: Central registry for all loaded assets
- * - FileSystemAssetStore: File System Access API based persistence
+ * - FileSystemAssetStore: Persistence to a project folder from a storage backend
  * - MigrationRunner: Schema migration support
  * - ShaderAssetFactory: Factory for creating shader assets
  * - ShaderCompilationService: Service for compiling shader assets
@@ -43,6 +43,7 @@ export type {
   IAssetCreateOptions,
   IAssetStore,
   IFolderOpenResult,
+  IFolderOpenOptions,
   IAssetLoadResult,
   IAssetSaveResult,
   IMigration,
@@ -127,6 +128,10 @@ export type { CreateSceneOptions } from './SceneAssetFactory';
 export { ModelAssetFactory } from './ModelAssetFactory';
 export type { IImportedModelData, IModelCreateOptions } from './ModelAssetFactory';
 
+// Texture Assets
+export { TextureAssetFactory } from './TextureAssetFactory';
+export type { IEmbeddedTextureCreateOptions } from './TextureAssetFactory';
+
 // Re-export scene-related types from interfaces
 export type {
   ISceneAsset,
@@ -157,6 +162,7 @@ export type {
   IMeshAssetReference,
   IMaterialAssetReference,
   ITextureAssetReference,
+  IAnimationAssetReference,
   ModelFormat,
 } from './interfaces';
 
@@ -181,6 +187,32 @@ export {
   MESH_ASSET_VERSION,
 } from './interfaces';
 
+// Re-export animation-related types from interfaces
+export type {
+  IAnimationAsset,
+  IAnimationChannel,
+  AnimationChannelProperty,
+  AnimationInterpolation,
+} from './interfaces';
+
+export {
+  isAnimationAsset,
+  getAnimationChannelStride,
+  sampleAnimationChannel,
+  ANIMATION_ASSET_VERSION,
+} from './interfaces';
+
+// Re-export texture asset types from interfaces
+export type {
+  ITextureAsset,
+  ITextureSource,
+} from './interfaces';
+
+export {
+  isTextureAsset,
+  TEXTURE_ASSET_VERSION,
+} from './interfaces';
+
 // Re-export asset meta types from interfaces (Unity-style .assetmeta files)
 export type {
   IAssetMeta,
@@ -189,6 +221,7 @@ export type {
   IDerivedMeshRef,
   IDerivedMaterialRef,
   IDerivedTextureRef,
+  IDerivedAnimationRef,
   // Model asset meta
   IModelAssetMeta,
   IModelImportSettings,
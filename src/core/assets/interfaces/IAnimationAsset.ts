@@ -0,0 +1,229 @@
+/**
+ * IAnimationAsset - Animation clip asset interface for imported animations
+ *
+ * Represents a keyframed animation clip extracted from an imported 3D model.
+ * Each channel animates one transform property of one node, addressed by
+ * its name path relative to the model root so the clip can be bound to the
+ * entities instantiated from that model.
+ *
+ * Channel values are stored in the project's Z-up coordinate system.
+ * Rotations are unit quaternions [x, y, z, w]; they are converted to Euler
+ * degrees only when applied to an entity.
+ *
+ * @example
+ * ```typescript
+ * const walk: IAnimationAsset = {
+ *   uuid: 'anim-a1b2c3d4-...',
+ *   name: 'Walk',
+ *   type: 'animation',
+ *   version: 1,
+ *   created: '2026-03-02T12:00:00Z',
+ *   modified: '2026-03-02T12:00:00Z',
+ *   isBuiltIn: false,
+ *   duration: 1.2,
+ *   channels: [{
+ *     targetPath: 'Armature/Hips',
+ *     property: 'position',
+ *     interpolation: 'linear',
+ *     times: [0, 0.6, 1.2],
+ *     values: [0, 0, 1, 0, 0, 1.1, 0, 0, 1],
+ *   }],
+ *   parentModelRef: { uuid: 'model-uuid', type: 'model' }
+ * };
+ * ```
+ */
+
+import type { IAsset } from './IAsset';
+import type { IAssetReference } from './IAssetReference';
+import { quatSlerp } from '@utils/math/quaternion';
+import type { Quat } from '@utils/math/quaternion';
+
+/**
+ * Current schema version for animation assets.
+ * Increment when making breaking changes to the animation format.
+ */
+export const ANIMATION_ASSET_VERSION = 1;
+
+/**
+ * Transform property animated by a channel.
+ */
+export type AnimationChannelProperty = 'position' | 'rotation' | 'scale';
+
+/**
+ * Keyframe interpolation mode.
+ * Cubic spline source curves are resampled to 'linear' on import.
+ */
+export type AnimationInterpolation = 'linear' | 'step';
+
+/**
+ * A single animated property of one node.
+ */
+export interface IAnimationChannel {
+  /**
+   * Node name path relative to the model root, joined with '/'
+   * (e.g., 'Armature/Hips/Spine').
+   */
+  targetPath: string;
+
+  /**
+   * Animated transform property.
+   */
+  property: AnimationChannelProperty;
+
+  /**
+   * Interpolation between keyframes.
+   */
+  interpolation: AnimationInterpolation;
+
+  /**
+   * Keyframe times in seconds, ascending.
+   */
+  times: number[];
+
+  /**
+   * Keyframe values as a flat array: 3 components per key for position
+   * and scale, 4 (quaternion x, y, z, w) for rotation.
+   */
+  values: number[];
+}
+
+/**
+ * Animation clip asset interface.
+ */
+export interface IAnimationAsset extends IAsset {
+  /**
+   * Asset type discriminator.
+   */
+  readonly type: 'animation';
+
+  /**
+   * Whether this is a built-in animation.
+   * Imported animations are always isBuiltIn: false.
+   */
+  readonly isBuiltIn: boolean;
+
+  /**
+   * Clip length in seconds (the last keyframe time across all channels).
+   */
+  duration: number;
+
+  /**
+   * Animated channels.
+   */
+  channels: IAnimationChannel[];
+
+  /**
+   * Reference to the parent model asset (for imported animations).
+   */
+  parentModelRef?: IAssetReference;
+
+  /**
+   * Optional description of the animation.
+   */
+  description?: string;
+}
+
+/**
+ * Type guard to check if an object is a valid animation asset.
+ *
+ * @param obj - The object to check
+ * @returns True if the object is a valid IAnimationAsset
+ */
+export function isAnimationAsset(obj: unknown): obj is IAnimationAsset {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const asset = obj as Record<string, unknown>;
+
+  if (
+    asset.type !== 'animation' ||
+    typeof asset.uuid !== 'string' ||
+    typeof asset.name !== 'string' ||
+    typeof asset.version !== 'number' ||
+    typeof asset.isBuiltIn !== 'boolean' ||
+    typeof asset.duration !== 'number' ||
+    !Array.isArray(asset.channels)
+  ) {
+    return false;
+  }
+
+  return asset.channels.every((channel: unknown) => {
+    if (typeof channel !== 'object' || channel === null) {
+      return false;
+    }
+    const c = channel as Record<string, unknown>;
+    return (
+      typeof c.targetPath === 'string' &&
+      (c.property === 'position' || c.property === 'rotation' || c.property === 'scale') &&
+      (c.interpolation === 'linear' || c.interpolation === 'step') &&
+      Array.isArray(c.times) &&
+      Array.isArray(c.values)
+    );
+  });
+}
+
+/**
+ * Number of value components per keyframe for a channel property.
+ *
+ * @param property - The animated property
+ * @returns 4 for rotation quaternions, 3 otherwise
+ */
+export function getAnimationChannelStride(property: AnimationChannelProperty): number {
+  return property === 'rotation' ? 4 : 3;
+}
+
+/**
+ * Sample a channel at a given time.
+ * Times outside the keyframe range clamp to the first/last key. Rotations
+ * are spherically interpolated; other properties are interpolated linearly.
+ *
+ * @param channel - The channel to sample
+ * @param time - Time in seconds
+ * @returns The sampled value (3 or 4 components)
+ */
+export function sampleAnimationChannel(channel: IAnimationChannel, time: number): number[] {
+  const { times, values } = channel;
+  const stride = getAnimationChannelStride(channel.property);
+  const keyCount = times.length;
+
+  if (keyCount === 0) {
+    return [];
+  }
+
+  const keyValue = (key: number): number[] => values.slice(key * stride, key * stride + stride);
+
+  if (keyCount === 1 || time <= times[0]) {
+    return keyValue(0);
+  }
+  if (time >= times[keyCount - 1]) {
+    return keyValue(keyCount - 1);
+  }
+
+  // Binary search for the last key at or before `time`
+  let low = 0;
+  let high = keyCount - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const a = keyValue(low);
+  if (channel.interpolation === 'step') {
+    return a;
+  }
+
+  const b = keyValue(high);
+  const span = times[high] - times[low];
+  const t = span > 0 ? (time - times[low]) / span : 0;
+
+  if (stride === 4) {
+    return quatSlerp(a as Quat, b as Quat, t);
+  }
+
+  return a.map((value, i) => value + (b[i] - value) * t);
+}
@@ -164,6 +164,21 @@ export interface IDerivedTextureRef extends IDerivedAssetRef {
   hasAlpha: boolean;
 }
 
+/**
+ * Extended derived asset reference for animation clips.
+ */
+export interface IDerivedAnimationRef extends IDerivedAssetRef {
+  /**
+   * Clip length in seconds.
+   */
+  duration: number;
+
+  /**
+   * Number of animated channels.
+   */
+  channelCount: number;
+}
+
 /**
  * Type guard to check if an object is a valid asset meta.
  *
@@ -22,7 +22,7 @@
  * Asset type identifiers.
  * Used for type-safe asset handling and file extension mapping.
  */
-export type AssetType = 'shader' | 'material' | 'scene' | 'texture' | 'model' | 'mesh';
+export type AssetType = 'shader' | 'material' | 'scene' | 'texture' | 'model' | 'mesh' | 'animation';
 
 /**
  * Base metadata interface that all assets must implement.
@@ -82,7 +82,7 @@ export function isAssetMetadata(obj: unknown): obj is IAssetMetadata {
     typeof asset.uuid === 'string' &&
     typeof asset.name === 'string' &&
     typeof asset.type === 'string' &&
-    ['shader', 'material', 'scene', 'texture', 'model', 'mesh'].includes(asset.type as string) &&
+    ['shader', 'material', 'scene', 'texture', 'model', 'mesh', 'animation'].includes(asset.type as string) &&
     typeof asset.version === 'number' &&
     typeof asset.created === 'string' &&
     typeof asset.modified === 'string'
@@ -103,6 +103,7 @@ export function getAssetFileExtension(type: AssetType): string {
     texture: '.texture.json',
     model: '.model.json',
     mesh: '.mesh.bin',
+    animation: '.anim.json',
   };
   return extensions[type];
 }
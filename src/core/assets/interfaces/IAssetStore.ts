@@ -2,15 +2,20 @@
  * IAssetStore - Interface for asset persistence backends
  *
  * The asset store provides an abstraction for persisting assets to storage.
- * The primary implementation uses the File System Access API for real file storage.
+ * The primary implementation stores assets as JSON files in a project
+ * folder supplied by an IStorageBackend (a folder on disk, the Origin
+ * Private File System, or memory).
  *
  * @example
  * ```typescript
- * const store = new FileSystemAssetStore(eventBus);
+ * const store = new FileSystemAssetStore(eventBus, selectStorageBackend());
  *
- * // Open a project folder
+ * // Open a project folder with the store's backend
  * await store.openFolder();
  *
+ * // Or with a specific backend
+ * await store.openFolder({ backend: new MemoryStorageBackend(), folderName: 'Scratch' });
+ *
  * // Save an asset
  * await store.saveAsset(myMaterial);
  *
@@ -24,6 +29,23 @@
 
 import type { AssetType, IAssetMetadata } from './IAssetMetadata';
 import type { IAsset } from './IAsset';
+import type { IStorageBackend } from '../../storage/IStorageBackend';
+
+/**
+ * Options for opening a folder.
+ */
+export interface IFolderOpenOptions {
+  /**
+   * Backend to open the folder with. Defaults to the store's default backend.
+   */
+  backend?: IStorageBackend;
+
+  /**
+   * Folder to open or create, for backends that store projects by name.
+   * Ignored by the File System Access backend, which shows a picker.
+   */
+  folderName?: string;
+}
 
 /**
  * Result of a folder open operation.
@@ -100,13 +122,24 @@ export interface IAssetStore {
    */
   readonly folderName: string | undefined;
 
+  /**
+   * Backend used when openFolder() is called without one.
+   */
+  readonly defaultBackend: IStorageBackend;
+
+  /**
+   * Backend of the currently open folder (null when closed).
+   */
+  readonly backend: IStorageBackend | null;
+
   /**
    * Open a folder for asset storage.
-   * Shows a folder picker dialog in supported browsers.
+   * The File System Access backend shows a folder picker dialog.
    *
+   * @param options - Backend and folder name to open
    * @returns Result of the open operation
    */
-  openFolder(): Promise<IFolderOpenResult>;
+  openFolder(options?: IFolderOpenOptions): Promise<IFolderOpenResult>;
 
   /**
    * Close the current folder.
@@ -148,9 +181,16 @@ export interface IAssetStore {
   listAssets(type?: AssetType): Promise<IAssetMetadata[]>;
 
   /**
-   * Check if the File System Access API is supported.
+   * Get the root directory of the open folder.
+   *
+   * @returns The root directory handle, or null if no folder is open
+   */
+  getRootHandle(): FileSystemDirectoryHandle | null;
+
+  /**
+   * Check if the default backend is supported in this browser.
    *
-   * @returns True if the API is available
+   * @returns True if the backend is available
    */
   isSupported(): boolean;
 }
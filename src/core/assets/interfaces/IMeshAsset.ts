@@ -28,6 +28,7 @@
 
 import type { IAsset } from './IAsset';
 import type { IAssetReference } from './IAssetReference';
+import type { MeshIndexFormat } from '@core/interfaces/IMeshData';
 
 /**
  * Current schema version for mesh assets.
@@ -86,12 +87,39 @@ export interface IMeshAsset extends IAsset {
    */
   uvs?: number[];
 
+  /**
+   * Tangents as flat array [tx0, ty0, tz0, tw0, ...] (optional).
+   * w is the bitangent sign: bitangent = cross(normal, tangent) * w.
+   * Length must be (positions.length / 3) * 4 when present.
+   */
+  tangents?: number[];
+
+  /**
+   * Skin joint indices as flat array [j0a, j0b, j0c, j0d, ...] (optional).
+   * Indexes the joints of the skin bound by the MeshEntity.
+   * Length must be (positions.length / 3) * 4 when present.
+   */
+  joints?: number[];
+
+  /**
+   * Skin joint weights as flat array [w0a, w0b, w0c, w0d, ...] (optional).
+   * Length must match joints.length when present.
+   */
+  weights?: number[];
+
   /**
    * Triangle indices (3 indices per triangle).
    * References vertices in the positions/normals/uvs arrays.
    */
   indices: number[];
 
+  /**
+   * Index width the geometry needs on the GPU.
+   * 'uint32' when any index exceeds the 16-bit range; detected from
+   * `indices` when absent (assets written before this field existed).
+   */
+  indexFormat?: MeshIndexFormat;
+
   /**
    * Axis-aligned bounding box for the mesh.
    * Pre-computed for efficient ray picking and culling.
@@ -155,6 +183,14 @@ export function isMeshAsset(obj: unknown): obj is IMeshAsset {
     return false;
   }
 
+  if (
+    asset.indexFormat !== undefined &&
+    asset.indexFormat !== 'uint16' &&
+    asset.indexFormat !== 'uint32'
+  ) {
+    return false;
+  }
+
   // Check bounds
   const bounds = asset.bounds as Record<string, unknown> | null | undefined;
   if (
@@ -123,7 +123,7 @@ export interface IMaterialAssetReference {
 }
 
 /**
- * Reference to a texture asset within a model (future use).
+ * Reference to a texture asset within a model.
  */
 export interface ITextureAssetReference {
   /**
@@ -143,6 +143,26 @@ export interface ITextureAssetReference {
   height?: number;
 }
 
+/**
+ * Reference to an animation clip asset within a model.
+ */
+export interface IAnimationAssetReference {
+  /**
+   * UUID of the animation asset.
+   */
+  uuid: string;
+
+  /**
+   * Display name of the animation clip.
+   */
+  name: string;
+
+  /**
+   * Clip length in seconds.
+   */
+  duration: number;
+}
+
 /**
  * Contents of a model asset - all sub-assets it contains.
  */
@@ -158,9 +178,14 @@ export interface IModelContents {
   materials: IMaterialAssetReference[];
 
   /**
-   * Texture assets (future use).
+   * Texture assets extracted from this model.
    */
   textures?: ITextureAssetReference[];
+
+  /**
+   * Animation clip assets extracted from this model.
+   */
+  animations?: IAnimationAssetReference[];
 }
 
 /**
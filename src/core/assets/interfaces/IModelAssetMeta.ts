@@ -30,7 +30,7 @@
  * ```
  */
 
-import type { IAssetMeta, IDerivedMeshRef, IDerivedMaterialRef, IDerivedTextureRef } from './IAssetMeta';
+import type { IAssetMeta, IDerivedMeshRef, IDerivedMaterialRef, IDerivedTextureRef, IDerivedAnimationRef } from './IAssetMeta';
 import type { ISerializedTransform } from './ISceneAsset';
 
 /**
@@ -135,7 +135,7 @@ export interface IMaterialImportSettings {
 
 /**
  * Animation-specific import settings.
- * Reserved for future animation support.
+ * Applied to node and skeletal animation clips extracted from the model.
  */
 export interface IAnimationImportSettings {
   /**
@@ -152,6 +152,8 @@ export interface IAnimationImportSettings {
 
   /**
    * Sample rate for baking animations (samples per second).
+   * Linear and cubic spline curves are resampled to linear keys at this
+   * rate; step curves keep their keys. 0 keeps the source keys.
    * @default 30
    */
   sampleRate: number;
@@ -184,7 +186,7 @@ export interface IModelImportSettings {
   materials: IMaterialImportSettings;
 
   /**
-   * Animation import options (future).
+   * Animation import options.
    */
   animations: IAnimationImportSettings;
 }
@@ -207,9 +209,14 @@ export interface IModelMetaContents {
   materials: IDerivedMaterialRef[];
 
   /**
-   * Texture references extracted from the model (future).
+   * Texture references extracted from the model.
    */
   textures?: IDerivedTextureRef[];
+
+  /**
+   * Animation clip references extracted from the model.
+   */
+  animations?: IDerivedAnimationRef[];
 }
 
 /**
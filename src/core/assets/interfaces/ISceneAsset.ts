@@ -91,6 +91,22 @@ export interface ISerializedLightComponent extends ISerializedComponent {
   color: [number, number, number];
   intensity: number;
   enabled: boolean;
+  /** Range in world units (point/spot lights) */
+  range?: number;
+  /** Full outer cone angle in degrees (spot lights) */
+  spotAngle?: number;
+  /** Inner cone angle as a fraction of spotAngle (spot lights) */
+  innerSpotRatio?: number;
+  /** Whether the light casts shadows (directional/spot lights) */
+  castShadows?: boolean;
+  /** Shadow strength (0-1) */
+  shadowStrength?: number;
+  /** Shadow depth bias in world units */
+  shadowBias?: number;
+  /** Shadow normal offset bias in world units */
+  shadowNormalBias?: number;
+  /** Shadow map resolution in texels per side */
+  shadowResolution?: number;
 }
 
 /**
@@ -111,7 +127,14 @@ export interface ISerializedCameraComponent extends ISerializedComponent {
 export type SerializedEntityType =
   | 'Cube'
   | 'Sphere'
+  | 'Plane'
+  | 'Cylinder'
+  | 'Cone'
+  | 'Torus'
+  | 'Capsule'
   | 'DirectionalLight'
+  | 'PointLight'
+  | 'SpotLight'
   | 'Camera'
   | 'MeshEntity'
   | 'GroupEntity';
@@ -144,6 +167,12 @@ export interface ISerializedEntity {
    */
   parentUuid?: string;
 
+  /**
+   * Position of the entity among its parent's children.
+   * Used to restore sibling order; entities without it keep array order.
+   */
+  siblingIndex?: number;
+
   /**
    * Entity transform data.
    */
@@ -184,6 +213,17 @@ export interface ISceneSettings {
    * Whether to show the viewport grid.
    */
   showGrid?: boolean;
+
+  /**
+   * HDRI texture used for image-based lighting and the skybox.
+   * Null when the scene has no environment map.
+   */
+  environmentMap?: IAssetReference | null;
+
+  /**
+   * Brightness multiplier for the environment map's lighting and skybox.
+   */
+  environmentIntensity?: number;
 }
 
 /**
@@ -309,5 +349,7 @@ export function createDefaultSceneSettings(): ISceneSettings {
     ambientIntensity: 1.0,
     backgroundColor: [0.15, 0.15, 0.15],
     showGrid: true,
+    environmentMap: null,
+    environmentIntensity: 1.0,
   };
 }
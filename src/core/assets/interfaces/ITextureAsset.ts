@@ -0,0 +1,137 @@
+/**
+ * ITextureAsset - Texture asset interface for sampled image data
+ *
+ * Represents a texture that materials can reference from `sampler2D`
+ * parameters via an `IAssetReference`. Texture assets come from two places:
+ * - Project image files (.png/.jpg) paired with a texture `.assetmeta`
+ * - Images embedded in imported models (e.g., GLB base color maps)
+ *
+ * The image itself is decoded and uploaded lazily by the renderer's
+ * TextureGPUCache using the asset's import settings.
+ *
+ * @example
+ * ```typescript
+ * const wood: ITextureAsset = {
+ *   uuid: 'a1b2c3d4-...',
+ *   name: 'wood',
+ *   type: 'texture',
+ *   version: 1,
+ *   created: '2026-03-04T12:00:00Z',
+ *   modified: '2026-03-04T12:00:00Z',
+ *   isBuiltIn: false,
+ *   source: { filename: 'wood.png', projectPath: 'sources/textures/wood.png', mimeType: 'image/png' },
+ *   importSettings: createDefaultTextureImportSettings(),
+ * };
+ *
+ * material.parameters.uBaseColorMap = { uuid: wood.uuid, type: 'texture' };
+ * ```
+ */
+
+import type { IAsset } from './IAsset';
+import type { IAssetReference } from './IAssetReference';
+import type { ITextureImportSettings, ITextureProperties } from './ITextureAssetMeta';
+
+/**
+ * Current schema version for texture assets.
+ */
+export const TEXTURE_ASSET_VERSION = 1;
+
+/**
+ * Where the texture image comes from.
+ */
+export interface ITextureSource {
+  /**
+   * Original filename (e.g., 'wood.png' or 'BaseColor.png' inside a GLB).
+   */
+  filename: string;
+
+  /**
+   * Relative path from the project root for project image files.
+   * Undefined for textures embedded in another source file.
+   */
+  projectPath?: string;
+
+  /**
+   * MIME type of the encoded image (e.g., 'image/png').
+   */
+  mimeType: string;
+}
+
+/**
+ * Texture asset interface.
+ */
+export interface ITextureAsset extends IAsset {
+  /**
+   * Asset type discriminator.
+   */
+  readonly type: 'texture';
+
+  /**
+   * Whether this is a built-in texture.
+   * Project and imported textures are always isBuiltIn: false.
+   */
+  readonly isBuiltIn: boolean;
+
+  /**
+   * Source image information.
+   */
+  source: ITextureSource;
+
+  /**
+   * Import settings controlling decode, sampling and upload.
+   */
+  importSettings: ITextureImportSettings;
+
+  /**
+   * Cached source properties (dimensions, alpha), when known.
+   */
+  properties?: ITextureProperties;
+
+  /**
+   * Encoded image bytes held in memory for embedded textures.
+   * Like derived mesh data, this is rebuilt from the source file on load
+   * and is never written to disk.
+   */
+  data?: Blob;
+
+  /**
+   * Reference to the parent model asset (for embedded textures).
+   */
+  parentModelRef?: IAssetReference;
+}
+
+/**
+ * Type guard to check if an object is a valid texture asset.
+ *
+ * @param obj - The object to check
+ * @returns True if the object is a valid ITextureAsset
+ */
+export function isTextureAsset(obj: unknown): obj is ITextureAsset {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const asset = obj as Record<string, unknown>;
+
+  if (
+    asset.type !== 'texture' ||
+    typeof asset.uuid !== 'string' ||
+    typeof asset.name !== 'string' ||
+    typeof asset.version !== 'number' ||
+    typeof asset.isBuiltIn !== 'boolean'
+  ) {
+    return false;
+  }
+
+  const source = asset.source as Record<string, unknown> | null | undefined;
+  if (
+    typeof source !== 'object' ||
+    source === null ||
+    typeof source.filename !== 'string' ||
+    typeof source.mimeType !== 'string'
+  ) {
+    return false;
+  }
+
+  return typeof asset.importSettings === 'object' && asset.importSettings !== null;
+}
@@ -4,7 +4,7 @@
  * Extends IAssetMeta with texture-specific import settings.
  * Created alongside .png/.jpg/.tga/.exr files as {filename}.assetmeta
  *
- * This interface is prepared for future texture support but not yet implemented.
+ * Read by ProjectService to register project image files as ITextureAsset entries.
  *
  * @example
  * ```typescript
@@ -27,6 +27,7 @@ export type { IAsset, IAssetCreateOptions } from './IAsset';
 export type {
   IAssetStore,
   IFolderOpenResult,
+  IFolderOpenOptions,
   IAssetLoadResult,
   IAssetSaveResult,
 } from './IAssetStore';
@@ -76,6 +77,7 @@ export type {
   IMeshAssetReference,
   IMaterialAssetReference,
   ITextureAssetReference,
+  IAnimationAssetReference,
   ModelFormat,
 } from './IModelAsset';
 export {
@@ -95,6 +97,20 @@ export {
   MESH_ASSET_VERSION,
 } from './IMeshAsset';
 
+// Animation Assets
+export type {
+  IAnimationAsset,
+  IAnimationChannel,
+  AnimationChannelProperty,
+  AnimationInterpolation,
+} from './IAnimationAsset';
+export {
+  isAnimationAsset,
+  getAnimationChannelStride,
+  sampleAnimationChannel,
+  ANIMATION_ASSET_VERSION,
+} from './IAnimationAsset';
+
 // Asset Meta (Unity-style .assetmeta files)
 export type {
   IAssetMeta,
@@ -103,6 +119,7 @@ export type {
   IDerivedMeshRef,
   IDerivedMaterialRef,
   IDerivedTextureRef,
+  IDerivedAnimationRef,
 } from './IAssetMeta';
 export {
   isAssetMeta,
@@ -150,3 +167,7 @@ export {
   isTextureAssetMeta,
   TEXTURE_ASSET_META_VERSION,
 } from './ITextureAssetMeta';
+
+// Texture Assets
+export type { ITextureAsset, ITextureSource } from './ITextureAsset';
+export { isTextureAsset, TEXTURE_ASSET_VERSION } from './ITextureAsset';
@@ -360,6 +360,22 @@ export class CommandHistory {
 
     // Create composite command
     const composite = new CompositeCommand(commands, description);
+
+    // Coalesce with the previous batch when every sub-command merges
+    // (e.g., slider drags that edit a multi-selection)
+    const lastCommand = this.undoStack[this.undoStack.length - 1];
+    if (
+      lastCommand instanceof CompositeCommand &&
+      lastCommand.canMergeWith(composite) &&
+      composite.timestamp - lastCommand.timestamp < COALESCE_WINDOW_MS
+    ) {
+      this.undoStack.pop();
+      this.undoStack.push(lastCommand.mergeWith(composite));
+      this.clearRedoStack();
+      this.emitStackChanged();
+      return;
+    }
+
     this.undoStack.push(composite);
 
     // Enforce max stack size
@@ -473,4 +489,32 @@ class CompositeCommand implements ICommand {
       this.commands[i].undo();
     }
   }
+
+  /**
+   * Check if another batch can be merged with this one.
+   * Requires the same description and pairwise-mergeable sub-commands.
+   */
+  canMergeWith(other: ICommand): boolean {
+    if (!(other instanceof CompositeCommand)) return false;
+    if (other.description !== this.description) return false;
+    if (other.commands.length !== this.commands.length) return false;
+
+    return this.commands.every((command, i) =>
+      isMergeableCommand(command) && command.canMergeWith(other.commands[i])
+    );
+  }
+
+  /**
+   * Merge this batch with another, sub-command by sub-command.
+   */
+  mergeWith(other: ICommand): ICommand {
+    if (!(other instanceof CompositeCommand)) {
+      return other;
+    }
+
+    const merged = this.commands.map((command, i) =>
+      isMergeableCommand(command) ? command.mergeWith(other.commands[i]) : other.commands[i]
+    );
+    return new CompositeCommand(merged, this.description);
+  }
 }
@@ -3,7 +3,8 @@
  *
  * Command for undoing/redoing entity property changes.
  * Supports all transform properties (position, rotation, scale),
- * component properties (camera, material), and name changes.
+ * component properties (camera, material), name changes and
+ * IPropertyEditable properties (e.g. 'geometry.segments').
  *
  * Features:
  * - Full undo/redo support
@@ -30,6 +31,9 @@ import type { SceneGraph } from '../SceneGraph';
 import type { ICommand } from './ICommand';
 import type { ISceneObject, IEntity, IComponent } from '../interfaces';
 import type { ICameraComponent } from '../interfaces/ICameraComponent';
+import type { ShadowResolution } from '../interfaces/ILightComponent';
+import { SHADOW_RESOLUTIONS } from '../interfaces/ILightComponent';
+import { isPropertyEditable } from '../interfaces';
 
 /**
  * Time window for coalescing rapid property changes (milliseconds).
@@ -122,6 +126,7 @@ export class PropertyChangeCommand implements ICommand {
       .replace('scale.', 'Scale ')
       .replace('camera.', 'Camera ')
       .replace('material.', 'Material ')
+      .replace('geometry.', 'Geometry ')
       .replace('.', ' ');
 
     return `Change ${entityName} ${propDisplay}`;
@@ -172,6 +177,10 @@ export class PropertyChangeCommand implements ICommand {
     else if (this.isComponentProperty(this.property)) {
       success = this.applyComponentValue(entity, value);
     }
+    // Fallback to entities that handle their own properties (e.g. primitive parameters)
+    else if (isPropertyEditable(entity)) {
+      success = entity.setProperty(this.property, value);
+    }
 
     if (success) {
       // Emit update event for UI refresh
@@ -276,12 +285,24 @@ export class PropertyChangeCommand implements ICommand {
     }
 
     switch (property) {
+      case 'projection':
+        if (value === 'perspective' || value === 'orthographic') {
+          cameraComponent.projection = value;
+          return true;
+        }
+        break;
       case 'fieldOfView':
         if (typeof value === 'number') {
           cameraComponent.fieldOfView = value;
           return true;
         }
         break;
+      case 'orthographicSize':
+        if (typeof value === 'number') {
+          cameraComponent.orthographicSize = value;
+          return true;
+        }
+        break;
       case 'nearClipPlane':
         if (typeof value === 'number') {
           cameraComponent.nearClipPlane = value;
@@ -409,6 +430,12 @@ export class PropertyChangeCommand implements ICommand {
       enabled?: boolean;
       range?: number;
       spotAngle?: number;
+      innerSpotRatio?: number;
+      castShadows?: boolean;
+      shadowStrength?: number;
+      shadowBias?: number;
+      shadowNormalBias?: number;
+      shadowResolution?: ShadowResolution;
     };
 
     switch (property) {
@@ -442,6 +469,42 @@ export class PropertyChangeCommand implements ICommand {
           return true;
         }
         break;
+      case 'innerSpotRatio':
+        if (typeof value === 'number') {
+          light.innerSpotRatio = value;
+          return true;
+        }
+        break;
+      case 'castShadows':
+        if (typeof value === 'boolean') {
+          light.castShadows = value;
+          return true;
+        }
+        break;
+      case 'shadowStrength':
+        if (typeof value === 'number') {
+          light.shadowStrength = value;
+          return true;
+        }
+        break;
+      case 'shadowBias':
+        if (typeof value === 'number') {
+          light.shadowBias = value;
+          return true;
+        }
+        break;
+      case 'shadowNormalBias':
+        if (typeof value === 'number') {
+          light.shadowNormalBias = value;
+          return true;
+        }
+        break;
+      case 'shadowResolution':
+        if (SHADOW_RESOLUTIONS.includes(value as ShadowResolution)) {
+          light.shadowResolution = value as ShadowResolution;
+          return true;
+        }
+        break;
     }
 
     return false;
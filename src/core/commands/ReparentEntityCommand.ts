@@ -0,0 +1,162 @@
+/**
+ * ReparentEntityCommand
+ *
+ * Command for undoing/redoing moving an entity in the hierarchy,
+ * either under a new parent or to a new position among its siblings.
+ * Optionally rewrites the local transform so the entity keeps its
+ * world position, rotation and scale.
+ *
+ * @example
+ * ```typescript
+ * const command = new ReparentEntityCommand({
+ *   entity: selectedCube,
+ *   newParent: groupEntity,
+ *   index: 0,
+ *   preserveWorldTransform: true,
+ *   sceneGraph,
+ *   eventBus
+ * });
+ * commandHistory.execute(command);
+ * ```
+ */
+
+import type { EventBus } from '../EventBus';
+import type { SceneGraph } from '../SceneGraph';
+import type { ICommand } from './ICommand';
+import type { ISceneObject, Transform } from '../interfaces';
+import { getObjectWorldMatrix } from '../interfaces';
+import { mat4Decompose, mat4Inverse, mat4Multiply } from '@utils/math/transforms';
+
+export interface ReparentEntityCommandOptions {
+  /** The entity to move */
+  entity: ISceneObject;
+
+  /** The new parent (the scene root for top-level entities) */
+  newParent: ISceneObject;
+
+  /**
+   * Position among the new parent's children, counted after the entity
+   * is removed from its current parent. Defaults to last.
+   */
+  index?: number;
+
+  /**
+   * Whether to keep the entity's world transform by recomputing its
+   * local transform relative to the new parent (default: true).
+   */
+  preserveWorldTransform?: boolean;
+
+  /** Scene graph for entity operations */
+  sceneGraph: SceneGraph;
+
+  /** Event bus for emitting events */
+  eventBus: EventBus;
+}
+
+/**
+ * Copy a transform so later edits don't alias the stored values.
+ */
+function copyTransform(transform: Transform): Transform {
+  return {
+    position: [...transform.position],
+    rotation: [...transform.rotation],
+    scale: [...transform.scale],
+  };
+}
+
+/**
+ * Command for moving an entity within the scene hierarchy.
+ * Stores the previous parent, sibling index and transform for undo.
+ */
+export class ReparentEntityCommand implements ICommand {
+  readonly type = 'ReparentEntity';
+  readonly description: string;
+  readonly timestamp: number;
+
+  private readonly entity: ISceneObject;
+  private readonly newParentId: string;
+  private readonly index: number | undefined;
+  private readonly preserveWorldTransform: boolean;
+  private readonly oldParentId: string | null;
+  private readonly oldIndex: number;
+  private readonly oldTransform: Transform;
+  private readonly sceneGraph: SceneGraph;
+  private readonly eventBus: EventBus;
+
+  constructor(options: ReparentEntityCommandOptions) {
+    this.entity = options.entity;
+    this.newParentId = options.newParent.id;
+    this.index = options.index;
+    this.preserveWorldTransform = options.preserveWorldTransform ?? true;
+    this.sceneGraph = options.sceneGraph;
+    this.eventBus = options.eventBus;
+    this.timestamp = Date.now();
+
+    // Store the current placement for undo
+    this.oldParentId = this.entity.parent?.id ?? null;
+    this.oldIndex = this.entity.parent?.children.indexOf(this.entity) ?? -1;
+    this.oldTransform = copyTransform(this.entity.transform);
+
+    this.description = options.newParent === this.entity.parent
+      ? `Reorder ${this.entity.name}`
+      : `Move ${this.entity.name} to ${options.newParent.name}`;
+  }
+
+  /**
+   * Execute the command (move the entity).
+   */
+  execute(): void {
+    const newParent = this.sceneGraph.find(this.newParentId);
+    if (!newParent) return;
+
+    const worldMatrix = this.preserveWorldTransform
+      ? getObjectWorldMatrix(this.entity)
+      : null;
+
+    this.sceneGraph.reparent(this.entity, newParent, this.index);
+
+    // Reparent refuses circular moves; leave the transform alone then
+    if (this.entity.parent !== newParent) return;
+
+    if (worldMatrix) {
+      const localMatrix = newParent.id === 'root'
+        ? worldMatrix
+        : mat4Multiply(mat4Inverse(getObjectWorldMatrix(newParent)), worldMatrix);
+      this.applyTransform(mat4Decompose(localMatrix));
+    }
+  }
+
+  /**
+   * Undo the command (restore the previous parent, order and transform).
+   */
+  undo(): void {
+    const oldParent = this.oldParentId
+      ? this.sceneGraph.find(this.oldParentId) ?? this.sceneGraph.getRoot()
+      : this.sceneGraph.getRoot();
+
+    this.sceneGraph.reparent(
+      this.entity,
+      oldParent,
+      this.oldIndex >= 0 ? this.oldIndex : undefined
+    );
+
+    if (this.preserveWorldTransform) {
+      this.applyTransform(copyTransform(this.oldTransform));
+    }
+  }
+
+  /**
+   * Write a local transform and notify panels of the new values.
+   */
+  private applyTransform(transform: Transform): void {
+    this.entity.transform.position = transform.position;
+    this.entity.transform.rotation = transform.rotation;
+    this.entity.transform.scale = transform.scale;
+
+    this.eventBus.emit('entity:propertyUpdated', {
+      id: this.entity.id,
+      property: 'transform',
+      entity: this.entity
+    });
+  }
+}
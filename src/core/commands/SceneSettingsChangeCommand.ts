@@ -0,0 +1,127 @@
+/**
+ * SceneSettingsChangeCommand
+ *
+ * Command for undoing/redoing changes to the scene environment settings
+ * (ambient light, background color, grid visibility, environment map).
+ *
+ * Rapid changes to the same setting are coalesced, so dragging the
+ * ambient intensity becomes a single undo entry.
+ *
+ * @example
+ * ```typescript
+ * const command = new SceneSettingsChangeCommand({
+ *   environment: sceneEnvironment,
+ *   property: 'ambientIntensity',
+ *   oldValue: 1,
+ *   newValue: 0.5
+ * });
+ *
+ * commandHistory.execute(command);
+ * ```
+ */
+
+import type { ICommand } from './ICommand';
+import type {
+  SceneEnvironment,
+  SceneEnvironmentProperty,
+  SceneEnvironmentSettings,
+} from '../SceneEnvironment';
+
+/**
+ * Time window for coalescing rapid setting changes (milliseconds).
+ */
+const COALESCE_WINDOW_MS = 300;
+
+/**
+ * Human-readable setting names for undo descriptions.
+ */
+const PROPERTY_LABELS: Record<SceneEnvironmentProperty, string> = {
+  ambientColor: 'Ambient Color',
+  ambientIntensity: 'Ambient Intensity',
+  backgroundColor: 'Background Color',
+  showGrid: 'Show Grid',
+  environmentMap: 'Environment Map',
+  environmentIntensity: 'Environment Intensity',
+};
+
+export interface SceneSettingsChangeCommandOptions<P extends SceneEnvironmentProperty = SceneEnvironmentProperty> {
+  /** Environment of the open scene */
+  environment: SceneEnvironment;
+
+  /** Setting being changed */
+  property: P;
+
+  /** Value before the change */
+  oldValue: SceneEnvironmentSettings[P];
+
+  /** Value after the change */
+  newValue: SceneEnvironmentSettings[P];
+
+  /** Optional timestamp (defaults to Date.now()) */
+  timestamp?: number;
+}
+
+/**
+ * Command for scene environment setting changes.
+ * Supports undo/redo and coalescing.
+ */
+export class SceneSettingsChangeCommand<P extends SceneEnvironmentProperty = SceneEnvironmentProperty>
+  implements ICommand
+{
+  readonly type = 'SceneSettingsChange';
+  readonly description: string;
+  readonly timestamp: number;
+
+  readonly property: P;
+  readonly oldValue: SceneEnvironmentSettings[P];
+  readonly newValue: SceneEnvironmentSettings[P];
+
+  private readonly environment: SceneEnvironment;
+
+  constructor(options: SceneSettingsChangeCommandOptions<P>) {
+    this.environment = options.environment;
+    this.property = options.property;
+    this.oldValue = options.oldValue;
+    this.newValue = options.newValue;
+    this.timestamp = options.timestamp ?? Date.now();
+    this.description = `Change Scene ${PROPERTY_LABELS[this.property]}`;
+  }
+
+  execute(): void {
+    this.environment.set(this.property, this.newValue);
+  }
+
+  undo(): void {
+    this.environment.set(this.property, this.oldValue);
+  }
+
+  canMergeWith(other: ICommand): boolean {
+    if (!(other instanceof SceneSettingsChangeCommand)) {
+      return false;
+    }
+
+    return (
+      other.environment === this.environment &&
+      other.property === this.property &&
+      other.timestamp - this.timestamp < COALESCE_WINDOW_MS
+    );
+  }
+
+  /**
+   * Merge this command with another.
+   * Keeps the original old value and takes the new command's new value.
+   */
+  mergeWith(other: ICommand): ICommand {
+    if (!(other instanceof SceneSettingsChangeCommand)) {
+      return other;
+    }
+
+    return new SceneSettingsChangeCommand<P>({
+      environment: this.environment,
+      property: this.property,
+      oldValue: this.oldValue,
+      newValue: other.newValue as SceneEnvironmentSettings[P],
+      timestamp: other.timestamp,
+    });
+  }
+}
@@ -11,7 +11,8 @@
  *   PropertyChangeCommand,
  *   TextEditCommand,
  *   DeleteEntityCommand,
- *   DuplicateEntityCommand
+ *   DuplicateEntityCommand,
+ *   ReparentEntityCommand
  * } from '@core/commands';
  *
  * const history = new CommandHistory({ eventBus, maxStackSize: 100 });
@@ -47,3 +48,11 @@ export {
   CreateEntityCommand,
   type CreateEntityCommandOptions
 } from './CreateEntityCommand';
+export {
+  ReparentEntityCommand,
+  type ReparentEntityCommandOptions
+} from './ReparentEntityCommand';
+export {
+  SceneSettingsChangeCommand,
+  type SceneSettingsChangeCommandOptions
+} from './SceneSettingsChangeCommand';
@@ -35,7 +35,7 @@ export { Camera } from './Camera';
 
 // Settings
 export { SettingsService } from './SettingsService';
-export type { GridSettings, AppSettings, SettingsServiceOptions } from './SettingsService';
+export type { GridSettings, SnapSettings, RendererSettings, AppSettings, SettingsServiceOptions } from './SettingsService';
 
 // Scene Controller
 export { SceneController } from './SceneController';
@@ -62,6 +62,35 @@ export type {
   ImportOperationResult,
 } from './ImportController';
 
+// Project Archive Service
+export { ProjectArchiveService } from './ProjectArchiveService';
+export type {
+  ProjectArchiveServiceOptions,
+  IProjectArchiveReport,
+  IProjectExportResult,
+  IProjectImportOptions,
+  IProjectImportResult,
+  IUnresolvedReference,
+} from './ProjectArchiveService';
+
+// Scene Environment
+export { SceneEnvironment } from './SceneEnvironment';
+export type {
+  SceneEnvironmentSettings,
+  SceneEnvironmentProperty,
+  SceneEnvironmentChangedEvent,
+  SceneEnvironmentOptions,
+} from './SceneEnvironment';
+
+// Animation Player
+export { AnimationPlayer } from './AnimationPlayer';
+export type {
+  AnimationPlayerOptions,
+  AnimationPlaybackState,
+  AnimationStateChangedEvent,
+  AnimationTimeChangedEvent,
+} from './AnimationPlayer';
+
 // Plugin Manager
 export {
   PluginManager,
@@ -77,6 +106,7 @@ export type {
   RenderPipelineType,
   ICamera,
   IScene,
+  IRenderTarget,
   ISceneObject,
   IRenderable,
   Transform,
@@ -20,6 +20,11 @@ import type { IComponent } from './IComponent';
  */
 export type CameraClearFlags = 'skybox' | 'solidColor' | 'depthOnly' | 'none';
 
+/**
+ * How the camera projects the scene.
+ */
+export type CameraProjection = 'perspective' | 'orthographic';
+
 /**
  * Camera component containing camera-specific data.
  * This is pure data - no methods, no logic.
@@ -28,9 +33,15 @@ export interface ICameraComponent extends IComponent {
   /** Component type identifier */
   readonly type: 'camera';
 
+  /** Projection mode. Default: 'perspective' */
+  projection: CameraProjection;
+
   /** Field of view in degrees (vertical FOV). Default: 60 */
   fieldOfView: number;
 
+  /** Half the vertical view size in world units when orthographic. Default: 5 */
+  orthographicSize: number;
+
   /** Near clipping plane distance. Default: 0.3 */
   nearClipPlane: number;
 
@@ -52,7 +63,9 @@ export interface ICameraComponent extends IComponent {
 export function createDefaultCameraComponent(): ICameraComponent {
   return {
     type: 'camera',
+    projection: 'perspective',
     fieldOfView: 60,
+    orthographicSize: 5,
     nearClipPlane: 0.3,
     farClipPlane: 1000,
     clearFlags: 'solidColor',
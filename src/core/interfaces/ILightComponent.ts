@@ -17,12 +17,40 @@ import type { IComponent } from './IComponent';
  * Supported light types.
  *
  * - directional: Sun-like light from infinite distance (parallel rays)
- * - point: Omni-directional light from a point (future)
- * - spot: Cone-shaped light (future)
+ * - point: Omni-directional light from a point
+ * - spot: Cone-shaped light
  * - area: Area/rectangle light (future)
  */
 export type LightType = 'directional' | 'point' | 'spot' | 'area';
 
+/**
+ * Shadow map resolutions (texels per side) a light can request.
+ */
+export type ShadowResolution = 512 | 1024 | 2048 | 4096;
+
+/**
+ * All selectable shadow map resolutions, smallest first.
+ */
+export const SHADOW_RESOLUTIONS: readonly ShadowResolution[] = [512, 1024, 2048, 4096];
+
+/**
+ * Shadow settings used when a light component leaves them unset.
+ * Biases are in world units.
+ */
+export const DEFAULT_SHADOW_SETTINGS = {
+  strength: 1,
+  bias: 0.05,
+  normalBias: 0.02,
+  resolution: 2048 as ShadowResolution,
+} as const;
+
+/**
+ * Light types that can cast shadows.
+ */
+export function supportsShadows(lightType: LightType): boolean {
+  return lightType === 'directional' || lightType === 'spot';
+}
+
 /**
  * Light component data interface.
  * Implements IComponent for the Entity Component System.
@@ -69,15 +97,31 @@ export interface ILightComponent extends IComponent {
 
   /**
    * Shadow casting enabled.
-   * Future feature - not yet implemented.
+   * Only directional and spot lights cast shadows.
    */
   castShadows?: boolean;
 
   /**
-   * Shadow strength (0-1).
-   * Future feature - not yet implemented.
+   * Shadow strength (0 = no darkening, 1 = fully shadowed).
    */
   shadowStrength?: number;
+
+  /**
+   * Offset toward the light applied before the shadow depth test,
+   * in world units. Raise to remove shadow acne.
+   */
+  shadowBias?: number;
+
+  /**
+   * Offset along the surface normal applied before the shadow depth test,
+   * in world units. Scaled up on surfaces facing away from the light.
+   */
+  shadowNormalBias?: number;
+
+  /**
+   * Shadow map resolution in texels per side.
+   */
+  shadowResolution?: ShadowResolution;
 }
 
 /**
@@ -118,7 +162,11 @@ export function createDefaultDirectionalLightComponent(): ILightComponent {
     color: [1, 1, 1],
     intensity: 1,
     enabled: true,
-    castShadows: false,
+    castShadows: true,
+    shadowStrength: DEFAULT_SHADOW_SETTINGS.strength,
+    shadowBias: DEFAULT_SHADOW_SETTINGS.bias,
+    shadowNormalBias: DEFAULT_SHADOW_SETTINGS.normalBias,
+    shadowResolution: DEFAULT_SHADOW_SETTINGS.resolution,
   };
 }
 
@@ -153,5 +201,10 @@ export function createDefaultSpotLightComponent(): ILightComponent {
     range: 10,
     spotAngle: 30,
     innerSpotRatio: 0.8,
+    castShadows: false,
+    shadowStrength: DEFAULT_SHADOW_SETTINGS.strength,
+    shadowBias: DEFAULT_SHADOW_SETTINGS.bias,
+    shadowNormalBias: DEFAULT_SHADOW_SETTINGS.normalBias,
+    shadowResolution: DEFAULT_SHADOW_SETTINGS.resolution,
   };
 }
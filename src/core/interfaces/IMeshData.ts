@@ -28,6 +28,58 @@ export interface MeshBounds {
   max: Vec3;
 }
 
+/**
+ * Triangle index storage.
+ * Meshes with more vertices than a 16-bit index can address use 32-bit indices.
+ */
+export type MeshIndexArray = Uint16Array | Uint32Array;
+
+/**
+ * Serializable index width tag, stored alongside plain-array index data.
+ */
+export type MeshIndexFormat = 'uint16' | 'uint32';
+
+/**
+ * Largest vertex index that can be stored in a 16-bit index buffer.
+ * 0xFFFF itself is reserved: WebGL2 always enables primitive restart,
+ * so that value ends the current primitive instead of drawing a vertex.
+ */
+export const MAX_UINT16_INDEX = 0xfffe;
+
+/**
+ * Get the narrowest index format that can address every index in a list.
+ *
+ * @param indices - Triangle indices
+ * @returns 'uint16' when all indices fit, otherwise 'uint32'
+ */
+export function getIndexFormat(indices: ArrayLike<number>): MeshIndexFormat {
+  // Loop rather than Math.max(...indices): spreading large arrays overflows the stack
+  for (let i = 0; i < indices.length; i++) {
+    if (indices[i] > MAX_UINT16_INDEX) {
+      return 'uint32';
+    }
+  }
+  return 'uint16';
+}
+
+/**
+ * Create typed index storage for a list of indices.
+ *
+ * A 'uint16' format hint is widened automatically if any index does not fit,
+ * so stale or missing hints never truncate indices.
+ *
+ * @param indices - Triangle indices
+ * @param format - Index width hint (detected from the data when omitted)
+ * @returns A Uint16Array or Uint32Array holding the indices
+ */
+export function createIndexArray(
+  indices: ArrayLike<number>,
+  format?: MeshIndexFormat
+): MeshIndexArray {
+  const resolved = format === 'uint32' ? 'uint32' : getIndexFormat(indices);
+  return resolved === 'uint32' ? new Uint32Array(indices) : new Uint16Array(indices);
+}
+
 /**
  * Geometry data for a mesh.
  * This is a pure data structure with no GPU resources.
@@ -38,10 +90,16 @@ export interface IMeshData {
   positions: Float32Array;
   /** Vertex normals as flat array [nx0, ny0, nz0, nx1, ny1, nz1, ...] */
   normals: Float32Array;
-  /** Triangle indices (3 per triangle) */
-  indices: Uint16Array;
+  /** Triangle indices (3 per triangle), 32-bit for meshes beyond the 16-bit range */
+  indices: MeshIndexArray;
   /** UV coordinates as flat array [u0, v0, u1, v1, ...] (optional) */
   uvs?: Float32Array;
+  /** Tangents as flat array [tx0, ty0, tz0, tw0, ...]; w is the bitangent sign (optional) */
+  tangents?: Float32Array;
+  /** Skin joint indices, 4 per vertex (optional, skinned meshes only) */
+  joints?: Uint16Array;
+  /** Skin joint weights, 4 per vertex (optional, skinned meshes only) */
+  weights?: Float32Array;
   /** Axis-aligned bounding box for the mesh */
   bounds: MeshBounds;
 }
@@ -73,6 +131,13 @@ export interface IMeshProvider {
    * Returns null if wireframe is not supported.
    */
   getEdgeData?(): IEdgeData | null;
+
+  /**
+   * Get skinning matrices, 16 column-major floats per joint, that map
+   * bind-pose vertices into the mesh's model space.
+   * Returns null for meshes that are not skinned.
+   */
+  getJointMatrices?(): Float32Array | null;
 }
 
 /**
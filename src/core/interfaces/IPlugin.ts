@@ -14,6 +14,7 @@ import type { SettingsService } from '../SettingsService';
 import type { LightManager } from '../LightManager';
 import type { ShaderEditorService } from '../ShaderEditorService';
 import type { ProjectService } from '../ProjectService';
+import type { SceneEnvironment } from '../SceneEnvironment';
 
 /**
  * Context provided to plugins during initialization.
@@ -42,6 +43,8 @@ export interface IPluginContext {
   readonly shaderEditorService?: ShaderEditorService;
   /** Project service for project folder operations (optional) */
   readonly projectService?: ProjectService;
+  /** Environment settings of the open scene (optional) */
+  readonly sceneEnvironment?: SceneEnvironment;
 }
 
 /**
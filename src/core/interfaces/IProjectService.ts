@@ -25,6 +25,7 @@
  */
 
 import type { IAsset } from '../assets/interfaces';
+import type { IStorageBackend, StorageBackendKind } from '../storage/IStorageBackend';
 
 /**
  * Supported source file types that can be imported.
@@ -126,6 +127,24 @@ export interface IProjectMetadata {
   modifiedAt: string;
 }
 
+/**
+ * Options for opening a project.
+ */
+export interface IProjectOpenOptions {
+  /**
+   * Storage backend to open the project with.
+   * Defaults to the asset store's default backend.
+   */
+  backend?: IStorageBackend;
+
+  /**
+   * Project to open or create, for backends that store projects by name
+   * (browser storage, memory). The File System Access backend shows a
+   * folder picker instead.
+   */
+  projectName?: string;
+}
+
 /**
  * Result of opening or creating a project.
  */
@@ -179,6 +198,7 @@ export interface ProjectOpenedEvent {
   projectPath: string;
   assetsDiscovered: number;
   isNew: boolean;
+  storage: StorageBackendKind;
 }
 
 /**
@@ -208,17 +228,42 @@ export interface IProjectService {
   readonly projectMetadata: IProjectMetadata | undefined;
 
   /**
-   * Check if the File System Access API is supported.
+   * Where the open project is stored (undefined if no project is open).
+   */
+  readonly storageKind: StorageBackendKind | undefined;
+
+  /**
+   * Check if the default storage backend is supported.
    */
   isSupported(): boolean;
 
   /**
    * Open a project folder.
-   * Shows a folder picker dialog and scans for existing assets.
+   * Shows a folder picker dialog (File System Access backend) or opens the
+   * named project (other backends), then scans for existing assets.
    *
+   * @param options - Storage backend and project name
    * @returns Result of the open operation
    */
-  openProject(): Promise<IProjectOpenResult>;
+  openProject(options?: IProjectOpenOptions): Promise<IProjectOpenResult>;
+
+  /**
+   * List the projects kept by a storage backend.
+   *
+   * @param backend - Backend to ask (defaults to the default backend)
+   * @returns Project names; empty for backends that cannot enumerate projects
+   */
+  listProjects(backend?: IStorageBackend): Promise<string[]>;
+
+  /**
+   * Delete a project kept by a storage backend.
+   * Closes the project first if it is the one currently open.
+   *
+   * @param projectName - Name of the project to delete
+   * @param backend - Backend that keeps the project (defaults to the default backend)
+   * @returns True if the project existed and was deleted
+   */
+  deleteProject(projectName: string, backend?: IStorageBackend): Promise<boolean>;
 
   /**
    * Close the current project.
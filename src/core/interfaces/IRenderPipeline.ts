@@ -6,6 +6,7 @@
  */
 
 import type { IPlugin } from './IPlugin';
+import type { CameraClearFlags, CameraProjection } from './ICameraComponent';
 
 /**
  * Supported render pipeline types.
@@ -30,6 +31,14 @@ export interface ICamera {
   readonly near: number;
   /** Far clipping plane */
   readonly far: number;
+  /** Projection mode. Pipelines treat the camera as perspective when omitted */
+  readonly projection?: CameraProjection;
+  /** Half the vertical view size in world units for orthographic cameras */
+  readonly orthographicSize?: number;
+  /** What to clear before rendering. Pipelines clear color and depth when omitted */
+  readonly clearFlags?: CameraClearFlags;
+  /** Clear color for 'solidColor' (RGB 0-1). Pipelines use their own background when omitted */
+  readonly backgroundColor?: [number, number, number];
 
   /** Get the view matrix */
   getViewMatrix(): Float32Array;
@@ -49,6 +58,23 @@ export interface IScene {
   getRenderables(): unknown[];
 }
 
+/**
+ * Offscreen destination for a pipeline's final image.
+ */
+export interface IRenderTarget {
+  /** Framebuffer with a color and a depth attachment */
+  readonly framebuffer: WebGLFramebuffer;
+  /** Width in pixels */
+  readonly width: number;
+  /** Height in pixels */
+  readonly height: number;
+  /**
+   * True if the target holds float color: pipelines with an HDR path write
+   * linear scene color to it, without tone mapping (default: false)
+   */
+  readonly linear?: boolean;
+}
+
 /**
  * Render pipeline interface.
  * Extends IPlugin to be managed by the PluginManager.
@@ -94,4 +120,12 @@ export interface IRenderPipeline extends IPlugin {
    * @param height - New viewport height in pixels
    */
   resize(width: number, height: number): void;
+
+  /**
+   * Render subsequent frames into an offscreen target instead of the canvas.
+   * The pipeline binds the target and sets its viewport in beginFrame().
+   *
+   * @param target - Target to render into, or null for the default framebuffer
+   */
+  setRenderTarget(target: IRenderTarget | null): void;
 }
@@ -5,6 +5,9 @@
  * All renderable objects must implement this interface.
  */
 
+import { mat4FromTRS, mat4Multiply } from '@utils/math/transforms';
+import type { Mat4 } from '@utils/math/transforms';
+
 /**
  * 3D Transform data structure.
  * Uses tuple types for position, rotation, and scale vectors.
@@ -108,3 +111,73 @@ export function isInitializable(obj: unknown): obj is IInitializable {
     typeof (obj as IInitializable).dispose === 'function'
   );
 }
+
+/**
+ * Get an object's name path: the names from its top-level ancestor down to
+ * the object, joined with '/'. The scene root is not part of the path.
+ *
+ * @param obj - The object
+ * @returns The name path (e.g., 'Armature/Hips/Spine')
+ */
+export function getObjectNamePath(obj: ISceneObject): string {
+  const names: string[] = [];
+  let current: ISceneObject | null = obj;
+  while (current && current.id !== 'root') {
+    names.unshift(current.name);
+    current = current.parent;
+  }
+  return names.join('/');
+}
+
+/**
+ * Check whether a name path refers to a target path. The target may omit
+ * leading ancestors, so 'Armature/Hips' matches 'Character/Armature/Hips'.
+ *
+ * @param namePath - Full name path of an object
+ * @param targetPath - Target path to match
+ * @returns True if the paths match
+ */
+export function matchesNamePath(namePath: string, targetPath: string): boolean {
+  return namePath === targetPath || namePath.endsWith(`/${targetPath}`);
+}
+
+/**
+ * Find the first object in a subtree (depth-first, including the scope
+ * itself) whose name path matches a target path.
+ *
+ * @param scope - Root of the subtree to search
+ * @param targetPath - Target path to match
+ * @returns The matching object, or null if none matches
+ */
+export function findObjectByNamePath(scope: ISceneObject, targetPath: string): ISceneObject | null {
+  const visit = (obj: ISceneObject, namePath: string): ISceneObject | null => {
+    if (matchesNamePath(namePath, targetPath)) {
+      return obj;
+    }
+    for (const child of obj.children) {
+      const found = visit(child, namePath ? `${namePath}/${child.name}` : child.name);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  };
+
+  return visit(scope, getObjectNamePath(scope));
+}
+
+/**
+ * Compute an object's world matrix by combining its local transform with
+ * those of its ancestors. The scene root does not contribute.
+ *
+ * @param obj - The object
+ * @returns The world matrix
+ */
+export function getObjectWorldMatrix(obj: ISceneObject): Mat4 {
+  const { position, rotation, scale } = obj.transform;
+  const local = mat4FromTRS(position, rotation, scale);
+  if (!obj.parent || obj.parent.id === 'root') {
+    return local;
+  }
+  return mat4Multiply(getObjectWorldMatrix(obj.parent), local);
+}
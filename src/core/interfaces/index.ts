@@ -15,6 +15,7 @@ export type {
   RenderPipelineType,
   ICamera,
   IScene,
+  IRenderTarget,
 } from './IRenderPipeline';
 export type {
   ISceneObject,
@@ -22,7 +23,14 @@ export type {
   Transform,
   IInitializable,
 } from './ISceneObject';
-export { createDefaultTransform, isInitializable } from './ISceneObject';
+export {
+  createDefaultTransform,
+  isInitializable,
+  getObjectNamePath,
+  matchesNamePath,
+  findObjectByNamePath,
+  getObjectWorldMatrix,
+} from './ISceneObject';
 export type { IImporter, ImportOptions, ImportResult } from './IImporter';
 
 // Entity Component System
@@ -31,18 +39,30 @@ export type { IEntity } from './IEntity';
 export { isEntity } from './IEntity';
 export type { IMeshComponent } from './IMeshComponent';
 export type { IMaterialComponent } from './IMaterialComponent';
-export type { ICameraComponent, CameraClearFlags } from './ICameraComponent';
+export type { ICameraComponent, CameraClearFlags, CameraProjection } from './ICameraComponent';
 export { createDefaultCameraComponent } from './ICameraComponent';
-export type { ILightComponent, LightType, ILightDirectionProvider } from './ILightComponent';
-export { createDefaultDirectionalLightComponent, createDefaultPointLightComponent, createDefaultSpotLightComponent, isLightDirectionProvider } from './ILightComponent';
+export type { ILightComponent, LightType, ShadowResolution, ILightDirectionProvider } from './ILightComponent';
+export { createDefaultDirectionalLightComponent, createDefaultPointLightComponent, createDefaultSpotLightComponent, isLightDirectionProvider, supportsShadows, SHADOW_RESOLUTIONS, DEFAULT_SHADOW_SETTINGS } from './ILightComponent';
 
 // Property Editing
 export type { IPropertyEditable } from './IPropertyEditable';
 export { isPropertyEditable } from './IPropertyEditable';
 
 // Mesh Data
-export type { IMeshData, IEdgeData, MeshBounds, IMeshProvider } from './IMeshData';
-export { isMeshProvider } from './IMeshData';
+export type {
+  IMeshData,
+  IEdgeData,
+  MeshBounds,
+  IMeshProvider,
+  MeshIndexArray,
+  MeshIndexFormat,
+} from './IMeshData';
+export {
+  isMeshProvider,
+  MAX_UINT16_INDEX,
+  getIndexFormat,
+  createIndexArray,
+} from './IMeshData';
 
 // Cloneable
 export type { ICloneable } from './ICloneable';
@@ -52,6 +72,7 @@ export { isCloneable, cloneEntityBase } from './ICloneable';
 export type {
   IProjectService,
   IProjectMetadata,
+  IProjectOpenOptions,
   IProjectOpenResult,
   IProjectCloseResult,
   ProjectOpenedEvent,
@@ -23,7 +23,14 @@ import type {
 } from '@core/assets/interfaces/ISceneAsset';
 import { Cube } from '@plugins/primitives/Cube';
 import { Sphere } from '@plugins/primitives/Sphere';
+import { Plane } from '@plugins/primitives/Plane';
+import { Cylinder } from '@plugins/primitives/Cylinder';
+import { Cone } from '@plugins/primitives/Cone';
+import { Torus } from '@plugins/primitives/Torus';
+import { Capsule } from '@plugins/primitives/Capsule';
 import { DirectionalLight } from '@plugins/lights/DirectionalLight';
+import { PointLight } from '@plugins/lights/PointLight';
+import { SpotLight } from '@plugins/lights/SpotLight';
 import { CameraEntity } from '@core/CameraEntity';
 import { MeshEntity } from '@plugins/primitives/MeshEntity';
 import { GroupEntity } from '@plugins/primitives/GroupEntity';
@@ -76,6 +83,37 @@ function initializeDefaultFactories(): void {
     return sphere;
   });
 
+  // Parametric primitive factories (generation parameters are restored from metadata by fromJSON)
+  registerEntityFactory('Plane', (data: ISerializedEntity): IEntity => {
+    const plane = new Plane(data.uuid, data.name);
+    plane.fromJSON(data);
+    return plane;
+  });
+
+  registerEntityFactory('Cylinder', (data: ISerializedEntity): IEntity => {
+    const cylinder = new Cylinder(data.uuid, data.name);
+    cylinder.fromJSON(data);
+    return cylinder;
+  });
+
+  registerEntityFactory('Cone', (data: ISerializedEntity): IEntity => {
+    const cone = new Cone(data.uuid, data.name);
+    cone.fromJSON(data);
+    return cone;
+  });
+
+  registerEntityFactory('Torus', (data: ISerializedEntity): IEntity => {
+    const torus = new Torus(data.uuid, data.name);
+    torus.fromJSON(data);
+    return torus;
+  });
+
+  registerEntityFactory('Capsule', (data: ISerializedEntity): IEntity => {
+    const capsule = new Capsule(data.uuid, data.name);
+    capsule.fromJSON(data);
+    return capsule;
+  });
+
   // DirectionalLight factory
   registerEntityFactory('DirectionalLight', (data: ISerializedEntity): IEntity => {
     const light = new DirectionalLight({ name: data.name });
@@ -85,6 +123,24 @@ function initializeDefaultFactories(): void {
     return light;
   });
 
+  // PointLight factory
+  registerEntityFactory('PointLight', (data: ISerializedEntity): IEntity => {
+    const light = new PointLight({ name: data.name });
+    // Override the auto-generated ID with the serialized one
+    (light as unknown as { id: string }).id = data.uuid;
+    light.fromJSON(data);
+    return light;
+  });
+
+  // SpotLight factory
+  registerEntityFactory('SpotLight', (data: ISerializedEntity): IEntity => {
+    const light = new SpotLight({ name: data.name });
+    // Override the auto-generated ID with the serialized one
+    (light as unknown as { id: string }).id = data.uuid;
+    light.fromJSON(data);
+    return light;
+  });
+
   // Camera factory
   registerEntityFactory('Camera', (data: ISerializedEntity): IEntity => {
     const camera = new CameraEntity({ id: data.uuid, name: data.name });
@@ -110,12 +166,25 @@ function initializeDefaultFactories(): void {
 // Initialize factories on module load
 initializeDefaultFactories();
 
+/**
+ * Compare two sibling indices for sorting. Entities without an index
+ * (scenes saved before sibling order was recorded) sort after indexed ones.
+ *
+ * @param a - First sibling index
+ * @param b - Second sibling index
+ * @returns Negative, zero or positive as for Array.prototype.sort
+ */
+export function compareSiblingIndex(a: number | undefined, b: number | undefined): number {
+  return (a ?? Number.POSITIVE_INFINITY) - (b ?? Number.POSITIVE_INFINITY) || 0;
+}
+
 /**
  * EntitySerializer provides static methods for serializing and deserializing entities.
  */
 export class EntitySerializer {
   /**
    * Serialize an entity to JSON-compatible format.
+   * Records the entity's position among its siblings.
    *
    * @param entity - The entity to serialize
    * @returns Serialized entity data
@@ -130,7 +199,12 @@ export class EntitySerializer {
       );
     }
 
-    return serializable.toJSON();
+    const data = serializable.toJSON();
+    const siblingIndex = entity.parent?.children.indexOf(entity) ?? -1;
+    if (siblingIndex >= 0) {
+      data.siblingIndex = siblingIndex;
+    }
+    return data;
   }
 
   /**
@@ -162,6 +236,7 @@ export class EntitySerializer {
 
   /**
    * Deserialize multiple entities and reconstruct hierarchy.
+   * Children are ordered by their recorded sibling index.
    *
    * @param dataArray - Array of serialized entity data
    * @returns Array of deserialized entities with parent references set
@@ -178,9 +253,12 @@ export class EntitySerializer {
     }
 
     // Second pass: reconstruct hierarchy
+    const siblingIndices = new Map<IEntity, number | undefined>();
+    const parents = new Set<IEntity>();
     for (let i = 0; i < dataArray.length; i++) {
       const data = dataArray[i];
       const entity = entities[i];
+      siblingIndices.set(entity, data.siblingIndex);
 
       if (data.parentUuid) {
         const parent = entityMap.get(data.parentUuid);
@@ -189,11 +267,19 @@ export class EntitySerializer {
           // Also add to parent's children if it has a children array
           if (Array.isArray(parent.children)) {
             parent.children.push(entity);
+            parents.add(parent);
           }
         }
       }
     }
 
+    // Third pass: restore sibling order
+    for (const parent of parents) {
+      parent.children.sort((a, b) =>
+        compareSiblingIndex(siblingIndices.get(a as IEntity), siblingIndices.get(b as IEntity))
+      );
+    }
+
     return entities;
   }
 
@@ -0,0 +1,58 @@
+/**
+ * FileSystemAccessBackend - Projects in real folders on disk
+ *
+ * Uses the File System Access API: the user picks a project folder with
+ * `showDirectoryPicker` and the editor reads and writes files in it.
+ * Available in Chromium-based browsers only.
+ *
+ * @example
+ * ```typescript
+ * const backend = new FileSystemAccessBackend();
+ * if (backend.isSupported()) {
+ *   const root = await backend.openRoot();
+ *   console.log('Opened folder:', root.name);
+ * }
+ * ```
+ */
+
+import type { IStorageBackend } from './IStorageBackend';
+
+/**
+ * Storage backend for folders chosen with the directory picker.
+ */
+export class FileSystemAccessBackend implements IStorageBackend {
+  readonly kind = 'file-system-access' as const;
+  readonly displayName = 'File System Access API';
+
+  /**
+   * Check if the File System Access API is supported.
+   */
+  isSupported(): boolean {
+    return 'showDirectoryPicker' in window;
+  }
+
+  /**
+   * Show the directory picker. The project name is not used: the folder
+   * the user picks is the project.
+   */
+  async openRoot(): Promise<FileSystemDirectoryHandle> {
+    return window.showDirectoryPicker({
+      mode: 'readwrite',
+      startIn: 'documents',
+    });
+  }
+
+  /**
+   * Folders on disk cannot be enumerated without a picker.
+   */
+  async listProjects(): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Folders on disk are never deleted by the editor.
+   */
+  async deleteProject(): Promise<boolean> {
+    return false;
+  }
+}
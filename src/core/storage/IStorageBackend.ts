@@ -0,0 +1,73 @@
+/**
+ * IStorageBackend - Interface for project storage locations
+ *
+ * A storage backend hands out the root directory of a project. Everything
+ * above it (asset store, project service, .assetmeta files, asset browser)
+ * works on `FileSystemDirectoryHandle`s, so a backend only decides where
+ * that root lives:
+ *
+ * - `file-system-access`: a real folder chosen with `showDirectoryPicker`
+ * - `opfs`: a folder in the browser's Origin Private File System
+ * - `memory`: an in-memory folder tree that disappears on reload
+ *
+ * @example
+ * ```typescript
+ * const backend = selectStorageBackend();
+ * const root = await backend.openRoot('My Project');
+ * const assets = await root.getDirectoryHandle('assets', { create: true });
+ * ```
+ */
+
+/**
+ * Identifier of a storage backend implementation.
+ */
+export type StorageBackendKind = 'file-system-access' | 'opfs' | 'memory';
+
+/**
+ * Interface for project storage backends.
+ */
+export interface IStorageBackend {
+  /**
+   * Which implementation this is.
+   */
+  readonly kind: StorageBackendKind;
+
+  /**
+   * Human-readable name for messages and menus.
+   */
+  readonly displayName: string;
+
+  /**
+   * Check if the backend is available in this browser.
+   */
+  isSupported(): boolean;
+
+  /**
+   * Open a project root directory.
+   *
+   * Backends that keep projects by name (OPFS, memory) open or create the
+   * named project. The File System Access backend ignores the name and
+   * shows a folder picker instead.
+   *
+   * @param projectName - Name of the project to open or create
+   * @returns The project root directory
+   * @throws DOMException with name `AbortError` if the user cancels
+   */
+  openRoot(projectName?: string): Promise<FileSystemDirectoryHandle>;
+
+  /**
+   * List the projects this backend stores.
+   * Backends that cannot enumerate projects return an empty array.
+   *
+   * @returns Project names, sorted alphabetically
+   */
+  listProjects(): Promise<string[]>;
+
+  /**
+   * Delete a stored project and everything in it.
+   *
+   * @param projectName - Name of the project to delete
+   * @returns True if the project existed and was deleted
+   */
+  deleteProject(projectName: string): Promise<boolean>;
+}
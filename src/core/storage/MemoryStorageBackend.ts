@@ -0,0 +1,293 @@
+/**
+ * MemoryStorageBackend - Projects held in memory
+ *
+ * Implements the directory and file handle interfaces of the File System
+ * Access API over plain objects, so the whole project pipeline runs
+ * without touching disk. Used for scenes opened from a launcher file
+ * (nothing to save back to) and in tests. Contents are lost on reload.
+ *
+ * @example
+ * ```typescript
+ * const backend = new MemoryStorageBackend();
+ * const root = await backend.openRoot('Scratch');
+ * const file = await root.getFileHandle('notes.txt', { create: true });
+ * const writable = await file.createWritable();
+ * await writable.write('hello');
+ * await writable.close();
+ * ```
+ */
+
+import type { IStorageBackend } from './IStorageBackend';
+import { DEFAULT_BROWSER_PROJECT_NAME } from './OPFSStorageBackend';
+
+type MemoryHandle = MemoryDirectoryHandle | MemoryFileHandle;
+
+/**
+ * In-memory file with the FileSystemFileHandle interface.
+ */
+export class MemoryFileHandle implements FileSystemFileHandle {
+  readonly kind = 'file' as const;
+
+  private data = new Uint8Array(0);
+  private lastModified = Date.now();
+
+  constructor(readonly name: string) {}
+
+  async getFile(): Promise<File> {
+    return new File([this.data.slice()], this.name, { lastModified: this.lastModified });
+  }
+
+  async createWritable(options?: FileSystemCreateWritableOptions): Promise<FileSystemWritableFileStream> {
+    const initial = options?.keepExistingData ? this.data.slice() : new Uint8Array(0);
+    return new MemoryWritableFileStream(
+      new MemoryFileSink(initial, (data) => {
+        this.data = data;
+        this.lastModified = Date.now();
+      })
+    );
+  }
+
+  async isSameEntry(other: FileSystemHandle): Promise<boolean> {
+    return other === this;
+  }
+}
+
+/**
+ * In-memory directory with the FileSystemDirectoryHandle interface.
+ * Errors use the same DOMException names as the browser implementation.
+ */
+export class MemoryDirectoryHandle implements FileSystemDirectoryHandle {
+  readonly kind = 'directory' as const;
+
+  private readonly children = new Map<string, MemoryHandle>();
+
+  constructor(readonly name: string) {}
+
+  async getDirectoryHandle(
+    name: string,
+    options?: { create?: boolean }
+  ): Promise<FileSystemDirectoryHandle> {
+    return this.getOrCreate(name, 'directory', options?.create ?? false) as MemoryDirectoryHandle;
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }): Promise<FileSystemFileHandle> {
+    return this.getOrCreate(name, 'file', options?.create ?? false) as MemoryFileHandle;
+  }
+
+  async removeEntry(name: string, options?: { recursive?: boolean }): Promise<void> {
+    const entry = this.children.get(name);
+    if (!entry) {
+      throw new DOMException(`"${name}" not found in "${this.name}"`, 'NotFoundError');
+    }
+    if (entry instanceof MemoryDirectoryHandle && entry.children.size > 0 && !options?.recursive) {
+      throw new DOMException(`Directory "${name}" is not empty`, 'InvalidModificationError');
+    }
+    this.children.delete(name);
+  }
+
+  async resolve(possibleDescendant: FileSystemHandle): Promise<string[] | null> {
+    if (possibleDescendant === this) {
+      return [];
+    }
+    for (const [name, entry] of this.children) {
+      if (entry === possibleDescendant) {
+        return [name];
+      }
+      if (entry instanceof MemoryDirectoryHandle) {
+        const path = await entry.resolve(possibleDescendant);
+        if (path) {
+          return [name, ...path];
+        }
+      }
+    }
+    return null;
+  }
+
+  async *entries(): AsyncIterableIterator<[string, FileSystemHandle]> {
+    // Snapshot so entries can be removed while iterating
+    yield* [...this.children.entries()];
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    yield* [...this.children.keys()];
+  }
+
+  async *values(): AsyncIterableIterator<FileSystemHandle> {
+    yield* [...this.children.values()];
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<[string, FileSystemHandle]> {
+    return this.entries();
+  }
+
+  async isSameEntry(other: FileSystemHandle): Promise<boolean> {
+    return other === this;
+  }
+
+  private getOrCreate(name: string, kind: MemoryHandle['kind'], create: boolean): MemoryHandle {
+    if (!name || name === '.' || name === '..' || name.includes('/') || name.includes('\\')) {
+      throw new TypeError(`Invalid entry name: "${name}"`);
+    }
+
+    const existing = this.children.get(name);
+    if (existing) {
+      if (existing.kind !== kind) {
+        throw new DOMException(`"${name}" is not a ${kind}`, 'TypeMismatchError');
+      }
+      return existing;
+    }
+    if (!create) {
+      throw new DOMException(`"${name}" not found in "${this.name}"`, 'NotFoundError');
+    }
+
+    const entry = kind === 'directory' ? new MemoryDirectoryHandle(name) : new MemoryFileHandle(name);
+    this.children.set(name, entry);
+    return entry;
+  }
+}
+
+/**
+ * Storage backend for in-memory projects.
+ */
+export class MemoryStorageBackend implements IStorageBackend {
+  readonly kind = 'memory' as const;
+  readonly displayName = 'In-memory storage';
+
+  private readonly root = new MemoryDirectoryHandle('');
+
+  /**
+   * Always available.
+   */
+  isSupported(): boolean {
+    return true;
+  }
+
+  /**
+   * Open the named project, creating it if it does not exist.
+   */
+  async openRoot(projectName = DEFAULT_BROWSER_PROJECT_NAME): Promise<FileSystemDirectoryHandle> {
+    return this.root.getDirectoryHandle(projectName, { create: true });
+  }
+
+  /**
+   * List the projects created in this backend.
+   */
+  async listProjects(): Promise<string[]> {
+    const names: string[] = [];
+    for await (const name of this.root.keys()) {
+      names.push(name);
+    }
+    return names.sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Delete a project and its contents.
+   */
+  async deleteProject(projectName: string): Promise<boolean> {
+    try {
+      await this.root.removeEntry(projectName, { recursive: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Writable streams
+// -----------------------------------------------------------------------------
+
+/**
+ * Sink that applies write/seek/truncate commands to a byte buffer and
+ * hands the result to the file when the stream closes.
+ */
+class MemoryFileSink implements UnderlyingSink<FileSystemWriteChunkType> {
+  private position = 0;
+
+  constructor(
+    private data: Uint8Array,
+    private readonly onClose: (data: Uint8Array) => void
+  ) {}
+
+  async write(chunk: FileSystemWriteChunkType): Promise<void> {
+    if (typeof chunk === 'object' && !(chunk instanceof Blob) && 'type' in chunk && !ArrayBuffer.isView(chunk)) {
+      switch (chunk.type) {
+        case 'seek':
+          this.position = chunk.position ?? 0;
+          return;
+        case 'truncate':
+          this.resize(chunk.size ?? 0);
+          this.position = Math.min(this.position, this.data.length);
+          return;
+        case 'write':
+          if (chunk.position !== undefined && chunk.position !== null) {
+            this.position = chunk.position;
+          }
+          if (chunk.data !== undefined && chunk.data !== null) {
+            await this.writeBytes(chunk.data);
+          }
+          return;
+      }
+    }
+    await this.writeBytes(chunk as BufferSource | Blob | string);
+  }
+
+  close(): void {
+    this.onClose(this.data);
+  }
+
+  private async writeBytes(data: BufferSource | Blob | string): Promise<void> {
+    const bytes = await toBytes(data);
+    const end = this.position + bytes.length;
+    if (end > this.data.length) {
+      this.resize(end);
+    }
+    this.data.set(bytes, this.position);
+    this.position = end;
+  }
+
+  private resize(size: number): void {
+    const resized = new Uint8Array(size);
+    resized.set(this.data.subarray(0, Math.min(size, this.data.length)));
+    this.data = resized;
+  }
+}
+
+/**
+ * FileSystemWritableFileStream over a MemoryFileSink. Like the browser
+ * implementation, nothing reaches the file until `close()`.
+ */
+class MemoryWritableFileStream
+  extends WritableStream<FileSystemWriteChunkType>
+  implements FileSystemWritableFileStream
+{
+  async write(data: FileSystemWriteChunkType): Promise<void> {
+    const writer = this.getWriter();
+    try {
+      await writer.write(data);
+    } finally {
+      writer.releaseLock();
+    }
+  }
+
+  seek(position: number): Promise<void> {
+    return this.write({ type: 'seek', position });
+  }
+
+  truncate(size: number): Promise<void> {
+    return this.write({ type: 'truncate', size });
+  }
+}
+
+async function toBytes(data: BufferSource | Blob | string): Promise<Uint8Array> {
+  if (typeof data === 'string') {
+    return new TextEncoder().encode(data);
+  }
+  if (data instanceof Blob) {
+    return new Uint8Array(await data.arrayBuffer());
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice();
+  }
+  return new Uint8Array(data).slice();
+}
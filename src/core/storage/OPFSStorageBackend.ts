@@ -0,0 +1,102 @@
+/**
+ * OPFSStorageBackend - Projects in the Origin Private File System
+ *
+ * Keeps projects inside the browser's private storage for this origin,
+ * so browsers without the directory picker (Firefox, Safari) can still
+ * work on persistent projects. Each project is a folder under
+ * `projects/` in the OPFS root:
+ *
+ * ```
+ * <origin private root>/
+ * └── projects/
+ *     ├── My Project/
+ *     └── Another Project/
+ * ```
+ *
+ * @example
+ * ```typescript
+ * const backend = new OPFSStorageBackend();
+ * const names = await backend.listProjects();
+ * const root = await backend.openRoot(names[0] ?? 'My Project');
+ * ```
+ */
+
+import type { IStorageBackend } from './IStorageBackend';
+
+/**
+ * Folder in the OPFS root that holds one folder per project.
+ */
+const PROJECTS_FOLDER = 'projects';
+
+/**
+ * Project opened when no name is given.
+ */
+export const DEFAULT_BROWSER_PROJECT_NAME = 'Untitled Project';
+
+/**
+ * Storage backend for projects in the Origin Private File System.
+ */
+export class OPFSStorageBackend implements IStorageBackend {
+  readonly kind = 'opfs' as const;
+  readonly displayName = 'Browser storage';
+
+  /**
+   * Create a new OPFSStorageBackend.
+   *
+   * @param getStorageRoot - Resolves the OPFS root (defaults to `navigator.storage.getDirectory()`)
+   */
+  constructor(
+    private readonly getStorageRoot: () => Promise<FileSystemDirectoryHandle> =
+      () => navigator.storage.getDirectory()
+  ) {}
+
+  /**
+   * Check if the Origin Private File System is available.
+   */
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+  }
+
+  /**
+   * Open the named project, creating it if it does not exist.
+   */
+  async openRoot(projectName = DEFAULT_BROWSER_PROJECT_NAME): Promise<FileSystemDirectoryHandle> {
+    const projects = await this.getProjectsFolder();
+    return projects.getDirectoryHandle(projectName, { create: true });
+  }
+
+  /**
+   * List the projects stored for this origin.
+   */
+  async listProjects(): Promise<string[]> {
+    const projects = await this.getProjectsFolder();
+    const names: string[] = [];
+    for await (const [name, handle] of projects.entries()) {
+      if (handle.kind === 'directory') {
+        names.push(name);
+      }
+    }
+    return names.sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Delete a project folder and its contents.
+   */
+  async deleteProject(projectName: string): Promise<boolean> {
+    const projects = await this.getProjectsFolder();
+    try {
+      await projects.removeEntry(projectName, { recursive: true });
+      return true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async getProjectsFolder(): Promise<FileSystemDirectoryHandle> {
+    const root = await this.getStorageRoot();
+    return root.getDirectoryHandle(PROJECTS_FOLDER, { create: true });
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Storage Module
+ *
+ * Backends that provide the root directory of a project.
+ *
+ * @example
+ * ```typescript
+ * import { MemoryStorageBackend } from '@core/storage';
+ *
+ * const backend = new MemoryStorageBackend();
+ * await projectService.openProject({ backend, projectName: 'Scratch' });
+ * ```
+ */
+
+export type { IStorageBackend, StorageBackendKind } from './IStorageBackend';
+export { FileSystemAccessBackend } from './FileSystemAccessBackend';
+export { OPFSStorageBackend, DEFAULT_BROWSER_PROJECT_NAME } from './OPFSStorageBackend';
+export { MemoryStorageBackend, MemoryDirectoryHandle, MemoryFileHandle } from './MemoryStorageBackend';
+export { selectStorageBackend } from './selectStorageBackend';
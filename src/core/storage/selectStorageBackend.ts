@@ -0,0 +1,26 @@
+/**
+ * Storage backend selection
+ *
+ * Picks the best project storage available in the current browser:
+ * real folders where the directory picker exists (Chromium), the Origin
+ * Private File System elsewhere (Firefox, Safari), and memory as a last
+ * resort.
+ *
+ * @example
+ * ```typescript
+ * const assetStore = new FileSystemAssetStore(eventBus, selectStorageBackend());
+ * ```
+ */
+
+import type { IStorageBackend } from './IStorageBackend';
+import { FileSystemAccessBackend } from './FileSystemAccessBackend';
+import { OPFSStorageBackend } from './OPFSStorageBackend';
+import { MemoryStorageBackend } from './MemoryStorageBackend';
+
+/**
+ * Return the first supported backend, in order of preference.
+ */
+export function selectStorageBackend(): IStorageBackend {
+  const candidates: IStorageBackend[] = [new FileSystemAccessBackend(), new OPFSStorageBackend()];
+  return candidates.find((backend) => backend.isSupported()) ?? new MemoryStorageBackend();
+}
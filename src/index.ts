@@ -98,13 +98,14 @@ async function main(): Promise<void> {
       eventBus: ctx.eventBus,
     });
 
-    // Initialize selection controller (viewport ray picking)
+    // Initialize selection controller (viewport GPU/ray picking)
     new SelectionController({
       eventBus: ctx.eventBus,
       selectionManager: ctx.selectionManager,
       sceneGraph: ctx.sceneGraph,
       getCamera: () => app.getRenderCamera(),
       orbitController: ctx.orbitController,
+      gl: ctx.gl,
     });
 
     // Start render loop
@@ -117,7 +118,7 @@ async function main(): Promise<void> {
 
     console.log('WebGL Editor initialized successfully');
     console.log('Controls: Alt+LMB=orbit, Alt+MMB=pan, Alt+RMB=dolly, Scroll=zoom');
-    console.log('Selection: Click=select, Ctrl+Click=toggle, F=focus, Delete=delete, Shift+D=duplicate');
+    console.log('Selection: Click=select, Ctrl+Click=toggle, Drag=box/lasso (Shift=add, Ctrl=subtract), F=focus, Delete=delete, Shift+D=duplicate');
     console.log('Undo/Redo: Ctrl+Z=undo, Ctrl+Y=redo');
     console.log('Use Create → Primitives → Cube to add objects to the scene');
 
@@ -0,0 +1,550 @@
+/**
+ * GLTFExporter - Writes the scene graph as glTF 2.0 / GLB
+ *
+ * Uses @gltf-transform/core to build a glTF document from the SceneGraph:
+ * - Geometry from IMeshProvider.getMeshData() (positions, normals, UVs, indices)
+ * - PBR metallic-roughness materials from IMaterialComponent, with material
+ *   asset parameters taking precedence over inline properties (as in the renderer)
+ * - Scene hierarchy with local transforms
+ * - Directional, point and spot lights via KHR_lights_punctual
+ *
+ * All data is converted from the project's Z-up coordinate system back to
+ * glTF's Y-up convention, inverting GLTFImportService.convertCoordinates.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new GLTFExporter({ assetRegistry });
+ * const result = await exporter.export(sceneGraph, { sceneName: 'Studio' });
+ * const blob = new Blob([result.data], { type: result.mimeType });
+ * ```
+ */
+
+import { Document, Extension, WebIO } from '@gltf-transform/core';
+import type {
+  Buffer,
+  Material,
+  Mesh,
+  Node,
+  WriterContext,
+} from '@gltf-transform/core';
+import type { AssetRegistry } from '@core/assets/AssetRegistry';
+import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
+import type { ISceneObject } from '@core/interfaces';
+import type { ILightComponent } from '@core/interfaces/ILightComponent';
+import type { IMaterialComponent } from '@core/interfaces/IMaterialComponent';
+import type { IMeshData } from '@core/interfaces/IMeshData';
+import { isMeshProvider } from '@core/interfaces/IMeshData';
+import { isEntity } from '@core/interfaces/IEntity';
+import type { SceneGraph } from '@core/SceneGraph';
+
+/**
+ * glTF extension name for punctual lights.
+ */
+const KHR_LIGHTS_PUNCTUAL = 'KHR_lights_punctual';
+
+/**
+ * Generator string written to the glTF asset header.
+ */
+const GENERATOR = 'Ready Set Render';
+
+/**
+ * Rotation that turns glTF's light axis (local -Z) onto the project's light
+ * axis once converted to Y-up (local -Y): -90 degrees around X.
+ */
+const LIGHT_AXIS_CORRECTION: Quat = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+
+/**
+ * Quaternion [x, y, z, w].
+ */
+type Quat = [number, number, number, number];
+
+/**
+ * Output format for an export.
+ * - 'glb': single binary file
+ * - 'gltf': JSON file with the binary buffer embedded as a data URI
+ */
+export type GLTFExportFormat = 'glb' | 'gltf';
+
+/**
+ * Options for creating a GLTFExporter.
+ */
+export interface GLTFExporterOptions {
+  /** Registry used to resolve material asset parameters */
+  assetRegistry?: AssetRegistry;
+}
+
+/**
+ * Options for a single export.
+ */
+export interface GLTFExportOptions {
+  /** Output format (default: 'glb') */
+  format?: GLTFExportFormat;
+  /** Name written to the glTF scene (default: 'Scene') */
+  sceneName?: string;
+}
+
+/**
+ * Result of exporting a scene.
+ */
+export interface IGLTFExportResult {
+  /** Encoded file contents */
+  data: Uint8Array;
+  /** MIME type of the encoded file */
+  mimeType: string;
+  /** File extension including the dot ('.glb' or '.gltf') */
+  fileExtension: string;
+  /** Any warnings encountered during export */
+  warnings: string[];
+}
+
+/**
+ * A light definition as written to KHR_lights_punctual.
+ */
+interface IPunctualLightDef {
+  name: string;
+  type: 'directional' | 'point' | 'spot';
+  color: [number, number, number];
+  intensity: number;
+  range?: number;
+  spot?: {
+    innerConeAngle: number;
+    outerConeAngle: number;
+  };
+}
+
+/**
+ * Minimal writer for KHR_lights_punctual.
+ *
+ * Lights are attached to nodes through setLight() and written into the
+ * root and node extension objects. Reading is not supported; the importer
+ * only extracts geometry.
+ */
+class KHRLightsPunctualWriter extends Extension {
+  static readonly EXTENSION_NAME = KHR_LIGHTS_PUNCTUAL;
+  readonly extensionName = KHR_LIGHTS_PUNCTUAL;
+
+  private readonly lights = new Map<Node, IPunctualLightDef>();
+
+  /**
+   * Attach a light to a node.
+   */
+  setLight(node: Node, light: IPunctualLightDef): void {
+    this.lights.set(node, light);
+  }
+
+  /**
+   * Whether any light has been attached.
+   */
+  hasLights(): boolean {
+    return this.lights.size > 0;
+  }
+
+  read(): this {
+    return this;
+  }
+
+  write(context: WriterContext): this {
+    const json = context.jsonDoc.json;
+    const lightDefs: IPunctualLightDef[] = [];
+
+    for (const [node, light] of this.lights) {
+      const nodeIndex = context.nodeIndexMap.get(node);
+      if (nodeIndex === undefined || !json.nodes) continue;
+
+      const nodeDef = json.nodes[nodeIndex];
+      nodeDef.extensions = { ...nodeDef.extensions, [KHR_LIGHTS_PUNCTUAL]: { light: lightDefs.length } };
+      lightDefs.push(light);
+    }
+
+    if (lightDefs.length > 0) {
+      json.extensions = { ...json.extensions, [KHR_LIGHTS_PUNCTUAL]: { lights: lightDefs } };
+    }
+
+    return this;
+  }
+}
+
+/**
+ * Exporter for glTF 2.0 / GLB files.
+ */
+export class GLTFExporter {
+  private readonly io: WebIO;
+  private readonly assetRegistry: AssetRegistry | null;
+
+  /** Exported materials keyed by material asset UUID */
+  private materialCache: Map<string, Material> = new Map();
+
+  constructor(options: GLTFExporterOptions = {}) {
+    this.io = new WebIO().registerExtensions([KHRLightsPunctualWriter]);
+    this.assetRegistry = options.assetRegistry ?? null;
+  }
+
+  /**
+   * Export every object in a scene graph.
+   *
+   * @param sceneGraph - The scene to export
+   * @param options - Output format and scene name
+   * @returns The encoded file and any warnings
+   */
+  async export(sceneGraph: SceneGraph, options: GLTFExportOptions = {}): Promise<IGLTFExportResult> {
+    const warnings: string[] = [];
+    const format = options.format ?? 'glb';
+    const doc = this.createDocument(sceneGraph, options.sceneName ?? 'Scene', warnings);
+
+    if (format === 'glb') {
+      return {
+        data: await this.io.writeBinary(doc),
+        mimeType: 'model/gltf-binary',
+        fileExtension: '.glb',
+        warnings,
+      };
+    }
+
+    const { json, resources } = await this.io.writeJSON(doc);
+    for (const bufferDef of json.buffers ?? []) {
+      const bytes = bufferDef.uri ? resources[bufferDef.uri] : undefined;
+      if (bytes) {
+        bufferDef.uri = `data:application/octet-stream;base64,${this.encodeBase64(bytes)}`;
+      }
+    }
+
+    return {
+      data: new TextEncoder().encode(JSON.stringify(json)),
+      mimeType: 'model/gltf+json',
+      fileExtension: '.gltf',
+      warnings,
+    };
+  }
+
+  /**
+   * Build a glTF document from the scene graph.
+   */
+  private createDocument(sceneGraph: SceneGraph, sceneName: string, warnings: string[]): Document {
+    const doc = new Document();
+    doc.getRoot().getAsset().generator = GENERATOR;
+
+    const buffer = doc.createBuffer();
+    const lights = doc.createExtension(KHRLightsPunctualWriter);
+    const scene = doc.createScene(sceneName);
+    doc.getRoot().setDefaultScene(scene);
+
+    this.materialCache.clear();
+
+    for (const object of sceneGraph.getRoot().children) {
+      try {
+        scene.addChild(this.createNode(doc, buffer, lights, object, null, warnings));
+      } catch (error) {
+        warnings.push(`Failed to export "${object.name}": ${error}`);
+      }
+    }
+
+    // Don't declare the extension when the scene has no lights
+    if (!lights.hasLights()) {
+      lights.dispose();
+    }
+
+    return doc;
+  }
+
+  /**
+   * Create a node for a scene object and its children.
+   *
+   * @param parentCorrection - Rotation applied to the parent node on top of
+   *   its transform (light nodes), undone here so children keep their place
+   */
+  private createNode(
+    doc: Document,
+    buffer: Buffer,
+    lights: KHRLightsPunctualWriter,
+    object: ISceneObject,
+    parentCorrection: Quat | null,
+    warnings: string[]
+  ): Node {
+    const node = doc.createNode(object.name);
+    const { position, rotation, scale } = object.transform;
+
+    let translation = this.convertPosition(position);
+    let quaternion = this.convertQuaternion(this.eulerToQuaternion(rotation));
+
+    if (parentCorrection) {
+      const inverse = this.quaternionConjugate(parentCorrection);
+      translation = this.rotateVector(inverse, translation);
+      quaternion = this.quaternionMultiply(inverse, quaternion);
+    }
+
+    let correction: Quat | null = null;
+    const light = isEntity(object) ? object.getComponent<ILightComponent>('light') : null;
+    if (light) {
+      const lightDef = this.createLightDef(object.name, light);
+      if (lightDef && light.enabled) {
+        correction = LIGHT_AXIS_CORRECTION;
+        quaternion = this.quaternionMultiply(quaternion, correction);
+        lights.setLight(node, lightDef);
+      } else {
+        const reason = lightDef ? 'is disabled' : `has unsupported type "${light.lightType}"`;
+        warnings.push(`Light "${object.name}" ${reason} and was exported as an empty node`);
+      }
+    }
+
+    node.setTranslation(translation);
+    node.setRotation(quaternion);
+    node.setScale([scale[0], scale[2], scale[1]]);
+
+    if (isMeshProvider(object)) {
+      const meshData = object.getMeshData();
+      if (meshData) {
+        node.setMesh(this.createMesh(doc, buffer, object, meshData, warnings));
+      }
+    }
+
+    for (const child of object.children) {
+      try {
+        node.addChild(this.createNode(doc, buffer, lights, child, correction, warnings));
+      } catch (error) {
+        warnings.push(`Failed to export "${child.name}": ${error}`);
+      }
+    }
+
+    return node;
+  }
+
+  /**
+   * Create a single-primitive mesh from an object's geometry.
+   */
+  private createMesh(
+    doc: Document,
+    buffer: Buffer,
+    object: ISceneObject,
+    meshData: IMeshData,
+    warnings: string[]
+  ): Mesh {
+    const primitive = doc.createPrimitive()
+      .setAttribute('POSITION', doc.createAccessor()
+        .setType('VEC3')
+        .setArray(this.convertCoordinates(meshData.positions))
+        .setBuffer(buffer))
+      .setAttribute('NORMAL', doc.createAccessor()
+        .setType('VEC3')
+        .setArray(this.convertCoordinates(meshData.normals))
+        .setBuffer(buffer))
+      .setIndices(doc.createAccessor()
+        .setType('SCALAR')
+        .setArray(meshData.indices.slice())
+        .setBuffer(buffer));
+
+    if (meshData.uvs) {
+      primitive.setAttribute('TEXCOORD_0', doc.createAccessor()
+        .setType('VEC2')
+        .setArray(meshData.uvs.slice())
+        .setBuffer(buffer));
+    }
+
+    const material = this.getMaterial(doc, object, warnings);
+    if (material) {
+      primitive.setMaterial(material);
+    }
+
+    return doc.createMesh(object.name).addPrimitive(primitive);
+  }
+
+  /**
+   * Get the glTF material for an object, reusing it for objects that share
+   * a material asset.
+   */
+  private getMaterial(doc: Document, object: ISceneObject, warnings: string[]): Material | null {
+    const component = isEntity(object) ? object.getComponent<IMaterialComponent>('material') : null;
+    if (!component) {
+      return null;
+    }
+
+    const assetUuid = component.materialAssetRef?.uuid;
+    if (assetUuid) {
+      const cached = this.materialCache.get(assetUuid);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const asset = assetUuid ? this.assetRegistry?.get<IMaterialAsset>(assetUuid) : undefined;
+    const parameters = asset?.parameters ?? {};
+
+    const baseColor = this.readVec3(parameters.uBaseColor) ?? component.color ?? [0.8, 0.8, 0.8];
+    const alpha = this.readNumber(parameters.uOpacity) ?? this.readNumber(parameters.opacity)
+      ?? component.opacity ?? 1;
+    const metallic = this.readNumber(parameters.uMetallic) ?? component.metallic ?? 0;
+    const roughness = this.readNumber(parameters.uRoughness) ?? component.roughness ?? 0.5;
+    const emission = this.readVec3(parameters.uEmission) ?? component.emission ?? [0, 0, 0];
+    const emissionStrength = this.readNumber(parameters.uEmissionStrength)
+      ?? component.emissionStrength ?? 0;
+
+    const name = asset?.name ?? `${object.name}_Material`;
+    const emissive = emission.map((c) => c * emissionStrength);
+    if (emissive.some((c) => c > 1)) {
+      warnings.push(`Material "${name}" emission exceeds 1.0 and was clamped`);
+    }
+
+    const material = doc.createMaterial(name)
+      .setBaseColorFactor([baseColor[0], baseColor[1], baseColor[2], alpha])
+      .setMetallicFactor(metallic)
+      .setRoughnessFactor(roughness)
+      .setEmissiveFactor([
+        Math.min(emissive[0], 1),
+        Math.min(emissive[1], 1),
+        Math.min(emissive[2], 1),
+      ])
+      .setAlphaMode(component.transparent || alpha < 1 ? 'BLEND' : 'OPAQUE');
+
+    if (assetUuid) {
+      this.materialCache.set(assetUuid, material);
+    }
+
+    return material;
+  }
+
+  /**
+   * Describe a light for KHR_lights_punctual.
+   *
+   * Intensity is written unchanged; the editor's light intensity is unitless.
+   *
+   * @returns The light definition, or null for types glTF cannot represent
+   */
+  private createLightDef(name: string, light: ILightComponent): IPunctualLightDef | null {
+    if (light.lightType === 'area') {
+      return null;
+    }
+
+    const lightDef: IPunctualLightDef = {
+      name,
+      type: light.lightType,
+      color: [...light.color],
+      intensity: light.intensity,
+    };
+
+    if (light.lightType !== 'directional' && light.range !== undefined && light.range > 0) {
+      lightDef.range = light.range;
+    }
+
+    if (light.lightType === 'spot') {
+      // spotAngle is the full cone; glTF angles are measured from the axis
+      const outerConeAngle = ((light.spotAngle ?? 30) / 2) * (Math.PI / 180);
+      lightDef.spot = {
+        innerConeAngle: outerConeAngle * (light.innerSpotRatio ?? 0.8),
+        outerConeAngle,
+      };
+    }
+
+    return lightDef;
+  }
+
+  /**
+   * Convert coordinates from project Z-up to glTF Y-up.
+   * Inverse of GLTFImportService.convertCoordinates.
+   *
+   * Conversion: X stays, Y = Z, Z = -Y
+   */
+  private convertCoordinates(data: Float32Array): Float32Array {
+    const result = new Float32Array(data.length);
+
+    for (let i = 0; i < data.length; i += 3) {
+      result[i] = data[i];            // X stays
+      result[i + 1] = data[i + 2];    // Y = Z (project Z is up)
+      result[i + 2] = -data[i + 1];   // Z = -Y (project Y points away from viewer)
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert a single position from Z-up to Y-up.
+   */
+  private convertPosition(pos: [number, number, number]): [number, number, number] {
+    return [pos[0], pos[2], -pos[1]];
+  }
+
+  /**
+   * Convert a quaternion from Z-up to Y-up (inverse of the importer's swap).
+   */
+  private convertQuaternion(q: Quat): Quat {
+    return [q[0], q[2], -q[1], q[3]];
+  }
+
+  /**
+   * Convert Euler angles in degrees to a quaternion using the model
+   * matrix order (Rz * Ry * Rx).
+   */
+  private eulerToQuaternion(rotation: [number, number, number]): Quat {
+    const DEG_TO_RAD = Math.PI / 180;
+    const hx = rotation[0] * DEG_TO_RAD * 0.5;
+    const hy = rotation[1] * DEG_TO_RAD * 0.5;
+    const hz = rotation[2] * DEG_TO_RAD * 0.5;
+
+    const cx = Math.cos(hx), sx = Math.sin(hx);
+    const cy = Math.cos(hy), sy = Math.sin(hy);
+    const cz = Math.cos(hz), sz = Math.sin(hz);
+
+    return [
+      sx * cy * cz - cx * sy * sz,
+      cx * sy * cz + sx * cy * sz,
+      cx * cy * sz - sx * sy * cz,
+      cx * cy * cz + sx * sy * sz,
+    ];
+  }
+
+  /**
+   * Multiply two quaternions (a then b applied in local space: a * b).
+   */
+  private quaternionMultiply(a: Quat, b: Quat): Quat {
+    return [
+      a[3] * b[0] + a[0] * b[3] + a[1] * b[2] - a[2] * b[1],
+      a[3] * b[1] - a[0] * b[2] + a[1] * b[3] + a[2] * b[0],
+      a[3] * b[2] + a[0] * b[1] - a[1] * b[0] + a[2] * b[3],
+      a[3] * b[3] - a[0] * b[0] - a[1] * b[1] - a[2] * b[2],
+    ];
+  }
+
+  /**
+   * Inverse of a unit quaternion.
+   */
+  private quaternionConjugate(q: Quat): Quat {
+    return [-q[0], -q[1], -q[2], q[3]];
+  }
+
+  /**
+   * Rotate a vector by a unit quaternion.
+   */
+  private rotateVector(q: Quat, v: [number, number, number]): [number, number, number] {
+    const p = this.quaternionMultiply(
+      this.quaternionMultiply(q, [v[0], v[1], v[2], 0]),
+      this.quaternionConjugate(q)
+    );
+    return [p[0], p[1], p[2]];
+  }
+
+  /**
+   * Read a numeric material parameter.
+   */
+  private readNumber(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  /**
+   * Read a vec3 material parameter.
+   */
+  private readVec3(value: unknown): [number, number, number] | undefined {
+    return Array.isArray(value) && value.length >= 3 && value.every((v) => typeof v === 'number')
+      ? [value[0], value[1], value[2]]
+      : undefined;
+  }
+
+  /**
+   * Encode bytes as base64 (chunked to stay under argument limits).
+   */
+  private encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+  }
+}
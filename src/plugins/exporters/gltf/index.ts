@@ -0,0 +1,13 @@
+/**
+ * GLTF Exporter Module
+ *
+ * Exports for the glTF 2.0 / GLB export functionality.
+ */
+
+export { GLTFExporter } from './GLTFExporter';
+export type {
+  GLTFExportFormat,
+  GLTFExporterOptions,
+  GLTFExportOptions,
+  IGLTFExportResult,
+} from './GLTFExporter';
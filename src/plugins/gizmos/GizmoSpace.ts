@@ -0,0 +1,114 @@
+/**
+ * GizmoSpace - Gizmo orientation frames and incremental snapping
+ *
+ * Gizmos do their hit testing and drag math with world-aligned axes.
+ * To support local and view orientations, rays are rotated into the
+ * gizmo's frame around the gizmo position, and the resulting deltas are
+ * interpreted along the rotated axes.
+ *
+ * Snapping is incremental: the drag delta (units, degrees or scale
+ * units) is rounded to a multiple of the increment.
+ *
+ * @example
+ * ```typescript
+ * const frame = getRotationMatrix(entity.transform.rotation);
+ * const localOrigin = inverseRotatePointAround(frame, rayOrigin, gizmoPosition);
+ * const localDirection = inverseRotateDirection(frame, rayDirection);
+ * const delta = snapDelta('rotate', rawDelta, { translate: 1, rotate: 15, scale: 0.1 });
+ * ```
+ */
+
+import { mat4FromTRS } from '@utils/math/transforms';
+import type { Mat4, Vec3 } from '@utils/math/transforms';
+import type { GizmoMode } from './interfaces';
+
+/**
+ * Snap increment for each gizmo mode.
+ */
+export interface GizmoSnapIncrements {
+  /** World units */
+  translate: number;
+  /** Degrees */
+  rotate: number;
+  /** Scale units */
+  scale: number;
+}
+
+/**
+ * Build a rotation matrix from Euler angles in degrees.
+ *
+ * @param rotation - Euler rotation in degrees [x, y, z]
+ * @returns A rotation-only matrix
+ */
+export function getRotationMatrix(rotation: Vec3): Mat4 {
+  return mat4FromTRS([0, 0, 0], rotation, [1, 1, 1]);
+}
+
+/**
+ * Rotate a direction from gizmo space into world space.
+ */
+export function rotateDirection(m: Mat4, v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[4] * v[1] + m[8] * v[2],
+    m[1] * v[0] + m[5] * v[1] + m[9] * v[2],
+    m[2] * v[0] + m[6] * v[1] + m[10] * v[2],
+  ];
+}
+
+/**
+ * Rotate a direction from world space into gizmo space (transpose rotation).
+ */
+export function inverseRotateDirection(m: Mat4, v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[4] * v[0] + m[5] * v[1] + m[6] * v[2],
+    m[8] * v[0] + m[9] * v[1] + m[10] * v[2],
+  ];
+}
+
+/**
+ * Rotate a point around a center, from gizmo space into world space.
+ */
+export function rotatePointAround(m: Mat4, point: Vec3, center: Vec3): Vec3 {
+  const offset = rotateDirection(m, [point[0] - center[0], point[1] - center[1], point[2] - center[2]]);
+  return [center[0] + offset[0], center[1] + offset[1], center[2] + offset[2]];
+}
+
+/**
+ * Rotate a point around a center, from world space into gizmo space.
+ */
+export function inverseRotatePointAround(m: Mat4, point: Vec3, center: Vec3): Vec3 {
+  const offset = inverseRotateDirection(m, [point[0] - center[0], point[1] - center[1], point[2] - center[2]]);
+  return [center[0] + offset[0], center[1] + offset[1], center[2] + offset[2]];
+}
+
+/**
+ * Round a value to a multiple of an increment.
+ * Non-positive increments leave the value unchanged.
+ */
+export function snapValue(value: number, increment: number): number {
+  if (!(increment > 0)) return value;
+  // Adding 0 turns -0 into 0
+  return Math.round(value / increment) * increment + 0;
+}
+
+/**
+ * Snap a drag delta to the increment for the gizmo mode.
+ *
+ * @param mode - Gizmo mode
+ * @param delta - Drag delta from the gizmo
+ * @param increments - Snap increments
+ * @returns The snapped delta
+ */
+export function snapDelta(
+  mode: GizmoMode,
+  delta: [number, number, number],
+  increments: GizmoSnapIncrements
+): [number, number, number] {
+  const increment = increments[mode];
+  return [
+    snapValue(delta[0], increment),
+    snapValue(delta[1], increment),
+    snapValue(delta[2], increment),
+  ];
+}
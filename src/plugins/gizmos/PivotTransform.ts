@@ -0,0 +1,285 @@
+/**
+ * PivotTransform - Multi-object gizmo transforms around a pivot point
+ *
+ * Helpers used by TransformGizmoController to move, rotate and scale
+ * every selected object together:
+ * - translate: every object moves by the same delta
+ * - rotate: every object is rotated by the same rotation and orbits the pivot
+ * - scale: every object gets the same scale delta and its offset from the
+ *   pivot is scaled with it
+ *
+ * Deltas are expressed along the gizmo's axes, which are rotated by an
+ * optional orientation matrix (local/view orientation). Pivots and moves
+ * are computed in world space and written back relative to each object's
+ * parent, so nested objects follow the gizmo too. In 'individual'
+ * pivot mode objects rotate and scale around their own origins, so their
+ * positions are left untouched.
+ *
+ * @example
+ * ```typescript
+ * const roots = getTransformRoots(selectionManager.getSelected());
+ * const pivot = computePivotPoint('median', roots, primary, cursor);
+ * applyPivotTransform('rotate', 'median', targets, pivot, [0, 0, 90]);
+ * ```
+ */
+
+import type { ISceneObject } from '@core/interfaces';
+import { getObjectWorldMatrix } from '@core/interfaces';
+import { mat4Decompose, mat4Identity, mat4Inverse, mat4Multiply } from '@utils/math/transforms';
+import type { Mat4 } from '@utils/math/transforms';
+import type { GizmoDragTarget, GizmoMode, PivotMode } from './interfaces';
+import { getRotationMatrix, rotateDirection, inverseRotateDirection } from './GizmoSpace';
+
+/**
+ * Minimum scale a gizmo drag can produce on any axis.
+ */
+const MIN_SCALE = 0.01;
+
+/**
+ * Drop objects whose ancestor is also in the list.
+ * Transforming both would apply the change to the child twice.
+ *
+ * @param objects - Selected objects
+ * @returns The objects without a selected ancestor, in the same order
+ */
+export function getTransformRoots(objects: ISceneObject[]): ISceneObject[] {
+  const selected = new Set(objects);
+  return objects.filter((object) => {
+    for (let parent = object.parent; parent; parent = parent.parent) {
+      if (selected.has(parent)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Get the point the gizmo is drawn at and transforms around.
+ * 'individual' mode uses the median point for the gizmo itself.
+ *
+ * @param mode - Pivot mode
+ * @param objects - Objects being transformed
+ * @param active - Active (primary) object
+ * @param cursor - 3D cursor position
+ * @returns The pivot point
+ */
+export function computePivotPoint(
+  mode: PivotMode,
+  objects: ISceneObject[],
+  active: ISceneObject | null,
+  cursor: [number, number, number]
+): [number, number, number] {
+  if (mode === 'cursor') {
+    return [...cursor];
+  }
+  if (mode === 'active' && active) {
+    return getWorldPosition(active);
+  }
+  if (objects.length === 0) {
+    return active ? getWorldPosition(active) : [0, 0, 0];
+  }
+
+  const center: [number, number, number] = [0, 0, 0];
+  for (const object of objects) {
+    const position = getWorldPosition(object);
+    center[0] += position[0];
+    center[1] += position[1];
+    center[2] += position[2];
+  }
+  return [center[0] / objects.length, center[1] / objects.length, center[2] / objects.length];
+}
+
+/**
+ * Get an object's origin in world space.
+ */
+function getWorldPosition(object: ISceneObject): [number, number, number] {
+  const world = getObjectWorldMatrix(object);
+  return [world[12], world[13], world[14]];
+}
+
+/**
+ * Get the world matrix of an object's parent, or null for top-level objects.
+ */
+function getParentMatrix(object: ISceneObject): Mat4 | null {
+  const parent = object.parent;
+  return parent && parent.id !== 'root' ? getObjectWorldMatrix(parent) : null;
+}
+
+/**
+ * Transform a point by a matrix (no perspective divide).
+ */
+function transformPoint(m: Mat4, p: [number, number, number]): [number, number, number] {
+  return [
+    m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12],
+    m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13],
+    m[2] * p[0] + m[6] * p[1] + m[10] * p[2] + m[14],
+  ];
+}
+
+/**
+ * A drag target's placement relative to its parent, captured once per call.
+ */
+interface TargetSpace {
+  /** Parent world matrix (null for top-level objects) */
+  parent: Mat4 | null;
+  /** Inverse of the parent world matrix */
+  inverseParent: Mat4 | null;
+  /** Drag-start position in world space */
+  startWorld: [number, number, number];
+}
+
+/**
+ * Capture where a target's parent places it.
+ */
+function getTargetSpace(target: GizmoDragTarget): TargetSpace {
+  const parent = getParentMatrix(target.entity);
+  return {
+    parent,
+    inverseParent: parent ? mat4Inverse(parent) : null,
+    startWorld: parent ? transformPoint(parent, target.startPosition) : [...target.startPosition],
+  };
+}
+
+/**
+ * Write a world-space position to a target as its parent-relative position.
+ */
+function setWorldPosition(target: GizmoDragTarget, space: TargetSpace, world: [number, number, number]): void {
+  target.entity.transform.position = space.inverseParent ? transformPoint(space.inverseParent, world) : world;
+}
+
+/**
+ * Decomposed angles are rounded to 1/ANGLE_STEPS degrees, hiding the
+ * noise of Float32 matrix math (e.g., 89.99999 instead of 90).
+ */
+const ANGLE_STEPS = 1e4;
+
+/**
+ * Shift an angle by whole turns so it lies closest to a reference angle.
+ * Keeps Euler values continuous when a rotation is decomposed.
+ */
+function unwrapAngle(angle: number, reference: number): number {
+  const unwrapped = angle + 360 * Math.round((reference - angle) / 360);
+  return Math.round(unwrapped * ANGLE_STEPS) / ANGLE_STEPS + 0;
+}
+
+/**
+ * Write the transform for a drag delta to every target.
+ * Always starts from the targets' drag-start values, so it can be called
+ * repeatedly while dragging.
+ *
+ * @param mode - Gizmo mode
+ * @param pivotMode - Pivot mode
+ * @param targets - Objects and their transforms at drag start
+ * @param pivot - Pivot point
+ * @param delta - Delta from the gizmo (units, degrees or scale units) along the gizmo axes
+ * @param orientation - Rotation of the gizmo axes (default: world axes)
+ */
+export function applyPivotTransform(
+  mode: GizmoMode,
+  pivotMode: PivotMode,
+  targets: GizmoDragTarget[],
+  pivot: [number, number, number],
+  delta: [number, number, number],
+  orientation: Mat4 = mat4Identity()
+): void {
+  const aroundPivot = pivotMode !== 'individual';
+
+  switch (mode) {
+    case 'translate': {
+      const worldDelta = rotateDirection(orientation, delta);
+      for (const target of targets) {
+        const space = getTargetSpace(target);
+        setWorldPosition(target, space, [
+          space.startWorld[0] + worldDelta[0],
+          space.startWorld[1] + worldDelta[1],
+          space.startWorld[2] + worldDelta[2],
+        ]);
+      }
+      break;
+    }
+
+    case 'rotate': {
+      // Rotation around a gizmo axis, expressed in world space
+      const rotation = mat4Multiply(
+        orientation,
+        mat4Multiply(getRotationMatrix(delta), inverseOf(orientation))
+      );
+      for (const target of targets) {
+        const space = getTargetSpace(target);
+
+        // The same rotation, expressed in the parent's space
+        let localRotation = rotation;
+        if (space.parent) {
+          const parentRotation = getRotationMatrix(mat4Decompose(space.parent).rotation);
+          localRotation = mat4Multiply(inverseOf(parentRotation), mat4Multiply(rotation, parentRotation));
+        }
+
+        const combined = mat4Decompose(
+          mat4Multiply(localRotation, getRotationMatrix(target.startRotation))
+        ).rotation;
+        target.entity.transform.rotation = [
+          unwrapAngle(combined[0], target.startRotation[0] + delta[0]),
+          unwrapAngle(combined[1], target.startRotation[1] + delta[1]),
+          unwrapAngle(combined[2], target.startRotation[2] + delta[2]),
+        ];
+        if (aroundPivot) {
+          const offset = rotateDirection(rotation, [
+            space.startWorld[0] - pivot[0],
+            space.startWorld[1] - pivot[1],
+            space.startWorld[2] - pivot[2],
+          ]);
+          setWorldPosition(target, space, [
+            pivot[0] + offset[0],
+            pivot[1] + offset[1],
+            pivot[2] + offset[2],
+          ]);
+        }
+      }
+      break;
+    }
+
+    case 'scale': {
+      // Scale deltas are relative to unit scale (uniform deltas are ratio - 1)
+      const factor = delta.map((d) => Math.max(MIN_SCALE, 1 + d));
+      for (const target of targets) {
+        target.entity.transform.scale = [
+          Math.max(MIN_SCALE, target.startScale[0] + delta[0]),
+          Math.max(MIN_SCALE, target.startScale[1] + delta[1]),
+          Math.max(MIN_SCALE, target.startScale[2] + delta[2]),
+        ];
+        if (aroundPivot) {
+          // Scale the offset from the pivot along the gizmo axes
+          const space = getTargetSpace(target);
+          const offset = inverseRotateDirection(orientation, [
+            space.startWorld[0] - pivot[0],
+            space.startWorld[1] - pivot[1],
+            space.startWorld[2] - pivot[2],
+          ]);
+          const scaled = rotateDirection(orientation, [
+            offset[0] * factor[0],
+            offset[1] * factor[1],
+            offset[2] * factor[2],
+          ]);
+          setWorldPosition(target, space, [
+            pivot[0] + scaled[0],
+            pivot[1] + scaled[1],
+            pivot[2] + scaled[2],
+          ]);
+        }
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Invert a rotation-only matrix (its transpose).
+ */
+function inverseOf(m: Mat4): Mat4 {
+  const result = new Float32Array(16);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      result[column * 4 + row] = m[row * 4 + column];
+    }
+  }
+  return result;
+}
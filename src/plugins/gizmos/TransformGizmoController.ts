@@ -5,6 +5,11 @@
  * - Mode switching (translate, rotate, scale) via W/E/R keys
  * - Hit testing for axis hover detection
  * - Drag handling for transform manipulation
+ * - Multi-object transforms around a pivot (median, active object,
+ *   individual origins or the 3D cursor)
+ * - 3D cursor placement on the ground plane via Shift+right-click
+ * - World, local and view gizmo orientation
+ * - Incremental snapping (increments from SettingsService, Ctrl toggles)
  * - Undo/redo integration via CommandHistory
  *
  * This is the main entry point for the transform gizmo system.
@@ -31,10 +36,22 @@
 import type { EventBus } from '@core/EventBus';
 import type { SceneGraph } from '@core/SceneGraph';
 import type { SelectionManager } from '@core/SelectionManager';
+import type { SettingsService } from '@core/SettingsService';
 import type { CommandHistory } from '@core/commands/CommandHistory';
 import { PropertyChangeCommand } from '@core/commands/PropertyChangeCommand';
 import type { ICamera, ISceneObject } from '@core/interfaces';
-import type { GizmoMode, GizmoAxis, GizmoDragState } from './interfaces';
+import { getObjectWorldMatrix } from '@core/interfaces';
+import { mat4Decompose, mat4Inverse } from '@utils/math/transforms';
+import type {
+  GizmoMode,
+  GizmoAxis,
+  GizmoDragState,
+  GizmoDragTarget,
+  GizmoOrientation,
+  PivotMode,
+} from './interfaces';
+import { applyPivotTransform, computePivotPoint, getTransformRoots } from './PivotTransform';
+import { getRotationMatrix, inverseRotateDirection, inverseRotatePointAround, snapDelta } from './GizmoSpace';
 import { TransformGizmoRenderer } from './TransformGizmoRenderer';
 import { TranslateGizmo } from './TranslateGizmo';
 import { RotateGizmo } from './RotateGizmo';
@@ -50,6 +67,8 @@ export interface TransformGizmoControllerConfig {
   selectionManager: SelectionManager;
   commandHistory: CommandHistory;
   canvas: HTMLCanvasElement;
+  /** Settings service for snap increments (snapping is off without it) */
+  settingsService?: SettingsService;
 }
 
 /**
@@ -62,6 +81,7 @@ export class TransformGizmoController {
   private readonly selectionManager: SelectionManager;
   private readonly commandHistory: CommandHistory;
   private readonly canvas: HTMLCanvasElement;
+  private readonly settingsService: SettingsService | null;
 
   // Renderer
   private renderer: TransformGizmoRenderer;
@@ -76,6 +96,10 @@ export class TransformGizmoController {
   private hoveredAxis: GizmoAxis = null;
   private dragState: GizmoDragState | null = null;
   private enabled = true;
+  private pivotMode: PivotMode = 'median';
+  private orientation: GizmoOrientation = 'world';
+  private cursorPosition: [number, number, number] = [0, 0, 0];
+  private readonly unsubscribers: Array<() => void> = [];
 
   // Camera reference for hit testing (set during render)
   private currentCamera: ICamera | null = null;
@@ -93,6 +117,7 @@ export class TransformGizmoController {
     this.selectionManager = config.selectionManager;
     this.commandHistory = config.commandHistory;
     this.canvas = config.canvas;
+    this.settingsService = config.settingsService ?? null;
 
     // Create renderer
     this.renderer = new TransformGizmoRenderer({
@@ -124,6 +149,15 @@ export class TransformGizmoController {
     window.addEventListener('mouseup', this.boundOnMouseUp);
     window.addEventListener('keydown', this.boundOnKeyDown);
 
+    this.unsubscribers.push(
+      this.eventBus.on('gizmo:setPivotMode', (data: { mode: PivotMode }) => {
+        this.setPivotMode(data.mode);
+      }),
+      this.eventBus.on('gizmo:setOrientation', (data: { orientation: GizmoOrientation }) => {
+        this.setOrientation(data.orientation);
+      }),
+    );
+
     console.log('Transform gizmo controller initialized');
   }
 
@@ -135,23 +169,25 @@ export class TransformGizmoController {
 
     this.currentCamera = camera;
 
-    // Get primary selected entity
-    const selected = this.selectionManager.getPrimary();
-    if (!selected) return;
+    const targets = this.getTransformTargets();
+    if (targets.length === 0) return;
 
-    // Skip Camera and Light entities - they have their own gizmos
-    if (this.shouldSkipEntity(selected)) return;
+    // During a drag the gizmo stays at the pivot and orientation captured at drag start
+    const dragging = this.dragState?.active ?? false;
+    const position = dragging && this.dragState
+      ? this.dragState.pivot
+      : this.getGizmoPosition(targets);
+    const rotation = dragging && this.dragState
+      ? this.dragState.orientation
+      : this.getOrientationRotation(targets);
 
-    // Get entity position
-    const position = selected.transform.position;
-
-    // Render gizmo (in world space - gizmo axes always align with world coordinates)
-    // This is the standard behavior for translate gizmos in most 3D editors
+    // Render gizmo with axes aligned to the current orientation space
     this.renderer.render(
       camera,
       [...position] as [number, number, number],
       this.mode,
-      this.hoveredAxis
+      this.hoveredAxis,
+      rotation
     );
   }
 
@@ -173,6 +209,56 @@ export class TransformGizmoController {
     }
   }
 
+  /**
+   * Get the pivot mode used for multi-object transforms.
+   */
+  getPivotMode(): PivotMode {
+    return this.pivotMode;
+  }
+
+  /**
+   * Set the pivot mode used for multi-object transforms.
+   */
+  setPivotMode(mode: PivotMode): void {
+    if (this.pivotMode !== mode) {
+      this.pivotMode = mode;
+      this.eventBus.emit('gizmo:pivotModeChanged', { mode });
+    }
+  }
+
+  /**
+   * Get the space the gizmo axes are aligned with.
+   */
+  getOrientation(): GizmoOrientation {
+    return this.orientation;
+  }
+
+  /**
+   * Set the space the gizmo axes are aligned with.
+   */
+  setOrientation(orientation: GizmoOrientation): void {
+    if (this.orientation !== orientation) {
+      this.orientation = orientation;
+      this.hoveredAxis = null;
+      this.eventBus.emit('gizmo:orientationChanged', { orientation });
+    }
+  }
+
+  /**
+   * Get the 3D cursor position.
+   */
+  getCursorPosition(): [number, number, number] {
+    return [...this.cursorPosition] as [number, number, number];
+  }
+
+  /**
+   * Move the 3D cursor, used as the pivot in 'cursor' pivot mode.
+   */
+  setCursorPosition(position: [number, number, number]): void {
+    this.cursorPosition = [...position] as [number, number, number];
+    this.eventBus.emit('gizmo:cursorChanged', { position: this.getCursorPosition() });
+  }
+
   /**
    * Check if the gizmo is currently dragging.
    */
@@ -199,6 +285,11 @@ export class TransformGizmoController {
     window.removeEventListener('mouseup', this.boundOnMouseUp);
     window.removeEventListener('keydown', this.boundOnKeyDown);
 
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers.length = 0;
+
     this.renderer.dispose();
   }
 
@@ -217,8 +308,8 @@ export class TransformGizmoController {
     const mousePos = this.getCanvasMousePosition(event);
 
     if (this.dragState?.active) {
-      // Update drag
-      this.updateDrag(mousePos);
+      // Update drag (Ctrl inverts the default snapping)
+      this.updateDrag(mousePos, this.isSnapping(event.ctrlKey));
     } else {
       // Update hover
       this.updateHover(mousePos);
@@ -231,6 +322,13 @@ export class TransformGizmoController {
   private onMouseDown(event: MouseEvent): void {
     if (!this.enabled || !this.currentCamera) return;
 
+    // Shift+right-click places the 3D cursor
+    if (event.button === 2 && event.shiftKey) {
+      this.placeCursor(this.getCanvasMousePosition(event));
+      event.preventDefault();
+      return;
+    }
+
     // Only handle left mouse button
     if (event.button !== 0) return;
 
@@ -240,13 +338,13 @@ export class TransformGizmoController {
     // Check if we have a hovered axis
     if (this.hoveredAxis === null) return;
 
-    // Get selected entity
-    const selected = this.selectionManager.getPrimary();
-    if (!selected || this.shouldSkipEntity(selected)) return;
+    // Get the objects to transform
+    const targets = this.getTransformTargets();
+    if (targets.length === 0) return;
 
     // Start drag
     const mousePos = this.getCanvasMousePosition(event);
-    this.startDrag(selected, mousePos);
+    this.startDrag(targets, mousePos);
 
     // Prevent default to avoid text selection
     event.preventDefault();
@@ -292,23 +390,23 @@ export class TransformGizmoController {
    * Update hover state based on mouse position.
    */
   private updateHover(mousePos: [number, number]): void {
-    const selected = this.selectionManager.getPrimary();
-    if (!selected || !this.currentCamera || this.shouldSkipEntity(selected)) {
+    const targets = this.getTransformTargets();
+    if (targets.length === 0 || !this.currentCamera) {
       this.hoveredAxis = null;
       return;
     }
 
-    // Get ray from mouse position
-    const ray = this.screenToRay(mousePos);
+    // Get gizmo position and scale
+    const position = this.getGizmoPosition(targets);
+    const scale = this.calculateGizmoScale(position);
+
+    // Get ray from mouse position, in the gizmo's frame
+    const ray = this.screenToGizmoRay(mousePos, position, this.getOrientationRotation(targets));
     if (!ray) {
       this.hoveredAxis = null;
       return;
     }
 
-    // Get gizmo position and scale
-    const position = [...selected.transform.position] as [number, number, number];
-    const scale = this.calculateGizmoScale(position);
-
     // Get current gizmo for hit testing
     const gizmo = this.getGizmoForMode(this.mode);
     if (!gizmo) {
@@ -328,11 +426,11 @@ export class TransformGizmoController {
    * We don't do a redundant hitTest here because the mouse position
    * can differ slightly between mousemove and mousedown, causing spurious failures.
    *
-   * IMPORTANT: We store the entity reference in dragState so that endDrag()
+   * IMPORTANT: We store the entity references in dragState so that endDrag()
    * doesn't depend on selection state. This prevents lost commands when
    * selection changes during the drag (e.g., from SelectionController's mouseUp).
    */
-  private startDrag(entity: ISceneObject, mousePos: [number, number]): void {
+  private startDrag(entities: ISceneObject[], mousePos: [number, number]): void {
     if (!this.currentCamera || this.hoveredAxis === null) return;
 
     // Check if we're already in a drag - this would be a bug
@@ -341,9 +439,11 @@ export class TransformGizmoController {
       this.endDrag();
     }
 
-    const position = [...entity.transform.position] as [number, number, number];
+    const entity = this.getActiveTarget(entities);
+    const position = this.getGizmoPosition(entities);
+    const orientation = this.getOrientationRotation(entities);
 
-    const ray = this.screenToRay(mousePos);
+    const ray = this.screenToGizmoRay(mousePos, position, orientation);
     if (!ray) {
       return;
     }
@@ -367,6 +467,14 @@ export class TransformGizmoController {
       startScale: [...entity.transform.scale] as [number, number, number],
       axis: this.hoveredAxis,
       startIntersection: startIntersection,
+      targets: entities.map((target): GizmoDragTarget => ({
+        entity: target,
+        startPosition: [...target.transform.position] as [number, number, number],
+        startRotation: [...target.transform.rotation] as [number, number, number],
+        startScale: [...target.transform.scale] as [number, number, number],
+      })),
+      pivot: position,
+      orientation,
     };
 
     this.eventBus.emit('gizmo:dragStart', {
@@ -575,36 +683,45 @@ export class TransformGizmoController {
   /**
    * Update during drag operation.
    */
-  private updateDrag(mousePos: [number, number]): void {
+  private updateDrag(mousePos: [number, number], snap: boolean): void {
     if (!this.dragState?.active || !this.currentCamera) return;
 
-    const selected = this.selectionManager.getPrimary();
-    if (!selected) {
+    if (!this.selectionManager.getPrimary()) {
       this.cancelDrag();
       return;
     }
 
-    // Get ray from current mouse position
-    const ray = this.screenToRay(mousePos);
+    // Get gizmo position and orientation (captured at drag start, not current)
+    const gizmoPosition = this.dragState.pivot;
+
+    // Get ray from current mouse position, in the gizmo's frame
+    const ray = this.screenToGizmoRay(mousePos, gizmoPosition, this.dragState.orientation);
     if (!ray) return;
 
     this.dragState.currentMouse = mousePos;
 
-    // Get gizmo position (start position, not current)
-    const gizmoPosition = this.dragState.startPosition;
     const gizmo = this.getGizmoForMode(this.mode);
     if (!gizmo) return;
 
-    // Calculate delta
-    const delta = gizmo.calculateDragDelta(
+    // Calculate delta along the gizmo axes
+    let delta = gizmo.calculateDragDelta(
       this.dragState,
       ray.origin,
       ray.direction,
       gizmoPosition
     );
 
+    if (snap && this.settingsService) {
+      const settings = this.settingsService.get('snap');
+      delta = snapDelta(this.mode, delta, {
+        translate: settings.translateIncrement,
+        rotate: settings.rotateIncrement,
+        scale: settings.scaleIncrement,
+      });
+    }
+
     // Apply transform based on mode
-    this.applyTransform(selected, delta);
+    this.applyTransform(delta);
   }
 
   /**
@@ -619,12 +736,9 @@ export class TransformGizmoController {
       return;
     }
 
-    // Use the entity stored at drag start, NOT the current selection
+    // Use the targets stored at drag start, NOT the current selection
     // This prevents lost commands when selection changes during drag
-    const entity = this.dragState.entity;
-
-    // Create commands for changed properties
-    this.commitTransformChanges(entity);
+    this.commitTransformChanges(this.dragState.targets);
 
     this.eventBus.emit('gizmo:dragEnd', {
       mode: this.mode,
@@ -641,22 +755,15 @@ export class TransformGizmoController {
     if (!this.dragState?.active) return;
 
     // Restore original values
-    const selected = this.selectionManager.getPrimary();
-    if (selected) {
-      selected.transform.position[0] = this.dragState.startPosition[0];
-      selected.transform.position[1] = this.dragState.startPosition[1];
-      selected.transform.position[2] = this.dragState.startPosition[2];
-      selected.transform.rotation[0] = this.dragState.startRotation[0];
-      selected.transform.rotation[1] = this.dragState.startRotation[1];
-      selected.transform.rotation[2] = this.dragState.startRotation[2];
-      selected.transform.scale[0] = this.dragState.startScale[0];
-      selected.transform.scale[1] = this.dragState.startScale[1];
-      selected.transform.scale[2] = this.dragState.startScale[2];
+    for (const target of this.dragState.targets) {
+      target.entity.transform.position = [...target.startPosition] as [number, number, number];
+      target.entity.transform.rotation = [...target.startRotation] as [number, number, number];
+      target.entity.transform.scale = [...target.startScale] as [number, number, number];
 
       this.eventBus.emit('entity:propertyUpdated', {
-        id: selected.id,
+        id: target.entity.id,
         property: 'transform',
-        entity: selected,
+        entity: target.entity,
       });
     }
 
@@ -664,128 +771,186 @@ export class TransformGizmoController {
   }
 
   /**
-   * Apply transform delta to entity (live update during drag).
+   * Apply transform delta to every target (live update during drag).
    */
-  private applyTransform(entity: ISceneObject, delta: [number, number, number]): void {
+  private applyTransform(delta: [number, number, number]): void {
     if (!this.dragState) return;
 
-    switch (this.mode) {
-      case 'translate':
-        entity.transform.position[0] = this.dragState.startPosition[0] + delta[0];
-        entity.transform.position[1] = this.dragState.startPosition[1] + delta[1];
-        entity.transform.position[2] = this.dragState.startPosition[2] + delta[2];
-        break;
-
-      case 'rotate':
-        entity.transform.rotation[0] = this.dragState.startRotation[0] + delta[0];
-        entity.transform.rotation[1] = this.dragState.startRotation[1] + delta[1];
-        entity.transform.rotation[2] = this.dragState.startRotation[2] + delta[2];
-        break;
+    applyPivotTransform(
+      this.mode,
+      this.pivotMode,
+      this.dragState.targets,
+      this.dragState.pivot,
+      delta,
+      getRotationMatrix(this.dragState.orientation)
+    );
 
-      case 'scale':
-        entity.transform.scale[0] = Math.max(0.01, this.dragState.startScale[0] + delta[0]);
-        entity.transform.scale[1] = Math.max(0.01, this.dragState.startScale[1] + delta[1]);
-        entity.transform.scale[2] = Math.max(0.01, this.dragState.startScale[2] + delta[2]);
-        break;
+    // Emit live update events
+    for (const target of this.dragState.targets) {
+      this.eventBus.emit('entity:propertyUpdated', {
+        id: target.entity.id,
+        property: 'transform',
+        entity: target.entity,
+      });
     }
-
-    // Emit live update event
-    this.eventBus.emit('entity:propertyUpdated', {
-      id: entity.id,
-      property: 'transform',
-      entity,
-    });
   }
 
   /**
    * Commit transform changes via CommandHistory.
    *
-   * Uses batch mode to combine all axis changes into a single undo entry.
-   * This ensures that undoing a gizmo drag restores ALL axes at once,
-   * not just one axis at a time.
+   * Uses batch mode to combine all axis changes of all targets into a
+   * single undo entry. This ensures that undoing a gizmo drag restores
+   * ALL axes of ALL objects at once, not just one axis at a time.
    */
-  private commitTransformChanges(entity: ISceneObject): void {
+  private commitTransformChanges(targets: GizmoDragTarget[]): void {
     if (!this.dragState) {
       return;
     }
 
     const axes = ['x', 'y', 'z'] as const;
-    let propertyPrefix: string;
-    let startValues: [number, number, number];
-    let endValues: [number, number, number];
-
-    switch (this.mode) {
-      case 'translate':
-        propertyPrefix = 'position';
-        startValues = [...this.dragState.startPosition] as [number, number, number];
-        endValues = [...entity.transform.position] as [number, number, number];
-        break;
-
-      case 'rotate':
-        propertyPrefix = 'rotation';
-        startValues = [...this.dragState.startRotation] as [number, number, number];
-        endValues = [...entity.transform.rotation] as [number, number, number];
-        break;
-
-      case 'scale':
-        propertyPrefix = 'scale';
-        startValues = [...this.dragState.startScale] as [number, number, number];
-        endValues = [...entity.transform.scale] as [number, number, number];
-        break;
-    }
-
-    // Check if any axis actually changed
-    const changedAxes: number[] = [];
-    for (let i = 0; i < 3; i++) {
-      if (Math.abs(startValues[i] - endValues[i]) > 0.0001) {
-        changedAxes.push(i);
+    const properties = ['position', 'rotation', 'scale'] as const;
+    const commands: PropertyChangeCommand[] = [];
+
+    for (const target of targets) {
+      const startValues = {
+        position: target.startPosition,
+        rotation: target.startRotation,
+        scale: target.startScale,
+      };
+
+      for (const property of properties) {
+        const endValues = [...target.entity.transform[property]] as [number, number, number];
+
+        // Restore the start value BEFORE creating commands
+        // This ensures command.execute() will apply the correct new values
+        target.entity.transform[property] = [...startValues[property]] as [number, number, number];
+
+        for (let i = 0; i < 3; i++) {
+          // Skip axes that didn't actually change
+          if (Math.abs(startValues[property][i] - endValues[i]) <= 0.0001) continue;
+
+          commands.push(new PropertyChangeCommand({
+            entityId: target.entity.id,
+            property: `${property}.${axes[i]}`,
+            oldValue: startValues[property][i],
+            newValue: endValues[i],
+            sceneGraph: this.sceneGraph,
+            eventBus: this.eventBus,
+          }));
+        }
       }
     }
 
     // If nothing changed, no command needed
-    if (changedAxes.length === 0) {
+    if (commands.length === 0) {
       return;
     }
 
-    // Restore all values to their start state BEFORE creating commands
-    // This ensures command.execute() will apply the correct new values
-    switch (this.mode) {
-      case 'translate':
-        entity.transform.position[0] = startValues[0];
-        entity.transform.position[1] = startValues[1];
-        entity.transform.position[2] = startValues[2];
-        break;
-      case 'rotate':
-        entity.transform.rotation[0] = startValues[0];
-        entity.transform.rotation[1] = startValues[1];
-        entity.transform.rotation[2] = startValues[2];
-        break;
-      case 'scale':
-        entity.transform.scale[0] = startValues[0];
-        entity.transform.scale[1] = startValues[1];
-        entity.transform.scale[2] = startValues[2];
-        break;
-    }
-
-    // Use batch mode to combine all axis changes into one undo entry
+    // Use batch mode to combine all changes into one undo entry
     this.commandHistory.beginBatch();
-
-    for (const i of changedAxes) {
-      const command = new PropertyChangeCommand({
-        entityId: entity.id,
-        property: `${propertyPrefix}.${axes[i]}`,
-        oldValue: startValues[i],
-        newValue: endValues[i],
-        sceneGraph: this.sceneGraph,
-        eventBus: this.eventBus,
-      });
-
+    for (const command of commands) {
       this.commandHistory.execute(command);
     }
 
     // End batch with descriptive message
     const modeLabel = this.mode.charAt(0).toUpperCase() + this.mode.slice(1);
-    this.commandHistory.endBatch(`${modeLabel} ${entity.name}`);
+    const targetLabel = targets.length === 1 ? targets[0].entity.name : `${targets.length} objects`;
+    this.commandHistory.endBatch(`${modeLabel} ${targetLabel}`);
+  }
+
+  /**
+   * Get the selected objects the gizmo transforms.
+   * Cameras and objects whose ancestor is also selected are left out.
+   */
+  private getTransformTargets(): ISceneObject[] {
+    const selected = this.selectionManager
+      .getSelected()
+      .filter((entity) => !this.shouldSkipEntity(entity));
+    return getTransformRoots(selected);
+  }
+
+  /**
+   * Get the active object among the targets (the primary selection when possible).
+   */
+  private getActiveTarget(targets: ISceneObject[]): ISceneObject {
+    const primary = this.selectionManager.getPrimary();
+    return primary && targets.includes(primary) ? primary : targets[0];
+  }
+
+  /**
+   * Get the gizmo position for the targets and current pivot mode.
+   */
+  private getGizmoPosition(targets: ISceneObject[]): [number, number, number] {
+    return computePivotPoint(
+      this.pivotMode,
+      targets,
+      this.getActiveTarget(targets),
+      this.cursorPosition
+    );
+  }
+
+  /**
+   * Get the rotation (Euler degrees) of the gizmo axes for the current orientation.
+   * Local orientation follows the active object's world rotation.
+   */
+  private getOrientationRotation(targets: ISceneObject[]): [number, number, number] {
+    switch (this.orientation) {
+      case 'local':
+        return targets.length > 0
+          ? mat4Decompose(getObjectWorldMatrix(this.getActiveTarget(targets))).rotation
+          : [0, 0, 0];
+      case 'view':
+        return this.currentCamera
+          ? mat4Decompose(mat4Inverse(this.currentCamera.getViewMatrix())).rotation
+          : [0, 0, 0];
+      default:
+        return [0, 0, 0];
+    }
+  }
+
+  /**
+   * Check if a drag should snap: the snap setting, inverted while Ctrl is held.
+   */
+  private isSnapping(ctrlKey: boolean): boolean {
+    const enabled = this.settingsService?.get('snap', 'enabled') ?? false;
+    return enabled !== ctrlKey;
+  }
+
+  /**
+   * Convert screen coordinates to a ray in the gizmo's frame.
+   * Gizmos hit test and compute drag deltas with world-aligned axes,
+   * so the ray is rotated into the gizmo's orientation around its position.
+   */
+  private screenToGizmoRay(
+    screenPos: [number, number],
+    gizmoPosition: [number, number, number],
+    rotation: [number, number, number]
+  ): { origin: [number, number, number]; direction: [number, number, number] } | null {
+    const ray = this.screenToRay(screenPos);
+    if (!ray || rotation.every((angle) => angle === 0)) return ray;
+
+    const orientation = getRotationMatrix(rotation);
+    return {
+      origin: inverseRotatePointAround(orientation, ray.origin, gizmoPosition),
+      direction: inverseRotateDirection(orientation, ray.direction),
+    };
+  }
+
+  /**
+   * Place the 3D cursor where the mouse ray hits the ground plane (Z = 0).
+   */
+  private placeCursor(mousePos: [number, number]): void {
+    const ray = this.screenToRay(mousePos);
+    if (!ray || Math.abs(ray.direction[2]) < 1e-6) return;
+
+    const t = -ray.origin[2] / ray.direction[2];
+    if (t < 0) return;
+
+    this.setCursorPosition([
+      ray.origin[0] + ray.direction[0] * t,
+      ray.origin[1] + ray.direction[1] * t,
+      0,
+    ]);
   }
 
   /**
@@ -884,9 +1049,12 @@ export class TransformGizmoController {
 
   /**
    * Check if entity should be skipped for gizmo rendering.
-   * Only skips Camera entities - lights can now use transform gizmos.
+   * Skips the scene root and Camera entities - lights can use transform gizmos.
    */
   private shouldSkipEntity(entity: ISceneObject): boolean {
+    // The scene root is selected to edit scene settings, not to be moved
+    if (entity.id === 'root') return true;
+
     // Skip entities that have their own specialized gizmos (cameras only)
     // Lights can now use transform gizmos for positioning
     const entityWithComponent = entity as { hasComponent?: (type: string) => boolean };
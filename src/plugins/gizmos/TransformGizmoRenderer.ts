@@ -10,6 +10,7 @@
  * - Per-vertex coloring for axis identification
  * - Depth disabled for always-on-top rendering
  * - Support for translate, rotate, and scale modes
+ * - Optional rotation for local/view oriented gizmos
  *
  * @example
  * ```typescript
@@ -26,6 +27,7 @@
 import type { EventBus } from '@core/EventBus';
 import type { ICamera } from '@core/interfaces';
 import type { GizmoMode, GizmoAxis, IGizmo } from './interfaces';
+import { getRotationMatrix, inverseRotateDirection, rotatePointAround } from './GizmoSpace';
 import { TranslateGizmo } from './TranslateGizmo';
 import { RotateGizmo } from './RotateGizmo';
 import { ScaleGizmo } from './ScaleGizmo';
@@ -157,7 +159,7 @@ export class TransformGizmoRenderer {
     position: [number, number, number],
     mode: GizmoMode,
     hoveredAxis: GizmoAxis,
-    _rotation?: [number, number, number]
+    rotation?: [number, number, number]
   ): void {
     if (!this.initialized || !this.program) return;
 
@@ -170,11 +172,25 @@ export class TransformGizmoRenderer {
     // Calculate screen-space scale factor for constant size
     const scale = this.calculateScreenScale(camera, position);
 
+    // Gizmo geometry is generated with world axes, then rotated into place
+    const orientation = rotation && rotation.some((angle) => angle !== 0)
+      ? getRotationMatrix(rotation)
+      : null;
+
     // Calculate camera direction for view-dependent rendering (e.g., rotation gizmo fading)
-    const cameraDirection = this.getCameraDirection(camera);
+    let cameraDirection = this.getCameraDirection(camera);
+    if (orientation) {
+      cameraDirection = inverseRotateDirection(orientation, cameraDirection);
+    }
 
     // Generate gizmo geometry
     const geometry = gizmo.generateGeometry(position, scale, hoveredAxis, cameraDirection);
+    if (orientation) {
+      this.rotateVertices(geometry.vertices, orientation, position);
+      for (const batch of geometry.additionalBatches ?? []) {
+        this.rotateVertices(batch.vertices, orientation, position);
+      }
+    }
 
     // Disable depth testing so gizmo renders on top
     gl.disable(gl.DEPTH_TEST);
@@ -279,6 +295,22 @@ export class TransformGizmoRenderer {
     ];
   }
 
+  /**
+   * Rotate vertex positions around the gizmo position (in place).
+   */
+  private rotateVertices(
+    vertices: Float32Array,
+    orientation: Float32Array,
+    center: [number, number, number]
+  ): void {
+    for (let i = 0; i + 2 < vertices.length; i += 3) {
+      const rotated = rotatePointAround(orientation, [vertices[i], vertices[i + 1], vertices[i + 2]], center);
+      vertices[i] = rotated[0];
+      vertices[i + 1] = rotated[1];
+      vertices[i + 2] = rotated[2];
+    }
+  }
+
   /**
    * Dispose of GPU resources.
    */
@@ -12,6 +12,21 @@ export { TranslateGizmo } from './TranslateGizmo';
 export { RotateGizmo } from './RotateGizmo';
 export { ScaleGizmo } from './ScaleGizmo';
 
+// Multi-object pivot transforms
+export { applyPivotTransform, computePivotPoint, getTransformRoots } from './PivotTransform';
+
+// Orientation frames and snapping
+export {
+  getRotationMatrix,
+  rotateDirection,
+  inverseRotateDirection,
+  rotatePointAround,
+  inverseRotatePointAround,
+  snapValue,
+  snapDelta,
+} from './GizmoSpace';
+export type { GizmoSnapIncrements } from './GizmoSpace';
+
 // Renderer and controller
 export { TransformGizmoRenderer } from './TransformGizmoRenderer';
 export type { TransformGizmoRendererConfig } from './TransformGizmoRenderer';
@@ -22,6 +22,23 @@ export type GizmoMode = 'translate' | 'rotate' | 'scale';
  */
 export type GizmoAxis = 'x' | 'y' | 'z' | 'xy' | 'xz' | 'yz' | 'xyz' | 'view' | null;
 
+/**
+ * Pivot point used when transforming a multi-object selection.
+ * - median: average position of the selected objects
+ * - active: position of the active (primary) object
+ * - individual: each object rotates/scales around its own origin
+ * - cursor: the 3D cursor
+ */
+export type PivotMode = 'median' | 'active' | 'individual' | 'cursor';
+
+/**
+ * Space the gizmo axes are aligned with.
+ * - world: world X/Y/Z axes
+ * - local: the active object's rotated axes
+ * - view: the camera's right/up/back axes
+ */
+export type GizmoOrientation = 'world' | 'local' | 'view';
+
 /**
  * Axis colors following industry standard (Unity, Blender, Maya).
  */
@@ -112,6 +129,23 @@ export interface GizmoHitResult {
   hitPoint: [number, number, number];
 }
 
+/**
+ * An object transformed by a gizmo drag, with its transform at drag start.
+ */
+export interface GizmoDragTarget {
+  /** The object being transformed */
+  entity: ISceneObject;
+
+  /** Position before drag */
+  startPosition: [number, number, number];
+
+  /** Rotation before drag (degrees) */
+  startRotation: [number, number, number];
+
+  /** Scale before drag */
+  startScale: [number, number, number];
+}
+
 /**
  * Gizmo drag state during interaction.
  */
@@ -142,6 +176,15 @@ export interface GizmoDragState {
 
   /** Intersection point at drag start */
   startIntersection: [number, number, number];
+
+  /** Every object transformed by the drag (including the active entity) */
+  targets: GizmoDragTarget[];
+
+  /** Pivot point the targets rotate and scale around */
+  pivot: [number, number, number];
+
+  /** Rotation of the gizmo axes at drag start (Euler degrees, zero for world) */
+  orientation: [number, number, number];
 }
 
 /**
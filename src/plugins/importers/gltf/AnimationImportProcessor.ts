@@ -0,0 +1,142 @@
+/**
+ * AnimationImportProcessor - Applies animation import settings to extracted clips
+ *
+ * Runs after MeshImportProcessor and before GLTFImporter's asset creation.
+ * Every IAnimationImportSettings option is applied here:
+ *
+ * - importAnimations - when false, all animations are dropped
+ * - animationNamePrefix - prepended to every clip name
+ * - sampleRate - LINEAR and CUBICSPLINE channels are baked to LINEAR keys
+ *   at this many samples per second (cubic curves are evaluated as Hermite
+ *   splines); STEP channels keep their keys. A rate of 0 keeps the source
+ *   keys and drops cubic tangents.
+ *
+ * After processing, every channel is either LINEAR or STEP. Like
+ * MeshImportProcessor, the processor never mutates its input.
+ *
+ * @example
+ * ```typescript
+ * const meshes = new MeshImportProcessor().process(raw, meta.importSettings);
+ * const processed = new AnimationImportProcessor().process(meshes, meta.importSettings);
+ * ```
+ */
+
+import type { IModelImportSettings } from '@core/assets/interfaces/IModelAssetMeta';
+import { quatNormalize, quatSlerp } from '@utils/math/quaternion';
+import type { Quat } from '@utils/math/quaternion';
+import type {
+  IGLTFAnimationChannelData,
+  IGLTFAnimationData,
+  IGLTFImportResult,
+} from './GLTFImportService';
+
+/**
+ * Applies animation import settings to GLTF extraction results.
+ */
+export class AnimationImportProcessor {
+  /**
+   * Apply animation settings to every animation in the result.
+   *
+   * @param result - Result from GLTFImportService (or MeshImportProcessor)
+   * @param settings - Model import settings to apply
+   * @returns A new result with processed animations
+   */
+  process(result: IGLTFImportResult, settings: IModelImportSettings): IGLTFImportResult {
+    const { importAnimations, animationNamePrefix, sampleRate } = settings.animations;
+
+    if (!importAnimations || !result.animations) {
+      return { ...result, animations: [] };
+    }
+
+    const rate = Number.isFinite(sampleRate) ? sampleRate : 0;
+    const animations = result.animations.map((animation): IGLTFAnimationData => ({
+      ...animation,
+      name: `${animationNamePrefix}${animation.name}`,
+      channels: animation.channels.map((channel) => this.processChannel(channel, rate)),
+    }));
+
+    return { ...result, animations };
+  }
+
+  /**
+   * Bake a single channel to LINEAR keys (STEP channels pass through).
+   */
+  private processChannel(channel: IGLTFAnimationChannelData, rate: number): IGLTFAnimationChannelData {
+    if (channel.interpolation === 'STEP') {
+      return channel;
+    }
+
+    const stride = channel.path === 'rotation' ? 4 : 3;
+    const { times } = channel;
+    const keyCount = times.length;
+
+    if (rate <= 0 || keyCount < 2) {
+      const values = channel.interpolation === 'CUBICSPLINE'
+        ? this.dropTangents(channel.values, keyCount, stride)
+        : channel.values;
+      return { ...channel, interpolation: 'LINEAR', values };
+    }
+
+    const start = times[0];
+    const end = times[keyCount - 1];
+    const sampleCount = Math.max(1, Math.ceil((end - start) * rate)) + 1;
+    const sampledTimes = new Float32Array(sampleCount);
+    const sampledValues = new Float32Array(sampleCount * stride);
+
+    let key = 0;
+    for (let i = 0; i < sampleCount; i++) {
+      const time = i === sampleCount - 1 ? end : start + ((end - start) * i) / (sampleCount - 1);
+      while (key < keyCount - 2 && times[key + 1] <= time) {
+        key++;
+      }
+      sampledTimes[i] = time;
+      sampledValues.set(this.evaluate(channel, stride, key, time), i * stride);
+    }
+
+    return { ...channel, interpolation: 'LINEAR', times: sampledTimes, values: sampledValues };
+  }
+
+  /**
+   * Evaluate a channel between keys `key` and `key + 1`.
+   */
+  private evaluate(channel: IGLTFAnimationChannelData, stride: number, key: number, time: number): number[] {
+    const { times, values } = channel;
+    const span = times[key + 1] - times[key];
+    const t = span > 0 ? Math.min(Math.max((time - times[key]) / span, 0), 1) : 0;
+
+    if (channel.interpolation === 'CUBICSPLINE') {
+      // Each key stores [in-tangent, value, out-tangent]
+      const element = (k: number, part: number, c: number): number => values[(k * 3 + part) * stride + c];
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const result: number[] = [];
+      for (let c = 0; c < stride; c++) {
+        result.push(
+          (2 * t3 - 3 * t2 + 1) * element(key, 1, c) +
+          (t3 - 2 * t2 + t) * span * element(key, 2, c) +
+          (-2 * t3 + 3 * t2) * element(key + 1, 1, c) +
+          (t3 - t2) * span * element(key + 1, 0, c)
+        );
+      }
+      return stride === 4 ? quatNormalize(result as Quat) : result;
+    }
+
+    const a = Array.from(values.subarray(key * stride, key * stride + stride));
+    const b = Array.from(values.subarray((key + 1) * stride, (key + 1) * stride + stride));
+    if (stride === 4) {
+      return quatSlerp(a as Quat, b as Quat, t);
+    }
+    return a.map((value, c) => value + (b[c] - value) * t);
+  }
+
+  /**
+   * Keep only the value of every cubic spline key.
+   */
+  private dropTangents(values: Float32Array, keyCount: number, stride: number): Float32Array {
+    const result = new Float32Array(keyCount * stride);
+    for (let k = 0; k < keyCount; k++) {
+      result.set(values.subarray((k * 3 + 1) * stride, (k * 3 + 2) * stride), k * stride);
+    }
+    return result;
+  }
+}
@@ -4,7 +4,13 @@
  * Uses @gltf-transform/core to parse GLTF 2.0 files and extract:
  * - Geometry data (positions, normals, UVs, indices)
  * - Material properties (PBR metallic-roughness workflow)
+ * - Embedded base color and metallic-roughness textures
  * - Scene hierarchy (nodes, transforms)
+ * - Skins (joint nodes, inverse bind matrices) and per-vertex joints/weights
+ * - Node animations (translation, rotation and scale channels)
+ *
+ * Morph targets and morph weight animation channels are not supported and
+ * produce warnings.
  *
  * All imported geometry is converted from GLTF's Y-up coordinate system
  * to the project's Z-up coordinate system (Blender convention).
@@ -18,8 +24,32 @@
  */
 
 import { Document, WebIO } from '@gltf-transform/core';
-import type { Node, Mesh, Material, Primitive, Scene } from '@gltf-transform/core';
+import type {
+  Accessor,
+  Animation,
+  Node,
+  Mesh,
+  Material,
+  Primitive,
+  Scene,
+  Skin,
+  Texture,
+  TextureInfo,
+} from '@gltf-transform/core';
 import type { IMeshBounds } from '@core/assets/interfaces/IMeshAsset';
+import type { MeshIndexArray } from '@core/interfaces/IMeshData';
+import { MAX_UINT16_INDEX, createIndexArray } from '@core/interfaces/IMeshData';
+import type { WrapMode } from '@core/assets/interfaces/ITextureAssetMeta';
+import { quatToEulerDegrees } from '@utils/math/quaternion';
+
+/**
+ * glTF sampler wrap enums mapped to texture import wrap modes.
+ */
+const GLTF_WRAP_MODES: Record<number, WrapMode> = {
+  33071: 'clamp',   // CLAMP_TO_EDGE
+  33648: 'mirror',  // MIRRORED_REPEAT
+  10497: 'repeat',  // REPEAT
+};
 
 /**
  * Extracted mesh data from a GLTF primitive.
@@ -33,8 +63,16 @@ export interface IGLTFMeshData {
   normals: Float32Array;
   /** UV texture coordinates (optional) */
   uvs?: Float32Array;
+  /** Tangents with bitangent sign in w (set by MeshImportProcessor, optional) */
+  tangents?: Float32Array;
+  /** Skin joint indices, 4 per vertex (JOINTS_0, optional) */
+  joints?: Uint16Array;
+  /** Skin joint weights, 4 per vertex (WEIGHTS_0, optional) */
+  weights?: Float32Array;
+  /** True when the source had no normals and flat normals were generated */
+  generatedNormals?: boolean;
   /** Triangle indices */
-  indices: Uint16Array | Uint32Array;
+  indices: MeshIndexArray;
   /** Computed axis-aligned bounding box */
   bounds: IMeshBounds;
   /** Number of vertices */
@@ -63,6 +101,32 @@ export interface IGLTFMaterialData {
   transparent: boolean;
   /** Emissive color RGB (0-1 range) */
   emissive?: [number, number, number];
+  /** Index into the textures array for the base color map (if any) */
+  baseColorTextureIndex?: number;
+  /** Index into the textures array for the metallic-roughness map (if any) */
+  metallicRoughnessTextureIndex?: number;
+}
+
+/**
+ * Extracted image data from a GLTF texture.
+ */
+export interface IGLTFTextureData {
+  /** Display name of the texture */
+  name: string;
+  /** Encoded image bytes (PNG/JPEG) */
+  image: Uint8Array;
+  /** MIME type of the encoded image */
+  mimeType: string;
+  /** Image width in pixels (0 if unknown) */
+  width: number;
+  /** Image height in pixels (0 if unknown) */
+  height: number;
+  /** Whether the texture holds color data (sampled as sRGB) */
+  sRGB: boolean;
+  /** Horizontal wrap mode from the first material that uses the texture */
+  wrapModeU: WrapMode;
+  /** Vertical wrap mode from the first material that uses the texture */
+  wrapModeV: WrapMode;
 }
 
 /**
@@ -71,6 +135,10 @@ export interface IGLTFMaterialData {
 export interface IGLTFNodeData {
   /** Display name of the node */
   name: string;
+  /** Index of the node in the GLTF document (referenced by skins and animations) */
+  nodeIndex?: number;
+  /** Index into the skins array (if this node's mesh is skinned) */
+  skinIndex?: number;
   /** Index into the meshes array (if this node has geometry) */
   meshIndex?: number;
   /** All mesh indices for GLTF meshes containing multiple primitives */
@@ -87,6 +155,60 @@ export interface IGLTFNodeData {
   children: IGLTFNodeData[];
 }
 
+/**
+ * A skin extracted from a GLTF file.
+ */
+export interface IGLTFSkinData {
+  /** Display name of the skin */
+  name: string;
+  /** Document node indices of the joints, in joint order */
+  joints: number[];
+  /** Inverse bind matrices, 16 column-major floats per joint (Z-up converted) */
+  inverseBindMatrices: Float32Array;
+}
+
+/**
+ * GLTF animation channel target property.
+ */
+export type GLTFAnimationPath = 'translation' | 'rotation' | 'scale';
+
+/**
+ * GLTF animation sampler interpolation.
+ */
+export type GLTFAnimationInterpolation = 'LINEAR' | 'STEP' | 'CUBICSPLINE';
+
+/**
+ * A single animation channel extracted from a GLTF file.
+ */
+export interface IGLTFAnimationChannelData {
+  /** Document node index of the animated node */
+  nodeIndex: number;
+  /** Animated property */
+  path: GLTFAnimationPath;
+  /** Sampler interpolation */
+  interpolation: GLTFAnimationInterpolation;
+  /** Keyframe times in seconds */
+  times: Float32Array;
+  /**
+   * Keyframe values (Z-up converted): 3 components per key for translation
+   * and scale, 4 (quaternion x, y, z, w) for rotation. CUBICSPLINE stores
+   * in-tangent, value and out-tangent for every key.
+   */
+  values: Float32Array;
+}
+
+/**
+ * An animation extracted from a GLTF file.
+ */
+export interface IGLTFAnimationData {
+  /** Display name of the animation */
+  name: string;
+  /** Last keyframe time across all channels, in seconds */
+  duration: number;
+  /** Supported channels */
+  channels: IGLTFAnimationChannelData[];
+}
+
 /**
  * Complete result of importing a GLTF/GLB file.
  */
@@ -95,8 +217,14 @@ export interface IGLTFImportResult {
   meshes: IGLTFMeshData[];
   /** All extracted materials */
   materials: IGLTFMaterialData[];
+  /** All extracted textures referenced by materials */
+  textures?: IGLTFTextureData[];
   /** Scene hierarchy (root-level nodes) */
   hierarchy: IGLTFNodeData[];
+  /** Skins referenced by skinned nodes */
+  skins?: IGLTFSkinData[];
+  /** Node animations */
+  animations?: IGLTFAnimationData[];
   /** Any warnings encountered during import */
   warnings: string[];
 }
@@ -113,6 +241,18 @@ export class GLTFImportService {
   /** Map from GLTF material to its index in the result materials array */
   private materialIndexMap: Map<Material, number> = new Map();
 
+  /** Map from GLTF texture to its index in the result textures array */
+  private textureIndexMap: Map<Texture, number> = new Map();
+
+  /** Map from GLTF node to its index in the document */
+  private nodeIndexMap: Map<Node, number> = new Map();
+
+  /** Map from GLTF skin to its index in the result skins array */
+  private skinIndexMap: Map<Skin, number> = new Map();
+
+  /** Nodes kept in the hierarchy even without geometry (joints, animation targets) */
+  private requiredNodes: Set<Node> = new Set();
+
   constructor() {
     this.io = new WebIO();
   }
@@ -143,20 +283,34 @@ export class GLTFImportService {
     // Reset index maps
     this.meshIndexMap.clear();
     this.materialIndexMap.clear();
+    this.textureIndexMap.clear();
+    this.skinIndexMap.clear();
+    this.requiredNodes.clear();
+    this.nodeIndexMap = new Map(doc.getRoot().listNodes().map((node, index) => [node, index]));
 
-    // Extract materials first (meshes reference them)
-    const materials = this.extractMaterials(doc, warnings);
+    // Extract materials first (meshes reference them); textures are
+    // collected as materials reference them
+    const textures: IGLTFTextureData[] = [];
+    const materials = this.extractMaterials(doc, textures, warnings);
 
     // Extract meshes
     const meshes = this.extractMeshes(doc, warnings);
 
+    // Extract skins and animations before the hierarchy so the nodes they
+    // reference are kept
+    const skins = this.extractSkins(doc);
+    const animations = this.extractAnimations(doc, warnings);
+
     // Extract hierarchy
     const hierarchy = this.extractHierarchy(doc, warnings);
 
     return {
       meshes,
       materials,
+      textures,
       hierarchy,
+      skins,
+      animations,
       warnings,
     };
   }
@@ -164,7 +318,11 @@ export class GLTFImportService {
   /**
    * Extract all materials from the GLTF document.
    */
-  private extractMaterials(doc: Document, warnings: string[]): IGLTFMaterialData[] {
+  private extractMaterials(
+    doc: Document,
+    textures: IGLTFTextureData[],
+    warnings: string[]
+  ): IGLTFMaterialData[] {
     const materials: IGLTFMaterialData[] = [];
     const gltfMaterials = doc.getRoot().listMaterials();
 
@@ -190,6 +348,21 @@ export class GLTFImportService {
           materialData.emissive = [emissiveFactor[0], emissiveFactor[1], emissiveFactor[2]];
         }
 
+        materialData.baseColorTextureIndex = this.extractTexture(
+          mat.getBaseColorTexture(),
+          mat.getBaseColorTextureInfo(),
+          true,
+          textures,
+          warnings
+        );
+        materialData.metallicRoughnessTextureIndex = this.extractTexture(
+          mat.getMetallicRoughnessTexture(),
+          mat.getMetallicRoughnessTextureInfo(),
+          false,
+          textures,
+          warnings
+        );
+
         this.materialIndexMap.set(mat, materials.length);
         materials.push(materialData);
       } catch (error) {
@@ -200,6 +373,52 @@ export class GLTFImportService {
     return materials;
   }
 
+  /**
+   * Extract a texture referenced by a material, reusing the entry if another
+   * material already referenced it. A texture used as a color map anywhere
+   * is sampled as sRGB.
+   *
+   * @returns Index into the textures array, or undefined if there is no usable image
+   */
+  private extractTexture(
+    texture: Texture | null,
+    info: TextureInfo | null,
+    isColor: boolean,
+    textures: IGLTFTextureData[],
+    warnings: string[]
+  ): number | undefined {
+    if (!texture) {
+      return undefined;
+    }
+
+    const existing = this.textureIndexMap.get(texture);
+    if (existing !== undefined) {
+      textures[existing].sRGB ||= isColor;
+      return existing;
+    }
+
+    const image = texture.getImage();
+    if (!image) {
+      warnings.push(`Texture "${texture.getName() || texture.getURI()}" has no image data`);
+      return undefined;
+    }
+
+    const size = texture.getSize();
+    const index = textures.length;
+    textures.push({
+      name: texture.getName() || texture.getURI() || `Texture_${index}`,
+      image,
+      mimeType: texture.getMimeType(),
+      width: size?.[0] ?? 0,
+      height: size?.[1] ?? 0,
+      sRGB: isColor,
+      wrapModeU: GLTF_WRAP_MODES[info?.getWrapS() ?? 10497] ?? 'repeat',
+      wrapModeV: GLTF_WRAP_MODES[info?.getWrapT() ?? 10497] ?? 'repeat',
+    });
+    this.textureIndexMap.set(texture, index);
+    return index;
+  }
+
   /**
    * Extract all meshes from the GLTF document.
    */
@@ -211,6 +430,9 @@ export class GLTFImportService {
       const primitiveIndices: number[] = [];
 
       const primitives = mesh.listPrimitives();
+      if (primitives.some((primitive) => primitive.listTargets().length > 0)) {
+        warnings.push(`Mesh '${mesh.getName() || `Mesh_${meshes.length}`}' has morph targets, which are not imported`);
+      }
       for (let primitiveIndex = 0; primitiveIndex < primitives.length; primitiveIndex++) {
         const primitive = primitives[primitiveIndex];
         try {
@@ -265,7 +487,7 @@ export class GLTFImportService {
 
     // Get indices FIRST (needed for flat normal generation)
     const indicesAccessor = primitive.getIndices();
-    let indices: Uint16Array | Uint32Array;
+    let indices: MeshIndexArray;
     let hasExplicitIndices = false;
 
     if (indicesAccessor) {
@@ -273,12 +495,7 @@ export class GLTFImportService {
       if (indexArray) {
         hasExplicitIndices = true;
         // Use Uint16Array if indices fit, otherwise Uint32Array
-        const maxIndex = Math.max(...indexArray);
-        if (maxIndex <= 65535) {
-          indices = new Uint16Array(indexArray);
-        } else {
-          indices = new Uint32Array(indexArray);
-        }
+        indices = createIndexArray(indexArray);
       } else {
         // Generate sequential indices
         indices = this.generateSequentialIndices(positions.length / 3);
@@ -298,8 +515,22 @@ export class GLTFImportService {
       }
     }
 
+    // Get skin joints and weights (optional, used together)
+    let joints: Uint16Array | undefined;
+    let weights: Float32Array | undefined;
+    const jointsAccessor = primitive.getAttribute('JOINTS_0');
+    const weightsAccessor = primitive.getAttribute('WEIGHTS_0');
+    if (jointsAccessor && weightsAccessor) {
+      const jointArray = jointsAccessor.getArray();
+      if (jointArray) {
+        joints = new Uint16Array(jointArray);
+        weights = this.readFloatArray(weightsAccessor);
+      }
+    }
+
     // Get normals (optional but recommended) - use flat normals if missing/invalid
     let normals: Float32Array;
+    let generatedNormals = false;
     const normalAccessor = primitive.getAttribute('NORMAL');
     if (normalAccessor) {
       const normalArray = normalAccessor.getArray();
@@ -307,21 +538,27 @@ export class GLTFImportService {
         normals = this.convertCoordinates(new Float32Array(normalArray));
       } else {
         warnings.push(`Could not get normal array, generating flat normals`);
+        generatedNormals = true;
         if (hasExplicitIndices) {
-          const expanded = this.expandIndexedGeometry(positions, indices, uvs);
+          const expanded = this.expandIndexedGeometry(positions, indices, uvs, joints, weights);
           positions = expanded.positions;
           indices = expanded.indices;
           uvs = expanded.uvs;
+          joints = expanded.joints;
+          weights = expanded.weights;
         }
         normals = this.generateFlatNormals(positions, indices);
       }
     } else {
       warnings.push(`Primitive has no NORMAL attribute, generating flat normals`);
+      generatedNormals = true;
       if (hasExplicitIndices) {
-        const expanded = this.expandIndexedGeometry(positions, indices, uvs);
+        const expanded = this.expandIndexedGeometry(positions, indices, uvs, joints, weights);
         positions = expanded.positions;
         indices = expanded.indices;
         uvs = expanded.uvs;
+        joints = expanded.joints;
+        weights = expanded.weights;
       }
       normals = this.generateFlatNormals(positions, indices);
     }
@@ -344,14 +581,140 @@ export class GLTFImportService {
       positions,
       normals,
       uvs,
+      joints,
+      weights,
       indices,
       bounds,
       vertexCount,
       triangleCount,
       materialIndex,
+      generatedNormals,
     };
   }
 
+  /**
+   * Extract all skins from the GLTF document.
+   * Marks joint nodes as required so the hierarchy keeps them.
+   */
+  private extractSkins(doc: Document): IGLTFSkinData[] {
+    const skins: IGLTFSkinData[] = [];
+
+    for (const skin of doc.getRoot().listSkins()) {
+      const jointNodes = skin.listJoints();
+      const joints: number[] = [];
+      for (const joint of jointNodes) {
+        joints.push(this.nodeIndexMap.get(joint) ?? -1);
+        this.requiredNodes.add(joint);
+      }
+
+      // Missing inverse bind matrices default to identity
+      const inverseBindMatrices = new Float32Array(jointNodes.length * 16);
+      const source = skin.getInverseBindMatrices()?.getArray();
+      for (let j = 0; j < jointNodes.length; j++) {
+        if (source && source.length >= (j + 1) * 16) {
+          this.convertMatrix(source, j * 16, inverseBindMatrices);
+        } else {
+          inverseBindMatrices[j * 16] = 1;
+          inverseBindMatrices[j * 16 + 5] = 1;
+          inverseBindMatrices[j * 16 + 10] = 1;
+          inverseBindMatrices[j * 16 + 15] = 1;
+        }
+      }
+
+      this.skinIndexMap.set(skin, skins.length);
+      skins.push({
+        name: skin.getName() || `Skin_${skins.length}`,
+        joints,
+        inverseBindMatrices,
+      });
+    }
+
+    return skins;
+  }
+
+  /**
+   * Extract all animations from the GLTF document.
+   * Marks animated nodes as required so the hierarchy keeps them.
+   */
+  private extractAnimations(doc: Document, warnings: string[]): IGLTFAnimationData[] {
+    const animations: IGLTFAnimationData[] = [];
+
+    for (const animation of doc.getRoot().listAnimations()) {
+      try {
+        const data = this.extractAnimation(animation, animations.length, warnings);
+        if (data.channels.length > 0) {
+          animations.push(data);
+        }
+      } catch (error) {
+        warnings.push(`Failed to extract animation: ${error}`);
+      }
+    }
+
+    return animations;
+  }
+
+  /**
+   * Extract the supported channels of a single animation.
+   */
+  private extractAnimation(
+    animation: Animation,
+    animationIndex: number,
+    warnings: string[]
+  ): IGLTFAnimationData {
+    const name = animation.getName() || `Animation_${animationIndex}`;
+    const channels: IGLTFAnimationChannelData[] = [];
+    let duration = 0;
+    let hasMorphChannels = false;
+
+    for (const channel of animation.listChannels()) {
+      const node = channel.getTargetNode();
+      const path = channel.getTargetPath();
+      const sampler = channel.getSampler();
+      const input = sampler?.getInput();
+      const output = sampler?.getOutput();
+
+      if (path === 'weights') {
+        hasMorphChannels = true;
+        continue;
+      }
+      if (!node || !path || !sampler || !input || !output) {
+        continue;
+      }
+
+      const nodeIndex = this.nodeIndexMap.get(node);
+      const inputArray = input.getArray();
+      if (nodeIndex === undefined || !inputArray || inputArray.length === 0) {
+        continue;
+      }
+
+      const times = new Float32Array(inputArray);
+      let values = this.readFloatArray(output);
+      if (path === 'rotation') {
+        values = this.convertQuaternions(values);
+      } else if (path === 'translation') {
+        values = this.convertCoordinates(values);
+      } else {
+        values = this.convertScales(values);
+      }
+
+      this.requiredNodes.add(node);
+      duration = Math.max(duration, times[times.length - 1]);
+      channels.push({
+        nodeIndex,
+        path,
+        interpolation: sampler.getInterpolation(),
+        times,
+        values,
+      });
+    }
+
+    if (hasMorphChannels) {
+      warnings.push(`Animation '${name}' animates morph target weights, which are not imported`);
+    }
+
+    return { name, duration, channels };
+  }
+
   /**
    * Extract the scene hierarchy from the GLTF document.
    */
@@ -452,13 +815,19 @@ export class GLTFImportService {
       }
     }
 
-    // Skip empty nodes with no mesh and no children
-    if (meshIndex === undefined && children.length === 0) {
+    // Skip empty nodes with no mesh and no children, unless a skin or
+    // animation references them
+    if (meshIndex === undefined && children.length === 0 && !this.requiredNodes.has(node)) {
       return null;
     }
 
+    const skin = node.getSkin();
+    const skinIndex = skin && meshIndex !== undefined ? this.skinIndexMap.get(skin) : undefined;
+
     return {
       name: node.getName() || `Node`,
+      nodeIndex: this.nodeIndexMap.get(node),
+      skinIndex,
       meshIndex,
       meshIndices,
       materialIndices,
@@ -490,6 +859,76 @@ export class GLTFImportService {
     return result;
   }
 
+  /**
+   * Convert packed scale triples from Y-up to Z-up (swap Y and Z).
+   */
+  private convertScales(data: Float32Array): Float32Array {
+    const result = new Float32Array(data.length);
+
+    for (let i = 0; i < data.length; i += 3) {
+      result[i] = data[i];
+      result[i + 1] = data[i + 2];
+      result[i + 2] = data[i + 1];
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert packed quaternions [x, y, z, w] from Y-up to Z-up.
+   */
+  private convertQuaternions(data: Float32Array): Float32Array {
+    const result = new Float32Array(data.length);
+
+    for (let i = 0; i < data.length; i += 4) {
+      result[i] = data[i];
+      result[i + 1] = -data[i + 2];
+      result[i + 2] = data[i + 1];
+      result[i + 3] = data[i + 3];
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert a column-major 4x4 matrix from Y-up to Z-up (C · M · Cᵀ).
+   *
+   * @param source - Array containing the source matrix
+   * @param offset - Offset of the matrix in both source and target
+   * @param target - Array receiving the converted matrix
+   */
+  private convertMatrix(source: ArrayLike<number>, offset: number, target: Float32Array): void {
+    // Row r of the converted matrix reads source row AXIS[r] with sign SIGN[r]
+    const AXIS = [0, 2, 1, 3];
+    const SIGN = [1, -1, 1, 1];
+
+    for (let col = 0; col < 4; col++) {
+      for (let row = 0; row < 4; row++) {
+        target[offset + col * 4 + row] =
+          SIGN[row] * SIGN[col] * source[offset + AXIS[col] * 4 + AXIS[row]];
+      }
+    }
+  }
+
+  /**
+   * Read an accessor as floats, decoding normalized integer components.
+   */
+  private readFloatArray(accessor: Accessor): Float32Array {
+    const array = accessor.getArray();
+    if (!accessor.getNormalized() || array instanceof Float32Array) {
+      return new Float32Array(array ?? []);
+    }
+
+    const elementSize = accessor.getElementSize();
+    const result = new Float32Array(accessor.getCount() * elementSize);
+    const element: number[] = [];
+    for (let i = 0; i < accessor.getCount(); i++) {
+      accessor.getElement(i, element);
+      result.set(element, i * elementSize);
+    }
+    return result;
+  }
+
   /**
    * Convert a single position from Y-up to Z-up.
    */
@@ -502,47 +941,15 @@ export class GLTFImportService {
    * Returns [rx, ry, rz] in degrees.
    */
   private quaternionToEulerZUp(q: number[]): [number, number, number] {
-    // First convert quaternion from Y-up to Z-up
-    // Quaternion transformation for coordinate system change
-    const qx = q[0];
-    const qy = -q[2];  // Swap and negate
-    const qz = q[1];   // Swap
-    const qw = q[3];
-
-    // Convert quaternion to Euler angles (XYZ order)
-    // Roll (X-axis rotation)
-    const sinr_cosp = 2 * (qw * qx + qy * qz);
-    const cosr_cosp = 1 - 2 * (qx * qx + qy * qy);
-    const roll = Math.atan2(sinr_cosp, cosr_cosp);
-
-    // Pitch (Y-axis rotation)
-    const sinp = 2 * (qw * qy - qz * qx);
-    let pitch: number;
-    if (Math.abs(sinp) >= 1) {
-      pitch = Math.sign(sinp) * Math.PI / 2; // Use 90 degrees if out of range
-    } else {
-      pitch = Math.asin(sinp);
-    }
-
-    // Yaw (Z-axis rotation)
-    const siny_cosp = 2 * (qw * qz + qx * qy);
-    const cosy_cosp = 1 - 2 * (qy * qy + qz * qz);
-    const yaw = Math.atan2(siny_cosp, cosy_cosp);
-
-    // Convert to degrees
-    const RAD_TO_DEG = 180 / Math.PI;
-    return [
-      roll * RAD_TO_DEG,
-      pitch * RAD_TO_DEG,
-      yaw * RAD_TO_DEG,
-    ];
+    // Convert the quaternion from Y-up to Z-up, then to Euler angles
+    return quatToEulerDegrees([q[0], -q[2], q[1], q[3]]);
   }
 
   /**
    * Generate flat shading normals from positions using indexed geometry.
    * Each triangle gets its own unique normal computed from vertex positions.
    */
-  private generateFlatNormals(positions: Float32Array, indices: Uint16Array | Uint32Array): Float32Array {
+  private generateFlatNormals(positions: Float32Array, indices: MeshIndexArray): Float32Array {
     const vertexCount = positions.length / 3;
     const indexLength = indices.length;
     const normals = new Float32Array(vertexCount * 3);
@@ -593,15 +1000,21 @@ export class GLTFImportService {
    */
   private expandIndexedGeometry(
     positions: Float32Array,
-    indices: Uint16Array | Uint32Array,
-    uvs?: Float32Array
+    indices: MeshIndexArray,
+    uvs?: Float32Array,
+    joints?: Uint16Array,
+    weights?: Float32Array
   ): {
     positions: Float32Array;
-    indices: Uint16Array | Uint32Array;
+    indices: MeshIndexArray;
     uvs?: Float32Array;
+    joints?: Uint16Array;
+    weights?: Float32Array;
   } {
     const expandedPositions = new Float32Array(indices.length * 3);
     const expandedUvs = uvs ? new Float32Array(indices.length * 2) : undefined;
+    const expandedJoints = joints ? new Uint16Array(indices.length * 4) : undefined;
+    const expandedWeights = weights ? new Float32Array(indices.length * 4) : undefined;
 
     for (let i = 0; i < indices.length; i++) {
       const sourceIndex = indices[i];
@@ -613,20 +1026,30 @@ export class GLTFImportService {
         expandedUvs[i * 2] = uvs[sourceIndex * 2];
         expandedUvs[i * 2 + 1] = uvs[sourceIndex * 2 + 1];
       }
+
+      if (expandedJoints && joints) {
+        expandedJoints.set(joints.subarray(sourceIndex * 4, sourceIndex * 4 + 4), i * 4);
+      }
+
+      if (expandedWeights && weights) {
+        expandedWeights.set(weights.subarray(sourceIndex * 4, sourceIndex * 4 + 4), i * 4);
+      }
     }
 
     return {
       positions: expandedPositions,
       indices: this.generateSequentialIndices(indices.length),
       uvs: expandedUvs,
+      joints: expandedJoints,
+      weights: expandedWeights,
     };
   }
 
   /**
    * Generate sequential indices for non-indexed geometry.
    */
-  private generateSequentialIndices(vertexCount: number): Uint16Array | Uint32Array {
-    if (vertexCount <= 65535) {
+  private generateSequentialIndices(vertexCount: number): MeshIndexArray {
+    if (vertexCount - 1 <= MAX_UINT16_INDEX) {
       const indices = new Uint16Array(vertexCount);
       for (let i = 0; i < vertexCount; i++) {
         indices[i] = i;
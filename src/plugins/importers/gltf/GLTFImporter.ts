@@ -10,7 +10,13 @@
  * Features:
  * - Imports .gltf and .glb files
  * - Converts geometry from Y-up to Z-up coordinate system
+ * - Applies mesh import settings (scale, welding, normals, optimization,
+ *   tangents) through MeshImportProcessor on import, reload and reimport
+ * - Extracts node and skeletal animation clips as animation assets, with
+ *   animation settings applied through AnimationImportProcessor
+ * - Binds skinned meshes to their joint entities
  * - Extracts PBR materials from GLTF files
+ * - Extracts embedded base color / metallic-roughness textures
  * - Preserves scene hierarchy with parent-child relationships
  * - Creates .assetmeta files for project persistence (Unity-style)
  * - Mesh data loaded from .glb on demand (not stored separately)
@@ -35,10 +41,18 @@ import type { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
 import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
 import type { IMeshAsset } from '@core/assets/interfaces/IMeshAsset';
 import type { IModelAsset } from '@core/assets/interfaces/IModelAsset';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import type { IAnimationAsset, IAnimationChannel } from '@core/assets/interfaces/IAnimationAsset';
+import { ANIMATION_ASSET_VERSION } from '@core/assets/interfaces/IAnimationAsset';
 import type { IAssetReference } from '@core/assets/interfaces/IAssetReference';
 import type { ProjectService } from '@core/ProjectService';
 import type { IModelAssetMeta, IModelImportSettings } from '@core/assets/interfaces/IModelAssetMeta';
-import type { IDerivedMeshRef, IDerivedMaterialRef } from '@core/assets/interfaces/IAssetMeta';
+import type {
+  IDerivedMeshRef,
+  IDerivedMaterialRef,
+  IDerivedTextureRef,
+  IDerivedAnimationRef,
+} from '@core/assets/interfaces/IAssetMeta';
 import { MeshEntity } from '@plugins/primitives/MeshEntity';
 import { GroupEntity } from '@plugins/primitives/GroupEntity';
 import { BUILT_IN_SHADER_IDS } from '@core/assets/BuiltInShaders';
@@ -46,12 +60,33 @@ import { AssetMetaService } from '@core/assets/AssetMetaService';
 import { SourceHashService } from '@core/assets/SourceHashService';
 import { ModelAssetMetaFactory } from '@core/assets/ModelAssetMetaFactory';
 import { ModelAssetFactory } from '@core/assets/ModelAssetFactory';
+import { TextureAssetFactory } from '@core/assets/TextureAssetFactory';
+import { generateUUID } from '@utils/uuid';
+import {
+  createTextureImportSettings,
+  createDefaultModelImportSettings,
+} from '@core/assets/DefaultImportSettings';
 import {
   GLTFImportService,
   type IGLTFMeshData,
   type IGLTFMaterialData,
+  type IGLTFTextureData,
   type IGLTFNodeData,
+  type IGLTFSkinData,
+  type IGLTFAnimationData,
+  type IGLTFImportResult,
 } from './GLTFImportService';
+import { MeshImportProcessor } from './MeshImportProcessor';
+import { AnimationImportProcessor } from './AnimationImportProcessor';
+
+/**
+ * GLTF animation paths mapped to entity transform properties.
+ */
+const CHANNEL_PROPERTIES: Record<string, IAnimationChannel['property']> = {
+  translation: 'position',
+  rotation: 'rotation',
+  scale: 'scale',
+};
 
 /**
  * Options for importing a GLTF file.
@@ -69,6 +104,17 @@ export interface GLTFImportOptions extends ImportOptions {
   importSettings?: Partial<IModelImportSettings>;
 }
 
+/**
+ * Data shared while building the entity tree for one import.
+ */
+interface SceneBuildContext {
+  meshAssets: IMeshAsset[];
+  materialAssets: IMaterialAsset[];
+  skins: IGLTFSkinData[];
+  /** Document node index to name path */
+  nodePaths: Map<number, string>;
+}
+
 /**
  * GLTF/GLB importer plugin.
  *
@@ -88,6 +134,9 @@ export class GLTFImporter implements IImporter {
   private readonly sourceHashService: SourceHashService;
   private readonly modelMetaFactory: ModelAssetMetaFactory;
   private readonly modelAssetFactory: ModelAssetFactory;
+  private readonly textureAssetFactory: TextureAssetFactory;
+  private readonly meshProcessor: MeshImportProcessor;
+  private readonly animationProcessor: AnimationImportProcessor;
   private projectService: ProjectService | null = null;
 
   /**
@@ -109,6 +158,9 @@ export class GLTFImporter implements IImporter {
     this.sourceHashService = new SourceHashService();
     this.modelMetaFactory = new ModelAssetMetaFactory();
     this.modelAssetFactory = new ModelAssetFactory();
+    this.textureAssetFactory = new TextureAssetFactory();
+    this.meshProcessor = new MeshImportProcessor();
+    this.animationProcessor = new AnimationImportProcessor();
   }
 
   /**
@@ -154,9 +206,6 @@ export class GLTFImporter implements IImporter {
    * @returns Standard ImportResult with entities, assets, primaryAssetId, warnings
    */
   async import(file: File, options: GLTFImportOptions = {}): Promise<ImportResult> {
-    // Parse the GLTF file
-    const gltfResult = await this.importService.import(file);
-
     // Compute source file hash for change detection
     const sourceHash = this.sourceHashService.computeQuickHash(file);
 
@@ -169,6 +218,13 @@ export class GLTFImporter implements IImporter {
       options.importSettings ??
       (options.settings as Partial<IModelImportSettings> | undefined);
 
+    // Parse the GLTF file and apply the import settings (merged with
+    // defaults the same way the meta factory merges them)
+    const gltfResult = await this.parse(file, {
+      ...createDefaultModelImportSettings(),
+      ...importSettings,
+    });
+
     // Create the asset meta (this generates UUIDs for meshes/materials)
     const assetMeta = this.modelMetaFactory.createFromGLTFResult(
       gltfResult,
@@ -184,19 +240,37 @@ export class GLTFImporter implements IImporter {
       assetMeta.contents.meshes
     );
 
+    // Create embedded texture assets using UUIDs from the meta
+    const textureAssets = this.createTextureAssets(gltfResult.textures ?? [], assetMeta);
+
     // Create material assets using UUIDs from the meta
     const materialAssets = this.createMaterialAssets(
       gltfResult.materials,
-      assetMeta.contents.materials
+      assetMeta.contents.materials,
+      textureAssets
+    );
+
+    // Create animation assets using UUIDs from the meta
+    const animationAssets = this.createAnimationAssets(
+      gltfResult.animations ?? [],
+      assetMeta.contents.animations ?? [],
+      gltfResult.hierarchy,
+      assetMeta.uuid
     );
 
     // Register assets in memory (not saved to disk separately)
+    for (const texture of textureAssets) {
+      this.assetRegistry.register(texture);
+    }
     for (const mesh of meshAssets) {
       this.assetRegistry.register(mesh);
     }
     for (const material of materialAssets) {
       this.assetRegistry.register(material);
     }
+    for (const animation of animationAssets) {
+      this.assetRegistry.register(animation);
+    }
 
     // Synthesize an IModelAsset and register it so downstream consumers
     // (instantiation, drag-and-drop, scene serialization) can look up the
@@ -215,14 +289,14 @@ export class GLTFImporter implements IImporter {
 
     // Create scene objects from hierarchy
     const entities = this.createSceneObjects(
-      gltfResult.hierarchy,
+      gltfResult,
       meshAssets,
       materialAssets
     );
 
     return {
       entities,
-      assets: [modelAsset, ...meshAssets, ...materialAssets],
+      assets: [modelAsset, ...meshAssets, ...materialAssets, ...textureAssets, ...animationAssets],
       primaryAssetId: assetMeta.uuid,
       warnings: gltfResult.warnings,
     };
@@ -240,7 +314,7 @@ export class GLTFImporter implements IImporter {
    *
    * @param file - The source file (read by the caller from project sources)
    * @param existingMeta - The deserialized companion `.assetmeta` contents
-   * @returns The registered mesh, material, and model assets
+   * @returns The registered mesh, material, texture, animation, and model assets
    */
   async loadFromMeta(
     file: File,
@@ -248,10 +322,12 @@ export class GLTFImporter implements IImporter {
   ): Promise<{
     meshAssets: IMeshAsset[];
     materialAssets: IMaterialAsset[];
+    textureAssets: ITextureAsset[];
+    animationAssets: IAnimationAsset[];
     modelAsset: IModelAsset;
   }> {
-    // Parse the source file
-    const gltfResult = await this.importService.import(file);
+    // Parse the source file and apply the meta's import settings
+    const gltfResult = await this.parse(file, existingMeta.importSettings);
 
     // Create mesh assets with UUIDs preserved from the meta
     const meshAssets = this.createMeshAssets(
@@ -259,13 +335,31 @@ export class GLTFImporter implements IImporter {
       existingMeta.contents.meshes
     );
 
+    // Create texture assets with UUIDs preserved from the meta
+    const textureAssets = this.createTextureAssets(gltfResult.textures ?? [], existingMeta);
+
     // Create material assets with UUIDs preserved from the meta
     const materialAssets = this.createMaterialAssets(
       gltfResult.materials,
-      existingMeta.contents.materials
+      existingMeta.contents.materials,
+      textureAssets
+    );
+
+    // Create animation assets with UUIDs preserved from the meta
+    const animationAssets = this.createAnimationAssets(
+      gltfResult.animations ?? [],
+      existingMeta.contents.animations ?? [],
+      gltfResult.hierarchy,
+      existingMeta.uuid
     );
 
     // Replace any existing registrations for these UUIDs (idempotent reload)
+    for (const texture of textureAssets) {
+      if (this.assetRegistry.get(texture.uuid)) {
+        this.assetRegistry.unregister(texture.uuid);
+      }
+      this.assetRegistry.register(texture);
+    }
     for (const mesh of meshAssets) {
       if (this.assetRegistry.get(mesh.uuid)) {
         this.assetRegistry.unregister(mesh.uuid);
@@ -278,6 +372,12 @@ export class GLTFImporter implements IImporter {
       }
       this.assetRegistry.register(material);
     }
+    for (const animation of animationAssets) {
+      if (this.assetRegistry.get(animation.uuid)) {
+        this.assetRegistry.unregister(animation.uuid);
+      }
+      this.assetRegistry.register(animation);
+    }
 
     // Synthesize and register the IModelAsset (no parse-of-source needed —
     // the meta carries the same data)
@@ -287,7 +387,7 @@ export class GLTFImporter implements IImporter {
     }
     this.assetRegistry.register(modelAsset);
 
-    return { meshAssets, materialAssets, modelAsset };
+    return { meshAssets, materialAssets, textureAssets, animationAssets, modelAsset };
   }
 
   /**
@@ -302,8 +402,8 @@ export class GLTFImporter implements IImporter {
     file: File,
     existingMeta: IModelAssetMeta
   ): Promise<ImportResult> {
-    // Parse the GLTF file with existing settings
-    const gltfResult = await this.importService.import(file);
+    // Parse the GLTF file and apply the existing settings
+    const gltfResult = await this.parse(file, existingMeta.importSettings);
 
     // Compute new source hash
     const sourceHash = this.sourceHashService.computeQuickHash(file);
@@ -333,13 +433,31 @@ export class GLTFImporter implements IImporter {
       updatedMeta.contents.meshes
     );
 
+    // Create texture assets using preserved UUIDs
+    const textureAssets = this.createTextureAssets(gltfResult.textures ?? [], updatedMeta);
+
     // Create material assets using preserved UUIDs
     const materialAssets = this.createMaterialAssets(
       gltfResult.materials,
-      updatedMeta.contents.materials
+      updatedMeta.contents.materials,
+      textureAssets
+    );
+
+    // Create animation assets using preserved UUIDs
+    const animationAssets = this.createAnimationAssets(
+      gltfResult.animations ?? [],
+      updatedMeta.contents.animations ?? [],
+      gltfResult.hierarchy,
+      updatedMeta.uuid
     );
 
     // Update registry (replace existing assets)
+    for (const texture of textureAssets) {
+      if (this.assetRegistry.get(texture.uuid)) {
+        this.assetRegistry.unregister(texture.uuid);
+      }
+      this.assetRegistry.register(texture);
+    }
     for (const mesh of meshAssets) {
       if (this.assetRegistry.get(mesh.uuid)) {
         this.assetRegistry.unregister(mesh.uuid);
@@ -352,6 +470,12 @@ export class GLTFImporter implements IImporter {
       }
       this.assetRegistry.register(material);
     }
+    for (const animation of animationAssets) {
+      if (this.assetRegistry.get(animation.uuid)) {
+        this.assetRegistry.unregister(animation.uuid);
+      }
+      this.assetRegistry.register(animation);
+    }
 
     // Replace the IModelAsset registration with the updated metadata
     const modelAsset = this.modelAssetFactory.fromMeta(updatedMeta, file.name);
@@ -367,19 +491,27 @@ export class GLTFImporter implements IImporter {
 
     // Create scene objects
     const entities = this.createSceneObjects(
-      gltfResult.hierarchy,
+      gltfResult,
       meshAssets,
       materialAssets
     );
 
     return {
       entities,
-      assets: [modelAsset, ...meshAssets, ...materialAssets],
+      assets: [modelAsset, ...meshAssets, ...materialAssets, ...textureAssets, ...animationAssets],
       primaryAssetId: updatedMeta.uuid,
       warnings: gltfResult.warnings,
     };
   }
 
+  /**
+   * Parse a source file and apply the mesh and animation import settings.
+   */
+  private async parse(file: File, settings: IModelImportSettings): Promise<IGLTFImportResult> {
+    const raw = await this.importService.import(file);
+    return this.animationProcessor.process(this.meshProcessor.process(raw, settings), settings);
+  }
+
   /**
    * Save .assetmeta file to the project folder.
    */
@@ -446,7 +578,11 @@ export class GLTFImporter implements IImporter {
         positions: Array.from(mesh.positions),
         normals: Array.from(mesh.normals),
         uvs: mesh.uvs ? Array.from(mesh.uvs) : undefined,
+        tangents: mesh.tangents ? Array.from(mesh.tangents) : undefined,
+        joints: mesh.joints ? Array.from(mesh.joints) : undefined,
+        weights: mesh.weights ? Array.from(mesh.weights) : undefined,
         indices: Array.from(mesh.indices),
+        indexFormat: mesh.indices instanceof Uint32Array ? 'uint32' : 'uint16',
         bounds: mesh.bounds,
         vertexCount: mesh.vertexCount,
         triangleCount: mesh.triangleCount,
@@ -454,6 +590,112 @@ export class GLTFImporter implements IImporter {
     });
   }
 
+  /**
+   * Create animation assets from extracted GLTF animations.
+   * Uses UUIDs from the asset meta references. Channels target nodes by
+   * name path; channels whose node is not in the hierarchy are dropped.
+   */
+  private createAnimationAssets(
+    animations: IGLTFAnimationData[],
+    animationRefs: IDerivedAnimationRef[],
+    hierarchy: IGLTFNodeData[],
+    modelUuid: string
+  ): IAnimationAsset[] {
+    const now = new Date().toISOString();
+    const nodePaths = this.collectNodePaths(hierarchy);
+
+    return animations.map((animation, index) => {
+      const channels: IAnimationChannel[] = [];
+      for (const channel of animation.channels) {
+        const targetPath = nodePaths.get(channel.nodeIndex);
+        if (targetPath === undefined) {
+          continue;
+        }
+        channels.push({
+          targetPath,
+          property: CHANNEL_PROPERTIES[channel.path],
+          interpolation: channel.interpolation === 'STEP' ? 'step' : 'linear',
+          times: Array.from(channel.times),
+          values: Array.from(channel.values),
+        });
+      }
+
+      return {
+        uuid: animationRefs[index]?.uuid ?? generateUUID(),
+        name: animation.name,
+        type: 'animation' as const,
+        version: ANIMATION_ASSET_VERSION,
+        created: now,
+        modified: now,
+        isBuiltIn: false,
+        duration: animation.duration,
+        channels,
+        parentModelRef: { uuid: modelUuid, type: 'model' },
+      };
+    });
+  }
+
+  /**
+   * Map document node indices to name paths ('Armature/Hips') in the hierarchy.
+   */
+  private collectNodePaths(
+    nodes: IGLTFNodeData[],
+    prefix: string = '',
+    paths: Map<number, string> = new Map()
+  ): Map<number, string> {
+    for (const node of nodes) {
+      const path = prefix ? `${prefix}/${node.name}` : node.name;
+      if (node.nodeIndex !== undefined) {
+        paths.set(node.nodeIndex, path);
+      }
+      this.collectNodePaths(node.children, path, paths);
+    }
+    return paths;
+  }
+
+  /**
+   * Create in-memory texture assets from extracted GLTF textures.
+   * Uses UUIDs from the asset meta references when present; textures are
+   * skipped entirely when the model's `extractTextures` setting is off.
+   */
+  private createTextureAssets(
+    textures: IGLTFTextureData[],
+    meta: IModelAssetMeta
+  ): ITextureAsset[] {
+    if (!meta.importSettings.materials.extractTextures) {
+      return [];
+    }
+
+    const textureRefs: IDerivedTextureRef[] = meta.contents.textures ?? [];
+
+    return textures.map((texture, index) =>
+      this.textureAssetFactory.createEmbedded({
+        uuid: textureRefs[index]?.uuid,
+        name: texture.name,
+        data: new Blob([texture.image], { type: texture.mimeType }),
+        mimeType: texture.mimeType,
+        importSettings: {
+          ...createTextureImportSettings(texture.sRGB ? 'default' : 'singleChannel'),
+          sRGB: texture.sRGB,
+          wrapModeU: texture.wrapModeU,
+          wrapModeV: texture.wrapModeV,
+        },
+        parentModelRef: { uuid: meta.uuid, type: 'model' },
+      })
+    );
+  }
+
+  /**
+   * Get a sampler parameter value for a texture index (null when unassigned).
+   */
+  private getTextureReference(
+    textureAssets: ITextureAsset[],
+    index: number | undefined
+  ): IAssetReference | null {
+    const texture = index !== undefined ? textureAssets[index] : undefined;
+    return texture ? { uuid: texture.uuid, type: 'texture' } : null;
+  }
+
   /**
    * Create material assets from extracted GLTF material data.
    * Uses UUIDs from the asset meta references.
@@ -461,19 +703,28 @@ export class GLTFImporter implements IImporter {
    */
   private createMaterialAssets(
     materials: IGLTFMaterialData[],
-    materialRefs: IDerivedMaterialRef[]
+    materialRefs: IDerivedMaterialRef[],
+    textureAssets: ITextureAsset[] = []
   ): IMaterialAsset[] {
     return materials.map((mat, index) => {
       const ref = materialRefs[index];
 
-      // Create material with the UUID from the meta reference
+      // Create material with the UUID from the meta reference. Parameter
+      // names match the built-in PBR shader uniforms.
       const material = this.materialFactory.create({
         name: mat.name,
         shaderRef: { uuid: BUILT_IN_SHADER_IDS.PBR, type: 'shader' },
         parameters: {
-          albedo: mat.baseColor,
-          metallic: mat.metallic,
-          roughness: mat.roughness,
+          uBaseColor: mat.baseColor,
+          uMetallic: mat.metallic,
+          uRoughness: mat.roughness,
+          uEmission: mat.emissive ?? [0, 0, 0],
+          uEmissionStrength: mat.emissive ? 1.0 : 0.0,
+          uBaseColorMap: this.getTextureReference(textureAssets, mat.baseColorTextureIndex),
+          uMetallicRoughnessMap: this.getTextureReference(
+            textureAssets,
+            mat.metallicRoughnessTextureIndex
+          ),
           opacity: mat.alpha,
         },
       });
@@ -492,18 +743,20 @@ export class GLTFImporter implements IImporter {
    * Returns only root-level entities; children are attached to their parents.
    */
   private createSceneObjects(
-    hierarchy: IGLTFNodeData[],
+    gltfResult: IGLTFImportResult,
     meshAssets: IMeshAsset[],
     materialAssets: IMaterialAsset[]
   ): IEntity[] {
     const rootEntities: IEntity[] = [];
+    const context: SceneBuildContext = {
+      meshAssets,
+      materialAssets,
+      skins: gltfResult.skins ?? [],
+      nodePaths: this.collectNodePaths(gltfResult.hierarchy),
+    };
 
-    for (const node of hierarchy) {
-      const entity = this.createNodeWithHierarchy(
-        node,
-        meshAssets,
-        materialAssets
-      );
+    for (const node of gltfResult.hierarchy) {
+      const entity = this.createNodeWithHierarchy(node, context);
       if (entity) {
         rootEntities.push(entity);
       }
@@ -518,14 +771,12 @@ export class GLTFImporter implements IImporter {
    * Recursively creates and attaches child objects.
    *
    * @param node - The GLTF node data
-   * @param meshAssets - All mesh assets
-   * @param materialAssets - All material assets
+   * @param context - Assets and skin data shared by all nodes
    * @returns The created scene object with children attached, or null if node should be skipped
    */
   private createNodeWithHierarchy(
     node: IGLTFNodeData,
-    meshAssets: IMeshAsset[],
-    materialAssets: IMaterialAsset[]
+    context: SceneBuildContext
   ): IEntity | null {
     let entity: IEntity;
     const meshIndices = node.meshIndices ?? (node.meshIndex !== undefined ? [node.meshIndex] : []);
@@ -540,8 +791,7 @@ export class GLTFImporter implements IImporter {
         const meshEntity = this.createMeshEntity(
           node,
           meshIndices[i],
-          meshAssets,
-          materialAssets,
+          context,
           i,
           true
         );
@@ -556,8 +806,7 @@ export class GLTFImporter implements IImporter {
       const meshEntity = this.createMeshEntity(
         node,
         node.meshIndex,
-        meshAssets,
-        materialAssets,
+        context,
         0,
         false
       );
@@ -573,9 +822,9 @@ export class GLTFImporter implements IImporter {
         entity = group;
       }
     } else {
-      // No mesh - create a group node if it has children
-      // Skip empty nodes with no children
-      if (node.children.length === 0) {
+      // No mesh - create a group node if it has children or is a joint
+      // or animation target (the import service keeps only those leaves)
+      if (node.children.length === 0 && node.nodeIndex === undefined) {
         return null;
       }
 
@@ -588,11 +837,7 @@ export class GLTFImporter implements IImporter {
 
     // Recursively create and attach children
     for (const childNode of node.children) {
-      const childEntity = this.createNodeWithHierarchy(
-        childNode,
-        meshAssets,
-        materialAssets
-      );
+      const childEntity = this.createNodeWithHierarchy(childNode, context);
       if (childEntity) {
         // Set up parent-child relationship
         childEntity.parent = entity;
@@ -606,11 +851,11 @@ export class GLTFImporter implements IImporter {
   private createMeshEntity(
     node: IGLTFNodeData,
     meshIndex: number,
-    meshAssets: IMeshAsset[],
-    materialAssets: IMaterialAsset[],
+    context: SceneBuildContext,
     primitiveOffset: number,
     childOfMultiPrimitiveGroup: boolean
   ): MeshEntity | null {
+    const { meshAssets, materialAssets } = context;
     const meshAsset = meshAssets[meshIndex];
     if (!meshAsset) {
       return null;
@@ -626,6 +871,14 @@ export class GLTFImporter implements IImporter {
     meshEntity.transform.rotation = childOfMultiPrimitiveGroup ? [0, 0, 0] : [...node.transform.rotation];
     meshEntity.transform.scale = childOfMultiPrimitiveGroup ? [1, 1, 1] : [...node.transform.scale];
 
+    const skin = node.skinIndex !== undefined ? context.skins[node.skinIndex] : undefined;
+    if (skin && meshAsset.joints) {
+      meshEntity.skin = {
+        joints: skin.joints.map((jointIndex) => context.nodePaths.get(jointIndex) ?? ''),
+        inverseBindMatrices: Array.from(skin.inverseBindMatrices),
+      };
+    }
+
     const materialIndex = node.materialIndices?.[primitiveOffset];
     if (materialIndex !== undefined) {
       const materialAsset = materialAssets[materialIndex];
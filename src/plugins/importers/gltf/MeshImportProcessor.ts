@@ -0,0 +1,667 @@
+/**
+ * MeshImportProcessor - Applies model import settings to extracted geometry
+ *
+ * Runs between GLTFImportService (which extracts raw, Z-up converted
+ * geometry) and GLTFImporter's asset creation. Every IModelImportSettings
+ * mesh option is applied here, in this order:
+ *
+ * 1. scaleFactor - scales vertex positions, node translations, inverse bind
+ *    matrix translations and translation keyframes
+ * 2. weldVertices / weldThreshold - merges vertices closer than the threshold
+ *    whose normals, UVs and skin joints/weights also match
+ * 3. generateNormals / normalAngleThreshold - replaces the flat fallback
+ *    normals of meshes without source normals with normals smoothed across
+ *    edges sharper than the threshold
+ * 4. optimizeMesh - reorders triangles for the post-transform vertex cache
+ *    (Tipsify) and vertices for fetch locality
+ * 5. generateTangents - computes per-vertex tangents from UVs (meshes
+ *    without UVs get none)
+ *
+ * The processor never mutates its input, so the same extraction result can
+ * be processed again with different settings.
+ *
+ * @example
+ * ```typescript
+ * const raw = await importService.import(file);
+ * const processed = new MeshImportProcessor().process(raw, meta.importSettings);
+ * ```
+ */
+
+import type { IModelImportSettings, IMeshImportSettings } from '@core/assets/interfaces/IModelAssetMeta';
+import type { IMeshBounds } from '@core/assets/interfaces/IMeshAsset';
+import { createIndexArray } from '@core/interfaces/IMeshData';
+import type {
+  IGLTFAnimationData,
+  IGLTFImportResult,
+  IGLTFMeshData,
+  IGLTFNodeData,
+  IGLTFSkinData,
+} from './GLTFImportService';
+
+/**
+ * Post-transform vertex cache size assumed by the triangle reordering.
+ */
+const VERTEX_CACHE_SIZE = 16;
+
+/**
+ * Largest UV difference for two vertices to count as matching when welding.
+ */
+const WELD_UV_EPSILON = 1e-4;
+
+/**
+ * Smallest normal dot product for two vertices to count as matching when welding.
+ */
+const WELD_NORMAL_DOT = 0.9999;
+
+/**
+ * Geometry being processed, with 32-bit indices until the final packing.
+ */
+interface MeshArrays {
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs?: Float32Array;
+  joints?: Uint16Array;
+  weights?: Float32Array;
+  indices: Uint32Array;
+}
+
+/**
+ * Applies model import settings to GLTF extraction results.
+ */
+export class MeshImportProcessor {
+  /**
+   * Apply import settings to every mesh and to the node hierarchy.
+   *
+   * @param result - Raw result from GLTFImportService
+   * @param settings - Model import settings to apply
+   * @returns A new result with processed meshes; warnings are appended
+   */
+  process(result: IGLTFImportResult, settings: IModelImportSettings): IGLTFImportResult {
+    const warnings = [...result.warnings];
+
+    let scale = settings.scaleFactor;
+    if (!Number.isFinite(scale) || scale <= 0) {
+      warnings.push(`Invalid scale factor ${scale}, importing at scale 1`);
+      scale = 1;
+    }
+
+    const meshes = result.meshes.map((mesh) => this.processMesh(mesh, scale, settings.meshes));
+    if (scale === 1) {
+      return { ...result, meshes, warnings };
+    }
+
+    return {
+      ...result,
+      meshes,
+      hierarchy: result.hierarchy.map((node) => this.scaleNode(node, scale)),
+      skins: result.skins?.map((skin) => this.scaleSkin(skin, scale)),
+      animations: result.animations?.map((animation) => this.scaleAnimation(animation, scale)),
+      warnings,
+    };
+  }
+
+  /**
+   * Apply scale and mesh settings to a single mesh.
+   */
+  private processMesh(mesh: IGLTFMeshData, scale: number, settings: IMeshImportSettings): IGLTFMeshData {
+    let arrays: MeshArrays = {
+      positions: new Float32Array(mesh.positions),
+      normals: new Float32Array(mesh.normals),
+      uvs: mesh.uvs ? new Float32Array(mesh.uvs) : undefined,
+      joints: mesh.joints ? new Uint16Array(mesh.joints) : undefined,
+      weights: mesh.weights ? new Float32Array(mesh.weights) : undefined,
+      indices: new Uint32Array(mesh.indices),
+    };
+
+    if (scale !== 1) {
+      for (let i = 0; i < arrays.positions.length; i++) {
+        arrays.positions[i] *= scale;
+      }
+    }
+
+    if (settings.weldVertices) {
+      arrays = this.weldVertices(arrays, Math.max(settings.weldThreshold, 0));
+    }
+
+    if (mesh.generatedNormals && settings.generateNormals) {
+      arrays = this.generateSmoothNormals(arrays, settings.normalAngleThreshold);
+    }
+
+    if (settings.optimizeMesh) {
+      arrays = this.optimizeVertexFetch({ ...arrays, indices: this.optimizeVertexCache(arrays) });
+    }
+
+    // Tangents follow the UV layout; meshes without UVs have nothing to normal-map
+    const tangents = settings.generateTangents && arrays.uvs ? this.generateTangents(arrays) : undefined;
+
+    const vertexCount = arrays.positions.length / 3;
+    return {
+      ...mesh,
+      positions: arrays.positions,
+      normals: arrays.normals,
+      uvs: arrays.uvs,
+      joints: arrays.joints,
+      weights: arrays.weights,
+      tangents,
+      indices: createIndexArray(arrays.indices),
+      bounds: this.calculateBounds(arrays.positions),
+      vertexCount,
+      triangleCount: arrays.indices.length / 3,
+    };
+  }
+
+  /**
+   * Scale a node's translation and its children's.
+   */
+  private scaleNode(node: IGLTFNodeData, scale: number): IGLTFNodeData {
+    const [x, y, z] = node.transform.position;
+    return {
+      ...node,
+      transform: { ...node.transform, position: [x * scale, y * scale, z * scale] },
+      children: node.children.map((child) => this.scaleNode(child, scale)),
+    };
+  }
+
+  /**
+   * Scale the translation of every inverse bind matrix.
+   */
+  private scaleSkin(skin: IGLTFSkinData, scale: number): IGLTFSkinData {
+    const inverseBindMatrices = new Float32Array(skin.inverseBindMatrices);
+    for (let offset = 0; offset < inverseBindMatrices.length; offset += 16) {
+      inverseBindMatrices[offset + 12] *= scale;
+      inverseBindMatrices[offset + 13] *= scale;
+      inverseBindMatrices[offset + 14] *= scale;
+    }
+    return { ...skin, inverseBindMatrices };
+  }
+
+  /**
+   * Scale the keyframes of translation channels (including cubic tangents).
+   */
+  private scaleAnimation(animation: IGLTFAnimationData, scale: number): IGLTFAnimationData {
+    return {
+      ...animation,
+      channels: animation.channels.map((channel) =>
+        channel.path === 'translation'
+          ? { ...channel, values: channel.values.map((value) => value * scale) }
+          : channel
+      ),
+    };
+  }
+
+  /**
+   * Copy the attributes of the given source vertices, in order, into new arrays.
+   */
+  private selectVertices(arrays: MeshArrays, sources: readonly number[], indices: Uint32Array): MeshArrays {
+    const { positions, normals, uvs, joints, weights } = arrays;
+    const count = sources.length;
+    const selected: MeshArrays = {
+      positions: new Float32Array(count * 3),
+      normals: new Float32Array(count * 3),
+      uvs: uvs ? new Float32Array(count * 2) : undefined,
+      joints: joints ? new Uint16Array(count * 4) : undefined,
+      weights: weights ? new Float32Array(count * 4) : undefined,
+      indices,
+    };
+    sources.forEach((source, target) => {
+      selected.positions.set(positions.subarray(source * 3, source * 3 + 3), target * 3);
+      selected.normals.set(normals.subarray(source * 3, source * 3 + 3), target * 3);
+      selected.uvs?.set(uvs!.subarray(source * 2, source * 2 + 2), target * 2);
+      selected.joints?.set(joints!.subarray(source * 4, source * 4 + 4), target * 4);
+      selected.weights?.set(weights!.subarray(source * 4, source * 4 + 4), target * 4);
+    });
+    return selected;
+  }
+
+  // =========================================
+  // Welding
+  // =========================================
+
+  /**
+   * Merge vertices within `threshold` of each other whose normals, UVs and
+   * skin attributes match. Triangles that collapse are removed; unreferenced
+   * vertices are dropped.
+   */
+  private weldVertices(arrays: MeshArrays, threshold: number): MeshArrays {
+    const { positions } = arrays;
+    const vertexCount = positions.length / 3;
+    // Cells at least as large as the threshold, so matches are in neighbouring cells
+    const cellSize = Math.max(threshold, 1e-12);
+    const grid = new Map<string, number[]>();
+    const remap = new Uint32Array(vertexCount);
+    const kept: number[] = [];
+
+    for (let v = 0; v < vertexCount; v++) {
+      const cx = Math.floor(positions[v * 3] / cellSize);
+      const cy = Math.floor(positions[v * 3 + 1] / cellSize);
+      const cz = Math.floor(positions[v * 3 + 2] / cellSize);
+
+      let match = -1;
+      search: for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            const cell = grid.get(`${cx + dx},${cy + dy},${cz + dz}`);
+            if (!cell) continue;
+            for (const candidate of cell) {
+              if (this.canWeld(arrays, v, kept[candidate], threshold)) {
+                match = candidate;
+                break search;
+              }
+            }
+          }
+        }
+      }
+
+      if (match < 0) {
+        match = kept.length;
+        kept.push(v);
+        const key = `${cx},${cy},${cz}`;
+        const cell = grid.get(key);
+        if (cell) {
+          cell.push(match);
+        } else {
+          grid.set(key, [match]);
+        }
+      }
+      remap[v] = match;
+    }
+
+    const indices: number[] = [];
+    for (let i = 0; i < arrays.indices.length; i += 3) {
+      const a = remap[arrays.indices[i]];
+      const b = remap[arrays.indices[i + 1]];
+      const c = remap[arrays.indices[i + 2]];
+      if (a !== b && b !== c && c !== a) {
+        indices.push(a, b, c);
+      }
+    }
+
+    const welded = this.selectVertices(arrays, kept, new Uint32Array(indices));
+
+    // Welding can orphan vertices of collapsed triangles
+    return this.optimizeVertexFetch(welded);
+  }
+
+  /**
+   * Check whether vertex a can be merged into vertex b.
+   */
+  private canWeld(arrays: MeshArrays, a: number, b: number, threshold: number): boolean {
+    const { positions, normals, uvs, joints, weights } = arrays;
+
+    const dx = positions[a * 3] - positions[b * 3];
+    const dy = positions[a * 3 + 1] - positions[b * 3 + 1];
+    const dz = positions[a * 3 + 2] - positions[b * 3 + 2];
+    if (dx * dx + dy * dy + dz * dz > threshold * threshold) return false;
+
+    const dot =
+      normals[a * 3] * normals[b * 3] +
+      normals[a * 3 + 1] * normals[b * 3 + 1] +
+      normals[a * 3 + 2] * normals[b * 3 + 2];
+    if (dot < WELD_NORMAL_DOT) return false;
+
+    if (uvs) {
+      if (Math.abs(uvs[a * 2] - uvs[b * 2]) > WELD_UV_EPSILON) return false;
+      if (Math.abs(uvs[a * 2 + 1] - uvs[b * 2 + 1]) > WELD_UV_EPSILON) return false;
+    }
+
+    // Vertices bound to different joints deform apart
+    for (let k = 0; k < 4; k++) {
+      if (joints && joints[a * 4 + k] !== joints[b * 4 + k]) return false;
+      if (weights && weights[a * 4 + k] !== weights[b * 4 + k]) return false;
+    }
+
+    return true;
+  }
+
+  // =========================================
+  // Normal Generation
+  // =========================================
+
+  /**
+   * Generate normals that are smooth across edges where adjacent faces meet
+   * at less than `angleThreshold` degrees, and hard elsewhere.
+   *
+   * Each triangle corner averages the area-weighted normals of the faces
+   * around its position that are within the threshold of its own face.
+   * Corners that end up identical share a vertex again.
+   */
+  private generateSmoothNormals(arrays: MeshArrays, angleThreshold: number): MeshArrays {
+    const { positions, indices } = arrays;
+    const triangleCount = indices.length / 3;
+    const cosThreshold = Math.cos((Math.min(Math.max(angleThreshold, 0), 180) * Math.PI) / 180);
+
+    // Area-weighted and unit face normals
+    const faceNormals = new Float32Array(triangleCount * 3);
+    const unitNormals = new Float32Array(triangleCount * 3);
+    for (let t = 0; t < triangleCount; t++) {
+      const [nx, ny, nz] = this.faceNormal(positions, indices[t * 3], indices[t * 3 + 1], indices[t * 3 + 2]);
+      faceNormals.set([nx, ny, nz], t * 3);
+      const length = Math.hypot(nx, ny, nz);
+      if (length > 0) {
+        unitNormals.set([nx / length, ny / length, nz / length], t * 3);
+      }
+    }
+
+    // Triangles around each distinct position
+    const positionKeys: string[] = [];
+    const trianglesAtPosition = new Map<string, number[]>();
+    for (let v = 0; v < positions.length / 3; v++) {
+      positionKeys.push(`${positions[v * 3]},${positions[v * 3 + 1]},${positions[v * 3 + 2]}`);
+    }
+    for (let t = 0; t < triangleCount; t++) {
+      for (let k = 0; k < 3; k++) {
+        const key = positionKeys[indices[t * 3 + k]];
+        const list = trianglesAtPosition.get(key);
+        if (!list) {
+          trianglesAtPosition.set(key, [t]);
+        } else if (list[list.length - 1] !== t) {
+          list.push(t);
+        }
+      }
+    }
+
+    // One output vertex per distinct (source vertex, normal) corner
+    const outSources: number[] = [];
+    const outNormals: number[] = [];
+    const outIndices = new Uint32Array(indices.length);
+    const vertexMap = new Map<string, number>();
+
+    for (let t = 0; t < triangleCount; t++) {
+      for (let k = 0; k < 3; k++) {
+        const source = indices[t * 3 + k];
+        const normal = [0, 0, 0];
+
+        for (const other of trianglesAtPosition.get(positionKeys[source])!) {
+          const dot =
+            unitNormals[t * 3] * unitNormals[other * 3] +
+            unitNormals[t * 3 + 1] * unitNormals[other * 3 + 1] +
+            unitNormals[t * 3 + 2] * unitNormals[other * 3 + 2];
+          if (other === t || dot >= cosThreshold - 1e-6) {
+            normal[0] += faceNormals[other * 3];
+            normal[1] += faceNormals[other * 3 + 1];
+            normal[2] += faceNormals[other * 3 + 2];
+          }
+        }
+
+        const length = Math.hypot(normal[0], normal[1], normal[2]);
+        if (length > 0) {
+          normal[0] /= length;
+          normal[1] /= length;
+          normal[2] /= length;
+        } else {
+          normal[2] = 1;
+        }
+
+        const key = `${source}|${normal[0]},${normal[1]},${normal[2]}`;
+        let vertex = vertexMap.get(key);
+        if (vertex === undefined) {
+          vertex = outSources.length;
+          vertexMap.set(key, vertex);
+          outSources.push(source);
+          outNormals.push(normal[0], normal[1], normal[2]);
+        }
+        outIndices[t * 3 + k] = vertex;
+      }
+    }
+
+    const generated: MeshArrays = {
+      ...this.selectVertices(arrays, outSources, outIndices),
+      normals: new Float32Array(outNormals),
+    };
+
+    // Flat fallback geometry is unshared; merge corners that became identical
+    return this.mergeIdenticalVertices(generated);
+  }
+
+  /**
+   * Merge vertices with bitwise identical positions, normals, UVs and skin
+   * attributes.
+   */
+  private mergeIdenticalVertices(arrays: MeshArrays): MeshArrays {
+    const { positions, normals, uvs, joints, weights } = arrays;
+    const vertexCount = positions.length / 3;
+    const keys = new Map<string, number>();
+    const remap = new Uint32Array(vertexCount);
+    const kept: number[] = [];
+
+    for (let v = 0; v < vertexCount; v++) {
+      let key = `${positions[v * 3]},${positions[v * 3 + 1]},${positions[v * 3 + 2]}|${normals[v * 3]},${normals[v * 3 + 1]},${normals[v * 3 + 2]}`;
+      if (uvs) key += `|${uvs[v * 2]},${uvs[v * 2 + 1]}`;
+      if (joints) key += `|${joints.subarray(v * 4, v * 4 + 4).join(',')}`;
+      if (weights) key += `|${weights.subarray(v * 4, v * 4 + 4).join(',')}`;
+
+      let target = keys.get(key);
+      if (target === undefined) {
+        target = kept.length;
+        keys.set(key, target);
+        kept.push(v);
+      }
+      remap[v] = target;
+    }
+
+    if (kept.length === vertexCount) return arrays;
+
+    return this.selectVertices(arrays, kept, arrays.indices.map((index) => remap[index]));
+  }
+
+  // =========================================
+  // Optimization
+  // =========================================
+
+  /**
+   * Reorder triangles for post-transform vertex cache reuse using Tipsify
+   * (Sander, Nehab & Barczak, "Fast Triangle Reordering for Vertex Locality
+   * and Reduced Overdraw", 2007).
+   *
+   * @returns Reordered indices
+   */
+  private optimizeVertexCache(arrays: MeshArrays): Uint32Array {
+    const { indices } = arrays;
+    const vertexCount = arrays.positions.length / 3;
+    const triangleCount = indices.length / 3;
+    if (triangleCount === 0 || !Number.isInteger(triangleCount)) return indices;
+
+    // Vertex -> triangle adjacency (CSR layout)
+    const liveTriangles = new Uint32Array(vertexCount);
+    for (const index of indices) liveTriangles[index]++;
+    const adjacencyOffsets = new Uint32Array(vertexCount + 1);
+    for (let v = 0; v < vertexCount; v++) {
+      adjacencyOffsets[v + 1] = adjacencyOffsets[v] + liveTriangles[v];
+    }
+    const adjacency = new Uint32Array(indices.length);
+    const fill = adjacencyOffsets.slice(0, vertexCount);
+    for (let i = 0; i < indices.length; i++) {
+      adjacency[fill[indices[i]]++] = Math.floor(i / 3);
+    }
+
+    const cacheTime = new Uint32Array(vertexCount);
+    const emitted = new Uint8Array(triangleCount);
+    const deadEnd: number[] = [];
+    const output = new Uint32Array(indices.length);
+    let outputLength = 0;
+    let timeStamp = VERTEX_CACHE_SIZE + 1;
+    let cursor = 0;
+    let fanning = indices[0];
+
+    while (fanning >= 0) {
+      const candidates: number[] = [];
+
+      for (let a = adjacencyOffsets[fanning]; a < adjacencyOffsets[fanning + 1]; a++) {
+        const t = adjacency[a];
+        if (emitted[t]) continue;
+        emitted[t] = 1;
+
+        for (let k = 0; k < 3; k++) {
+          const v = indices[t * 3 + k];
+          output[outputLength++] = v;
+          deadEnd.push(v);
+          candidates.push(v);
+          liveTriangles[v]--;
+          if (timeStamp - cacheTime[v] > VERTEX_CACHE_SIZE) {
+            cacheTime[v] = timeStamp++;
+          }
+        }
+      }
+
+      // Prefer a candidate that stays in the cache for all its remaining triangles
+      let next = -1;
+      let bestPriority = -1;
+      for (const v of candidates) {
+        if (liveTriangles[v] === 0) continue;
+        let priority = 0;
+        if (timeStamp - cacheTime[v] + 2 * liveTriangles[v] <= VERTEX_CACHE_SIZE) {
+          priority = timeStamp - cacheTime[v];
+        }
+        if (priority > bestPriority) {
+          bestPriority = priority;
+          next = v;
+        }
+      }
+
+      if (next < 0) {
+        while (deadEnd.length > 0) {
+          const v = deadEnd.pop()!;
+          if (liveTriangles[v] > 0) {
+            next = v;
+            break;
+          }
+        }
+      }
+      while (next < 0 && cursor < vertexCount) {
+        if (liveTriangles[cursor] > 0) next = cursor;
+        cursor++;
+      }
+
+      fanning = next;
+    }
+
+    return output;
+  }
+
+  /**
+   * Renumber vertices in order of first use so the GPU fetches them
+   * sequentially. Unreferenced vertices are dropped.
+   */
+  private optimizeVertexFetch(arrays: MeshArrays): MeshArrays {
+    const { positions, indices } = arrays;
+    const vertexCount = positions.length / 3;
+    const remap = new Int32Array(vertexCount).fill(-1);
+    const order: number[] = [];
+
+    const remapped = indices.map((index) => {
+      if (remap[index] < 0) {
+        remap[index] = order.length;
+        order.push(index);
+      }
+      return remap[index];
+    });
+
+    return this.selectVertices(arrays, order, remapped);
+  }
+
+  // =========================================
+  // Tangents
+  // =========================================
+
+  /**
+   * Generate per-vertex tangents from UV derivatives (Lengyel's method),
+   * orthogonalized against the normal. w holds the bitangent sign so
+   * mirrored UVs shade correctly.
+   */
+  private generateTangents(arrays: MeshArrays): Float32Array {
+    const { positions, normals, indices } = arrays;
+    const uvs = arrays.uvs!;
+    const vertexCount = positions.length / 3;
+    const tan = new Float32Array(vertexCount * 3);
+    const bitan = new Float32Array(vertexCount * 3);
+
+    for (let i = 0; i < indices.length; i += 3) {
+      const i0 = indices[i];
+      const i1 = indices[i + 1];
+      const i2 = indices[i + 2];
+
+      const e1 = [0, 1, 2].map((axis) => positions[i1 * 3 + axis] - positions[i0 * 3 + axis]);
+      const e2 = [0, 1, 2].map((axis) => positions[i2 * 3 + axis] - positions[i0 * 3 + axis]);
+      const du1 = uvs[i1 * 2] - uvs[i0 * 2];
+      const dv1 = uvs[i1 * 2 + 1] - uvs[i0 * 2 + 1];
+      const du2 = uvs[i2 * 2] - uvs[i0 * 2];
+      const dv2 = uvs[i2 * 2 + 1] - uvs[i0 * 2 + 1];
+
+      const det = du1 * dv2 - du2 * dv1;
+      if (Math.abs(det) < 1e-12) continue;
+      const r = 1 / det;
+
+      for (const v of [i0, i1, i2]) {
+        for (let axis = 0; axis < 3; axis++) {
+          tan[v * 3 + axis] += (e1[axis] * dv2 - e2[axis] * dv1) * r;
+          bitan[v * 3 + axis] += (e2[axis] * du1 - e1[axis] * du2) * r;
+        }
+      }
+    }
+
+    const tangents = new Float32Array(vertexCount * 4);
+    for (let v = 0; v < vertexCount; v++) {
+      const n = [normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]];
+      let t = [tan[v * 3], tan[v * 3 + 1], tan[v * 3 + 2]];
+
+      // Gram-Schmidt: remove the normal component
+      const nDotT = n[0] * t[0] + n[1] * t[1] + n[2] * t[2];
+      t = [t[0] - n[0] * nDotT, t[1] - n[1] * nDotT, t[2] - n[2] * nDotT];
+      let length = Math.hypot(t[0], t[1], t[2]);
+      if (length < 1e-12) {
+        // No usable UV gradient: any unit vector perpendicular to the normal
+        t = Math.abs(n[0]) < 0.9
+          ? [1 - n[0] * n[0], -n[0] * n[1], -n[0] * n[2]]
+          : [-n[1] * n[0], 1 - n[1] * n[1], -n[1] * n[2]];
+        length = Math.hypot(t[0], t[1], t[2]);
+      }
+
+      // Handedness: does cross(n, t) point along the accumulated bitangent?
+      const cross = [n[1] * t[2] - n[2] * t[1], n[2] * t[0] - n[0] * t[2], n[0] * t[1] - n[1] * t[0]];
+      const handedness = cross[0] * bitan[v * 3] + cross[1] * bitan[v * 3 + 1] + cross[2] * bitan[v * 3 + 2];
+
+      tangents[v * 4] = t[0] / length;
+      tangents[v * 4 + 1] = t[1] / length;
+      tangents[v * 4 + 2] = t[2] / length;
+      tangents[v * 4 + 3] = handedness < 0 ? -1 : 1;
+    }
+
+    return tangents;
+  }
+
+  // =========================================
+  // Helpers
+  // =========================================
+
+  /**
+   * Area-weighted (unnormalized) normal of a triangle.
+   */
+  private faceNormal(positions: Float32Array, i0: number, i1: number, i2: number): [number, number, number] {
+    const e1x = positions[i1 * 3] - positions[i0 * 3];
+    const e1y = positions[i1 * 3 + 1] - positions[i0 * 3 + 1];
+    const e1z = positions[i1 * 3 + 2] - positions[i0 * 3 + 2];
+    const e2x = positions[i2 * 3] - positions[i0 * 3];
+    const e2y = positions[i2 * 3 + 1] - positions[i0 * 3 + 1];
+    const e2z = positions[i2 * 3 + 2] - positions[i0 * 3 + 2];
+    return [e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x];
+  }
+
+  /**
+   * Calculate axis-aligned bounding box from positions.
+   */
+  private calculateBounds(positions: Float32Array): IMeshBounds {
+    if (positions.length === 0) {
+      return { min: [0, 0, 0], max: [0, 0, 0] };
+    }
+
+    const min: [number, number, number] = [Infinity, Infinity, Infinity];
+    const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], positions[i + axis]);
+        max[axis] = Math.max(max[axis], positions[i + axis]);
+      }
+    }
+    return { min, max };
+  }
+}
@@ -9,8 +9,14 @@ export type {
   IGLTFMeshData,
   IGLTFMaterialData,
   IGLTFNodeData,
+  IGLTFSkinData,
+  IGLTFAnimationData,
+  IGLTFAnimationChannelData,
   IGLTFImportResult,
 } from './GLTFImportService';
 
+export { MeshImportProcessor } from './MeshImportProcessor';
+export { AnimationImportProcessor } from './AnimationImportProcessor';
+
 export { GLTFImporter } from './GLTFImporter';
 export type { GLTFImportOptions } from './GLTFImporter';
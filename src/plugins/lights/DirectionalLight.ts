@@ -21,8 +21,12 @@ import type {
   IEntity,
   ICloneable,
 } from '@core/interfaces';
-import { cloneEntityBase } from '@core/interfaces';
-import type { ILightComponent, ILightDirectionProvider } from '@core/interfaces/ILightComponent';
+import { cloneEntityBase, getObjectWorldMatrix } from '@core/interfaces';
+import type {
+  ILightComponent,
+  ILightDirectionProvider,
+  ShadowResolution,
+} from '@core/interfaces/ILightComponent';
 import { createDefaultTransform } from '@core/interfaces';
 import { createDefaultDirectionalLightComponent } from '@core/interfaces/ILightComponent';
 import type { ISerializable } from '@core/assets/interfaces/ISerializable';
@@ -33,7 +37,7 @@ import type {
 } from '@core/assets/interfaces/ISceneAsset';
 import { EntityIdGenerator } from '@utils/EntityIdGenerator';
 import { generateUUID } from '@utils/uuid';
-import { degToRad } from '@utils/math';
+import { computeWorldLightDirection } from './lightDirection';
 
 /**
  * Configuration options for creating a DirectionalLight.
@@ -141,63 +145,13 @@ export class DirectionalLight implements IEntity, ICloneable, ILightDirectionPro
   /**
    * Get the world-space direction the light is pointing.
    *
-   * Computed from the entity's transform rotation by rotating
-   * the forward vector (0, 0, -1) by the rotation.
+   * Computed from the entity's world matrix by rotating the forward
+   * vector (0, 0, -1), so parent rotations are included.
    *
    * This is the direction that light rays travel.
    */
   getWorldDirection(): [number, number, number] {
-    const { rotation } = this.transform;
-
-    // Convert Euler angles to radians
-    const rx = degToRad(rotation[0]); // Pitch (around X)
-    const ry = degToRad(rotation[1]); // Yaw (around Y)
-    const rz = degToRad(rotation[2]); // Roll (around Z)
-
-    // Start with forward vector (0, 0, -1) in local space
-    // and rotate it by the entity's rotation
-    //
-    // Rotation order: Z * Y * X (same as model matrix)
-    // We apply in reverse order to the vector
-
-    // Initial forward vector
-    let x = 0;
-    let y = 0;
-    let z = -1;
-
-    // Rotate around X (pitch)
-    const cosX = Math.cos(rx);
-    const sinX = Math.sin(rx);
-    let y1 = y * cosX - z * sinX;
-    let z1 = y * sinX + z * cosX;
-    y = y1;
-    z = z1;
-
-    // Rotate around Y (yaw)
-    const cosY = Math.cos(ry);
-    const sinY = Math.sin(ry);
-    let x1 = x * cosY + z * sinY;
-    let z2 = -x * sinY + z * cosY;
-    x = x1;
-    z = z2;
-
-    // Rotate around Z (roll)
-    const cosZ = Math.cos(rz);
-    const sinZ = Math.sin(rz);
-    let x2 = x * cosZ - y * sinZ;
-    let y2 = x * sinZ + y * cosZ;
-    x = x2;
-    y = y2;
-
-    // Normalize (should already be unit length, but ensure precision)
-    const len = Math.sqrt(x * x + y * y + z * z);
-    if (len > 0.0001) {
-      x /= len;
-      y /= len;
-      z /= len;
-    }
-
-    return [x, y, z];
+    return computeWorldLightDirection(getObjectWorldMatrix(this));
   }
 
   // =========================================
@@ -293,6 +247,12 @@ export class DirectionalLight implements IEntity, ICloneable, ILightDirectionPro
       intensity: light.intensity,
       enabled: light.enabled,
     });
+    const clonedLight = cloned.getLightComponent();
+    clonedLight.castShadows = light.castShadows;
+    clonedLight.shadowStrength = light.shadowStrength;
+    clonedLight.shadowBias = light.shadowBias;
+    clonedLight.shadowNormalBias = light.shadowNormalBias;
+    clonedLight.shadowResolution = light.shadowResolution;
     cloneEntityBase(this, cloned);
     return cloned;
   }
@@ -323,6 +283,11 @@ export class DirectionalLight implements IEntity, ICloneable, ILightDirectionPro
       color: [...lightComponent.color],
       intensity: lightComponent.intensity,
       enabled: lightComponent.enabled,
+      castShadows: lightComponent.castShadows,
+      shadowStrength: lightComponent.shadowStrength,
+      shadowBias: lightComponent.shadowBias,
+      shadowNormalBias: lightComponent.shadowNormalBias,
+      shadowResolution: lightComponent.shadowResolution,
     });
 
     return {
@@ -365,6 +330,21 @@ export class DirectionalLight implements IEntity, ICloneable, ILightDirectionPro
       if (lightData.enabled !== undefined) {
         lightComponent.enabled = lightData.enabled as boolean;
       }
+      if (lightData.castShadows !== undefined) {
+        lightComponent.castShadows = lightData.castShadows as boolean;
+      }
+      if (lightData.shadowStrength !== undefined) {
+        lightComponent.shadowStrength = lightData.shadowStrength as number;
+      }
+      if (lightData.shadowBias !== undefined) {
+        lightComponent.shadowBias = lightData.shadowBias as number;
+      }
+      if (lightData.shadowNormalBias !== undefined) {
+        lightComponent.shadowNormalBias = lightData.shadowNormalBias as number;
+      }
+      if (lightData.shadowResolution !== undefined) {
+        lightComponent.shadowResolution = lightData.shadowResolution as ShadowResolution;
+      }
     }
   }
 }
@@ -0,0 +1,295 @@
+/**
+ * Point Light Entity
+ *
+ * Represents an omni-directional light emitted from a single point (like a bulb).
+ * Implements IEntity for component-based property display in the Inspector.
+ *
+ * Point lights:
+ * - Shine equally in all directions from the entity's position
+ * - Fall off with distance and reach zero at `range`
+ * - Rotation doesn't affect lighting
+ */
+
+import type {
+  Transform,
+  IComponent,
+  IEntity,
+  ICloneable,
+} from '@core/interfaces';
+import { cloneEntityBase } from '@core/interfaces';
+import type { ILightComponent } from '@core/interfaces/ILightComponent';
+import { createDefaultTransform } from '@core/interfaces';
+import { createDefaultPointLightComponent } from '@core/interfaces/ILightComponent';
+import type { ISerializable } from '@core/assets/interfaces/ISerializable';
+import type {
+  ISerializedEntity,
+  ISerializedTransform,
+  ISerializedComponent,
+} from '@core/assets/interfaces/ISceneAsset';
+import { EntityIdGenerator } from '@utils/EntityIdGenerator';
+import { generateUUID } from '@utils/uuid';
+
+/**
+ * Configuration options for creating a PointLight.
+ */
+export interface PointLightConfig {
+  /** Display name (defaults to 'Point Light') */
+  name?: string;
+  /** Initial world position [X, Y, Z] */
+  position?: [number, number, number];
+  /** Light color RGB (0-1) */
+  color?: [number, number, number];
+  /** Light intensity (0-∞) */
+  intensity?: number;
+  /** Distance at which the light's contribution reaches zero */
+  range?: number;
+  /** Whether the light is enabled */
+  enabled?: boolean;
+}
+
+/**
+ * Point Light entity class.
+ *
+ * Light position comes from the entity's transform. The default position
+ * sits above the origin (Z-up) so a new light illuminates the scene center.
+ */
+export class PointLight implements IEntity, ICloneable, ISerializable<ISerializedEntity> {
+  readonly id: string;
+  readonly entityId: number;
+  name: string;
+  parent: IEntity | null = null;
+  children: IEntity[] = [];
+  transform: Transform;
+
+  private readonly components: Map<string, IComponent> = new Map();
+
+  constructor(config: PointLightConfig = {}) {
+    this.id = generateUUID();
+    this.entityId = EntityIdGenerator.next();
+    this.name = config.name ?? 'Point Light';
+    this.transform = createDefaultTransform();
+    this.transform.position = config.position ? [...config.position] : [0, 0, 2];
+
+    // Initialize light component
+    const lightComponent = createDefaultPointLightComponent();
+
+    if (config.color) {
+      lightComponent.color = [...config.color];
+    }
+    if (config.intensity !== undefined) {
+      lightComponent.intensity = config.intensity;
+    }
+    if (config.range !== undefined) {
+      lightComponent.range = config.range;
+    }
+    if (config.enabled !== undefined) {
+      lightComponent.enabled = config.enabled;
+    }
+
+    this.components.set('light', lightComponent);
+  }
+
+  // =========================================
+  // IEntity Implementation
+  // =========================================
+
+  /**
+   * Get all components attached to this entity.
+   */
+  getComponents(): IComponent[] {
+    return Array.from(this.components.values());
+  }
+
+  /**
+   * Get a specific component by type.
+   */
+  getComponent<T extends IComponent>(type: string): T | null {
+    const component = this.components.get(type);
+    return component ? (component as T) : null;
+  }
+
+  /**
+   * Check if this entity has a specific component type.
+   */
+  hasComponent(type: string): boolean {
+    return this.components.has(type);
+  }
+
+  // =========================================
+  // Light-specific Methods
+  // =========================================
+
+  /**
+   * Get the light component.
+   */
+  getLightComponent(): ILightComponent {
+    return this.components.get('light') as ILightComponent;
+  }
+
+  /**
+   * Get the light color.
+   */
+  getColor(): [number, number, number] {
+    const light = this.getLightComponent();
+    return [light.color[0], light.color[1], light.color[2]];
+  }
+
+  /**
+   * Set the light color.
+   */
+  setColor(color: [number, number, number]): void {
+    const light = this.getLightComponent();
+    light.color = [color[0], color[1], color[2]];
+  }
+
+  /**
+   * Get the light intensity.
+   */
+  getIntensity(): number {
+    return this.getLightComponent().intensity;
+  }
+
+  /**
+   * Set the light intensity.
+   */
+  setIntensity(intensity: number): void {
+    this.getLightComponent().intensity = intensity;
+  }
+
+  /**
+   * Get the light range in world units.
+   */
+  getRange(): number {
+    return this.getLightComponent().range ?? 10;
+  }
+
+  /**
+   * Set the light range in world units.
+   */
+  setRange(range: number): void {
+    this.getLightComponent().range = range;
+  }
+
+  /**
+   * Check if the light is enabled.
+   */
+  isEnabled(): boolean {
+    return this.getLightComponent().enabled;
+  }
+
+  /**
+   * Enable or disable the light.
+   */
+  setEnabled(enabled: boolean): void {
+    this.getLightComponent().enabled = enabled;
+  }
+
+  /**
+   * Get the effective light color (color * intensity).
+   * Used by renderers for uniform calculation.
+   */
+  getEffectiveColor(): [number, number, number] {
+    const light = this.getLightComponent();
+    const intensity = light.intensity;
+    return [
+      light.color[0] * intensity,
+      light.color[1] * intensity,
+      light.color[2] * intensity,
+    ];
+  }
+
+  // =========================================
+  // ICloneable Implementation
+  // =========================================
+
+  /**
+   * Create a deep copy of this PointLight.
+   */
+  clone(): PointLight {
+    const light = this.getLightComponent();
+    const cloned = new PointLight({
+      name: this.name,
+      color: [...light.color],
+      intensity: light.intensity,
+      range: light.range,
+      enabled: light.enabled,
+    });
+    cloneEntityBase(this, cloned);
+    return cloned;
+  }
+
+  // =========================================
+  // ISerializable Implementation
+  // =========================================
+
+  /**
+   * Serialize this PointLight to a JSON-compatible structure.
+   *
+   * @returns The serialized entity data
+   */
+  toJSON(): ISerializedEntity {
+    const transform: ISerializedTransform = {
+      position: [...this.transform.position],
+      rotation: [...this.transform.rotation],
+      scale: [...this.transform.scale],
+    };
+
+    const components: ISerializedComponent[] = [];
+
+    // Serialize light component
+    const lightComponent = this.getLightComponent();
+    components.push({
+      type: 'light',
+      lightType: lightComponent.lightType,
+      color: [...lightComponent.color],
+      intensity: lightComponent.intensity,
+      enabled: lightComponent.enabled,
+      range: lightComponent.range,
+    });
+
+    return {
+      uuid: this.id,
+      name: this.name,
+      type: 'PointLight',
+      parentUuid: this.parent?.id,
+      transform,
+      components,
+    };
+  }
+
+  /**
+   * Deserialize data from JSON into this PointLight.
+   * This method mutates the current instance.
+   *
+   * @param data - The serialized entity data to load
+   */
+  fromJSON(data: ISerializedEntity): void {
+    // Restore name
+    this.name = data.name;
+
+    // Restore transform
+    if (data.transform) {
+      this.transform.position = [...data.transform.position];
+      this.transform.rotation = [...data.transform.rotation];
+      this.transform.scale = [...data.transform.scale];
+    }
+
+    // Restore light component
+    const lightData = data.components.find((c) => c.type === 'light');
+    if (lightData) {
+      const lightComponent = this.getLightComponent();
+      if (lightData.color !== undefined) {
+        lightComponent.color = [...(lightData.color as [number, number, number])];
+      }
+      if (lightData.intensity !== undefined) {
+        lightComponent.intensity = lightData.intensity as number;
+      }
+      if (lightData.enabled !== undefined) {
+        lightComponent.enabled = lightData.enabled as boolean;
+      }
+      if (lightData.range !== undefined) {
+        lightComponent.range = lightData.range as number;
+      }
+    }
+  }
+}
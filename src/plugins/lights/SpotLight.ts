@@ -0,0 +1,393 @@
+/**
+ * Spot Light Entity
+ *
+ * Represents a cone-shaped light emitted from a point (like a flashlight).
+ * Implements IEntity for component-based property display in the Inspector.
+ *
+ * Spot lights:
+ * - Shine from the entity's position along its -Z axis (like DirectionalLight)
+ * - Fall off with distance and reach zero at `range`
+ * - Are limited to a cone of `spotAngle` degrees (full outer angle)
+ * - Fade from full intensity at `spotAngle * innerSpotRatio` to zero at the cone edge
+ */
+
+import type {
+  Transform,
+  IComponent,
+  IEntity,
+  ICloneable,
+} from '@core/interfaces';
+import { cloneEntityBase, getObjectWorldMatrix } from '@core/interfaces';
+import type {
+  ILightComponent,
+  ILightDirectionProvider,
+  ShadowResolution,
+} from '@core/interfaces/ILightComponent';
+import { createDefaultTransform } from '@core/interfaces';
+import { createDefaultSpotLightComponent } from '@core/interfaces/ILightComponent';
+import type { ISerializable } from '@core/assets/interfaces/ISerializable';
+import type {
+  ISerializedEntity,
+  ISerializedTransform,
+  ISerializedComponent,
+} from '@core/assets/interfaces/ISceneAsset';
+import { EntityIdGenerator } from '@utils/EntityIdGenerator';
+import { generateUUID } from '@utils/uuid';
+import { computeWorldLightDirection } from './lightDirection';
+
+/**
+ * Configuration options for creating a SpotLight.
+ */
+export interface SpotLightConfig {
+  /** Display name (defaults to 'Spot Light') */
+  name?: string;
+  /** Initial world position [X, Y, Z] */
+  position?: [number, number, number];
+  /** Initial rotation in Euler angles (degrees) [X, Y, Z] */
+  rotation?: [number, number, number];
+  /** Light color RGB (0-1) */
+  color?: [number, number, number];
+  /** Light intensity (0-∞) */
+  intensity?: number;
+  /** Distance at which the light's contribution reaches zero */
+  range?: number;
+  /** Full outer cone angle in degrees */
+  spotAngle?: number;
+  /** Inner cone angle as a fraction of spotAngle (0-1) */
+  innerSpotRatio?: number;
+  /** Whether the light is enabled */
+  enabled?: boolean;
+}
+
+/**
+ * Spot Light entity class.
+ *
+ * Position and direction come from the entity's transform. The default
+ * transform sits above the origin with no rotation, so the cone points
+ * straight down (-Z in the Z-up scene).
+ */
+export class SpotLight implements IEntity, ICloneable, ILightDirectionProvider, ISerializable<ISerializedEntity> {
+  readonly id: string;
+  readonly entityId: number;
+  name: string;
+  parent: IEntity | null = null;
+  children: IEntity[] = [];
+  transform: Transform;
+
+  private readonly components: Map<string, IComponent> = new Map();
+
+  constructor(config: SpotLightConfig = {}) {
+    this.id = generateUUID();
+    this.entityId = EntityIdGenerator.next();
+    this.name = config.name ?? 'Spot Light';
+    this.transform = createDefaultTransform();
+    this.transform.position = config.position ? [...config.position] : [0, 0, 3];
+    if (config.rotation) {
+      this.transform.rotation = [...config.rotation];
+    }
+
+    // Initialize light component
+    const lightComponent = createDefaultSpotLightComponent();
+
+    if (config.color) {
+      lightComponent.color = [...config.color];
+    }
+    if (config.intensity !== undefined) {
+      lightComponent.intensity = config.intensity;
+    }
+    if (config.range !== undefined) {
+      lightComponent.range = config.range;
+    }
+    if (config.spotAngle !== undefined) {
+      lightComponent.spotAngle = config.spotAngle;
+    }
+    if (config.innerSpotRatio !== undefined) {
+      lightComponent.innerSpotRatio = config.innerSpotRatio;
+    }
+    if (config.enabled !== undefined) {
+      lightComponent.enabled = config.enabled;
+    }
+
+    this.components.set('light', lightComponent);
+  }
+
+  // =========================================
+  // IEntity Implementation
+  // =========================================
+
+  /**
+   * Get all components attached to this entity.
+   */
+  getComponents(): IComponent[] {
+    return Array.from(this.components.values());
+  }
+
+  /**
+   * Get a specific component by type.
+   */
+  getComponent<T extends IComponent>(type: string): T | null {
+    const component = this.components.get(type);
+    return component ? (component as T) : null;
+  }
+
+  /**
+   * Check if this entity has a specific component type.
+   */
+  hasComponent(type: string): boolean {
+    return this.components.has(type);
+  }
+
+  // =========================================
+  // ILightDirectionProvider Implementation
+  // =========================================
+
+  /**
+   * Get the world-space direction the spot light points.
+   * Computed from the entity's world matrix, like DirectionalLight.
+   */
+  getWorldDirection(): [number, number, number] {
+    return computeWorldLightDirection(getObjectWorldMatrix(this));
+  }
+
+  // =========================================
+  // Light-specific Methods
+  // =========================================
+
+  /**
+   * Get the light component.
+   */
+  getLightComponent(): ILightComponent {
+    return this.components.get('light') as ILightComponent;
+  }
+
+  /**
+   * Get the light color.
+   */
+  getColor(): [number, number, number] {
+    const light = this.getLightComponent();
+    return [light.color[0], light.color[1], light.color[2]];
+  }
+
+  /**
+   * Set the light color.
+   */
+  setColor(color: [number, number, number]): void {
+    const light = this.getLightComponent();
+    light.color = [color[0], color[1], color[2]];
+  }
+
+  /**
+   * Get the light intensity.
+   */
+  getIntensity(): number {
+    return this.getLightComponent().intensity;
+  }
+
+  /**
+   * Set the light intensity.
+   */
+  setIntensity(intensity: number): void {
+    this.getLightComponent().intensity = intensity;
+  }
+
+  /**
+   * Get the light range in world units.
+   */
+  getRange(): number {
+    return this.getLightComponent().range ?? 10;
+  }
+
+  /**
+   * Set the light range in world units.
+   */
+  setRange(range: number): void {
+    this.getLightComponent().range = range;
+  }
+
+  /**
+   * Get the full outer cone angle in degrees.
+   */
+  getSpotAngle(): number {
+    return this.getLightComponent().spotAngle ?? 30;
+  }
+
+  /**
+   * Set the full outer cone angle in degrees.
+   */
+  setSpotAngle(spotAngle: number): void {
+    this.getLightComponent().spotAngle = spotAngle;
+  }
+
+  /**
+   * Get the inner cone angle as a fraction of the spot angle.
+   */
+  getInnerSpotRatio(): number {
+    return this.getLightComponent().innerSpotRatio ?? 0.8;
+  }
+
+  /**
+   * Set the inner cone angle as a fraction of the spot angle (0-1).
+   */
+  setInnerSpotRatio(ratio: number): void {
+    this.getLightComponent().innerSpotRatio = ratio;
+  }
+
+  /**
+   * Check if the light is enabled.
+   */
+  isEnabled(): boolean {
+    return this.getLightComponent().enabled;
+  }
+
+  /**
+   * Enable or disable the light.
+   */
+  setEnabled(enabled: boolean): void {
+    this.getLightComponent().enabled = enabled;
+  }
+
+  /**
+   * Get the effective light color (color * intensity).
+   * Used by renderers for uniform calculation.
+   */
+  getEffectiveColor(): [number, number, number] {
+    const light = this.getLightComponent();
+    const intensity = light.intensity;
+    return [
+      light.color[0] * intensity,
+      light.color[1] * intensity,
+      light.color[2] * intensity,
+    ];
+  }
+
+  // =========================================
+  // ICloneable Implementation
+  // =========================================
+
+  /**
+   * Create a deep copy of this SpotLight.
+   */
+  clone(): SpotLight {
+    const light = this.getLightComponent();
+    const cloned = new SpotLight({
+      name: this.name,
+      color: [...light.color],
+      intensity: light.intensity,
+      range: light.range,
+      spotAngle: light.spotAngle,
+      innerSpotRatio: light.innerSpotRatio,
+      enabled: light.enabled,
+    });
+    const clonedLight = cloned.getLightComponent();
+    clonedLight.castShadows = light.castShadows;
+    clonedLight.shadowStrength = light.shadowStrength;
+    clonedLight.shadowBias = light.shadowBias;
+    clonedLight.shadowNormalBias = light.shadowNormalBias;
+    clonedLight.shadowResolution = light.shadowResolution;
+    cloneEntityBase(this, cloned);
+    return cloned;
+  }
+
+  // =========================================
+  // ISerializable Implementation
+  // =========================================
+
+  /**
+   * Serialize this SpotLight to a JSON-compatible structure.
+   *
+   * @returns The serialized entity data
+   */
+  toJSON(): ISerializedEntity {
+    const transform: ISerializedTransform = {
+      position: [...this.transform.position],
+      rotation: [...this.transform.rotation],
+      scale: [...this.transform.scale],
+    };
+
+    const components: ISerializedComponent[] = [];
+
+    // Serialize light component
+    const lightComponent = this.getLightComponent();
+    components.push({
+      type: 'light',
+      lightType: lightComponent.lightType,
+      color: [...lightComponent.color],
+      intensity: lightComponent.intensity,
+      enabled: lightComponent.enabled,
+      range: lightComponent.range,
+      spotAngle: lightComponent.spotAngle,
+      innerSpotRatio: lightComponent.innerSpotRatio,
+      castShadows: lightComponent.castShadows,
+      shadowStrength: lightComponent.shadowStrength,
+      shadowBias: lightComponent.shadowBias,
+      shadowNormalBias: lightComponent.shadowNormalBias,
+      shadowResolution: lightComponent.shadowResolution,
+    });
+
+    return {
+      uuid: this.id,
+      name: this.name,
+      type: 'SpotLight',
+      parentUuid: this.parent?.id,
+      transform,
+      components,
+    };
+  }
+
+  /**
+   * Deserialize data from JSON into this SpotLight.
+   * This method mutates the current instance.
+   *
+   * @param data - The serialized entity data to load
+   */
+  fromJSON(data: ISerializedEntity): void {
+    // Restore name
+    this.name = data.name;
+
+    // Restore transform
+    if (data.transform) {
+      this.transform.position = [...data.transform.position];
+      this.transform.rotation = [...data.transform.rotation];
+      this.transform.scale = [...data.transform.scale];
+    }
+
+    // Restore light component
+    const lightData = data.components.find((c) => c.type === 'light');
+    if (lightData) {
+      const lightComponent = this.getLightComponent();
+      if (lightData.color !== undefined) {
+        lightComponent.color = [...(lightData.color as [number, number, number])];
+      }
+      if (lightData.intensity !== undefined) {
+        lightComponent.intensity = lightData.intensity as number;
+      }
+      if (lightData.enabled !== undefined) {
+        lightComponent.enabled = lightData.enabled as boolean;
+      }
+      if (lightData.range !== undefined) {
+        lightComponent.range = lightData.range as number;
+      }
+      if (lightData.spotAngle !== undefined) {
+        lightComponent.spotAngle = lightData.spotAngle as number;
+      }
+      if (lightData.innerSpotRatio !== undefined) {
+        lightComponent.innerSpotRatio = lightData.innerSpotRatio as number;
+      }
+      if (lightData.castShadows !== undefined) {
+        lightComponent.castShadows = lightData.castShadows as boolean;
+      }
+      if (lightData.shadowStrength !== undefined) {
+        lightComponent.shadowStrength = lightData.shadowStrength as number;
+      }
+      if (lightData.shadowBias !== undefined) {
+        lightComponent.shadowBias = lightData.shadowBias as number;
+      }
+      if (lightData.shadowNormalBias !== undefined) {
+        lightComponent.shadowNormalBias = lightData.shadowNormalBias as number;
+      }
+      if (lightData.shadowResolution !== undefined) {
+        lightComponent.shadowResolution = lightData.shadowResolution as ShadowResolution;
+      }
+    }
+  }
+}
@@ -6,3 +6,8 @@
 
 export { DirectionalLight } from './DirectionalLight';
 export type { DirectionalLightConfig } from './DirectionalLight';
+export { PointLight } from './PointLight';
+export type { PointLightConfig } from './PointLight';
+export { SpotLight } from './SpotLight';
+export type { SpotLightConfig } from './SpotLight';
+export { computeLightDirection, computeWorldLightDirection } from './lightDirection';
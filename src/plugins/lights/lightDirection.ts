@@ -0,0 +1,89 @@
+/**
+ * Light Direction
+ *
+ * Shared helpers for lights whose direction comes from the entity's rotation
+ * (directional and spot lights). The light shines along the entity's local
+ * -Z axis, rotated with the same Z * Y * X order as the model matrix.
+ */
+
+import { degToRad } from '@utils/math';
+import type { Mat4 } from '@utils/math';
+
+/**
+ * Compute the world-space direction a light points from its Euler rotation.
+ *
+ * @param rotation - Euler angles in degrees [X, Y, Z]
+ * @returns Normalized direction that light rays travel
+ */
+export function computeLightDirection(
+  rotation: [number, number, number]
+): [number, number, number] {
+  // Convert Euler angles to radians
+  const rx = degToRad(rotation[0]); // Pitch (around X)
+  const ry = degToRad(rotation[1]); // Yaw (around Y)
+  const rz = degToRad(rotation[2]); // Roll (around Z)
+
+  // Start with forward vector (0, 0, -1) in local space
+  // and rotate it by the entity's rotation
+  //
+  // Rotation order: Z * Y * X (same as model matrix)
+  // We apply in reverse order to the vector
+
+  // Initial forward vector
+  let x = 0;
+  let y = 0;
+  let z = -1;
+
+  // Rotate around X (pitch)
+  const cosX = Math.cos(rx);
+  const sinX = Math.sin(rx);
+  const y1 = y * cosX - z * sinX;
+  const z1 = y * sinX + z * cosX;
+  y = y1;
+  z = z1;
+
+  // Rotate around Y (yaw)
+  const cosY = Math.cos(ry);
+  const sinY = Math.sin(ry);
+  const x1 = x * cosY + z * sinY;
+  const z2 = -x * sinY + z * cosY;
+  x = x1;
+  z = z2;
+
+  // Rotate around Z (roll)
+  const cosZ = Math.cos(rz);
+  const sinZ = Math.sin(rz);
+  const x2 = x * cosZ - y * sinZ;
+  const y2 = x * sinZ + y * cosZ;
+  x = x2;
+  y = y2;
+
+  // Normalize (should already be unit length, but ensure precision)
+  const len = Math.sqrt(x * x + y * y + z * z);
+  if (len > 0.0001) {
+    x /= len;
+    y /= len;
+    z /= len;
+  }
+
+  return [x, y, z];
+}
+
+/**
+ * Compute the world-space direction a light points from its world matrix,
+ * so rotations inherited from parents are included.
+ *
+ * @param worldMatrix - The light's world matrix
+ * @returns Normalized direction that light rays travel
+ */
+export function computeWorldLightDirection(worldMatrix: Mat4): [number, number, number] {
+  // The local -Z axis carried into world space
+  const x = -worldMatrix[8];
+  const y = -worldMatrix[9];
+  const z = -worldMatrix[10];
+
+  const len = Math.sqrt(x * x + y * y + z * z);
+  if (len <= 0.0001) return [0, 0, -1];
+
+  return [x / len, y / len, z / len];
+}
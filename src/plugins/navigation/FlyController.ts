@@ -0,0 +1,370 @@
+/**
+ * FlyController - First-Person Fly Navigation
+ *
+ * Provides WASD + mouse-look navigation for moving through large scenes:
+ * - RMB drag: Look around
+ * - W / S: Move forward / back
+ * - A / D: Move left / right
+ * - E / Q: Move up / down (world Z)
+ * - Shift: Move faster
+ * - Scroll wheel: Adjust speed
+ *
+ * Input comes from InputManager events, so left-click selection and gizmo
+ * dragging keep working while flying. Movement keys are consumed while
+ * active, so they don't also switch gizmo modes or trigger shortcuts.
+ *
+ * The camera eases toward the requested velocity when update() is called
+ * every frame. Its target is kept a fixed distance ahead, so orbiting
+ * resumes around that point when fly mode ends.
+ *
+ * @example
+ * ```typescript
+ * const flyController = new FlyController(cameraEntity, eventBus, canvas);
+ * flyController.setActive(true);
+ *
+ * // In render loop:
+ * flyController.update(deltaSeconds);
+ * ```
+ */
+
+import type { EventBus } from '@core/EventBus';
+import type { CameraEntity } from '@core/CameraEntity';
+import {
+  MouseButton,
+  type DragEvent,
+  type KeyEvent,
+  type WheelEvent as InputWheelEvent,
+} from '@core/InputManager';
+
+/**
+ * Slowest and fastest fly speeds, in world units per second.
+ */
+export const FLY_SPEED_MIN = 0.1;
+export const FLY_SPEED_MAX = 1000;
+
+/**
+ * How close to straight up or down the camera may look, in radians.
+ */
+const MAX_PITCH = Math.PI / 2 - 0.01;
+
+/**
+ * Movement direction of each key, as [right, forward, up].
+ */
+const MOVE_KEYS: Record<string, [number, number, number]> = {
+  KeyW: [0, 1, 0],
+  KeyS: [0, -1, 0],
+  KeyA: [-1, 0, 0],
+  KeyD: [1, 0, 0],
+  KeyE: [0, 0, 1],
+  KeyQ: [0, 0, -1],
+};
+
+/**
+ * Fly mode state reported with 'navigation:flyModeChanged'.
+ */
+export interface FlyModeChangedEvent {
+  active: boolean;
+  /** Current speed in world units per second */
+  speed: number;
+}
+
+/**
+ * Configuration options for FlyController.
+ */
+export interface FlyControllerOptions {
+  /** Initial speed in world units per second. Default: 5 */
+  speed?: number;
+  /** How quickly velocity approaches the requested velocity, per second. Default: 10 */
+  acceleration?: number;
+  /** Speed multiplier while Shift is held. Default: 4 */
+  boostMultiplier?: number;
+  /** Speed factor per scroll step. Default: 1.2 */
+  speedStep?: number;
+  /** Look sensitivity in radians per pixel. Default: 0.003 */
+  lookSensitivity?: number;
+}
+
+/**
+ * First-person fly controller for viewport navigation.
+ */
+export class FlyController {
+  private readonly camera: CameraEntity;
+  private readonly eventBus: EventBus;
+  private readonly canvas: HTMLCanvasElement;
+
+  // Configuration
+  private readonly acceleration: number;
+  private readonly boostMultiplier: number;
+  private readonly speedStep: number;
+  private readonly lookSensitivity: number;
+
+  // State
+  private isActive: boolean = false;
+  private isLooking: boolean = false;
+  private isBoosting: boolean = false;
+  private speed: number;
+  private velocity: [number, number, number] = [0, 0, 0];
+  private readonly pressedKeys: Set<string> = new Set();
+  private originalCursor: string = '';
+
+  /**
+   * Create a new FlyController.
+   *
+   * @param camera - The CameraEntity to control
+   * @param eventBus - Event bus for input events
+   * @param canvas - The canvas element for cursor changes
+   * @param options - Configuration options
+   */
+  constructor(camera: CameraEntity, eventBus: EventBus, canvas: HTMLCanvasElement, options: FlyControllerOptions = {}) {
+    this.camera = camera;
+    this.eventBus = eventBus;
+    this.canvas = canvas;
+
+    // Configuration with defaults
+    this.speed = clampSpeed(options.speed ?? 5);
+    this.acceleration = options.acceleration ?? 10;
+    this.boostMultiplier = options.boostMultiplier ?? 4;
+    this.speedStep = options.speedStep ?? 1.2;
+    this.lookSensitivity = options.lookSensitivity ?? 0.003;
+
+    // Setup event listeners
+    this.setupEventListeners();
+  }
+
+  /**
+   * Turn fly mode on or off. Emits 'navigation:flyModeChanged'.
+   */
+  setActive(active: boolean): void {
+    if (active === this.isActive) return;
+
+    this.isActive = active;
+    this.velocity = [0, 0, 0];
+    this.pressedKeys.clear();
+    this.stopLooking();
+    this.emitModeChanged();
+  }
+
+  /**
+   * Check if fly mode is on.
+   */
+  getIsActive(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Get the fly speed in world units per second (before boost).
+   */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Set the fly speed in world units per second, clamped to
+   * [FLY_SPEED_MIN, FLY_SPEED_MAX].
+   */
+  setSpeed(speed: number): void {
+    this.speed = clampSpeed(speed);
+    this.emitModeChanged();
+  }
+
+  /**
+   * Move the camera with the held keys.
+   *
+   * @param deltaSeconds - Time since the last update
+   */
+  update(deltaSeconds: number): void {
+    if (!this.isActive || deltaSeconds <= 0) return;
+
+    const desired = this.getDesiredVelocity();
+    const blend = 1 - Math.exp(-this.acceleration * deltaSeconds);
+    for (let i = 0; i < 3; i++) {
+      this.velocity[i] += (desired[i] - this.velocity[i]) * blend;
+    }
+
+    // Come to a full stop instead of creeping
+    const stopped = desired.every((v) => v === 0) &&
+      Math.hypot(...this.velocity) < this.speed * 1e-3;
+    if (stopped) {
+      this.velocity = [0, 0, 0];
+      return;
+    }
+
+    const position = this.camera.transform.position;
+    const target = this.camera.target;
+    const step = this.velocity.map((v) => v * deltaSeconds);
+    this.camera.setPosition(position[0] + step[0], position[1] + step[1], position[2] + step[2]);
+    this.camera.setTarget(target[0] + step[0], target[1] + step[1], target[2] + step[2]);
+  }
+
+  /**
+   * Clean up event listeners.
+   */
+  dispose(): void {
+    this.eventBus.off('input:keyDown', this.handleKeyDown);
+    this.eventBus.off('input:keyUp', this.handleKeyUp);
+    this.eventBus.off('input:blur', this.handleBlur);
+    this.eventBus.off('input:dragStart', this.handleDragStart);
+    this.eventBus.off('input:drag', this.handleDrag);
+    this.eventBus.off('input:dragEnd', this.handleDragEnd);
+    this.eventBus.off('input:wheel', this.handleWheel);
+  }
+
+  private setupEventListeners(): void {
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleKeyUp = this.handleKeyUp.bind(this);
+    this.handleBlur = this.handleBlur.bind(this);
+    this.handleDragStart = this.handleDragStart.bind(this);
+    this.handleDrag = this.handleDrag.bind(this);
+    this.handleDragEnd = this.handleDragEnd.bind(this);
+    this.handleWheel = this.handleWheel.bind(this);
+
+    this.eventBus.on('input:keyDown', this.handleKeyDown);
+    this.eventBus.on('input:keyUp', this.handleKeyUp);
+    this.eventBus.on('input:blur', this.handleBlur);
+    this.eventBus.on('input:dragStart', this.handleDragStart);
+    this.eventBus.on('input:drag', this.handleDrag);
+    this.eventBus.on('input:dragEnd', this.handleDragEnd);
+    this.eventBus.on('input:wheel', this.handleWheel);
+  }
+
+  private handleKeyDown(event: KeyEvent): void {
+    this.isBoosting = event.modifiers.shift;
+    if (!this.isActive || !(event.code in MOVE_KEYS)) return;
+
+    // Leave Ctrl/Alt/Meta combinations (save, undo, ...) and typing alone
+    const { ctrl, alt, meta } = event.modifiers;
+    if (ctrl || alt || meta || isTextInputFocused()) return;
+
+    this.pressedKeys.add(event.code);
+    event.consume();
+  }
+
+  private handleKeyUp(event: KeyEvent): void {
+    this.isBoosting = event.modifiers.shift;
+    this.pressedKeys.delete(event.code);
+  }
+
+  private handleBlur(): void {
+    this.isBoosting = false;
+    this.pressedKeys.clear();
+  }
+
+  private handleDragStart(event: DragEvent): void {
+    if (!this.isActive) return;
+    if (event.button !== MouseButton.RIGHT || event.modifiers.alt) return;
+
+    this.isLooking = true;
+    this.originalCursor = this.canvas.style.cursor;
+    this.canvas.style.cursor = 'crosshair';
+  }
+
+  private handleDrag(event: DragEvent): void {
+    if (!this.isLooking) return;
+
+    this.look(event.deltaX, event.deltaY);
+  }
+
+  private handleDragEnd(_event: DragEvent): void {
+    this.stopLooking();
+  }
+
+  private handleWheel(event: InputWheelEvent): void {
+    if (!this.isActive || event.deltaY === 0) return;
+
+    // Scroll up to speed up
+    this.setSpeed(event.deltaY < 0 ? this.speed * this.speedStep : this.speed / this.speedStep);
+  }
+
+  /**
+   * Turn the camera around its position, keeping the target distance.
+   */
+  private look(deltaX: number, deltaY: number): void {
+    const position = this.camera.transform.position;
+    const target = this.camera.target;
+    const offset = [target[0] - position[0], target[1] - position[1], target[2] - position[2]];
+    const distance = Math.hypot(offset[0], offset[1], offset[2]) || 1;
+
+    const yaw = Math.atan2(offset[1], offset[0]) - deltaX * this.lookSensitivity;
+    const pitch = Math.max(
+      -MAX_PITCH,
+      Math.min(MAX_PITCH, Math.asin(offset[2] / distance) - deltaY * this.lookSensitivity)
+    );
+
+    const cosPitch = Math.cos(pitch);
+    this.camera.setTarget(
+      position[0] + Math.cos(yaw) * cosPitch * distance,
+      position[1] + Math.sin(yaw) * cosPitch * distance,
+      position[2] + Math.sin(pitch) * distance
+    );
+  }
+
+  /**
+   * World-space velocity requested by the held keys.
+   */
+  private getDesiredVelocity(): [number, number, number] {
+    const input: [number, number, number] = [0, 0, 0];
+    for (const code of this.pressedKeys) {
+      const direction = MOVE_KEYS[code];
+      input[0] += direction[0];
+      input[1] += direction[1];
+      input[2] += direction[2];
+    }
+    if (input[0] === 0 && input[1] === 0 && input[2] === 0) return [0, 0, 0];
+
+    const position = this.camera.transform.position;
+    const target = this.camera.target;
+    const forward = this.normalize([target[0] - position[0], target[1] - position[1], target[2] - position[2]]);
+    const right = this.normalize([forward[1], -forward[0], 0]);
+
+    const direction = this.normalize([
+      right[0] * input[0] + forward[0] * input[1],
+      right[1] * input[0] + forward[1] * input[1],
+      forward[2] * input[1] + input[2],
+    ]);
+    const speed = this.speed * (this.isBoosting ? this.boostMultiplier : 1);
+
+    return [direction[0] * speed, direction[1] * speed, direction[2] * speed];
+  }
+
+  private stopLooking(): void {
+    if (!this.isLooking) return;
+
+    this.isLooking = false;
+    this.canvas.style.cursor = this.originalCursor;
+  }
+
+  private emitModeChanged(): void {
+    this.eventBus.emit<FlyModeChangedEvent>('navigation:flyModeChanged', {
+      active: this.isActive,
+      speed: this.speed,
+    });
+  }
+
+  /**
+   * Normalize a vector.
+   */
+  private normalize(v: [number, number, number]): [number, number, number] {
+    const len = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+    if (len === 0) return [0, 0, 0];
+    return [v[0] / len, v[1] / len, v[2] / len];
+  }
+}
+
+/**
+ * Clamp a speed to [FLY_SPEED_MIN, FLY_SPEED_MAX].
+ */
+function clampSpeed(speed: number): number {
+  return Math.max(FLY_SPEED_MIN, Math.min(FLY_SPEED_MAX, speed));
+}
+
+/**
+ * Check whether keyboard input is going to a text field.
+ */
+function isTextInputFocused(): boolean {
+  const activeElement = document.activeElement;
+  return (
+    activeElement instanceof HTMLInputElement ||
+    activeElement instanceof HTMLTextAreaElement ||
+    (activeElement as HTMLElement | null)?.isContentEditable === true
+  );
+}
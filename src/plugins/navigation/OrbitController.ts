@@ -12,15 +12,28 @@
  * Uses spherical coordinates for smooth orbital movement.
  * Automatically pivots around the active selection when selection changes.
  *
+ * Standard views (front, back, left, right, top, bottom) rotate the camera
+ * around the pivot to look along a world axis, easing there over
+ * VIEW_TRANSITION_DURATION when update() is called every frame. In
+ * orthographic projection the camera's orthographicSize follows the orbit
+ * radius, so zooming works the same in both projections.
+ *
  * @example
  * ```typescript
  * const orbitController = new OrbitController(cameraEntity, eventBus, canvas);
+ *
+ * orbitController.setStandardView('top');
+ * orbitController.toggleOrthographic();
+ *
+ * // In render loop:
+ * orbitController.update(deltaSeconds);
  * ```
  */
 
 import type { EventBus } from '@core/EventBus';
 import type { CameraEntity } from '@core/CameraEntity';
 import { MouseButton, type DragEvent, type WheelEvent as InputWheelEvent } from '@core/InputManager';
+import type { CameraProjection } from '@core/interfaces';
 
 /**
  * Cursor data URIs for navigation modes
@@ -43,6 +56,58 @@ interface SphericalCoordinates {
   phi: number;
 }
 
+/**
+ * Views looking along a world axis (Z-up: front looks along +Y).
+ */
+export type StandardView = 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * Duration of the eased rotation to a standard view, in seconds.
+ */
+export const VIEW_TRANSITION_DURATION = 0.3;
+
+/**
+ * How far top and bottom views stay from the poles, so the Z-up look-at
+ * basis remains defined.
+ */
+const VIEW_POLE_OFFSET = 1e-4;
+
+/**
+ * Spherical angles of each standard view. Top and bottom keep +Y up on
+ * screen (as seen from the front).
+ */
+const STANDARD_VIEW_ANGLES: Record<StandardView, { theta: number; phi: number }> = {
+  front: { theta: -Math.PI / 2, phi: Math.PI / 2 },
+  back: { theta: Math.PI / 2, phi: Math.PI / 2 },
+  right: { theta: 0, phi: Math.PI / 2 },
+  left: { theta: Math.PI, phi: Math.PI / 2 },
+  top: { theta: -Math.PI / 2, phi: VIEW_POLE_OFFSET },
+  bottom: { theta: -Math.PI / 2, phi: Math.PI - VIEW_POLE_OFFSET },
+};
+
+/**
+ * The view looking the other way along the same axis.
+ */
+export const OPPOSITE_VIEWS: Record<StandardView, StandardView> = {
+  front: 'back',
+  back: 'front',
+  left: 'right',
+  right: 'left',
+  top: 'bottom',
+  bottom: 'top',
+};
+
+/**
+ * An in-progress eased rotation to a standard view.
+ */
+interface ViewTransition {
+  fromTheta: number;
+  fromPhi: number;
+  toTheta: number;
+  toPhi: number;
+  elapsed: number;
+}
+
 /**
  * Configuration options for OrbitController.
  */
@@ -93,6 +158,8 @@ export class OrbitController {
   private isEnabled: boolean = true;
   private originalCursor: string = '';
   private isNavigating: boolean = false;
+  private viewTransition: ViewTransition | null = null;
+  private currentView: StandardView | null = null;
 
   /**
    * Create a new OrbitController.
@@ -161,9 +228,24 @@ export class OrbitController {
   }
 
   /**
-   * Frame a point (move pivot and adjust radius).
+   * Re-read the pivot and orbit angles from the camera after something else
+   * moved it (e.g. fly navigation).
+   */
+  syncFromCamera(): void {
+    this.viewTransition = null;
+    this.currentView = null;
+    this.pivot = [...this.camera.target];
+    this.spherical = this.cartesianToSpherical(this.camera.transform.position, this.pivot);
+  }
+
+  /**
+   * Frame a point (move pivot and adjust radius), keeping the current view
+   * direction.
    */
   framePoint(target: [number, number, number], distance?: number): void {
+    if (!this.viewTransition) {
+      this.spherical = this.cartesianToSpherical(this.camera.transform.position, this.camera.target);
+    }
     this.pivot = [...target];
     if (distance !== undefined) {
       this.spherical.radius = Math.max(this.minRadius, Math.min(this.maxRadius, distance));
@@ -171,6 +253,88 @@ export class OrbitController {
     this.updateCameraPosition();
   }
 
+  /**
+   * Rotate around the pivot to look along a world axis.
+   *
+   * @param view - View to switch to
+   * @param animate - Ease there over VIEW_TRANSITION_DURATION (default: true)
+   */
+  setStandardView(view: StandardView, animate = true): void {
+    const angles = STANDARD_VIEW_ANGLES[view];
+    this.currentView = view;
+    this.rotateTo(angles.theta, angles.phi, animate);
+  }
+
+  /**
+   * Look at the pivot from the opposite side: the opposite standard view,
+   * or the point across the pivot when orbiting freely.
+   *
+   * @param animate - Ease there over VIEW_TRANSITION_DURATION (default: true)
+   */
+  setOppositeView(animate = true): void {
+    if (this.currentView) {
+      this.setStandardView(OPPOSITE_VIEWS[this.currentView], animate);
+      return;
+    }
+
+    const target = this.viewTransition ?? { toTheta: this.spherical.theta, toPhi: this.spherical.phi };
+    this.rotateTo(target.toTheta + Math.PI, Math.PI - target.toPhi, animate);
+  }
+
+  /**
+   * Get the standard view the camera is in (or moving to), or null once
+   * the user orbits away from it.
+   */
+  getStandardView(): StandardView | null {
+    return this.currentView;
+  }
+
+  /**
+   * Check whether a standard view transition is in progress.
+   */
+  isTransitioning(): boolean {
+    return this.viewTransition !== null;
+  }
+
+  /**
+   * Advance a standard view transition.
+   *
+   * @param deltaSeconds - Time since the last update
+   */
+  update(deltaSeconds: number): void {
+    const transition = this.viewTransition;
+    if (!transition) return;
+
+    transition.elapsed += deltaSeconds;
+    const t = Math.min(transition.elapsed / VIEW_TRANSITION_DURATION, 1);
+    const eased = t * t * (3 - 2 * t);
+
+    this.spherical.theta = transition.fromTheta + (transition.toTheta - transition.fromTheta) * eased;
+    this.spherical.phi = transition.fromPhi + (transition.toPhi - transition.fromPhi) * eased;
+    if (t >= 1) {
+      this.viewTransition = null;
+    }
+
+    this.updateCameraPosition();
+  }
+
+  /**
+   * Set the camera's projection. Switching to orthographic sizes the view
+   * to match what the perspective camera shows at the pivot.
+   */
+  setProjection(projection: CameraProjection): void {
+    this.camera.getCameraComponent().projection = projection;
+    this.updateCameraPosition();
+  }
+
+  /**
+   * Switch between perspective and orthographic projection.
+   */
+  toggleOrthographic(): void {
+    const projection = this.camera.getCameraComponent().projection;
+    this.setProjection(projection === 'orthographic' ? 'perspective' : 'orthographic');
+  }
+
   /**
    * Clean up event listeners.
    */
@@ -249,12 +413,19 @@ export class OrbitController {
    * Orbit around the pivot point.
    */
   private orbit(deltaX: number, deltaY: number): void {
+    this.viewTransition = null;
+    this.currentView = null;
+
+    // Top and bottom views sit beyond the phi limits; don't snap back from them
+    const minPhi = Math.min(this.minPhi, this.spherical.phi);
+    const maxPhi = Math.max(this.maxPhi, this.spherical.phi);
+
     // Update spherical coordinates
     this.spherical.theta -= deltaX * this.orbitSensitivity;
     this.spherical.phi -= deltaY * this.orbitSensitivity;
 
     // Clamp phi to prevent flipping
-    this.spherical.phi = Math.max(this.minPhi, Math.min(this.maxPhi, this.spherical.phi));
+    this.spherical.phi = Math.max(minPhi, Math.min(maxPhi, this.spherical.phi));
 
     this.updateCameraPosition();
   }
@@ -316,13 +487,45 @@ export class OrbitController {
     this.updateCameraPosition();
   }
 
+  /**
+   * Rotate around the pivot to the given spherical angles, the short way
+   * around in theta.
+   */
+  private rotateTo(theta: number, phi: number, animate: boolean): void {
+    const toTheta = this.spherical.theta + wrapAngle(theta - this.spherical.theta);
+
+    if (animate) {
+      this.viewTransition = {
+        fromTheta: this.spherical.theta,
+        fromPhi: this.spherical.phi,
+        toTheta,
+        toPhi: phi,
+        elapsed: 0,
+      };
+      return;
+    }
+
+    this.viewTransition = null;
+    this.spherical.theta = toTheta;
+    this.spherical.phi = phi;
+    this.updateCameraPosition();
+  }
+
   /**
    * Update camera position from spherical coordinates.
+   * Orthographic cameras show the height a perspective camera would see at
+   * the pivot.
    */
   private updateCameraPosition(): void {
     const position = this.sphericalToCartesian(this.spherical, this.pivot);
     this.camera.setPosition(position[0], position[1], position[2]);
     this.camera.setTarget(this.pivot[0], this.pivot[1], this.pivot[2]);
+
+    const cameraComponent = this.camera.getCameraComponent();
+    if (cameraComponent.projection === 'orthographic') {
+      const halfFov = (cameraComponent.fieldOfView * Math.PI) / 360;
+      cameraComponent.orthographicSize = this.spherical.radius * Math.tan(halfFov);
+    }
   }
 
   /**
@@ -387,3 +590,10 @@ export class OrbitController {
     return [v[0] / len, v[1] / len, v[2] / len];
   }
 }
+
+/**
+ * Wrap an angle to [-PI, PI].
+ */
+function wrapAngle(angle: number): number {
+  return angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+}
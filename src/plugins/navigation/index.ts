@@ -4,4 +4,17 @@
  * Camera navigation and viewport control plugins.
  */
 
-export { OrbitController, type OrbitControllerOptions } from './OrbitController';
+export {
+  OrbitController,
+  VIEW_TRANSITION_DURATION,
+  OPPOSITE_VIEWS,
+  type OrbitControllerOptions,
+  type StandardView,
+} from './OrbitController';
+export {
+  FlyController,
+  FLY_SPEED_MIN,
+  FLY_SPEED_MAX,
+  type FlyControllerOptions,
+  type FlyModeChangedEvent,
+} from './FlyController';
@@ -0,0 +1,123 @@
+/**
+ * Capsule Primitive
+ *
+ * A cylinder with hemispherical ends along the Z axis (Z-up), centered at
+ * the origin. Provides geometry data for renderers - does NOT manage GPU
+ * resources.
+ */
+
+import type { IPrimitiveFactory } from './interfaces/IPrimitiveFactory';
+import { ParametricPrimitive } from './ParametricPrimitive';
+import type { PrimitiveParameterDefinition } from './ParametricPrimitive';
+import { MeshBuilder } from './MeshBuilder';
+import type { LatheProfilePoint, PrimitiveGeometry } from './MeshBuilder';
+
+/**
+ * Generation parameters for a capsule.
+ */
+export type CapsuleParameters = {
+  /** Radius of the body and end caps. Default: 0.25 */
+  radius: number;
+  /** Total height including the end caps; at least 2 × radius. Default: 1 */
+  height: number;
+  /** Subdivisions around the axis. Default: 32 */
+  segments: number;
+  /** Subdivisions of each end cap from pole to equator. Default: 8 */
+  rings: number;
+};
+
+/**
+ * Configuration options for capsule generation.
+ */
+export type CapsuleOptions = Partial<CapsuleParameters>;
+
+const DEFAULT_PARAMETERS: CapsuleParameters = {
+  radius: 0.25,
+  height: 1,
+  segments: 32,
+  rings: 8,
+};
+
+const PARAMETER_DEFINITIONS: readonly PrimitiveParameterDefinition[] = [
+  { name: 'radius', label: 'Radius', min: 0.001, max: 10000, step: 0.05 },
+  { name: 'height', label: 'Height', min: 0.001, max: 10000, step: 0.1 },
+  { name: 'segments', label: 'Segments', min: 3, max: 256, step: 1, integer: true },
+  { name: 'rings', label: 'Rings', min: 1, max: 128, step: 1, integer: true },
+];
+
+/**
+ * A capsule primitive.
+ */
+export class Capsule extends ParametricPrimitive<CapsuleParameters> {
+  readonly entityType = 'Capsule' as const;
+
+  /**
+   * Create a new Capsule.
+   *
+   * @param id - Unique identifier (defaults to random UUID)
+   * @param name - Display name (defaults to 'Capsule')
+   * @param options - Capsule generation options
+   */
+  constructor(id?: string, name?: string, options?: CapsuleOptions) {
+    super(id, name ?? 'Capsule', DEFAULT_PARAMETERS, options);
+  }
+
+  getParameterDefinitions(): readonly PrimitiveParameterDefinition[] {
+    return PARAMETER_DEFINITIONS;
+  }
+
+  protected createInstance(name: string, parameters: CapsuleParameters): Capsule {
+    return new Capsule(undefined, name, parameters);
+  }
+
+  /**
+   * Build the capsule as one smooth lathe: bottom cap, body, top cap.
+   * A height below 2 × radius produces a sphere.
+   */
+  protected buildGeometry(parameters: Readonly<CapsuleParameters>): PrimitiveGeometry {
+    const { radius, height, segments, rings } = parameters;
+    const builder = new MeshBuilder();
+    const halfBody = Math.max(0, height / 2 - radius);
+
+    const profile: LatheProfilePoint[] = [];
+    const addCapRing = (angle: number, center: number, atPole: boolean): void => {
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      profile.push({ r: atPole ? 0 : radius * cos, z: center + radius * sin, nr: cos, nz: sin, edge: true });
+    };
+
+    // Bottom cap: south pole up to the equator
+    for (let k = 0; k <= rings; k++) {
+      addCapRing(-Math.PI / 2 + (k / rings) * (Math.PI / 2), -halfBody, k === 0);
+    }
+
+    // Top cap: equator up to the north pole (the body spans the two equators)
+    for (let k = halfBody > 0 ? 0 : 1; k <= rings; k++) {
+      addCapRing((k / rings) * (Math.PI / 2), halfBody, k === rings);
+    }
+
+    builder.addLathe(profile, segments);
+
+    return builder.build();
+  }
+}
+
+/**
+ * Factory for creating Capsule primitives.
+ * Implements IPrimitiveFactory for registration with PrimitiveRegistry.
+ */
+export class CapsuleFactory implements IPrimitiveFactory {
+  readonly type = 'Capsule';
+  readonly category = 'Mesh' as const;
+  readonly icon = 'capsule';
+
+  /**
+   * Create a new Capsule instance.
+   *
+   * @param name - Optional name for the capsule
+   * @returns A new Capsule instance
+   */
+  create(name?: string): Capsule {
+    return new Capsule(undefined, name);
+  }
+}
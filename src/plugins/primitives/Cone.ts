@@ -0,0 +1,118 @@
+/**
+ * Cone Primitive
+ *
+ * A cone along the Z axis (Z-up) with its base at z = -height/2 and its apex
+ * at z = +height/2. Provides geometry data for renderers - does NOT manage
+ * GPU resources.
+ */
+
+import type { IPrimitiveFactory } from './interfaces/IPrimitiveFactory';
+import { ParametricPrimitive } from './ParametricPrimitive';
+import type { PrimitiveParameterDefinition } from './ParametricPrimitive';
+import { MeshBuilder } from './MeshBuilder';
+import type { LatheProfilePoint, PrimitiveGeometry } from './MeshBuilder';
+
+/**
+ * Generation parameters for a cone.
+ */
+export type ConeParameters = {
+  /** Radius of the base. Default: 0.5 */
+  radius: number;
+  /** Height from base to apex. Default: 1 */
+  height: number;
+  /** Subdivisions around the axis. Default: 32 */
+  segments: number;
+  /** Subdivisions from base to apex. Default: 1 */
+  heightSegments: number;
+};
+
+/**
+ * Configuration options for cone generation.
+ */
+export type ConeOptions = Partial<ConeParameters>;
+
+const DEFAULT_PARAMETERS: ConeParameters = {
+  radius: 0.5,
+  height: 1,
+  segments: 32,
+  heightSegments: 1,
+};
+
+const PARAMETER_DEFINITIONS: readonly PrimitiveParameterDefinition[] = [
+  { name: 'radius', label: 'Radius', min: 0.001, max: 10000, step: 0.05 },
+  { name: 'height', label: 'Height', min: 0.001, max: 10000, step: 0.1 },
+  { name: 'segments', label: 'Segments', min: 3, max: 256, step: 1, integer: true },
+  { name: 'heightSegments', label: 'Height Segments', min: 1, max: 256, step: 1, integer: true },
+];
+
+/**
+ * A cone primitive with a capped base.
+ */
+export class Cone extends ParametricPrimitive<ConeParameters> {
+  readonly entityType = 'Cone' as const;
+
+  /**
+   * Create a new Cone.
+   *
+   * @param id - Unique identifier (defaults to random UUID)
+   * @param name - Display name (defaults to 'Cone')
+   * @param options - Cone generation options
+   */
+  constructor(id?: string, name?: string, options?: ConeOptions) {
+    super(id, name ?? 'Cone', DEFAULT_PARAMETERS, options);
+  }
+
+  getParameterDefinitions(): readonly PrimitiveParameterDefinition[] {
+    return PARAMETER_DEFINITIONS;
+  }
+
+  protected createInstance(name: string, parameters: ConeParameters): Cone {
+    return new Cone(undefined, name, parameters);
+  }
+
+  /**
+   * Build the slanted side as a lathe narrowing to the apex, plus a base disk.
+   * Side normals are perpendicular to the slant, so shading stays smooth
+   * around the axis.
+   */
+  protected buildGeometry(parameters: Readonly<ConeParameters>): PrimitiveGeometry {
+    const { radius, height, segments, heightSegments } = parameters;
+    const builder = new MeshBuilder();
+
+    // Outward normal of the slant in the (r, z) plane
+    const slant = Math.hypot(radius, height);
+    const nr = height / slant;
+    const nz = radius / slant;
+
+    const profile: LatheProfilePoint[] = [];
+    for (let i = 0; i <= heightSegments; i++) {
+      const t = i / heightSegments;
+      profile.push({ r: radius * (1 - t), z: (t - 0.5) * height, nr, nz, edge: i < heightSegments });
+    }
+
+    builder.addLathe(profile, segments);
+    builder.addDisk(radius, -height / 2, segments, false);
+
+    return builder.build();
+  }
+}
+
+/**
+ * Factory for creating Cone primitives.
+ * Implements IPrimitiveFactory for registration with PrimitiveRegistry.
+ */
+export class ConeFactory implements IPrimitiveFactory {
+  readonly type = 'Cone';
+  readonly category = 'Mesh' as const;
+  readonly icon = 'cone';
+
+  /**
+   * Create a new Cone instance.
+   *
+   * @param name - Optional name for the cone
+   * @returns A new Cone instance
+   */
+  create(name?: string): Cone {
+    return new Cone(undefined, name);
+  }
+}
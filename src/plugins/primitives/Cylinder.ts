@@ -0,0 +1,111 @@
+/**
+ * Cylinder Primitive
+ *
+ * A capped cylinder along the Z axis (Z-up), centered at the origin.
+ * Provides geometry data for renderers - does NOT manage GPU resources.
+ */
+
+import type { IPrimitiveFactory } from './interfaces/IPrimitiveFactory';
+import { ParametricPrimitive } from './ParametricPrimitive';
+import type { PrimitiveParameterDefinition } from './ParametricPrimitive';
+import { MeshBuilder } from './MeshBuilder';
+import type { LatheProfilePoint, PrimitiveGeometry } from './MeshBuilder';
+
+/**
+ * Generation parameters for a cylinder.
+ */
+export type CylinderParameters = {
+  /** Radius of the side and caps. Default: 0.5 */
+  radius: number;
+  /** Height along Z. Default: 1 */
+  height: number;
+  /** Subdivisions around the axis. Default: 32 */
+  segments: number;
+  /** Subdivisions along the height. Default: 1 */
+  heightSegments: number;
+};
+
+/**
+ * Configuration options for cylinder generation.
+ */
+export type CylinderOptions = Partial<CylinderParameters>;
+
+const DEFAULT_PARAMETERS: CylinderParameters = {
+  radius: 0.5,
+  height: 1,
+  segments: 32,
+  heightSegments: 1,
+};
+
+const PARAMETER_DEFINITIONS: readonly PrimitiveParameterDefinition[] = [
+  { name: 'radius', label: 'Radius', min: 0.001, max: 10000, step: 0.05 },
+  { name: 'height', label: 'Height', min: 0.001, max: 10000, step: 0.1 },
+  { name: 'segments', label: 'Segments', min: 3, max: 256, step: 1, integer: true },
+  { name: 'heightSegments', label: 'Height Segments', min: 1, max: 256, step: 1, integer: true },
+];
+
+/**
+ * A capped cylinder primitive.
+ */
+export class Cylinder extends ParametricPrimitive<CylinderParameters> {
+  readonly entityType = 'Cylinder' as const;
+
+  /**
+   * Create a new Cylinder.
+   *
+   * @param id - Unique identifier (defaults to random UUID)
+   * @param name - Display name (defaults to 'Cylinder')
+   * @param options - Cylinder generation options
+   */
+  constructor(id?: string, name?: string, options?: CylinderOptions) {
+    super(id, name ?? 'Cylinder', DEFAULT_PARAMETERS, options);
+  }
+
+  getParameterDefinitions(): readonly PrimitiveParameterDefinition[] {
+    return PARAMETER_DEFINITIONS;
+  }
+
+  protected createInstance(name: string, parameters: CylinderParameters): Cylinder {
+    return new Cylinder(undefined, name, parameters);
+  }
+
+  /**
+   * Build the side as a lathe with separate cap disks, so the rim stays sharp.
+   * Wireframe shows the rims, height subdivisions and one line per segment.
+   */
+  protected buildGeometry(parameters: Readonly<CylinderParameters>): PrimitiveGeometry {
+    const { radius, height, segments, heightSegments } = parameters;
+    const builder = new MeshBuilder();
+
+    const profile: LatheProfilePoint[] = [];
+    for (let i = 0; i <= heightSegments; i++) {
+      profile.push({ r: radius, z: (i / heightSegments - 0.5) * height, nr: 1, nz: 0, edge: true });
+    }
+
+    builder.addLathe(profile, segments);
+    builder.addDisk(radius, -height / 2, segments, false);
+    builder.addDisk(radius, height / 2, segments, true);
+
+    return builder.build();
+  }
+}
+
+/**
+ * Factory for creating Cylinder primitives.
+ * Implements IPrimitiveFactory for registration with PrimitiveRegistry.
+ */
+export class CylinderFactory implements IPrimitiveFactory {
+  readonly type = 'Cylinder';
+  readonly category = 'Mesh' as const;
+  readonly icon = 'cylinder';
+
+  /**
+   * Create a new Cylinder instance.
+   *
+   * @param name - Optional name for the cylinder
+   * @returns A new Cylinder instance
+   */
+  create(name?: string): Cylinder {
+    return new Cylinder(undefined, name);
+  }
+}
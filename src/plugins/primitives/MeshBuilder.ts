@@ -0,0 +1,230 @@
+/**
+ * MeshBuilder - Incremental geometry construction for parametric primitives
+ *
+ * Collects vertices (position, normal, UV), triangles and wireframe edges,
+ * then packs them into IMeshData / IEdgeData with computed bounds and the
+ * narrowest index format.
+ *
+ * Surfaces of revolution (cylinder, cone, torus, capsule) are built with
+ * addLathe(), which sweeps a 2D profile around the Z axis (Z-up).
+ *
+ * @example
+ * ```typescript
+ * const builder = new MeshBuilder();
+ * builder.addLathe(profile, 32);
+ * builder.addDisk(0.5, 0.5, 32, true);
+ * const { meshData, edgeData } = builder.build();
+ * ```
+ */
+
+import type { IMeshData, IEdgeData } from '@core/interfaces';
+import { createIndexArray } from '@core/interfaces';
+import type { Vec3 } from '@utils/math';
+
+/**
+ * Built geometry for a primitive.
+ */
+export interface PrimitiveGeometry {
+  meshData: IMeshData;
+  edgeData: IEdgeData;
+}
+
+/**
+ * A point on a lathe profile, in the (radius, z) half-plane.
+ */
+export interface LatheProfilePoint {
+  /** Distance from the Z axis */
+  r: number;
+  /** Height */
+  z: number;
+  /** Radial component of the outward normal */
+  nr: number;
+  /** Z component of the outward normal */
+  nz: number;
+  /** Draw this profile ring in the wireframe. Default: false */
+  edge?: boolean;
+}
+
+/**
+ * Accumulates geometry and packs it into mesh and edge data.
+ */
+export class MeshBuilder {
+  private readonly positions: number[] = [];
+  private readonly normals: number[] = [];
+  private readonly uvs: number[] = [];
+  private readonly indices: number[] = [];
+  private readonly lines: number[] = [];
+
+  /**
+   * Number of vertices added so far.
+   */
+  get vertexCount(): number {
+    return this.positions.length / 3;
+  }
+
+  /**
+   * Add a vertex.
+   *
+   * @returns Index of the new vertex
+   */
+  addVertex(position: Vec3, normal: Vec3, uv: [number, number]): number {
+    this.positions.push(position[0], position[1], position[2]);
+    this.normals.push(normal[0], normal[1], normal[2]);
+    this.uvs.push(uv[0], uv[1]);
+    return this.vertexCount - 1;
+  }
+
+  /**
+   * Add a triangle. Vertices are counter-clockwise seen from the front.
+   */
+  addTriangle(a: number, b: number, c: number): void {
+    this.indices.push(a, b, c);
+  }
+
+  /**
+   * Add a wireframe line segment.
+   */
+  addEdge(from: Vec3, to: Vec3): void {
+    this.lines.push(from[0], from[1], from[2], to[0], to[1], to[2]);
+  }
+
+  /**
+   * Sweep a profile around the Z axis.
+   *
+   * The profile runs from bottom to top; its normals point away from the
+   * axis side the surface faces. Each profile point becomes a ring of
+   * segments + 1 vertices (the seam is duplicated for UVs). U runs around
+   * the axis, V along the profile by arc length. Quads touching the axis
+   * (r = 0) collapse to single triangles.
+   *
+   * Wireframe gets one line per segment along the profile, plus the rings
+   * of profile points marked `edge`.
+   *
+   * @param profile - Profile points, bottom to top
+   * @param segments - Subdivisions around the axis
+   */
+  addLathe(profile: readonly LatheProfilePoint[], segments: number): void {
+    // V coordinate by arc length along the profile
+    const lengths = [0];
+    for (let i = 1; i < profile.length; i++) {
+      const dr = profile[i].r - profile[i - 1].r;
+      const dz = profile[i].z - profile[i - 1].z;
+      lengths.push(lengths[i - 1] + Math.hypot(dr, dz));
+    }
+    const totalLength = lengths[lengths.length - 1] || 1;
+
+    const base = this.vertexCount;
+    const ringSize = segments + 1;
+
+    for (let i = 0; i < profile.length; i++) {
+      const { r, z, nr, nz } = profile[i];
+      const v = lengths[i] / totalLength;
+
+      for (let j = 0; j <= segments; j++) {
+        const theta = (j / segments) * Math.PI * 2;
+        const cos = Math.cos(theta);
+        const sin = Math.sin(theta);
+        this.addVertex([r * cos, r * sin, z], [nr * cos, nr * sin, nz], [j / segments, v]);
+      }
+    }
+
+    for (let i = 0; i < profile.length - 1; i++) {
+      const lower = profile[i];
+      const upper = profile[i + 1];
+
+      for (let j = 0; j < segments; j++) {
+        const a = base + i * ringSize + j;
+        const b = a + 1;
+        const c = b + ringSize;
+        const d = a + ringSize;
+
+        if (upper.r !== 0) this.addTriangle(a, b, c);
+        if (lower.r !== 0) this.addTriangle(a, c, d);
+      }
+    }
+
+    const point = (p: LatheProfilePoint, j: number): Vec3 => {
+      const theta = (j / segments) * Math.PI * 2;
+      return [p.r * Math.cos(theta), p.r * Math.sin(theta), p.z];
+    };
+
+    for (let j = 0; j < segments; j++) {
+      for (let i = 0; i < profile.length - 1; i++) {
+        this.addEdge(point(profile[i], j), point(profile[i + 1], j));
+      }
+    }
+
+    for (const p of profile) {
+      if (!p.edge || p.r === 0) continue;
+      for (let j = 0; j < segments; j++) {
+        this.addEdge(point(p, j), point(p, j + 1));
+      }
+    }
+  }
+
+  /**
+   * Add a flat disk perpendicular to the Z axis, facing +Z or -Z.
+   * UVs map the disk's bounding square to 0..1.
+   *
+   * @param radius - Disk radius
+   * @param z - Height of the disk
+   * @param segments - Subdivisions around the axis
+   * @param facingUp - True to face +Z, false to face -Z
+   */
+  addDisk(radius: number, z: number, segments: number, facingUp: boolean): void {
+    const normal: Vec3 = [0, 0, facingUp ? 1 : -1];
+    // Mirror U on the bottom so the texture is not flipped seen from below
+    const uSign = facingUp ? 1 : -1;
+
+    const center = this.addVertex([0, 0, z], normal, [0.5, 0.5]);
+    for (let j = 0; j <= segments; j++) {
+      const theta = (j / segments) * Math.PI * 2;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      this.addVertex([radius * cos, radius * sin, z], normal, [0.5 + uSign * cos * 0.5, 0.5 + sin * 0.5]);
+    }
+
+    for (let j = 0; j < segments; j++) {
+      const rim = center + 1 + j;
+      if (facingUp) {
+        this.addTriangle(center, rim, rim + 1);
+      } else {
+        this.addTriangle(center, rim + 1, rim);
+      }
+    }
+  }
+
+  /**
+   * Pack the accumulated geometry.
+   */
+  build(): PrimitiveGeometry {
+    const positions = new Float32Array(this.positions);
+
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], positions[i + axis]);
+        max[axis] = Math.max(max[axis], positions[i + axis]);
+      }
+    }
+    if (positions.length === 0) {
+      min.fill(0);
+      max.fill(0);
+    }
+
+    return {
+      meshData: {
+        positions,
+        normals: new Float32Array(this.normals),
+        uvs: new Float32Array(this.uvs),
+        indices: createIndexArray(this.indices),
+        bounds: { min, max },
+      },
+      edgeData: {
+        lineVertices: new Float32Array(this.lines),
+        lineCount: this.lines.length / 6,
+      },
+    };
+  }
+}
@@ -9,6 +9,11 @@
  * the same way as primitives. Geometry data is retrieved from AssetRegistry
  * via the meshAssetRef.
  *
+ * Skinned meshes carry a skin binding: joint objects are found by name path
+ * in the mesh's model hierarchy, so bindings survive cloning and scene
+ * reloads. ForwardRenderer reads the skinning matrices from
+ * getJointMatrices().
+ *
  * @example
  * ```typescript
  * // Create MeshEntity referencing an imported mesh asset
@@ -22,6 +27,7 @@
 
 import type {
   IRenderable,
+  ISceneObject,
   Transform,
   IComponent,
   IEntity,
@@ -32,7 +38,12 @@ import type {
   IMeshProvider,
   ICloneable,
 } from '@core/interfaces';
-import { createDefaultTransform, cloneEntityBase } from '@core/interfaces';
+import {
+  createDefaultTransform,
+  cloneEntityBase,
+  createIndexArray,
+  findObjectByNamePath,
+} from '@core/interfaces';
 import type { ISerializable } from '@core/assets/interfaces/ISerializable';
 import type {
   ISerializedEntity,
@@ -52,6 +63,7 @@ import {
   mat4Scale,
   degToRad,
   normalMatrix,
+  mat4Inverse,
 } from '@utils/math';
 import type { Mat3 } from '@utils/math';
 
@@ -101,6 +113,19 @@ export interface ISerializedMeshEntityComponent extends ISerializedComponent {
   triangleCount: number;
 }
 
+/**
+ * Skin binding of a skinned mesh.
+ */
+export interface IMeshSkin {
+  /**
+   * Joint name paths in joint order, relative to the model root
+   * (e.g., 'Armature/Hips'). Indexed by the mesh asset's `joints`.
+   */
+  joints: string[];
+  /** Inverse bind matrices, 16 column-major floats per joint */
+  inverseBindMatrices: number[];
+}
+
 /**
  * A generic mesh entity that references an IMeshAsset for geometry.
  * Used for imported 3D models (GLTF, OBJ, etc.).
@@ -120,6 +145,11 @@ export class MeshEntity
    */
   meshAssetRef: IAssetReference | null = null;
 
+  /**
+   * Skin binding (null for rigid meshes).
+   */
+  skin: IMeshSkin | null = null;
+
   private readonly components: Map<string, IComponent> = new Map();
 
   private renderMode: RenderMode = 'solid';
@@ -189,8 +219,11 @@ export class MeshEntity
     this.cachedMeshData = {
       positions: new Float32Array(meshAsset.positions),
       normals: new Float32Array(meshAsset.normals),
-      indices: new Uint16Array(meshAsset.indices),
+      indices: createIndexArray(meshAsset.indices, meshAsset.indexFormat),
       uvs: meshAsset.uvs ? new Float32Array(meshAsset.uvs) : undefined,
+      tangents: meshAsset.tangents ? new Float32Array(meshAsset.tangents) : undefined,
+      joints: meshAsset.joints ? new Uint16Array(meshAsset.joints) : undefined,
+      weights: meshAsset.weights ? new Float32Array(meshAsset.weights) : undefined,
       bounds: {
         min: [...meshAsset.bounds.min],
         max: [...meshAsset.bounds.max],
@@ -229,6 +262,44 @@ export class MeshEntity
     return this.cachedEdgeData;
   }
 
+  /**
+   * Get the skinning matrices for the current joint poses.
+   * Each matrix is inverse(meshWorld) · jointWorld · inverseBind, so the
+   * renderer's model matrix places the deformed mesh in the world. Joints
+   * are looked up in the mesh's top-level hierarchy; missing joints keep
+   * their vertices in the bind pose.
+   *
+   * @returns 16 floats per joint, or null if the mesh is not skinned
+   */
+  getJointMatrices(): Float32Array | null {
+    if (!this.skin || this.skin.joints.length === 0) {
+      return null;
+    }
+
+    let scope: ISceneObject = this;
+    while (scope.parent && scope.parent.id !== 'root') {
+      scope = scope.parent;
+    }
+
+    const inverseMeshWorld = mat4Inverse(this.getModelMatrix());
+    const { joints, inverseBindMatrices } = this.skin;
+    const matrices = new Float32Array(joints.length * 16);
+
+    for (let j = 0; j < joints.length; j++) {
+      const joint = findObjectByNamePath(scope, joints[j]) as IRenderable | null;
+      if (!joint) {
+        matrices.set([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1], j * 16);
+        continue;
+      }
+
+      const inverseBind = new Float32Array(inverseBindMatrices.slice(j * 16, j * 16 + 16));
+      const jointWorld = this.getParentWorldMatrix(joint);
+      matrices.set(mat4Multiply(inverseMeshWorld, mat4Multiply(jointWorld, inverseBind)), j * 16);
+    }
+
+    return matrices;
+  }
+
   /**
    * Update mesh component with data from the mesh asset.
    */
@@ -467,6 +538,13 @@ export class MeshEntity
       cloned.meshAssetRef = { ...this.meshAssetRef };
     }
 
+    if (this.skin) {
+      cloned.skin = {
+        joints: [...this.skin.joints],
+        inverseBindMatrices: [...this.skin.inverseBindMatrices],
+      };
+    }
+
     return cloned;
   }
 
@@ -524,6 +602,7 @@ export class MeshEntity
       metadata: {
         renderMode: this.renderMode,
         meshAssetRef: this.meshAssetRef,
+        ...(this.skin ? { skin: this.skin } : {}),
       },
     };
   }
@@ -580,6 +659,11 @@ export class MeshEntity
     if (data.metadata?.renderMode) {
       this.renderMode = data.metadata.renderMode as RenderMode;
     }
+
+    // Restore skin binding from metadata
+    if (data.metadata?.skin) {
+      this.skin = data.metadata.skin as IMeshSkin;
+    }
   }
 }
 
@@ -0,0 +1,482 @@
+/**
+ * ParametricPrimitive - Base class for primitives generated from parameters
+ *
+ * Shared entity, serialization and editing behaviour for the Plane,
+ * Cylinder, Cone, Torus and Capsule primitives. Subclasses describe their
+ * generation parameters and build geometry from them; this class caches the
+ * geometry, keeps the mesh component counts in sync and rebuilds when a
+ * parameter is edited.
+ *
+ * Parameters are edited through IPropertyEditable as 'geometry.<name>'
+ * (e.g. 'geometry.segments'), so changes go through PropertyChangeHandler
+ * and are undoable. Each rebuild produces new IMeshData, which tells
+ * MeshGPUCache to re-upload the buffers.
+ *
+ * Parameters are serialized in the entity metadata, like Sphere's.
+ *
+ * @example
+ * ```typescript
+ * const cylinder = new Cylinder(undefined, 'Pillar', { height: 3 });
+ * cylinder.setProperty('geometry.segments', 8);
+ * cylinder.getMeshData(); // rebuilt with 8 segments
+ * ```
+ */
+
+import type {
+  IRenderable,
+  Transform,
+  IComponent,
+  IEntity,
+  IMeshComponent,
+  IMaterialComponent,
+  IMeshData,
+  IEdgeData,
+  IMeshProvider,
+  ICloneable,
+  IPropertyEditable,
+} from '@core/interfaces';
+import { createDefaultTransform, cloneEntityBase, getObjectWorldMatrix } from '@core/interfaces';
+import type { ISerializable } from '@core/assets/interfaces/ISerializable';
+import type {
+  ISerializedEntity,
+  ISerializedTransform,
+  ISerializedComponent,
+  SerializedEntityType,
+} from '@core/assets/interfaces/ISceneAsset';
+import { EntityIdGenerator } from '@utils/EntityIdGenerator';
+import { generateUUID } from '@utils/uuid';
+import {
+  mat4Multiply,
+  mat4Translation,
+  mat4RotationX,
+  mat4RotationY,
+  mat4RotationZ,
+  mat4Scale,
+  degToRad,
+  normalMatrix,
+} from '@utils/math';
+import type { Mat3 } from '@utils/math';
+import type { RenderMode } from './Sphere';
+import type { PrimitiveGeometry } from './MeshBuilder';
+
+/**
+ * Property path prefix for generation parameters.
+ */
+export const GEOMETRY_PROPERTY_PREFIX = 'geometry.';
+
+/**
+ * Generation parameter values by name.
+ */
+export type PrimitiveParameters = Record<string, number>;
+
+/**
+ * Describes one generation parameter, for validation and editing UI.
+ */
+export interface PrimitiveParameterDefinition {
+  /** Parameter name (key in the parameters object) */
+  name: string;
+  /** Display label */
+  label: string;
+  /** Smallest allowed value */
+  min: number;
+  /** Largest allowed value */
+  max: number;
+  /** Editor drag step */
+  step: number;
+  /** Whether the value is a whole number (segment counts) */
+  integer?: boolean;
+}
+
+/**
+ * Clamp parameter values to their definitions, rounding whole-number ones.
+ * Unknown and non-finite values are dropped.
+ *
+ * @param definitions - Parameter definitions
+ * @param values - Values to sanitize
+ * @returns Sanitized values for the defined parameters present in values
+ */
+export function sanitizePrimitiveParameters(
+  definitions: readonly PrimitiveParameterDefinition[],
+  values: Partial<PrimitiveParameters>
+): PrimitiveParameters {
+  const result: PrimitiveParameters = {};
+  for (const definition of definitions) {
+    const value = values[definition.name];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    const rounded = definition.integer ? Math.round(value) : value;
+    result[definition.name] = Math.min(definition.max, Math.max(definition.min, rounded));
+  }
+  return result;
+}
+
+/**
+ * Base class for primitives whose geometry is generated from parameters.
+ */
+export abstract class ParametricPrimitive<P extends PrimitiveParameters>
+  implements IRenderable, IEntity, IMeshProvider, ICloneable, IPropertyEditable, ISerializable<ISerializedEntity>
+{
+  readonly id: string;
+  readonly entityId: number;
+  name: string;
+  parent: IRenderable | null = null;
+  children: IRenderable[] = [];
+  transform: Transform;
+
+  private readonly components: Map<string, IComponent> = new Map();
+
+  private parameters: P;
+  private geometry: PrimitiveGeometry;
+
+  // Render mode
+  private renderMode: RenderMode = 'solid';
+
+  /**
+   * @param id - Unique identifier (defaults to random UUID)
+   * @param name - Display name
+   * @param defaults - Default generation parameters
+   * @param options - Parameters overriding the defaults
+   */
+  protected constructor(id: string | undefined, name: string, defaults: P, options?: Partial<P>) {
+    this.id = id ?? generateUUID();
+    this.entityId = EntityIdGenerator.next();
+    this.name = name;
+    this.transform = createDefaultTransform();
+
+    this.parameters = { ...defaults, ...sanitizePrimitiveParameters(this.getParameterDefinitions(), options ?? {}) };
+    this.geometry = this.buildGeometry(this.parameters);
+
+    this.initializeComponents();
+  }
+
+  /**
+   * Serialized entity type of this primitive.
+   */
+  abstract readonly entityType: SerializedEntityType;
+
+  /**
+   * Describe the generation parameters, in display order.
+   */
+  abstract getParameterDefinitions(): readonly PrimitiveParameterDefinition[];
+
+  /**
+   * Generate geometry for a set of parameters.
+   */
+  protected abstract buildGeometry(parameters: Readonly<P>): PrimitiveGeometry;
+
+  /**
+   * Create an instance of the same type with the given parameters,
+   * used by clone().
+   */
+  protected abstract createInstance(name: string, parameters: P): ParametricPrimitive<P>;
+
+  // =========================================
+  // Parameters
+  // =========================================
+
+  /**
+   * Get the current generation parameters.
+   */
+  getParameters(): Readonly<P> {
+    return this.parameters;
+  }
+
+  /**
+   * Change generation parameters and rebuild the geometry.
+   * Values are clamped to the parameter definitions; unknown names are ignored.
+   *
+   * @returns True if any parameter changed
+   */
+  setParameters(values: Partial<P>): boolean {
+    const sanitized = sanitizePrimitiveParameters(this.getParameterDefinitions(), values);
+    const changed = Object.keys(sanitized).some((name) => sanitized[name] !== this.parameters[name]);
+    if (!changed) return false;
+
+    this.parameters = { ...this.parameters, ...sanitized };
+    this.geometry = this.buildGeometry(this.parameters);
+    this.updateMeshComponent();
+    return true;
+  }
+
+  // =========================================
+  // IPropertyEditable Implementation
+  // =========================================
+
+  setProperty(path: string, value: unknown): boolean {
+    const name = this.getParameterName(path);
+    if (!name || typeof value !== 'number') return false;
+
+    this.setParameters({ [name]: value } as Partial<P>);
+    return true;
+  }
+
+  getProperty(path: string): unknown {
+    const name = this.getParameterName(path);
+    return name ? this.parameters[name] : undefined;
+  }
+
+  // =========================================
+  // IMeshProvider Implementation
+  // =========================================
+
+  /**
+   * Get the mesh data for solid rendering.
+   * Returns cached geometry - rebuilt only when parameters change.
+   */
+  getMeshData(): IMeshData {
+    return this.geometry.meshData;
+  }
+
+  /**
+   * Get edge data for wireframe rendering.
+   */
+  getEdgeData(): IEdgeData {
+    return this.geometry.edgeData;
+  }
+
+  // =========================================
+  // IRenderable Implementation (legacy)
+  // =========================================
+
+  /**
+   * Legacy render method - rendering is handled by the render pipelines.
+   * @deprecated Pipelines read getMeshData() instead
+   */
+  render(_gl: WebGL2RenderingContext, _viewProjection: Float32Array): void {
+    // No-op: Rendering is handled by the pipelines using getMeshData()
+  }
+
+  // =========================================
+  // IEntity Implementation
+  // =========================================
+
+  getComponents(): IComponent[] {
+    return Array.from(this.components.values());
+  }
+
+  getComponent<T extends IComponent>(type: string): T | null {
+    const component = this.components.get(type);
+    return component ? (component as T) : null;
+  }
+
+  hasComponent(type: string): boolean {
+    return this.components.has(type);
+  }
+
+  // =========================================
+  // Render Mode
+  // =========================================
+
+  getRenderMode(): RenderMode {
+    return this.renderMode;
+  }
+
+  setRenderMode(mode: RenderMode): void {
+    this.renderMode = mode;
+  }
+
+  // =========================================
+  // Transform
+  // =========================================
+
+  /**
+   * Compute the world model matrix from the transform and parent hierarchy.
+   */
+  getModelMatrix(): Float32Array {
+    const { position, rotation, scale } = this.transform;
+
+    // Build model matrix: Translation × RotationZ × RotationY × RotationX × Scale
+    const t = mat4Translation(position[0], position[1], position[2]);
+    const rx = mat4RotationX(degToRad(rotation[0]));
+    const ry = mat4RotationY(degToRad(rotation[1]));
+    const rz = mat4RotationZ(degToRad(rotation[2]));
+    const s = mat4Scale(scale[0], scale[1], scale[2]);
+
+    // Combine: T × Rz × Ry × Rx × S
+    let model = mat4Multiply(t, rz);
+    model = mat4Multiply(model, ry);
+    model = mat4Multiply(model, rx);
+    model = mat4Multiply(model, s);
+
+    // Children follow their parent's world transform
+    if (this.parent && this.parent.id !== 'root') {
+      return mat4Multiply(getObjectWorldMatrix(this.parent), model);
+    }
+
+    return model;
+  }
+
+  /**
+   * Get the normal matrix for lighting calculations.
+   */
+  getNormalMatrix(): Mat3 {
+    return normalMatrix(this.getModelMatrix());
+  }
+
+  // =========================================
+  // ICloneable Implementation
+  // =========================================
+
+  /**
+   * Create a deep copy of this primitive, including its parameters.
+   */
+  clone(): ParametricPrimitive<P> {
+    const cloned = this.createInstance(this.name, { ...this.parameters });
+    cloneEntityBase(this, cloned);
+    cloned.setRenderMode(this.renderMode);
+    return cloned;
+  }
+
+  // =========================================
+  // ISerializable Implementation
+  // =========================================
+
+  /**
+   * Serialize this primitive to a JSON-compatible structure.
+   * Generation parameters are stored in the metadata.
+   *
+   * @returns The serialized entity data
+   */
+  toJSON(): ISerializedEntity {
+    const transform: ISerializedTransform = {
+      position: [...this.transform.position],
+      rotation: [...this.transform.rotation],
+      scale: [...this.transform.scale],
+    };
+
+    const components: ISerializedComponent[] = [];
+
+    const meshComponent = this.getComponent<IMeshComponent>('mesh');
+    if (meshComponent) {
+      components.push({
+        type: 'mesh',
+        vertexCount: meshComponent.vertexCount,
+        edgeCount: meshComponent.edgeCount,
+        triangleCount: meshComponent.triangleCount,
+        doubleSided: meshComponent.doubleSided,
+      });
+    }
+
+    const materialComponent = this.getComponent<IMaterialComponent>('material');
+    if (materialComponent) {
+      components.push({
+        type: 'material',
+        shaderName: materialComponent.shaderName,
+        color: materialComponent.color ? [...materialComponent.color] : [0.8, 0.8, 0.8],
+        opacity: materialComponent.opacity,
+        transparent: materialComponent.transparent,
+        materialAssetRef: materialComponent.materialAssetRef,
+      });
+    }
+
+    return {
+      uuid: this.id,
+      name: this.name,
+      type: this.entityType,
+      parentUuid: this.parent?.id,
+      transform,
+      components,
+      metadata: {
+        renderMode: this.renderMode,
+        ...this.parameters,
+      },
+    };
+  }
+
+  /**
+   * Deserialize data from JSON into this primitive.
+   * This method mutates the current instance, including its parameters.
+   *
+   * @param data - The serialized entity data to load
+   */
+  fromJSON(data: ISerializedEntity): void {
+    this.name = data.name;
+
+    if (data.transform) {
+      this.transform.position = [...data.transform.position];
+      this.transform.rotation = [...data.transform.rotation];
+      this.transform.scale = [...data.transform.scale];
+    }
+
+    const materialData = data.components.find((c) => c.type === 'material');
+    if (materialData) {
+      const materialComponent = this.getComponent<IMaterialComponent>('material');
+      if (materialComponent) {
+        if (materialData.shaderName !== undefined) {
+          materialComponent.shaderName = materialData.shaderName as string;
+        }
+        if (materialData.color !== undefined) {
+          materialComponent.color = [...(materialData.color as [number, number, number])];
+        }
+        if (materialData.opacity !== undefined) {
+          materialComponent.opacity = materialData.opacity as number;
+        }
+        if (materialData.transparent !== undefined) {
+          materialComponent.transparent = materialData.transparent as boolean;
+        }
+        if (materialData.materialAssetRef !== undefined) {
+          materialComponent.materialAssetRef = materialData.materialAssetRef as IMaterialComponent['materialAssetRef'];
+        }
+      }
+    }
+
+    if (data.metadata) {
+      this.setParameters(data.metadata as Partial<P>);
+
+      if (data.metadata.renderMode) {
+        this.renderMode = data.metadata.renderMode as RenderMode;
+      }
+    }
+  }
+
+  // =========================================
+  // Internal
+  // =========================================
+
+  /**
+   * Get the parameter name for a 'geometry.<name>' property path.
+   */
+  private getParameterName(path: string): string | null {
+    if (!path.startsWith(GEOMETRY_PROPERTY_PREFIX)) return null;
+
+    const name = path.slice(GEOMETRY_PROPERTY_PREFIX.length);
+    return this.getParameterDefinitions().some((definition) => definition.name === name) ? name : null;
+  }
+
+  /**
+   * Initialize default components for the primitive.
+   */
+  private initializeComponents(): void {
+    const meshComponent: IMeshComponent = {
+      type: 'mesh',
+      vertexCount: 0,
+      edgeCount: 0,
+      triangleCount: 0,
+      doubleSided: false,
+    };
+    this.components.set('mesh', meshComponent);
+    this.updateMeshComponent();
+
+    const materialComponent: IMaterialComponent = {
+      type: 'material',
+      shaderName: 'lambert',
+      color: [0.8, 0.8, 0.8], // Default gray
+      opacity: 1,
+      transparent: false,
+    };
+    this.components.set('material', materialComponent);
+  }
+
+  /**
+   * Update the mesh component counts from the current geometry.
+   */
+  private updateMeshComponent(): void {
+    const meshComponent = this.getComponent<IMeshComponent>('mesh');
+    if (!meshComponent) return;
+
+    const { meshData, edgeData } = this.geometry;
+    meshComponent.vertexCount = meshData.positions.length / 3;
+    meshComponent.triangleCount = meshData.indices.length / 3;
+    meshComponent.edgeCount = edgeData.lineCount;
+  }
+}
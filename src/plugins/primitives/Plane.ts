@@ -0,0 +1,135 @@
+/**
+ * Plane Primitive
+ *
+ * A subdivided rectangle on the XY plane (Z-up), centered at the origin and
+ * facing +Z. Provides geometry data for renderers - does NOT manage GPU
+ * resources.
+ */
+
+import type { IPrimitiveFactory } from './interfaces/IPrimitiveFactory';
+import { ParametricPrimitive } from './ParametricPrimitive';
+import type { PrimitiveParameterDefinition } from './ParametricPrimitive';
+import { MeshBuilder } from './MeshBuilder';
+import type { PrimitiveGeometry } from './MeshBuilder';
+
+/**
+ * Generation parameters for a plane.
+ */
+export type PlaneParameters = {
+  /** Size along X. Default: 1 */
+  width: number;
+  /** Size along Y. Default: 1 */
+  length: number;
+  /** Subdivisions along X. Default: 1 */
+  widthSegments: number;
+  /** Subdivisions along Y. Default: 1 */
+  lengthSegments: number;
+};
+
+/**
+ * Configuration options for plane generation.
+ */
+export type PlaneOptions = Partial<PlaneParameters>;
+
+const DEFAULT_PARAMETERS: PlaneParameters = {
+  width: 1,
+  length: 1,
+  widthSegments: 1,
+  lengthSegments: 1,
+};
+
+const PARAMETER_DEFINITIONS: readonly PrimitiveParameterDefinition[] = [
+  { name: 'width', label: 'Width', min: 0.001, max: 10000, step: 0.1 },
+  { name: 'length', label: 'Length', min: 0.001, max: 10000, step: 0.1 },
+  { name: 'widthSegments', label: 'Width Segments', min: 1, max: 256, step: 1, integer: true },
+  { name: 'lengthSegments', label: 'Length Segments', min: 1, max: 256, step: 1, integer: true },
+];
+
+/**
+ * A flat, subdivided plane primitive.
+ */
+export class Plane extends ParametricPrimitive<PlaneParameters> {
+  readonly entityType = 'Plane' as const;
+
+  /**
+   * Create a new Plane.
+   *
+   * @param id - Unique identifier (defaults to random UUID)
+   * @param name - Display name (defaults to 'Plane')
+   * @param options - Plane generation options
+   */
+  constructor(id?: string, name?: string, options?: PlaneOptions) {
+    super(id, name ?? 'Plane', DEFAULT_PARAMETERS, options);
+  }
+
+  getParameterDefinitions(): readonly PrimitiveParameterDefinition[] {
+    return PARAMETER_DEFINITIONS;
+  }
+
+  protected createInstance(name: string, parameters: PlaneParameters): Plane {
+    return new Plane(undefined, name, parameters);
+  }
+
+  /**
+   * Build a (widthSegments + 1) × (lengthSegments + 1) vertex grid.
+   * Wireframe shows every grid line.
+   */
+  protected buildGeometry(parameters: Readonly<PlaneParameters>): PrimitiveGeometry {
+    const { width, length, widthSegments, lengthSegments } = parameters;
+    const builder = new MeshBuilder();
+    const halfWidth = width / 2;
+    const halfLength = length / 2;
+
+    for (let j = 0; j <= lengthSegments; j++) {
+      const v = j / lengthSegments;
+      for (let i = 0; i <= widthSegments; i++) {
+        const u = i / widthSegments;
+        builder.addVertex([(u - 0.5) * width, (v - 0.5) * length, 0], [0, 0, 1], [u, v]);
+      }
+    }
+
+    // Counter-clockwise seen from +Z
+    const rowSize = widthSegments + 1;
+    for (let j = 0; j < lengthSegments; j++) {
+      for (let i = 0; i < widthSegments; i++) {
+        const a = j * rowSize + i;
+        const b = a + 1;
+        const c = b + rowSize;
+        const d = a + rowSize;
+        builder.addTriangle(a, b, c);
+        builder.addTriangle(a, c, d);
+      }
+    }
+
+    for (let i = 0; i <= widthSegments; i++) {
+      const x = (i / widthSegments - 0.5) * width;
+      builder.addEdge([x, -halfLength, 0], [x, halfLength, 0]);
+    }
+    for (let j = 0; j <= lengthSegments; j++) {
+      const y = (j / lengthSegments - 0.5) * length;
+      builder.addEdge([-halfWidth, y, 0], [halfWidth, y, 0]);
+    }
+
+    return builder.build();
+  }
+}
+
+/**
+ * Factory for creating Plane primitives.
+ * Implements IPrimitiveFactory for registration with PrimitiveRegistry.
+ */
+export class PlaneFactory implements IPrimitiveFactory {
+  readonly type = 'Plane';
+  readonly category = 'Mesh' as const;
+  readonly icon = 'plane';
+
+  /**
+   * Create a new Plane instance.
+   *
+   * @param name - Optional name for the plane
+   * @returns A new Plane instance
+   */
+  create(name?: string): Plane {
+    return new Plane(undefined, name);
+  }
+}
@@ -20,7 +20,7 @@ import type {
   IMeshProvider,
   ICloneable,
 } from '@core/interfaces';
-import { createDefaultTransform, cloneEntityBase } from '@core/interfaces';
+import { createDefaultTransform, cloneEntityBase, getObjectWorldMatrix } from '@core/interfaces';
 import type { IPrimitiveFactory } from './interfaces/IPrimitiveFactory';
 import type { ISerializable } from '@core/assets/interfaces/ISerializable';
 import type {
@@ -183,7 +183,7 @@ export class Sphere implements IRenderable, IEntity, IMeshProvider, ICloneable,
   // =========================================
 
   /**
-   * Compute the model matrix from the transform.
+   * Compute the world model matrix from the transform and parent hierarchy.
    */
   getModelMatrix(): Float32Array {
     const { position, rotation, scale } = this.transform;
@@ -201,6 +201,11 @@ export class Sphere implements IRenderable, IEntity, IMeshProvider, ICloneable,
     model = mat4Multiply(model, rx);
     model = mat4Multiply(model, s);
 
+    // Children follow their parent's world transform
+    if (this.parent && this.parent.id !== 'root') {
+      return mat4Multiply(getObjectWorldMatrix(this.parent), model);
+    }
+
     return model;
   }
 
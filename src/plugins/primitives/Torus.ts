@@ -0,0 +1,118 @@
+/**
+ * Torus Primitive
+ *
+ * A ring torus lying in the XY plane (Z-up), centered at the origin.
+ * Provides geometry data for renderers - does NOT manage GPU resources.
+ */
+
+import type { IPrimitiveFactory } from './interfaces/IPrimitiveFactory';
+import { ParametricPrimitive } from './ParametricPrimitive';
+import type { PrimitiveParameterDefinition } from './ParametricPrimitive';
+import { MeshBuilder } from './MeshBuilder';
+import type { LatheProfilePoint, PrimitiveGeometry } from './MeshBuilder';
+
+/**
+ * Generation parameters for a torus.
+ */
+export type TorusParameters = {
+  /** Distance from the center to the middle of the tube. Default: 0.375 */
+  radius: number;
+  /** Radius of the tube. Default: 0.125 */
+  tubeRadius: number;
+  /** Subdivisions around the ring. Default: 32 */
+  radialSegments: number;
+  /** Subdivisions around the tube. Default: 16 */
+  tubularSegments: number;
+};
+
+/**
+ * Configuration options for torus generation.
+ */
+export type TorusOptions = Partial<TorusParameters>;
+
+const DEFAULT_PARAMETERS: TorusParameters = {
+  radius: 0.375,
+  tubeRadius: 0.125,
+  radialSegments: 32,
+  tubularSegments: 16,
+};
+
+const PARAMETER_DEFINITIONS: readonly PrimitiveParameterDefinition[] = [
+  { name: 'radius', label: 'Radius', min: 0.001, max: 10000, step: 0.05 },
+  { name: 'tubeRadius', label: 'Tube Radius', min: 0.001, max: 10000, step: 0.05 },
+  { name: 'radialSegments', label: 'Radial Segments', min: 3, max: 256, step: 1, integer: true },
+  { name: 'tubularSegments', label: 'Tubular Segments', min: 3, max: 256, step: 1, integer: true },
+];
+
+/**
+ * A torus primitive.
+ */
+export class Torus extends ParametricPrimitive<TorusParameters> {
+  readonly entityType = 'Torus' as const;
+
+  /**
+   * Create a new Torus.
+   *
+   * @param id - Unique identifier (defaults to random UUID)
+   * @param name - Display name (defaults to 'Torus')
+   * @param options - Torus generation options
+   */
+  constructor(id?: string, name?: string, options?: TorusOptions) {
+    super(id, name ?? 'Torus', DEFAULT_PARAMETERS, options);
+  }
+
+  getParameterDefinitions(): readonly PrimitiveParameterDefinition[] {
+    return PARAMETER_DEFINITIONS;
+  }
+
+  protected createInstance(name: string, parameters: TorusParameters): Torus {
+    return new Torus(undefined, name, parameters);
+  }
+
+  /**
+   * Build the torus by sweeping the tube's cross-section circle around Z.
+   * The profile starts on the inside of the ring, so the V seam is hidden there.
+   */
+  protected buildGeometry(parameters: Readonly<TorusParameters>): PrimitiveGeometry {
+    const { radius, tubeRadius, radialSegments, tubularSegments } = parameters;
+    const builder = new MeshBuilder();
+
+    const profile: LatheProfilePoint[] = [];
+    for (let i = 0; i <= tubularSegments; i++) {
+      const phi = Math.PI + (i / tubularSegments) * Math.PI * 2;
+      const cos = Math.cos(phi);
+      const sin = Math.sin(phi);
+      profile.push({
+        r: radius + tubeRadius * cos,
+        z: tubeRadius * sin,
+        nr: cos,
+        nz: sin,
+        edge: i < tubularSegments,
+      });
+    }
+
+    builder.addLathe(profile, radialSegments);
+
+    return builder.build();
+  }
+}
+
+/**
+ * Factory for creating Torus primitives.
+ * Implements IPrimitiveFactory for registration with PrimitiveRegistry.
+ */
+export class TorusFactory implements IPrimitiveFactory {
+  readonly type = 'Torus';
+  readonly category = 'Mesh' as const;
+  readonly icon = 'torus';
+
+  /**
+   * Create a new Torus instance.
+   *
+   * @param name - Optional name for the torus
+   * @returns A new Torus instance
+   */
+  create(name?: string): Torus {
+    return new Torus(undefined, name);
+  }
+}
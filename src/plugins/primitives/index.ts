@@ -5,6 +5,24 @@
 export { Cube, CubeFactory } from './Cube';
 export { Sphere, SphereFactory } from './Sphere';
 export type { SphereOptions } from './Sphere';
+export { Plane, PlaneFactory } from './Plane';
+export type { PlaneOptions, PlaneParameters } from './Plane';
+export { Cylinder, CylinderFactory } from './Cylinder';
+export type { CylinderOptions, CylinderParameters } from './Cylinder';
+export { Cone, ConeFactory } from './Cone';
+export type { ConeOptions, ConeParameters } from './Cone';
+export { Torus, TorusFactory } from './Torus';
+export type { TorusOptions, TorusParameters } from './Torus';
+export { Capsule, CapsuleFactory } from './Capsule';
+export type { CapsuleOptions, CapsuleParameters } from './Capsule';
+export {
+  ParametricPrimitive,
+  sanitizePrimitiveParameters,
+  GEOMETRY_PROPERTY_PREFIX,
+} from './ParametricPrimitive';
+export type { PrimitiveParameters, PrimitiveParameterDefinition } from './ParametricPrimitive';
+export { MeshBuilder } from './MeshBuilder';
+export type { PrimitiveGeometry, LatheProfilePoint } from './MeshBuilder';
 export {
   MeshEntity,
   isMeshEntity,
@@ -13,6 +31,7 @@ export {
 } from './MeshEntity';
 export type {
   MeshAssetResolver,
+  IMeshSkin,
   ISerializedMeshEntityComponent,
 } from './MeshEntity';
 export { GroupEntity, isGroupEntity } from './GroupEntity';
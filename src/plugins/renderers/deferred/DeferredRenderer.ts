@@ -0,0 +1,920 @@
+/**
+ * Deferred Renderer Plugin
+ *
+ * A deferred render pipeline that separates geometry from lighting:
+ *
+ * 1. Shadow maps are rendered by ShadowMapPass (as in the forward pipeline).
+ * 2. Geometry pass - meshes with lit built-in materials (PBR, Lambert) write
+ *    albedo, normal, metallic/roughness, emission and depth to the G-buffer
+ *    in a single draw each using multiple render targets.
+ * 3. Lighting pass - fullscreen draws shade the G-buffer in batches of
+ *    LIGHT_BATCH_SIZE lights, added together in an HDR light buffer, so the
+ *    light count is not limited by shader uniform arrays.
+ * 4. Composite pass - tone maps the light buffer to the screen (or the
+ *    render target) and copies G-buffer depth so later overlays depth-test
+ *    against the scene.
+ * 5. Forward pass - objects the G-buffer cannot describe (unlit and custom
+ *    shaders) are drawn on top with the regular forward path, lit by the
+ *    first batch of lights.
+ *
+ * Lambert materials are shaded as fully rough PBR dielectrics. Shadows are
+ * available for the first MAX_LIGHTS lights, matching the forward pipeline.
+ * The scene's HDRI environment map lights the G-buffer in the first lighting
+ * batch, and cameras that clear to the skybox draw it before the composite
+ * pass, which then keeps it behind empty pixels.
+ * When float render targets are available, the composite and forward passes
+ * write linear HDR into the PostProcessStack's scene target, which is then
+ * resolved to the output with the post-processing effects of the renderer
+ * settings.
+ *
+ * Implements IRenderPipeline for the plugin system.
+ */
+
+import type {
+  IRenderPipeline,
+  IPluginContext,
+  ICamera,
+  IScene,
+  IRenderable,
+  IMaterialComponent,
+  IMeshData,
+  IRenderTarget,
+} from '@core/interfaces';
+import { isMeshProvider } from '@core/interfaces';
+import type { LightManager, LightData } from '@core/LightManager';
+import { MAX_LIGHTS } from '@core/LightManager';
+import type { SceneEnvironment } from '@core/SceneEnvironment';
+import type { SettingsService, RendererSettings } from '@core/SettingsService';
+import type { ShaderEditorService } from '@core/ShaderEditorService';
+import type { EventBus } from '@core/EventBus';
+import type { AssetRegistry, AssetUnregisteredEvent } from '@core/assets/AssetRegistry';
+import { isTextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import { BUILT_IN_SHADER_IDS, BUILT_IN_PBR_SHADER } from '@core/assets/BuiltInShaders';
+import {
+  mat4Inverse,
+  mat4Multiply,
+  mat4Translation,
+  mat4RotationX,
+  mat4RotationY,
+  mat4RotationZ,
+  mat4Scale,
+  degToRad,
+  normalMatrix,
+} from '@utils/math';
+import { MeshGPUCache } from '../shared/MeshGPUCache';
+import { TextureGPUCache } from '../shared/TextureGPUCache';
+import type { TextureSourceLoader } from '../shared/TextureGPUCache';
+import { LightUniformPacker, getShadableLights } from '../shared/LightUniformPacker';
+import { clearForCamera, getCameraBackground } from '../shared/CameraClear';
+import { ShaderResolver } from '../forward/ShaderResolver';
+import { UniformSetter, SHADOW_MAP_TEXTURE_UNIT } from '../forward/UniformSetter';
+import type { ShadowUniforms, EnvironmentUniforms } from '../forward/UniformSetter';
+import { ShadowMapPass } from '../forward/ShadowMapPass';
+import type { ShadowDrawItem } from '../forward/ShadowMapPass';
+import { EnvironmentMapCache } from '../environment/EnvironmentMapCache';
+import { SkyboxPass } from '../environment/SkyboxPass';
+import { PostProcessStack } from '../postprocess/PostProcessStack';
+import type { PostProcessBackground } from '../postprocess/PostProcessStack';
+import { PBR_VERTEX_SHADER } from '../shaders/pbr';
+import {
+  FULLSCREEN_VERTEX_SHADER,
+  GBUFFER_FRAGMENT_SHADER,
+  DEFERRED_LIGHTING_FRAGMENT_SHADER,
+  DEFERRED_COMPOSITE_FRAGMENT_SHADER,
+} from '../shaders/deferred';
+import { GBuffer } from './GBuffer';
+
+/**
+ * Lights shaded per lighting draw (keep in sync with deferredLighting.frag.glsl).
+ * Equal to MAX_LIGHTS so the first batch lines up with the shadow map uniforms.
+ */
+export const LIGHT_BATCH_SIZE = MAX_LIGHTS;
+
+/**
+ * Built-in shaders whose materials are written to the G-buffer.
+ */
+const GBUFFER_SHADER_IDS: ReadonlySet<string> = new Set([
+  BUILT_IN_SHADER_IDS.PBR,
+  BUILT_IN_SHADER_IDS.LAMBERT,
+]);
+
+/**
+ * Texture units for the G-buffer samplers in the lighting and composite passes.
+ */
+const GBUFFER_TEXTURE_UNITS = {
+  albedo: 0,
+  normal: 1,
+  material: 2,
+  emission: 3,
+  depth: 4,
+  lightBuffer: 5,
+} as const;
+
+const GEOMETRY_UNIFORMS = ['uModelMatrix', 'uViewProjectionMatrix', 'uNormalMatrix', 'uSkinned', 'uJointMatrices'];
+
+const LIGHTING_UNIFORMS = [
+  'uGAlbedo', 'uGNormal', 'uGMaterial', 'uGEmission', 'uGDepth',
+  'uInverseViewProjection', 'uCameraPosition',
+  'uLightDirections', 'uLightColors', 'uLightPositions', 'uLightTypes',
+  'uLightRanges', 'uLightSpotCones', 'uLightShadows', 'uLightShadowBias',
+  'uLightCount', 'uApplyAmbient', 'uAmbientColor',
+  'uShadowMaps', 'uShadowMatrices',
+  'uIrradianceMap', 'uPrefilteredMap', 'uBrdfLut', 'uPrefilteredMaxLod',
+  'uEnvironmentIntensity', 'uUseEnvironment',
+];
+
+const COMPOSITE_UNIFORMS = ['uLightBuffer', 'uGDepth', 'uBackgroundColor', 'uKeepBackground', 'uHDROutput'];
+
+type UniformLocations = Map<string, WebGLUniformLocation | null>;
+
+/**
+ * A mesh drawn into the G-buffer.
+ */
+interface GeometryDrawItem {
+  readonly renderable: IRenderable;
+  readonly meshData: IMeshData;
+  readonly shaderUUID: string;
+  readonly material: IMaterialComponent | null;
+  readonly jointMatrices: Float32Array | null;
+}
+
+/**
+ * Deferred Renderer - G-buffer render pipeline with batched lighting.
+ */
+export class DeferredRenderer implements IRenderPipeline {
+  readonly id = 'deferred-renderer';
+  readonly name = 'Deferred Renderer';
+  readonly version = '1.0.0';
+  readonly type = 'deferred' as const;
+
+  private gl: WebGL2RenderingContext | null = null;
+  private currentCamera: ICamera | null = null;
+  private lightManager: LightManager | null = null;
+  private sceneEnvironment: SceneEnvironment | null = null;
+  private settingsService: SettingsService | null = null;
+  private shaderEditorService: ShaderEditorService | null = null;
+  private meshGPUCache: MeshGPUCache | null = null;
+  private textureGPUCache: TextureGPUCache | null = null;
+  private environmentMapCache: EnvironmentMapCache | null = null;
+  private assetRegistry: AssetRegistry | null = null;
+  private eventBus: EventBus | null = null;
+  private shaderResolver: ShaderResolver | null = null;
+  private uniformSetter: UniformSetter | null = null;
+  private shadowMapPass: ShadowMapPass | null = null;
+  private skyboxPass: SkyboxPass | null = null;
+  private postProcessStack: PostProcessStack | null = null;
+  /** G-buffer for the current output: viewportGBuffer, or offscreenGBuffer while a render target is set */
+  private gBuffer: GBuffer | null = null;
+  private viewportGBuffer: GBuffer | null = null;
+  /** Kept separate so offscreen renders (camera previews) do not reallocate the viewport's targets */
+  private offscreenGBuffer: GBuffer | null = null;
+  private renderTarget: IRenderTarget | null = null;
+  private initialized = false;
+
+  private geometryProgram: WebGLProgram | null = null;
+  private lightingProgram: WebGLProgram | null = null;
+  private compositeProgram: WebGLProgram | null = null;
+  private geometryLocations: UniformLocations = new Map();
+  private lightingLocations: UniformLocations = new Map();
+  private compositeLocations: UniformLocations = new Map();
+  private fullscreenVAO: WebGLVertexArrayObject | null = null;
+
+  private currentShaderUUID: string | null = null;
+
+  private readonly lightPacker = new LightUniformPacker(LIGHT_BATCH_SIZE);
+  private readonly emptyLightShadows = new Float32Array(LIGHT_BATCH_SIZE * 3);
+  private readonly emptyLightShadowBias = new Float32Array(LIGHT_BATCH_SIZE * 2);
+  private cachedLights: LightData[] = [];
+  private cachedShadowUniforms: ShadowUniforms | null = null;
+  private cachedEnvironment: EnvironmentUniforms = { maps: null, intensity: 1 };
+  private skyboxDrawn = false;
+  private postProcessSettings: RendererSettings | null = null;
+  private cachedAmbientColor: [number, number, number] = [0.15, 0.15, 0.2];
+  private cachedCameraPosition: [number, number, number] = [0, 0, 0];
+  private cachedViewProjection: Float32Array | null = null;
+  private lastBatchCount = 0;
+
+  private defaultLightDirection: [number, number, number] = [-0.5, -1, -0.5];
+  private defaultLightColor: [number, number, number] = [1, 1, 1];
+  private defaultAmbientColor: [number, number, number] = [0.15, 0.15, 0.2];
+
+  async initialize(context: IPluginContext): Promise<void> {
+    this.gl = context.gl;
+    this.lightManager = context.lightManager ?? null;
+    this.sceneEnvironment = context.sceneEnvironment ?? null;
+    this.settingsService = context.settingsService ?? null;
+    this.shaderEditorService = context.shaderEditorService ?? null;
+
+    this.meshGPUCache = new MeshGPUCache(this.gl);
+    this.shadowMapPass = new ShadowMapPass(this.gl, this.meshGPUCache);
+    this.skyboxPass = new SkyboxPass(this.gl);
+    this.postProcessStack = new PostProcessStack(this.gl);
+    this.viewportGBuffer = new GBuffer(this.gl);
+    this.gBuffer = this.viewportGBuffer;
+    this.assetRegistry = context.assetRegistry ?? null;
+
+    const projectService = context.projectService;
+    const loadSource: TextureSourceLoader = async (asset) => {
+      if (!projectService || !asset.source.projectPath) return null;
+      return projectService.readSourceFile(asset.source.projectPath);
+    };
+    this.textureGPUCache = new TextureGPUCache({ gl: this.gl, loadSource });
+    this.environmentMapCache = new EnvironmentMapCache({ gl: this.gl, loadSource });
+    this.eventBus = context.eventBus;
+    this.eventBus.on<AssetUnregisteredEvent>('asset:unregistered', this.handleAssetUnregistered);
+
+    if (this.shaderEditorService) {
+      this.shaderResolver = new ShaderResolver({
+        shaderEditorService: this.shaderEditorService,
+        assetRegistry: context.assetRegistry ?? null,
+      });
+      this.uniformSetter = new UniformSetter({
+        gl: this.gl,
+        shaderEditorService: this.shaderEditorService,
+        assetRegistry: context.assetRegistry ?? null,
+        textureCache: this.textureGPUCache,
+        environmentCache: this.environmentMapCache,
+      });
+    }
+
+    this.geometryProgram = this.createProgram(PBR_VERTEX_SHADER, GBUFFER_FRAGMENT_SHADER);
+    this.geometryLocations = this.getUniformLocations(this.geometryProgram, [
+      ...GEOMETRY_UNIFORMS,
+      ...BUILT_IN_PBR_SHADER.uniforms.map((uniform) => uniform.name),
+    ]);
+
+    this.lightingProgram = this.createProgram(FULLSCREEN_VERTEX_SHADER, DEFERRED_LIGHTING_FRAGMENT_SHADER);
+    this.lightingLocations = this.getUniformLocations(this.lightingProgram, LIGHTING_UNIFORMS);
+
+    this.compositeProgram = this.createProgram(FULLSCREEN_VERTEX_SHADER, DEFERRED_COMPOSITE_FRAGMENT_SHADER);
+    this.compositeLocations = this.getUniformLocations(this.compositeProgram, COMPOSITE_UNIFORMS);
+
+    // Fullscreen passes generate vertices from gl_VertexID
+    this.fullscreenVAO = this.gl.createVertexArray();
+
+    this.initialized = true;
+    context.eventBus.emit('renderer:initialized', { id: this.id });
+  }
+
+  private handleAssetUnregistered = (event: AssetUnregisteredEvent): void => {
+    if (event.type === 'texture') {
+      this.textureGPUCache?.dispose(event.uuid);
+      this.environmentMapCache?.dispose(event.uuid);
+    }
+  };
+
+  async dispose(): Promise<void> {
+    const gl = this.gl;
+    if (gl) {
+      for (const program of [this.geometryProgram, this.lightingProgram, this.compositeProgram]) {
+        if (program) gl.deleteProgram(program);
+      }
+      if (this.fullscreenVAO) gl.deleteVertexArray(this.fullscreenVAO);
+    }
+    this.geometryProgram = null;
+    this.lightingProgram = null;
+    this.compositeProgram = null;
+    this.fullscreenVAO = null;
+
+    this.viewportGBuffer?.dispose();
+    this.offscreenGBuffer?.dispose();
+    this.gBuffer = null;
+    this.viewportGBuffer = null;
+    this.offscreenGBuffer = null;
+    this.shadowMapPass?.dispose();
+    this.shadowMapPass = null;
+    this.skyboxPass?.dispose();
+    this.skyboxPass = null;
+    this.postProcessStack?.dispose();
+    this.postProcessStack = null;
+    this.postProcessSettings = null;
+    this.settingsService = null;
+    this.cachedShadowUniforms = null;
+    this.meshGPUCache?.disposeAll();
+    this.meshGPUCache = null;
+    this.eventBus?.off('asset:unregistered', this.handleAssetUnregistered);
+    this.eventBus = null;
+    this.textureGPUCache?.disposeAll();
+    this.textureGPUCache = null;
+    this.environmentMapCache?.disposeAll();
+    this.environmentMapCache = null;
+    this.cachedEnvironment = { maps: null, intensity: 1 };
+    this.assetRegistry = null;
+    this.shaderResolver = null;
+    this.uniformSetter?.dispose();
+    this.uniformSetter = null;
+    this.gl = null;
+    this.initialized = false;
+  }
+
+  beginFrame(camera: ICamera): void {
+    if (!this.gl || !this.initialized) return;
+
+    this.currentCamera = camera;
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.renderTarget?.framebuffer ?? null);
+    if (this.renderTarget) {
+      this.gl.viewport(0, 0, this.renderTarget.width, this.renderTarget.height);
+    }
+
+    this.postProcessSettings = this.postProcessStack?.isSupported()
+      ? this.settingsService?.get('renderer') ?? null
+      : null;
+    if (this.postProcessSettings) {
+      this.postProcessStack?.beginScene(
+        this.renderTarget?.width ?? this.gl.drawingBufferWidth,
+        this.renderTarget?.height ?? this.gl.drawingBufferHeight,
+        this.renderTarget !== null,
+      );
+    }
+
+    this.gl.enable(this.gl.DEPTH_TEST);
+    this.gl.depthFunc(this.gl.LESS);
+    this.gl.enable(this.gl.CULL_FACE);
+    this.gl.cullFace(this.gl.BACK);
+    this.gl.frontFace(this.gl.CCW);
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
+    clearForCamera(this.gl, camera, this.sceneEnvironment?.get('backgroundColor'));
+
+    this.cachedEnvironment = this.resolveEnvironment();
+    this.skyboxDrawn = false;
+    if (camera.clearFlags === 'skybox' && this.cachedEnvironment.maps && this.skyboxPass) {
+      this.skyboxPass.render(
+        camera,
+        this.cachedEnvironment.maps,
+        this.cachedEnvironment.intensity,
+        this.postProcessSettings !== null,
+      );
+      this.skyboxDrawn = true;
+    }
+  }
+
+  render(scene: IScene): void {
+    if (!this.gl || !this.currentCamera || !this.initialized || !this.shaderEditorService || !this.gBuffer) {
+      return;
+    }
+
+    const gl = this.gl;
+    this.cachedViewProjection = this.currentCamera.getViewProjectionMatrix();
+    const cameraPos = this.currentCamera.position;
+    this.cachedCameraPosition = [cameraPos[0], cameraPos[1], cameraPos[2]];
+    this.cachedLights = getShadableLights(this.getLightsData());
+    this.cachedAmbientColor = this.getAmbientColor();
+
+    const renderables = scene.getRenderables() as IRenderable[];
+    this.renderShadowMaps(this.currentCamera, renderables);
+
+    const geometryItems: GeometryDrawItem[] = [];
+    const forwardItems: IRenderable[] = [];
+    this.partitionRenderables(renderables, geometryItems, forwardItems);
+
+    this.gBuffer.resize(
+      this.renderTarget?.width ?? gl.drawingBufferWidth,
+      this.renderTarget?.height ?? gl.drawingBufferHeight,
+    );
+    this.renderGeometryPass(gl, geometryItems);
+    this.renderLightingPass(gl);
+    this.renderCompositePass(gl);
+
+    this.currentShaderUUID = null;
+    this.lightPacker.pack(this.cachedLights, 0);
+    for (const renderable of forwardItems) {
+      this.renderForwardObject(gl, renderable);
+    }
+
+    if (this.postProcessSettings) {
+      this.postProcessStack?.resolve({
+        output: this.renderTarget?.framebuffer ?? null,
+        camera: this.currentCamera,
+        settings: this.postProcessSettings,
+        background: this.getPostProcessBackground(this.currentCamera),
+        linearOutput: this.renderTarget?.linear ?? false,
+      });
+    }
+  }
+
+  endFrame(): void {
+    this.currentCamera = null;
+  }
+
+  resize(width: number, height: number): void {
+    this.gl?.viewport(0, 0, width, height);
+  }
+
+  setRenderTarget(target: IRenderTarget | null): void {
+    this.renderTarget = target;
+
+    if (!this.gl || !this.initialized) return;
+    if (target) {
+      this.offscreenGBuffer ??= new GBuffer(this.gl);
+      this.gBuffer = this.offscreenGBuffer;
+    } else {
+      this.gBuffer = this.viewportGBuffer;
+    }
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Get the G-buffer for the current output (for debugging and tests).
+   */
+  getGBuffer(): GBuffer | null {
+    return this.gBuffer;
+  }
+
+  /**
+   * Get the number of lighting draws issued by the last render().
+   */
+  getLightBatchCount(): number {
+    return this.lastBatchCount;
+  }
+
+  /**
+   * Split renderables into G-buffer draws and objects that need the forward path.
+   */
+  private partitionRenderables(
+    renderables: IRenderable[],
+    geometryItems: GeometryDrawItem[],
+    forwardItems: IRenderable[],
+  ): void {
+    if (!this.shaderResolver) return;
+
+    for (const renderable of renderables) {
+      if (!isMeshProvider(renderable)) continue;
+
+      const meshData = renderable.getMeshData();
+      if (!meshData) continue;
+
+      const material = this.getMaterialComponent(renderable);
+      const shaderUUID = this.shaderResolver.resolveShaderUUID(material);
+
+      if (GBUFFER_SHADER_IDS.has(shaderUUID)) {
+        const jointMatrices = renderable.getJointMatrices?.() ?? null;
+        geometryItems.push({ renderable, meshData, shaderUUID, material, jointMatrices });
+      } else {
+        forwardItems.push(renderable);
+      }
+    }
+  }
+
+  /**
+   * Render shadow maps for the lights that fit in the shadow uniforms.
+   * Meshes are only gathered when at least one of them casts shadows.
+   */
+  private renderShadowMaps(camera: ICamera, renderables: IRenderable[]): void {
+    if (!this.shadowMapPass) return;
+
+    const shadowLights = this.cachedLights.slice(0, MAX_LIGHTS);
+    const items: ShadowDrawItem[] = [];
+    if (shadowLights.some((light) => light.castShadows)) {
+      for (const renderable of renderables) {
+        if (!isMeshProvider(renderable)) continue;
+
+        const meshData = renderable.getMeshData();
+        if (!meshData) continue;
+
+        items.push({
+          id: renderable.id,
+          meshData,
+          modelMatrix: this.getRenderableModelMatrix(renderable),
+          jointMatrices: renderable.getJointMatrices?.() ?? null,
+        });
+      }
+    }
+
+    this.shadowMapPass.render(camera, shadowLights, items);
+    this.cachedShadowUniforms = this.shadowMapPass.getUniforms();
+  }
+
+  /**
+   * Write surface attributes for every G-buffer draw.
+   */
+  private renderGeometryPass(gl: WebGL2RenderingContext, items: GeometryDrawItem[]): void {
+    if (!this.gBuffer || !this.geometryProgram || !this.meshGPUCache || !this.cachedViewProjection) return;
+
+    this.gBuffer.bindGeometryTargets();
+    gl.disable(gl.BLEND);
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthMask(true);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    gl.useProgram(this.geometryProgram);
+    const locations = this.geometryLocations;
+    const vpLoc = locations.get('uViewProjectionMatrix');
+    if (vpLoc) gl.uniformMatrix4fv(vpLoc, false, this.cachedViewProjection);
+
+    for (const item of items) {
+      const modelMatrix = this.getRenderableModelMatrix(item.renderable);
+
+      const modelLoc = locations.get('uModelMatrix');
+      if (modelLoc) gl.uniformMatrix4fv(modelLoc, false, modelMatrix);
+
+      const normalLoc = locations.get('uNormalMatrix');
+      if (normalLoc) gl.uniformMatrix3fv(normalLoc, false, normalMatrix(modelMatrix));
+
+      this.uniformSetter?.setSkinningUniforms(locations, item.jointMatrices);
+      this.uniformSetter?.setMaterialUniforms(locations, BUILT_IN_PBR_SHADER.uniforms, item.material);
+      if (item.shaderUUID === BUILT_IN_SHADER_IDS.LAMBERT) {
+        this.setLambertSurface(gl, locations);
+      }
+
+      const gpuResources = this.meshGPUCache.getOrCreateSolid(item.renderable.id, item.meshData, this.geometryProgram);
+      gl.bindVertexArray(gpuResources.vao);
+      gl.drawElements(gl.TRIANGLES, gpuResources.indexCount, gpuResources.indexType, 0);
+    }
+
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Lambert has no specular or emission parameters; shade it as a rough dielectric.
+   */
+  private setLambertSurface(gl: WebGL2RenderingContext, locations: UniformLocations): void {
+    const metallicLoc = locations.get('uMetallic');
+    if (metallicLoc) gl.uniform1f(metallicLoc, 0);
+
+    const roughnessLoc = locations.get('uRoughness');
+    if (roughnessLoc) gl.uniform1f(roughnessLoc, 1);
+
+    const emissionStrengthLoc = locations.get('uEmissionStrength');
+    if (emissionStrengthLoc) gl.uniform1f(emissionStrengthLoc, 0);
+  }
+
+  /**
+   * Accumulate every light into the light buffer, one batch per fullscreen draw.
+   * A scene without lights still gets one draw for ambient and emission.
+   */
+  private renderLightingPass(gl: WebGL2RenderingContext): void {
+    const textures = this.gBuffer?.textures;
+    if (!this.gBuffer || !textures || !this.lightingProgram || !this.cachedViewProjection || !this.cachedShadowUniforms) {
+      return;
+    }
+
+    this.gBuffer.bindLightTarget();
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.CULL_FACE);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+
+    gl.useProgram(this.lightingProgram);
+    const locations = this.lightingLocations;
+
+    this.bindTexture(gl, locations.get('uGAlbedo'), GBUFFER_TEXTURE_UNITS.albedo, textures.albedo);
+    this.bindTexture(gl, locations.get('uGNormal'), GBUFFER_TEXTURE_UNITS.normal, textures.normal);
+    this.bindTexture(gl, locations.get('uGMaterial'), GBUFFER_TEXTURE_UNITS.material, textures.material);
+    this.bindTexture(gl, locations.get('uGEmission'), GBUFFER_TEXTURE_UNITS.emission, textures.emission);
+    this.bindTexture(gl, locations.get('uGDepth'), GBUFFER_TEXTURE_UNITS.depth, textures.depth);
+
+    const shadows = this.cachedShadowUniforms;
+    const shadowMapLoc = locations.get('uShadowMaps');
+    if (shadowMapLoc) {
+      gl.activeTexture(gl.TEXTURE0 + SHADOW_MAP_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_2D_ARRAY, shadows.shadowMap);
+      gl.uniform1i(shadowMapLoc, SHADOW_MAP_TEXTURE_UNIT);
+    }
+    const shadowMatricesLoc = locations.get('uShadowMatrices');
+    if (shadowMatricesLoc) gl.uniformMatrix4fv(shadowMatricesLoc, false, shadows.shadowMatrices);
+
+    const inverseViewProjection = mat4Inverse(this.cachedViewProjection);
+    const inverseLoc = locations.get('uInverseViewProjection');
+    if (inverseLoc) gl.uniformMatrix4fv(inverseLoc, false, inverseViewProjection);
+
+    const cameraLoc = locations.get('uCameraPosition');
+    if (cameraLoc) gl.uniform3f(cameraLoc, ...this.cachedCameraPosition);
+
+    const ambientLoc = locations.get('uAmbientColor');
+    if (ambientLoc) gl.uniform3fv(ambientLoc, this.cachedAmbientColor);
+
+    this.uniformSetter?.setEnvironmentUniforms(locations, this.cachedEnvironment);
+
+    gl.bindVertexArray(this.fullscreenVAO);
+
+    const batchCount = Math.max(Math.ceil(this.cachedLights.length / LIGHT_BATCH_SIZE), 1);
+    for (let batch = 0; batch < batchCount; batch++) {
+      this.lightPacker.pack(this.cachedLights, batch * LIGHT_BATCH_SIZE);
+      this.setLightBatchUniforms(gl, locations, batch);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+    this.lastBatchCount = batchCount;
+
+    gl.bindVertexArray(null);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    gl.enable(gl.CULL_FACE);
+    gl.enable(gl.DEPTH_TEST);
+  }
+
+  /**
+   * Upload the packed lights for one batch. Only the first batch carries
+   * shadows, ambient light and emission.
+   */
+  private setLightBatchUniforms(gl: WebGL2RenderingContext, locations: UniformLocations, batch: number): void {
+    const packer = this.lightPacker;
+    const firstBatch = batch === 0;
+
+    const dirLoc = locations.get('uLightDirections');
+    if (dirLoc) gl.uniform3fv(dirLoc, packer.directions);
+
+    const colorLoc = locations.get('uLightColors');
+    if (colorLoc) gl.uniform3fv(colorLoc, packer.colors);
+
+    const posLoc = locations.get('uLightPositions');
+    if (posLoc) gl.uniform3fv(posLoc, packer.positions);
+
+    const typeLoc = locations.get('uLightTypes');
+    if (typeLoc) gl.uniform1iv(typeLoc, packer.types);
+
+    const rangeLoc = locations.get('uLightRanges');
+    if (rangeLoc) gl.uniform1fv(rangeLoc, packer.ranges);
+
+    const coneLoc = locations.get('uLightSpotCones');
+    if (coneLoc) gl.uniform2fv(coneLoc, packer.spotCones);
+
+    const countLoc = locations.get('uLightCount');
+    if (countLoc) gl.uniform1i(countLoc, packer.count);
+
+    const shadows = this.cachedShadowUniforms;
+    const shadowLoc = locations.get('uLightShadows');
+    if (shadowLoc) {
+      gl.uniform3fv(shadowLoc, firstBatch && shadows ? shadows.lightShadows : this.emptyLightShadows);
+    }
+
+    const biasLoc = locations.get('uLightShadowBias');
+    if (biasLoc) {
+      gl.uniform2fv(biasLoc, firstBatch && shadows ? shadows.lightShadowBias : this.emptyLightShadowBias);
+    }
+
+    const ambientFlagLoc = locations.get('uApplyAmbient');
+    if (ambientFlagLoc) gl.uniform1i(ambientFlagLoc, firstBatch ? 1 : 0);
+  }
+
+  /**
+   * Tone map the light buffer to the output framebuffer (or copy it to the
+   * post-processing scene target) and copy scene depth.
+   */
+  private renderCompositePass(gl: WebGL2RenderingContext): void {
+    const textures = this.gBuffer?.textures;
+    const lightBuffer = this.gBuffer?.lightBuffer;
+    if (!this.gBuffer || !textures || !lightBuffer || !this.compositeProgram) return;
+
+    const [width, height] = this.gBuffer.getSize();
+    const output = this.postProcessSettings
+      ? this.postProcessStack?.sceneFramebuffer ?? null
+      : this.renderTarget?.framebuffer ?? null;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+    gl.viewport(0, 0, width, height);
+
+    // Every pixel is written; depth comes from gl_FragDepth
+    gl.disable(gl.BLEND);
+    gl.disable(gl.CULL_FACE);
+    gl.depthFunc(gl.ALWAYS);
+
+    gl.useProgram(this.compositeProgram);
+    const locations = this.compositeLocations;
+    this.bindTexture(gl, locations.get('uLightBuffer'), GBUFFER_TEXTURE_UNITS.lightBuffer, lightBuffer);
+    this.bindTexture(gl, locations.get('uGDepth'), GBUFFER_TEXTURE_UNITS.depth, textures.depth);
+
+    // Cameras that do not clear color, or that drew the skybox, keep what is
+    // already in the framebuffer
+    const background = this.currentCamera && !this.skyboxDrawn
+      ? getCameraBackground(this.currentCamera, this.sceneEnvironment?.get('backgroundColor'))
+      : null;
+    const backgroundLoc = locations.get('uBackgroundColor');
+    if (backgroundLoc) gl.uniform3fv(backgroundLoc, background ?? [0, 0, 0]);
+    const keepBackgroundLoc = locations.get('uKeepBackground');
+    if (keepBackgroundLoc) gl.uniform1i(keepBackgroundLoc, background ? 0 : 1);
+    const hdrOutputLoc = locations.get('uHDROutput');
+    if (hdrOutputLoc) gl.uniform1i(hdrOutputLoc, this.postProcessSettings ? 1 : 0);
+
+    gl.bindVertexArray(this.fullscreenVAO);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindVertexArray(null);
+
+    gl.depthFunc(gl.LESS);
+    gl.enable(gl.CULL_FACE);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /**
+   * Draw an object with its own shader, as the forward pipeline does.
+   * Expects the first light batch to be packed.
+   */
+  private renderForwardObject(gl: WebGL2RenderingContext, renderable: IRenderable): void {
+    if (!isMeshProvider(renderable)) return;
+
+    const meshData = renderable.getMeshData();
+    if (!meshData || !this.meshGPUCache || !this.shaderResolver || !this.uniformSetter) return;
+
+    const material = this.getMaterialComponent(renderable);
+    const resolvedShader = this.shaderResolver.resolveProgram(this.shaderResolver.resolveShaderUUID(material));
+    if (!resolvedShader) return;
+
+    this.switchToShader(gl, resolvedShader.shaderUUID, resolvedShader.program);
+
+    const modelMatrix = this.getRenderableModelMatrix(renderable);
+    const gpuResources = this.meshGPUCache.getOrCreateSolid(renderable.id, meshData, resolvedShader.program);
+
+    this.uniformSetter.setObjectUniforms({
+      shaderUUID: resolvedShader.shaderUUID,
+      modelMatrix,
+      normalMatrix: normalMatrix(modelMatrix),
+      material,
+      jointMatrices: renderable.getJointMatrices?.() ?? null,
+    });
+
+    gl.bindVertexArray(gpuResources.vao);
+    gl.drawElements(gl.TRIANGLES, gpuResources.indexCount, gpuResources.indexType, 0);
+    gl.bindVertexArray(null);
+  }
+
+  private switchToShader(gl: WebGL2RenderingContext, shaderUUID: string, program: WebGLProgram): void {
+    if (!this.cachedViewProjection || !this.cachedShadowUniforms) return;
+
+    if (this.currentShaderUUID === shaderUUID) {
+      return;
+    }
+
+    gl.useProgram(program);
+    this.currentShaderUUID = shaderUUID;
+
+    this.uniformSetter?.setFrameUniforms(shaderUUID, {
+      viewProjectionMatrix: this.cachedViewProjection,
+      cameraPosition: this.cachedCameraPosition,
+      lightDirections: this.lightPacker.directions,
+      lightColors: this.lightPacker.colors,
+      lightPositions: this.lightPacker.positions,
+      lightTypes: this.lightPacker.types,
+      lightRanges: this.lightPacker.ranges,
+      lightSpotCones: this.lightPacker.spotCones,
+      lightCount: this.lightPacker.count,
+      ambientColor: this.cachedAmbientColor,
+      shadows: this.cachedShadowUniforms,
+      environment: this.cachedEnvironment,
+      hdrOutput: this.postProcessSettings !== null,
+    });
+  }
+
+  /**
+   * Tell the post-processing stack what fills empty pixels of the frame.
+   */
+  private getPostProcessBackground(camera: ICamera): PostProcessBackground {
+    if (this.skyboxDrawn) {
+      return 'environment';
+    }
+    return getCameraBackground(camera, this.sceneEnvironment?.get('backgroundColor')) ? 'color' : 'keep';
+  }
+
+  private bindTexture(
+    gl: WebGL2RenderingContext,
+    location: WebGLUniformLocation | null | undefined,
+    unit: number,
+    texture: WebGLTexture,
+  ): void {
+    if (!location) return;
+
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(location, unit);
+  }
+
+  private getMaterialComponent(renderable: IRenderable): IMaterialComponent | null {
+    const entityWithComponent = renderable as { getComponent?: <T>(type: string) => T | null };
+    if (typeof entityWithComponent.getComponent !== 'function') {
+      return null;
+    }
+
+    return entityWithComponent.getComponent<IMaterialComponent>('material');
+  }
+
+  private getRenderableModelMatrix(renderable: IRenderable): Float32Array {
+    const entityWithModelMatrix = renderable as { getModelMatrix?: () => Float32Array };
+    if (typeof entityWithModelMatrix.getModelMatrix === 'function') {
+      return entityWithModelMatrix.getModelMatrix();
+    }
+
+    return this.computeModelMatrix(renderable.transform);
+  }
+
+  /**
+   * Compute model matrix from a transform.
+   * Order: Translation x RotationZ x RotationY x RotationX x Scale
+   */
+  private computeModelMatrix(transform: {
+    position: [number, number, number];
+    rotation: [number, number, number];
+    scale: [number, number, number];
+  }): Float32Array {
+    const { position, rotation, scale } = transform;
+
+    let model = mat4Multiply(mat4Translation(position[0], position[1], position[2]), mat4RotationZ(degToRad(rotation[2])));
+    model = mat4Multiply(model, mat4RotationY(degToRad(rotation[1])));
+    model = mat4Multiply(model, mat4RotationX(degToRad(rotation[0])));
+    return mat4Multiply(model, mat4Scale(scale[0], scale[1], scale[2]));
+  }
+
+  /**
+   * Get every active light; the lighting pass has no upper limit.
+   */
+  private getLightsData(): LightData[] {
+    if (this.lightManager) {
+      const lights = this.lightManager.getActiveLights(Infinity);
+      if (lights.length > 0) {
+        return lights;
+      }
+    }
+
+    return [{
+      lightType: 'directional',
+      direction: this.defaultLightDirection,
+      position: [0, 0, 0],
+      color: this.defaultLightColor,
+      enabled: true,
+    }];
+  }
+
+  private getAmbientColor(): [number, number, number] {
+    return this.lightManager?.getAmbientColor() ?? this.defaultAmbientColor;
+  }
+
+  /**
+   * Get the baked maps of the scene's environment map, starting a bake if
+   * needed. Maps are null without an environment map or while it loads.
+   */
+  private resolveEnvironment(): EnvironmentUniforms {
+    const intensity = this.sceneEnvironment?.get('environmentIntensity') ?? 1;
+    const reference = this.sceneEnvironment?.get('environmentMap');
+    const asset = reference ? this.assetRegistry?.get(reference.uuid) : null;
+
+    if (!isTextureAsset(asset) || !this.environmentMapCache) {
+      return { maps: null, intensity };
+    }
+    return { maps: this.environmentMapCache.getOrCreate(asset), intensity };
+  }
+
+  private getUniformLocations(program: WebGLProgram, names: readonly string[]): UniformLocations {
+    const locations: UniformLocations = new Map();
+    for (const name of names) {
+      locations.set(name, this.gl!.getUniformLocation(program, name));
+    }
+    return locations;
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl!;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl!;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * GBuffer - Render targets for the deferred pipeline
+ *
+ * Owns two framebuffers sized to the viewport:
+ * - The G-buffer: four color targets written with MRT plus a depth texture.
+ * - The light buffer: one HDR color target the lighting pass accumulates into.
+ *
+ * | Attachment | Format               | Contents                          |
+ * |------------|----------------------|-----------------------------------|
+ * | 0          | SRGB8_ALPHA8         | Albedo                            |
+ * | 1          | RGB10_A2             | World normal (encoded to [0, 1])  |
+ * | 2          | RGBA8                | Metallic (r), roughness (g)       |
+ * | 3          | RGBA16F or RGBA8     | Emission                          |
+ * | depth      | DEPTH_COMPONENT24    | Scene depth                       |
+ *
+ * Float targets need EXT_color_buffer_float. Without it emission and the
+ * light buffer fall back to RGBA8, clamping lighting to [0, 1] before
+ * tone mapping.
+ *
+ * @example
+ * ```typescript
+ * const gBuffer = new GBuffer(gl);
+ * gBuffer.resize(canvas.width, canvas.height);
+ *
+ * gBuffer.bindGeometryTargets();
+ * // ...draw meshes with the G-buffer program
+ * gBuffer.bindLightTarget();
+ * // ...fullscreen lighting passes sampling gBuffer.textures
+ * ```
+ */
+
+/**
+ * Textures written by the geometry pass.
+ */
+export interface GBufferTextures {
+  readonly albedo: WebGLTexture;
+  readonly normal: WebGLTexture;
+  readonly material: WebGLTexture;
+  readonly emission: WebGLTexture;
+  readonly depth: WebGLTexture;
+}
+
+/**
+ * Number of color attachments in the G-buffer.
+ */
+export const GBUFFER_COLOR_TARGETS = 4;
+
+/**
+ * G-buffer and light accumulation render targets.
+ */
+export class GBuffer {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly hdrSupported: boolean;
+
+  private geometryFramebuffer: WebGLFramebuffer | null = null;
+  private lightFramebuffer: WebGLFramebuffer | null = null;
+  private gTextures: GBufferTextures | null = null;
+  private lightTexture: WebGLTexture | null = null;
+  private width = 0;
+  private height = 0;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.hdrSupported = gl.getExtension('EXT_color_buffer_float') !== null;
+    if (!this.hdrSupported) {
+      console.warn('GBuffer: EXT_color_buffer_float not supported, lighting will be clamped to LDR');
+    }
+  }
+
+  /**
+   * Whether emission and lighting are stored in half-float targets.
+   */
+  isHDR(): boolean {
+    return this.hdrSupported;
+  }
+
+  /**
+   * Get the current target size in pixels.
+   */
+  getSize(): [number, number] {
+    return [this.width, this.height];
+  }
+
+  /**
+   * Get the G-buffer textures, or null before the first resize().
+   */
+  get textures(): GBufferTextures | null {
+    return this.gTextures;
+  }
+
+  /**
+   * Get the light accumulation texture, or null before the first resize().
+   */
+  get lightBuffer(): WebGLTexture | null {
+    return this.lightTexture;
+  }
+
+  /**
+   * (Re)allocate every target when the size changes.
+   */
+  resize(width: number, height: number): void {
+    const w = Math.max(Math.floor(width), 1);
+    const h = Math.max(Math.floor(height), 1);
+    if (this.gTextures && w === this.width && h === this.height) {
+      return;
+    }
+
+    this.deleteTargets();
+    this.width = w;
+    this.height = h;
+
+    const gl = this.gl;
+    const hdrFormat = this.hdrSupported ? gl.RGBA16F : gl.RGBA8;
+
+    this.gTextures = {
+      albedo: this.createTarget(gl.SRGB8_ALPHA8),
+      normal: this.createTarget(gl.RGB10_A2),
+      material: this.createTarget(gl.RGBA8),
+      emission: this.createTarget(hdrFormat),
+      depth: this.createTarget(gl.DEPTH_COMPONENT24),
+    };
+    this.lightTexture = this.createTarget(hdrFormat);
+
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+
+    this.geometryFramebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.geometryFramebuffer);
+    const colorTextures = [
+      this.gTextures.albedo,
+      this.gTextures.normal,
+      this.gTextures.material,
+      this.gTextures.emission,
+    ];
+    const attachments = colorTextures.map((texture, i) => {
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0 + i, gl.TEXTURE_2D, texture, 0);
+      return gl.COLOR_ATTACHMENT0 + i;
+    });
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.TEXTURE_2D, this.gTextures.depth, 0);
+    gl.drawBuffers(attachments);
+    this.checkComplete('G-buffer');
+
+    this.lightFramebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.lightFramebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this.lightTexture, 0);
+    this.checkComplete('light buffer');
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+  }
+
+  /**
+   * Bind the G-buffer for the geometry pass and set the viewport to it.
+   */
+  bindGeometryTargets(): void {
+    this.bind(this.geometryFramebuffer);
+  }
+
+  /**
+   * Bind the light accumulation buffer and set the viewport to it.
+   */
+  bindLightTarget(): void {
+    this.bind(this.lightFramebuffer);
+  }
+
+  /**
+   * Release all GPU resources.
+   */
+  dispose(): void {
+    this.deleteTargets();
+    this.width = 0;
+    this.height = 0;
+  }
+
+  private bind(framebuffer: WebGLFramebuffer | null): void {
+    if (!framebuffer) {
+      throw new Error('GBuffer: resize() must be called before binding targets');
+    }
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, framebuffer);
+    this.gl.viewport(0, 0, this.width, this.height);
+  }
+
+  /**
+   * Create a single-level render target texture sampled with texelFetch.
+   */
+  private createTarget(internalFormat: number): WebGLTexture {
+    const gl = this.gl;
+
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create G-buffer texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, internalFormat, this.width, this.height);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    return texture;
+  }
+
+  private checkComplete(label: string): void {
+    const gl = this.gl;
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      throw new Error(`GBuffer: ${label} framebuffer incomplete (0x${status.toString(16)})`);
+    }
+  }
+
+  private deleteTargets(): void {
+    const gl = this.gl;
+
+    if (this.gTextures) {
+      for (const texture of Object.values(this.gTextures) as WebGLTexture[]) {
+        gl.deleteTexture(texture);
+      }
+    }
+    if (this.lightTexture) gl.deleteTexture(this.lightTexture);
+    if (this.geometryFramebuffer) gl.deleteFramebuffer(this.geometryFramebuffer);
+    if (this.lightFramebuffer) gl.deleteFramebuffer(this.lightFramebuffer);
+
+    this.gTextures = null;
+    this.lightTexture = null;
+    this.geometryFramebuffer = null;
+    this.lightFramebuffer = null;
+  }
+}
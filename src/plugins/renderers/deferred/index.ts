@@ -0,0 +1,9 @@
+/**
+ * Deferred Renderer Module
+ *
+ * Re-exports the deferred renderer and its G-buffer render targets.
+ */
+
+export { DeferredRenderer, LIGHT_BATCH_SIZE } from './DeferredRenderer';
+export { GBuffer, GBUFFER_COLOR_TARGETS } from './GBuffer';
+export type { GBufferTextures } from './GBuffer';
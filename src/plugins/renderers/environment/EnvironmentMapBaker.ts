@@ -0,0 +1,373 @@
+/**
+ * Environment Map Baker
+ *
+ * Turns a decoded HDR panorama into the cube maps used for image-based
+ * lighting, all on the GPU:
+ *
+ * 1. Environment cube: the panorama resampled onto six faces, with mips.
+ *    The skybox samples it directly.
+ * 2. Irradiance cube: cosine-weighted convolution for diffuse lighting.
+ * 3. Prefiltered cube: GGX convolution for specular reflections, with
+ *    roughness increasing from 0 at mip 0 to 1 at the last mip.
+ *
+ * The BRDF lookup table that completes the split-sum approximation does not
+ * depend on the environment (see brdfLookupTable.ts).
+ *
+ * Maps are stored as RGBA16F when EXT_color_buffer_float is available.
+ * Without it they fall back to RGBA8, which clips highlights at 1.0.
+ *
+ * @example
+ * ```typescript
+ * const baker = new EnvironmentMapBaker(gl);
+ * const maps = baker.bake(decodeRadianceHDR(bytes));
+ *
+ * gl.bindTexture(gl.TEXTURE_CUBE_MAP, maps.irradiance);
+ * ```
+ */
+
+import { FULLSCREEN_VERTEX_SHADER } from '../shaders/deferred';
+import {
+  EQUIRECT_TO_CUBE_FRAGMENT_SHADER,
+  IRRADIANCE_FRAGMENT_SHADER,
+  PREFILTER_FRAGMENT_SHADER,
+} from '../shaders/environment';
+import type { HDRImage } from './radianceHDR';
+
+/**
+ * Largest face size of the environment cube map.
+ */
+export const ENVIRONMENT_CUBE_SIZE = 512;
+
+/**
+ * Face size of the irradiance cube map. Irradiance varies slowly, so a
+ * small map is enough.
+ */
+export const IRRADIANCE_CUBE_SIZE = 32;
+
+/**
+ * Face size of the prefiltered cube map's first mip.
+ */
+export const PREFILTERED_CUBE_SIZE = 128;
+
+/**
+ * Mip levels of the prefiltered cube map (roughness 0 to 1).
+ */
+export const PREFILTERED_MIP_LEVELS = 5;
+
+/**
+ * Smallest face size of the environment cube map.
+ */
+const MIN_ENVIRONMENT_CUBE_SIZE = 16;
+
+/**
+ * GPU textures baked from one HDR environment.
+ */
+export interface EnvironmentMaps {
+  /** Environment cube map with a full mip chain (skybox) */
+  readonly environment: WebGLTexture;
+  /** Diffuse irradiance cube map */
+  readonly irradiance: WebGLTexture;
+  /** Specular cube map, one roughness per mip */
+  readonly prefiltered: WebGLTexture;
+  /** Mip levels of the prefiltered map */
+  readonly prefilteredLevels: number;
+}
+
+/**
+ * Bakes image-based lighting maps from HDR panoramas.
+ */
+export class EnvironmentMapBaker {
+  private readonly gl: WebGL2RenderingContext;
+
+  private equirectProgram: WebGLProgram | null = null;
+  private irradianceProgram: WebGLProgram | null = null;
+  private prefilterProgram: WebGLProgram | null = null;
+  private vao: WebGLVertexArrayObject | null = null;
+  private cubeFormat: number | null = null;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  /**
+   * Bake the lighting maps for an HDR panorama.
+   * Restores the framebuffer, viewport and the depth, blend and cull state.
+   *
+   * @param image - Equirectangular panorama (top row first)
+   * @returns Newly created textures owned by the caller
+   */
+  bake(image: HDRImage): EnvironmentMaps {
+    const gl = this.gl;
+    this.ensureResources();
+
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const previousViewport = gl.getParameter(gl.VIEWPORT) as Int32Array | null;
+    const depthTest = gl.isEnabled(gl.DEPTH_TEST);
+    const blend = gl.isEnabled(gl.BLEND);
+    const cullFace = gl.isEnabled(gl.CULL_FACE);
+
+    const framebuffer = gl.createFramebuffer();
+    const equirect = this.uploadEquirectangular(image);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.BLEND);
+    gl.disable(gl.CULL_FACE);
+    gl.bindVertexArray(this.vao);
+
+    try {
+      const environmentSize = this.getEnvironmentSize(image.width);
+      const environment = this.renderEnvironment(equirect, environmentSize);
+      const irradiance = this.renderIrradiance(environment, environmentSize);
+      const prefilteredSize = Math.min(PREFILTERED_CUBE_SIZE, environmentSize);
+      const prefiltered = this.renderPrefiltered(environment, environmentSize, prefilteredSize);
+
+      return {
+        environment,
+        irradiance,
+        prefiltered,
+        prefilteredLevels: PREFILTERED_MIP_LEVELS,
+      };
+    } finally {
+      gl.bindVertexArray(null);
+      gl.deleteTexture(equirect);
+      gl.deleteFramebuffer(framebuffer);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+      if (previousViewport) {
+        gl.viewport(previousViewport[0], previousViewport[1], previousViewport[2], previousViewport[3]);
+      }
+      if (depthTest) gl.enable(gl.DEPTH_TEST);
+      if (blend) gl.enable(gl.BLEND);
+      if (cullFace) gl.enable(gl.CULL_FACE);
+    }
+  }
+
+  /**
+   * Release the bake programs. Baked maps belong to the caller.
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    if (this.equirectProgram) gl.deleteProgram(this.equirectProgram);
+    if (this.irradianceProgram) gl.deleteProgram(this.irradianceProgram);
+    if (this.prefilterProgram) gl.deleteProgram(this.prefilterProgram);
+    if (this.vao) gl.deleteVertexArray(this.vao);
+
+    this.equirectProgram = null;
+    this.irradianceProgram = null;
+    this.prefilterProgram = null;
+    this.vao = null;
+  }
+
+  /**
+   * Compile the bake programs and pick the cube map format on first use.
+   */
+  private ensureResources(): void {
+    const gl = this.gl;
+
+    this.equirectProgram ??= this.createProgram(FULLSCREEN_VERTEX_SHADER, EQUIRECT_TO_CUBE_FRAGMENT_SHADER);
+    this.irradianceProgram ??= this.createProgram(FULLSCREEN_VERTEX_SHADER, IRRADIANCE_FRAGMENT_SHADER);
+    this.prefilterProgram ??= this.createProgram(FULLSCREEN_VERTEX_SHADER, PREFILTER_FRAGMENT_SHADER);
+    this.vao ??= gl.createVertexArray();
+
+    if (this.cubeFormat === null) {
+      if (gl.getExtension('EXT_color_buffer_float')) {
+        this.cubeFormat = gl.RGBA16F;
+      } else {
+        console.warn('EnvironmentMapBaker: EXT_color_buffer_float unavailable, environment lighting is clipped to LDR');
+        this.cubeFormat = gl.RGBA8;
+      }
+    }
+  }
+
+  /**
+   * Face size of the environment cube: about a quarter of the panorama
+   * width (one face spans 90 degrees), rounded down to a power of two.
+   */
+  private getEnvironmentSize(panoramaWidth: number): number {
+    const size = Math.pow(2, Math.floor(Math.log2(Math.max(panoramaWidth / 4, 1))));
+    return Math.min(Math.max(size, MIN_ENVIRONMENT_CUBE_SIZE), ENVIRONMENT_CUBE_SIZE);
+  }
+
+  /**
+   * Upload the panorama as a linear half-float texture.
+   */
+  private uploadEquirectangular(image: HDRImage): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create texture');
+    }
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    // Float rows are always 4-byte aligned, so the default unpack alignment holds
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB16F, image.width, image.height, 0, gl.RGB, gl.FLOAT, image.data);
+    // Wrap horizontally across the panorama seam
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+    return texture;
+  }
+
+  /**
+   * Resample the panorama onto the environment cube and build its mips.
+   */
+  private renderEnvironment(equirect: WebGLTexture, size: number): WebGLTexture {
+    const gl = this.gl;
+    const program = this.equirectProgram!;
+    const levels = Math.log2(size) + 1;
+    const cube = this.createCubeTexture(size, levels);
+
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, equirect);
+    gl.uniform1i(gl.getUniformLocation(program, 'uEquirectangularMap'), 0);
+
+    this.renderFaces(program, cube, 0, size);
+
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, cube);
+    gl.generateMipmap(gl.TEXTURE_CUBE_MAP);
+    return cube;
+  }
+
+  /**
+   * Convolve the environment into the irradiance cube.
+   */
+  private renderIrradiance(environment: WebGLTexture, environmentSize: number): WebGLTexture {
+    const gl = this.gl;
+    const program = this.irradianceProgram!;
+    const cube = this.createCubeTexture(IRRADIANCE_CUBE_SIZE, 1);
+
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, environment);
+    gl.uniform1i(gl.getUniformLocation(program, 'uEnvironmentMap'), 0);
+    // Integrate over the mip closest to the irradiance map's own resolution
+    const sourceLod = Math.max(Math.log2(environmentSize / IRRADIANCE_CUBE_SIZE), 0);
+    gl.uniform1f(gl.getUniformLocation(program, 'uSourceLod'), sourceLod);
+
+    this.renderFaces(program, cube, 0, IRRADIANCE_CUBE_SIZE);
+    return cube;
+  }
+
+  /**
+   * Convolve the environment with the GGX lobe, one roughness per mip.
+   */
+  private renderPrefiltered(environment: WebGLTexture, environmentSize: number, size: number): WebGLTexture {
+    const gl = this.gl;
+    const program = this.prefilterProgram!;
+    const cube = this.createCubeTexture(size, PREFILTERED_MIP_LEVELS);
+
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, environment);
+    gl.uniform1i(gl.getUniformLocation(program, 'uEnvironmentMap'), 0);
+    gl.uniform1f(gl.getUniformLocation(program, 'uSourceSize'), environmentSize);
+    const roughnessLocation = gl.getUniformLocation(program, 'uRoughness');
+
+    for (let level = 0; level < PREFILTERED_MIP_LEVELS; level++) {
+      gl.uniform1f(roughnessLocation, level / (PREFILTERED_MIP_LEVELS - 1));
+      this.renderFaces(program, cube, level, Math.max(size >> level, 1));
+    }
+
+    return cube;
+  }
+
+  /**
+   * Draw the bound program once into each face of a cube map level.
+   */
+  private renderFaces(program: WebGLProgram, cube: WebGLTexture, level: number, size: number): void {
+    const gl = this.gl;
+    const faceLocation = gl.getUniformLocation(program, 'uFace');
+
+    gl.viewport(0, 0, size, size);
+    for (let face = 0; face < 6; face++) {
+      gl.framebufferTexture2D(
+        gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, cube, level
+      );
+      gl.uniform1i(faceLocation, face);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+  }
+
+  /**
+   * Allocate an immutable cube map with linear (mip) filtering.
+   */
+  private createCubeTexture(size: number, levels: number): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create cube map texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, texture);
+    gl.texStorage2D(gl.TEXTURE_CUBE_MAP, levels, this.cubeFormat!, size, size);
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(
+      gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, levels > 1 ? gl.LINEAR_MIPMAP_LINEAR : gl.LINEAR
+    );
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, null);
+
+    return texture;
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
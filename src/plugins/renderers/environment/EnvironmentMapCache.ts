@@ -0,0 +1,306 @@
+/**
+ * Environment Map Cache
+ *
+ * GPU resource management for HDRI environment maps. Loads a texture
+ * asset's Radiance `.hdr` source, bakes it into image-based lighting maps
+ * (see EnvironmentMapBaker) and caches the result by asset UUID.
+ *
+ * Loading is asynchronous: until an environment has been decoded and baked,
+ * `getOrCreate()` returns null and renderers fall back to the scene's
+ * ambient color. Shaders that declare the IBL samplers still need textures
+ * to bind, so the cache also owns 1x1 black fallback cube maps and the
+ * shared BRDF lookup table.
+ *
+ * @example
+ * ```typescript
+ * const cache = new EnvironmentMapCache({
+ *   gl,
+ *   loadSource: (asset) => projectService.readSourceFile(asset.source.projectPath!),
+ * });
+ *
+ * // In render loop:
+ * const maps = cache.getOrCreate(environmentAsset);
+ * gl.bindTexture(gl.TEXTURE_CUBE_MAP, maps?.irradiance ?? cache.getFallback().irradiance);
+ *
+ * // On asset removal:
+ * cache.dispose(environmentAsset.uuid);
+ * ```
+ */
+
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import type { TextureSourceLoader } from '../shared/TextureGPUCache';
+import { EnvironmentMapBaker } from './EnvironmentMapBaker';
+import type { EnvironmentMaps } from './EnvironmentMapBaker';
+import { BRDF_LUT_SIZE, computeBRDFLookupTable } from './brdfLookupTable';
+import { decodeRadianceHDR } from './radianceHDR';
+import type { HDRImage } from './radianceHDR';
+
+/**
+ * Decodes encoded HDR bytes into a float image.
+ */
+export type HDRImageDecoder = (blob: Blob) => Promise<HDRImage>;
+
+/**
+ * Options for creating an EnvironmentMapCache.
+ */
+export interface EnvironmentMapCacheOptions {
+  /** WebGL2 rendering context */
+  gl: WebGL2RenderingContext;
+  /** Loader for environment maps backed by project files */
+  loadSource?: TextureSourceLoader;
+  /** HDR decoder (defaults to the Radiance decoder) */
+  decodeImage?: HDRImageDecoder;
+}
+
+/**
+ * Loading state of a cached environment.
+ */
+type EnvironmentLoadState = 'loading' | 'ready' | 'failed';
+
+/**
+ * A cached environment entry.
+ */
+interface EnvironmentEntry {
+  /** Baked maps (null until ready) */
+  maps: EnvironmentMaps | null;
+  /** Current loading state */
+  state: EnvironmentLoadState;
+  /** Asset modification timestamp the maps were baked from */
+  modified: string;
+}
+
+/**
+ * Decode a Radiance HDR blob.
+ */
+async function decodeHDRBlob(blob: Blob): Promise<HDRImage> {
+  return decodeRadianceHDR(new Uint8Array(await blob.arrayBuffer()));
+}
+
+/**
+ * Centralized cache for environment map GPU resources.
+ */
+export class EnvironmentMapCache {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly loadSource: TextureSourceLoader | null;
+  private readonly decodeImage: HDRImageDecoder;
+  private readonly baker: EnvironmentMapBaker;
+
+  private readonly entries = new Map<string, EnvironmentEntry>();
+  private fallbackMaps: EnvironmentMaps | null = null;
+  private brdfLookupTable: WebGLTexture | null = null;
+
+  constructor(options: EnvironmentMapCacheOptions) {
+    this.gl = options.gl;
+    this.loadSource = options.loadSource ?? null;
+    this.decodeImage = options.decodeImage ?? decodeHDRBlob;
+    this.baker = new EnvironmentMapBaker(options.gl);
+  }
+
+  /**
+   * Get the baked maps for an environment texture, starting a bake if needed.
+   *
+   * Returns null while the environment is loading or if it failed to load.
+   * A new bake is started when the asset's `modified` timestamp changes.
+   *
+   * @param asset - HDRI texture asset
+   * @returns Baked maps, or null if not available yet
+   */
+  getOrCreate(asset: ITextureAsset): EnvironmentMaps | null {
+    let entry = this.entries.get(asset.uuid);
+
+    if (entry && entry.modified !== asset.modified) {
+      this.dispose(asset.uuid);
+      entry = undefined;
+    }
+
+    if (!entry) {
+      entry = { maps: null, state: 'loading', modified: asset.modified };
+      this.entries.set(asset.uuid, entry);
+      void this.load(asset, entry);
+    }
+
+    return entry.maps;
+  }
+
+  /**
+   * Check whether an environment has finished baking.
+   *
+   * @param uuid - Texture asset UUID
+   */
+  isReady(uuid: string): boolean {
+    return this.entries.get(uuid)?.state === 'ready';
+  }
+
+  /**
+   * Get the shared 1x1 black cube maps bound when the scene has no
+   * environment map (or it is still loading).
+   */
+  getFallback(): EnvironmentMaps {
+    if (this.fallbackMaps) {
+      return this.fallbackMaps;
+    }
+
+    const cube = this.createBlackCube();
+    this.fallbackMaps = {
+      environment: cube,
+      irradiance: cube,
+      prefiltered: cube,
+      prefilteredLevels: 1,
+    };
+    return this.fallbackMaps;
+  }
+
+  /**
+   * Get the split-sum BRDF lookup table, computing it on first use.
+   */
+  getBRDFLookupTable(): WebGLTexture {
+    if (this.brdfLookupTable) {
+      return this.brdfLookupTable;
+    }
+
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create BRDF lookup table');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RG16F, BRDF_LUT_SIZE, BRDF_LUT_SIZE, 0, gl.RG, gl.FLOAT,
+      computeBRDFLookupTable(BRDF_LUT_SIZE)
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    this.brdfLookupTable = texture;
+    return texture;
+  }
+
+  /**
+   * Dispose the baked maps for an asset.
+   * An in-flight load for the asset is discarded when it completes.
+   *
+   * @param uuid - Texture asset UUID
+   */
+  dispose(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.maps) {
+      this.deleteMaps(entry.maps);
+    }
+    this.entries.delete(uuid);
+  }
+
+  /**
+   * Dispose all cached environments, the fallbacks, the lookup table and
+   * the bake programs.
+   */
+  disposeAll(): void {
+    for (const uuid of Array.from(this.entries.keys())) {
+      this.dispose(uuid);
+    }
+
+    if (this.fallbackMaps) {
+      this.gl.deleteTexture(this.fallbackMaps.environment);
+      this.fallbackMaps = null;
+    }
+    if (this.brdfLookupTable) {
+      this.gl.deleteTexture(this.brdfLookupTable);
+      this.brdfLookupTable = null;
+    }
+    this.baker.dispose();
+  }
+
+  /**
+   * Load, decode and bake an environment texture asset.
+   */
+  private async load(asset: ITextureAsset, entry: EnvironmentEntry): Promise<void> {
+    try {
+      const blob = asset.data ?? (this.loadSource ? await this.loadSource(asset) : null);
+      if (!blob) {
+        throw new Error('source image not found');
+      }
+
+      const image = await this.decodeImage(blob);
+
+      // Disposed or replaced while loading
+      if (this.entries.get(asset.uuid) !== entry) {
+        return;
+      }
+
+      const maxSize = Math.min(
+        asset.importSettings.maxSize,
+        (this.gl.getParameter(this.gl.MAX_TEXTURE_SIZE) as number | null) ?? Infinity
+      );
+      entry.maps = this.baker.bake(downsampleToFit(image, maxSize));
+      entry.state = 'ready';
+    } catch (error) {
+      entry.state = 'failed';
+      console.warn(`Failed to load environment map "${asset.name}":`, error);
+    }
+  }
+
+  /**
+   * Create a 1x1 cube map with every face black.
+   */
+  private createBlackCube(): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create fallback cube map');
+    }
+
+    const black = new Uint8Array([0, 0, 0, 255]);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, texture);
+    for (let face = 0; face < 6; face++) {
+      gl.texImage2D(
+        gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, 0, gl.RGBA8, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, black
+      );
+    }
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, null);
+
+    return texture;
+  }
+
+  private deleteMaps(maps: EnvironmentMaps): void {
+    this.gl.deleteTexture(maps.environment);
+    this.gl.deleteTexture(maps.irradiance);
+    this.gl.deleteTexture(maps.prefiltered);
+  }
+}
+
+/**
+ * Halve an image with a 2x2 box filter until both sides fit `maxSize`.
+ */
+function downsampleToFit(image: HDRImage, maxSize: number): HDRImage {
+  let current = image;
+
+  while ((current.width > maxSize || current.height > maxSize) && current.width > 1 && current.height > 1) {
+    const width = Math.floor(current.width / 2);
+    const height = Math.floor(current.height / 2);
+    const data = new Float32Array(width * height * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          const top = (y * 2 * current.width + x * 2) * 3 + c;
+          const bottom = top + current.width * 3;
+          data[(y * width + x) * 3 + c] =
+            (current.data[top] + current.data[top + 3] + current.data[bottom] + current.data[bottom + 3]) * 0.25;
+        }
+      }
+    }
+
+    current = { width, height, data };
+  }
+
+  return current;
+}
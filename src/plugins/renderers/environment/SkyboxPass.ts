@@ -0,0 +1,158 @@
+/**
+ * Skybox Pass
+ *
+ * Draws the scene's environment map as the background of cameras whose
+ * clear flags are 'skybox'. Renderers draw it right after clearing, with
+ * depth testing and depth writes off, so the scene is drawn over it.
+ *
+ * @example
+ * ```typescript
+ * const skyboxPass = new SkyboxPass(gl);
+ *
+ * clearForCamera(gl, camera, backgroundColor);
+ * if (camera.clearFlags === 'skybox' && maps) {
+ *   skyboxPass.render(camera, maps, intensity, false);
+ * }
+ * ```
+ */
+
+import type { ICamera } from '@core/interfaces';
+import { mat4Inverse } from '@utils/math';
+import { FULLSCREEN_VERTEX_SHADER } from '../shaders/deferred';
+import { SKYBOX_FRAGMENT_SHADER } from '../shaders/environment';
+import type { EnvironmentMaps } from './EnvironmentMapBaker';
+
+/**
+ * Renders the environment map behind the scene.
+ */
+export class SkyboxPass {
+  private readonly gl: WebGL2RenderingContext;
+
+  private program: WebGLProgram | null = null;
+  private environmentMapLocation: WebGLUniformLocation | null = null;
+  private inverseViewProjectionLocation: WebGLUniformLocation | null = null;
+  private intensityLocation: WebGLUniformLocation | null = null;
+  private hdrOutputLocation: WebGLUniformLocation | null = null;
+  private vao: WebGLVertexArrayObject | null = null;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  /**
+   * Draw the skybox into the bound framebuffer.
+   * Leaves depth testing and depth writes enabled afterwards.
+   *
+   * @param camera - Camera the frame is rendered from
+   * @param maps - Baked maps of the scene's environment
+   * @param intensity - Environment intensity multiplier
+   * @param hdrOutput - Write linear HDR for the post-processing stack
+   */
+  render(camera: ICamera, maps: EnvironmentMaps, intensity: number, hdrOutput: boolean): void {
+    const gl = this.gl;
+    this.ensureProgram();
+    if (!this.program) return;
+
+    gl.useProgram(this.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, maps.environment);
+    gl.uniform1i(this.environmentMapLocation, 0);
+    gl.uniformMatrix4fv(
+      this.inverseViewProjectionLocation, false, mat4Inverse(camera.getViewProjectionMatrix())
+    );
+    gl.uniform1f(this.intensityLocation, intensity);
+    gl.uniform1i(this.hdrOutputLocation, hdrOutput ? 1 : 0);
+
+    gl.disable(gl.DEPTH_TEST);
+    gl.depthMask(false);
+
+    gl.bindVertexArray(this.vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindVertexArray(null);
+
+    gl.depthMask(true);
+    gl.enable(gl.DEPTH_TEST);
+  }
+
+  /**
+   * Release the program.
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    if (this.program) gl.deleteProgram(this.program);
+    if (this.vao) gl.deleteVertexArray(this.vao);
+
+    this.program = null;
+    this.vao = null;
+  }
+
+  /**
+   * Compile the skybox program on first use.
+   */
+  private ensureProgram(): void {
+    if (this.program) return;
+
+    const gl = this.gl;
+    this.program = this.createProgram(FULLSCREEN_VERTEX_SHADER, SKYBOX_FRAGMENT_SHADER);
+    this.environmentMapLocation = gl.getUniformLocation(this.program, 'uEnvironmentMap');
+    this.inverseViewProjectionLocation = gl.getUniformLocation(this.program, 'uInverseViewProjection');
+    this.intensityLocation = gl.getUniformLocation(this.program, 'uEnvironmentIntensity');
+    this.hdrOutputLocation = gl.getUniformLocation(this.program, 'uHDROutput');
+    // The fullscreen triangle is generated from gl_VertexID
+    this.vao = gl.createVertexArray();
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * BRDF lookup table for image-based lighting
+ *
+ * Precomputes the split-sum environment BRDF (Karis 2013): for each view
+ * angle and roughness, the scale and bias applied to F0 when the
+ * prefiltered environment color is used as incoming specular light.
+ *
+ *   specular = prefiltered * (F0 * scale + bias)
+ *
+ * The table is small and independent of the scene, so it is integrated
+ * once on the CPU with the same GGX importance sampling the prefilter
+ * shader uses (shaders/environment/sampling.glsl).
+ *
+ * @example
+ * ```typescript
+ * const table = computeBRDFLookupTable(BRDF_LUT_SIZE);
+ * gl.texImage2D(gl.TEXTURE_2D, 0, gl.RG16F, BRDF_LUT_SIZE, BRDF_LUT_SIZE, 0, gl.RG, gl.FLOAT, table);
+ * ```
+ */
+
+/**
+ * Width and height of the lookup table.
+ */
+export const BRDF_LUT_SIZE = 64;
+
+/**
+ * Importance samples per table entry.
+ */
+const BRDF_LUT_SAMPLES = 256;
+
+/**
+ * Van der Corput radical inverse in base 2 (second Hammersley coordinate).
+ */
+export function radicalInverse(index: number): number {
+  let bits = index >>> 0;
+  bits = ((bits << 16) | (bits >>> 16)) >>> 0;
+  bits = (((bits & 0x55555555) << 1) | ((bits & 0xaaaaaaaa) >>> 1)) >>> 0;
+  bits = (((bits & 0x33333333) << 2) | ((bits & 0xcccccccc) >>> 2)) >>> 0;
+  bits = (((bits & 0x0f0f0f0f) << 4) | ((bits & 0xf0f0f0f0) >>> 4)) >>> 0;
+  bits = (((bits & 0x00ff00ff) << 8) | ((bits & 0xff00ff00) >>> 8)) >>> 0;
+  return bits * 2.3283064365386963e-10;
+}
+
+/**
+ * Integrate the environment BRDF for one view angle and roughness.
+ *
+ * @param NdotV - Cosine between the normal and the view direction
+ * @param roughness - Perceptual roughness (squared for GGX, as in brdf.glsl)
+ * @param sampleCount - Number of importance samples
+ * @returns Scale and bias applied to F0
+ */
+export function integrateBRDF(
+  NdotV: number,
+  roughness: number,
+  sampleCount = BRDF_LUT_SAMPLES
+): [number, number] {
+  // View vector in tangent space, with the normal along +Z
+  const Vx = Math.sqrt(1 - NdotV * NdotV);
+  const Vz = NdotV;
+
+  const a = roughness * roughness;
+  // Schlick-GGX remapping for image-based lighting (k = roughness^2 / 2)
+  const k = (roughness * roughness) / 2;
+  const geometry = (cosTheta: number): number => cosTheta / (cosTheta * (1 - k) + k);
+
+  let scale = 0;
+  let bias = 0;
+
+  for (let i = 0; i < sampleCount; i++) {
+    const u = i / sampleCount;
+    const v = radicalInverse(i);
+
+    // GGX-distributed half vector
+    const phi = 2 * Math.PI * u;
+    const cosTheta = Math.sqrt((1 - v) / (1 + (a * a - 1) * v));
+    const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+    const Hx = Math.cos(phi) * sinTheta;
+    const Hz = cosTheta;
+
+    // Reflect V about H (H.y does not contribute: V lies in the XZ plane)
+    const VdotH = Vx * Hx + Vz * Hz;
+    const Lz = 2 * VdotH * Hz - Vz;
+
+    const NdotL = Math.max(Lz, 0);
+    const NdotH = Math.max(Hz, 0);
+    if (NdotL <= 0) continue;
+
+    const G = geometry(NdotV) * geometry(NdotL);
+    const visibility = (G * Math.max(VdotH, 0)) / (NdotH * NdotV);
+    const fresnel = Math.pow(1 - Math.max(VdotH, 0), 5);
+
+    scale += (1 - fresnel) * visibility;
+    bias += fresnel * visibility;
+  }
+
+  return [scale / sampleCount, bias / sampleCount];
+}
+
+/**
+ * Compute the lookup table. Columns are NdotV and rows roughness, both
+ * sampled at texel centers from 0 to 1.
+ *
+ * @param size - Width and height of the table
+ * @param sampleCount - Importance samples per entry
+ * @returns Scale and bias pairs (2 floats per entry), first row at roughness 0
+ */
+export function computeBRDFLookupTable(size = BRDF_LUT_SIZE, sampleCount = BRDF_LUT_SAMPLES): Float32Array {
+  const table = new Float32Array(size * size * 2);
+
+  for (let y = 0; y < size; y++) {
+    const roughness = (y + 0.5) / size;
+    for (let x = 0; x < size; x++) {
+      const NdotV = (x + 0.5) / size;
+      const [scale, bias] = integrateBRDF(NdotV, roughness, sampleCount);
+      const i = (y * size + x) * 2;
+      table[i] = scale;
+      table[i + 1] = bias;
+    }
+  }
+
+  return table;
+}
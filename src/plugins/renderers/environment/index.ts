@@ -0,0 +1,22 @@
+/**
+ * Environment Module
+ *
+ * Image-based lighting from HDRI environment maps: Radiance HDR decoding,
+ * baking of irradiance and prefiltered specular cube maps, the BRDF lookup
+ * table and the skybox background pass.
+ */
+
+export { decodeRadianceHDR, HDRFormatError } from './radianceHDR';
+export type { HDRImage } from './radianceHDR';
+export { BRDF_LUT_SIZE, computeBRDFLookupTable, integrateBRDF } from './brdfLookupTable';
+export {
+  EnvironmentMapBaker,
+  ENVIRONMENT_CUBE_SIZE,
+  IRRADIANCE_CUBE_SIZE,
+  PREFILTERED_CUBE_SIZE,
+  PREFILTERED_MIP_LEVELS,
+} from './EnvironmentMapBaker';
+export type { EnvironmentMaps } from './EnvironmentMapBaker';
+export { EnvironmentMapCache } from './EnvironmentMapCache';
+export type { EnvironmentMapCacheOptions, HDRImageDecoder } from './EnvironmentMapCache';
+export { SkyboxPass } from './SkyboxPass';
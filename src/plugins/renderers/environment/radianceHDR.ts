@@ -0,0 +1,196 @@
+/**
+ * Radiance HDR (.hdr / RGBE) decoding
+ *
+ * Decodes the Radiance picture format used for HDRI environment maps into
+ * linear float RGB. Both flat and run-length encoded scanlines are read.
+ *
+ * Only RGBE pixels are supported (FORMAT=32-bit_rle_rgbe, not XYZE), with
+ * rows stored top to bottom ("-Y h +X w") or bottom to top
+ * ("+Y h +X w"). The returned image always has its top row first.
+ *
+ * @example
+ * ```typescript
+ * const image = decodeRadianceHDR(new Uint8Array(await file.arrayBuffer()));
+ * console.log(image.width, image.height, image.data[0]); // red of the top-left pixel
+ * ```
+ */
+
+/**
+ * A decoded HDR image.
+ */
+export interface HDRImage {
+  readonly width: number;
+  readonly height: number;
+  /** Linear RGB, 3 floats per pixel, top row first */
+  readonly data: Float32Array;
+}
+
+/**
+ * Thrown when data is not a Radiance HDR image this decoder can read.
+ */
+export class HDRFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HDRFormatError';
+  }
+}
+
+/** Longest header line accepted before giving up */
+const MAX_HEADER_LINE = 1024;
+
+/** Run-length encoded scanlines are only used for widths in this range */
+const MIN_RLE_WIDTH = 8;
+const MAX_RLE_WIDTH = 0x7fff;
+
+/**
+ * Decode a Radiance HDR file.
+ *
+ * @param bytes - Contents of the .hdr file
+ * @throws HDRFormatError if the file is not a supported Radiance image
+ */
+export function decodeRadianceHDR(bytes: Uint8Array): HDRImage {
+  const reader = { bytes, offset: 0 };
+
+  const signature = readLine(reader);
+  if (!signature?.startsWith('#?')) {
+    throw new HDRFormatError('Not a Radiance HDR file');
+  }
+
+  // Header variables end at the first empty line
+  for (;;) {
+    const line = readLine(reader);
+    if (line === null) {
+      throw new HDRFormatError('Truncated header');
+    }
+    if (line === '') break;
+
+    const format = /^FORMAT=(.*)$/.exec(line);
+    if (format && format[1].trim() !== '32-bit_rle_rgbe') {
+      throw new HDRFormatError(`Unsupported pixel format: ${format[1].trim()}`);
+    }
+  }
+
+  const resolution = readLine(reader);
+  const match = resolution ? /^([-+])Y\s+(\d+)\s+\+X\s+(\d+)$/.exec(resolution.trim()) : null;
+  if (!match) {
+    throw new HDRFormatError(`Unsupported image orientation: ${resolution ?? ''}`);
+  }
+
+  const bottomUp = match[1] === '+';
+  const height = parseInt(match[2], 10);
+  const width = parseInt(match[3], 10);
+  if (width === 0 || height === 0) {
+    throw new HDRFormatError('Image is empty');
+  }
+
+  const data = new Float32Array(width * height * 3);
+  const scanline = new Uint8Array(width * 4);
+
+  for (let y = 0; y < height; y++) {
+    readScanline(reader, scanline, width);
+
+    const row = bottomUp ? height - 1 - y : y;
+    let out = row * width * 3;
+    for (let x = 0; x < width; x++) {
+      const i = x * 4;
+      const exponent = scanline[i + 3];
+      // Mantissas are fractions of 256 scaled by 2^(exponent - 128)
+      const scale = exponent === 0 ? 0 : Math.pow(2, exponent - 136);
+      data[out++] = scanline[i] * scale;
+      data[out++] = scanline[i + 1] * scale;
+      data[out++] = scanline[i + 2] * scale;
+    }
+  }
+
+  return { width, height, data };
+}
+
+interface ByteReader {
+  readonly bytes: Uint8Array;
+  offset: number;
+}
+
+/**
+ * Read one newline-terminated ASCII line, or null at the end of the data.
+ */
+function readLine(reader: ByteReader): string | null {
+  const { bytes } = reader;
+  let line = '';
+
+  while (reader.offset < bytes.length) {
+    const byte = bytes[reader.offset++];
+    if (byte === 0x0a) {
+      return line.endsWith('\r') ? line.slice(0, -1) : line;
+    }
+    if (line.length >= MAX_HEADER_LINE) {
+      throw new HDRFormatError('Header line too long');
+    }
+    line += String.fromCharCode(byte);
+  }
+
+  return null;
+}
+
+/**
+ * Read one scanline of RGBE pixels into `out` (4 bytes per pixel).
+ */
+function readScanline(reader: ByteReader, out: Uint8Array, width: number): void {
+  const { bytes } = reader;
+  const start = reader.offset;
+
+  const isRunLength =
+    width >= MIN_RLE_WIDTH &&
+    width <= MAX_RLE_WIDTH &&
+    start + 4 <= bytes.length &&
+    bytes[start] === 2 &&
+    bytes[start + 1] === 2 &&
+    (bytes[start + 2] & 0x80) === 0;
+
+  if (!isRunLength) {
+    const end = start + width * 4;
+    if (end > bytes.length) {
+      throw new HDRFormatError('Unexpected end of pixel data');
+    }
+    out.set(bytes.subarray(start, end));
+    reader.offset = end;
+    return;
+  }
+
+  if (((bytes[start + 2] << 8) | bytes[start + 3]) !== width) {
+    throw new HDRFormatError('Scanline width mismatch');
+  }
+  reader.offset += 4;
+
+  // Each channel is stored separately as runs and literal spans
+  for (let channel = 0; channel < 4; channel++) {
+    let x = 0;
+    while (x < width) {
+      if (reader.offset >= bytes.length) {
+        throw new HDRFormatError('Unexpected end of pixel data');
+      }
+
+      let count = bytes[reader.offset++];
+      const isRun = count > 128;
+      if (isRun) count -= 128;
+
+      if (count === 0 || x + count > width) {
+        throw new HDRFormatError('Corrupt run-length data');
+      }
+
+      if (reader.offset + (isRun ? 1 : count) > bytes.length) {
+        throw new HDRFormatError('Unexpected end of pixel data');
+      }
+
+      if (isRun) {
+        const value = bytes[reader.offset++];
+        for (let i = 0; i < count; i++) {
+          out[(x++) * 4 + channel] = value;
+        }
+      } else {
+        for (let i = 0; i < count; i++) {
+          out[(x++) * 4 + channel] = bytes[reader.offset++];
+        }
+      }
+    }
+  }
+}
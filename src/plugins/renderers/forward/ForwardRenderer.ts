@@ -2,6 +2,13 @@
  * Forward Renderer Plugin
  *
  * A forward render pipeline that draws solid meshes with lighting.
+ * Shadow maps for directional and spot lights are rendered by
+ * ShadowMapPass before the main pass. When the scene has an HDRI
+ * environment map, built-in PBR materials are lit by it and cameras that
+ * clear to the skybox draw it behind the scene.
+ * When float render targets are available, the scene is drawn in linear
+ * HDR into the PostProcessStack's scene target and resolved to the output
+ * with the post-processing effects of the renderer settings.
  * Implements IRenderPipeline for the plugin system.
  */
 
@@ -12,10 +19,17 @@ import type {
   IScene,
   IRenderable,
   IMaterialComponent,
+  IRenderTarget,
 } from '@core/interfaces';
 import { isMeshProvider } from '@core/interfaces';
 import type { LightManager, LightData } from '@core/LightManager';
+import { MAX_LIGHTS } from '@core/LightManager';
+import type { SceneEnvironment } from '@core/SceneEnvironment';
+import type { SettingsService, RendererSettings } from '@core/SettingsService';
 import type { ShaderEditorService } from '@core/ShaderEditorService';
+import type { EventBus } from '@core/EventBus';
+import type { AssetRegistry, AssetUnregisteredEvent } from '@core/assets/AssetRegistry';
+import { isTextureAsset } from '@core/assets/interfaces/ITextureAsset';
 import { BUILT_IN_SHADER_IDS } from '@core/assets/BuiltInShaders';
 import {
   mat4Multiply,
@@ -28,14 +42,25 @@ import {
   normalMatrix,
 } from '@utils/math';
 import { MeshGPUCache } from '../shared/MeshGPUCache';
+import { TextureGPUCache } from '../shared/TextureGPUCache';
+import type { TextureSourceLoader } from '../shared/TextureGPUCache';
+import { LightUniformPacker, getShadableLights } from '../shared/LightUniformPacker';
+import { clearForCamera, getCameraBackground } from '../shared/CameraClear';
 import { ShaderResolver } from './ShaderResolver';
 import { UniformSetter } from './UniformSetter';
+import type { ShadowUniforms, EnvironmentUniforms } from './UniformSetter';
+import { ShadowMapPass } from './ShadowMapPass';
+import type { ShadowDrawItem } from './ShadowMapPass';
+import { EnvironmentMapCache } from '../environment/EnvironmentMapCache';
+import { SkyboxPass } from '../environment/SkyboxPass';
+import { PostProcessStack } from '../postprocess/PostProcessStack';
+import type { PostProcessBackground } from '../postprocess/PostProcessStack';
 
 /**
  * Forward Renderer - A solid mesh render pipeline with lighting.
  *
  * Supports Lambert, PBR, Unlit, and custom shader assets. Uses MeshGPUCache
- * for centralized GPU resource management.
+ * and TextureGPUCache for centralized GPU resource management.
  */
 export class ForwardRenderer implements IRenderPipeline {
   readonly id = 'forward-renderer';
@@ -46,19 +71,30 @@ export class ForwardRenderer implements IRenderPipeline {
   private gl: WebGL2RenderingContext | null = null;
   private currentCamera: ICamera | null = null;
   private lightManager: LightManager | null = null;
+  private sceneEnvironment: SceneEnvironment | null = null;
+  private settingsService: SettingsService | null = null;
   private shaderEditorService: ShaderEditorService | null = null;
   private meshGPUCache: MeshGPUCache | null = null;
+  private textureGPUCache: TextureGPUCache | null = null;
+  private environmentMapCache: EnvironmentMapCache | null = null;
+  private assetRegistry: AssetRegistry | null = null;
+  private eventBus: EventBus | null = null;
   private shaderResolver: ShaderResolver | null = null;
   private uniformSetter: UniformSetter | null = null;
+  private shadowMapPass: ShadowMapPass | null = null;
+  private skyboxPass: SkyboxPass | null = null;
+  private postProcessStack: PostProcessStack | null = null;
   private initialized = false;
 
   private currentShaderUUID: string | null = null;
-
-  private readonly MAX_LIGHTS = 8;
-
-  private cachedLightDirections: Float32Array = new Float32Array(8 * 3);
-  private cachedLightColors: Float32Array = new Float32Array(8 * 3);
-  private cachedLightCount = 0;
+  private renderTarget: IRenderTarget | null = null;
+
+  private readonly lightPacker = new LightUniformPacker(MAX_LIGHTS);
+  private cachedLights: LightData[] = [];
+  private cachedShadowUniforms: ShadowUniforms | null = null;
+  private cachedEnvironment: EnvironmentUniforms = { maps: null, intensity: 1 };
+  private postProcessSettings: RendererSettings | null = null;
+  private postProcessBackground: PostProcessBackground = 'color';
   private cachedAmbientColor: [number, number, number] = [0.15, 0.15, 0.2];
   private cachedCameraPosition: [number, number, number] = [0, 0, 0];
   private cachedViewProjection: Float32Array | null = null;
@@ -70,9 +106,28 @@ export class ForwardRenderer implements IRenderPipeline {
   async initialize(context: IPluginContext): Promise<void> {
     this.gl = context.gl;
     this.lightManager = context.lightManager ?? null;
+    this.sceneEnvironment = context.sceneEnvironment ?? null;
+    this.settingsService = context.settingsService ?? null;
     this.shaderEditorService = context.shaderEditorService ?? null;
 
     this.meshGPUCache = new MeshGPUCache(this.gl);
+    this.shadowMapPass = new ShadowMapPass(this.gl, this.meshGPUCache);
+    this.skyboxPass = new SkyboxPass(this.gl);
+    this.postProcessStack = new PostProcessStack(this.gl);
+    this.assetRegistry = context.assetRegistry ?? null;
+
+    // Project image files are read through the project service; textures
+    // embedded in imported models carry their own data.
+    const projectService = context.projectService;
+    const loadSource: TextureSourceLoader = async (asset) => {
+      if (!projectService || !asset.source.projectPath) return null;
+      return projectService.readSourceFile(asset.source.projectPath);
+    };
+    this.textureGPUCache = new TextureGPUCache({ gl: this.gl, loadSource });
+    this.environmentMapCache = new EnvironmentMapCache({ gl: this.gl, loadSource });
+    this.eventBus = context.eventBus;
+    this.eventBus.on<AssetUnregisteredEvent>('asset:unregistered', this.handleAssetUnregistered);
+
     if (this.shaderEditorService) {
       this.shaderResolver = new ShaderResolver({
         shaderEditorService: this.shaderEditorService,
@@ -82,6 +137,8 @@ export class ForwardRenderer implements IRenderPipeline {
         gl: this.gl,
         shaderEditorService: this.shaderEditorService,
         assetRegistry: context.assetRegistry ?? null,
+        textureCache: this.textureGPUCache,
+        environmentCache: this.environmentMapCache,
       });
     }
 
@@ -89,10 +146,35 @@ export class ForwardRenderer implements IRenderPipeline {
     context.eventBus.emit('renderer:initialized', { id: this.id });
   }
 
+  private handleAssetUnregistered = (event: AssetUnregisteredEvent): void => {
+    if (event.type === 'texture') {
+      this.textureGPUCache?.dispose(event.uuid);
+      this.environmentMapCache?.dispose(event.uuid);
+    }
+  };
+
   async dispose(): Promise<void> {
+    this.shadowMapPass?.dispose();
+    this.shadowMapPass = null;
+    this.skyboxPass?.dispose();
+    this.skyboxPass = null;
+    this.postProcessStack?.dispose();
+    this.postProcessStack = null;
+    this.postProcessSettings = null;
+    this.settingsService = null;
+    this.cachedShadowUniforms = null;
     this.meshGPUCache?.disposeAll();
     this.meshGPUCache = null;
+    this.eventBus?.off('asset:unregistered', this.handleAssetUnregistered);
+    this.eventBus = null;
+    this.textureGPUCache?.disposeAll();
+    this.textureGPUCache = null;
+    this.environmentMapCache?.disposeAll();
+    this.environmentMapCache = null;
+    this.cachedEnvironment = { maps: null, intensity: 1 };
+    this.assetRegistry = null;
     this.shaderResolver = null;
+    this.uniformSetter?.dispose();
     this.uniformSetter = null;
     this.gl = null;
     this.initialized = false;
@@ -103,6 +185,22 @@ export class ForwardRenderer implements IRenderPipeline {
 
     this.currentCamera = camera;
 
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.renderTarget?.framebuffer ?? null);
+    if (this.renderTarget) {
+      this.gl.viewport(0, 0, this.renderTarget.width, this.renderTarget.height);
+    }
+
+    this.postProcessSettings = this.postProcessStack?.isSupported()
+      ? this.settingsService?.get('renderer') ?? null
+      : null;
+    if (this.postProcessSettings) {
+      this.postProcessStack?.beginScene(
+        this.renderTarget?.width ?? this.gl.drawingBufferWidth,
+        this.renderTarget?.height ?? this.gl.drawingBufferHeight,
+        this.renderTarget !== null,
+      );
+    }
+
     this.gl.enable(this.gl.DEPTH_TEST);
     this.gl.depthFunc(this.gl.LESS);
     this.gl.enable(this.gl.CULL_FACE);
@@ -110,8 +208,21 @@ export class ForwardRenderer implements IRenderPipeline {
     this.gl.frontFace(this.gl.CCW);
     this.gl.enable(this.gl.BLEND);
     this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
-    this.gl.clearColor(0.15, 0.15, 0.17, 1.0);
-    this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
+    clearForCamera(this.gl, camera, this.sceneEnvironment?.get('backgroundColor'));
+
+    this.cachedEnvironment = this.resolveEnvironment();
+    this.postProcessBackground = getCameraBackground(camera, this.sceneEnvironment?.get('backgroundColor'))
+      ? 'color'
+      : 'keep';
+    if (camera.clearFlags === 'skybox' && this.cachedEnvironment.maps && this.skyboxPass) {
+      this.skyboxPass.render(
+        camera,
+        this.cachedEnvironment.maps,
+        this.cachedEnvironment.intensity,
+        this.postProcessSettings !== null,
+      );
+      this.postProcessBackground = 'environment';
+    }
   }
 
   render(scene: IScene): void {
@@ -124,12 +235,24 @@ export class ForwardRenderer implements IRenderPipeline {
     this.cachedCameraPosition = [cameraPos[0], cameraPos[1], cameraPos[2]];
 
     this.cacheLightUniforms();
-    this.currentShaderUUID = null;
 
     const renderables = scene.getRenderables() as IRenderable[];
+    this.renderShadowMaps(this.currentCamera, renderables);
+    this.currentShaderUUID = null;
+
     for (const renderable of renderables) {
       this.renderObject(this.gl, renderable);
     }
+
+    if (this.postProcessSettings) {
+      this.postProcessStack?.resolve({
+        output: this.renderTarget?.framebuffer ?? null,
+        camera: this.currentCamera,
+        settings: this.postProcessSettings,
+        background: this.postProcessBackground,
+        linearOutput: this.renderTarget?.linear ?? false,
+      });
+    }
   }
 
   endFrame(): void {
@@ -140,6 +263,10 @@ export class ForwardRenderer implements IRenderPipeline {
     this.gl?.viewport(0, 0, width, height);
   }
 
+  setRenderTarget(target: IRenderTarget | null): void {
+    this.renderTarget = target;
+  }
+
   getProgram(): WebGLProgram | null {
     return this.shaderEditorService?.getCompiledProgram(BUILT_IN_SHADER_IDS.LAMBERT) ?? null;
   }
@@ -179,13 +306,42 @@ export class ForwardRenderer implements IRenderPipeline {
       modelMatrix,
       normalMatrix: normalMat,
       material,
+      jointMatrices: renderable.getJointMatrices?.() ?? null,
     });
 
     gl.bindVertexArray(gpuResources.vao);
-    gl.drawElements(gl.TRIANGLES, gpuResources.indexCount, gl.UNSIGNED_SHORT, 0);
+    gl.drawElements(gl.TRIANGLES, gpuResources.indexCount, gpuResources.indexType, 0);
     gl.bindVertexArray(null);
   }
 
+  /**
+   * Render shadow maps for the cached lights. Meshes are only gathered
+   * when at least one light casts shadows.
+   */
+  private renderShadowMaps(camera: ICamera, renderables: IRenderable[]): void {
+    if (!this.shadowMapPass) return;
+
+    const items: ShadowDrawItem[] = [];
+    if (this.cachedLights.some((light) => light.castShadows)) {
+      for (const renderable of renderables) {
+        if (!isMeshProvider(renderable)) continue;
+
+        const meshData = renderable.getMeshData();
+        if (!meshData) continue;
+
+        items.push({
+          id: renderable.id,
+          meshData,
+          modelMatrix: this.getRenderableModelMatrix(renderable),
+          jointMatrices: renderable.getJointMatrices?.() ?? null,
+        });
+      }
+    }
+
+    this.shadowMapPass.render(camera, this.cachedLights, items);
+    this.cachedShadowUniforms = this.shadowMapPass.getUniforms();
+  }
+
   private getMaterialComponent(renderable: IRenderable): IMaterialComponent | null {
     const entityWithComponent = renderable as { getComponent?: <T>(type: string) => T | null };
     if (typeof entityWithComponent.getComponent !== 'function') {
@@ -209,7 +365,7 @@ export class ForwardRenderer implements IRenderPipeline {
     shaderUUID: string,
     program: WebGLProgram,
   ): void {
-    if (!this.cachedViewProjection) return;
+    if (!this.cachedViewProjection || !this.cachedShadowUniforms) return;
 
     if (this.currentShaderUUID === shaderUUID) {
       return;
@@ -221,10 +377,17 @@ export class ForwardRenderer implements IRenderPipeline {
     this.uniformSetter?.setFrameUniforms(shaderUUID, {
       viewProjectionMatrix: this.cachedViewProjection,
       cameraPosition: this.cachedCameraPosition,
-      lightDirections: this.cachedLightDirections,
-      lightColors: this.cachedLightColors,
-      lightCount: this.cachedLightCount,
+      lightDirections: this.lightPacker.directions,
+      lightColors: this.lightPacker.colors,
+      lightPositions: this.lightPacker.positions,
+      lightTypes: this.lightPacker.types,
+      lightRanges: this.lightPacker.ranges,
+      lightSpotCones: this.lightPacker.spotCones,
+      lightCount: this.lightPacker.count,
       ambientColor: this.cachedAmbientColor,
+      shadows: this.cachedShadowUniforms,
+      environment: this.cachedEnvironment,
+      hdrOutput: this.postProcessSettings !== null,
     });
   }
 
@@ -254,25 +417,8 @@ export class ForwardRenderer implements IRenderPipeline {
   }
 
   private cacheLightUniforms(): void {
-    const lights = this.getLightsData();
-
-    this.cachedLightDirections.fill(0);
-    this.cachedLightColors.fill(0);
-
-    for (let i = 0; i < Math.min(lights.length, this.MAX_LIGHTS); i++) {
-      const light = lights[i];
-      const normalizedDir = this.normalizeDirection(light.direction);
-
-      this.cachedLightDirections[i * 3 + 0] = normalizedDir[0];
-      this.cachedLightDirections[i * 3 + 1] = normalizedDir[1];
-      this.cachedLightDirections[i * 3 + 2] = normalizedDir[2];
-
-      this.cachedLightColors[i * 3 + 0] = light.color[0];
-      this.cachedLightColors[i * 3 + 1] = light.color[1];
-      this.cachedLightColors[i * 3 + 2] = light.color[2];
-    }
-
-    this.cachedLightCount = Math.min(lights.length, this.MAX_LIGHTS);
+    this.cachedLights = getShadableLights(this.getLightsData()).slice(0, MAX_LIGHTS);
+    this.lightPacker.pack(this.cachedLights);
     this.cachedAmbientColor = this.getAmbientColor();
   }
 
@@ -297,11 +443,18 @@ export class ForwardRenderer implements IRenderPipeline {
     return this.lightManager?.getAmbientColor() ?? this.defaultAmbientColor;
   }
 
-  private normalizeDirection(dir: [number, number, number]): Float32Array {
-    const len = Math.sqrt(dir[0] * dir[0] + dir[1] * dir[1] + dir[2] * dir[2]);
-    if (len === 0) {
-      return new Float32Array([0, -1, 0]);
+  /**
+   * Get the baked maps of the scene's environment map, starting a bake if
+   * needed. Maps are null without an environment map or while it loads.
+   */
+  private resolveEnvironment(): EnvironmentUniforms {
+    const intensity = this.sceneEnvironment?.get('environmentIntensity') ?? 1;
+    const reference = this.sceneEnvironment?.get('environmentMap');
+    const asset = reference ? this.assetRegistry?.get(reference.uuid) : null;
+
+    if (!isTextureAsset(asset) || !this.environmentMapCache) {
+      return { maps: null, intensity };
     }
-    return new Float32Array([dir[0] / len, dir[1] / len, dir[2] / len]);
+    return { maps: this.environmentMapCache.getOrCreate(asset), intensity };
   }
 }
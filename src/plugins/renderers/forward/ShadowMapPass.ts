@@ -0,0 +1,611 @@
+/**
+ * Shadow Map Pass
+ *
+ * Renders depth maps for shadow-casting lights before the forward pass.
+ * All maps live in one depth texture array that the built-in shaders sample
+ * with hardware depth comparison and PCF (see shaders/common/shadows.glsl).
+ *
+ * - Directional lights get SHADOW_CASCADE_COUNT orthographic cascades that
+ *   split the camera frustum up to MAX_SHADOW_DISTANCE.
+ * - Spot lights get a single perspective map covering their cone and range.
+ *
+ * Skinned meshes are deformed with their joint matrices, as in the forward
+ * pass, so posed characters cast posed shadows.
+ *
+ * Layers are handed out in light order until MAX_SHADOW_MAPS is reached;
+ * lights that do not fit render unshadowed. Every layer shares one size:
+ * the largest resolution requested by a light that received layers.
+ *
+ * @example
+ * ```typescript
+ * const shadowPass = new ShadowMapPass(gl, meshGPUCache);
+ *
+ * // Each frame, before drawing the scene:
+ * shadowPass.render(camera, lights, drawItems);
+ * uniformSetter.setFrameUniforms(shaderUUID, { ...frame, shadows: shadowPass.getUniforms() });
+ * ```
+ */
+
+import type { ICamera } from '@core/interfaces';
+import type { IMeshData } from '@core/interfaces/IMeshData';
+import type { LightData } from '@core/LightManager';
+import { MAX_LIGHTS } from '@core/LightManager';
+import { DEFAULT_SHADOW_SETTINGS } from '@core/interfaces/ILightComponent';
+import {
+  degToRad,
+  mat4LookAt,
+  mat4Multiply,
+  mat4Orthographic,
+  mat4Perspective,
+  vec3Cross,
+  vec3Normalize,
+  vec3Subtract,
+} from '@utils/math';
+import type { Vec3 } from '@utils/math';
+import type { MeshGPUCache } from '../shared/MeshGPUCache';
+import { GLSL_SKINNING, composeShader } from '../shaders/common';
+import type { ShadowUniforms } from './UniformSetter';
+
+/**
+ * Maximum shadow map layers (keep in sync with shadows.glsl).
+ */
+export const MAX_SHADOW_MAPS = 8;
+
+/**
+ * Number of cascades rendered for each shadow-casting directional light.
+ */
+export const SHADOW_CASCADE_COUNT = 3;
+
+/**
+ * Farthest distance from the camera covered by directional light cascades.
+ */
+const MAX_SHADOW_DISTANCE = 50;
+
+/**
+ * Blend between uniform (0) and logarithmic (1) cascade split distances.
+ */
+const CASCADE_SPLIT_LAMBDA = 0.6;
+
+/**
+ * Extra depth range behind each cascade so casters outside the camera
+ * frustum still shadow what the camera sees.
+ */
+const CASCADE_CASTER_DISTANCE = 50;
+
+/**
+ * Far plane used for spot lights with unlimited range.
+ */
+const UNLIMITED_SPOT_RANGE = 100;
+
+/**
+ * Slope-scaled polygon offset applied while rendering depth.
+ */
+const POLYGON_OFFSET_FACTOR = 2;
+const POLYGON_OFFSET_UNITS = 1;
+
+/**
+ * Maps clip space [-1, 1] to shadow texture space [0, 1].
+ */
+const CLIP_TO_TEXTURE = new Float32Array([
+  0.5, 0, 0, 0,
+  0, 0.5, 0, 0,
+  0, 0, 0.5, 0,
+  0.5, 0.5, 0.5, 1,
+]);
+
+/**
+ * Texture unit for the joint matrices of skinned meshes (the only texture
+ * the depth shader samples).
+ */
+const JOINT_TEXTURE_UNIT = 0;
+
+/**
+ * Depth-only vertex shader: transforms (and skins) positions only.
+ */
+const DEPTH_VERTEX_SHADER = composeShader(
+  `#version 300 es
+precision highp float;
+
+in vec3 aPosition;
+in vec4 aJoints;
+in vec4 aWeights;
+
+uniform mat4 uModelMatrix;
+uniform mat4 uLightViewProjection;
+`,
+  GLSL_SKINNING,
+  `
+void main() {
+  gl_Position = uLightViewProjection * uModelMatrix * getSkinMatrix(aJoints, aWeights) * vec4(aPosition, 1.0);
+}
+`
+);
+
+/**
+ * Depth-only fragment shader (depth is written by the rasterizer).
+ */
+const DEPTH_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+void main() {}
+`;
+
+/**
+ * A mesh drawn into the shadow maps.
+ */
+export interface ShadowDrawItem {
+  /** Mesh cache identifier (usually the entity id) */
+  readonly id: string;
+  /** Mesh geometry */
+  readonly meshData: IMeshData;
+  /** World transform of the mesh */
+  readonly modelMatrix: Float32Array;
+  /** Joint matrices of a skinned mesh (16 floats per joint), or null when unskinned */
+  readonly jointMatrices?: Float32Array | null;
+}
+
+/**
+ * Renders and owns the shadow map texture array.
+ */
+export class ShadowMapPass {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly meshGPUCache: MeshGPUCache;
+
+  private program: WebGLProgram | null = null;
+  private modelMatrixLocation: WebGLUniformLocation | null = null;
+  private viewProjectionLocation: WebGLUniformLocation | null = null;
+  private skinnedLocation: WebGLUniformLocation | null = null;
+  private jointMatricesLocation: WebGLUniformLocation | null = null;
+  private jointTexture: WebGLTexture | null = null;
+  private framebuffer: WebGLFramebuffer | null = null;
+  private depthTexture: WebGLTexture | null = null;
+  private textureSize = 0;
+  private textureLayers = 0;
+  private readonly maxTextureSize: number | null;
+
+  private readonly shadowMatrices = new Float32Array(MAX_SHADOW_MAPS * 16);
+  private readonly lightShadows = new Float32Array(MAX_LIGHTS * 3);
+  private readonly lightShadowBias = new Float32Array(MAX_LIGHTS * 2);
+
+  constructor(gl: WebGL2RenderingContext, meshGPUCache: MeshGPUCache) {
+    this.gl = gl;
+    this.meshGPUCache = meshGPUCache;
+    this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number | null;
+
+    this.program = this.createProgram(DEPTH_VERTEX_SHADER, DEPTH_FRAGMENT_SHADER);
+    this.modelMatrixLocation = gl.getUniformLocation(this.program, 'uModelMatrix');
+    this.viewProjectionLocation = gl.getUniformLocation(this.program, 'uLightViewProjection');
+    this.skinnedLocation = gl.getUniformLocation(this.program, 'uSkinned');
+    this.jointMatricesLocation = gl.getUniformLocation(this.program, 'uJointMatrices');
+
+    this.framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.drawBuffers([gl.NONE]);
+    gl.readBuffer(gl.NONE);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    this.ensureStorage(1, 1);
+  }
+
+  /**
+   * Render shadow maps for a frame.
+   *
+   * @param camera - Camera the frame is rendered from (used to fit cascades)
+   * @param lights - Lights in the same order as the frame's light uniforms
+   * @param items - Meshes that cast shadows
+   */
+  render(camera: ICamera, lights: readonly LightData[], items: readonly ShadowDrawItem[]): void {
+    this.shadowMatrices.fill(0);
+    this.lightShadows.fill(0);
+    this.lightShadowBias.fill(0);
+
+    const shadowedLights: LightData[] = [];
+    let layerCount = 0;
+    let resolution = 1;
+
+    for (let i = 0; i < lights.length && i < MAX_LIGHTS; i++) {
+      const light = lights[i];
+      const lightLayers = this.getRequiredLayers(light);
+      if (lightLayers === 0 || layerCount + lightLayers > MAX_SHADOW_MAPS) continue;
+
+      this.lightShadows[i * 3 + 0] = layerCount;
+      this.lightShadows[i * 3 + 1] = lightLayers;
+      this.lightShadows[i * 3 + 2] = Math.min(light.shadowStrength ?? DEFAULT_SHADOW_SETTINGS.strength, 1);
+      this.lightShadowBias[i * 2 + 0] = light.shadowBias ?? DEFAULT_SHADOW_SETTINGS.bias;
+      this.lightShadowBias[i * 2 + 1] = light.shadowNormalBias ?? DEFAULT_SHADOW_SETTINGS.normalBias;
+
+      shadowedLights.push(light);
+      layerCount += lightLayers;
+      resolution = Math.max(resolution, light.shadowResolution ?? DEFAULT_SHADOW_SETTINGS.resolution);
+    }
+
+    if (layerCount === 0) {
+      // Release the previous maps; shaders still need a texture to bind
+      this.ensureStorage(1, 1);
+      return;
+    }
+
+    const size = this.maxTextureSize ? Math.min(resolution, this.maxTextureSize) : resolution;
+    this.ensureStorage(size, layerCount);
+
+    const views: Float32Array[] = [];
+    for (const light of shadowedLights) {
+      if (light.lightType === 'directional') {
+        views.push(...this.computeCascadeViews(camera, light.direction, size));
+      } else {
+        views.push(this.computeSpotView(light));
+      }
+    }
+
+    views.forEach((viewProjection, layer) => {
+      this.shadowMatrices.set(mat4Multiply(CLIP_TO_TEXTURE, viewProjection), layer * 16);
+    });
+
+    this.drawLayers(views, items);
+  }
+
+  /**
+   * Get the shadow uniforms produced by the last render().
+   */
+  getUniforms(): ShadowUniforms {
+    return {
+      shadowMap: this.depthTexture ?? this.ensureStorage(1, 1),
+      shadowMatrices: this.shadowMatrices,
+      lightShadows: this.lightShadows,
+      lightShadowBias: this.lightShadowBias,
+    };
+  }
+
+  /**
+   * Get the current shadow map size in texels per side.
+   */
+  getTextureSize(): number {
+    return this.textureSize;
+  }
+
+  /**
+   * Get the number of layers in the shadow map array.
+   */
+  getLayerCount(): number {
+    return this.textureLayers;
+  }
+
+  /**
+   * Release all GPU resources.
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    if (this.depthTexture) gl.deleteTexture(this.depthTexture);
+    if (this.jointTexture) gl.deleteTexture(this.jointTexture);
+    if (this.framebuffer) gl.deleteFramebuffer(this.framebuffer);
+    if (this.program) gl.deleteProgram(this.program);
+
+    this.depthTexture = null;
+    this.jointTexture = null;
+    this.framebuffer = null;
+    this.program = null;
+    this.textureSize = 0;
+    this.textureLayers = 0;
+  }
+
+  /**
+   * Get the number of shadow map layers a light needs (0 = no shadows).
+   */
+  private getRequiredLayers(light: LightData): number {
+    if (!light.castShadows || (light.shadowStrength ?? DEFAULT_SHADOW_SETTINGS.strength) <= 0) {
+      return 0;
+    }
+
+    switch (light.lightType) {
+      case 'directional':
+        return SHADOW_CASCADE_COUNT;
+      case 'spot':
+        return 1;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Draw every item into each layer. Assumes depth testing is enabled and
+   * back-face culling was on; restores the framebuffer and viewport.
+   */
+  private drawLayers(views: readonly Float32Array[], items: readonly ShadowDrawItem[]): void {
+    const gl = this.gl;
+    if (!this.program || !this.framebuffer || !this.depthTexture) return;
+
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const previousViewport = gl.getParameter(gl.VIEWPORT) as Int32Array | null;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.viewport(0, 0, this.textureSize, this.textureSize);
+    gl.useProgram(this.program);
+
+    // Single-sided geometry such as planes must still cast
+    gl.disable(gl.CULL_FACE);
+    gl.enable(gl.POLYGON_OFFSET_FILL);
+    gl.polygonOffset(POLYGON_OFFSET_FACTOR, POLYGON_OFFSET_UNITS);
+
+    views.forEach((viewProjection, layer) => {
+      gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, this.depthTexture, 0, layer);
+      gl.clear(gl.DEPTH_BUFFER_BIT);
+      gl.uniformMatrix4fv(this.viewProjectionLocation, false, viewProjection);
+
+      for (const item of items) {
+        const resources = this.meshGPUCache.getOrCreateSolid(item.id, item.meshData, this.program);
+        gl.uniformMatrix4fv(this.modelMatrixLocation, false, item.modelMatrix);
+        this.setSkinning(item.jointMatrices ?? null);
+        gl.bindVertexArray(resources.vao);
+        gl.drawElements(gl.TRIANGLES, resources.indexCount, resources.indexType, 0);
+      }
+    });
+
+    gl.bindVertexArray(null);
+    gl.disable(gl.POLYGON_OFFSET_FILL);
+    gl.enable(gl.CULL_FACE);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+    if (previousViewport) {
+      gl.viewport(previousViewport[0], previousViewport[1], previousViewport[2], previousViewport[3]);
+    }
+  }
+
+  /**
+   * Upload joint matrices for a skinned draw, or mark the draw unskinned.
+   */
+  private setSkinning(jointMatrices: Float32Array | null): void {
+    const gl = this.gl;
+    const skinned = jointMatrices !== null && jointMatrices.length >= 16;
+
+    gl.uniform1i(this.skinnedLocation, skinned ? 1 : 0);
+    if (!skinned) return;
+
+    if (!this.jointTexture) {
+      this.jointTexture = gl.createTexture();
+      if (!this.jointTexture) return;
+      gl.activeTexture(gl.TEXTURE0 + JOINT_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_2D, this.jointTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    }
+
+    // One joint per row, one matrix column per texel
+    const jointCount = Math.floor(jointMatrices.length / 16);
+    gl.activeTexture(gl.TEXTURE0 + JOINT_TEXTURE_UNIT);
+    gl.bindTexture(gl.TEXTURE_2D, this.jointTexture);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA32F, 4, jointCount, 0, gl.RGBA, gl.FLOAT,
+      jointMatrices.subarray(0, jointCount * 16),
+    );
+    gl.uniform1i(this.jointMatricesLocation, JOINT_TEXTURE_UNIT);
+  }
+
+  /**
+   * Compute orthographic view-projections for each cascade of a directional light.
+   *
+   * Each cascade bounds a slice of the camera frustum with a sphere, so its
+   * size does not change as the camera rotates, and is snapped to whole
+   * texels to keep shadow edges from shimmering as the camera moves.
+   */
+  private computeCascadeViews(camera: ICamera, direction: Vec3, size: number): Float32Array[] {
+    const lightDir = this.normalizeOrDown(direction);
+    const up = this.getLightUp(lightDir);
+    const splits = this.getCascadeSplits(camera);
+    const views: Float32Array[] = [];
+
+    for (let i = 0; i < SHADOW_CASCADE_COUNT; i++) {
+      const { center, radius: sliceRadius } = this.getFrustumSliceSphere(camera, splits[i], splits[i + 1]);
+      const radius = Math.ceil(sliceRadius * 16) / 16;
+      const distance = radius + CASCADE_CASTER_DISTANCE;
+
+      const eye: Vec3 = [
+        center[0] - lightDir[0] * distance,
+        center[1] - lightDir[1] * distance,
+        center[2] - lightDir[2] * distance,
+      ];
+      const view = mat4LookAt(eye, center, up);
+      const projection = mat4Orthographic(-radius, radius, -radius, radius, 0, distance + radius);
+
+      // Shift by the sub-texel offset of the world origin
+      const origin = mat4Multiply(projection, view);
+      const halfSize = size / 2;
+      const x = origin[12] * halfSize;
+      const y = origin[13] * halfSize;
+      projection[12] += (Math.round(x) - x) / halfSize;
+      projection[13] += (Math.round(y) - y) / halfSize;
+
+      views.push(mat4Multiply(projection, view));
+    }
+
+    return views;
+  }
+
+  /**
+   * Compute the perspective view-projection covering a spot light's cone.
+   */
+  private computeSpotView(light: LightData): Float32Array {
+    const range = light.range && light.range > 0 ? light.range : UNLIMITED_SPOT_RANGE;
+    const spotAngle = Math.min(Math.max(light.spotAngle ?? 30, 1), 179);
+    const lightDir = this.normalizeOrDown(light.direction);
+    const position = light.position;
+
+    const target: Vec3 = [
+      position[0] + lightDir[0],
+      position[1] + lightDir[1],
+      position[2] + lightDir[2],
+    ];
+    const view = mat4LookAt(position, target, this.getLightUp(lightDir));
+    const projection = mat4Perspective(degToRad(spotAngle), 1, Math.max(range * 0.01, 0.05), range);
+
+    return mat4Multiply(projection, view);
+  }
+
+  /**
+   * Get cascade boundary distances from the camera, near to far
+   * (SHADOW_CASCADE_COUNT + 1 values).
+   */
+  private getCascadeSplits(camera: ICamera): number[] {
+    const near = camera.near;
+    const far = Math.max(Math.min(camera.far, MAX_SHADOW_DISTANCE), near * 2);
+    const splits = [near];
+
+    for (let i = 1; i <= SHADOW_CASCADE_COUNT; i++) {
+      const t = i / SHADOW_CASCADE_COUNT;
+      const uniform = near + (far - near) * t;
+      const logarithmic = near * Math.pow(far / near, t);
+      splits.push(uniform + (logarithmic - uniform) * CASCADE_SPLIT_LAMBDA);
+    }
+
+    return splits;
+  }
+
+  /**
+   * Bound the slice of the camera frustum between two view distances.
+   */
+  private getFrustumSliceSphere(
+    camera: ICamera,
+    nearDistance: number,
+    farDistance: number,
+  ): { center: Vec3; radius: number } {
+    const forward = this.normalizeOrDown(vec3Subtract(camera.target, camera.position));
+    const right = vec3Normalize(vec3Cross(forward, camera.up));
+    const up = vec3Cross(right, forward);
+    const tanHalfFov = Math.tan(camera.fov / 2);
+    const orthographic = camera.projection === 'orthographic';
+
+    const corners: Vec3[] = [];
+    for (const distance of [nearDistance, farDistance]) {
+      const halfHeight = orthographic ? camera.orthographicSize ?? 0 : distance * tanHalfFov;
+      const halfWidth = halfHeight * camera.aspect;
+      for (const sx of [-1, 1]) {
+        for (const sy of [-1, 1]) {
+          corners.push([
+            camera.position[0] + forward[0] * distance + right[0] * halfWidth * sx + up[0] * halfHeight * sy,
+            camera.position[1] + forward[1] * distance + right[1] * halfWidth * sx + up[1] * halfHeight * sy,
+            camera.position[2] + forward[2] * distance + right[2] * halfWidth * sx + up[2] * halfHeight * sy,
+          ]);
+        }
+      }
+    }
+
+    const center: Vec3 = [0, 0, 0];
+    for (const corner of corners) {
+      center[0] += corner[0] / corners.length;
+      center[1] += corner[1] / corners.length;
+      center[2] += corner[2] / corners.length;
+    }
+
+    let radius = 0;
+    for (const corner of corners) {
+      const offset = vec3Subtract(corner, center);
+      radius = Math.max(radius, Math.hypot(offset[0], offset[1], offset[2]));
+    }
+
+    return { center, radius };
+  }
+
+  /**
+   * Pick an up vector that is not parallel to the light direction (Z-up scene).
+   */
+  private getLightUp(lightDir: Vec3): Vec3 {
+    return Math.abs(lightDir[2]) > 0.99 ? [0, 1, 0] : [0, 0, 1];
+  }
+
+  /**
+   * Normalize a direction, falling back to straight down for zero vectors.
+   */
+  private normalizeOrDown(direction: Vec3): Vec3 {
+    const normalized = vec3Normalize(direction);
+    return normalized[0] === 0 && normalized[1] === 0 && normalized[2] === 0
+      ? [0, 0, -1]
+      : normalized;
+  }
+
+  /**
+   * (Re)allocate the depth texture array when its size or layer count changes.
+   */
+  private ensureStorage(size: number, layers: number): WebGLTexture {
+    if (this.depthTexture && this.textureSize === size && this.textureLayers === layers) {
+      return this.depthTexture;
+    }
+
+    const gl = this.gl;
+    if (this.depthTexture) {
+      gl.deleteTexture(this.depthTexture);
+    }
+
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create shadow map texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, texture);
+    gl.texStorage3D(gl.TEXTURE_2D_ARRAY, 1, gl.DEPTH_COMPONENT32F, size, size, layers);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_COMPARE_MODE, gl.COMPARE_REF_TO_TEXTURE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_COMPARE_FUNC, gl.LEQUAL);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+
+    this.depthTexture = texture;
+    this.textureSize = size;
+    this.textureLayers = layers;
+    return texture;
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
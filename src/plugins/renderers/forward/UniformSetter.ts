@@ -3,14 +3,73 @@ import type { ShaderEditorService } from '@core/ShaderEditorService';
 import type { AssetRegistry } from '@core/assets/AssetRegistry';
 import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
 import type { IShaderAsset, IUniformDeclaration } from '@core/assets/interfaces/IShaderAsset';
+import { isAssetReference } from '@core/assets/interfaces/IAssetReference';
+import { isTextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import type { TextureGPUCache } from '../shared/TextureGPUCache';
+import type { EnvironmentMapCache } from '../environment/EnvironmentMapCache';
+import type { EnvironmentMaps } from '../environment/EnvironmentMapBaker';
+
+/**
+ * Texture units available to a single draw.
+ * WebGL2 guarantees at least 16 fragment texture image units.
+ */
+const MAX_TEXTURE_UNITS = 16;
+
+/**
+ * Texture unit reserved for the shadow map array.
+ */
+export const SHADOW_MAP_TEXTURE_UNIT = MAX_TEXTURE_UNITS - 1;
+
+/**
+ * Texture unit reserved for the joint matrix texture of skinned meshes.
+ */
+export const JOINT_MATRIX_TEXTURE_UNIT = SHADOW_MAP_TEXTURE_UNIT - 1;
+
+/**
+ * Texture units reserved for image-based lighting (see common/ibl.glsl).
+ * Material samplers are allocated from the units below them.
+ */
+export const IRRADIANCE_MAP_TEXTURE_UNIT = JOINT_MATRIX_TEXTURE_UNIT - 1;
+export const PREFILTERED_MAP_TEXTURE_UNIT = IRRADIANCE_MAP_TEXTURE_UNIT - 1;
+export const BRDF_LUT_TEXTURE_UNIT = PREFILTERED_MAP_TEXTURE_UNIT - 1;
+
+export interface ShadowUniforms {
+  /** Depth texture array holding every shadow map layer */
+  readonly shadowMap: WebGLTexture;
+  /** World-to-shadow-texture matrices, one per layer (16 floats each) */
+  readonly shadowMatrices: Float32Array;
+  /** Per light: first layer, layer count (0 = unshadowed), strength (3 floats per light) */
+  readonly lightShadows: Float32Array;
+  /** Per light: depth bias, normal bias in world units (2 floats per light) */
+  readonly lightShadowBias: Float32Array;
+}
+
+export interface EnvironmentUniforms {
+  /** Baked maps of the scene's environment, or null to use the ambient color */
+  readonly maps: EnvironmentMaps | null;
+  /** Environment intensity multiplier */
+  readonly intensity: number;
+}
 
 export interface FrameUniforms {
   readonly viewProjectionMatrix: Float32Array;
   readonly cameraPosition: readonly [number, number, number];
   readonly lightDirections: Float32Array;
   readonly lightColors: Float32Array;
+  /** World positions for point/spot lights (3 floats per light) */
+  readonly lightPositions: Float32Array;
+  /** Light type codes: 0 = directional, 1 = point, 2 = spot */
+  readonly lightTypes: Int32Array;
+  /** Falloff range for point/spot lights (0 = unlimited) */
+  readonly lightRanges: Float32Array;
+  /** Spot cone cosines: outer half-angle, inner half-angle (2 floats per light) */
+  readonly lightSpotCones: Float32Array;
   readonly lightCount: number;
   readonly ambientColor: readonly [number, number, number];
+  readonly shadows: ShadowUniforms;
+  readonly environment: EnvironmentUniforms;
+  /** Whether shaders write linear HDR for the post-processing stack (uHDROutput) */
+  readonly hdrOutput: boolean;
 }
 
 export interface ObjectUniforms {
@@ -18,18 +77,25 @@ export interface ObjectUniforms {
   readonly modelMatrix: Float32Array;
   readonly normalMatrix: Float32Array;
   readonly material: IMaterialComponent | null;
+  /** Joint matrices of a skinned mesh (16 floats per joint), or null when unskinned */
+  readonly jointMatrices?: Float32Array | null;
 }
 
 export interface UniformSetterOptions {
   readonly gl: WebGL2RenderingContext;
   readonly shaderEditorService: ShaderEditorService;
   readonly assetRegistry: AssetRegistry | null;
+  readonly textureCache?: TextureGPUCache | null;
+  readonly environmentCache?: EnvironmentMapCache | null;
 }
 
 /**
  * Applies renderer, transform, and material uniforms for shader assets.
  */
 export class UniformSetter {
+  private nextTextureUnit = 0;
+  private jointTexture: WebGLTexture | null = null;
+
   constructor(private readonly options: UniformSetterOptions) {}
 
   setFrameUniforms(shaderUUID: string, uniforms: FrameUniforms): void {
@@ -49,11 +115,29 @@ export class UniformSetter {
     const lightColLoc = locations.get('uLightColors');
     if (lightColLoc) gl.uniform3fv(lightColLoc, uniforms.lightColors);
 
+    const lightPosLoc = locations.get('uLightPositions');
+    if (lightPosLoc) gl.uniform3fv(lightPosLoc, uniforms.lightPositions);
+
+    const lightTypeLoc = locations.get('uLightTypes');
+    if (lightTypeLoc) gl.uniform1iv(lightTypeLoc, uniforms.lightTypes);
+
+    const lightRangeLoc = locations.get('uLightRanges');
+    if (lightRangeLoc) gl.uniform1fv(lightRangeLoc, uniforms.lightRanges);
+
+    const lightConeLoc = locations.get('uLightSpotCones');
+    if (lightConeLoc) gl.uniform2fv(lightConeLoc, uniforms.lightSpotCones);
+
     const lightCountLoc = locations.get('uLightCount');
     if (lightCountLoc) gl.uniform1i(lightCountLoc, uniforms.lightCount);
 
     const ambientLoc = locations.get('uAmbientColor');
     if (ambientLoc) gl.uniform3fv(ambientLoc, uniforms.ambientColor);
+
+    const hdrOutputLoc = locations.get('uHDROutput');
+    if (hdrOutputLoc) gl.uniform1i(hdrOutputLoc, uniforms.hdrOutput ? 1 : 0);
+
+    this.setShadowUniforms(locations, uniforms.shadows);
+    this.setEnvironmentUniforms(locations, uniforms.environment);
   }
 
   setObjectUniforms(uniforms: ObjectUniforms): void {
@@ -67,7 +151,8 @@ export class UniformSetter {
     const normalLoc = locations.get('uNormalMatrix');
     if (normalLoc) gl.uniformMatrix3fv(normalLoc, false, uniforms.normalMatrix);
 
-    const parameters = this.getMaterialParameters(uniforms.material);
+    this.setSkinningUniforms(locations, uniforms.jointMatrices ?? null);
+
     const shader = this.options.assetRegistry?.get<IShaderAsset>(uniforms.shaderUUID);
 
     if (!shader) {
@@ -75,11 +160,32 @@ export class UniformSetter {
       return;
     }
 
-    for (const uniform of shader.uniforms) {
+    this.setMaterialUniforms(locations, shader.uniforms, uniforms.material);
+  }
+
+  /**
+   * Resolve and apply material uniforms for a set of declarations.
+   *
+   * Used directly by passes that own their program (such as the deferred
+   * G-buffer pass) but read materials written for a built-in shader asset.
+   * Values come from the material asset's parameters, then the component
+   * color/opacity, then the declaration's default.
+   */
+  setMaterialUniforms(
+    locations: Map<string, WebGLUniformLocation | null>,
+    declarations: readonly IUniformDeclaration[],
+    material: IMaterialComponent | null,
+  ): void {
+    // Texture units are allocated per draw
+    this.nextTextureUnit = 0;
+
+    const parameters = this.getMaterialParameters(material);
+
+    for (const uniform of declarations) {
       const loc = locations.get(uniform.name);
       if (!loc) continue;
 
-      const value = this.resolveUniformValue(uniform, parameters, uniforms.material);
+      const value = this.resolveUniformValue(uniform, parameters, material);
       this.setUniformValue(loc, uniform, value);
     }
   }
@@ -123,10 +229,181 @@ export class UniformSetter {
         gl.uniformMatrix4fv(location, false, value as Float32Array | number[]);
         break;
       case 'sampler2D':
+        this.bindSampler(location, value);
         break;
     }
   }
 
+  /**
+   * Bind the texture referenced by a sampler value to the next free texture
+   * unit. Accepts an `IAssetReference` or a bare texture UUID; unassigned or
+   * unknown textures bind the white fallback so `texture() * factor` is a no-op.
+   */
+  private bindSampler(location: WebGLUniformLocation, value: unknown): void {
+    const { gl, textureCache } = this.options;
+    if (!textureCache) return;
+
+    if (this.nextTextureUnit >= BRDF_LUT_TEXTURE_UNIT) {
+      console.warn(`UniformSetter: more than ${BRDF_LUT_TEXTURE_UNIT} samplers in one draw`);
+      return;
+    }
+
+    const unit = this.nextTextureUnit++;
+    const texture = this.resolveTexture(value, textureCache) ?? textureCache.getFallback();
+
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(location, unit);
+  }
+
+  /**
+   * Bind the shadow map array to its reserved unit and upload the per-layer
+   * matrices and per-light shadow parameters. The array is always bound when
+   * the shader samples it, so its sampler never aliases a material texture unit.
+   */
+  private setShadowUniforms(
+    locations: Map<string, WebGLUniformLocation | null>,
+    shadows: ShadowUniforms,
+  ): void {
+    const { gl } = this.options;
+
+    const shadowMapLoc = locations.get('uShadowMaps');
+    if (shadowMapLoc) {
+      gl.activeTexture(gl.TEXTURE0 + SHADOW_MAP_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_2D_ARRAY, shadows.shadowMap);
+      gl.uniform1i(shadowMapLoc, SHADOW_MAP_TEXTURE_UNIT);
+    }
+
+    const matricesLoc = locations.get('uShadowMatrices');
+    if (matricesLoc) gl.uniformMatrix4fv(matricesLoc, false, shadows.shadowMatrices);
+
+    const lightShadowsLoc = locations.get('uLightShadows');
+    if (lightShadowsLoc) gl.uniform3fv(lightShadowsLoc, shadows.lightShadows);
+
+    const biasLoc = locations.get('uLightShadowBias');
+    if (biasLoc) gl.uniform2fv(biasLoc, shadows.lightShadowBias);
+  }
+
+  /**
+   * Bind the image-based lighting maps to their reserved units. Without an
+   * environment the cache's black fallbacks are bound, so the cube samplers
+   * never alias a material texture unit, and uUseEnvironment is off.
+   *
+   * Used directly by passes that own their program (such as the deferred
+   * lighting pass).
+   */
+  setEnvironmentUniforms(
+    locations: Map<string, WebGLUniformLocation | null>,
+    environment: EnvironmentUniforms,
+  ): void {
+    const { gl, environmentCache } = this.options;
+    const maps = environment.maps ?? environmentCache?.getFallback() ?? null;
+
+    const useLoc = locations.get('uUseEnvironment');
+    if (useLoc) gl.uniform1i(useLoc, environment.maps ? 1 : 0);
+
+    const intensityLoc = locations.get('uEnvironmentIntensity');
+    if (intensityLoc) gl.uniform1f(intensityLoc, environment.intensity);
+
+    const maxLodLoc = locations.get('uPrefilteredMaxLod');
+    if (maxLodLoc) gl.uniform1f(maxLodLoc, Math.max((maps?.prefilteredLevels ?? 1) - 1, 0));
+
+    const irradianceLoc = locations.get('uIrradianceMap');
+    if (irradianceLoc && maps) {
+      gl.activeTexture(gl.TEXTURE0 + IRRADIANCE_MAP_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_CUBE_MAP, maps.irradiance);
+      gl.uniform1i(irradianceLoc, IRRADIANCE_MAP_TEXTURE_UNIT);
+    }
+
+    const prefilteredLoc = locations.get('uPrefilteredMap');
+    if (prefilteredLoc && maps) {
+      gl.activeTexture(gl.TEXTURE0 + PREFILTERED_MAP_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_CUBE_MAP, maps.prefiltered);
+      gl.uniform1i(prefilteredLoc, PREFILTERED_MAP_TEXTURE_UNIT);
+    }
+
+    const brdfLoc = locations.get('uBrdfLut');
+    if (brdfLoc && environmentCache) {
+      gl.activeTexture(gl.TEXTURE0 + BRDF_LUT_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_2D, environmentCache.getBRDFLookupTable());
+      gl.uniform1i(brdfLoc, BRDF_LUT_TEXTURE_UNIT);
+    }
+  }
+
+  /**
+   * Upload joint matrices for a skinned draw and bind the joint texture to
+   * its reserved unit. Like the shadow map, the texture is bound whenever
+   * the shader samples it, even for unskinned draws.
+   *
+   * Used directly by passes that own their program (such as the deferred
+   * G-buffer pass).
+   */
+  setSkinningUniforms(
+    locations: Map<string, WebGLUniformLocation | null>,
+    jointMatrices: Float32Array | null,
+  ): void {
+    const { gl } = this.options;
+    const skinned = jointMatrices !== null && jointMatrices.length >= 16;
+
+    const skinnedLoc = locations.get('uSkinned');
+    if (skinnedLoc) gl.uniform1i(skinnedLoc, skinned ? 1 : 0);
+
+    const jointsLoc = locations.get('uJointMatrices');
+    if (!jointsLoc) return;
+
+    if (!this.jointTexture) {
+      this.jointTexture = gl.createTexture();
+      if (!this.jointTexture) return;
+      gl.activeTexture(gl.TEXTURE0 + JOINT_MATRIX_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_2D, this.jointTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      // Single identity joint until a skinned draw uploads real matrices
+      gl.texImage2D(
+        gl.TEXTURE_2D, 0, gl.RGBA32F, 4, 1, 0, gl.RGBA, gl.FLOAT,
+        new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]),
+      );
+    }
+
+    gl.activeTexture(gl.TEXTURE0 + JOINT_MATRIX_TEXTURE_UNIT);
+    gl.bindTexture(gl.TEXTURE_2D, this.jointTexture);
+    if (skinned) {
+      // One joint per row, one matrix column per texel
+      const jointCount = Math.floor(jointMatrices.length / 16);
+      gl.texImage2D(
+        gl.TEXTURE_2D, 0, gl.RGBA32F, 4, jointCount, 0, gl.RGBA, gl.FLOAT,
+        jointMatrices.subarray(0, jointCount * 16),
+      );
+    }
+    gl.uniform1i(jointsLoc, JOINT_MATRIX_TEXTURE_UNIT);
+  }
+
+  /**
+   * Release the joint matrix texture.
+   */
+  dispose(): void {
+    if (this.jointTexture) {
+      this.options.gl.deleteTexture(this.jointTexture);
+      this.jointTexture = null;
+    }
+  }
+
+  private resolveTexture(value: unknown, textureCache: TextureGPUCache): WebGLTexture | null {
+    let uuid: string | null = null;
+    if (isAssetReference(value)) {
+      uuid = value.uuid;
+    } else if (typeof value === 'string' && value.length > 0) {
+      uuid = value;
+    }
+
+    if (!uuid) return null;
+
+    const asset = this.options.assetRegistry?.get(uuid);
+    return isTextureAsset(asset) ? textureCache.getOrCreate(asset) : null;
+  }
+
   private getMaterialParameters(material: IMaterialComponent | null): Record<string, unknown> {
     if (!material?.materialAssetRef || !this.options.assetRegistry) {
       return {};
@@ -6,5 +6,13 @@
 
 export { ForwardRenderer } from './ForwardRenderer';
 export { ShaderResolver } from './ShaderResolver';
-export { UniformSetter } from './UniformSetter';
-export type { FrameUniforms, ObjectUniforms } from './UniformSetter';
+export {
+  UniformSetter,
+  SHADOW_MAP_TEXTURE_UNIT,
+  IRRADIANCE_MAP_TEXTURE_UNIT,
+  PREFILTERED_MAP_TEXTURE_UNIT,
+  BRDF_LUT_TEXTURE_UNIT,
+} from './UniformSetter';
+export type { FrameUniforms, ObjectUniforms, ShadowUniforms, EnvironmentUniforms } from './UniformSetter';
+export { ShadowMapPass, MAX_SHADOW_MAPS, SHADOW_CASCADE_COUNT } from './ShadowMapPass';
+export type { ShadowDrawItem } from './ShadowMapPass';
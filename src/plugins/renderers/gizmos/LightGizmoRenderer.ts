@@ -6,15 +6,17 @@
  *
  * Features:
  * - Directional light: Sun icon (billboard) + direction arrow
+ * - Point light: Sun icon + range sphere (three rings) when selected
+ * - Spot light: Sun icon + direction arrow + range cone when selected
  * - Uses light's color for visualization
  * - Sun icon always faces camera (billboard)
- * - Arrow follows light's actual direction from transform
- * - Only visible when light is selected
+ * - Arrow and cone follow light's actual direction from transform
  */
 
 import type { EventBus } from '@core/EventBus';
 import type { ICamera } from '@core/interfaces';
-import { isLightDirectionProvider } from '@core/interfaces';
+import type { ISceneObject } from '@core/interfaces';
+import { getObjectWorldMatrix, isLightDirectionProvider } from '@core/interfaces';
 import type { ILightComponent } from '@core/interfaces/ILightComponent';
 
 /**
@@ -34,8 +36,24 @@ interface LightVisualData {
   direction: [number, number, number];
   color: [number, number, number];
   lightType: string;
+  range: number;
+  spotAngle: number;
 }
 
+/**
+ * Axes used to draw a point light's range sphere as three great circles.
+ */
+const RANGE_RING_AXES: [number, number, number][] = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+/**
+ * Segments used for circles in range and cone outlines.
+ */
+const OUTLINE_SEGMENTS = 32;
+
 /**
  * Billboard vertex shader - always faces camera.
  * Uses camera right/up vectors to orient vertices.
@@ -65,6 +83,9 @@ void main() {
  * Arrow vertex shader - rotates to match light direction.
  * Uses a rotation matrix derived from the light direction.
  * Arrow points in the direction light travels (from sun toward scene).
+ *
+ * Also draws range rings and spot cones: any geometry built along +Z is
+ * scaled per-axis by uScale, then rotated to uLightDirection.
  */
 const ARROW_VERTEX_SHADER = `#version 300 es
 precision highp float;
@@ -74,7 +95,7 @@ in vec3 aPosition;
 uniform mat4 uViewProjectionMatrix;
 uniform vec3 uWorldPosition;
 uniform vec3 uLightDirection;
-uniform float uScale;
+uniform vec3 uScale;
 
 void main() {
   // Build rotation matrix to align arrow with light direction
@@ -91,9 +112,9 @@ void main() {
   // This rotates +Z to point along dir
   mat3 rotation = mat3(right, up, dir);
 
-  // Transform vertex: rotate then scale, then translate to world position
-  vec3 rotatedPos = rotation * aPosition;
-  vec3 worldPos = rotatedPos * uScale + uWorldPosition;
+  // Transform vertex: scale, rotate, then translate to world position
+  vec3 rotatedPos = rotation * (aPosition * uScale);
+  vec3 worldPos = rotatedPos + uWorldPosition;
 
   gl_Position = uViewProjectionMatrix * vec4(worldPos, 1.0);
 }
@@ -150,15 +171,29 @@ export class LightGizmoRenderer {
   private sunVBO: WebGLBuffer | null = null;
   private arrowVAO: WebGLVertexArrayObject | null = null;
   private arrowVBO: WebGLBuffer | null = null;
+  private circleVAO: WebGLVertexArrayObject | null = null;
+  private circleVBO: WebGLBuffer | null = null;
+  private coneVAO: WebGLVertexArrayObject | null = null;
+  private coneVBO: WebGLBuffer | null = null;
 
   // Geometry counts
   private sunVertexCount = 0;
   private arrowVertexCount = 0;
+  private circleVertexCount = 0;
+  private coneVertexCount = 0;
+
+  // Range and cone outlines are only drawn for selected lights
+  private readonly selectedIds = new Set<string>();
+  private readonly unsubscribeSelection: () => void;
 
   private initialized = false;
 
   constructor(config: LightGizmoRendererConfig) {
     this.gl = config.gl;
+    this.unsubscribeSelection = config.eventBus.on(
+      'selection:changed',
+      (data: { id?: string | null; selected?: { id: string }[] }) => this.handleSelectionChanged(data)
+    );
   }
 
   /**
@@ -190,6 +225,10 @@ export class LightGizmoRenderer {
     // Create direction arrow geometry (points along +Z, will be rotated)
     this.createArrowGeometry();
 
+    // Create range ring and spot cone outlines (built along +Z, drawn with the arrow shader)
+    this.createCircleGeometry();
+    this.createConeGeometry();
+
     this.initialized = true;
   }
 
@@ -217,8 +256,19 @@ export class LightGizmoRenderer {
     // Draw billboarded sun icon
     this.drawSunIcon(viewProjection, lightData, cameraRight, cameraUp);
 
-    // Draw direction arrow
-    this.drawDirectionArrow(viewProjection, lightData);
+    // Draw direction arrow (point lights have no direction)
+    if (lightData.lightType !== 'point') {
+      this.drawDirectionArrow(viewProjection, lightData);
+    }
+
+    // Draw range/cone outlines for the selected light
+    if (this.selectedIds.has(lightData.id)) {
+      if (lightData.lightType === 'point') {
+        this.drawRangeRings(viewProjection, lightData);
+      } else if (lightData.lightType === 'spot') {
+        this.drawSpotCone(viewProjection, lightData);
+      }
+    }
 
     // Restore depth test
     gl.enable(gl.DEPTH_TEST);
@@ -234,12 +284,35 @@ export class LightGizmoRenderer {
     if (this.sunVBO) gl.deleteBuffer(this.sunVBO);
     if (this.arrowVAO) gl.deleteVertexArray(this.arrowVAO);
     if (this.arrowVBO) gl.deleteBuffer(this.arrowVBO);
+    if (this.circleVAO) gl.deleteVertexArray(this.circleVAO);
+    if (this.circleVBO) gl.deleteBuffer(this.circleVBO);
+    if (this.coneVAO) gl.deleteVertexArray(this.coneVAO);
+    if (this.coneVBO) gl.deleteBuffer(this.coneVBO);
     if (this.billboardProgram) gl.deleteProgram(this.billboardProgram);
     if (this.arrowProgram) gl.deleteProgram(this.arrowProgram);
 
+    this.unsubscribeSelection();
     this.initialized = false;
   }
 
+  /**
+   * Track selection from both the full SelectionManager payload
+   * and the simplified `{ id }` payload used for hierarchy sync.
+   */
+  private handleSelectionChanged(data: { id?: string | null; selected?: { id: string }[] }): void {
+    if (Array.isArray(data.selected)) {
+      this.selectedIds.clear();
+      for (const obj of data.selected) {
+        this.selectedIds.add(obj.id);
+      }
+    } else if (data.id !== undefined) {
+      this.selectedIds.clear();
+      if (data.id !== null) {
+        this.selectedIds.add(data.id);
+      }
+    }
+  }
+
   /**
    * Extract light data from an entity for visualization.
    */
@@ -264,18 +337,23 @@ export class LightGizmoRenderer {
     const lightComponent = e.getComponent?.('light') as ILightComponent | null;
     if (!lightComponent) return null;
 
-    // Get direction from ILightDirectionProvider (computed from transform rotation)
+    // Get direction from ILightDirectionProvider (computed from world rotation)
     let direction: [number, number, number] = [0, -1, 0];
     if (isLightDirectionProvider(entity)) {
       direction = entity.getWorldDirection();
     }
 
+    // Place the gizmo where the light is, including parent transforms
+    const worldMatrix = getObjectWorldMatrix(entity as ISceneObject);
+
     return {
       id: e.id,
-      position: [...e.transform.position] as [number, number, number],
+      position: [worldMatrix[12], worldMatrix[13], worldMatrix[14]],
       direction,
       color: lightComponent.color,
       lightType: lightComponent.lightType,
+      range: lightComponent.range ?? 10,
+      spotAngle: lightComponent.spotAngle ?? 30,
     };
   }
 
@@ -333,7 +411,7 @@ export class LightGizmoRenderer {
     gl.uniformMatrix4fv(this.uArrowViewProjection, false, viewProjection);
     gl.uniform3fv(this.uArrowWorldPosition, light.position);
     gl.uniform3fv(this.uArrowLightDirection, light.direction);
-    gl.uniform1f(this.uArrowScale, 1);
+    gl.uniform3f(this.uArrowScale, 1, 1, 1);
     gl.uniform3fv(this.uArrowColor, light.color);
 
     gl.bindVertexArray(this.arrowVAO);
@@ -341,6 +419,48 @@ export class LightGizmoRenderer {
     gl.bindVertexArray(null);
   }
 
+  /**
+   * Draw a point light's range as three great circles of radius `range`.
+   */
+  private drawRangeRings(viewProjection: Float32Array, light: LightVisualData): void {
+    const gl = this.gl;
+
+    gl.useProgram(this.arrowProgram);
+
+    gl.uniformMatrix4fv(this.uArrowViewProjection, false, viewProjection);
+    gl.uniform3fv(this.uArrowWorldPosition, light.position);
+    gl.uniform3f(this.uArrowScale, light.range, light.range, light.range);
+    gl.uniform3fv(this.uArrowColor, light.color);
+
+    gl.bindVertexArray(this.circleVAO);
+    for (const axis of RANGE_RING_AXES) {
+      gl.uniform3fv(this.uArrowLightDirection, axis);
+      gl.drawArrays(gl.LINES, 0, this.circleVertexCount);
+    }
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Draw a spot light's cone, reaching `range` along the light direction
+   * and opening to the full `spotAngle`.
+   */
+  private drawSpotCone(viewProjection: Float32Array, light: LightVisualData): void {
+    const gl = this.gl;
+    const radius = light.range * Math.tan((light.spotAngle * Math.PI) / 360);
+
+    gl.useProgram(this.arrowProgram);
+
+    gl.uniformMatrix4fv(this.uArrowViewProjection, false, viewProjection);
+    gl.uniform3fv(this.uArrowWorldPosition, light.position);
+    gl.uniform3fv(this.uArrowLightDirection, light.direction);
+    gl.uniform3f(this.uArrowScale, radius, radius, light.range);
+    gl.uniform3fv(this.uArrowColor, light.color);
+
+    gl.bindVertexArray(this.coneVAO);
+    gl.drawArrays(gl.LINES, 0, this.coneVertexCount);
+    gl.bindVertexArray(null);
+  }
+
   /**
    * Create geometry for the sun icon (circle with rays in XY plane).
    */
@@ -430,6 +550,73 @@ export class LightGizmoRenderer {
     gl.bindVertexArray(null);
   }
 
+  /**
+   * Create geometry for a unit circle in the XY plane (normal along +Z).
+   */
+  private createCircleGeometry(): void {
+    const vertices = this.buildCircleVertices(0);
+    this.circleVertexCount = vertices.length / 3;
+    [this.circleVAO, this.circleVBO] = this.createLineGeometry(vertices);
+  }
+
+  /**
+   * Create geometry for a unit cone with its apex at the origin,
+   * opening along +Z to a circle of radius 1 at z = 1.
+   */
+  private createConeGeometry(): void {
+    const vertices = this.buildCircleVertices(1);
+
+    // Four edges from the apex to the base circle
+    vertices.push(
+      0, 0, 0, 1, 0, 1,
+      0, 0, 0, -1, 0, 1,
+      0, 0, 0, 0, 1, 1,
+      0, 0, 0, 0, -1, 1
+    );
+
+    this.coneVertexCount = vertices.length / 3;
+    [this.coneVAO, this.coneVBO] = this.createLineGeometry(vertices);
+  }
+
+  /**
+   * Build line-segment vertices for a unit-radius circle in the XY plane at height z.
+   */
+  private buildCircleVertices(z: number): number[] {
+    const vertices: number[] = [];
+    for (let i = 0; i < OUTLINE_SEGMENTS; i++) {
+      const a1 = (i / OUTLINE_SEGMENTS) * Math.PI * 2;
+      const a2 = ((i + 1) / OUTLINE_SEGMENTS) * Math.PI * 2;
+      vertices.push(
+        Math.cos(a1), Math.sin(a1), z,
+        Math.cos(a2), Math.sin(a2), z
+      );
+    }
+    return vertices;
+  }
+
+  /**
+   * Upload line vertices into a VAO bound to the arrow shader's aPosition.
+   */
+  private createLineGeometry(
+    vertices: number[]
+  ): [WebGLVertexArrayObject | null, WebGLBuffer | null] {
+    const gl = this.gl;
+
+    const vao = gl.createVertexArray();
+    gl.bindVertexArray(vao);
+
+    const vbo = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, vbo);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.STATIC_DRAW);
+
+    const aPosition = gl.getAttribLocation(this.arrowProgram!, 'aPosition');
+    gl.enableVertexAttribArray(aPosition);
+    gl.vertexAttribPointer(aPosition, 3, gl.FLOAT, false, 0, 0);
+
+    gl.bindVertexArray(null);
+    return [vao, vbo];
+  }
+
   /**
    * Create and link a shader program.
    */
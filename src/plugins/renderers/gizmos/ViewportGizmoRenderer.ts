@@ -7,9 +7,10 @@
  * Features:
  * - Always visible in a fixed screen position (bottom-left)
  * - Rotates to match the current camera view
- * - Color-coded axes: X=Red, Y=Green, Z=Blue
+ * - Color-coded axes: X=Red, Y=Green, Z=Blue, negative axes dimmed
  * - Axis labels at the end of each arrow
  * - Z-up coordinate system visualization
+ * - Clicking an axis end picks the standard view looking back along it
  *
  * @example
  * ```typescript
@@ -18,10 +19,43 @@
  *
  * // In render loop after main scene:
  * gizmo.render(camera, viewportWidth, viewportHeight);
+ *
+ * // On click (canvas-relative pixels):
+ * const view = gizmo.pickView(x, y, camera, canvas.clientWidth, canvas.clientHeight);
+ * if (view) orbitController.setStandardView(view);
  * ```
  */
 
 import type { ICamera } from '@core/interfaces';
+import type { StandardView } from '@plugins/navigation/OrbitController';
+
+/**
+ * Scale from rotated gizmo units to NDC (matches the vertex shader).
+ */
+const NDC_SCALE = 0.15;
+
+/**
+ * Length of the dimmed negative axes relative to the positive ones.
+ */
+const NEGATIVE_AXIS_LENGTH = 0.6;
+
+/**
+ * Distance in pixels from an axis end that still picks it.
+ */
+const PICK_RADIUS = 10;
+
+/**
+ * Axis ends and the view from that side. The camera sits on the axis,
+ * so clicking +Z looks down from the top.
+ */
+const AXIS_VIEWS: ReadonlyArray<{ axis: 0 | 1 | 2; length: number; view: StandardView }> = [
+  { axis: 0, length: 1, view: 'right' },
+  { axis: 0, length: -NEGATIVE_AXIS_LENGTH, view: 'left' },
+  { axis: 1, length: 1, view: 'back' },
+  { axis: 1, length: -NEGATIVE_AXIS_LENGTH, view: 'front' },
+  { axis: 2, length: 1, view: 'top' },
+  { axis: 2, length: -NEGATIVE_AXIS_LENGTH, view: 'bottom' },
+];
 
 /**
  * Vertex shader for the orientation gizmo.
@@ -59,8 +93,8 @@ void main() {
   // NDC coordinates: (-1,-1) is bottom-left, (1,1) is top-right
   // Apply aspect ratio correction to X so gizmo remains square
   gl_Position = vec4(
-    uScreenOffset.x + rotatedPos.x * 0.15 / uAspectRatio,
-    uScreenOffset.y + rotatedPos.y * 0.15,
+    uScreenOffset.x + rotatedPos.x * ${NDC_SCALE} / uAspectRatio,
+    uScreenOffset.y + rotatedPos.y * ${NDC_SCALE},
     -0.99, // Very close to near plane so it draws on top
     1.0
   );
@@ -200,6 +234,51 @@ export class ViewportGizmoRenderer {
     if (cullFaceEnabled) gl.enable(gl.CULL_FACE);
   }
 
+  /**
+   * Find the axis end under a point, as the standard view from that side.
+   * When ends overlap, the one nearer the viewer wins.
+   *
+   * @param x - Canvas-relative x in pixels
+   * @param y - Canvas-relative y in pixels
+   * @param camera - Camera the gizmo is drawn for
+   * @param width - Canvas width in pixels
+   * @param height - Canvas height in pixels
+   * @returns The picked view, or null if no axis end is near the point
+   */
+  pickView(x: number, y: number, camera: ICamera, width: number, height: number): StandardView | null {
+    if (width <= 0 || height <= 0) return null;
+
+    const view = camera.getViewMatrix();
+    const aspectRatio = width / height;
+
+    let picked: StandardView | null = null;
+    let pickedDistance = PICK_RADIUS;
+    let pickedDepth = -Infinity;
+
+    for (const { axis, length, view: axisView } of AXIS_VIEWS) {
+      // Column of the view rotation, as in mat3(uViewMatrix) * axis
+      const scale = length * this.size * NDC_SCALE;
+      const ndcX = this.screenOffset[0] + (view[axis * 4] * scale) / aspectRatio;
+      const ndcY = this.screenOffset[1] + view[axis * 4 + 1] * scale;
+      const depth = view[axis * 4 + 2] * length;
+
+      const screenX = ((ndcX + 1) / 2) * width;
+      const screenY = ((1 - ndcY) / 2) * height;
+      const distance = Math.hypot(screenX - x, screenY - y);
+      if (distance > PICK_RADIUS) continue;
+
+      // Overlapping ends (looking along an axis) go to the one facing the viewer
+      const overlaps = Math.abs(distance - pickedDistance) < 1;
+      if ((overlaps && depth > pickedDepth) || (!overlaps && distance < pickedDistance)) {
+        picked = axisView;
+        pickedDistance = distance;
+        pickedDepth = depth;
+      }
+    }
+
+    return picked;
+  }
+
   /**
    * Update the screen offset position.
    */
@@ -238,6 +317,8 @@ export class ViewportGizmoRenderer {
    * - X axis: Red, points right
    * - Y axis: Green, points forward
    * - Z axis: Blue, points up
+   *
+   * Negative axes are shorter and dimmed.
    */
   private createGeometry(): void {
     const gl = this.gl;
@@ -272,6 +353,14 @@ export class ViewportGizmoRenderer {
     // Z axis (Blue) - points up (+Z)
     addLine(0, 0, 0, 0, 0, axisLength, BLUE);
 
+    // Negative axes
+    const dim = (color: [number, number, number]): [number, number, number] =>
+      [color[0] * 0.4, color[1] * 0.4, color[2] * 0.4];
+    const negativeLength = -axisLength * NEGATIVE_AXIS_LENGTH;
+    addLine(0, 0, 0, negativeLength, 0, 0, dim(RED));
+    addLine(0, 0, 0, 0, negativeLength, 0, dim(GREEN));
+    addLine(0, 0, 0, 0, 0, negativeLength, dim(BLUE));
+
     this.vertexCount = vertices.length / 6; // 6 floats per vertex (pos + color)
 
     // Create VAO and VBO
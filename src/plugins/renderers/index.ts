@@ -6,10 +6,36 @@
 
 export { LineRenderer } from './line/LineRenderer';
 export { ForwardRenderer } from './forward/ForwardRenderer';
+export { DeferredRenderer } from './deferred/DeferredRenderer';
+
+// CPU path tracer (runs in a worker, not a render pipeline)
+export { PathTracer, PathTracerController, buildPathTracerScene } from './raytracing';
+
+// Offline still-image output through the active pipeline
+export { RenderOutputService, OffscreenRenderTarget } from './output';
+
+// ID-buffer picking for viewport selection
+export { PickingPass } from './picking';
+export type { PickDrawItem } from './picking';
+
+// Image-based lighting from HDRI environment maps
+export { EnvironmentMapCache, SkyboxPass, decodeRadianceHDR, HDRFormatError } from './environment';
+export type { EnvironmentMaps, HDRImage } from './environment';
+
+// HDR scene target and post-processing passes
+export { PostProcessStack } from './postprocess';
+export type { PostProcessBackground, PostProcessFrame } from './postprocess';
 
 // Shared rendering infrastructure
 export { MeshGPUCache } from './shared/MeshGPUCache';
 export type { MeshGPUResources, EdgeGPUResources } from './shared/MeshGPUCache';
+export { TextureGPUCache } from './shared/TextureGPUCache';
+export type {
+  TextureGPUCacheOptions,
+  TextureSourceLoader,
+  TextureImageDecoder,
+} from './shared/TextureGPUCache';
+export { LightUniformPacker } from './shared/LightUniformPacker';
 
 // Gizmo renderers
 export { LightGizmoRenderer } from './gizmos/LightGizmoRenderer';
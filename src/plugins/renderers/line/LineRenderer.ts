@@ -11,6 +11,7 @@ import type {
   ICamera,
   IScene,
   IRenderable,
+  IRenderTarget,
 } from '@core/interfaces';
 
 /**
@@ -74,6 +75,7 @@ export class LineRenderer implements IRenderPipeline {
   private colorLocation: WebGLUniformLocation | null = null;
   private currentCamera: ICamera | null = null;
   private lineColor: [number, number, number] = [1, 1, 1];
+  private renderTarget: IRenderTarget | null = null;
   private initialized = false;
 
   /**
@@ -121,6 +123,11 @@ export class LineRenderer implements IRenderPipeline {
 
     this.currentCamera = camera;
 
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.renderTarget?.framebuffer ?? null);
+    if (this.renderTarget) {
+      this.gl.viewport(0, 0, this.renderTarget.width, this.renderTarget.height);
+    }
+
     // Clear the framebuffer
     this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
   }
@@ -176,6 +183,15 @@ export class LineRenderer implements IRenderPipeline {
     }
   }
 
+  /**
+   * Render into an offscreen target, or the canvas when null.
+   *
+   * @param target - Target bound in beginFrame()
+   */
+  setRenderTarget(target: IRenderTarget | null): void {
+    this.renderTarget = target;
+  }
+
   /**
    * Set the line color for rendering.
    *
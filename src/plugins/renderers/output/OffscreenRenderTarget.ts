@@ -0,0 +1,167 @@
+/**
+ * OffscreenRenderTarget - Framebuffer a pipeline can render a still image into
+ *
+ * Owns a color texture and a DEPTH_COMPONENT24 depth texture of a fixed
+ * size, independent of the canvas. By default the color is RGBA8: pipelines
+ * write display-ready (tone mapped, gamma encoded) color, so 8 bits per
+ * channel loses nothing the canvas would show. Linear targets hold RGBA16F
+ * scene color instead, for OpenEXR output; they need EXT_color_buffer_float.
+ *
+ * @example
+ * ```typescript
+ * const target = new OffscreenRenderTarget(gl, 1920, 1080);
+ * pipeline.setRenderTarget(target);
+ * // ...beginFrame / render / endFrame
+ * const pixels = target.readPixels();
+ * target.dispose();
+ * ```
+ */
+
+import type { IRenderTarget } from '@core/interfaces';
+
+/**
+ * Fixed-size offscreen color + depth framebuffer.
+ */
+export class OffscreenRenderTarget implements IRenderTarget {
+  readonly width: number;
+  readonly height: number;
+  readonly linear: boolean;
+
+  private readonly gl: WebGL2RenderingContext;
+  private readonly colorTexture: WebGLTexture;
+  private readonly depthTexture: WebGLTexture;
+  private readonly fbo: WebGLFramebuffer;
+  private disposed = false;
+
+  /**
+   * Create the target.
+   *
+   * @param linear - Store linear HDR color in RGBA16F instead of RGBA8
+   * @throws Error if the size is empty or exceeds MAX_TEXTURE_SIZE, float
+   *   color is not renderable, or the framebuffer is incomplete
+   */
+  constructor(gl: WebGL2RenderingContext, width: number, height: number, linear: boolean = false) {
+    const w = Math.floor(width);
+    const h = Math.floor(height);
+    if (!(w > 0 && h > 0)) {
+      throw new Error(`Invalid render target size: ${width}×${height}`);
+    }
+
+    const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number | null;
+    if (maxSize && (w > maxSize || h > maxSize)) {
+      throw new Error(`Render target ${w}×${h} exceeds the maximum texture size of ${maxSize}`);
+    }
+
+    if (linear && gl.getExtension('EXT_color_buffer_float') === null) {
+      throw new Error('Linear render targets need EXT_color_buffer_float');
+    }
+
+    this.gl = gl;
+    this.width = w;
+    this.height = h;
+    this.linear = linear;
+    this.colorTexture = this.createTexture(linear ? gl.RGBA16F : gl.RGBA8);
+    this.depthTexture = this.createTexture(gl.DEPTH_COMPONENT24);
+
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('Failed to create render target framebuffer');
+    }
+    this.fbo = framebuffer;
+
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this.colorTexture, 0);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.TEXTURE_2D, this.depthTexture, 0);
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      this.dispose();
+      throw new Error(`Render target framebuffer incomplete (0x${status.toString(16)})`);
+    }
+  }
+
+  get framebuffer(): WebGLFramebuffer {
+    return this.fbo;
+  }
+
+  /**
+   * Color attachment, for sampling the rendered image on the GPU.
+   */
+  get texture(): WebGLTexture {
+    return this.colorTexture;
+  }
+
+  /**
+   * Read the color attachment as 8-bit RGBA, bottom row first (GL order).
+   *
+   * @throws Error if the target is linear or has been disposed
+   */
+  readPixels(): Uint8Array {
+    if (this.linear) {
+      throw new Error('Linear render targets are read with readLinearPixels()');
+    }
+
+    const pixels = new Uint8Array(this.width * this.height * 4);
+    this.readInto(pixels, this.gl.UNSIGNED_BYTE);
+    return pixels;
+  }
+
+  /**
+   * Read the color attachment of a linear target as float RGBA, bottom row
+   * first (GL order).
+   *
+   * @throws Error if the target is not linear or has been disposed
+   */
+  readLinearPixels(): Float32Array {
+    if (!this.linear) {
+      throw new Error('Only linear render targets can be read as float');
+    }
+
+    const pixels = new Float32Array(this.width * this.height * 4);
+    this.readInto(pixels, this.gl.FLOAT);
+    return pixels;
+  }
+
+  /**
+   * Release all GPU resources.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+
+    this.gl.deleteFramebuffer(this.fbo);
+    this.gl.deleteTexture(this.colorTexture);
+    this.gl.deleteTexture(this.depthTexture);
+    this.disposed = true;
+  }
+
+  private readInto(pixels: Uint8Array | Float32Array, type: number): void {
+    if (this.disposed) {
+      throw new Error('Render target has been disposed');
+    }
+
+    const gl = this.gl;
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.fbo);
+    gl.readPixels(0, 0, this.width, this.height, gl.RGBA, type, pixels);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+  }
+
+  private createTexture(internalFormat: number): WebGLTexture {
+    const gl = this.gl;
+
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create render target texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, internalFormat, this.width, this.height);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    return texture;
+  }
+}
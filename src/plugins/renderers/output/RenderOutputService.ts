@@ -0,0 +1,211 @@
+/**
+ * RenderOutputService - Offline still-image rendering
+ *
+ * Renders one frame of the scene with the active render pipeline into an
+ * offscreen target at any resolution, from any camera entity, optionally
+ * supersampled, and encodes it as PNG or OpenEXR. The viewport's framebuffer
+ * binding and viewport are restored afterwards, so the next viewport frame
+ * is unaffected.
+ *
+ * EXR renders go to a linear RGBA16F target, so the pipelines skip tone
+ * mapping and the file holds unclamped scene radiance. Without
+ * EXT_color_buffer_float they fall back to the tone mapped display image
+ * converted back to linear light.
+ *
+ * @example
+ * ```typescript
+ * const service = new RenderOutputService({ gl, scene: sceneGraph, getPipeline: () => pipeline });
+ * const image = await service.render({ width: 1920, height: 1080, camera, supersampling: 2, format: 'png' });
+ * await service.save(image, 'My Scene');
+ * ```
+ */
+
+import type { CameraEntity } from '@core/CameraEntity';
+import type { IRenderPipeline, IScene } from '@core/interfaces';
+import { downloadBlob } from '@utils/files';
+import { OffscreenRenderTarget } from './OffscreenRenderTarget';
+import { decodeToLinear, downsample, encodeEXR, encodeFromLinear, encodePNG, flipRows } from './imageEncoding';
+
+/**
+ * Output file formats.
+ */
+export type RenderOutputFormat = 'png' | 'exr';
+
+/**
+ * Supersampling factors; each output pixel averages factor×factor samples.
+ */
+export type RenderOutputSupersampling = 1 | 2 | 4;
+
+/**
+ * Settings for a single still render.
+ */
+export interface RenderOutputSettings {
+  /** Output width in pixels */
+  readonly width: number;
+  /** Output height in pixels */
+  readonly height: number;
+  /** Camera to render from; its aspect follows the output size */
+  readonly camera: Pick<CameraEntity, 'asRenderCamera'>;
+  readonly supersampling: RenderOutputSupersampling;
+  readonly format: RenderOutputFormat;
+}
+
+/**
+ * An encoded still render.
+ */
+export interface RenderOutputImage {
+  readonly blob: Blob;
+  readonly width: number;
+  readonly height: number;
+  readonly format: RenderOutputFormat;
+}
+
+/**
+ * Result of saving a render.
+ */
+export interface RenderOutputSaveResult {
+  success: boolean;
+  error?: string;
+  /** True if the user closed the save dialog */
+  cancelled?: boolean;
+}
+
+/**
+ * Options for RenderOutputService.
+ */
+export interface RenderOutputServiceOptions {
+  gl: WebGL2RenderingContext;
+  scene: IScene;
+  /** Returns the pipeline currently rendering the viewport */
+  getPipeline: () => IRenderPipeline;
+}
+
+const FORMAT_INFO: Record<RenderOutputFormat, { extension: string; mimeType: string; description: string }> = {
+  png: { extension: '.png', mimeType: 'image/png', description: 'PNG Image' },
+  exr: { extension: '.exr', mimeType: 'image/x-exr', description: 'OpenEXR Image' },
+};
+
+/**
+ * Renders and saves still images.
+ */
+export class RenderOutputService {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly scene: IScene;
+  private readonly getPipeline: () => IRenderPipeline;
+
+  constructor(options: RenderOutputServiceOptions) {
+    this.gl = options.gl;
+    this.scene = options.scene;
+    this.getPipeline = options.getPipeline;
+  }
+
+  /**
+   * Render one frame and encode it.
+   *
+   * @throws Error if the size is invalid or the GPU cannot allocate the target
+   */
+  async render(settings: RenderOutputSettings): Promise<RenderOutputImage> {
+    const width = Math.floor(settings.width);
+    const height = Math.floor(settings.height);
+    if (!(width > 0 && height > 0)) {
+      throw new Error(`Invalid output size: ${settings.width}×${settings.height}`);
+    }
+
+    const factor = settings.supersampling;
+    const renderWidth = width * factor;
+    const renderHeight = height * factor;
+    const linearTarget = settings.format === 'exr' && this.gl.getExtension('EXT_color_buffer_float') !== null;
+    const pixels = this.renderLinear(settings.camera, renderWidth, renderHeight, linearTarget);
+    const linear = downsample(flipRows(pixels, renderWidth, renderHeight), renderWidth, renderHeight, factor);
+
+    const blob = settings.format === 'exr'
+      ? new Blob([encodeEXR(linear, width, height)], { type: FORMAT_INFO.exr.mimeType })
+      : await encodePNG(encodeFromLinear(linear), width, height);
+
+    return { blob, width, height, format: settings.format };
+  }
+
+  /**
+   * Save an image through the File System Access API, or as a download
+   * where the API is not available.
+   *
+   * @param image - Image returned by render()
+   * @param baseName - File name without extension
+   */
+  async save(image: RenderOutputImage, baseName: string): Promise<RenderOutputSaveResult> {
+    const info = FORMAT_INFO[image.format];
+    const suggestedName = `${sanitizeFilename(baseName)}${info.extension}`;
+
+    if (!('showSaveFilePicker' in window)) {
+      downloadBlob(image.blob, suggestedName);
+      return { success: true };
+    }
+
+    try {
+      const handle = await window.showSaveFilePicker({
+        types: [{ description: info.description, accept: { [info.mimeType]: [info.extension] } }],
+        suggestedName,
+      });
+
+      const writable = await handle.createWritable();
+      await writable.write(image.blob);
+      await writable.close();
+
+      return { success: true };
+    } catch (error) {
+      // User cancelled
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return { success: false, cancelled: true };
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error saving render.';
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Render with the active pipeline and read the result back as linear
+   * RGBA, bottom row first.
+   *
+   * @param linearTarget - Render scene radiance into a float target instead
+   *   of decoding the display image
+   */
+  private renderLinear(
+    camera: RenderOutputSettings['camera'],
+    width: number,
+    height: number,
+    linearTarget: boolean
+  ): Float32Array {
+    const gl = this.gl;
+    const pipeline = this.getPipeline();
+    const target = new OffscreenRenderTarget(gl, width, height, linearTarget);
+
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const previousViewport = gl.getParameter(gl.VIEWPORT) as Int32Array | null;
+
+    try {
+      pipeline.setRenderTarget(target);
+      pipeline.beginFrame(camera.asRenderCamera(width / height));
+      pipeline.render(this.scene);
+      pipeline.endFrame();
+
+      return linearTarget ? target.readLinearPixels() : decodeToLinear(target.readPixels());
+    } finally {
+      pipeline.setRenderTarget(null);
+      target.dispose();
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+      if (previousViewport) {
+        gl.viewport(previousViewport[0], previousViewport[1], previousViewport[2], previousViewport[3]);
+      }
+    }
+  }
+}
+
+function sanitizeFilename(name: string): string {
+  const sanitized = name
+    .replace(/[<>:"/\\|?*]/g, '') // Remove invalid characters
+    .replace(/\s+/g, '_') // Replace spaces with underscores
+    .substring(0, 200); // Limit length
+  return sanitized || 'render';
+}
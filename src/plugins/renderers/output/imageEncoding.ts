@@ -0,0 +1,265 @@
+/**
+ * Image encoding helpers for offline render output
+ *
+ * Converts pixels read back from a render target into files:
+ * - decodeToLinear / encodeFromLinear convert between the pipelines'
+ *   gamma 2.2 output and linear float RGBA.
+ * - downsample box-filters a supersampled image in linear space.
+ * - encodePNG writes 8-bit PNG through a 2D canvas.
+ * - encodeEXR writes an uncompressed 32-bit float OpenEXR file.
+ *
+ * All images are row-major RGBA with the top row first, except where a
+ * function says otherwise.
+ */
+
+/** Gamma the pipelines encode their output with (see the shaders' final pow) */
+const DISPLAY_GAMMA = 2.2;
+
+/** OpenEXR magic number, version 2, single-part scanline */
+const EXR_MAGIC = 20000630;
+const EXR_VERSION = 2;
+const EXR_PIXEL_TYPE_FLOAT = 2;
+
+/** Channels in the order OpenEXR stores them (alphabetical), with their RGBA offset */
+const EXR_CHANNELS: ReadonlyArray<readonly [name: string, offset: number]> = [
+  ['A', 3],
+  ['B', 2],
+  ['G', 1],
+  ['R', 0],
+];
+
+/**
+ * Reverse the row order of an RGBA image (GL reads bottom row first).
+ */
+export function flipRows<T extends Uint8Array | Float32Array>(pixels: T, width: number, height: number): T {
+  const rowSize = width * 4;
+  const flipped = pixels.slice() as T;
+  for (let y = 0; y < height; y++) {
+    const source = (height - 1 - y) * rowSize;
+    flipped.set(pixels.subarray(source, source + rowSize), y * rowSize);
+  }
+  return flipped;
+}
+
+/**
+ * Convert gamma encoded 8-bit RGBA to linear float RGBA. Alpha stays linear.
+ */
+export function decodeToLinear(pixels: Uint8Array): Float32Array {
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = Math.pow(i / 255, DISPLAY_GAMMA);
+  }
+
+  const linear = new Float32Array(pixels.length);
+  for (let i = 0; i < pixels.length; i += 4) {
+    linear[i] = table[pixels[i]];
+    linear[i + 1] = table[pixels[i + 1]];
+    linear[i + 2] = table[pixels[i + 2]];
+    linear[i + 3] = pixels[i + 3] / 255;
+  }
+  return linear;
+}
+
+/**
+ * Convert linear float RGBA back to gamma encoded 8-bit RGBA.
+ */
+export function encodeFromLinear(linear: Float32Array): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(linear.length);
+  for (let i = 0; i < linear.length; i += 4) {
+    pixels[i] = Math.round(Math.pow(Math.max(linear[i], 0), 1 / DISPLAY_GAMMA) * 255);
+    pixels[i + 1] = Math.round(Math.pow(Math.max(linear[i + 1], 0), 1 / DISPLAY_GAMMA) * 255);
+    pixels[i + 2] = Math.round(Math.pow(Math.max(linear[i + 2], 0), 1 / DISPLAY_GAMMA) * 255);
+    pixels[i + 3] = Math.round(linear[i + 3] * 255);
+  }
+  return pixels;
+}
+
+/**
+ * Average each factor×factor block of a linear RGBA image into one pixel.
+ *
+ * @param linear - Linear RGBA, width×height pixels
+ * @param width - Source width, a multiple of factor
+ * @param height - Source height, a multiple of factor
+ * @param factor - Supersampling factor
+ * @returns Linear RGBA of (width / factor)×(height / factor) pixels
+ */
+export function downsample(linear: Float32Array, width: number, height: number, factor: number): Float32Array {
+  if (factor === 1) {
+    return linear;
+  }
+  if (width % factor !== 0 || height % factor !== 0) {
+    throw new Error(`Image size ${width}×${height} is not a multiple of ${factor}`);
+  }
+
+  const outWidth = width / factor;
+  const outHeight = height / factor;
+  const output = new Float32Array(outWidth * outHeight * 4);
+  const weight = 1 / (factor * factor);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const out = (y * outWidth + x) * 4;
+      for (let sy = 0; sy < factor; sy++) {
+        let source = ((y * factor + sy) * width + x * factor) * 4;
+        for (let sx = 0; sx < factor; sx++, source += 4) {
+          output[out] += linear[source] * weight;
+          output[out + 1] += linear[source + 1] * weight;
+          output[out + 2] += linear[source + 2] * weight;
+          output[out + 3] += linear[source + 3] * weight;
+        }
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Encode 8-bit RGBA as a PNG.
+ *
+ * @throws Error if a 2D canvas is not available
+ */
+export function encodePNG(pixels: Uint8ClampedArray, width: number, height: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('2D canvas is not available for PNG encoding'));
+  }
+
+  const image = context.createImageData(width, height);
+  image.data.set(pixels);
+  context.putImageData(image, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('PNG encoding failed'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * Encode linear float RGBA as an uncompressed single-part scanline OpenEXR
+ * file with 32-bit float R, G, B and A channels.
+ */
+export function encodeEXR(linear: Float32Array, width: number, height: number): Uint8Array {
+  const header = new ExrWriter();
+  header.int32(EXR_MAGIC);
+  header.int32(EXR_VERSION);
+
+  header.attribute('channels', 'chlist', EXR_CHANNELS.length * 18 + 1, () => {
+    for (const [name] of EXR_CHANNELS) {
+      header.string(name);
+      header.int32(EXR_PIXEL_TYPE_FLOAT);
+      header.uint8(0); // pLinear
+      header.uint8(0); // reserved
+      header.uint8(0);
+      header.uint8(0);
+      header.int32(1); // xSampling
+      header.int32(1); // ySampling
+    }
+    header.uint8(0);
+  });
+  header.attribute('compression', 'compression', 1, () => header.uint8(0));
+  header.attribute('dataWindow', 'box2i', 16, () => header.box(width, height));
+  header.attribute('displayWindow', 'box2i', 16, () => header.box(width, height));
+  header.attribute('lineOrder', 'lineOrder', 1, () => header.uint8(0));
+  header.attribute('pixelAspectRatio', 'float', 4, () => header.float32(1));
+  header.attribute('screenWindowCenter', 'v2f', 8, () => {
+    header.float32(0);
+    header.float32(0);
+  });
+  header.attribute('screenWindowWidth', 'float', 4, () => header.float32(1));
+  header.uint8(0);
+
+  const headerBytes = header.toBytes();
+  const lineDataSize = width * EXR_CHANNELS.length * 4;
+  const chunkSize = 8 + lineDataSize;
+  const offsetTableSize = height * 8;
+  const file = new Uint8Array(headerBytes.length + offsetTableSize + height * chunkSize);
+  file.set(headerBytes, 0);
+
+  const view = new DataView(file.buffer);
+  const firstChunk = headerBytes.length + offsetTableSize;
+
+  for (let y = 0; y < height; y++) {
+    const chunk = firstChunk + y * chunkSize;
+
+    // uint64 offset; files this size never need the high word
+    view.setUint32(headerBytes.length + y * 8, chunk, true);
+    view.setUint32(headerBytes.length + y * 8 + 4, 0, true);
+
+    view.setInt32(chunk, y, true);
+    view.setInt32(chunk + 4, lineDataSize, true);
+
+    let position = chunk + 8;
+    for (const [, offset] of EXR_CHANNELS) {
+      for (let x = 0; x < width; x++, position += 4) {
+        view.setFloat32(position, linear[(y * width + x) * 4 + offset], true);
+      }
+    }
+  }
+
+  return file;
+}
+
+/**
+ * Little-endian byte writer for the EXR header.
+ */
+class ExrWriter {
+  private readonly bytes: number[] = [];
+  private readonly scratch = new DataView(new ArrayBuffer(4));
+
+  uint8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  int32(value: number): void {
+    this.scratch.setInt32(0, value, true);
+    this.pushScratch();
+  }
+
+  float32(value: number): void {
+    this.scratch.setFloat32(0, value, true);
+    this.pushScratch();
+  }
+
+  /** Null-terminated ASCII string */
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.bytes.push(value.charCodeAt(i) & 0x7f);
+    }
+    this.bytes.push(0);
+  }
+
+  /** Window covering the whole image: xMin, yMin, xMax, yMax */
+  box(width: number, height: number): void {
+    this.int32(0);
+    this.int32(0);
+    this.int32(width - 1);
+    this.int32(height - 1);
+  }
+
+  attribute(name: string, type: string, size: number, writeValue: () => void): void {
+    this.string(name);
+    this.string(type);
+    this.int32(size);
+    writeValue();
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private pushScratch(): void {
+    for (let i = 0; i < 4; i++) {
+      this.bytes.push(this.scratch.getUint8(i));
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Render Output Module
+ *
+ * Offline still-image rendering to PNG and OpenEXR.
+ */
+
+export { OffscreenRenderTarget } from './OffscreenRenderTarget';
+export { RenderOutputService } from './RenderOutputService';
+export type {
+  RenderOutputFormat,
+  RenderOutputSupersampling,
+  RenderOutputSettings,
+  RenderOutputImage,
+  RenderOutputSaveResult,
+  RenderOutputServiceOptions,
+} from './RenderOutputService';
+export { flipRows, decodeToLinear, encodeFromLinear, downsample, encodePNG, encodeEXR } from './imageEncoding';
@@ -0,0 +1,360 @@
+/**
+ * Picking Pass
+ *
+ * Resolves which mesh is under a viewport pixel by rendering an ID buffer:
+ * every mesh is drawn with a flat color encoding its index, and the pixel
+ * under the cursor is read back.
+ *
+ * Only the picked pixel is rasterized. A pick matrix stretches that pixel
+ * over a 1×1 render target, so a pick costs one draw call per mesh and no
+ * full-size framebuffer. Depth testing and back-face culling match the
+ * forward pass, and skinned meshes are deformed like on screen, so the
+ * result is exactly the surface the user clicked.
+ *
+ * @example
+ * ```typescript
+ * const pickingPass = new PickingPass(gl);
+ *
+ * // On click:
+ * const id = pickingPass.pick(camera, drawItems, mouseX, mouseY, width, height);
+ * ```
+ */
+
+import type { ICamera } from '@core/interfaces';
+import type { IMeshData } from '@core/interfaces/IMeshData';
+import { mat4Multiply } from '@utils/math';
+import { MeshGPUCache } from '../shared/MeshGPUCache';
+import { OffscreenRenderTarget } from '../output/OffscreenRenderTarget';
+import { GLSL_SKINNING, composeShader } from '../shaders/common';
+
+/**
+ * Largest number of meshes one ID buffer can tell apart (24-bit RGB ids,
+ * 0 meaning nothing was hit).
+ */
+export const MAX_PICK_ITEMS = 0xffffff - 1;
+
+/**
+ * Texture unit for the joint matrices of skinned meshes (the only texture
+ * the pick shader samples).
+ */
+const JOINT_TEXTURE_UNIT = 0;
+
+/**
+ * ID vertex shader: transforms (and skins) positions only.
+ */
+const PICK_VERTEX_SHADER = composeShader(
+  `#version 300 es
+precision highp float;
+
+in vec3 aPosition;
+in vec4 aJoints;
+in vec4 aWeights;
+
+uniform mat4 uModelMatrix;
+uniform mat4 uViewProjectionMatrix;
+`,
+  GLSL_SKINNING,
+  `
+void main() {
+  vec4 worldPosition = uModelMatrix * getSkinMatrix(aJoints, aWeights) * vec4(aPosition, 1.0);
+  gl_Position = uViewProjectionMatrix * worldPosition;
+}
+`
+);
+
+/**
+ * ID fragment shader: writes the mesh's encoded id.
+ */
+const PICK_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+uniform vec4 uPickColor;
+
+out vec4 outColor;
+
+void main() {
+  outColor = uPickColor;
+}
+`;
+
+/**
+ * A mesh drawn into the ID buffer.
+ */
+export interface PickDrawItem {
+  /** Entity id, returned when this mesh is picked (also the mesh cache key) */
+  readonly id: string;
+  /** Mesh geometry */
+  readonly meshData: IMeshData;
+  /** World transform of the mesh */
+  readonly modelMatrix: Float32Array;
+  /** Joint matrices of a skinned mesh (16 floats per joint), or null when unskinned */
+  readonly jointMatrices?: Float32Array | null;
+}
+
+/**
+ * Build a matrix that maps one pixel of the viewport onto the whole clip
+ * space. Multiply it in front of a view-projection to render only that pixel.
+ *
+ * @param x - Pixel X (0 = left)
+ * @param y - Pixel Y (0 = top)
+ * @param width - Viewport width in pixels
+ * @param height - Viewport height in pixels
+ * @returns Column-major pick matrix
+ */
+export function getPickMatrix(x: number, y: number, width: number, height: number): Float32Array {
+  // Center of the pixel in NDC
+  const ndcX = ((Math.floor(x) + 0.5) / width) * 2 - 1;
+  const ndcY = 1 - ((Math.floor(y) + 0.5) / height) * 2;
+
+  return new Float32Array([
+    width, 0, 0, 0,
+    0, height, 0, 0,
+    0, 0, 1, 0,
+    -width * ndcX, -height * ndcY, 0, 1,
+  ]);
+}
+
+/**
+ * Encode a pick id (1-based; 0 means nothing) as an RGBA8 color.
+ */
+export function encodePickId(id: number): [number, number, number, number] {
+  return [id & 0xff, (id >> 8) & 0xff, (id >> 16) & 0xff, 255];
+}
+
+/**
+ * Decode an RGBA8 pixel written with encodePickId (0 when nothing was drawn).
+ */
+export function decodePickId(pixel: ArrayLike<number>): number {
+  if (pixel[3] === 0) return 0;
+  return pixel[0] | (pixel[1] << 8) | (pixel[2] << 16);
+}
+
+/**
+ * Renders ID buffers and reads back the picked mesh.
+ */
+export class PickingPass {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly meshGPUCache: MeshGPUCache;
+
+  private program: WebGLProgram | null = null;
+  private modelMatrixLocation: WebGLUniformLocation | null = null;
+  private viewProjectionLocation: WebGLUniformLocation | null = null;
+  private pickColorLocation: WebGLUniformLocation | null = null;
+  private skinnedLocation: WebGLUniformLocation | null = null;
+  private jointMatricesLocation: WebGLUniformLocation | null = null;
+  private jointTexture: WebGLTexture | null = null;
+  private target: OffscreenRenderTarget | null = null;
+
+  /** Mesh ids with GPU resources, to release meshes that left the scene */
+  private cachedIds = new Set<string>();
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.meshGPUCache = new MeshGPUCache(gl);
+
+    this.program = this.createProgram(PICK_VERTEX_SHADER, PICK_FRAGMENT_SHADER);
+    this.modelMatrixLocation = gl.getUniformLocation(this.program, 'uModelMatrix');
+    this.viewProjectionLocation = gl.getUniformLocation(this.program, 'uViewProjectionMatrix');
+    this.pickColorLocation = gl.getUniformLocation(this.program, 'uPickColor');
+    this.skinnedLocation = gl.getUniformLocation(this.program, 'uSkinned');
+    this.jointMatricesLocation = gl.getUniformLocation(this.program, 'uJointMatrices');
+  }
+
+  /**
+   * Find the mesh covering a viewport pixel.
+   * Restores the framebuffer, viewport and render state it changes.
+   *
+   * @param camera - Camera the viewport is rendered from
+   * @param items - Meshes that can be picked
+   * @param x - Pixel X (0 = left)
+   * @param y - Pixel Y (0 = top)
+   * @param width - Viewport width in pixels
+   * @param height - Viewport height in pixels
+   * @returns The id of the picked item, or null if the pixel shows no mesh
+   */
+  pick(
+    camera: ICamera,
+    items: readonly PickDrawItem[],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): string | null {
+    const gl = this.gl;
+    if (!this.program) return null;
+    if (x < 0 || y < 0 || x >= width || y >= height) return null;
+
+    const drawn = items.slice(0, MAX_PICK_ITEMS);
+    this.releaseUnusedMeshes(drawn);
+    if (drawn.length === 0) return null;
+
+    this.target ??= new OffscreenRenderTarget(gl, 1, 1);
+    const viewProjection = mat4Multiply(
+      getPickMatrix(x, y, width, height),
+      camera.getViewProjectionMatrix()
+    );
+
+    // Save current state
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const previousViewport = gl.getParameter(gl.VIEWPORT) as Int32Array | null;
+    const depthTestEnabled = gl.isEnabled(gl.DEPTH_TEST);
+    const cullFaceEnabled = gl.isEnabled(gl.CULL_FACE);
+    const blendEnabled = gl.isEnabled(gl.BLEND);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.target.framebuffer);
+    gl.viewport(0, 0, 1, 1);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthFunc(gl.LESS);
+    gl.enable(gl.CULL_FACE);
+    gl.cullFace(gl.BACK);
+    gl.frontFace(gl.CCW);
+    gl.disable(gl.BLEND);
+
+    gl.useProgram(this.program);
+    gl.uniformMatrix4fv(this.viewProjectionLocation, false, viewProjection);
+
+    drawn.forEach((item, index) => {
+      const resources = this.meshGPUCache.getOrCreateSolid(item.id, item.meshData, this.program);
+      const [r, g, b, a] = encodePickId(index + 1);
+
+      gl.uniformMatrix4fv(this.modelMatrixLocation, false, item.modelMatrix);
+      gl.uniform4f(this.pickColorLocation, r / 255, g / 255, b / 255, a / 255);
+      this.setSkinning(item.jointMatrices ?? null);
+
+      gl.bindVertexArray(resources.vao);
+      gl.drawElements(gl.TRIANGLES, resources.indexCount, resources.indexType, 0);
+    });
+    gl.bindVertexArray(null);
+
+    const pickId = decodePickId(this.target.readPixels());
+
+    // Restore state
+    gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+    if (previousViewport) {
+      gl.viewport(previousViewport[0], previousViewport[1], previousViewport[2], previousViewport[3]);
+    } else {
+      gl.viewport(0, 0, width, height);
+    }
+    if (!depthTestEnabled) gl.disable(gl.DEPTH_TEST);
+    if (!cullFaceEnabled) gl.disable(gl.CULL_FACE);
+    if (blendEnabled) gl.enable(gl.BLEND);
+
+    return pickId > 0 && pickId <= drawn.length ? drawn[pickId - 1].id : null;
+  }
+
+  /**
+   * Release all GPU resources.
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    this.meshGPUCache.disposeAll();
+    this.target?.dispose();
+    if (this.jointTexture) gl.deleteTexture(this.jointTexture);
+    if (this.program) gl.deleteProgram(this.program);
+
+    this.cachedIds.clear();
+    this.target = null;
+    this.jointTexture = null;
+    this.program = null;
+  }
+
+  /**
+   * Upload joint matrices for a skinned draw, or mark the draw unskinned.
+   */
+  private setSkinning(jointMatrices: Float32Array | null): void {
+    const gl = this.gl;
+    const skinned = jointMatrices !== null && jointMatrices.length >= 16;
+
+    gl.uniform1i(this.skinnedLocation, skinned ? 1 : 0);
+    if (!skinned) return;
+
+    if (!this.jointTexture) {
+      this.jointTexture = gl.createTexture();
+      if (!this.jointTexture) return;
+      gl.activeTexture(gl.TEXTURE0 + JOINT_TEXTURE_UNIT);
+      gl.bindTexture(gl.TEXTURE_2D, this.jointTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    }
+
+    // One joint per row, one matrix column per texel
+    const jointCount = Math.floor(jointMatrices.length / 16);
+    gl.activeTexture(gl.TEXTURE0 + JOINT_TEXTURE_UNIT);
+    gl.bindTexture(gl.TEXTURE_2D, this.jointTexture);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA32F, 4, jointCount, 0, gl.RGBA, gl.FLOAT,
+      jointMatrices.subarray(0, jointCount * 16),
+    );
+    gl.uniform1i(this.jointMatricesLocation, JOINT_TEXTURE_UNIT);
+  }
+
+  /**
+   * Dispose GPU meshes of items no longer passed to pick().
+   */
+  private releaseUnusedMeshes(items: readonly PickDrawItem[]): void {
+    const ids = new Set(items.map((item) => item.id));
+    for (const id of this.cachedIds) {
+      if (!ids.has(id)) {
+        this.meshGPUCache.dispose(id);
+      }
+    }
+    this.cachedIds = ids;
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Picking Module
+ *
+ * GPU ID-buffer picking for viewport selection.
+ */
+
+export { PickingPass, getPickMatrix, encodePickId, decodePickId, MAX_PICK_ITEMS } from './PickingPass';
+export type { PickDrawItem } from './PickingPass';
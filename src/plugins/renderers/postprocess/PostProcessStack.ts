@@ -0,0 +1,465 @@
+/**
+ * Post-Processing Stack
+ *
+ * Gives the forward and deferred pipelines an HDR scene target and turns it
+ * into the final image with a chain of fullscreen passes:
+ *
+ * 1. SSAO - ambient occlusion from scene depth at half resolution, blurred
+ *    (RendererSettings.ssao).
+ * 2. Bloom - a half-resolution bright pass over the HDR color, blurred
+ *    BLOOM_BLUR_PASSES times (RendererSettings.bloom). Emissive materials
+ *    with an emission strength above the threshold drive it.
+ * 3. Composite - applies ambient occlusion and bloom, exposure, ACES tone
+ *    mapping, sRGB encoding and color grading.
+ * 4. FXAA - anti-aliases the tone mapped image (RendererSettings.fxaa).
+ *
+ * Frames with `linearOutput` write linear HDR color to a float output
+ * instead (for OpenEXR renders): composite stops after exposure, and color
+ * grading and FXAA are skipped.
+ *
+ * The last pass writes the output framebuffer and copies scene depth to
+ * it, so the grid and gizmos drawn afterwards depth-test against the scene.
+ *
+ * Renderers draw the scene in linear HDR while the stack is in use: built-in
+ * shaders skip their own tone mapping when `uHDROutput` is set. The stack
+ * needs EXT_color_buffer_float; without it (see isSupported()) renderers
+ * draw straight to the output as before. Viewport and offscreen outputs get
+ * separate targets, so rendering a camera preview every frame does not
+ * reallocate them.
+ *
+ * @example
+ * ```typescript
+ * const stack = new PostProcessStack(gl);
+ *
+ * if (stack.isSupported()) {
+ *   stack.beginScene(width, height, false);
+ *   // ...clear and draw the scene with uHDROutput = true
+ *   stack.resolve({ output: null, camera, settings, background: 'color' });
+ * }
+ * ```
+ */
+
+import type { ICamera } from '@core/interfaces';
+import type { RendererSettings } from '@core/SettingsService';
+import { mat4Inverse } from '@utils/math';
+import { FULLSCREEN_VERTEX_SHADER } from '../shaders/deferred';
+import {
+  BLOOM_PREFILTER_FRAGMENT_SHADER,
+  BLUR_FRAGMENT_SHADER,
+  SSAO_FRAGMENT_SHADER,
+  POST_COMPOSITE_FRAGMENT_SHADER,
+  FXAA_FRAGMENT_SHADER,
+} from '../shaders/postprocess';
+import { PostProcessTargets } from './PostProcessTargets';
+import type { PostProcessTarget } from './PostProcessTargets';
+
+/**
+ * Horizontal + vertical blur iterations over the bloom buffer.
+ */
+export const BLOOM_BLUR_PASSES = 2;
+
+/**
+ * What empty (depth = 1) pixels of the scene target hold:
+ * - 'color': the camera's clear color, already display color
+ * - 'environment': the HDR skybox, tone mapped with the scene
+ * - 'keep': nothing; the output keeps its existing pixels
+ */
+export type PostProcessBackground = 'color' | 'environment' | 'keep';
+
+/**
+ * Background modes as passed to composite.frag.glsl.
+ */
+const BACKGROUND_MODES: Record<PostProcessBackground, number> = {
+  color: 0,
+  environment: 1,
+  keep: 2,
+};
+
+/**
+ * One frame to resolve to the output.
+ */
+export interface PostProcessFrame {
+  /** Framebuffer to write the final image to (null = default framebuffer) */
+  readonly output: WebGLFramebuffer | null;
+  /** Camera the scene was drawn from */
+  readonly camera: ICamera;
+  /** Effect toggles and parameters */
+  readonly settings: RendererSettings;
+  /** What empty pixels of the scene target hold */
+  readonly background: PostProcessBackground;
+  /** Write linear HDR color instead of display color (default: false) */
+  readonly linearOutput?: boolean;
+}
+
+const SSAO_UNIFORMS = ['uSceneDepth', 'uProjection', 'uInverseProjection', 'uRadius', 'uIntensity'];
+const BLOOM_PREFILTER_UNIFORMS = ['uSource', 'uThreshold'];
+const BLUR_UNIFORMS = ['uSource', 'uDirection'];
+const COMPOSITE_UNIFORMS = [
+  'uSceneColor', 'uSceneDepth', 'uBloom', 'uAmbientOcclusion',
+  'uBloomEnabled', 'uBloomIntensity', 'uSSAOEnabled', 'uExposure', 'uToneMapping',
+  'uColorGrading', 'uContrast', 'uSaturation', 'uTemperature',
+  'uBackgroundMode', 'uWriteOutput', 'uLinearOutput',
+];
+const FXAA_UNIFORMS = ['uSource', 'uSceneDepth'];
+
+type UniformLocations = Map<string, WebGLUniformLocation | null>;
+
+/**
+ * A compiled pass with its uniform locations.
+ */
+interface PostProcessPass {
+  readonly program: WebGLProgram;
+  readonly locations: UniformLocations;
+}
+
+/**
+ * Programs of every pass, compiled together on first use.
+ */
+interface PostProcessPasses {
+  readonly ssao: PostProcessPass;
+  readonly bloomPrefilter: PostProcessPass;
+  readonly blur: PostProcessPass;
+  readonly composite: PostProcessPass;
+  readonly fxaa: PostProcessPass;
+}
+
+/**
+ * HDR scene target and post-processing passes shared by the renderers.
+ */
+export class PostProcessStack {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly hdrSupported: boolean;
+
+  private viewportTargets: PostProcessTargets | null = null;
+  private offscreenTargets: PostProcessTargets | null = null;
+  private targets: PostProcessTargets | null = null;
+  private passes: PostProcessPasses | null = null;
+  private vao: WebGLVertexArrayObject | null = null;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.hdrSupported = gl.getExtension('EXT_color_buffer_float') !== null;
+  }
+
+  /**
+   * Whether the context can render to the half-float scene target.
+   */
+  isSupported(): boolean {
+    return this.hdrSupported;
+  }
+
+  /**
+   * Get the scene framebuffer of the current frame, or null outside
+   * beginScene() / resolve().
+   */
+  get sceneFramebuffer(): WebGLFramebuffer | null {
+    return this.targets?.scene?.framebuffer ?? null;
+  }
+
+  /**
+   * Size the targets for the output, then bind the scene target and set
+   * the viewport to it.
+   *
+   * @param width - Output width in pixels
+   * @param height - Output height in pixels
+   * @param offscreen - Whether the output is an offscreen render target
+   */
+  beginScene(width: number, height: number, offscreen: boolean): void {
+    const gl = this.gl;
+
+    if (offscreen) {
+      this.offscreenTargets ??= new PostProcessTargets(gl);
+      this.targets = this.offscreenTargets;
+    } else {
+      this.viewportTargets ??= new PostProcessTargets(gl);
+      this.targets = this.viewportTargets;
+    }
+    this.targets.resize(width, height);
+
+    const [w, h] = this.targets.getSize();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.sceneFramebuffer);
+    gl.viewport(0, 0, w, h);
+  }
+
+  /**
+   * Run the enabled passes over the scene target and write the result to
+   * the output. Leaves the output bound with depth testing, culling and
+   * alpha blending enabled, as the renderers set them up.
+   *
+   * @param frame - Output, camera and settings of the frame
+   */
+  resolve(frame: PostProcessFrame): void {
+    const gl = this.gl;
+    const targets = this.targets;
+    const scene = targets?.scene;
+    const sceneDepth = targets?.sceneDepth;
+    const bloom = targets?.bloom;
+    const ambientOcclusion = targets?.ambientOcclusion;
+    const display = targets?.display;
+    if (!targets || !scene || !sceneDepth || !bloom || !ambientOcclusion || !display) return;
+
+    const passes = this.ensurePasses();
+    const { settings } = frame;
+
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.BLEND);
+    gl.disable(gl.CULL_FACE);
+    gl.bindVertexArray(this.vao);
+
+    if (settings.ssao) {
+      this.renderAmbientOcclusion(passes, frame.camera, sceneDepth, ambientOcclusion, settings);
+      this.blur(passes.blur, ambientOcclusion, 1);
+    }
+    if (settings.bloom) {
+      this.renderBloomPrefilter(passes.bloomPrefilter, scene.texture, bloom[0], settings.bloomThreshold);
+      this.blur(passes.blur, bloom, BLOOM_BLUR_PASSES);
+    }
+
+    // Every pixel is written; depth comes from gl_FragDepth
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthFunc(gl.ALWAYS);
+
+    const [width, height] = targets.getSize();
+    if (settings.fxaa && !frame.linearOutput) {
+      this.bindTarget(display);
+      this.renderComposite(passes.composite, targets, frame, false);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, frame.output);
+      gl.viewport(0, 0, width, height);
+      this.renderFXAA(passes.fxaa, display.texture, sceneDepth);
+    } else {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, frame.output);
+      gl.viewport(0, 0, width, height);
+      this.renderComposite(passes.composite, targets, frame, true);
+    }
+
+    gl.bindVertexArray(null);
+    gl.depthFunc(gl.LESS);
+    gl.enable(gl.CULL_FACE);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    this.targets = null;
+  }
+
+  /**
+   * Release the targets and programs.
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    this.viewportTargets?.dispose();
+    this.offscreenTargets?.dispose();
+    this.viewportTargets = null;
+    this.offscreenTargets = null;
+    this.targets = null;
+
+    if (this.passes) {
+      for (const pass of Object.values(this.passes) as PostProcessPass[]) {
+        gl.deleteProgram(pass.program);
+      }
+    }
+    if (this.vao) gl.deleteVertexArray(this.vao);
+    this.passes = null;
+    this.vao = null;
+  }
+
+  private renderAmbientOcclusion(
+    passes: PostProcessPasses,
+    camera: ICamera,
+    sceneDepth: WebGLTexture,
+    targets: readonly [PostProcessTarget, PostProcessTarget],
+    settings: RendererSettings
+  ): void {
+    const gl = this.gl;
+    const { program, locations } = passes.ssao;
+    const projection = camera.getProjectionMatrix();
+
+    this.bindTarget(targets[0]);
+    gl.useProgram(program);
+    this.bindTexture(locations.get('uSceneDepth'), 0, sceneDepth);
+    gl.uniformMatrix4fv(locations.get('uProjection') ?? null, false, projection);
+    gl.uniformMatrix4fv(locations.get('uInverseProjection') ?? null, false, mat4Inverse(projection));
+    gl.uniform1f(locations.get('uRadius') ?? null, settings.ssaoRadius);
+    gl.uniform1f(locations.get('uIntensity') ?? null, settings.ssaoIntensity);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  }
+
+  private renderBloomPrefilter(
+    pass: PostProcessPass,
+    source: WebGLTexture,
+    target: PostProcessTarget,
+    threshold: number
+  ): void {
+    const gl = this.gl;
+
+    this.bindTarget(target);
+    gl.useProgram(pass.program);
+    this.bindTexture(pass.locations.get('uSource'), 0, source);
+    gl.uniform1f(pass.locations.get('uThreshold') ?? null, threshold);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  }
+
+  /**
+   * Blur the first of two ping-pong targets in place, one horizontal and
+   * one vertical pass per iteration.
+   */
+  private blur(
+    pass: PostProcessPass,
+    targets: readonly [PostProcessTarget, PostProcessTarget],
+    iterations: number
+  ): void {
+    const gl = this.gl;
+    const sourceLoc = pass.locations.get('uSource');
+    const directionLoc = pass.locations.get('uDirection') ?? null;
+
+    gl.useProgram(pass.program);
+    for (let i = 0; i < iterations; i++) {
+      this.bindTarget(targets[1]);
+      this.bindTexture(sourceLoc, 0, targets[0].texture);
+      gl.uniform2f(directionLoc, 1, 0);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+      this.bindTarget(targets[0]);
+      this.bindTexture(sourceLoc, 0, targets[1].texture);
+      gl.uniform2f(directionLoc, 0, 1);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+  }
+
+  private renderComposite(
+    pass: PostProcessPass,
+    targets: PostProcessTargets,
+    frame: PostProcessFrame,
+    writeOutput: boolean
+  ): void {
+    const gl = this.gl;
+    const { locations } = pass;
+    const { settings } = frame;
+    const loc = (name: string): WebGLUniformLocation | null => locations.get(name) ?? null;
+
+    gl.useProgram(pass.program);
+    this.bindTexture(locations.get('uSceneColor'), 0, targets.scene!.texture);
+    this.bindTexture(locations.get('uSceneDepth'), 1, targets.sceneDepth!);
+    this.bindTexture(locations.get('uBloom'), 2, targets.bloom![0].texture);
+    this.bindTexture(locations.get('uAmbientOcclusion'), 3, targets.ambientOcclusion![0].texture);
+
+    gl.uniform1i(loc('uBloomEnabled'), settings.bloom ? 1 : 0);
+    gl.uniform1f(loc('uBloomIntensity'), settings.bloomIntensity);
+    gl.uniform1i(loc('uSSAOEnabled'), settings.ssao ? 1 : 0);
+    gl.uniform1f(loc('uExposure'), settings.exposure);
+    gl.uniform1i(loc('uToneMapping'), settings.toneMapping ? 1 : 0);
+    gl.uniform1i(loc('uColorGrading'), settings.colorGrading ? 1 : 0);
+    gl.uniform1f(loc('uContrast'), settings.contrast);
+    gl.uniform1f(loc('uSaturation'), settings.saturation);
+    gl.uniform1f(loc('uTemperature'), settings.temperature);
+    gl.uniform1i(loc('uBackgroundMode'), BACKGROUND_MODES[frame.background]);
+    gl.uniform1i(loc('uWriteOutput'), writeOutput ? 1 : 0);
+    gl.uniform1i(loc('uLinearOutput'), frame.linearOutput ? 1 : 0);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  }
+
+  private renderFXAA(pass: PostProcessPass, source: WebGLTexture, sceneDepth: WebGLTexture): void {
+    const gl = this.gl;
+
+    gl.useProgram(pass.program);
+    this.bindTexture(pass.locations.get('uSource'), 0, source);
+    this.bindTexture(pass.locations.get('uSceneDepth'), 1, sceneDepth);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  }
+
+  private bindTarget(target: PostProcessTarget): void {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, target.framebuffer);
+    this.gl.viewport(0, 0, target.width, target.height);
+  }
+
+  private bindTexture(location: WebGLUniformLocation | null | undefined, unit: number, texture: WebGLTexture): void {
+    if (!location) return;
+
+    const gl = this.gl;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(location, unit);
+  }
+
+  /**
+   * Compile every pass on first use.
+   */
+  private ensurePasses(): PostProcessPasses {
+    if (this.passes) return this.passes;
+
+    this.passes = {
+      ssao: this.createPass(SSAO_FRAGMENT_SHADER, SSAO_UNIFORMS),
+      bloomPrefilter: this.createPass(BLOOM_PREFILTER_FRAGMENT_SHADER, BLOOM_PREFILTER_UNIFORMS),
+      blur: this.createPass(BLUR_FRAGMENT_SHADER, BLUR_UNIFORMS),
+      composite: this.createPass(POST_COMPOSITE_FRAGMENT_SHADER, COMPOSITE_UNIFORMS),
+      fxaa: this.createPass(FXAA_FRAGMENT_SHADER, FXAA_UNIFORMS),
+    };
+    // The fullscreen triangle is generated from gl_VertexID
+    this.vao = this.gl.createVertexArray();
+
+    return this.passes;
+  }
+
+  private createPass(fragmentSource: string, uniforms: readonly string[]): PostProcessPass {
+    const program = this.createProgram(FULLSCREEN_VERTEX_SHADER, fragmentSource);
+    const locations: UniformLocations = new Map();
+    for (const name of uniforms) {
+      locations.set(name, this.gl.getUniformLocation(program, name));
+    }
+    return { program, locations };
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
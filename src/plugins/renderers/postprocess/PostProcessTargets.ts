@@ -0,0 +1,216 @@
+/**
+ * PostProcessTargets - Render targets for the post-processing stack
+ *
+ * Owns the framebuffers a frame passes through between the scene and the
+ * output, all sized from the output size:
+ *
+ * | Target               | Size | Format          | Contents                    |
+ * |----------------------|------|-----------------|-----------------------------|
+ * | scene                | full | RGBA16F + depth | HDR scene color and depth   |
+ * | bloom (2)            | half | RGBA16F         | Bright pass, blur ping-pong |
+ * | ambientOcclusion (2) | half | RGBA8           | SSAO factor, blur ping-pong |
+ * | display              | full | RGBA8           | Tone mapped color for FXAA  |
+ *
+ * The scene depth is a DEPTH_COMPONENT24 texture, so SSAO can sample it and
+ * the final pass can copy it to the output. Half-float color targets need
+ * EXT_color_buffer_float; PostProcessStack checks for it before creating
+ * targets.
+ *
+ * @example
+ * ```typescript
+ * const targets = new PostProcessTargets(gl);
+ * targets.resize(canvas.width, canvas.height);
+ *
+ * gl.bindFramebuffer(gl.FRAMEBUFFER, targets.scene!.framebuffer);
+ * // ...draw the scene in linear HDR
+ * ```
+ */
+
+/**
+ * A color texture with the framebuffer that renders into it.
+ */
+export interface PostProcessTarget {
+  readonly texture: WebGLTexture;
+  readonly framebuffer: WebGLFramebuffer;
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Framebuffers of the post-processing stack.
+ */
+export class PostProcessTargets {
+  private readonly gl: WebGL2RenderingContext;
+
+  private sceneTarget: PostProcessTarget | null = null;
+  private sceneDepthTexture: WebGLTexture | null = null;
+  private bloomTargets: [PostProcessTarget, PostProcessTarget] | null = null;
+  private aoTargets: [PostProcessTarget, PostProcessTarget] | null = null;
+  private displayTarget: PostProcessTarget | null = null;
+  private width = 0;
+  private height = 0;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  /**
+   * Get the current output size in pixels.
+   */
+  getSize(): [number, number] {
+    return [this.width, this.height];
+  }
+
+  /**
+   * Get the HDR scene target, or null before the first resize().
+   */
+  get scene(): PostProcessTarget | null {
+    return this.sceneTarget;
+  }
+
+  /**
+   * Get the scene depth texture, or null before the first resize().
+   */
+  get sceneDepth(): WebGLTexture | null {
+    return this.sceneDepthTexture;
+  }
+
+  /**
+   * Get the half-resolution bloom ping-pong targets.
+   */
+  get bloom(): readonly [PostProcessTarget, PostProcessTarget] | null {
+    return this.bloomTargets;
+  }
+
+  /**
+   * Get the half-resolution ambient occlusion ping-pong targets.
+   */
+  get ambientOcclusion(): readonly [PostProcessTarget, PostProcessTarget] | null {
+    return this.aoTargets;
+  }
+
+  /**
+   * Get the tone mapped display target that FXAA reads from.
+   */
+  get display(): PostProcessTarget | null {
+    return this.displayTarget;
+  }
+
+  /**
+   * (Re)allocate every target when the size changes.
+   */
+  resize(width: number, height: number): void {
+    const w = Math.max(Math.floor(width), 1);
+    const h = Math.max(Math.floor(height), 1);
+    if (this.sceneTarget && w === this.width && h === this.height) {
+      return;
+    }
+
+    this.deleteTargets();
+    this.width = w;
+    this.height = h;
+
+    const gl = this.gl;
+    const halfWidth = Math.max(w >> 1, 1);
+    const halfHeight = Math.max(h >> 1, 1);
+    const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+
+    this.sceneDepthTexture = this.createTexture(gl.DEPTH_COMPONENT24, w, h, gl.NEAREST);
+    this.sceneTarget = this.createTarget('scene', gl.RGBA16F, w, h, gl.NEAREST, this.sceneDepthTexture);
+    this.bloomTargets = [
+      this.createTarget('bloom', gl.RGBA16F, halfWidth, halfHeight, gl.LINEAR),
+      this.createTarget('bloom', gl.RGBA16F, halfWidth, halfHeight, gl.LINEAR),
+    ];
+    this.aoTargets = [
+      this.createTarget('ambient occlusion', gl.RGBA8, halfWidth, halfHeight, gl.LINEAR),
+      this.createTarget('ambient occlusion', gl.RGBA8, halfWidth, halfHeight, gl.LINEAR),
+    ];
+    this.displayTarget = this.createTarget('display', gl.RGBA8, w, h, gl.LINEAR);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+  }
+
+  /**
+   * Release all GPU resources.
+   */
+  dispose(): void {
+    this.deleteTargets();
+    this.width = 0;
+    this.height = 0;
+  }
+
+  private createTarget(
+    label: string,
+    internalFormat: number,
+    width: number,
+    height: number,
+    filter: number,
+    depthTexture: WebGLTexture | null = null
+  ): PostProcessTarget {
+    const gl = this.gl;
+    const texture = this.createTexture(internalFormat, width, height, filter);
+
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('Failed to create post-processing framebuffer');
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    if (depthTexture) {
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.TEXTURE_2D, depthTexture, 0);
+    }
+
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      throw new Error(`PostProcessTargets: ${label} framebuffer incomplete (0x${status.toString(16)})`);
+    }
+
+    return { texture, framebuffer, width, height };
+  }
+
+  /**
+   * Create a single-level render target texture.
+   */
+  private createTexture(internalFormat: number, width: number, height: number, filter: number): WebGLTexture {
+    const gl = this.gl;
+
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create post-processing texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, internalFormat, width, height);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    return texture;
+  }
+
+  private deleteTargets(): void {
+    const gl = this.gl;
+
+    const targets = [
+      this.sceneTarget,
+      ...(this.bloomTargets ?? []),
+      ...(this.aoTargets ?? []),
+      this.displayTarget,
+    ];
+    for (const target of targets) {
+      if (!target) continue;
+      gl.deleteTexture(target.texture);
+      gl.deleteFramebuffer(target.framebuffer);
+    }
+    if (this.sceneDepthTexture) gl.deleteTexture(this.sceneDepthTexture);
+
+    this.sceneTarget = null;
+    this.sceneDepthTexture = null;
+    this.bloomTargets = null;
+    this.aoTargets = null;
+    this.displayTarget = null;
+  }
+}
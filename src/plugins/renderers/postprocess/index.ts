@@ -0,0 +1,11 @@
+/**
+ * Post-Processing Module
+ *
+ * HDR scene targets and the fullscreen passes that turn them into the final
+ * image: SSAO, bloom, tone mapping with color grading, and FXAA.
+ */
+
+export { PostProcessStack, BLOOM_BLUR_PASSES } from './PostProcessStack';
+export type { PostProcessBackground, PostProcessFrame } from './PostProcessStack';
+export { PostProcessTargets } from './PostProcessTargets';
+export type { PostProcessTarget } from './PostProcessTargets';
@@ -0,0 +1,429 @@
+/**
+ * BVH - Bounding volume hierarchy over a triangle soup
+ *
+ * Built top-down with a binned surface area heuristic (SAH) and flattened
+ * into typed arrays in depth-first order, so traversal needs no objects and
+ * the structure can live in a worker. Falls back to a median split when SAH
+ * finds no useful partition (e.g. many triangles sharing one centroid).
+ *
+ * @example
+ * ```typescript
+ * const bvh = new BVH(positions); // 9 floats per triangle
+ * const hit = createBVHHit();
+ * if (bvh.intersect([0, -5, 1], [0, 1, 0], Infinity, hit)) {
+ *   console.log(hit.triangle, hit.t);
+ * }
+ * ```
+ */
+
+import type { Vec3 } from '@utils/math';
+
+/**
+ * Closest-hit result, reused across queries to avoid allocation.
+ */
+export interface BVHHit {
+  /** Distance along the ray */
+  t: number;
+  /** Index of the hit triangle in the source positions */
+  triangle: number;
+  /** Barycentric weight of the second vertex */
+  u: number;
+  /** Barycentric weight of the third vertex */
+  v: number;
+}
+
+/**
+ * Create an empty hit record.
+ */
+export function createBVHHit(): BVHHit {
+  return { t: Infinity, triangle: -1, u: 0, v: 0 };
+}
+
+/** Triangles at or below this count always become a leaf */
+const MAX_LEAF_TRIANGLES = 4;
+
+/** Candidate split planes per axis */
+const SAH_BINS = 12;
+
+/** Cost of visiting a node relative to one triangle test */
+const TRAVERSAL_COST = 1;
+
+/** Rays closer than this to their origin are ignored (self-intersection) */
+const RAY_EPSILON = 1e-7;
+
+/** Traversal stack depth; median splits keep trees far shallower */
+const STACK_SIZE = 64;
+
+/**
+ * Triangle bounding volume hierarchy.
+ */
+export class BVH {
+  private readonly positions: Float32Array;
+  private readonly centroids: Float32Array;
+  private readonly triBounds: Float32Array;
+  private readonly order: Uint32Array;
+
+  /** Per node: min xyz, max xyz */
+  private nodeBounds: Float32Array;
+  /** Per node: leaf -> first triangle in `order`; inner -> right child index */
+  private nodeOffsets: Uint32Array;
+  /** Per node: triangle count (0 for inner nodes, whose left child follows them) */
+  private nodeCounts: Uint32Array;
+  private nodeCount = 0;
+
+  private readonly stack = new Uint32Array(STACK_SIZE);
+
+  constructor(positions: Float32Array) {
+    this.positions = positions;
+
+    const triangleCount = Math.floor(positions.length / 9);
+    this.centroids = new Float32Array(triangleCount * 3);
+    this.triBounds = new Float32Array(triangleCount * 6);
+    this.order = new Uint32Array(triangleCount);
+
+    for (let i = 0; i < triangleCount; i++) {
+      this.order[i] = i;
+      for (let axis = 0; axis < 3; axis++) {
+        const a = positions[i * 9 + axis];
+        const b = positions[i * 9 + 3 + axis];
+        const c = positions[i * 9 + 6 + axis];
+        const min = Math.min(a, b, c);
+        const max = Math.max(a, b, c);
+        this.triBounds[i * 6 + axis] = min;
+        this.triBounds[i * 6 + 3 + axis] = max;
+        this.centroids[i * 3 + axis] = (min + max) / 2;
+      }
+    }
+
+    const maxNodes = Math.max(triangleCount * 2 - 1, 1);
+    this.nodeBounds = new Float32Array(maxNodes * 6);
+    this.nodeOffsets = new Uint32Array(maxNodes);
+    this.nodeCounts = new Uint32Array(maxNodes);
+
+    if (triangleCount > 0) {
+      this.buildNode(0, triangleCount, 0);
+    }
+
+    this.nodeBounds = this.nodeBounds.slice(0, this.nodeCount * 6);
+    this.nodeOffsets = this.nodeOffsets.slice(0, this.nodeCount);
+    this.nodeCounts = this.nodeCounts.slice(0, this.nodeCount);
+  }
+
+  /**
+   * Number of triangles in the hierarchy.
+   */
+  get triangleCount(): number {
+    return this.order.length;
+  }
+
+  /**
+   * Get the number of nodes in the flattened tree.
+   */
+  getNodeCount(): number {
+    return this.nodeCount;
+  }
+
+  /**
+   * Get the bounds of the whole hierarchy, or null when empty.
+   */
+  getBounds(): { min: Vec3; max: Vec3 } | null {
+    if (this.nodeCount === 0) return null;
+    const b = this.nodeBounds;
+    return { min: [b[0], b[1], b[2]], max: [b[3], b[4], b[5]] };
+  }
+
+  /**
+   * Find the closest triangle hit along a ray.
+   *
+   * @param origin - Ray origin
+   * @param direction - Ray direction (need not be normalized; t is in its units)
+   * @param tMax - Ignore hits at or beyond this distance
+   * @param hit - Filled with the closest hit when one is found
+   * @returns Whether anything was hit
+   */
+  intersect(origin: Vec3, direction: Vec3, tMax: number, hit: BVHHit): boolean {
+    return this.traverse(origin, direction, tMax, hit, false);
+  }
+
+  /**
+   * Test whether anything blocks a ray before `tMax` (any-hit, for shadow rays).
+   */
+  occluded(origin: Vec3, direction: Vec3, tMax: number): boolean {
+    return this.traverse(origin, direction, tMax, null, true);
+  }
+
+  private traverse(origin: Vec3, direction: Vec3, tMax: number, hit: BVHHit | null, anyHit: boolean): boolean {
+    if (this.nodeCount === 0) return false;
+
+    const invX = 1 / direction[0];
+    const invY = 1 / direction[1];
+    const invZ = 1 / direction[2];
+    let closest = tMax;
+    let found = false;
+
+    const stack = this.stack;
+    let stackSize = 0;
+    stack[stackSize++] = 0;
+
+    while (stackSize > 0) {
+      const node = stack[--stackSize];
+      if (!this.hitsNode(node, origin, invX, invY, invZ, closest)) continue;
+
+      const count = this.nodeCounts[node];
+      if (count === 0) {
+        if (stackSize + 2 > STACK_SIZE) continue;
+        stack[stackSize++] = this.nodeOffsets[node];
+        stack[stackSize++] = node + 1;
+        continue;
+      }
+
+      const first = this.nodeOffsets[node];
+      for (let i = first; i < first + count; i++) {
+        const triangle = this.order[i];
+        const t = this.intersectTriangle(triangle, origin, direction, closest, hit);
+        if (t < closest) {
+          if (anyHit) return true;
+          closest = t;
+          found = true;
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Slab test against a node's bounds.
+   */
+  private hitsNode(node: number, origin: Vec3, invX: number, invY: number, invZ: number, tMax: number): boolean {
+    const b = this.nodeBounds;
+    const o = node * 6;
+
+    let tx1 = (b[o] - origin[0]) * invX;
+    let tx2 = (b[o + 3] - origin[0]) * invX;
+    let tNear = Math.min(tx1, tx2);
+    let tFar = Math.max(tx1, tx2);
+
+    tx1 = (b[o + 1] - origin[1]) * invY;
+    tx2 = (b[o + 4] - origin[1]) * invY;
+    tNear = Math.max(tNear, Math.min(tx1, tx2));
+    tFar = Math.min(tFar, Math.max(tx1, tx2));
+
+    tx1 = (b[o + 2] - origin[2]) * invZ;
+    tx2 = (b[o + 5] - origin[2]) * invZ;
+    tNear = Math.max(tNear, Math.min(tx1, tx2));
+    tFar = Math.min(tFar, Math.max(tx1, tx2));
+
+    // NaN (0 * Infinity on an axis-aligned ray along a slab face) fails both tests
+    return tFar >= Math.max(tNear, 0) && tNear < tMax;
+  }
+
+  /**
+   * Möller-Trumbore ray/triangle test (double-sided).
+   *
+   * @returns Hit distance, or Infinity on a miss or a hit beyond tMax
+   */
+  private intersectTriangle(triangle: number, origin: Vec3, direction: Vec3, tMax: number, hit: BVHHit | null): number {
+    const p = this.positions;
+    const i = triangle * 9;
+
+    const e1x = p[i + 3] - p[i], e1y = p[i + 4] - p[i + 1], e1z = p[i + 5] - p[i + 2];
+    const e2x = p[i + 6] - p[i], e2y = p[i + 7] - p[i + 1], e2z = p[i + 8] - p[i + 2];
+
+    const px = direction[1] * e2z - direction[2] * e2y;
+    const py = direction[2] * e2x - direction[0] * e2z;
+    const pz = direction[0] * e2y - direction[1] * e2x;
+    const det = e1x * px + e1y * py + e1z * pz;
+    if (Math.abs(det) < 1e-12) return Infinity;
+
+    const invDet = 1 / det;
+    const tx = origin[0] - p[i], ty = origin[1] - p[i + 1], tz = origin[2] - p[i + 2];
+    const u = (tx * px + ty * py + tz * pz) * invDet;
+    if (u < 0 || u > 1) return Infinity;
+
+    const qx = ty * e1z - tz * e1y;
+    const qy = tz * e1x - tx * e1z;
+    const qz = tx * e1y - ty * e1x;
+    const v = (direction[0] * qx + direction[1] * qy + direction[2] * qz) * invDet;
+    if (v < 0 || u + v > 1) return Infinity;
+
+    const t = (e2x * qx + e2y * qy + e2z * qz) * invDet;
+    if (t <= RAY_EPSILON || t >= tMax) return Infinity;
+
+    if (hit) {
+      hit.t = t;
+      hit.triangle = triangle;
+      hit.u = u;
+      hit.v = v;
+    }
+    return t;
+  }
+
+  /**
+   * Build the node for order[start, end) at `index`; its subtree follows it.
+   */
+  private buildNode(start: number, end: number, index: number): void {
+    this.nodeCount = Math.max(this.nodeCount, index + 1);
+    this.computeBounds(start, end, index);
+
+    const count = end - start;
+    const split = count <= MAX_LEAF_TRIANGLES ? -1 : this.partition(start, end, index);
+
+    if (split < 0) {
+      this.nodeOffsets[index] = start;
+      this.nodeCounts[index] = count;
+      return;
+    }
+
+    // Left subtree directly after this node, right subtree after the left one
+    this.nodeCounts[index] = 0;
+    this.buildNode(start, split, index + 1);
+    const rightIndex = this.nodeCount;
+    this.nodeOffsets[index] = rightIndex;
+    this.buildNode(split, end, rightIndex);
+  }
+
+  private computeBounds(start: number, end: number, index: number): void {
+    const bounds = this.nodeBounds;
+    const o = index * 6;
+    bounds[o] = bounds[o + 1] = bounds[o + 2] = Infinity;
+    bounds[o + 3] = bounds[o + 4] = bounds[o + 5] = -Infinity;
+
+    for (let i = start; i < end; i++) {
+      const t = this.order[i] * 6;
+      for (let axis = 0; axis < 3; axis++) {
+        bounds[o + axis] = Math.min(bounds[o + axis], this.triBounds[t + axis]);
+        bounds[o + 3 + axis] = Math.max(bounds[o + 3 + axis], this.triBounds[t + 3 + axis]);
+      }
+    }
+  }
+
+  /**
+   * Reorder order[start, end) around the best split.
+   *
+   * @returns The first index of the right half, or -1 to make a leaf
+   */
+  private partition(start: number, end: number, index: number): number {
+    const count = end - start;
+
+    // Centroid bounds decide the bin layout
+    const cMin: Vec3 = [Infinity, Infinity, Infinity];
+    const cMax: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (let i = start; i < end; i++) {
+      const c = this.order[i] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        cMin[axis] = Math.min(cMin[axis], this.centroids[c + axis]);
+        cMax[axis] = Math.max(cMax[axis], this.centroids[c + axis]);
+      }
+    }
+
+    let bestAxis = -1;
+    let bestBin = 0;
+    let bestCost = count * this.surfaceArea(this.nodeBounds, index * 6);
+
+    for (let axis = 0; axis < 3; axis++) {
+      const extent = cMax[axis] - cMin[axis];
+      if (extent <= 0) continue;
+
+      const binCounts = new Uint32Array(SAH_BINS);
+      const binBounds = new Float32Array(SAH_BINS * 6);
+      for (let b = 0; b < SAH_BINS; b++) {
+        binBounds.fill(Infinity, b * 6, b * 6 + 3);
+        binBounds.fill(-Infinity, b * 6 + 3, b * 6 + 6);
+      }
+
+      for (let i = start; i < end; i++) {
+        const tri = this.order[i];
+        const bin = this.getBin(this.centroids[tri * 3 + axis], cMin[axis], extent);
+        binCounts[bin]++;
+        this.growBounds(binBounds, bin * 6, this.triBounds, tri * 6);
+      }
+
+      // Sweep from the right to get the cost of every right-hand side
+      const rightCost = new Float32Array(SAH_BINS);
+      const accum = new Float32Array([Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity]);
+      let rightCount = 0;
+      for (let b = SAH_BINS - 1; b > 0; b--) {
+        rightCount += binCounts[b];
+        this.growBounds(accum, 0, binBounds, b * 6);
+        rightCost[b] = rightCount > 0 ? rightCount * this.surfaceArea(accum, 0) : 0;
+      }
+
+      accum.set([Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity]);
+      let leftCount = 0;
+      for (let b = 0; b < SAH_BINS - 1; b++) {
+        leftCount += binCounts[b];
+        this.growBounds(accum, 0, binBounds, b * 6);
+        if (leftCount === 0 || leftCount === count) continue;
+
+        const cost = TRAVERSAL_COST * this.surfaceArea(this.nodeBounds, index * 6)
+          + leftCount * this.surfaceArea(accum, 0) + rightCost[b + 1];
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestAxis = axis;
+          bestBin = b;
+        }
+      }
+    }
+
+    if (bestAxis >= 0) {
+      const extent = cMax[bestAxis] - cMin[bestAxis];
+      return this.partitionBy(start, end, (tri) =>
+        this.getBin(this.centroids[tri * 3 + bestAxis], cMin[bestAxis], extent) <= bestBin);
+    }
+
+    // SAH prefers a leaf; split large leaves anyway so traversal stays bounded
+    if (count <= MAX_LEAF_TRIANGLES * 4) return -1;
+    return this.medianSplit(start, end, cMin, cMax);
+  }
+
+  /**
+   * Sort by centroid along the longest axis and split in the middle.
+   */
+  private medianSplit(start: number, end: number, cMin: Vec3, cMax: Vec3): number {
+    let axis = 0;
+    for (let a = 1; a < 3; a++) {
+      if (cMax[a] - cMin[a] > cMax[axis] - cMin[axis]) axis = a;
+    }
+
+    const sorted = Array.from(this.order.subarray(start, end))
+      .sort((a, b) => this.centroids[a * 3 + axis] - this.centroids[b * 3 + axis]);
+    this.order.set(sorted, start);
+    return start + Math.floor((end - start) / 2);
+  }
+
+  private partitionBy(start: number, end: number, isLeft: (triangle: number) => boolean): number {
+    let i = start;
+    let j = end - 1;
+    while (i <= j) {
+      if (isLeft(this.order[i])) {
+        i++;
+      } else {
+        const tmp = this.order[i];
+        this.order[i] = this.order[j];
+        this.order[j] = tmp;
+        j--;
+      }
+    }
+    return i;
+  }
+
+  private getBin(centroid: number, min: number, extent: number): number {
+    return Math.min(Math.floor(((centroid - min) / extent) * SAH_BINS), SAH_BINS - 1);
+  }
+
+  private growBounds(target: Float32Array, t: number, source: Float32Array, s: number): void {
+    for (let axis = 0; axis < 3; axis++) {
+      target[t + axis] = Math.min(target[t + axis], source[s + axis]);
+      target[t + 3 + axis] = Math.max(target[t + 3 + axis], source[s + 3 + axis]);
+    }
+  }
+
+  private surfaceArea(bounds: Float32Array, o: number): number {
+    const dx = bounds[o + 3] - bounds[o];
+    const dy = bounds[o + 4] - bounds[o + 1];
+    const dz = bounds[o + 5] - bounds[o + 2];
+    if (!(dx >= 0 && dy >= 0 && dz >= 0)) return 0;
+    return 2 * (dx * dy + dy * dz + dz * dx);
+  }
+}
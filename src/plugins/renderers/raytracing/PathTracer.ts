@@ -0,0 +1,541 @@
+/**
+ * PathTracer - Progressive CPU path tracer
+ *
+ * Unbiased reference renderer for the forward PBR shader. Uses the same
+ * Cook-Torrance BRDF (GGX, Smith-Schlick, Fresnel-Schlick), light attenuation,
+ * spot cone falloff and ACES tone mapping as the GLSL, so differences between
+ * the two images come from global illumination and shadows rather than from
+ * mismatched shading models.
+ *
+ * Each call to renderSample() adds one jittered sample per pixel to a linear
+ * accumulation buffer. Punctual lights are sampled directly (next-event
+ * estimation); indirect light, emissive surfaces and the hemisphere sky are
+ * picked up by BRDF-sampled bounces.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new PathTracer(scene, { width: 320, height: 180, maxSamples: 64, maxBounces: 4 });
+ * while (!tracer.isComplete()) {
+ *   tracer.renderSample();
+ * }
+ * context.putImageData(new ImageData(tracer.toRGBA(), 320, 180), 0, 0);
+ * ```
+ */
+
+import type { Vec3 } from '@utils/math';
+import { vec3Cross, vec3Normalize, vec3Subtract } from '@utils/math';
+import { BVH, createBVHHit } from './BVH';
+import type { BVHHit } from './BVH';
+import type { PathTracerLight, PathTracerMaterial, PathTracerScene, PathTracerSettings } from './types';
+
+/** Minimum roughness, matching the forward PBR shader */
+const MIN_ROUGHNESS = 0.04;
+
+/** Offset along the geometric normal for secondary ray origins */
+const SURFACE_OFFSET = 1e-4;
+
+/** Bounces before Russian roulette may terminate a path */
+const ROULETTE_START_BOUNCE = 2;
+
+/** Fallback seed when settings leave it unset */
+const DEFAULT_SEED = 0x2545f491;
+
+/**
+ * Small, fast seeded PRNG (mulberry32).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function saturate(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+function luminance(color: Vec3): number {
+  return color[0] * 0.2126 + color[1] * 0.7152 + color[2] * 0.0722;
+}
+
+/**
+ * Point/spot attenuation (lighting.glsl lightAttenuation).
+ */
+function lightAttenuation(distance: number, range: number): number {
+  if (range <= 0) {
+    return 1 / (distance * distance + 1);
+  }
+  const falloff = saturate(1 - Math.pow(distance / range, 4));
+  return (falloff * falloff) / (distance * distance + 1);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = saturate((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * GGX normal distribution (brdf.glsl distributionGGX).
+ */
+function distributionGGX(NdotH: number, roughness: number): number {
+  const a = roughness * roughness;
+  const a2 = a * a;
+  const denom = NdotH * NdotH * (a2 - 1) + 1;
+  return a2 / Math.max(Math.PI * denom * denom, 0.0001);
+}
+
+/**
+ * Smith-Schlick geometry term (brdf.glsl geometrySmith).
+ */
+function geometrySmith(NdotV: number, NdotL: number, roughness: number): number {
+  const r = roughness + 1;
+  const k = (r * r) / 8;
+  return (NdotV / (NdotV * (1 - k) + k)) * (NdotL / (NdotL * (1 - k) + k));
+}
+
+/**
+ * Build an orthonormal basis around a unit normal.
+ */
+function createBasis(n: Vec3): [Vec3, Vec3] {
+  const helper: Vec3 = Math.abs(n[2]) < 0.999 ? [0, 0, 1] : [1, 0, 0];
+  const tangent = vec3Normalize(vec3Cross(helper, n));
+  return [tangent, vec3Cross(n, tangent)];
+}
+
+function toWorld(local: Vec3, n: Vec3, tangent: Vec3, bitangent: Vec3): Vec3 {
+  return [
+    tangent[0] * local[0] + bitangent[0] * local[1] + n[0] * local[2],
+    tangent[1] * local[0] + bitangent[1] * local[1] + n[1] * local[2],
+    tangent[2] * local[0] + bitangent[2] * local[1] + n[2] * local[2],
+  ];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * Shading inputs at a surface point.
+ */
+interface SurfacePoint {
+  readonly position: Vec3;
+  /** Shading normal, facing the incoming ray */
+  readonly normal: Vec3;
+  /** Geometric normal, facing the incoming ray */
+  readonly geometricNormal: Vec3;
+  readonly material: PathTracerMaterial;
+  readonly roughness: number;
+  readonly F0: Vec3;
+}
+
+/**
+ * Progressive path tracer over a PathTracerScene.
+ */
+export class PathTracer {
+  private readonly scene: PathTracerScene;
+  private readonly settings: PathTracerSettings;
+  private readonly bvh: BVH;
+  private readonly accumulation: Float32Array;
+  private readonly random: () => number;
+  private readonly hit: BVHHit = createBVHHit();
+  private samples = 0;
+
+  // Camera basis, derived once
+  private readonly cameraForward: Vec3;
+  private readonly cameraRight: Vec3;
+  private readonly cameraUp: Vec3;
+  private readonly tanHalfFov: number;
+
+  constructor(scene: PathTracerScene, settings: PathTracerSettings) {
+    if (settings.width <= 0 || settings.height <= 0) {
+      throw new Error(`Invalid render size ${settings.width}x${settings.height}`);
+    }
+
+    this.scene = scene;
+    this.settings = settings;
+    this.bvh = new BVH(scene.positions);
+    this.accumulation = new Float32Array(settings.width * settings.height * 3);
+    this.random = createRandom(settings.seed ?? DEFAULT_SEED);
+
+    const { position, target, up, fov } = scene.camera;
+    this.cameraForward = vec3Normalize(vec3Subtract(target, position));
+    this.cameraRight = vec3Normalize(vec3Cross(this.cameraForward, up));
+    this.cameraUp = vec3Cross(this.cameraRight, this.cameraForward);
+    this.tanHalfFov = Math.tan(fov / 2);
+  }
+
+  /**
+   * Samples per pixel accumulated so far.
+   */
+  get sampleCount(): number {
+    return this.samples;
+  }
+
+  /**
+   * Whether the configured sample budget has been reached.
+   */
+  isComplete(): boolean {
+    return this.samples >= this.settings.maxSamples;
+  }
+
+  /**
+   * Get the acceleration structure (exposed for diagnostics).
+   */
+  getBVH(): BVH {
+    return this.bvh;
+  }
+
+  /**
+   * Trace one sample for every pixel and add it to the accumulation buffer.
+   */
+  renderSample(): void {
+    const { width, height } = this.settings;
+    const aspect = width / height;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const ndcX = ((x + this.random()) / width) * 2 - 1;
+        const ndcY = 1 - ((y + this.random()) / height) * 2;
+        const [origin, direction] = this.getCameraRay(ndcX, ndcY, aspect);
+
+        const radiance = this.tracePath(origin, direction);
+        const offset = (y * width + x) * 3;
+        this.accumulation[offset] += radiance[0];
+        this.accumulation[offset + 1] += radiance[1];
+        this.accumulation[offset + 2] += radiance[2];
+      }
+    }
+
+    this.samples++;
+  }
+
+  /**
+   * Get the averaged linear radiance of a pixel.
+   */
+  getPixelRadiance(x: number, y: number): Vec3 {
+    const offset = (y * this.settings.width + x) * 3;
+    const scale = this.samples > 0 ? 1 / this.samples : 0;
+    return [
+      this.accumulation[offset] * scale,
+      this.accumulation[offset + 1] * scale,
+      this.accumulation[offset + 2] * scale,
+    ];
+  }
+
+  /**
+   * Resolve the accumulation buffer to display pixels (ACES + gamma, as the forward shader).
+   *
+   * @param target - Optional output buffer to reuse (width * height * 4)
+   */
+  toRGBA(target?: Uint8ClampedArray): Uint8ClampedArray {
+    const { width, height } = this.settings;
+    const pixels = target ?? new Uint8ClampedArray(width * height * 4);
+    const scale = this.samples > 0 ? 1 / this.samples : 0;
+
+    for (let i = 0; i < width * height; i++) {
+      for (let c = 0; c < 3; c++) {
+        const linear = this.accumulation[i * 3 + c] * scale;
+        const mapped = saturate((linear * (2.51 * linear + 0.03)) / (linear * (2.43 * linear + 0.59) + 0.14));
+        pixels[i * 4 + c] = Math.pow(mapped, 1 / 2.2) * 255;
+      }
+      pixels[i * 4 + 3] = 255;
+    }
+
+    return pixels;
+  }
+
+  /**
+   * Get the primary ray through a point on the image plane. Orthographic
+   * cameras shoot parallel rays from points across the view.
+   */
+  private getCameraRay(ndcX: number, ndcY: number, aspect: number): [Vec3, Vec3] {
+    const { position, orthographicSize } = this.scene.camera;
+
+    if (orthographicSize !== undefined) {
+      const sx = ndcX * orthographicSize * aspect;
+      const sy = ndcY * orthographicSize;
+      const origin: Vec3 = [
+        position[0] + this.cameraRight[0] * sx + this.cameraUp[0] * sy,
+        position[1] + this.cameraRight[1] * sx + this.cameraUp[1] * sy,
+        position[2] + this.cameraRight[2] * sx + this.cameraUp[2] * sy,
+      ];
+      return [origin, [...this.cameraForward]];
+    }
+
+    const sx = ndcX * this.tanHalfFov * aspect;
+    const sy = ndcY * this.tanHalfFov;
+    const direction = vec3Normalize([
+      this.cameraForward[0] + this.cameraRight[0] * sx + this.cameraUp[0] * sy,
+      this.cameraForward[1] + this.cameraRight[1] * sx + this.cameraUp[1] * sy,
+      this.cameraForward[2] + this.cameraRight[2] * sx + this.cameraUp[2] * sy,
+    ]);
+    return [[...position], direction];
+  }
+
+  /**
+   * Trace a single camera path and return its radiance estimate.
+   */
+  private tracePath(origin: Vec3, direction: Vec3): Vec3 {
+    const radiance: Vec3 = [0, 0, 0];
+    const throughput: Vec3 = [1, 1, 1];
+
+    for (let bounce = 0; bounce <= this.settings.maxBounces; bounce++) {
+      if (!this.bvh.intersect(origin, direction, Infinity, this.hit)) {
+        const sky = this.environment(direction);
+        for (let c = 0; c < 3; c++) radiance[c] += throughput[c] * sky[c];
+        break;
+      }
+
+      const surface = this.getSurfacePoint(origin, direction);
+      const V: Vec3 = [-direction[0], -direction[1], -direction[2]];
+
+      // Emissive surfaces are only found by bounces, so no double counting with NEE
+      const emission = surface.material.emission;
+      for (let c = 0; c < 3; c++) radiance[c] += throughput[c] * emission[c];
+
+      const direct = this.sampleLights(surface, V);
+      for (let c = 0; c < 3; c++) radiance[c] += throughput[c] * direct[c];
+
+      if (bounce === this.settings.maxBounces) break;
+
+      const next = this.sampleBRDF(surface, V);
+      if (!next) break;
+
+      for (let c = 0; c < 3; c++) throughput[c] *= next.weight[c];
+
+      if (bounce >= ROULETTE_START_BOUNCE) {
+        const survival = Math.min(Math.max(throughput[0], throughput[1], throughput[2]), 0.95);
+        if (this.random() >= survival) break;
+        for (let c = 0; c < 3; c++) throughput[c] /= survival;
+      }
+
+      origin = this.offsetOrigin(surface, next.direction);
+      direction = next.direction;
+    }
+
+    return radiance;
+  }
+
+  /**
+   * Hemisphere sky (lighting.glsl hemisphereAmbient): ground is half the sky color.
+   */
+  private environment(direction: Vec3): Vec3 {
+    const sky = this.scene.ambientColor;
+    const blend = direction[2] * 0.5 + 0.5;
+    return [
+      sky[0] * (0.5 + 0.5 * blend),
+      sky[1] * (0.5 + 0.5 * blend),
+      sky[2] * (0.5 + 0.5 * blend),
+    ];
+  }
+
+  private getSurfacePoint(origin: Vec3, direction: Vec3): SurfacePoint {
+    const { triangle, t, u, v } = this.hit;
+    const p = this.scene.positions;
+    const n = this.scene.normals;
+    const i = triangle * 9;
+
+    const position: Vec3 = [
+      origin[0] + direction[0] * t,
+      origin[1] + direction[1] * t,
+      origin[2] + direction[2] * t,
+    ];
+
+    let geometricNormal = vec3Normalize(vec3Cross(
+      [p[i + 3] - p[i], p[i + 4] - p[i + 1], p[i + 5] - p[i + 2]],
+      [p[i + 6] - p[i], p[i + 7] - p[i + 1], p[i + 8] - p[i + 2]],
+    ));
+    const w = 1 - u - v;
+    let normal = vec3Normalize([
+      n[i] * w + n[i + 3] * u + n[i + 6] * v,
+      n[i + 1] * w + n[i + 4] * u + n[i + 7] * v,
+      n[i + 2] * w + n[i + 5] * u + n[i + 8] * v,
+    ]);
+
+    // Double-sided: face both normals toward the incoming ray
+    if (dot(geometricNormal, direction) > 0) {
+      geometricNormal = [-geometricNormal[0], -geometricNormal[1], -geometricNormal[2]];
+    }
+    if (normal[0] === 0 && normal[1] === 0 && normal[2] === 0) {
+      normal = geometricNormal;
+    } else if (dot(normal, geometricNormal) < 0) {
+      normal = [-normal[0], -normal[1], -normal[2]];
+    }
+
+    const material = this.scene.materials[this.scene.materialIndices[triangle]];
+    const metallic = material.metallic;
+    const F0: Vec3 = [
+      0.04 + (material.baseColor[0] - 0.04) * metallic,
+      0.04 + (material.baseColor[1] - 0.04) * metallic,
+      0.04 + (material.baseColor[2] - 0.04) * metallic,
+    ];
+
+    return {
+      position,
+      normal,
+      geometricNormal,
+      material,
+      roughness: Math.max(material.roughness, MIN_ROUGHNESS),
+      F0,
+    };
+  }
+
+  private offsetOrigin(surface: SurfacePoint, direction: Vec3): Vec3 {
+    const side = dot(direction, surface.geometricNormal) >= 0 ? SURFACE_OFFSET : -SURFACE_OFFSET;
+    return [
+      surface.position[0] + surface.geometricNormal[0] * side,
+      surface.position[1] + surface.geometricNormal[1] * side,
+      surface.position[2] + surface.geometricNormal[2] * side,
+    ];
+  }
+
+  /**
+   * Cook-Torrance BRDF (pbr.frag.glsl calculateDirectionalLight, without NdotL).
+   */
+  private evaluateBRDF(surface: SurfacePoint, V: Vec3, L: Vec3): Vec3 {
+    const N = surface.normal;
+    const H = vec3Normalize([V[0] + L[0], V[1] + L[1], V[2] + L[2]]);
+    const NdotL = Math.max(dot(N, L), 0);
+    const NdotV = Math.max(dot(N, V), 0);
+    const NdotH = Math.max(dot(N, H), 0);
+    const HdotV = Math.max(dot(H, V), 0);
+
+    const D = distributionGGX(NdotH, surface.roughness);
+    const G = geometrySmith(NdotV, NdotL, surface.roughness);
+    const fresnel = Math.pow(saturate(1 - HdotV), 5);
+    const denominator = 4 * Math.max(NdotV, 0.001) * Math.max(NdotL, 0.001);
+    const { baseColor, metallic } = surface.material;
+
+    const result: Vec3 = [0, 0, 0];
+    for (let c = 0; c < 3; c++) {
+      const F = surface.F0[c] + (1 - surface.F0[c]) * fresnel;
+      const specular = (D * G * F) / denominator;
+      const diffuse = ((1 - F) * (1 - metallic) * baseColor[c]) / Math.PI;
+      result[c] = diffuse + specular;
+    }
+    return result;
+  }
+
+  /**
+   * Next-event estimation: direct light from every punctual light, with shadow rays.
+   */
+  private sampleLights(surface: SurfacePoint, V: Vec3): Vec3 {
+    const result: Vec3 = [0, 0, 0];
+
+    for (const light of this.scene.lights) {
+      const incoming = this.resolveLight(light, surface.position);
+      if (!incoming) continue;
+
+      const { L, attenuation, distance } = incoming;
+      const NdotL = dot(surface.normal, L);
+      if (NdotL <= 0 || dot(surface.geometricNormal, L) <= 0) continue;
+
+      const origin = this.offsetOrigin(surface, L);
+      if (this.bvh.occluded(origin, L, distance)) continue;
+
+      const brdf = this.evaluateBRDF(surface, V, L);
+      for (let c = 0; c < 3; c++) {
+        result[c] += brdf[c] * light.color[c] * attenuation * NdotL;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Direction toward a light and its attenuation (lighting.glsl resolveLight).
+   */
+  private resolveLight(
+    light: PathTracerLight,
+    position: Vec3
+  ): { L: Vec3; attenuation: number; distance: number } | null {
+    if (light.type === 'directional') {
+      return {
+        L: [-light.direction[0], -light.direction[1], -light.direction[2]],
+        attenuation: 1,
+        distance: Infinity,
+      };
+    }
+
+    const toLight = vec3Subtract(light.position, position);
+    const distance = Math.sqrt(dot(toLight, toLight));
+    if (distance < 1e-6) return null;
+
+    const L: Vec3 = [toLight[0] / distance, toLight[1] / distance, toLight[2] / distance];
+    let attenuation = lightAttenuation(distance, light.range);
+
+    if (light.type === 'spot') {
+      const cosTheta = -dot(L, light.direction);
+      attenuation *= smoothstep(light.spotCone[0], light.spotCone[1], cosTheta);
+    }
+
+    return attenuation > 0 ? { L, attenuation, distance } : null;
+  }
+
+  /**
+   * Pick the next bounce from a diffuse/GGX mixture.
+   *
+   * @returns The new direction and its throughput weight (BRDF * cos / pdf), or null to end the path
+   */
+  private sampleBRDF(surface: SurfacePoint, V: Vec3): { direction: Vec3; weight: Vec3 } | null {
+    const N = surface.normal;
+    const NdotV = Math.max(dot(N, V), 1e-4);
+    const alpha = surface.roughness * surface.roughness;
+    const [tangent, bitangent] = createBasis(N);
+
+    // Favor the specular lobe where Fresnel or metalness make it dominant
+    const fresnel = Math.pow(1 - NdotV, 5);
+    const specularColor: Vec3 = [
+      surface.F0[0] + (1 - surface.F0[0]) * fresnel,
+      surface.F0[1] + (1 - surface.F0[1]) * fresnel,
+      surface.F0[2] + (1 - surface.F0[2]) * fresnel,
+    ];
+    const metallic = surface.material.metallic;
+    const specularProbability = Math.min(
+      Math.max(luminance(specularColor), 0.1) * (1 - metallic) + metallic,
+      1
+    );
+
+    let L: Vec3;
+    if (this.random() < specularProbability) {
+      // GGX half-vector sampling
+      const u1 = this.random();
+      const u2 = this.random();
+      const cosTheta = Math.sqrt((1 - u1) / (1 + (alpha * alpha - 1) * u1));
+      const sinTheta = Math.sqrt(Math.max(1 - cosTheta * cosTheta, 0));
+      const phi = 2 * Math.PI * u2;
+      const H = toWorld([sinTheta * Math.cos(phi), sinTheta * Math.sin(phi), cosTheta], N, tangent, bitangent);
+      const VdotH = dot(V, H);
+      L = [2 * VdotH * H[0] - V[0], 2 * VdotH * H[1] - V[1], 2 * VdotH * H[2] - V[2]];
+    } else {
+      // Cosine-weighted hemisphere sampling
+      const u1 = this.random();
+      const u2 = this.random();
+      const r = Math.sqrt(u1);
+      const phi = 2 * Math.PI * u2;
+      L = toWorld([r * Math.cos(phi), r * Math.sin(phi), Math.sqrt(Math.max(1 - u1, 0))], N, tangent, bitangent);
+    }
+
+    const NdotL = dot(N, L);
+    if (NdotL <= 0 || dot(surface.geometricNormal, L) <= 0) return null;
+
+    // One-sample mixture pdf keeps the estimator unbiased for either lobe
+    const H = vec3Normalize([V[0] + L[0], V[1] + L[1], V[2] + L[2]]);
+    const NdotH = Math.max(dot(N, H), 0);
+    const VdotH = Math.max(dot(V, H), 1e-4);
+    const specularPdf = (distributionGGX(NdotH, surface.roughness) * NdotH) / (4 * VdotH);
+    const diffusePdf = NdotL / Math.PI;
+    const pdf = specularProbability * specularPdf + (1 - specularProbability) * diffusePdf;
+    if (pdf <= 1e-8) return null;
+
+    const brdf = this.evaluateBRDF(surface, V, L);
+    return {
+      direction: L,
+      weight: [brdf[0] * NdotL / pdf, brdf[1] * NdotL / pdf, brdf[2] * NdotL / pdf],
+    };
+  }
+}
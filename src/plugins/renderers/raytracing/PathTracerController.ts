@@ -0,0 +1,126 @@
+/**
+ * PathTracerController - Main-thread handle for the path tracer worker
+ *
+ * Starts and stops progressive renders in a dedicated worker and forwards
+ * progress to the caller. Only one render runs at a time: starting a new
+ * render terminates the previous worker. The worker factory is injectable
+ * so tests can run without real workers.
+ *
+ * @example
+ * ```typescript
+ * const controller = new PathTracerController();
+ * controller.start(scene, { width: 640, height: 360, maxSamples: 256, maxBounces: 4 }, {
+ *   onProgress: (samples, pixels, done) => drawPixels(pixels),
+ *   onError: (message) => console.error(message),
+ * });
+ * ```
+ */
+
+import type {
+  PathTracerScene,
+  PathTracerSettings,
+  PathTracerWorkerRequest,
+  PathTracerWorkerResponse,
+} from './types';
+
+/**
+ * Creates the worker that runs the path tracer.
+ */
+export type PathTracerWorkerFactory = () => Worker;
+
+/**
+ * Callbacks for a single render.
+ */
+export interface PathTracerRenderCallbacks {
+  /** Called after every accumulated sample with the current image */
+  onProgress(samples: number, pixels: Uint8ClampedArray, done: boolean): void;
+  /** Called when the render fails; the render is stopped */
+  onError?(message: string): void;
+}
+
+/**
+ * Options for PathTracerController.
+ */
+export interface PathTracerControllerOptions {
+  createWorker?: PathTracerWorkerFactory;
+}
+
+function createDefaultWorker(): Worker {
+  return new Worker(new URL('./pathTracer.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Runs path tracer renders in a worker.
+ */
+export class PathTracerController {
+  private readonly createWorker: PathTracerWorkerFactory;
+  private worker: Worker | null = null;
+
+  constructor(options: PathTracerControllerOptions = {}) {
+    this.createWorker = options.createWorker ?? createDefaultWorker;
+  }
+
+  /**
+   * Start a render, stopping any render in progress.
+   * The scene's typed arrays are transferred to the worker and become unusable here.
+   */
+  start(scene: PathTracerScene, settings: PathTracerSettings, callbacks: PathTracerRenderCallbacks): void {
+    this.stop();
+
+    const worker = this.createWorker();
+    this.worker = worker;
+
+    worker.onmessage = (event: MessageEvent<PathTracerWorkerResponse>) => {
+      if (worker !== this.worker) return;
+
+      const response = event.data;
+      if (response.type === 'progress') {
+        if (response.done) {
+          this.release();
+        }
+        callbacks.onProgress(response.samples, response.pixels, response.done);
+      } else {
+        this.release();
+        callbacks.onError?.(response.message);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      if (worker !== this.worker) return;
+
+      event.preventDefault();
+      this.release();
+      callbacks.onError?.(event.message || 'Path tracer worker failed');
+    };
+
+    const request: PathTracerWorkerRequest = { type: 'start', scene, settings };
+    worker.postMessage(request, [
+      scene.positions.buffer,
+      scene.normals.buffer,
+      scene.materialIndices.buffer,
+    ]);
+  }
+
+  /**
+   * Stop the current render. The last posted image stays with the caller.
+   */
+  stop(): void {
+    if (!this.worker) return;
+
+    const request: PathTracerWorkerRequest = { type: 'stop' };
+    this.worker.postMessage(request);
+    this.release();
+  }
+
+  /**
+   * Whether a render is in progress.
+   */
+  isRunning(): boolean {
+    return this.worker !== null;
+  }
+
+  private release(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
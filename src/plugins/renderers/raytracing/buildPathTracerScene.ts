@@ -0,0 +1,220 @@
+/**
+ * buildPathTracerScene - Snapshot the editor scene for the path tracer
+ *
+ * Flattens every renderable mesh into a world-space triangle soup and resolves
+ * materials, lights and the camera to plain data that can be posted to the
+ * render worker. Runs on the main thread; the snapshot does not change when
+ * the scene is edited afterwards.
+ *
+ * Materials resolve like the rasterizers: material asset parameters first,
+ * then inline component values, then defaults. Lambert materials become rough
+ * dielectrics and unlit materials emit their base color. Opacity is ignored.
+ *
+ * @example
+ * ```typescript
+ * const scene = buildPathTracerScene({ scene: sceneGraph, camera, lightManager, assetRegistry });
+ * worker.postMessage({ type: 'start', scene, settings });
+ * ```
+ */
+
+import type { AssetRegistry } from '@core/assets/AssetRegistry';
+import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
+import { BUILT_IN_SHADER_IDS } from '@core/assets/BuiltInShaders';
+import type { ICamera, IMaterialComponent, IScene } from '@core/interfaces';
+import { isMeshProvider } from '@core/interfaces/IMeshData';
+import type { LightData, LightManager } from '@core/LightManager';
+import { normalMatrix, vec3Normalize } from '@utils/math';
+import type { Vec3 } from '@utils/math';
+import { getShadableLights, getSpotConeCosines } from '../shared/LightUniformPacker';
+import type { PathTracerLight, PathTracerMaterial, PathTracerScene } from './types';
+
+/**
+ * Inputs for building a path tracer scene.
+ */
+export interface BuildPathTracerSceneOptions {
+  readonly scene: IScene;
+  readonly camera: ICamera;
+  readonly lightManager?: Pick<LightManager, 'getActiveLights' | 'getAmbientColor'> | null;
+  readonly assetRegistry?: AssetRegistry | null;
+}
+
+/** Light used when the scene has none, matching the rasterizers */
+const DEFAULT_LIGHT: LightData = {
+  lightType: 'directional',
+  direction: [-0.5, -1, -0.5],
+  position: [0, 0, 0],
+  color: [1, 1, 1],
+  enabled: true,
+};
+
+const DEFAULT_AMBIENT_COLOR: Vec3 = [0.15, 0.15, 0.2];
+
+const DEFAULT_MATERIAL: PathTracerMaterial = {
+  baseColor: [0.8, 0.8, 0.8],
+  metallic: 0,
+  roughness: 0.5,
+  emission: [0, 0, 0],
+};
+
+/**
+ * Build a plain-data snapshot of the scene for the path tracer.
+ */
+export function buildPathTracerScene(options: BuildPathTracerSceneOptions): PathTracerScene {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const materialIndices: number[] = [];
+  const materials: PathTracerMaterial[] = [];
+  const materialCache = new Map<string, number>();
+
+  for (const object of options.scene.getRenderables()) {
+    if (!isMeshProvider(object)) continue;
+
+    const modelSource = object as { getModelMatrix?: () => Float32Array };
+    if (typeof modelSource.getModelMatrix !== 'function') continue;
+
+    const meshData = object.getMeshData();
+    if (!meshData) continue;
+
+    const component = getMaterialComponent(object);
+    const assetUuid = component?.materialAssetRef?.uuid;
+    let materialIndex = assetUuid !== undefined ? materialCache.get(assetUuid) : undefined;
+    if (materialIndex === undefined) {
+      materialIndex = materials.length;
+      materials.push(resolveMaterial(component, options.assetRegistry ?? null));
+      if (assetUuid !== undefined) {
+        materialCache.set(assetUuid, materialIndex);
+      }
+    }
+
+    const model = modelSource.getModelMatrix();
+    const normalMat = normalMatrix(model);
+    const { indices } = meshData;
+
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      for (let corner = 0; corner < 3; corner++) {
+        const v = indices[i + corner] * 3;
+        const x = meshData.positions[v], y = meshData.positions[v + 1], z = meshData.positions[v + 2];
+        positions.push(
+          model[0] * x + model[4] * y + model[8] * z + model[12],
+          model[1] * x + model[5] * y + model[9] * z + model[13],
+          model[2] * x + model[6] * y + model[10] * z + model[14],
+        );
+
+        const nx = meshData.normals[v] ?? 0, ny = meshData.normals[v + 1] ?? 0, nz = meshData.normals[v + 2] ?? 0;
+        normals.push(...vec3Normalize([
+          normalMat[0] * nx + normalMat[3] * ny + normalMat[6] * nz,
+          normalMat[1] * nx + normalMat[4] * ny + normalMat[7] * nz,
+          normalMat[2] * nx + normalMat[5] * ny + normalMat[8] * nz,
+        ]));
+      }
+      materialIndices.push(materialIndex);
+    }
+  }
+
+  if (materials.length === 0) {
+    materials.push(DEFAULT_MATERIAL);
+  }
+
+  const { camera } = options;
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    materialIndices: new Uint32Array(materialIndices),
+    materials,
+    lights: resolveLights(options.lightManager ?? null),
+    ambientColor: options.lightManager?.getAmbientColor() ?? DEFAULT_AMBIENT_COLOR,
+    camera: {
+      position: [...camera.position],
+      target: [...camera.target],
+      up: [...camera.up],
+      fov: camera.fov,
+      orthographicSize: camera.projection === 'orthographic' ? camera.orthographicSize : undefined,
+    },
+  };
+}
+
+function getMaterialComponent(object: unknown): IMaterialComponent | null {
+  const entity = object as { getComponent?: <T>(type: string) => T | null };
+  return typeof entity.getComponent === 'function' ? entity.getComponent<IMaterialComponent>('material') : null;
+}
+
+/**
+ * Resolve surface parameters for a material component.
+ */
+function resolveMaterial(component: IMaterialComponent | null, assetRegistry: AssetRegistry | null): PathTracerMaterial {
+  if (!component) {
+    return DEFAULT_MATERIAL;
+  }
+
+  const asset = component.materialAssetRef
+    ? assetRegistry?.get<IMaterialAsset>(component.materialAssetRef.uuid)
+    : undefined;
+  const parameters = asset?.parameters ?? {};
+  const shaderUUID = asset?.shaderRef.uuid ?? getBuiltInShaderUUID(component.shaderName);
+
+  const baseColor = readVec3(parameters.uBaseColor) ?? readVec3(parameters.uColor)
+    ?? component.color ?? DEFAULT_MATERIAL.baseColor;
+
+  if (shaderUUID === BUILT_IN_SHADER_IDS.UNLIT) {
+    return { baseColor: [0, 0, 0], metallic: 0, roughness: 1, emission: baseColor };
+  }
+
+  if (shaderUUID === BUILT_IN_SHADER_IDS.LAMBERT) {
+    return { baseColor, metallic: 0, roughness: 1, emission: [0, 0, 0] };
+  }
+
+  const emission = readVec3(parameters.uEmission) ?? component.emission ?? [0, 0, 0];
+  const emissionStrength = readNumber(parameters.uEmissionStrength) ?? component.emissionStrength ?? 0;
+
+  return {
+    baseColor,
+    metallic: readNumber(parameters.uMetallic) ?? component.metallic ?? DEFAULT_MATERIAL.metallic,
+    roughness: readNumber(parameters.uRoughness) ?? component.roughness ?? DEFAULT_MATERIAL.roughness,
+    emission: [
+      emission[0] * emissionStrength,
+      emission[1] * emissionStrength,
+      emission[2] * emissionStrength,
+    ],
+  };
+}
+
+/**
+ * Map an inline shader name to a built-in shader (ShaderResolver fallback order).
+ */
+function getBuiltInShaderUUID(shaderName: string | undefined): string {
+  switch (shaderName?.toLowerCase()) {
+    case 'pbr':
+      return BUILT_IN_SHADER_IDS.PBR;
+    case 'unlit':
+      return BUILT_IN_SHADER_IDS.UNLIT;
+    default:
+      return BUILT_IN_SHADER_IDS.LAMBERT;
+  }
+}
+
+function resolveLights(lightManager: Pick<LightManager, 'getActiveLights'> | null): PathTracerLight[] {
+  const active = lightManager?.getActiveLights(Infinity) ?? [];
+  const lights = getShadableLights(active.length > 0 ? active : [DEFAULT_LIGHT]);
+
+  return lights.map((light) => {
+    const direction = vec3Normalize(light.direction);
+    return {
+      type: light.lightType as PathTracerLight['type'],
+      direction: direction[0] === 0 && direction[1] === 0 && direction[2] === 0 ? [0, -1, 0] : direction,
+      position: [...light.position],
+      color: [...light.color],
+      range: light.range ?? 0,
+      spotCone: light.lightType === 'spot' ? getSpotConeCosines(light) : [0, 0],
+    };
+  });
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function readVec3(value: unknown): Vec3 | undefined {
+  return Array.isArray(value) && value.length >= 3 && value.every((v) => typeof v === 'number')
+    ? [value[0], value[1], value[2]]
+    : undefined;
+}
@@ -0,0 +1,27 @@
+/**
+ * Ray Tracing Module
+ *
+ * Re-exports the progressive CPU path tracer, its scene builder and the
+ * main-thread controller for the render worker.
+ */
+
+export { PathTracer } from './PathTracer';
+export { PathTracerController } from './PathTracerController';
+export type {
+  PathTracerControllerOptions,
+  PathTracerRenderCallbacks,
+  PathTracerWorkerFactory,
+} from './PathTracerController';
+export { buildPathTracerScene } from './buildPathTracerScene';
+export type { BuildPathTracerSceneOptions } from './buildPathTracerScene';
+export { BVH, createBVHHit } from './BVH';
+export type { BVHHit } from './BVH';
+export type {
+  PathTracerMaterial,
+  PathTracerLight,
+  PathTracerCamera,
+  PathTracerScene,
+  PathTracerSettings,
+  PathTracerWorkerRequest,
+  PathTracerWorkerResponse,
+} from './types';
@@ -0,0 +1,63 @@
+/**
+ * Path Tracer Worker
+ *
+ * Runs a PathTracer off the main thread. Renders one sample per pixel at a
+ * time and posts the tone-mapped image after each one, yielding between
+ * samples so a 'stop' or a new 'start' message is handled promptly.
+ */
+
+import { PathTracer } from './PathTracer';
+import type { PathTracerWorkerRequest, PathTracerWorkerResponse } from './types';
+
+/**
+ * The parts of DedicatedWorkerGlobalScope used here (the DOM lib types `self` as Window).
+ */
+interface PathTracerWorkerScope {
+  onmessage: ((event: MessageEvent<PathTracerWorkerRequest>) => void) | null;
+  postMessage(message: PathTracerWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as PathTracerWorkerScope;
+
+let tracer: PathTracer | null = null;
+
+/** Incremented per render so samples scheduled for a stopped render are dropped */
+let renderId = 0;
+
+function renderNextSample(id: number): void {
+  if (id !== renderId || !tracer) return;
+
+  try {
+    tracer.renderSample();
+
+    const pixels = tracer.toRGBA();
+    const done = tracer.isComplete();
+    scope.postMessage({ type: 'progress', samples: tracer.sampleCount, pixels, done }, [pixels.buffer]);
+
+    if (done) {
+      tracer = null;
+    } else {
+      setTimeout(() => renderNextSample(id), 0);
+    }
+  } catch (error) {
+    tracer = null;
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  renderId++;
+  tracer = null;
+
+  if (request.type !== 'start') return;
+
+  try {
+    tracer = new PathTracer(request.scene, request.settings);
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  renderNextSample(renderId);
+};
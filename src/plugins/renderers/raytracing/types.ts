@@ -0,0 +1,102 @@
+/**
+ * Path Tracer Types
+ *
+ * Plain-data scene description and worker messages for the CPU path tracer.
+ * Everything here is structured-clone friendly so a scene can be posted to
+ * the render worker unchanged.
+ */
+
+/**
+ * Surface parameters (PBR metallic/roughness, matching the forward PBR shader).
+ */
+export interface PathTracerMaterial {
+  /** Linear base color */
+  readonly baseColor: [number, number, number];
+  readonly metallic: number;
+  readonly roughness: number;
+  /** Emitted radiance (emission color * strength) */
+  readonly emission: [number, number, number];
+}
+
+/**
+ * A punctual light, already resolved to world space.
+ */
+export interface PathTracerLight {
+  readonly type: 'directional' | 'point' | 'spot';
+  /** Direction the light travels (directional/spot), normalized */
+  readonly direction: [number, number, number];
+  /** World position (point/spot) */
+  readonly position: [number, number, number];
+  /** Color premultiplied by intensity */
+  readonly color: [number, number, number];
+  /** Falloff range for point/spot lights (0 = unlimited) */
+  readonly range: number;
+  /** Spot cone cosines: outer, inner half-angle */
+  readonly spotCone: [number, number];
+}
+
+/**
+ * Pinhole camera (vertical field of view in radians), or an orthographic
+ * camera when orthographicSize is set.
+ */
+export interface PathTracerCamera {
+  readonly position: [number, number, number];
+  readonly target: [number, number, number];
+  readonly up: [number, number, number];
+  readonly fov: number;
+  /** Half the vertical view size in world units for orthographic cameras */
+  readonly orthographicSize?: number;
+}
+
+/**
+ * Triangle soup in world space plus everything needed to shade it.
+ */
+export interface PathTracerScene {
+  /** Triangle vertex positions, 9 floats per triangle */
+  readonly positions: Float32Array;
+  /** Triangle vertex normals, 9 floats per triangle */
+  readonly normals: Float32Array;
+  /** Material index per triangle */
+  readonly materialIndices: Uint32Array;
+  readonly materials: PathTracerMaterial[];
+  readonly lights: PathTracerLight[];
+  /** Sky color of the hemisphere environment (ground is half as bright) */
+  readonly ambientColor: [number, number, number];
+  readonly camera: PathTracerCamera;
+}
+
+/**
+ * Render settings.
+ */
+export interface PathTracerSettings {
+  readonly width: number;
+  readonly height: number;
+  /** Samples per pixel before the render completes */
+  readonly maxSamples: number;
+  /** Maximum path length in bounces */
+  readonly maxBounces: number;
+  /** Random seed, for repeatable renders */
+  readonly seed?: number;
+}
+
+/**
+ * Messages sent to the render worker.
+ */
+export type PathTracerWorkerRequest =
+  | { readonly type: 'start'; readonly scene: PathTracerScene; readonly settings: PathTracerSettings }
+  | { readonly type: 'stop' };
+
+/**
+ * Messages posted by the render worker.
+ */
+export type PathTracerWorkerResponse =
+  | {
+      readonly type: 'progress';
+      /** Samples per pixel accumulated so far */
+      readonly samples: number;
+      /** Tone-mapped 8-bit RGBA image, width * height * 4 bytes */
+      readonly pixels: Uint8ClampedArray;
+      /** Whether maxSamples has been reached */
+      readonly done: boolean;
+    }
+  | { readonly type: 'error'; readonly message: string };
@@ -0,0 +1,50 @@
+//=============================================================================
+// IMAGE-BASED LIGHTING
+//=============================================================================
+
+// Maps baked from the scene's HDRI by EnvironmentMapBaker. When the scene has
+// no environment map, uUseEnvironment is false and 1x1 black maps are bound,
+// so the samplers never alias a material texture unit.
+uniform samplerCube uIrradianceMap;    // Cosine-convolved environment (divided by PI)
+uniform samplerCube uPrefilteredMap;   // GGX-convolved environment, roughness per mip
+uniform sampler2D uBrdfLut;            // Split-sum scale (R) and bias (G)
+uniform float uPrefilteredMaxLod;      // Mip level of roughness 1
+uniform float uEnvironmentIntensity;
+uniform bool uUseEnvironment;
+
+/**
+ * Ambient lighting for a surface point
+ *
+ * With an environment map: diffuse irradiance plus split-sum specular
+ * reflection. Without one: the hemisphere ambient, with a Fresnel-weighted
+ * term approximating reflections on metals.
+ *
+ * @param N - World-space normal
+ * @param V - Direction from the surface to the camera
+ * @param albedo - Linear base color
+ * @param metallic - 0 = dielectric, 1 = metal
+ * @param roughness - Perceptual roughness
+ * @param F0 - Reflectance at normal incidence
+ * @param ambientColor - Scene ambient color (used without an environment map)
+ * @return Ambient radiance towards the camera
+ */
+vec3 ambientLighting(vec3 N, vec3 V, vec3 albedo, float metallic, float roughness, vec3 F0, vec3 ambientColor) {
+  float NdotV = max(dot(N, V), 0.0);
+  vec3 F = fresnelSchlickRoughness(NdotV, F0, roughness);
+  vec3 kD = (vec3(1.0) - F) * (1.0 - metallic);
+
+  if (!uUseEnvironment) {
+    // Hemisphere ambient (Z-up)
+    vec3 ambient = hemisphereAmbient(N, ambientColor, ambientColor * 0.5) * albedo * kD;
+    return ambient + F * ambientColor * 0.3 * metallic;
+  }
+
+  vec3 diffuse = texture(uIrradianceMap, N).rgb * albedo * kD;
+
+  vec3 R = reflect(-V, N);
+  vec3 prefiltered = textureLod(uPrefilteredMap, R, roughness * uPrefilteredMaxLod).rgb;
+  vec2 brdf = texture(uBrdfLut, vec2(NdotV, roughness)).rg;
+  vec3 specular = prefiltered * (F0 * brdf.x + brdf.y);
+
+  return (diffuse + specular) * uEnvironmentIntensity;
+}
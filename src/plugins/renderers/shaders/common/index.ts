@@ -16,9 +16,12 @@
 import GLSL_MATH from './math.glsl';
 import GLSL_BRDF from './brdf.glsl';
 import GLSL_LIGHTING from './lighting.glsl';
+import GLSL_SHADOWS from './shadows.glsl';
+import GLSL_SKINNING from './skinning.glsl';
+import GLSL_IBL from './ibl.glsl';
 
 // Re-export for use in other modules
-export { GLSL_MATH, GLSL_BRDF, GLSL_LIGHTING };
+export { GLSL_MATH, GLSL_BRDF, GLSL_LIGHTING, GLSL_SHADOWS, GLSL_SKINNING, GLSL_IBL };
 
 /**
  * Compose multiple GLSL code snippets into a single shader source.
@@ -89,3 +89,67 @@ float lightAttenuation(float distance, float range) {
   float attenuation = saturate(1.0 - pow(distance / range, 4.0));
   return attenuation * attenuation / (distance * distance + 1.0);
 }
+
+//=============================================================================
+// LIGHT TYPES
+//=============================================================================
+
+// Light type codes (keep in sync with LightUniformPacker LIGHT_TYPE_CODES)
+#define LIGHT_TYPE_DIRECTIONAL 0
+#define LIGHT_TYPE_POINT 1
+#define LIGHT_TYPE_SPOT 2
+
+/**
+ * Calculate cone attenuation for spot lights
+ *
+ * Full intensity inside the inner cone, smoothly fading to zero
+ * at the outer cone edge.
+ *
+ * @param L - Normalized direction from surface toward the light
+ * @param spotDirection - Normalized direction the spot light points
+ * @param cone - Cosines of the outer (x) and inner (y) half-angles
+ * @return Attenuation factor
+ */
+float spotAttenuation(vec3 L, vec3 spotDirection, vec2 cone) {
+  float cosTheta = dot(-L, spotDirection);
+  return smoothstep(cone.x, cone.y, cosTheta);
+}
+
+/**
+ * Resolve incoming light direction and attenuation for any light type
+ *
+ * Directional lights arrive along their direction with no falloff.
+ * Point and spot lights arrive from their position, attenuated by
+ * distance within range; spot lights are further limited to their cone.
+ *
+ * @param lightType - LIGHT_TYPE_* code
+ * @param worldPosition - Shaded surface position
+ * @param lightDirection - Direction the light travels (directional/spot)
+ * @param lightPosition - Light position (point/spot)
+ * @param range - Light range (0 = infinite)
+ * @param cone - Spot cone cosines (outer, inner)
+ * @return xyz = normalized direction toward the light, w = attenuation
+ */
+vec4 resolveLight(
+  int lightType,
+  vec3 worldPosition,
+  vec3 lightDirection,
+  vec3 lightPosition,
+  float range,
+  vec2 cone
+) {
+  if (lightType == LIGHT_TYPE_DIRECTIONAL) {
+    return vec4(normalize(-lightDirection), 1.0);
+  }
+
+  vec3 toLight = lightPosition - worldPosition;
+  float distance = length(toLight);
+  vec3 L = toLight / max(distance, 0.0001);
+  float attenuation = lightAttenuation(distance, range);
+
+  if (lightType == LIGHT_TYPE_SPOT) {
+    attenuation *= spotAttenuation(L, normalize(lightDirection), cone);
+  }
+
+  return vec4(L, attenuation);
+}
@@ -0,0 +1,86 @@
+//=============================================================================
+// SHADOW MAPPING
+//=============================================================================
+
+// Maximum shadow map layers (keep in sync with ShadowMapPass MAX_SHADOW_MAPS)
+#define MAX_SHADOW_MAPS 8
+
+// PCF kernel radius in texels (1 = 3x3 taps)
+#define SHADOW_PCF_RADIUS 1
+
+// Depth maps for every shadow-casting light, one layer per map.
+// Directional lights use consecutive layers for their cascades (near to far).
+uniform highp sampler2DArrayShadow uShadowMaps;
+
+// World space to shadow map texture space ([0,1] xyz) per layer
+uniform mat4 uShadowMatrices[MAX_SHADOW_MAPS];
+
+/**
+ * Sample one shadow map layer with percentage-closer filtering
+ *
+ * Each tap is a hardware depth comparison with bilinear filtering,
+ * so the 3x3 kernel produces soft edges.
+ *
+ * @param layer - Shadow map layer index
+ * @param worldPosition - Biased world-space position to test
+ * @return Visibility (0 = shadowed, 1 = lit), or -1.0 if outside the layer
+ */
+float sampleShadowLayer(int layer, vec3 worldPosition) {
+  vec4 shadowCoord = uShadowMatrices[layer] * vec4(worldPosition, 1.0);
+  if (shadowCoord.w <= 0.0) {
+    return -1.0;
+  }
+
+  vec3 projected = shadowCoord.xyz / shadowCoord.w;
+  if (any(lessThan(projected, vec3(0.0))) || any(greaterThan(projected, vec3(1.0)))) {
+    return -1.0;
+  }
+
+  vec2 texelSize = 1.0 / vec2(textureSize(uShadowMaps, 0).xy);
+  float visibility = 0.0;
+  for (int x = -SHADOW_PCF_RADIUS; x <= SHADOW_PCF_RADIUS; x++) {
+    for (int y = -SHADOW_PCF_RADIUS; y <= SHADOW_PCF_RADIUS; y++) {
+      vec2 uv = projected.xy + vec2(float(x), float(y)) * texelSize;
+      visibility += texture(uShadowMaps, vec4(uv, float(layer), projected.z));
+    }
+  }
+
+  float taps = float((2 * SHADOW_PCF_RADIUS + 1) * (2 * SHADOW_PCF_RADIUS + 1));
+  return visibility / taps;
+}
+
+/**
+ * Compute shadow visibility for a light
+ *
+ * Offsets the surface toward the light and along its normal to avoid
+ * self-shadowing, then tests the light's layers in order and uses the
+ * first one that contains the point. Points outside every layer are lit.
+ *
+ * @param shadow - x = first layer, y = layer count (0 = no shadows), z = strength
+ * @param bias - x = offset toward the light, y = offset along the normal (world units)
+ * @param worldPosition - Shaded surface position
+ * @param N - Normalized surface normal
+ * @param L - Normalized direction from surface toward the light
+ * @return Light visibility factor (1 = fully lit)
+ */
+float computeShadow(vec3 shadow, vec2 bias, vec3 worldPosition, vec3 N, vec3 L) {
+  int layerCount = int(shadow.y + 0.5);
+  if (layerCount <= 0) {
+    return 1.0;
+  }
+
+  float NdotL = saturate(dot(N, L));
+  vec3 biasedPosition = worldPosition + L * bias.x + N * bias.y * (1.0 - NdotL);
+
+  int firstLayer = int(shadow.x + 0.5);
+  for (int i = 0; i < MAX_SHADOW_MAPS; i++) {
+    if (i >= layerCount) break;
+
+    float visibility = sampleShadowLayer(firstLayer + i, biasedPosition);
+    if (visibility >= 0.0) {
+      return mix(1.0, visibility, shadow.z);
+    }
+  }
+
+  return 1.0;
+}
@@ -0,0 +1,42 @@
+//=============================================================================
+// SKINNING
+//=============================================================================
+
+// Whether the current mesh is skinned (aJoints/aWeights are valid)
+uniform bool uSkinned;
+
+// Joint matrices, one per texture row: columns 0-3 of the matrix are
+// stored in texels 0-3 (RGBA32F, sampled with texelFetch)
+uniform highp sampler2D uJointMatrices;
+
+/**
+ * Read one joint matrix from the joint texture
+ *
+ * @param joint - Joint index (texture row)
+ * @return Joint matrix in mesh space
+ */
+mat4 getJointMatrix(int joint) {
+  return mat4(
+    texelFetch(uJointMatrices, ivec2(0, joint), 0),
+    texelFetch(uJointMatrices, ivec2(1, joint), 0),
+    texelFetch(uJointMatrices, ivec2(2, joint), 0),
+    texelFetch(uJointMatrices, ivec2(3, joint), 0)
+  );
+}
+
+/**
+ * Blend the joint matrices influencing a vertex
+ *
+ * @param joints - Four joint indices
+ * @param weights - Four joint weights (summing to 1)
+ * @return Skin matrix, or identity when the mesh is not skinned
+ */
+mat4 getSkinMatrix(vec4 joints, vec4 weights) {
+  if (!uSkinned) {
+    return mat4(1.0);
+  }
+  return weights.x * getJointMatrix(int(joints.x)) +
+         weights.y * getJointMatrix(int(joints.y)) +
+         weights.z * getJointMatrix(int(joints.z)) +
+         weights.w * getJointMatrix(int(joints.w));
+}
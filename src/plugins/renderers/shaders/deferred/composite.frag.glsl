@@ -0,0 +1,49 @@
+#version 300 es
+/**
+ * Deferred Composite Fragment Shader
+ *
+ * Tone maps the accumulated HDR lighting to the default framebuffer and
+ * copies the G-buffer depth, so overlays drawn after the deferred pipeline
+ * (grid, gizmos, forward-rendered objects) depth-test against the scene.
+ * With the post-processing stack (uHDROutput) the lighting is copied to its
+ * HDR scene target unchanged and tone mapped there.
+ * Empty pixels get the camera background, or are left untouched when the
+ * camera does not clear color (uKeepBackground).
+ */
+
+precision highp float;
+
+#include "../common/math.glsl"
+#include "../common/lighting.glsl"
+
+in vec2 vUV;
+
+uniform sampler2D uLightBuffer;
+uniform sampler2D uGDepth;
+uniform vec3 uBackgroundColor;
+uniform bool uKeepBackground;
+uniform bool uHDROutput;
+
+out vec4 outColor;
+
+void main() {
+  ivec2 texel = ivec2(gl_FragCoord.xy);
+  float depth = texelFetch(uGDepth, texel, 0).r;
+  gl_FragDepth = depth;
+
+  if (depth >= 1.0) {
+    if (uKeepBackground) {
+      discard;
+    }
+    outColor = vec4(uBackgroundColor, 1.0);
+    return;
+  }
+
+  vec3 color = texelFetch(uLightBuffer, texel, 0).rgb;
+  if (!uHDROutput) {
+    color = tonemapACES(color);
+    color = linearToSRGB(color);
+  }
+
+  outColor = vec4(color, 1.0);
+}
@@ -0,0 +1,139 @@
+#version 300 es
+/**
+ * Deferred Lighting Fragment Shader
+ *
+ * Shades one batch of lights per fullscreen draw from the G-buffer. The
+ * renderer draws as many batches as there are lights with additive
+ * blending into an HDR accumulation target, so the total light count is
+ * not limited by uniform array sizes. The first batch also adds ambient
+ * light and emission.
+ *
+ * Uses the same Cook-Torrance BRDF and ambient (image-based or hemisphere)
+ * lighting as pbr.frag.glsl.
+ * Tone mapping happens later in the composite pass.
+ */
+
+precision highp float;
+
+//=============================================================================
+// COMMON MODULES
+//=============================================================================
+#include "../common/math.glsl"
+#include "../common/brdf.glsl"
+#include "../common/lighting.glsl"
+#include "../common/shadows.glsl"
+#include "../common/ibl.glsl"
+
+// Lights per batch (keep in sync with DeferredRenderer LIGHT_BATCH_SIZE)
+#define LIGHT_BATCH_SIZE 8
+
+in vec2 vUV;
+
+//-----------------------------------------------------------------------------
+// G-Buffer
+//-----------------------------------------------------------------------------
+uniform sampler2D uGAlbedo;
+uniform sampler2D uGNormal;
+uniform sampler2D uGMaterial;
+uniform sampler2D uGEmission;
+uniform sampler2D uGDepth;
+
+uniform mat4 uInverseViewProjection;
+uniform vec3 uCameraPosition;
+
+//-----------------------------------------------------------------------------
+// Lighting Uniforms (one batch)
+//-----------------------------------------------------------------------------
+uniform vec3 uLightDirections[LIGHT_BATCH_SIZE];
+uniform vec3 uLightColors[LIGHT_BATCH_SIZE];
+uniform vec3 uLightPositions[LIGHT_BATCH_SIZE];
+uniform int uLightTypes[LIGHT_BATCH_SIZE];
+uniform float uLightRanges[LIGHT_BATCH_SIZE];
+uniform vec2 uLightSpotCones[LIGHT_BATCH_SIZE];
+uniform vec3 uLightShadows[LIGHT_BATCH_SIZE];
+uniform vec2 uLightShadowBias[LIGHT_BATCH_SIZE];
+uniform int uLightCount;
+
+uniform bool uApplyAmbient;  // Add ambient and emission (first batch only)
+uniform vec3 uAmbientColor;
+
+out vec4 outColor;
+
+/**
+ * Reconstruct the world position of a pixel from its depth.
+ */
+vec3 reconstructWorldPosition(vec2 uv, float depth) {
+  vec4 clip = vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+  vec4 world = uInverseViewProjection * clip;
+  return world.xyz / world.w;
+}
+
+/**
+ * Cook-Torrance BRDF for light arriving from direction L.
+ */
+vec3 shadeLight(vec3 L, vec3 radiance, vec3 N, vec3 V, vec3 albedo, float metallic, float roughness, vec3 F0) {
+  float NdotL = max(dot(N, L), 0.0);
+  if (NdotL <= 0.0) {
+    return vec3(0.0);
+  }
+
+  vec3 H = normalize(V + L);
+  float NdotV = max(dot(N, V), 0.0);
+  float NdotH = max(dot(N, H), 0.0);
+  float HdotV = max(dot(H, V), 0.0);
+
+  float D = distributionGGX(NdotH, roughness);
+  float G = geometrySmith(NdotV, NdotL, roughness);
+  vec3 F = fresnelSchlick(HdotV, F0);
+
+  vec3 specular = cookTorranceSpecular(D, G, F, NdotV, NdotL);
+  vec3 kD = (vec3(1.0) - F) * (1.0 - metallic);
+
+  return (kD * lambertianDiffuse(albedo) + specular) * radiance * NdotL;
+}
+
+void main() {
+  ivec2 texel = ivec2(gl_FragCoord.xy);
+  float depth = texelFetch(uGDepth, texel, 0).r;
+
+  // Background: nothing was written to the G-buffer
+  if (depth >= 1.0) {
+    discard;
+  }
+
+  vec3 albedo = texelFetch(uGAlbedo, texel, 0).rgb;
+  vec3 N = normalize(texelFetch(uGNormal, texel, 0).xyz * 2.0 - 1.0);
+  vec2 metallicRoughness = texelFetch(uGMaterial, texel, 0).rg;
+  float metallic = metallicRoughness.r;
+  float roughness = max(metallicRoughness.g, 0.04);
+
+  vec3 worldPosition = reconstructWorldPosition(vUV, depth);
+  vec3 V = normalize(uCameraPosition - worldPosition);
+  vec3 F0 = calculateF0(albedo, metallic);
+
+  vec3 color = vec3(0.0);
+  for (int i = 0; i < LIGHT_BATCH_SIZE; i++) {
+    if (i >= uLightCount) break;
+
+    vec4 light = resolveLight(
+      uLightTypes[i],
+      worldPosition,
+      uLightDirections[i],
+      uLightPositions[i],
+      uLightRanges[i],
+      uLightSpotCones[i]
+    );
+    if (light.w <= 0.0) continue;
+
+    float shadow = computeShadow(uLightShadows[i], uLightShadowBias[i], worldPosition, N, light.xyz);
+    color += shadeLight(light.xyz, uLightColors[i] * light.w * shadow, N, V, albedo, metallic, roughness, F0);
+  }
+
+  if (uApplyAmbient) {
+    vec3 ambient = ambientLighting(N, V, albedo, metallic, roughness, F0, uAmbientColor);
+
+    color += ambient + texelFetch(uGEmission, texel, 0).rgb;
+  }
+
+  outColor = vec4(color, 1.0);
+}
@@ -0,0 +1,17 @@
+#version 300 es
+/**
+ * Fullscreen Triangle Vertex Shader
+ *
+ * Generates a single triangle covering the viewport from gl_VertexID,
+ * so screen-space passes draw with no vertex buffers (drawArrays, 3 vertices).
+ */
+
+precision highp float;
+
+out vec2 vUV;
+
+void main() {
+  vec2 position = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  vUV = position;
+  gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+}
@@ -0,0 +1,44 @@
+#version 300 es
+/**
+ * G-Buffer Fragment Shader
+ *
+ * Writes surface attributes for the deferred lighting pass instead of
+ * shading. Uses the PBR vertex shader and the PBR material uniforms, so
+ * any lit material renders the same inputs it would in the forward pass.
+ *
+ * Targets:
+ * - 0: albedo (sRGB target, linear values)
+ * - 1: world normal, encoded to [0, 1]
+ * - 2: metallic (r), roughness (g)
+ * - 3: emission (color * strength, HDR when float targets are available)
+ */
+
+precision highp float;
+
+in vec3 vWorldPosition;
+in vec3 vNormal;
+in vec2 vTexCoord;
+
+uniform vec3 uBaseColor;
+uniform float uMetallic;
+uniform float uRoughness;
+uniform vec3 uEmission;
+uniform float uEmissionStrength;
+
+uniform sampler2D uBaseColorMap;          // sRGB color, decoded to linear on sample
+uniform sampler2D uMetallicRoughnessMap;  // G = roughness, B = metallic (glTF)
+
+layout(location = 0) out vec4 outAlbedo;
+layout(location = 1) out vec4 outNormal;
+layout(location = 2) out vec4 outMaterial;
+layout(location = 3) out vec4 outEmission;
+
+void main() {
+  vec3 N = normalize(vNormal);
+  vec4 metallicRoughness = texture(uMetallicRoughnessMap, vTexCoord);
+
+  outAlbedo = vec4(uBaseColor * texture(uBaseColorMap, vTexCoord).rgb, 1.0);
+  outNormal = vec4(N * 0.5 + 0.5, 1.0);
+  outMaterial = vec4(uMetallic * metallicRoughness.b, uRoughness * metallicRoughness.g, 0.0, 1.0);
+  outEmission = vec4(uEmission * uEmissionStrength, 1.0);
+}
@@ -0,0 +1,20 @@
+/**
+ * Deferred Shader Module - Barrel Export
+ *
+ * Exports the internal shader sources used by the deferred render pipeline.
+ * The G-buffer pass reuses the PBR vertex shader.
+ *
+ * @module shaders/deferred
+ */
+
+import FULLSCREEN_VERTEX_SHADER from './fullscreen.vert.glsl';
+import GBUFFER_FRAGMENT_SHADER from './gbuffer.frag.glsl';
+import DEFERRED_LIGHTING_FRAGMENT_SHADER from './deferredLighting.frag.glsl';
+import DEFERRED_COMPOSITE_FRAGMENT_SHADER from './composite.frag.glsl';
+
+export {
+  FULLSCREEN_VERTEX_SHADER,
+  GBUFFER_FRAGMENT_SHADER,
+  DEFERRED_LIGHTING_FRAGMENT_SHADER,
+  DEFERRED_COMPOSITE_FRAGMENT_SHADER,
+};
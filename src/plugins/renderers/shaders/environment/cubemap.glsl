@@ -0,0 +1,53 @@
+//=============================================================================
+// CUBE MAP UTILITIES
+//=============================================================================
+
+// Environment cube maps are indexed by world direction (Z-up), so shaders
+// sample them with normals and reflection vectors as-is.
+
+/**
+ * World direction through a point on a cube map face
+ *
+ * Follows the WebGL face order (TEXTURE_CUBE_MAP_POSITIVE_X + face) and
+ * orientation, so a face rendered with these directions samples back
+ * correctly with texture().
+ *
+ * @param face - Face index (0 = +X, 1 = -X, 2 = +Y, 3 = -Y, 4 = +Z, 5 = -Z)
+ * @param uv - Position on the face in [0, 1], starting at the first texel
+ * @return Normalized direction
+ */
+vec3 cubeFaceDirection(int face, vec2 uv) {
+  vec2 st = uv * 2.0 - 1.0;
+  vec3 direction;
+
+  if (face == 0) {
+    direction = vec3(1.0, -st.y, -st.x);
+  } else if (face == 1) {
+    direction = vec3(-1.0, -st.y, st.x);
+  } else if (face == 2) {
+    direction = vec3(st.x, 1.0, st.y);
+  } else if (face == 3) {
+    direction = vec3(st.x, -1.0, -st.y);
+  } else if (face == 4) {
+    direction = vec3(st.x, -st.y, 1.0);
+  } else {
+    direction = vec3(-st.x, -st.y, -1.0);
+  }
+
+  return normalize(direction);
+}
+
+/**
+ * Texture coordinates of a direction in an equirectangular panorama
+ *
+ * The center of the panorama faces +X and its top row looks straight up
+ * (+Z). Images are uploaded top row first, so v = 0 is the top row.
+ *
+ * @param direction - Normalized world direction
+ * @return Panorama texture coordinates
+ */
+vec2 equirectangularUV(vec3 direction) {
+  float longitude = atan(direction.y, direction.x);
+  float latitude = asin(clamp(direction.z, -1.0, 1.0));
+  return vec2(0.5 - longitude * 0.5 * INV_PI, 0.5 - latitude * INV_PI);
+}
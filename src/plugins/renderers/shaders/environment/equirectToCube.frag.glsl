@@ -0,0 +1,24 @@
+#version 300 es
+/**
+ * Equirectangular to Cube Map Fragment Shader
+ *
+ * Resamples an HDR panorama onto one face of the environment cube map.
+ * Drawn once per face with the fullscreen triangle.
+ */
+
+precision highp float;
+
+#include "../common/math.glsl"
+#include "./cubemap.glsl"
+
+in vec2 vUV;
+
+uniform sampler2D uEquirectangularMap;
+uniform int uFace;
+
+out vec4 outColor;
+
+void main() {
+  vec3 direction = cubeFaceDirection(uFace, vUV);
+  outColor = vec4(texture(uEquirectangularMap, equirectangularUV(direction)).rgb, 1.0);
+}
@@ -0,0 +1,21 @@
+/**
+ * Environment Shader Module - Barrel Export
+ *
+ * Exports the shader sources used to bake HDR environment maps into
+ * image-based lighting maps and to draw the skybox. All passes reuse the
+ * deferred pipeline's fullscreen triangle vertex shader.
+ *
+ * @module shaders/environment
+ */
+
+import EQUIRECT_TO_CUBE_FRAGMENT_SHADER from './equirectToCube.frag.glsl';
+import IRRADIANCE_FRAGMENT_SHADER from './irradiance.frag.glsl';
+import PREFILTER_FRAGMENT_SHADER from './prefilter.frag.glsl';
+import SKYBOX_FRAGMENT_SHADER from './skybox.frag.glsl';
+
+export {
+  EQUIRECT_TO_CUBE_FRAGMENT_SHADER,
+  IRRADIANCE_FRAGMENT_SHADER,
+  PREFILTER_FRAGMENT_SHADER,
+  SKYBOX_FRAGMENT_SHADER,
+};
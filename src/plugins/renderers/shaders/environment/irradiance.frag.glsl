@@ -0,0 +1,49 @@
+#version 300 es
+/**
+ * Irradiance Convolution Fragment Shader
+ *
+ * Integrates the environment over the hemisphere around each direction,
+ * weighted by the cosine, for diffuse image-based lighting. The result is
+ * divided by PI, so shading multiplies it by the albedo directly.
+ *
+ * Reads a low-resolution mip of the environment map: the integral is smooth,
+ * and fewer texels means fewer samples are needed to cover them.
+ */
+
+precision highp float;
+
+#include "../common/math.glsl"
+#include "./cubemap.glsl"
+
+// Step between samples in radians (polar and azimuth)
+#define IRRADIANCE_SAMPLE_DELTA 0.05
+
+in vec2 vUV;
+
+uniform samplerCube uEnvironmentMap;
+uniform float uSourceLod;
+uniform int uFace;
+
+out vec4 outColor;
+
+void main() {
+  vec3 N = cubeFaceDirection(uFace, vUV);
+  vec3 up = abs(N.z) < 0.999 ? vec3(0.0, 0.0, 1.0) : vec3(1.0, 0.0, 0.0);
+  vec3 right = normalize(cross(up, N));
+  up = cross(N, right);
+
+  vec3 irradiance = vec3(0.0);
+  float sampleCount = 0.0;
+
+  for (float phi = 0.0; phi < TWO_PI; phi += IRRADIANCE_SAMPLE_DELTA) {
+    for (float theta = 0.0; theta < HALF_PI; theta += IRRADIANCE_SAMPLE_DELTA) {
+      vec3 tangentSample = vec3(sin(theta) * cos(phi), sin(theta) * sin(phi), cos(theta));
+      vec3 direction = tangentSample.x * right + tangentSample.y * up + tangentSample.z * N;
+
+      irradiance += textureLod(uEnvironmentMap, direction, uSourceLod).rgb * cos(theta) * sin(theta);
+      sampleCount += 1.0;
+    }
+  }
+
+  outColor = vec4(PI * irradiance / sampleCount, 1.0);
+}
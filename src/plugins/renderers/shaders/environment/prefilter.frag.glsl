@@ -0,0 +1,60 @@
+#version 300 es
+/**
+ * Specular Prefilter Fragment Shader
+ *
+ * Convolves the environment with the GGX lobe of one roughness, for the
+ * split-sum specular approximation. Each mip level of the prefiltered map
+ * is rendered with its own roughness.
+ *
+ * The view direction is assumed to equal the normal, so the lobe does not
+ * stretch at grazing angles. Samples in sparse parts of the lobe read a
+ * blurrier mip of the source, which hides bright single-texel fireflies.
+ */
+
+precision highp float;
+precision highp int;
+
+#include "../common/math.glsl"
+#include "../common/brdf.glsl"
+#include "./cubemap.glsl"
+#include "./sampling.glsl"
+
+#define PREFILTER_SAMPLE_COUNT 256u
+
+in vec2 vUV;
+
+uniform samplerCube uEnvironmentMap;
+uniform float uSourceSize;  // Face size of the environment map's base level
+uniform float uRoughness;
+uniform int uFace;
+
+out vec4 outColor;
+
+void main() {
+  vec3 N = cubeFaceDirection(uFace, vUV);
+  vec3 V = N;
+
+  // Solid angle covered by one base-level texel
+  float texelSolidAngle = 4.0 * PI / (6.0 * uSourceSize * uSourceSize);
+
+  vec3 color = vec3(0.0);
+  float totalWeight = 0.0;
+
+  for (uint i = 0u; i < PREFILTER_SAMPLE_COUNT; i++) {
+    vec3 H = importanceSampleGGX(hammersley(i, PREFILTER_SAMPLE_COUNT), N, uRoughness);
+    vec3 L = normalize(2.0 * dot(V, H) * H - V);
+
+    float NdotL = dot(N, L);
+    if (NdotL <= 0.0) continue;
+
+    // With V = N the sample pdf is D * NdotH / (4 * VdotH) = D / 4
+    float pdf = distributionGGX(max(dot(N, H), 0.0), uRoughness) * 0.25;
+    float sampleSolidAngle = 1.0 / (float(PREFILTER_SAMPLE_COUNT) * pdf + 0.0001);
+    float lod = uRoughness == 0.0 ? 0.0 : max(0.5 * log2(sampleSolidAngle / texelSolidAngle) + 1.0, 0.0);
+
+    color += textureLod(uEnvironmentMap, L, lod).rgb * NdotL;
+    totalWeight += NdotL;
+  }
+
+  outColor = vec4(color / max(totalWeight, 0.0001), 1.0);
+}
@@ -0,0 +1,48 @@
+//=============================================================================
+// GGX IMPORTANCE SAMPLING
+//=============================================================================
+
+// Keep in sync with environment/brdfLookupTable.ts, which integrates the
+// BRDF lookup table with the same sample sequence on the CPU.
+
+/**
+ * Van der Corput radical inverse in base 2
+ */
+float radicalInverse(uint bits) {
+  bits = (bits << 16u) | (bits >> 16u);
+  bits = ((bits & 0x55555555u) << 1u) | ((bits & 0xAAAAAAAAu) >> 1u);
+  bits = ((bits & 0x33333333u) << 2u) | ((bits & 0xCCCCCCCCu) >> 2u);
+  bits = ((bits & 0x0F0F0F0Fu) << 4u) | ((bits & 0xF0F0F0F0u) >> 4u);
+  bits = ((bits & 0x00FF00FFu) << 8u) | ((bits & 0xFF00FF00u) >> 8u);
+  return float(bits) * 2.3283064365386963e-10;
+}
+
+/**
+ * Point i of an n-point Hammersley set in [0, 1)^2
+ */
+vec2 hammersley(uint i, uint n) {
+  return vec2(float(i) / float(n), radicalInverse(i));
+}
+
+/**
+ * Half vector distributed by the GGX lobe around N
+ *
+ * @param xi - Uniform random point (e.g. from hammersley())
+ * @param N - Surface normal
+ * @param roughness - Perceptual roughness (squared, as in distributionGGX)
+ * @return World-space half vector
+ */
+vec3 importanceSampleGGX(vec2 xi, vec3 N, float roughness) {
+  float a = roughness * roughness;
+
+  float phi = TWO_PI * xi.x;
+  float cosTheta = sqrt((1.0 - xi.y) / (1.0 + (a * a - 1.0) * xi.y));
+  float sinTheta = sqrt(1.0 - cosTheta * cosTheta);
+  vec3 H = vec3(cos(phi) * sinTheta, sin(phi) * sinTheta, cosTheta);
+
+  vec3 up = abs(N.z) < 0.999 ? vec3(0.0, 0.0, 1.0) : vec3(1.0, 0.0, 0.0);
+  vec3 tangent = normalize(cross(up, N));
+  vec3 bitangent = cross(N, tangent);
+
+  return normalize(tangent * H.x + bitangent * H.y + N * H.z);
+}
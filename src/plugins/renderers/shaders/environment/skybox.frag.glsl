@@ -0,0 +1,40 @@
+#version 300 es
+/**
+ * Skybox Fragment Shader
+ *
+ * Draws the scene's environment map behind everything for cameras that
+ * clear to the skybox. The view ray of each pixel is reconstructed from the
+ * inverse view-projection, so perspective and orthographic cameras both work.
+ * Tone mapping matches the PBR shader, so the sky and its reflections agree;
+ * with the post-processing stack (uHDROutput) the linear color is written
+ * and tone mapped with the scene.
+ */
+
+precision highp float;
+
+#include "../common/math.glsl"
+#include "../common/lighting.glsl"
+
+in vec2 vUV;
+
+uniform samplerCube uEnvironmentMap;
+uniform mat4 uInverseViewProjection;
+uniform float uEnvironmentIntensity;
+uniform bool uHDROutput;
+
+out vec4 outColor;
+
+void main() {
+  vec2 ndc = vUV * 2.0 - 1.0;
+  vec4 nearPoint = uInverseViewProjection * vec4(ndc, -1.0, 1.0);
+  vec4 farPoint = uInverseViewProjection * vec4(ndc, 1.0, 1.0);
+  vec3 direction = normalize(farPoint.xyz / farPoint.w - nearPoint.xyz / nearPoint.w);
+
+  vec3 color = textureLod(uEnvironmentMap, direction, 0.0).rgb * uEnvironmentIntensity;
+  if (!uHDROutput) {
+    color = tonemapACES(color);
+    color = linearToSRGB(color);
+  }
+
+  outColor = vec4(color, 1.0);
+}
@@ -17,3 +17,12 @@ export * from './pbr';
 
 // Unlit shader (solid color, no lighting)
 export * from './unlit';
+
+// Deferred pipeline passes (G-buffer, lighting, composite)
+export * from './deferred';
+
+// Environment map baking and skybox passes
+export * from './environment';
+
+// Post-processing passes (bloom, SSAO, tone mapping, FXAA)
+export * from './postprocess';
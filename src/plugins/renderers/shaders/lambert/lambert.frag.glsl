@@ -3,10 +3,16 @@
  * Lambert Fragment Shader
  *
  * Lambertian diffuse lighting with hemisphere ambient and rim light.
- * Supports up to 8 directional lights.
+ * Supports up to 8 directional, point and spot lights, with PCF shadow
+ * maps for directional and spot lights. Writes linear color when the
+ * post-processing stack tone maps (uHDROutput).
  */
 precision highp float;
 
+#include "../common/math.glsl"
+#include "../common/lighting.glsl"
+#include "../common/shadows.glsl"
+
 #define MAX_LIGHTS 8
 
 // Inputs from vertex shader
@@ -16,10 +22,17 @@ in vec2 vTexCoord;
 
 // Material uniforms
 uniform vec3 uBaseColor;
+uniform sampler2D uBaseColorMap;  // Multiplies uBaseColor (white when unassigned)
 
 // Lighting uniforms - arrays for multi-light support
 uniform vec3 uLightDirections[MAX_LIGHTS];
 uniform vec3 uLightColors[MAX_LIGHTS];
+uniform vec3 uLightPositions[MAX_LIGHTS];  // Point/spot light positions
+uniform int uLightTypes[MAX_LIGHTS];       // LIGHT_TYPE_* codes
+uniform float uLightRanges[MAX_LIGHTS];    // Point/spot falloff range
+uniform vec2 uLightSpotCones[MAX_LIGHTS];  // Spot cone cosines (outer, inner)
+uniform vec3 uLightShadows[MAX_LIGHTS];    // Shadow layers (first, count) and strength
+uniform vec2 uLightShadowBias[MAX_LIGHTS]; // Shadow depth and normal bias
 uniform int uLightCount;
 
 // Ambient
@@ -28,12 +41,16 @@ uniform vec3 uAmbientColor;
 // Camera
 uniform vec3 uCameraPosition;
 
+// Write linear HDR for the post-processing stack
+uniform bool uHDROutput;
+
 // Output
 out vec4 outColor;
 
 void main() {
   vec3 normal = normalize(vNormal);
   vec3 viewDir = normalize(uCameraPosition - vWorldPosition);
+  vec3 baseColor = uBaseColor * texture(uBaseColorMap, vTexCoord).rgb;
 
   // Accumulate light contribution
   vec3 diffuse = vec3(0.0);
@@ -41,14 +58,26 @@ void main() {
   for (int i = 0; i < MAX_LIGHTS; i++) {
     if (i >= uLightCount) break;
 
+    vec4 light = resolveLight(
+      uLightTypes[i],
+      vWorldPosition,
+      uLightDirections[i],
+      uLightPositions[i],
+      uLightRanges[i],
+      uLightSpotCones[i]
+    );
+
     // Lambertian diffuse for this light
-    float NdotL = max(dot(normal, -uLightDirections[i]), 0.0);
-    diffuse += uBaseColor * uLightColors[i] * NdotL;
+    float NdotL = max(dot(normal, light.xyz), 0.0);
+    if (NdotL <= 0.0 || light.w <= 0.0) continue;
+
+    float shadow = computeShadow(uLightShadows[i], uLightShadowBias[i], vWorldPosition, normal, light.xyz);
+    diffuse += baseColor * uLightColors[i] * light.w * NdotL * shadow;
   }
 
   // Hemisphere ambient (sky color top, ground color bottom) - Z-up convention
   float hemiFactor = normal.z * 0.5 + 0.5;
-  vec3 ambient = uBaseColor * mix(uAmbientColor * 0.6, uAmbientColor, hemiFactor);
+  vec3 ambient = baseColor * mix(uAmbientColor * 0.6, uAmbientColor, hemiFactor);
 
   // Simple rim light for better definition (using primary light if available)
   vec3 rimColor = vec3(0.0);
@@ -61,7 +90,9 @@ void main() {
   vec3 finalColor = diffuse + ambient + rimColor;
 
   // Gamma correction (approximate)
-  finalColor = pow(finalColor, vec3(1.0 / 2.2));
+  if (!uHDROutput) {
+    finalColor = pow(finalColor, vec3(1.0 / 2.2));
+  }
 
   outColor = vec4(finalColor, 1.0);
 }
@@ -4,6 +4,7 @@
  *
  * Transforms vertices and passes data to fragment shader for Lambertian lighting.
  * Supports multi-light setup with up to 8 directional lights.
+ * Skinned meshes are deformed by their joint matrices first.
  */
 precision highp float;
 
@@ -11,21 +12,26 @@ precision highp float;
 in vec3 aPosition;
 in vec3 aNormal;
 in vec2 aTexCoord;
+in vec4 aJoints;
+in vec4 aWeights;
 
 // Transform uniforms
 uniform mat4 uModelMatrix;
 uniform mat4 uViewProjectionMatrix;
 uniform mat3 uNormalMatrix;
 
+#include "../common/skinning.glsl"
+
 // Output to fragment shader
 out vec3 vNormal;
 out vec3 vWorldPosition;
 out vec2 vTexCoord;
 
 void main() {
-  vec4 worldPosition = uModelMatrix * vec4(aPosition, 1.0);
+  mat4 skinMatrix = getSkinMatrix(aJoints, aWeights);
+  vec4 worldPosition = uModelMatrix * skinMatrix * vec4(aPosition, 1.0);
   vWorldPosition = worldPosition.xyz;
-  vNormal = normalize(uNormalMatrix * aNormal);
+  vNormal = normalize(uNormalMatrix * mat3(skinMatrix) * aNormal);
   vTexCoord = aTexCoord;
   gl_Position = uViewProjectionMatrix * worldPosition;
 }
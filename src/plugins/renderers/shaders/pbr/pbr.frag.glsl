@@ -9,9 +9,12 @@
  * - Cook-Torrance specular (GGX/Smith/Fresnel-Schlick)
  * - Energy-conserving diffuse
  * - Metallic workflow
- * - Multi-light support (up to 8 directional lights)
+ * - Multi-light support (up to 8 directional, point and spot lights)
+ * - PCF shadow maps for directional (cascaded) and spot lights
+ * - Image-based lighting from the scene's HDRI environment map
  * - Emission support
- * - ACES tone mapping
+ * - Base color and metallic-roughness texture maps (glTF channel layout)
+ * - ACES tone mapping (skipped when the post-processing stack tone maps)
  */
 
 precision highp float;
@@ -22,6 +25,8 @@ precision highp float;
 #include "../common/math.glsl"
 #include "../common/brdf.glsl"
 #include "../common/lighting.glsl"
+#include "../common/shadows.glsl"
+#include "../common/ibl.glsl"
 
 //=============================================================================
 // PBR FRAGMENT SHADER - Blender Principled BSDF Style
@@ -44,14 +49,26 @@ uniform float uRoughness;     // 0 = smooth, 1 = rough
 uniform vec3 uEmission;       // Emission color
 uniform float uEmissionStrength;  // Emission intensity multiplier
 
+// Texture maps multiply the factors above. Unassigned maps are bound to a
+// 1x1 white texture, so they leave the factors unchanged.
+uniform sampler2D uBaseColorMap;          // sRGB color, decoded to linear on sample
+uniform sampler2D uMetallicRoughnessMap;  // G = roughness, B = metallic (glTF)
+
 //-----------------------------------------------------------------------------
 // Lighting Uniforms
 //-----------------------------------------------------------------------------
 uniform vec3 uLightDirections[MAX_LIGHTS];
 uniform vec3 uLightColors[MAX_LIGHTS];
+uniform vec3 uLightPositions[MAX_LIGHTS];  // Point/spot light positions
+uniform int uLightTypes[MAX_LIGHTS];       // LIGHT_TYPE_* codes
+uniform float uLightRanges[MAX_LIGHTS];    // Point/spot falloff range
+uniform vec2 uLightSpotCones[MAX_LIGHTS];  // Spot cone cosines (outer, inner)
+uniform vec3 uLightShadows[MAX_LIGHTS];    // Shadow layers (first, count) and strength
+uniform vec2 uLightShadowBias[MAX_LIGHTS]; // Shadow depth and normal bias
 uniform int uLightCount;
 uniform vec3 uAmbientColor;
 uniform vec3 uCameraPosition;
+uniform bool uHDROutput;  // Write linear HDR for the post-processing stack
 
 //-----------------------------------------------------------------------------
 // Output
@@ -59,7 +76,8 @@ uniform vec3 uCameraPosition;
 out vec4 outColor;
 
 /**
- * Calculate PBR lighting for a single directional light
+ * Calculate PBR lighting for light arriving along a single direction.
+ * Point and spot lights pass their per-fragment direction and attenuated color.
  */
 vec3 calculateDirectionalLight(
   vec3 lightDir,
@@ -111,10 +129,11 @@ void main() {
   vec3 N = normalize(vNormal);
   vec3 V = normalize(uCameraPosition - vWorldPosition);
 
-  // Material parameters (could sample textures here in future)
-  vec3 albedo = uBaseColor;
-  float metallic = uMetallic;
-  float roughness = max(uRoughness, 0.04); // Prevent divide-by-zero artifacts
+  // Material parameters (factors modulated by texture maps)
+  vec3 albedo = uBaseColor * texture(uBaseColorMap, vTexCoord).rgb;
+  vec4 metallicRoughness = texture(uMetallicRoughnessMap, vTexCoord);
+  float metallic = uMetallic * metallicRoughness.b;
+  float roughness = max(uRoughness * metallicRoughness.g, 0.04); // Prevent divide-by-zero artifacts
 
   // Calculate F0 (reflectance at normal incidence)
   vec3 F0 = calculateF0(albedo, metallic);
@@ -124,9 +143,21 @@ void main() {
   for (int i = 0; i < MAX_LIGHTS; i++) {
     if (i >= uLightCount) break;
 
-    Lo += calculateDirectionalLight(
+    vec4 light = resolveLight(
+      uLightTypes[i],
+      vWorldPosition,
       uLightDirections[i],
-      uLightColors[i],
+      uLightPositions[i],
+      uLightRanges[i],
+      uLightSpotCones[i]
+    );
+    if (light.w <= 0.0) continue;
+
+    float shadow = computeShadow(uLightShadows[i], uLightShadowBias[i], vWorldPosition, N, light.xyz);
+
+    Lo += calculateDirectionalLight(
+      -light.xyz,
+      uLightColors[i] * light.w * shadow,
       N,
       V,
       albedo,
@@ -136,19 +167,8 @@ void main() {
     );
   }
 
-  // Ambient lighting (simple hemisphere for now)
-  // Uses Fresnel for ambient to simulate environment reflection
-  vec3 F_ambient = fresnelSchlickRoughness(max(dot(N, V), 0.0), F0, roughness);
-  vec3 kD_ambient = (vec3(1.0) - F_ambient) * (1.0 - metallic);
-
-  // Hemisphere ambient (Z-up)
-  vec3 skyColor = uAmbientColor;
-  vec3 groundColor = uAmbientColor * 0.5;
-  vec3 ambient = hemisphereAmbient(N, skyColor, groundColor) * albedo * kD_ambient;
-
-  // Add metallic ambient reflection approximation
-  vec3 metallicAmbient = F_ambient * uAmbientColor * 0.3;
-  ambient += metallicAmbient * metallic;
+  // Ambient lighting: environment map when the scene has one, else hemisphere
+  vec3 ambient = ambientLighting(N, V, albedo, metallic, roughness, F0, uAmbientColor);
 
   // Emission
   vec3 emission = uEmission * uEmissionStrength;
@@ -156,11 +176,13 @@ void main() {
   // Combine all contributions
   vec3 color = ambient + Lo + emission;
 
-  // Tone mapping (ACES filmic)
-  color = tonemapACES(color);
+  if (!uHDROutput) {
+    // Tone mapping (ACES filmic)
+    color = tonemapACES(color);
 
-  // Gamma correction (linear to sRGB)
-  color = linearToSRGB(color);
+    // Gamma correction (linear to sRGB)
+    color = linearToSRGB(color);
+  }
 
   outColor = vec4(color, 1.0);
 }
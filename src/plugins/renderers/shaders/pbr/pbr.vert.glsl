@@ -4,6 +4,7 @@
  *
  * Transforms vertices and passes data to fragment shader for PBR lighting.
  * Outputs world position, normal, and texture coordinates.
+ * Skinned meshes are deformed by their joint matrices first.
  */
 
 precision highp float;
@@ -12,24 +13,31 @@ precision highp float;
 in vec3 aPosition;
 in vec3 aNormal;
 in vec2 aTexCoord;
+in vec4 aJoints;
+in vec4 aWeights;
 
 // Transform uniforms
 uniform mat4 uModelMatrix;
 uniform mat4 uViewProjectionMatrix;
 uniform mat3 uNormalMatrix;
 
+#include "../common/skinning.glsl"
+
 // Output to fragment shader
 out vec3 vWorldPosition;
 out vec3 vNormal;
 out vec2 vTexCoord;
 
 void main() {
+  // Deform by the joint matrices (identity for unskinned meshes)
+  mat4 skinMatrix = getSkinMatrix(aJoints, aWeights);
+
   // Transform to world space
-  vec4 worldPosition = uModelMatrix * vec4(aPosition, 1.0);
+  vec4 worldPosition = uModelMatrix * skinMatrix * vec4(aPosition, 1.0);
   vWorldPosition = worldPosition.xyz;
 
   // Transform normal to world space (using normal matrix for non-uniform scale)
-  vNormal = normalize(uNormalMatrix * aNormal);
+  vNormal = normalize(uNormalMatrix * mat3(skinMatrix) * aNormal);
 
   // Pass through texture coordinates
   vTexCoord = aTexCoord;
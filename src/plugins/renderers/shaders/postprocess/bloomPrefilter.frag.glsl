@@ -0,0 +1,40 @@
+#version 300 es
+/**
+ * Bloom Prefilter Fragment Shader
+ *
+ * Downsamples the HDR scene color to half resolution and keeps only the
+ * light above the bloom threshold. Emissive materials with an emission
+ * strength above 1 (and bright HDR highlights) pass the threshold, so they
+ * glow once the result is blurred and added back in the composite pass.
+ *
+ * A soft knee of half the threshold fades values in below it, so bloom
+ * does not switch on abruptly.
+ */
+
+precision highp float;
+
+in vec2 vUV;
+
+uniform sampler2D uSource;
+uniform float uThreshold;
+
+out vec4 outColor;
+
+void main() {
+  // 2x2 box filter: the half-resolution texel sits between four source texels
+  vec2 texel = 1.0 / vec2(textureSize(uSource, 0));
+  vec3 color = 0.25 * (
+    texture(uSource, vUV + texel * vec2(-0.5, -0.5)).rgb +
+    texture(uSource, vUV + texel * vec2(0.5, -0.5)).rgb +
+    texture(uSource, vUV + texel * vec2(-0.5, 0.5)).rgb +
+    texture(uSource, vUV + texel * vec2(0.5, 0.5)).rgb
+  );
+
+  float brightness = max(color.r, max(color.g, color.b));
+  float knee = uThreshold * 0.5;
+  float soft = clamp(brightness - uThreshold + knee, 0.0, 2.0 * knee);
+  soft = soft * soft / (4.0 * knee + 1e-4);
+  float contribution = max(soft, brightness - uThreshold) / max(brightness, 1e-4);
+
+  outColor = vec4(color * contribution, 1.0);
+}
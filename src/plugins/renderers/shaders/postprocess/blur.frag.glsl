@@ -0,0 +1,31 @@
+#version 300 es
+/**
+ * Separable Gaussian Blur Fragment Shader
+ *
+ * One direction of a 9-tap Gaussian blur. Drawn twice per blur, once with
+ * uDirection = (1, 0) and once with (0, 1). Shared by bloom and the
+ * ambient occlusion pass.
+ */
+
+precision highp float;
+
+in vec2 vUV;
+
+uniform sampler2D uSource;
+uniform vec2 uDirection;
+
+out vec4 outColor;
+
+const float WEIGHTS[5] = float[](0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+
+void main() {
+  vec2 step = uDirection / vec2(textureSize(uSource, 0));
+
+  vec4 color = texture(uSource, vUV) * WEIGHTS[0];
+  for (int i = 1; i < 5; i++) {
+    color += texture(uSource, vUV + step * float(i)) * WEIGHTS[i];
+    color += texture(uSource, vUV - step * float(i)) * WEIGHTS[i];
+  }
+
+  outColor = color;
+}
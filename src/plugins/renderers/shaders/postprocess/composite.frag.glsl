@@ -0,0 +1,114 @@
+#version 300 es
+/**
+ * Post-Processing Composite Fragment Shader
+ *
+ * Turns the HDR scene color into display color:
+ *
+ * 1. Ambient occlusion darkens scene pixels (uSSAOEnabled).
+ * 2. The blurred bloom buffer is added (uBloomEnabled).
+ * 3. Exposure is applied, then ACES tone mapping (uToneMapping) or a
+ *    clamp, then sRGB encoding.
+ * 4. Color grading adjusts white balance, contrast and saturation in
+ *    display space (uColorGrading).
+ *
+ * With uLinearOutput the result stays linear HDR for a float output: steps
+ * 1-3 apply up to and including exposure, with no tone mapping, sRGB
+ * encoding or color grading. Clear color backgrounds are decoded to linear.
+ *
+ * Scene depth is copied with gl_FragDepth, so overlays drawn afterwards
+ * depth-test against the scene. Empty pixels depend on uBackgroundMode:
+ * a clear color is already display color and only gets bloom and grading,
+ * the environment skybox is HDR and is tone mapped like the scene, and
+ * cameras that do not clear color keep the output's existing pixels
+ * (discarded when uWriteOutput, otherwise marked with alpha 0 for FXAA).
+ */
+
+precision highp float;
+
+#include "../common/math.glsl"
+#include "../common/lighting.glsl"
+
+in vec2 vUV;
+
+uniform sampler2D uSceneColor;
+uniform sampler2D uSceneDepth;
+uniform sampler2D uBloom;
+uniform sampler2D uAmbientOcclusion;
+
+uniform bool uBloomEnabled;
+uniform float uBloomIntensity;
+uniform bool uSSAOEnabled;
+uniform float uExposure;
+uniform bool uToneMapping;
+uniform bool uColorGrading;
+uniform float uContrast;
+uniform float uSaturation;
+uniform float uTemperature;  // -1 (cool) to 1 (warm)
+
+uniform int uBackgroundMode;  // 0 = clear color, 1 = environment, 2 = keep
+uniform bool uWriteOutput;    // Last pass: draws straight to the output
+uniform bool uLinearOutput;   // Output linear HDR instead of display color
+
+out vec4 outColor;
+
+const int BACKGROUND_CLEAR_COLOR = 0;
+const int BACKGROUND_KEEP = 2;
+
+vec3 toDisplay(vec3 color) {
+  color *= uExposure;
+  color = uToneMapping ? tonemapACES(color) : saturate(color);
+  return linearToSRGB(color);
+}
+
+vec3 grade(vec3 color) {
+  color *= vec3(1.0 + uTemperature * 0.1, 1.0, 1.0 - uTemperature * 0.1);
+  color = (color - 0.5) * uContrast + 0.5;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  return saturate(mix(vec3(luma), color, uSaturation));
+}
+
+void main() {
+  ivec2 texel = ivec2(gl_FragCoord.xy);
+  float depth = texelFetch(uSceneDepth, texel, 0).r;
+  gl_FragDepth = depth;
+
+  bool background = depth >= 1.0;
+  if (background && uBackgroundMode == BACKGROUND_KEEP) {
+    if (uWriteOutput) {
+      discard;
+    }
+    outColor = vec4(0.0);
+    return;
+  }
+
+  vec3 color = texelFetch(uSceneColor, texel, 0).rgb;
+  vec3 bloom = uBloomEnabled ? texture(uBloom, vUV).rgb * uBloomIntensity : vec3(0.0);
+
+  if (uLinearOutput) {
+    if (background && uBackgroundMode == BACKGROUND_CLEAR_COLOR) {
+      color = sRGBToLinear(color) + bloom * uExposure;
+    } else {
+      if (uSSAOEnabled && !background) {
+        color *= texture(uAmbientOcclusion, vUV).r;
+      }
+      color = (color + bloom) * uExposure;
+    }
+    outColor = vec4(color, 1.0);
+    return;
+  }
+
+  if (background && uBackgroundMode == BACKGROUND_CLEAR_COLOR) {
+    color = saturate(color + toDisplay(bloom));
+  } else {
+    if (uSSAOEnabled && !background) {
+      color *= texture(uAmbientOcclusion, vUV).r;
+    }
+    color = toDisplay(color + bloom);
+  }
+
+  if (uColorGrading) {
+    color = grade(color);
+  }
+
+  outColor = vec4(color, 1.0);
+}
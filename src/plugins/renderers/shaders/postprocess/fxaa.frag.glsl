@@ -0,0 +1,69 @@
+#version 300 es
+/**
+ * FXAA Fragment Shader
+ *
+ * Fast approximate anti-aliasing (after Lottes' FXAA 3.11, quality preset
+ * simplified to a single search step) on the tone mapped image. Finds the
+ * local contrast from luma, and blends along the edge direction where it
+ * is above the threshold.
+ *
+ * Runs last: copies scene depth with gl_FragDepth and discards pixels the
+ * composite pass marked as kept background (alpha 0).
+ */
+
+precision highp float;
+
+in vec2 vUV;
+
+uniform sampler2D uSource;
+uniform sampler2D uSceneDepth;
+
+out vec4 outColor;
+
+const float FXAA_SPAN_MAX = 8.0;
+const float FXAA_REDUCE_MUL = 1.0 / 8.0;
+const float FXAA_REDUCE_MIN = 1.0 / 128.0;
+
+float luma(vec3 color) {
+  return dot(color, vec3(0.299, 0.587, 0.114));
+}
+
+void main() {
+  gl_FragDepth = texelFetch(uSceneDepth, ivec2(gl_FragCoord.xy), 0).r;
+
+  vec4 center = texture(uSource, vUV);
+  if (center.a == 0.0) {
+    discard;
+  }
+
+  vec2 texel = 1.0 / vec2(textureSize(uSource, 0));
+  float lumaNW = luma(texture(uSource, vUV + vec2(-1.0, -1.0) * texel).rgb);
+  float lumaNE = luma(texture(uSource, vUV + vec2(1.0, -1.0) * texel).rgb);
+  float lumaSW = luma(texture(uSource, vUV + vec2(-1.0, 1.0) * texel).rgb);
+  float lumaSE = luma(texture(uSource, vUV + vec2(1.0, 1.0) * texel).rgb);
+  float lumaM = luma(center.rgb);
+
+  float lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+  float lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+
+  vec2 direction = vec2(
+    -((lumaNW + lumaNE) - (lumaSW + lumaSE)),
+    (lumaNW + lumaSW) - (lumaNE + lumaSE)
+  );
+  float reduce = max((lumaNW + lumaNE + lumaSW + lumaSE) * 0.25 * FXAA_REDUCE_MUL, FXAA_REDUCE_MIN);
+  float scale = 1.0 / (min(abs(direction.x), abs(direction.y)) + reduce);
+  direction = clamp(direction * scale, vec2(-FXAA_SPAN_MAX), vec2(FXAA_SPAN_MAX)) * texel;
+
+  vec3 rgbA = 0.5 * (
+    texture(uSource, vUV + direction * (1.0 / 3.0 - 0.5)).rgb +
+    texture(uSource, vUV + direction * (2.0 / 3.0 - 0.5)).rgb
+  );
+  vec3 rgbB = rgbA * 0.5 + 0.25 * (
+    texture(uSource, vUV + direction * -0.5).rgb +
+    texture(uSource, vUV + direction * 0.5).rgb
+  );
+
+  float lumaB = luma(rgbB);
+  vec3 color = (lumaB < lumaMin || lumaB > lumaMax) ? rgbA : rgbB;
+  outColor = vec4(color, 1.0);
+}
@@ -0,0 +1,22 @@
+/**
+ * Post-Processing Shader Module - Barrel Export
+ *
+ * Exports the fullscreen passes of the post-processing stack. They are
+ * drawn with the deferred pipeline's fullscreen triangle vertex shader.
+ *
+ * @module shaders/postprocess
+ */
+
+import BLOOM_PREFILTER_FRAGMENT_SHADER from './bloomPrefilter.frag.glsl';
+import BLUR_FRAGMENT_SHADER from './blur.frag.glsl';
+import SSAO_FRAGMENT_SHADER from './ssao.frag.glsl';
+import POST_COMPOSITE_FRAGMENT_SHADER from './composite.frag.glsl';
+import FXAA_FRAGMENT_SHADER from './fxaa.frag.glsl';
+
+export {
+  BLOOM_PREFILTER_FRAGMENT_SHADER,
+  BLUR_FRAGMENT_SHADER,
+  SSAO_FRAGMENT_SHADER,
+  POST_COMPOSITE_FRAGMENT_SHADER,
+  FXAA_FRAGMENT_SHADER,
+};
@@ -0,0 +1,96 @@
+#version 300 es
+/**
+ * Screen-Space Ambient Occlusion Fragment Shader
+ *
+ * Estimates how much of the hemisphere above each pixel is blocked by
+ * nearby geometry, using only the scene depth buffer:
+ *
+ * 1. The view-space position is reconstructed from depth with the
+ *    inverse projection matrix.
+ * 2. The normal is reconstructed from neighbouring positions, taking the
+ *    smaller difference on each axis so depth edges do not bend it.
+ * 3. SSAO_SAMPLES points in a hemisphere of uRadius world units around the
+ *    normal (randomly rotated per pixel) are projected back to the screen;
+ *    each one behind the depth buffer counts as occluded.
+ *
+ * Writes the ambient factor (1 = unoccluded) to the red channel. Empty
+ * pixels are unoccluded.
+ */
+
+precision highp float;
+
+#include "../common/math.glsl"
+
+in vec2 vUV;
+
+uniform sampler2D uSceneDepth;
+uniform mat4 uProjection;
+uniform mat4 uInverseProjection;
+uniform float uRadius;     // Sample hemisphere radius (world units)
+uniform float uIntensity;  // Exponent applied to the ambient factor
+
+out vec4 outColor;
+
+const int SSAO_SAMPLES = 16;
+const float SSAO_BIAS = 0.025;
+
+vec3 viewPosition(vec2 uv) {
+  float depth = texture(uSceneDepth, uv).r;
+  vec4 clip = vec4(uv * 2.0 - 1.0, depth * 2.0 - 1.0, 1.0);
+  vec4 view = uInverseProjection * clip;
+  return view.xyz / view.w;
+}
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+  float depth = texture(uSceneDepth, vUV).r;
+  if (depth >= 1.0) {
+    outColor = vec4(1.0);
+    return;
+  }
+
+  vec3 P = viewPosition(vUV);
+  vec2 texel = 1.0 / vec2(textureSize(uSceneDepth, 0));
+
+  vec3 right = viewPosition(vUV + vec2(texel.x, 0.0)) - P;
+  vec3 left = P - viewPosition(vUV - vec2(texel.x, 0.0));
+  vec3 up = viewPosition(vUV + vec2(0.0, texel.y)) - P;
+  vec3 down = P - viewPosition(vUV - vec2(0.0, texel.y));
+  vec3 dx = abs(right.z) < abs(left.z) ? right : left;
+  vec3 dy = abs(up.z) < abs(down.z) ? up : down;
+  vec3 N = normalize(cross(dx, dy));
+
+  // Per-pixel random rotation around the normal
+  float angle = hash(gl_FragCoord.xy) * TWO_PI;
+  vec3 randomVec = vec3(cos(angle), sin(angle), 0.0);
+  vec3 T = normalize(randomVec - N * dot(randomVec, N));
+  vec3 B = cross(N, T);
+  mat3 TBN = mat3(T, B, N);
+
+  float occlusion = 0.0;
+  for (int i = 0; i < SSAO_SAMPLES; i++) {
+    float fi = float(i);
+    vec3 direction = normalize(vec3(
+      hash(vec2(fi, 1.0)) * 2.0 - 1.0,
+      hash(vec2(fi, 2.0)) * 2.0 - 1.0,
+      hash(vec2(fi, 3.0))
+    ));
+    // Cluster samples near the surface
+    float scale = fi / float(SSAO_SAMPLES);
+    scale = mix(0.1, 1.0, scale * scale);
+
+    vec3 samplePosition = P + TBN * direction * scale * uRadius;
+    vec4 projected = uProjection * vec4(samplePosition, 1.0);
+    vec2 sampleUV = projected.xy / projected.w * 0.5 + 0.5;
+
+    float sceneZ = viewPosition(sampleUV).z;
+    float rangeCheck = smoothstep(0.0, 1.0, uRadius / max(abs(P.z - sceneZ), 1e-4));
+    occlusion += (sceneZ >= samplePosition.z + SSAO_BIAS ? 1.0 : 0.0) * rangeCheck;
+  }
+
+  float ambient = 1.0 - occlusion / float(SSAO_SAMPLES);
+  outColor = vec4(vec3(pow(ambient, uIntensity)), 1.0);
+}
@@ -4,6 +4,8 @@
  *
  * Simple solid color output without lighting calculations.
  * Useful for debug visualization, UI elements, or stylized rendering.
+ * The color is a display color; it is decoded to linear when the
+ * post-processing stack tone maps (uHDROutput).
  */
 precision highp float;
 
@@ -11,6 +13,9 @@ precision highp float;
 uniform vec3 uColor;
 uniform float uOpacity;
 
+// Write linear HDR for the post-processing stack
+uniform bool uHDROutput;
+
 // Input from vertex shader
 in vec2 vTexCoord;
 
@@ -18,5 +23,6 @@ in vec2 vTexCoord;
 out vec4 outColor;
 
 void main() {
-  outColor = vec4(uColor, uOpacity);
+  vec3 color = uHDROutput ? pow(uColor, vec3(2.2)) : uColor;
+  outColor = vec4(color, uOpacity);
 }
@@ -3,6 +3,7 @@
  * Unlit Vertex Shader
  *
  * Simple transform without lighting calculations.
+ * Skinned meshes are deformed by their joint matrices first.
  */
 precision highp float;
 
@@ -10,15 +11,20 @@ precision highp float;
 in vec3 aPosition;
 in vec3 aNormal;
 in vec2 aTexCoord;
+in vec4 aJoints;
+in vec4 aWeights;
 
 // Transform uniforms
 uniform mat4 uModelMatrix;
 uniform mat4 uViewProjectionMatrix;
 
+#include "../common/skinning.glsl"
+
 // Output to fragment shader
 out vec2 vTexCoord;
 
 void main() {
   vTexCoord = aTexCoord;
-  gl_Position = uViewProjectionMatrix * uModelMatrix * vec4(aPosition, 1.0);
+  mat4 skinMatrix = getSkinMatrix(aJoints, aWeights);
+  gl_Position = uViewProjectionMatrix * uModelMatrix * skinMatrix * vec4(aPosition, 1.0);
 }
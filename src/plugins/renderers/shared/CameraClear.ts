@@ -0,0 +1,77 @@
+/**
+ * CameraClear - Apply a camera's clear flags at the start of a frame
+ *
+ * Shared by the forward and deferred pipelines so both honour
+ * ICamera.clearFlags and ICamera.backgroundColor the same way:
+ *
+ * | clearFlags   | Color                          | Depth   |
+ * |--------------|--------------------------------|---------|
+ * | solidColor   | backgroundColor                | cleared |
+ * | skybox       | scene background               | cleared |
+ * | depthOnly    | kept                           | cleared |
+ * | none         | kept                           | kept    |
+ *
+ * 'skybox' clears to the scene's background color
+ * (ISceneSettings.backgroundColor), or DEFAULT_BACKGROUND_COLOR when none is
+ * given; renderers then draw the scene's environment map over it with
+ * SkyboxPass, once the map has loaded. Cameras without clear flags clear like
+ * 'solidColor', and use the scene background when they have no color of
+ * their own.
+ *
+ * @example
+ * ```typescript
+ * gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+ * clearForCamera(gl, camera, sceneEnvironment.get('backgroundColor'));
+ * ```
+ */
+
+import type { ICamera } from '@core/interfaces';
+import type { Vec3 } from '@utils/math';
+
+/**
+ * Editor viewport background, used when a camera does not specify one.
+ */
+export const DEFAULT_BACKGROUND_COLOR: Vec3 = [0.15, 0.15, 0.17];
+
+/**
+ * Get the color a camera clears to, or null if it keeps the existing color.
+ *
+ * @param camera - Camera being rendered
+ * @param sceneBackground - Background color of the scene
+ */
+export function getCameraBackground(
+  camera: ICamera,
+  sceneBackground: Vec3 = DEFAULT_BACKGROUND_COLOR
+): Vec3 | null {
+  switch (camera.clearFlags) {
+    case 'depthOnly':
+    case 'none':
+      return null;
+    case 'skybox':
+      return sceneBackground;
+    default:
+      return camera.backgroundColor ?? sceneBackground;
+  }
+}
+
+/**
+ * Clear the bound framebuffer as the camera's clear flags request.
+ *
+ * @param gl - WebGL context
+ * @param camera - Camera being rendered
+ * @param sceneBackground - Background color of the scene
+ */
+export function clearForCamera(
+  gl: WebGL2RenderingContext,
+  camera: ICamera,
+  sceneBackground: Vec3 = DEFAULT_BACKGROUND_COLOR
+): void {
+  const background = getCameraBackground(camera, sceneBackground);
+
+  if (background) {
+    gl.clearColor(background[0], background[1], background[2], 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+  } else if (camera.clearFlags === 'depthOnly') {
+    gl.clear(gl.DEPTH_BUFFER_BIT);
+  }
+}
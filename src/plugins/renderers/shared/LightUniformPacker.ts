@@ -0,0 +1,126 @@
+/**
+ * LightUniformPacker - Packs LightData into shader uniform arrays
+ *
+ * Shared by the forward and deferred pipelines so both upload lights in
+ * the layout lighting.glsl expects. A packer holds a fixed number of slots;
+ * callers that shade more lights than that pack them in consecutive batches.
+ *
+ * @example
+ * ```typescript
+ * const packer = new LightUniformPacker(8);
+ * const lights = getShadableLights(lightManager.getActiveLights());
+ *
+ * for (let start = 0; start < lights.length; start += packer.capacity) {
+ *   packer.pack(lights, start);
+ *   gl.uniform3fv(dirLoc, packer.directions);
+ *   gl.uniform1i(countLoc, packer.count);
+ *   // ...draw
+ * }
+ * ```
+ */
+
+import type { LightData } from '@core/LightManager';
+import type { LightType } from '@core/interfaces/ILightComponent';
+import { degToRad } from '@utils/math';
+
+/**
+ * Light type codes written to `uLightTypes` (see LIGHT_TYPE_* in lighting.glsl).
+ * Area lights have no shading model yet and are skipped.
+ */
+export const LIGHT_TYPE_CODES: Partial<Record<LightType, number>> = {
+  directional: 0,
+  point: 1,
+  spot: 2,
+};
+
+/**
+ * Smallest gap between the inner and outer spot cone cosines, keeping the
+ * shader's smoothstep well defined when innerSpotRatio is 1.
+ */
+const MIN_SPOT_CONE_GAP = 1e-4;
+
+/**
+ * Filter out lights the shaders cannot shade (see LIGHT_TYPE_CODES).
+ */
+export function getShadableLights(lights: readonly LightData[]): LightData[] {
+  return lights.filter((light) => LIGHT_TYPE_CODES[light.lightType] !== undefined);
+}
+
+/**
+ * Get the cosines of a spot light's outer and inner cone half-angles.
+ * `spotAngle` is the full cone angle; the inner cone is `innerSpotRatio` of it.
+ */
+export function getSpotConeCosines(light: LightData): [number, number] {
+  const outerHalfAngle = degToRad((light.spotAngle ?? 30) / 2);
+  const innerHalfAngle = outerHalfAngle * Math.min(Math.max(light.innerSpotRatio ?? 0.8, 0), 1);
+
+  const cosOuter = Math.cos(outerHalfAngle);
+  const cosInner = Math.max(Math.cos(innerHalfAngle), cosOuter + MIN_SPOT_CONE_GAP);
+  return [cosOuter, cosInner];
+}
+
+/**
+ * Fixed-size uniform arrays for one batch of lights.
+ */
+export class LightUniformPacker {
+  readonly directions: Float32Array;
+  readonly colors: Float32Array;
+  readonly positions: Float32Array;
+  readonly types: Int32Array;
+  readonly ranges: Float32Array;
+  readonly spotCones: Float32Array;
+
+  /** Number of lights written by the last pack() */
+  count = 0;
+
+  constructor(readonly capacity: number) {
+    this.directions = new Float32Array(capacity * 3);
+    this.colors = new Float32Array(capacity * 3);
+    this.positions = new Float32Array(capacity * 3);
+    this.types = new Int32Array(capacity);
+    this.ranges = new Float32Array(capacity);
+    this.spotCones = new Float32Array(capacity * 2);
+  }
+
+  /**
+   * Pack up to `capacity` lights starting at `start`. Unused slots are zeroed.
+   * Lights must already be filtered with getShadableLights().
+   *
+   * @returns Number of lights packed
+   */
+  pack(lights: readonly LightData[], start = 0): number {
+    this.directions.fill(0);
+    this.colors.fill(0);
+    this.positions.fill(0);
+    this.types.fill(0);
+    this.ranges.fill(0);
+    this.spotCones.fill(0);
+
+    const count = Math.max(Math.min(lights.length - start, this.capacity), 0);
+    for (let i = 0; i < count; i++) {
+      const light = lights[start + i];
+      const direction = this.normalizeDirection(light.direction);
+
+      this.directions.set(direction, i * 3);
+      this.colors.set(light.color, i * 3);
+      this.positions.set(light.position, i * 3);
+      this.types[i] = LIGHT_TYPE_CODES[light.lightType] ?? 0;
+      this.ranges[i] = light.range ?? 0;
+
+      if (light.lightType === 'spot') {
+        this.spotCones.set(getSpotConeCosines(light), i * 2);
+      }
+    }
+
+    this.count = count;
+    return count;
+  }
+
+  private normalizeDirection(dir: [number, number, number]): [number, number, number] {
+    const len = Math.sqrt(dir[0] * dir[0] + dir[1] * dir[1] + dir[2] * dir[2]);
+    if (len === 0) {
+      return [0, -1, 0];
+    }
+    return [dir[0] / len, dir[1] / len, dir[2] / len];
+  }
+}
@@ -14,11 +14,15 @@
  * // In render loop:
  * const resources = cache.getOrCreateSolid(entity.id, meshData, program);
  * gl.bindVertexArray(resources.vao);
- * gl.drawElements(gl.TRIANGLES, resources.indexCount, gl.UNSIGNED_SHORT, 0);
+ * gl.drawElements(gl.TRIANGLES, resources.indexCount, resources.indexType, 0);
  *
  * // On entity deletion:
  * cache.dispose(entity.id);
  * ```
+ *
+ * Cached resources remember the mesh/edge data object they were uploaded
+ * from. Passing a different object for the same mesh ID (e.g. after a
+ * parametric primitive rebuilds its geometry) replaces the resources.
  */
 
 import type { IMeshData, IEdgeData } from '@core/interfaces/IMeshData';
@@ -37,8 +41,16 @@ export interface MeshGPUResources {
   ebo: WebGLBuffer;
   /** Number of indices to draw */
   indexCount: number;
+  /** Index element type for drawElements (UNSIGNED_SHORT or UNSIGNED_INT) */
+  indexType: number;
   /** UV buffer (optional) */
   uvVbo?: WebGLBuffer;
+  /** Tangent buffer (only when the mesh has tangents and the program reads aTangent) */
+  tangentVbo?: WebGLBuffer;
+  /** Joint index buffer (only when the mesh is skinned and the program reads aJoints) */
+  jointsVbo?: WebGLBuffer;
+  /** Joint weight buffer (only when the mesh is skinned and the program reads aWeights) */
+  weightsVbo?: WebGLBuffer;
 }
 
 /**
@@ -77,6 +89,8 @@ export class MeshGPUCache {
   // Cache maps keyed by "meshId|programId" string combination
   private readonly solidCache = new Map<string, MeshGPUResources>();
   private readonly wireframeCache = new Map<string, EdgeGPUResources>();
+  private readonly solidSources = new WeakMap<MeshGPUResources, IMeshData>();
+  private readonly wireframeSources = new WeakMap<EdgeGPUResources, IEdgeData>();
   private readonly programIds = new WeakMap<WebGLProgram, number>();
   private nextProgramId = 1;
 
@@ -122,15 +136,19 @@ export class MeshGPUCache {
     // Generate cache key that includes shader program ID
     const cacheKey = this.generateCacheKey(meshId, program);
 
-    // Return cached resources if available
+    // Return cached resources if they were built from the same mesh data
     const cached = this.solidCache.get(cacheKey);
     if (cached) {
-      return cached;
+      if (this.solidSources.get(cached) === meshData) {
+        return cached;
+      }
+      this.deleteSolidResources(cached);
     }
 
     // Create new GPU resources
     const resources = this.createSolidResources(meshData, program);
     this.solidCache.set(cacheKey, resources);
+    this.solidSources.set(resources, meshData);
     return resources;
   }
 
@@ -150,15 +168,19 @@ export class MeshGPUCache {
     // Generate cache key that includes shader program ID
     const cacheKey = this.generateCacheKey(meshId, program);
 
-    // Return cached resources if available
+    // Return cached resources if they were built from the same edge data
     const cached = this.wireframeCache.get(cacheKey);
     if (cached) {
-      return cached;
+      if (this.wireframeSources.get(cached) === edgeData) {
+        return cached;
+      }
+      this.deleteWireframeResources(cached);
     }
 
     // Create new GPU resources
     const resources = this.createWireframeResources(edgeData, program);
     this.wireframeCache.set(cacheKey, resources);
+    this.wireframeSources.set(resources, edgeData);
     return resources;
   }
 
@@ -276,6 +298,9 @@ export class MeshGPUCache {
     const aPositionLoc = program ? gl.getAttribLocation(program, 'aPosition') : 0;
     const aNormalLoc = program ? gl.getAttribLocation(program, 'aNormal') : 1;
     const aTexCoordLoc = program ? gl.getAttribLocation(program, 'aTexCoord') : 2;
+    const aTangentLoc = program ? gl.getAttribLocation(program, 'aTangent') : -1;
+    const aJointsLoc = program ? gl.getAttribLocation(program, 'aJoints') : -1;
+    const aWeightsLoc = program ? gl.getAttribLocation(program, 'aWeights') : -1;
 
     // Create VAO
     const vao = gl.createVertexArray();
@@ -325,6 +350,44 @@ export class MeshGPUCache {
       }
     }
 
+    // Create tangent VBO only if the shader consumes tangents
+    let tangentVbo: WebGLBuffer | undefined;
+    if (meshData.tangents && aTangentLoc >= 0) {
+      tangentVbo = gl.createBuffer() ?? undefined;
+      if (tangentVbo) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, tangentVbo);
+        gl.bufferData(gl.ARRAY_BUFFER, meshData.tangents, gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(aTangentLoc);
+        gl.vertexAttribPointer(aTangentLoc, 4, gl.FLOAT, false, 0, 0);
+      }
+    }
+
+    // Create skinning VBOs only if the shader consumes them. Joint indices
+    // are read as a float attribute (non-normalized), so shaders declare
+    // `in vec4 aJoints` and the default value of a disabled attribute
+    // never mismatches an integer attribute type.
+    let jointsVbo: WebGLBuffer | undefined;
+    if (meshData.joints && aJointsLoc >= 0) {
+      jointsVbo = gl.createBuffer() ?? undefined;
+      if (jointsVbo) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, jointsVbo);
+        gl.bufferData(gl.ARRAY_BUFFER, meshData.joints, gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(aJointsLoc);
+        gl.vertexAttribPointer(aJointsLoc, 4, gl.UNSIGNED_SHORT, false, 0, 0);
+      }
+    }
+
+    let weightsVbo: WebGLBuffer | undefined;
+    if (meshData.weights && aWeightsLoc >= 0) {
+      weightsVbo = gl.createBuffer() ?? undefined;
+      if (weightsVbo) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, weightsVbo);
+        gl.bufferData(gl.ARRAY_BUFFER, meshData.weights, gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(aWeightsLoc);
+        gl.vertexAttribPointer(aWeightsLoc, 4, gl.FLOAT, false, 0, 0);
+      }
+    }
+
     // Create and fill index buffer
     const ebo = gl.createBuffer();
     if (!ebo) {
@@ -342,7 +405,11 @@ export class MeshGPUCache {
       normalVbo,
       ebo,
       indexCount: meshData.indices.length,
+      indexType: meshData.indices instanceof Uint32Array ? gl.UNSIGNED_INT : gl.UNSIGNED_SHORT,
       uvVbo,
+      tangentVbo,
+      jointsVbo,
+      weightsVbo,
     };
   }
 
@@ -398,6 +465,15 @@ export class MeshGPUCache {
     if (resources.uvVbo) {
       gl.deleteBuffer(resources.uvVbo);
     }
+    if (resources.tangentVbo) {
+      gl.deleteBuffer(resources.tangentVbo);
+    }
+    if (resources.jointsVbo) {
+      gl.deleteBuffer(resources.jointsVbo);
+    }
+    if (resources.weightsVbo) {
+      gl.deleteBuffer(resources.weightsVbo);
+    }
   }
 
   /**
@@ -0,0 +1,355 @@
+/**
+ * Texture GPU Cache
+ *
+ * Centralized GPU resource management for material textures.
+ * Decodes texture assets according to their import settings, uploads them
+ * as WebGL textures and caches the result by asset UUID.
+ *
+ * Loading is asynchronous: until an image has been decoded and uploaded,
+ * `getOrCreate()` returns a shared 1x1 white fallback texture so shaders
+ * that multiply by their texture sample render unchanged.
+ *
+ * @example
+ * ```typescript
+ * const cache = new TextureGPUCache({
+ *   gl,
+ *   loadSource: (asset) => projectService.readSourceFile(asset.source.projectPath!),
+ * });
+ *
+ * // In render loop:
+ * gl.activeTexture(gl.TEXTURE0);
+ * gl.bindTexture(gl.TEXTURE_2D, cache.getOrCreate(textureAsset));
+ *
+ * // On asset removal:
+ * cache.dispose(textureAsset.uuid);
+ * ```
+ */
+
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import type {
+  ITextureImportSettings,
+  WrapMode,
+} from '@core/assets/interfaces/ITextureAssetMeta';
+
+/**
+ * Loads the encoded image bytes for a texture asset.
+ * Returns null if the source cannot be found.
+ */
+export type TextureSourceLoader = (asset: ITextureAsset) => Promise<Blob | null>;
+
+/**
+ * Decodes encoded image bytes into an uploadable image, applying the
+ * decode-time import settings (orientation, premultiplication, max size).
+ */
+export type TextureImageDecoder = (
+  blob: Blob,
+  settings: ITextureImportSettings
+) => Promise<ImageBitmap>;
+
+/**
+ * Options for creating a TextureGPUCache.
+ */
+export interface TextureGPUCacheOptions {
+  /** WebGL2 rendering context */
+  gl: WebGL2RenderingContext;
+  /** Loader for textures backed by project files (embedded textures carry their own data) */
+  loadSource?: TextureSourceLoader;
+  /** Image decoder (defaults to createImageBitmap) */
+  decodeImage?: TextureImageDecoder;
+}
+
+/**
+ * Loading state of a cached texture.
+ */
+type TextureLoadState = 'loading' | 'ready' | 'failed';
+
+/**
+ * A cached texture entry.
+ */
+interface TextureEntry {
+  /** Uploaded texture (null until ready) */
+  texture: WebGLTexture | null;
+  /** Current loading state */
+  state: TextureLoadState;
+  /** Asset modification timestamp the texture was created from */
+  modified: string;
+}
+
+/**
+ * EXT_texture_filter_anisotropic enum values.
+ */
+const TEXTURE_MAX_ANISOTROPY_EXT = 0x84fe;
+const MAX_TEXTURE_MAX_ANISOTROPY_EXT = 0x84ff;
+
+/**
+ * Decode an image blob with createImageBitmap, honouring the import settings.
+ *
+ * Flipping happens here because WebGL ignores UNPACK_FLIP_Y_WEBGL for
+ * ImageBitmap sources.
+ */
+async function decodeWithImageBitmap(
+  blob: Blob,
+  settings: ITextureImportSettings
+): Promise<ImageBitmap> {
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: settings.flipVertically ? 'flipY' : 'from-image',
+    premultiplyAlpha: settings.premultiplyAlpha ? 'premultiply' : 'none',
+    colorSpaceConversion: 'none',
+  });
+
+  const largest = Math.max(bitmap.width, bitmap.height);
+  if (largest <= settings.maxSize) {
+    return bitmap;
+  }
+
+  const scale = settings.maxSize / largest;
+  const resized = await createImageBitmap(bitmap, {
+    resizeWidth: Math.max(1, Math.round(bitmap.width * scale)),
+    resizeHeight: Math.max(1, Math.round(bitmap.height * scale)),
+    resizeQuality: 'high',
+  });
+  bitmap.close();
+  return resized;
+}
+
+/**
+ * Centralized cache for texture GPU resources.
+ */
+export class TextureGPUCache {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly loadSource: TextureSourceLoader | null;
+  private readonly decodeImage: TextureImageDecoder;
+
+  private readonly entries = new Map<string, TextureEntry>();
+  private fallbackTexture: WebGLTexture | null = null;
+  private anisotropyExt: EXT_texture_filter_anisotropic | null | undefined;
+  private maxAnisotropy = 1;
+
+  constructor(options: TextureGPUCacheOptions) {
+    this.gl = options.gl;
+    this.loadSource = options.loadSource ?? null;
+    this.decodeImage = options.decodeImage ?? decodeWithImageBitmap;
+  }
+
+  /**
+   * Get the GPU texture for a texture asset, starting an upload if needed.
+   *
+   * Returns the white fallback texture while the image is loading or if it
+   * failed to load. A new upload is started when the asset's `modified`
+   * timestamp changes (e.g., after its import settings were edited).
+   *
+   * @param asset - The texture asset to sample
+   * @returns A texture that can be bound immediately
+   */
+  getOrCreate(asset: ITextureAsset): WebGLTexture {
+    let entry = this.entries.get(asset.uuid);
+
+    if (entry && entry.modified !== asset.modified) {
+      this.dispose(asset.uuid);
+      entry = undefined;
+    }
+
+    if (!entry) {
+      entry = { texture: null, state: 'loading', modified: asset.modified };
+      this.entries.set(asset.uuid, entry);
+      void this.load(asset, entry);
+    }
+
+    return entry.texture ?? this.getFallback();
+  }
+
+  /**
+   * Check whether a texture has finished uploading.
+   *
+   * @param uuid - Texture asset UUID
+   */
+  isReady(uuid: string): boolean {
+    return this.entries.get(uuid)?.state === 'ready';
+  }
+
+  /**
+   * Get the shared 1x1 white texture used while textures load and for
+   * sampler uniforms with no texture assigned.
+   */
+  getFallback(): WebGLTexture {
+    if (this.fallbackTexture) {
+      return this.fallbackTexture;
+    }
+
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create fallback texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA8, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE,
+      new Uint8Array([255, 255, 255, 255])
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    this.fallbackTexture = texture;
+    return texture;
+  }
+
+  /**
+   * Dispose the GPU texture for an asset.
+   * An in-flight load for the asset is discarded when it completes.
+   *
+   * @param uuid - Texture asset UUID
+   */
+  dispose(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.texture) {
+      this.gl.deleteTexture(entry.texture);
+    }
+    this.entries.delete(uuid);
+  }
+
+  /**
+   * Dispose all cached textures, including the fallback.
+   */
+  disposeAll(): void {
+    for (const uuid of Array.from(this.entries.keys())) {
+      this.dispose(uuid);
+    }
+
+    if (this.fallbackTexture) {
+      this.gl.deleteTexture(this.fallbackTexture);
+      this.fallbackTexture = null;
+    }
+  }
+
+  /**
+   * Load, decode and upload a texture asset.
+   */
+  private async load(asset: ITextureAsset, entry: TextureEntry): Promise<void> {
+    try {
+      const blob = asset.data ?? (this.loadSource ? await this.loadSource(asset) : null);
+      if (!blob) {
+        throw new Error('source image not found');
+      }
+
+      const image = await this.decodeImage(blob, asset.importSettings);
+
+      // Disposed or replaced while loading
+      if (this.entries.get(asset.uuid) !== entry) {
+        image.close();
+        return;
+      }
+
+      entry.texture = this.upload(image, asset.importSettings);
+      entry.state = 'ready';
+      image.close();
+    } catch (error) {
+      entry.state = 'failed';
+      console.warn(`Failed to load texture "${asset.name}":`, error);
+    }
+  }
+
+  /**
+   * Upload a decoded image and apply the sampling settings.
+   */
+  private upload(image: ImageBitmap, settings: ITextureImportSettings): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create texture');
+    }
+
+    const internalFormat = settings.sRGB ? gl.SRGB8_ALPHA8 : gl.RGBA8;
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, gl.RGBA, gl.UNSIGNED_BYTE, image);
+
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, this.getWrapMode(settings.wrapModeU));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, this.getWrapMode(settings.wrapModeV));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.getMinFilter(settings));
+    gl.texParameteri(
+      gl.TEXTURE_2D,
+      gl.TEXTURE_MAG_FILTER,
+      settings.filterMode === 'point' ? gl.NEAREST : gl.LINEAR
+    );
+
+    if (settings.generateMipMaps) {
+      gl.generateMipmap(gl.TEXTURE_2D);
+    }
+
+    this.applyAnisotropy(settings);
+
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    return texture;
+  }
+
+  /**
+   * Map an import wrap mode to a WebGL wrap enum.
+   * WebGL2 has no mirror-once mode, so it falls back to mirrored repeat.
+   */
+  private getWrapMode(mode: WrapMode): number {
+    const gl = this.gl;
+    switch (mode) {
+      case 'clamp':
+        return gl.CLAMP_TO_EDGE;
+      case 'mirror':
+      case 'mirrorOnce':
+        return gl.MIRRORED_REPEAT;
+      case 'repeat':
+      default:
+        return gl.REPEAT;
+    }
+  }
+
+  /**
+   * Map filter mode and mipmap settings to a WebGL minification filter.
+   */
+  private getMinFilter(settings: ITextureImportSettings): number {
+    const gl = this.gl;
+
+    if (!settings.generateMipMaps) {
+      return settings.filterMode === 'point' ? gl.NEAREST : gl.LINEAR;
+    }
+
+    switch (settings.filterMode) {
+      case 'point':
+        return gl.NEAREST_MIPMAP_NEAREST;
+      case 'bilinear':
+        return gl.LINEAR_MIPMAP_NEAREST;
+      case 'trilinear':
+      default:
+        return gl.LINEAR_MIPMAP_LINEAR;
+    }
+  }
+
+  /**
+   * Apply anisotropic filtering to the bound texture when supported.
+   */
+  private applyAnisotropy(settings: ITextureImportSettings): void {
+    if (settings.anisoLevel <= 1 || settings.filterMode === 'point') {
+      return;
+    }
+
+    if (this.anisotropyExt === undefined) {
+      this.anisotropyExt = this.gl.getExtension('EXT_texture_filter_anisotropic');
+      if (this.anisotropyExt) {
+        this.maxAnisotropy = this.gl.getParameter(MAX_TEXTURE_MAX_ANISOTROPY_EXT) as number;
+      }
+    }
+
+    if (!this.anisotropyExt) {
+      return;
+    }
+
+    this.gl.texParameterf(
+      this.gl.TEXTURE_2D,
+      TEXTURE_MAX_ANISOTROPY_EXT,
+      Math.min(settings.anisoLevel, this.maxAnisotropy)
+    );
+  }
+}
@@ -6,3 +6,16 @@
 
 export { MeshGPUCache } from './MeshGPUCache';
 export type { MeshGPUResources, EdgeGPUResources } from './MeshGPUCache';
+export { TextureGPUCache } from './TextureGPUCache';
+export type {
+  TextureGPUCacheOptions,
+  TextureSourceLoader,
+  TextureImageDecoder,
+} from './TextureGPUCache';
+export {
+  LightUniformPacker,
+  LIGHT_TYPE_CODES,
+  getShadableLights,
+  getSpotConeCosines,
+} from './LightUniformPacker';
+export { clearForCamera, getCameraBackground, DEFAULT_BACKGROUND_COLOR } from './CameraClear';
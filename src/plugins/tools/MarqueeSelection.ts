@@ -0,0 +1,266 @@
+/**
+ * MarqueeSelection - Box and lasso selection geometry
+ *
+ * Helpers used by SelectionController to select every object drawn inside
+ * a screen-space shape:
+ * - box: a rectangle dragged from one corner to the other
+ * - lasso: a free-form outline, closed back to its first point
+ *
+ * An object is inside when any of its projected vertices is, when the
+ * shape lies within one of its projected triangles (a small box dragged
+ * inside a large face), or when the shape's outline crosses a triangle's
+ * edges (a thin box dragged across a large face). Objects without geometry
+ * use their origin.
+ *
+ * Modifiers held when the drag ends pick how the result combines with the
+ * current selection: Shift adds, Ctrl subtracts, Shift+Ctrl intersects.
+ *
+ * @example
+ * ```typescript
+ * const polygon = getMarqueePolygon({ tool: 'box', points: [[10, 10], [200, 120]] });
+ * const mvp = mat4Multiply(camera.getViewProjectionMatrix(), modelMatrix);
+ * if (isMeshInPolygon(polygon, meshData, mvp, width, height)) {
+ *   selectionManager.addToSelection(object);
+ * }
+ * ```
+ */
+
+import type { IMeshData } from '@core/interfaces/IMeshData';
+
+/**
+ * Shape drawn by a marquee drag.
+ */
+export type MarqueeTool = 'box' | 'lasso';
+
+/**
+ * How a marquee result combines with the current selection.
+ */
+export type MarqueeMode = 'replace' | 'add' | 'subtract' | 'intersect';
+
+/**
+ * A point in viewport pixels (origin top-left).
+ */
+export type ScreenPoint = [number, number];
+
+/**
+ * A marquee in progress or finished.
+ */
+export interface MarqueeShape {
+  /** Shape being drawn */
+  tool: MarqueeTool;
+  /** Box: the start and current corner. Lasso: the outline so far. */
+  points: ScreenPoint[];
+}
+
+/**
+ * Get the marquee mode for the modifiers held when the drag ends.
+ */
+export function getMarqueeMode(modifiers: { shift?: boolean; ctrl?: boolean }): MarqueeMode {
+  if (modifiers.shift && modifiers.ctrl) return 'intersect';
+  if (modifiers.shift) return 'add';
+  if (modifiers.ctrl) return 'subtract';
+  return 'replace';
+}
+
+/**
+ * Get the closed outline of a marquee shape.
+ *
+ * @returns Polygon vertices in viewport pixels (the closing edge is implied)
+ */
+export function getMarqueePolygon(shape: MarqueeShape): ScreenPoint[] {
+  if (shape.tool === 'lasso') {
+    return shape.points;
+  }
+
+  const [start, end] = shape.points;
+  if (!start || !end) return [];
+
+  return [
+    [start[0], start[1]],
+    [end[0], start[1]],
+    [end[0], end[1]],
+    [start[0], end[1]],
+  ];
+}
+
+/**
+ * Test whether a point lies inside a polygon (even-odd rule).
+ */
+export function isPointInPolygon(point: ScreenPoint, polygon: readonly ScreenPoint[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Project a point to viewport pixels.
+ *
+ * @param point - Point in the space the matrix transforms from
+ * @param matrix - (Model-)view-projection matrix
+ * @param width - Viewport width in pixels
+ * @param height - Viewport height in pixels
+ * @returns Pixel position, or null if the point is behind the camera
+ */
+export function projectToScreen(
+  point: [number, number, number],
+  matrix: Float32Array,
+  width: number,
+  height: number
+): ScreenPoint | null {
+  return projectVertex(point[0], point[1], point[2], matrix, width, height);
+}
+
+/**
+ * Test whether a mesh's projection overlaps a polygon.
+ *
+ * @param polygon - Closed outline in viewport pixels
+ * @param meshData - Mesh geometry (model space)
+ * @param modelViewProjection - Projection of the mesh's model space
+ * @param width - Viewport width in pixels
+ * @param height - Viewport height in pixels
+ */
+export function isMeshInPolygon(
+  polygon: readonly ScreenPoint[],
+  meshData: IMeshData,
+  modelViewProjection: Float32Array,
+  width: number,
+  height: number
+): boolean {
+  if (polygon.length < 3) return false;
+
+  const { positions, indices } = meshData;
+  const vertexCount = Math.floor(positions.length / 3);
+  const projected: Array<ScreenPoint | null> = new Array(vertexCount);
+
+  for (let i = 0; i < vertexCount; i++) {
+    const point = projectVertex(
+      positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2],
+      modelViewProjection, width, height
+    );
+    if (point && isPointInPolygon(point, polygon)) return true;
+    projected[i] = point;
+  }
+
+  // No vertex inside: the shape may still sit within or cut across a face
+  const anchor = polygon[0];
+  const bounds = getPolygonBounds(polygon);
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = projected[indices[i]];
+    const b = projected[indices[i + 1]];
+    const c = projected[indices[i + 2]];
+    if (!a || !b || !c) continue;
+
+    const triangle: ScreenPoint[] = [a, b, c];
+    if (!boundsOverlap(bounds, getPolygonBounds(triangle))) continue;
+    if (isPointInPolygon(anchor, triangle)) return true;
+    if (doPolygonEdgesCross(polygon, triangle)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Screen-space bounds of a polygon as [minX, minY, maxX, maxY].
+ */
+function getPolygonBounds(polygon: readonly ScreenPoint[]): [number, number, number, number] {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const [x, y] of polygon) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return [minX, minY, maxX, maxY];
+}
+
+/**
+ * Test whether two [minX, minY, maxX, maxY] bounds overlap.
+ */
+function boundsOverlap(a: [number, number, number, number], b: [number, number, number, number]): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
+
+/**
+ * Test whether any edge of one closed polygon crosses an edge of another.
+ */
+function doPolygonEdgesCross(a: readonly ScreenPoint[], b: readonly ScreenPoint[]): boolean {
+  for (let i = 0, j = a.length - 1; i < a.length; j = i++) {
+    for (let k = 0, l = b.length - 1; k < b.length; l = k++) {
+      if (doSegmentsIntersect(a[j], a[i], b[l], b[k])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Test whether segments p1-p2 and q1-q2 intersect, including touching ends.
+ */
+function doSegmentsIntersect(p1: ScreenPoint, p2: ScreenPoint, q1: ScreenPoint, q2: ScreenPoint): boolean {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+
+  // Collinear or touching: an end point lies on the other segment
+  return (
+    (d1 === 0 && isOnSegment(q1, q2, p1)) ||
+    (d2 === 0 && isOnSegment(q1, q2, p2)) ||
+    (d3 === 0 && isOnSegment(p1, p2, q1)) ||
+    (d4 === 0 && isOnSegment(p1, p2, q2))
+  );
+}
+
+/**
+ * Z component of (b - a) x (c - a); its sign tells which side of a-b c is on.
+ */
+function cross(a: ScreenPoint, b: ScreenPoint, c: ScreenPoint): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+/**
+ * Test whether c, known to be collinear with a-b, lies between a and b.
+ */
+function isOnSegment(a: ScreenPoint, b: ScreenPoint, c: ScreenPoint): boolean {
+  return (
+    Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1])
+  );
+}
+
+/**
+ * Project one vertex; null when it is behind the camera.
+ */
+function projectVertex(
+  x: number,
+  y: number,
+  z: number,
+  m: Float32Array,
+  width: number,
+  height: number
+): ScreenPoint | null {
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+  if (w <= 0) return null;
+
+  const ndcX = (m[0] * x + m[4] * y + m[8] * z + m[12]) / w;
+  const ndcY = (m[1] * x + m[5] * y + m[9] * z + m[13]) / w;
+
+  return [(ndcX + 1) * 0.5 * width, (1 - ndcY) * 0.5 * height];
+}
@@ -1,8 +1,20 @@
 /**
  * SelectionController - Viewport Selection and Ray Picking
  *
- * Handles viewport click-to-select functionality using ray casting.
- * Supports single selection, Ctrl+click toggle, and F key framing.
+ * Handles viewport click-to-select functionality.
+ * Supports single selection, Ctrl+click toggle, box/lasso marquee
+ * selection (see MarqueeSelection), and F key framing.
+ *
+ * Meshes are picked by what is on screen: with a WebGL context, an ID
+ * buffer pass (PickingPass) reads back the mesh under the cursor; without
+ * one, or if the pass fails, the click ray is tested against each mesh's
+ * triangles. Objects without geometry (lights, empty groups) are picked
+ * by a box around their position.
+ *
+ * Dragging with the left button in the viewport draws a marquee with the
+ * current tool ('box' or 'lasso', set via 'selection:setMarqueeTool').
+ * The shape is broadcast on 'selection:marqueeChanged' so the viewport can
+ * draw it, and applied to the selection when the button is released.
  *
  * @example
  * ```typescript
@@ -12,6 +24,7 @@
  *   sceneGraph,
  *   getCamera: () => renderCamera,
  *   orbitController,
+ *   gl,
  * });
  * ```
  */
@@ -20,13 +33,27 @@ import type { EventBus } from '@core/EventBus';
 import type { SelectionManager } from '@core/SelectionManager';
 import type { SceneGraph } from '@core/SceneGraph';
 import type { OrbitController } from '@plugins/navigation';
-import type { ICamera } from '@core/interfaces';
+import type { ICamera, ISceneObject } from '@core/interfaces';
+import { getObjectWorldMatrix, isMeshProvider } from '@core/interfaces';
+import { PickingPass } from '@plugins/renderers/picking';
+import type { PickDrawItem } from '@plugins/renderers/picking';
 import {
   unprojectScreenToRay,
   rayAABBIntersection,
+  rayMeshIntersection,
   createAABBFromTransform,
   mat4InverseNullable,
+  mat4Multiply,
 } from '@utils/math';
+import type { Ray } from '@utils/math';
+import {
+  getMarqueeMode,
+  getMarqueePolygon,
+  isMeshInPolygon,
+  isPointInPolygon,
+  projectToScreen,
+} from './MarqueeSelection';
+import type { MarqueeShape, MarqueeTool, ScreenPoint } from './MarqueeSelection';
 
 /**
  * Configuration for SelectionController.
@@ -42,6 +69,8 @@ export interface SelectionControllerOptions {
   getCamera: () => ICamera;
   /** Orbit controller for framing */
   orbitController: OrbitController;
+  /** WebGL context for ID-buffer picking (ray casting is used without one) */
+  gl?: WebGL2RenderingContext;
 }
 
 /**
@@ -52,6 +81,27 @@ interface HitResult {
   distance: number;
 }
 
+/**
+ * Distance the mouse must move with the button down before a click
+ * becomes a marquee drag, in pixels.
+ */
+const MARQUEE_DRAG_THRESHOLD = 4;
+
+/**
+ * Minimum spacing between recorded lasso points, in pixels.
+ */
+const LASSO_POINT_SPACING = 3;
+
+/**
+ * Mouse event data from InputManager.
+ */
+interface ViewportMouseEvent {
+  button: number;
+  x: number;
+  y: number;
+  modifiers: { alt: boolean; ctrl: boolean; shift?: boolean };
+}
+
 /**
  * Handles viewport selection via ray picking.
  */
@@ -61,6 +111,7 @@ export class SelectionController {
   private readonly sceneGraph: SceneGraph;
   private readonly getCamera: () => ICamera;
   private readonly orbitController: OrbitController;
+  private pickingPass: PickingPass | null = null;
 
   // Viewport dimensions for ray casting
   private viewportWidth = 1;
@@ -69,6 +120,11 @@ export class SelectionController {
   // Track if gizmo is currently being dragged (to prevent selection on release)
   private gizmoIsDragging = false;
 
+  // Marquee selection state
+  private marqueeTool: MarqueeTool = 'box';
+  private marqueeStart: ScreenPoint | null = null;
+  private marqueeShape: MarqueeShape | null = null;
+
   constructor(options: SelectionControllerOptions) {
     this.eventBus = options.eventBus;
     this.selectionManager = options.selectionManager;
@@ -76,6 +132,14 @@ export class SelectionController {
     this.getCamera = options.getCamera;
     this.orbitController = options.orbitController;
 
+    if (options.gl) {
+      try {
+        this.pickingPass = new PickingPass(options.gl);
+      } catch (error) {
+        console.warn('GPU picking unavailable, using ray casting:', error);
+      }
+    }
+
     this.setupEventListeners();
   }
 
@@ -84,27 +148,38 @@ export class SelectionController {
    */
   dispose(): void {
     this.eventBus.off('viewport:resized', this.handleViewportResized);
+    this.eventBus.off('input:mouseDown', this.handleMouseDown);
+    this.eventBus.off('input:mouseMove', this.handleMouseMove);
     this.eventBus.off('input:mouseUp', this.handleMouseUp);
     this.eventBus.off('input:keyDown', this.handleKeyDown);
     this.eventBus.off('selection:changed', this.handleSelectionChanged);
     this.eventBus.off('gizmo:dragStart', this.handleGizmoDragStart);
     this.eventBus.off('gizmo:dragEnd', this.handleGizmoDragEnd);
+    this.eventBus.off('selection:setMarqueeTool', this.handleSetMarqueeTool);
+    this.pickingPass?.dispose();
+    this.pickingPass = null;
   }
 
   private setupEventListeners(): void {
     // Bind methods to preserve context
     this.handleViewportResized = this.handleViewportResized.bind(this);
+    this.handleMouseDown = this.handleMouseDown.bind(this);
+    this.handleMouseMove = this.handleMouseMove.bind(this);
     this.handleMouseUp = this.handleMouseUp.bind(this);
     this.handleKeyDown = this.handleKeyDown.bind(this);
     this.handleSelectionChanged = this.handleSelectionChanged.bind(this);
     this.handleGizmoDragStart = this.handleGizmoDragStart.bind(this);
     this.handleGizmoDragEnd = this.handleGizmoDragEnd.bind(this);
+    this.handleSetMarqueeTool = this.handleSetMarqueeTool.bind(this);
 
     // Track viewport dimensions
     this.eventBus.on('viewport:resized', this.handleViewportResized);
 
-    // Handle viewport clicks for selection
+    // Handle viewport clicks and marquee drags for selection
+    this.eventBus.on('input:mouseDown', this.handleMouseDown);
+    this.eventBus.on('input:mouseMove', this.handleMouseMove);
     this.eventBus.on('input:mouseUp', this.handleMouseUp);
+    this.eventBus.on('selection:setMarqueeTool', this.handleSetMarqueeTool);
 
     // Handle F key for framing
     this.eventBus.on('input:keyDown', this.handleKeyDown);
@@ -116,7 +191,7 @@ export class SelectionController {
     this.eventBus.on('gizmo:dragStart', this.handleGizmoDragStart);
     this.eventBus.on('gizmo:dragEnd', this.handleGizmoDragEnd);
 
-    console.log('Selection controller initialized (Click=select, Ctrl+Click=toggle, F=focus)');
+    console.log('Selection controller initialized (Click=select, Ctrl+Click=toggle, Drag=marquee, F=focus)');
   }
 
   private handleViewportResized(data: { width: number; height: number }): void {
@@ -130,6 +205,7 @@ export class SelectionController {
    */
   private handleGizmoDragStart(): void {
     this.gizmoIsDragging = true;
+    this.cancelMarquee();
   }
 
   /**
@@ -143,12 +219,77 @@ export class SelectionController {
     }, 100);
   }
 
-  private handleMouseUp(data: {
-    button: number;
-    x: number;
-    y: number;
-    modifiers: { alt: boolean; ctrl: boolean };
-  }): void {
+  /**
+   * Get the current marquee tool.
+   */
+  getMarqueeTool(): MarqueeTool {
+    return this.marqueeTool;
+  }
+
+  /**
+   * Set the shape drawn by marquee drags.
+   */
+  setMarqueeTool(tool: MarqueeTool): void {
+    if (this.marqueeTool === tool) return;
+    this.marqueeTool = tool;
+    this.eventBus.emit('selection:marqueeToolChanged', { tool });
+  }
+
+  private handleSetMarqueeTool(data: { tool: MarqueeTool }): void {
+    this.setMarqueeTool(data.tool);
+  }
+
+  /**
+   * Remember where a left-button press started; it becomes a marquee once
+   * the mouse moves far enough.
+   */
+  private handleMouseDown(data: ViewportMouseEvent): void {
+    if (data.button !== 0 || data.modifiers.alt || this.gizmoIsDragging) return;
+
+    this.marqueeStart = [data.x, data.y];
+    this.marqueeShape = null;
+  }
+
+  /**
+   * Grow the marquee while the button is held.
+   */
+  private handleMouseMove(data: { x: number; y: number }): void {
+    if (!this.marqueeStart || this.gizmoIsDragging) return;
+
+    const point: ScreenPoint = [data.x, data.y];
+    if (!this.marqueeShape) {
+      const distance = Math.hypot(point[0] - this.marqueeStart[0], point[1] - this.marqueeStart[1]);
+      if (distance < MARQUEE_DRAG_THRESHOLD) return;
+      this.marqueeShape = { tool: this.marqueeTool, points: [this.marqueeStart] };
+    }
+
+    const shape = this.marqueeShape;
+    if (shape.tool === 'box') {
+      shape.points = [this.marqueeStart, point];
+    } else {
+      const last = shape.points[shape.points.length - 1];
+      if (Math.hypot(point[0] - last[0], point[1] - last[1]) < LASSO_POINT_SPACING) return;
+      shape.points.push(point);
+    }
+
+    this.eventBus.emit('selection:marqueeChanged', { shape });
+  }
+
+  /**
+   * Stop a pending or active marquee without changing the selection.
+   */
+  private cancelMarquee(): void {
+    this.marqueeStart = null;
+    if (this.marqueeShape) {
+      this.marqueeShape = null;
+      this.eventBus.emit('selection:marqueeChanged', { shape: null });
+    }
+  }
+
+  private handleMouseUp(data: ViewportMouseEvent): void {
+    const marquee = this.marqueeShape;
+    this.cancelMarquee();
+
     // Skip selection if gizmo is being dragged or just finished dragging
     if (this.gizmoIsDragging) {
       return;
@@ -157,6 +298,11 @@ export class SelectionController {
     // Only handle left click without Alt (Alt is for navigation)
     if (data.button !== 0 || data.modifiers.alt) return;
 
+    if (marquee) {
+      this.applyMarquee(marquee, data.modifiers);
+      return;
+    }
+
     const camera = this.getCamera();
     const viewProjection = camera.getViewProjectionMatrix();
     const invViewProjection = mat4InverseNullable(viewProjection);
@@ -176,7 +322,7 @@ export class SelectionController {
     );
 
     // Find closest intersection with scene objects
-    const hit = this.findClosestHit(ray);
+    const hit = this.findClosestHit(ray, camera, data.x, data.y);
 
     // Update selection
     if (hit) {
@@ -248,31 +394,174 @@ export class SelectionController {
   }
 
   /**
-   * Find the closest object hit by a ray.
+   * Find the closest object under the cursor: the picked mesh, or a
+   * geometry-less object whose box the ray hits first.
    */
-  private findClosestHit(ray: { origin: [number, number, number]; direction: [number, number, number] }): HitResult | null {
-    let closestHit: HitResult | null = null;
+  private findClosestHit(ray: Ray, camera: ICamera, x: number, y: number): HitResult | null {
+    const meshes: PickDrawItem[] = [];
+    const helpers: ISceneObject[] = [];
 
     this.sceneGraph.traverse((obj) => {
       // Skip root and camera
       if (obj.id === 'root') return;
       if (this.hasComponent(obj, 'camera')) return;
 
+      const meshData = isMeshProvider(obj) ? obj.getMeshData() : null;
+      if (meshData) {
+        meshes.push({
+          id: obj.id,
+          meshData,
+          modelMatrix: this.getModelMatrix(obj),
+          jointMatrices: isMeshProvider(obj) ? obj.getJointMatrices?.() ?? null : null,
+        });
+      } else {
+        helpers.push(obj);
+      }
+    });
+
+    let closestHit = this.pickMesh(ray, camera, x, y, meshes);
+
+    for (const obj of helpers) {
       // Create AABB from object's transform
       const transform = obj.transform;
       const aabb = createAABBFromTransform(transform.position, transform.scale);
 
-      // Test intersection
       const hit = rayAABBIntersection(ray, aabb);
-
       if (hit.hit && (!closestHit || hit.distance < closestHit.distance)) {
         closestHit = { object: { id: obj.id, name: obj.name }, distance: hit.distance };
       }
-    });
+    }
+
+    return closestHit;
+  }
+
+  /**
+   * Find the mesh under the cursor, with the ID buffer when available and
+   * by ray-triangle tests otherwise.
+   */
+  private pickMesh(
+    ray: Ray,
+    camera: ICamera,
+    x: number,
+    y: number,
+    meshes: PickDrawItem[]
+  ): HitResult | null {
+    if (this.pickingPass) {
+      try {
+        const id = this.pickingPass.pick(camera, meshes, x, y, this.viewportWidth, this.viewportHeight);
+        const item = id ? meshes.find((mesh) => mesh.id === id) : undefined;
+        const obj = item ? this.sceneGraph.find(item.id) : null;
+        if (!item || !obj) return null;
+
+        // A visible mesh the bind-pose ray test misses (e.g., a posed skin) counts as nearest
+        const hit = rayMeshIntersection(ray, item.meshData, item.modelMatrix);
+        return { object: { id: obj.id, name: obj.name }, distance: hit.hit ? hit.distance : 0 };
+      } catch (error) {
+        console.warn('GPU picking failed, falling back to ray casting:', error);
+        this.pickingPass.dispose();
+        this.pickingPass = null;
+      }
+    }
+
+    let closestHit: HitResult | null = null;
+    for (const mesh of meshes) {
+      // Back faces are culled on screen, so they can't be clicked either
+      const hit = rayMeshIntersection(ray, mesh.meshData, mesh.modelMatrix, true);
+      if (!hit.hit || (closestHit && hit.distance >= closestHit.distance)) continue;
+
+      const obj = this.sceneGraph.find(mesh.id);
+      if (obj) {
+        closestHit = { object: { id: obj.id, name: obj.name }, distance: hit.distance };
+      }
+    }
 
     return closestHit;
   }
 
+  /**
+   * Combine the objects inside a marquee with the current selection.
+   */
+  private applyMarquee(shape: MarqueeShape, modifiers: { ctrl: boolean; shift?: boolean }): void {
+    const inside = this.findObjectsInMarquee(shape);
+    const insideSet = new Set(inside);
+    const mode = getMarqueeMode(modifiers);
+
+    switch (mode) {
+      case 'replace':
+        for (const obj of this.selectionManager.getSelected()) {
+          if (!insideSet.has(obj)) this.selectionManager.removeFromSelection(obj);
+        }
+        inside.forEach((obj) => this.selectionManager.addToSelection(obj));
+        break;
+      case 'add':
+        inside.forEach((obj) => this.selectionManager.addToSelection(obj));
+        break;
+      case 'subtract':
+        inside.forEach((obj) => this.selectionManager.removeFromSelection(obj));
+        break;
+      case 'intersect':
+        for (const obj of this.selectionManager.getSelected()) {
+          if (!insideSet.has(obj)) this.selectionManager.removeFromSelection(obj);
+        }
+        break;
+    }
+
+    console.log(`Marquee (${mode}): ${inside.length} object(s) inside`);
+  }
+
+  /**
+   * Find every object drawn inside a marquee.
+   */
+  private findObjectsInMarquee(shape: MarqueeShape): ISceneObject[] {
+    const polygon = getMarqueePolygon(shape);
+    if (polygon.length < 3) return [];
+
+    const viewProjection = this.getCamera().getViewProjectionMatrix();
+    const width = this.viewportWidth;
+    const height = this.viewportHeight;
+    const inside: ISceneObject[] = [];
+
+    this.sceneGraph.traverse((obj) => {
+      // Skip root and camera
+      if (obj.id === 'root') return;
+      if (this.hasComponent(obj, 'camera')) return;
+
+      const modelMatrix = this.getModelMatrix(obj);
+      const meshData = isMeshProvider(obj) ? obj.getMeshData() : null;
+
+      if (meshData) {
+        const mvp = mat4Multiply(viewProjection, modelMatrix);
+        if (isMeshInPolygon(polygon, meshData, mvp, width, height)) {
+          inside.push(obj);
+        }
+        return;
+      }
+
+      const origin = projectToScreen(
+        [modelMatrix[12], modelMatrix[13], modelMatrix[14]],
+        viewProjection,
+        width,
+        height
+      );
+      if (origin && isPointInPolygon(origin, polygon)) {
+        inside.push(obj);
+      }
+    });
+
+    return inside;
+  }
+
+  /**
+   * Get an object's world transform, as the renderers compute it.
+   */
+  private getModelMatrix(obj: ISceneObject): Float32Array {
+    const entityWithModelMatrix = obj as { getModelMatrix?: () => Float32Array };
+    if (typeof entityWithModelMatrix.getModelMatrix === 'function') {
+      return entityWithModelMatrix.getModelMatrix();
+    }
+    return getObjectWorldMatrix(obj);
+  }
+
   /**
    * Check if an object has a specific component.
    * Helper method until IEntity interface is properly defined.
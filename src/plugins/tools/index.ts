@@ -6,3 +6,11 @@
 
 export { SelectionController } from './SelectionController';
 export type { SelectionControllerOptions } from './SelectionController';
+export {
+  getMarqueeMode,
+  getMarqueePolygon,
+  isPointInPolygon,
+  isMeshInPolygon,
+  projectToScreen,
+} from './MarqueeSelection';
+export type { MarqueeTool, MarqueeMode, MarqueeShape, ScreenPoint } from './MarqueeSelection';
@@ -0,0 +1,298 @@
+/**
+ * CameraPreviewRenderer
+ *
+ * Renders the scene from a scene camera into an inset in the bottom-right
+ * corner of the viewport, so the selected camera's framing can be checked
+ * without leaving the editor view.
+ *
+ * The scene is rendered through the active pipeline into an offscreen
+ * target at the inset size (with the viewport's aspect ratio, so the inset
+ * shows exactly what looking through the camera would), then drawn onto
+ * the default framebuffer as a textured quad. The default framebuffer is
+ * multisampled, so it cannot be a blit destination.
+ *
+ * @example
+ * ```typescript
+ * const preview = new CameraPreviewRenderer(gl);
+ * preview.initialize();
+ *
+ * // In render loop after the main frame:
+ * const rect = preview.render(pipeline, sceneGraph, cameraEntity, width, height);
+ * ```
+ */
+
+import type { CameraEntity } from '@core/CameraEntity';
+import type { RenderCameraAdapter } from '@core/RenderCameraAdapter';
+import type { IRenderPipeline, IScene } from '@core/interfaces';
+import { OffscreenRenderTarget } from '@plugins/renderers/output/OffscreenRenderTarget';
+
+/**
+ * Vertex shader for the inset quad.
+ * Generates a fullscreen triangle from gl_VertexID; the viewport limits it
+ * to the inset rectangle.
+ */
+const VERTEX_SHADER = `#version 300 es
+precision highp float;
+
+out vec2 vUV;
+
+void main() {
+  vec2 position = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  vUV = position;
+  gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+/**
+ * Fragment shader for the inset quad.
+ * The offscreen image is already tone mapped and gamma encoded.
+ */
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 vUV;
+
+uniform sampler2D uImage;
+
+out vec4 outColor;
+
+void main() {
+  outColor = vec4(texture(uImage, vUV).rgb, 1.0);
+}
+`;
+
+/** Inset width as a fraction of the viewport width */
+const PREVIEW_SCALE = 0.25;
+
+/** Gap between the inset and the viewport edges, in pixels */
+const PREVIEW_MARGIN = 12;
+
+/** Smallest inset worth rendering, in pixels */
+const MIN_PREVIEW_SIZE = 16;
+
+/**
+ * Inset rectangle in canvas pixels, origin bottom-left (GL convention).
+ */
+export interface CameraPreviewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compute where the camera preview inset goes for a viewport size.
+ *
+ * @returns The inset rectangle, or null if the viewport is too small for one
+ */
+export function getCameraPreviewRect(viewportWidth: number, viewportHeight: number): CameraPreviewRect | null {
+  if (viewportWidth <= 0 || viewportHeight <= 0) return null;
+
+  const width = Math.round(viewportWidth * PREVIEW_SCALE);
+  const height = Math.round(width * (viewportHeight / viewportWidth));
+  if (width < MIN_PREVIEW_SIZE || height < MIN_PREVIEW_SIZE) return null;
+
+  return {
+    x: viewportWidth - width - PREVIEW_MARGIN,
+    y: PREVIEW_MARGIN,
+    width,
+    height,
+  };
+}
+
+/**
+ * Renders a scene camera's view into a viewport inset.
+ */
+export class CameraPreviewRenderer {
+  private readonly gl: WebGL2RenderingContext;
+
+  private program: WebGLProgram | null = null;
+  private vao: WebGLVertexArrayObject | null = null;
+  private uImage: WebGLUniformLocation | null = null;
+
+  private target: OffscreenRenderTarget | null = null;
+  private camera: CameraEntity | null = null;
+  private renderCamera: RenderCameraAdapter | null = null;
+
+  private initialized = false;
+
+  /**
+   * Create a new CameraPreviewRenderer.
+   *
+   * @param gl - WebGL2 rendering context
+   */
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  /**
+   * Initialize the inset shader.
+   */
+  initialize(): void {
+    if (this.initialized) return;
+
+    const gl = this.gl;
+
+    this.program = this.createProgram(VERTEX_SHADER, FRAGMENT_SHADER);
+    this.uImage = gl.getUniformLocation(this.program, 'uImage');
+
+    // Attribute-less draw still needs a bound VAO
+    this.vao = gl.createVertexArray();
+
+    this.initialized = true;
+  }
+
+  /**
+   * Render the scene from a camera and draw it into the viewport inset.
+   * Call after the main frame; leaves the default framebuffer bound with
+   * the full viewport.
+   *
+   * @param pipeline - Pipeline to render the scene with
+   * @param scene - Scene to render
+   * @param camera - Scene camera to preview
+   * @param viewportWidth - Width of the viewport in pixels
+   * @param viewportHeight - Height of the viewport in pixels
+   * @returns The inset rectangle drawn, or null if nothing was drawn
+   */
+  render(
+    pipeline: IRenderPipeline,
+    scene: IScene,
+    camera: CameraEntity,
+    viewportWidth: number,
+    viewportHeight: number
+  ): CameraPreviewRect | null {
+    if (!this.initialized || !this.program) return null;
+
+    const rect = getCameraPreviewRect(viewportWidth, viewportHeight);
+    if (!rect) return null;
+
+    const gl = this.gl;
+    const target = this.getTarget(rect.width, rect.height);
+
+    if (this.camera !== camera || !this.renderCamera) {
+      this.camera = camera;
+      this.renderCamera = camera.asRenderCamera(rect.width / rect.height);
+    } else {
+      this.renderCamera.setAspect(rect.width / rect.height);
+    }
+
+    pipeline.setRenderTarget(target);
+    try {
+      pipeline.beginFrame(this.renderCamera);
+      pipeline.render(scene);
+      pipeline.endFrame();
+    } finally {
+      pipeline.setRenderTarget(null);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    }
+
+    // Save current state
+    const depthTestEnabled = gl.isEnabled(gl.DEPTH_TEST);
+    const blendEnabled = gl.isEnabled(gl.BLEND);
+
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.BLEND);
+
+    gl.viewport(rect.x, rect.y, rect.width, rect.height);
+    gl.useProgram(this.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.uniform1i(this.uImage, 0);
+
+    gl.bindVertexArray(this.vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindVertexArray(null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    // Restore state
+    gl.viewport(0, 0, viewportWidth, viewportHeight);
+    if (depthTestEnabled) gl.enable(gl.DEPTH_TEST);
+    if (blendEnabled) gl.enable(gl.BLEND);
+
+    return rect;
+  }
+
+  /**
+   * Dispose of GPU resources.
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    this.target?.dispose();
+    if (this.vao) gl.deleteVertexArray(this.vao);
+    if (this.program) gl.deleteProgram(this.program);
+
+    this.target = null;
+    this.vao = null;
+    this.program = null;
+    this.camera = null;
+    this.renderCamera = null;
+    this.initialized = false;
+  }
+
+  /**
+   * Get the offscreen target, recreating it when the inset size changes.
+   */
+  private getTarget(width: number, height: number): OffscreenRenderTarget {
+    if (this.target && this.target.width === width && this.target.height === height) {
+      return this.target;
+    }
+
+    this.target?.dispose();
+    this.target = new OffscreenRenderTarget(this.gl, width, height);
+    return this.target;
+  }
+
+  /**
+   * Create and link a shader program.
+   */
+  private createProgram(vertSrc: string, fragSrc: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertShader = this.compileShader(vertSrc, gl.VERTEX_SHADER);
+    const fragShader = this.compileShader(fragSrc, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) {
+      throw new Error('Failed to create WebGL program');
+    }
+
+    gl.attachShader(program, vertShader);
+    gl.attachShader(program, fragShader);
+    gl.linkProgram(program);
+
+    gl.deleteShader(vertShader);
+    gl.deleteShader(fragShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+
+    return program;
+  }
+
+  /**
+   * Compile a shader.
+   */
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Failed to create shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${log}`);
+    }
+
+    return shader;
+  }
+}
@@ -11,6 +11,7 @@
  * - Distance-based fade
  * - Anti-aliased lines
  * - Configurable via SettingsService
+ * - Hidden per scene through the scene environment's showGrid setting
  *
  * Coordinate System: Z-up right-handed (Blender convention)
  * - Grid lies on XY plane at Z=0
@@ -30,6 +31,7 @@
 
 import type { EventBus } from '@core/EventBus';
 import type { SettingsService, GridSettings } from '@core/SettingsService';
+import type { SceneEnvironment } from '@core/SceneEnvironment';
 import type { ICamera } from '@core/interfaces';
 import type { IPlugin, IPluginContext } from '@core/interfaces/IPlugin';
 
@@ -112,6 +114,7 @@ export class GridRenderer implements IPlugin {
   private gl!: WebGL2RenderingContext;
   private eventBus!: EventBus;
   private settingsService!: SettingsService;
+  private sceneEnvironment: SceneEnvironment | null = null;
 
   // WebGL resources
   private program: WebGLProgram | null = null;
@@ -141,6 +144,7 @@ export class GridRenderer implements IPlugin {
     this.gl = context.gl;
     this.eventBus = context.eventBus;
     this.settingsService = context.settingsService;
+    this.sceneEnvironment = context.sceneEnvironment ?? null;
 
     // Compile shader program
     this.program = this.createProgram(GRID_VERTEX_SHADER, GRID_FRAGMENT_SHADER);
@@ -194,13 +198,13 @@ export class GridRenderer implements IPlugin {
       return;
     }
 
-    const settings = this.settingsService.get('grid');
-
     // Skip if grid is hidden
-    if (!settings.visible) {
+    if (!this.isVisible()) {
       return;
     }
 
+    const settings = this.settingsService.get('grid');
+
     const gl = this.gl;
 
     // Enable blending for transparency
@@ -253,10 +257,11 @@ export class GridRenderer implements IPlugin {
   }
 
   /**
-   * Check if the grid is currently visible.
+   * Check if the grid is currently visible: enabled in the editor settings
+   * and not hidden by the open scene.
    */
   isVisible(): boolean {
-    return this.settingsService.get('grid', 'visible');
+    return this.settingsService.get('grid', 'visible') && (this.sceneEnvironment?.get('showGrid') ?? true);
   }
 
   /**
@@ -5,3 +5,5 @@
  */
 
 export { GridRenderer } from './GridRenderer';
+export { CameraPreviewRenderer, getCameraPreviewRect } from './CameraPreviewRenderer';
+export type { CameraPreviewRect } from './CameraPreviewRenderer';
@@ -12,6 +12,9 @@
  * - Single click focuses the input for text editing
  * - Cursor changes to ew-resize only when dragging starts
  *
+ * Mixed state (multi-selection editing):
+ * - Shows a placeholder dash instead of a value until a value is entered
+ *
  * @example
  * ```ts
  * const input = new DraggableNumberInput({
@@ -39,8 +42,15 @@ export interface DraggableNumberInputOptions {
   onChange?: (value: number) => void;
   /** Additional CSS class */
   className?: string;
+  /** Show the mixed-values placeholder instead of the value (default: false) */
+  mixed?: boolean;
 }
 
+/**
+ * Placeholder shown while the input is in the mixed state.
+ */
+const MIXED_PLACEHOLDER = '\u2014';
+
 /**
  * Number input with drag-to-adjust functionality.
  * Supports multiple drag modes for better cross-browser compatibility.
@@ -54,6 +64,7 @@ export class DraggableNumberInput {
   private readonly min: number;
   private readonly max: number;
   private readonly onChange?: (value: number) => void;
+  private mixed: boolean;
 
   private isDragging = false;
   private startX = 0;
@@ -75,6 +86,7 @@ export class DraggableNumberInput {
     this.min = options.min ?? -Infinity;
     this.max = options.max ?? Infinity;
     this.onChange = options.onChange;
+    this.mixed = options.mixed ?? false;
 
     // Bind all handlers
     this.boundHandleInputMouseDown = this.handleInputMouseDown.bind(this);
@@ -95,6 +107,7 @@ export class DraggableNumberInput {
     this.input.className = `input draggable-input ${options.className ?? ''}`.trim();
     this.input.value = this.formatValue(this.value);
     this.input.style.cssText = 'width: 100%; position: relative;';
+    this.setMixed(this.mixed);
 
     // Assemble
     this.container.appendChild(this.input);
@@ -123,11 +136,32 @@ export class DraggableNumberInput {
     return this.value;
   }
 
+  /**
+   * Check if the input shows the mixed-values placeholder.
+   */
+  isMixed(): boolean {
+    return this.mixed;
+  }
+
+  /**
+   * Show or hide the mixed-values placeholder.
+   * Setting a value clears the mixed state.
+   */
+  setMixed(mixed: boolean): void {
+    this.mixed = mixed;
+    this.input.classList.toggle('mixed', mixed);
+    this.input.placeholder = mixed ? MIXED_PLACEHOLDER : '';
+    this.input.value = mixed ? '' : this.formatValue(this.value);
+  }
+
   /**
    * Set the value programmatically.
    */
   setValue(value: number, notify = true): void {
     this.value = this.clampValue(value);
+    if (this.mixed) {
+      this.setMixed(false);
+    }
     this.input.value = this.formatValue(this.value);
     if (notify && this.onChange) {
       this.onChange(this.value);
@@ -201,8 +235,11 @@ export class DraggableNumberInput {
     const clampedValue = this.clampValue(newValue);
 
     // Only update if value actually changed (avoids flickering)
-    if (clampedValue !== this.value) {
+    if (clampedValue !== this.value || this.mixed) {
       this.value = clampedValue;
+      if (this.mixed) {
+        this.setMixed(false);
+      }
       this.input.value = this.formatValue(this.value);
       if (this.onChange) {
         this.onChange(this.value);
@@ -234,7 +271,7 @@ export class DraggableNumberInput {
     // Ensure proper formatting on blur
     const parsed = parseFloat(this.input.value);
     if (isNaN(parsed)) {
-      this.input.value = this.formatValue(this.value);
+      this.input.value = this.mixed ? '' : this.formatValue(this.value);
     } else {
       this.setValue(parsed);
     }
@@ -0,0 +1,300 @@
+/**
+ * ProjectChooserDialog Component
+ *
+ * A modal dialog for storage backends that keep projects by name (browser
+ * storage, in-memory storage). Lists the stored projects and lets the user
+ * open, create or delete one.
+ *
+ * @example
+ * ```ts
+ * const projectName = await showProjectChooserDialog({
+ *   storageName: backend.displayName,
+ *   listProjects: () => projectService.listProjects(),
+ *   deleteProject: (name) => projectService.deleteProject(name),
+ *   lastProject: ProjectService.getLastProjectName() ?? undefined,
+ * });
+ * if (projectName) {
+ *   eventBus.emit('command:openProject', { projectName });
+ * }
+ * ```
+ */
+
+import { showConfirmDialog } from './ConfirmDialog';
+
+export interface ProjectChooserDialogOptions {
+  /** Name of the storage the projects live in, shown in the title */
+  storageName: string;
+  /** Load the names of the stored projects */
+  listProjects: () => Promise<string[]>;
+  /** Delete a stored project; resolves to true if it was deleted */
+  deleteProject: (projectName: string) => Promise<boolean>;
+  /** Project to highlight as the last one opened */
+  lastProject?: string;
+}
+
+/**
+ * Characters that cannot appear in a project (folder) name.
+ */
+const INVALID_PROJECT_NAME = /[\\/:*?"<>|]/;
+
+/**
+ * Check a new project name and describe what is wrong with it.
+ *
+ * @param name - Trimmed project name
+ * @param existing - Names of the stored projects
+ * @returns An error message, or null if the name can be used
+ */
+export function validateProjectName(name: string, existing: readonly string[]): string | null {
+  if (!name) {
+    return 'Enter a project name.';
+  }
+  if (name === '.' || name === '..' || INVALID_PROJECT_NAME.test(name)) {
+    return 'Project names cannot contain \\ / : * ? " < > |';
+  }
+  if (existing.includes(name)) {
+    return `A project named "${name}" already exists.`;
+  }
+  return null;
+}
+
+/**
+ * Show the project chooser and return a promise.
+ *
+ * @param options - Dialog options
+ * @returns Promise resolving to the project to open, or null if cancelled
+ */
+export function showProjectChooserDialog(options: ProjectChooserDialogOptions): Promise<string | null> {
+  return new Promise((resolve) => {
+    let resolved = false;
+    let projects: string[] = [];
+
+    const overlay = document.createElement('div');
+    overlay.className = 'confirm-overlay';
+    overlay.style.cssText = `
+      position: fixed;
+      top: 0; left: 0; width: 100%; height: 100%;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1001;
+    `;
+
+    const dialog = document.createElement('div');
+    dialog.className = 'confirm-dialog project-chooser';
+    dialog.style.cssText = `
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-primary);
+      border-radius: 8px;
+      padding: var(--spacing-lg);
+      max-width: 420px;
+      width: 90%;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+    `;
+
+    const buttonStyle = `
+      padding: var(--spacing-xs) var(--spacing-md);
+      border-radius: 4px;
+      font-size: var(--font-size-sm);
+      cursor: pointer;
+    `;
+    const secondaryButtonStyle = `${buttonStyle}
+      background: var(--bg-tertiary);
+      color: var(--text-secondary);
+      border: 1px solid var(--border-primary);
+    `;
+    const primaryButtonStyle = `${buttonStyle}
+      background: var(--accent-primary);
+      color: white;
+      border: none;
+      font-weight: 500;
+    `;
+
+    dialog.innerHTML = `
+      <h3 style="
+        color: var(--text-primary);
+        font-size: 18px;
+        font-weight: 600;
+        margin: 0 0 var(--spacing-md) 0;
+      ">Open Project</h3>
+      <p class="pcd-storage" style="
+        color: var(--text-secondary);
+        font-size: var(--font-size-base);
+        margin: 0 0 var(--spacing-md) 0;
+      "></p>
+      <ul class="pcd-list" style="
+        list-style: none;
+        margin: 0 0 var(--spacing-md) 0;
+        padding: 0;
+        max-height: 240px;
+        overflow-y: auto;
+        border: 1px solid var(--border-primary);
+        border-radius: 4px;
+      "></ul>
+      <form class="pcd-create" style="
+        display: flex;
+        gap: var(--spacing-sm);
+        margin: 0;
+      ">
+        <input class="pcd-name" type="text" placeholder="New project name" style="
+          flex: 1;
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background: var(--bg-primary);
+          color: var(--text-primary);
+          border: 1px solid var(--border-primary);
+          border-radius: 4px;
+          font-size: var(--font-size-sm);
+        " />
+        <button class="pcd-create-btn" type="submit" style="${primaryButtonStyle}">Create</button>
+      </form>
+      <p class="pcd-error" style="
+        color: #e74c3c;
+        font-size: var(--font-size-sm);
+        min-height: 1.5em;
+        margin: var(--spacing-xs) 0 var(--spacing-md) 0;
+      "></p>
+      <div style="
+        display: flex;
+        justify-content: flex-end;
+      ">
+        <button class="pcd-cancel" type="button" style="${secondaryButtonStyle}">Cancel</button>
+      </div>
+    `;
+
+    const list = dialog.querySelector('.pcd-list') as HTMLUListElement;
+    const form = dialog.querySelector('.pcd-create') as HTMLFormElement;
+    const nameInput = dialog.querySelector('.pcd-name') as HTMLInputElement;
+    const errorText = dialog.querySelector('.pcd-error') as HTMLParagraphElement;
+    (dialog.querySelector('.pcd-storage') as HTMLParagraphElement).textContent =
+      `Projects in ${options.storageName}:`;
+
+    const cleanup = () => {
+      document.removeEventListener('keydown', onKey);
+      overlay.remove();
+    };
+
+    const finish = (result: string | null) => {
+      if (resolved) return;
+      resolved = true;
+      cleanup();
+      resolve(result);
+    };
+
+    const renderList = () => {
+      list.replaceChildren();
+
+      if (projects.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'pcd-empty';
+        empty.textContent = 'No projects yet. Create one below.';
+        empty.style.cssText = `
+          padding: var(--spacing-sm);
+          color: var(--text-muted);
+          font-size: var(--font-size-sm);
+        `;
+        list.appendChild(empty);
+        return;
+      }
+
+      for (const projectName of projects) {
+        const item = document.createElement('li');
+        item.className = 'pcd-project';
+        item.dataset.project = projectName;
+        item.style.cssText = `
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+          padding: var(--spacing-xs) var(--spacing-sm);
+          border-bottom: 1px solid var(--border-primary);
+        `;
+
+        const label = document.createElement('span');
+        label.textContent = projectName === options.lastProject ? `${projectName} (last opened)` : projectName;
+        label.style.cssText = `
+          flex: 1;
+          color: var(--text-primary);
+          font-size: var(--font-size-sm);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        `;
+
+        const openBtn = document.createElement('button');
+        openBtn.type = 'button';
+        openBtn.className = 'pcd-open';
+        openBtn.textContent = 'Open';
+        openBtn.style.cssText = primaryButtonStyle;
+        openBtn.addEventListener('click', () => finish(projectName));
+
+        const deleteBtn = document.createElement('button');
+        deleteBtn.type = 'button';
+        deleteBtn.className = 'pcd-delete';
+        deleteBtn.textContent = 'Delete';
+        deleteBtn.style.cssText = secondaryButtonStyle;
+        deleteBtn.addEventListener('click', () => void deleteProject(projectName));
+
+        item.append(label, openBtn, deleteBtn);
+        list.appendChild(item);
+      }
+    };
+
+    const refresh = async () => {
+      projects = await options.listProjects();
+      if (!resolved) {
+        renderList();
+      }
+    };
+
+    const deleteProject = async (projectName: string) => {
+      // The confirm dialog renders its message as HTML
+      const escaped = document.createElement('span');
+      escaped.textContent = projectName;
+
+      const confirmed = await showConfirmDialog({
+        title: 'Delete Project',
+        message: `Delete "${escaped.innerHTML}" and everything in it? This cannot be undone.`,
+        confirmText: 'Delete',
+        destructive: true,
+      });
+      if (!confirmed || resolved) return;
+
+      if (!(await options.deleteProject(projectName))) {
+        errorText.textContent = `Failed to delete "${projectName}".`;
+      }
+      await refresh();
+    };
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const projectName = nameInput.value.trim();
+      const error = validateProjectName(projectName, projects);
+      if (error) {
+        errorText.textContent = error;
+        return;
+      }
+      finish(projectName);
+    });
+    nameInput.addEventListener('input', () => {
+      errorText.textContent = '';
+    });
+
+    dialog.querySelector('.pcd-cancel')!.addEventListener('click', () => finish(null));
+
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) finish(null);
+    });
+
+    const onKey = (e: KeyboardEvent) => {
+      // Leave Escape to a confirm dialog opened on top of this one
+      if (e.key === 'Escape' && document.body.lastElementChild === overlay) finish(null);
+    };
+    document.addEventListener('keydown', onKey);
+
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+
+    renderList();
+    void refresh();
+    nameInput.focus();
+  });
+}
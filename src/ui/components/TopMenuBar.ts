@@ -299,11 +299,13 @@ export const DEFAULT_MENUS: Menu[] = [
       { label: 'New', shortcut: 'Ctrl+N' },
       { label: 'Open', shortcut: 'Ctrl+O' },
       { label: 'Import', shortcut: 'Ctrl+I', separator: true },
-      { label: 'Export', disabled: true },
+      { label: 'Export' },
       { label: 'Export as HTML', separator: true },
       { label: 'Save', shortcut: 'Ctrl+S' },
       { label: 'Save As', shortcut: 'Ctrl+Shift+S', separator: true },
       { label: 'Open Project' },
+      { label: 'Import Project' },
+      { label: 'Export Project' },
       { label: 'Close Project', separator: true },
       { label: 'Settings', shortcut: 'Ctrl+,' }
     ]
@@ -315,9 +317,17 @@ export const DEFAULT_MENUS: Menu[] = [
   {
     name: 'Rendering',
     items: [
-      { label: 'Render', disabled: true },
+      {
+        label: 'Pipeline',
+        separator: true,
+        children: [
+          { label: 'Forward' },
+          { label: 'Deferred' }
+        ]
+      },
+      { label: 'Render' },
       { label: 'Settings', disabled: true },
-      { label: 'Output', disabled: true }
+      { label: 'Output' }
     ]
   },
   {
@@ -2,7 +2,8 @@
  * TreeView Component
  *
  * A hierarchical tree view for displaying scene objects.
- * Supports expand/collapse, selection, and icons.
+ * Supports expand/collapse, selection, icons, and drag-and-drop moving
+ * of nodes (drop onto a node to nest it, between nodes to reorder).
  *
  * @example
  * ```ts
@@ -36,6 +37,26 @@ export interface TreeNode {
    * real asset UUID.
    */
   dragId?: string;
+  /**
+   * Whether this node can be moved within the tree by dragging (default: false).
+   * Moves are reported through `onMove`. Non-movable nodes still accept drops
+   * onto themselves, but not before/after.
+   */
+  movable?: boolean;
+}
+
+/**
+ * Where a dragged node is dropped relative to the target node.
+ */
+export type TreeDropPosition = 'before' | 'after' | 'inside';
+
+export interface TreeMoveData {
+  /** The node being moved */
+  id: string;
+  /** The node it was dropped on */
+  targetId: string;
+  /** Drop position relative to the target */
+  position: TreeDropPosition;
 }
 
 export interface ContextMenuData {
@@ -58,6 +79,8 @@ export interface TreeViewOptions {
   onContextMenu?: (data: ContextMenuData) => void;
   /** Callback when a node drag starts */
   onDragStart?: (id: string, node: TreeNode, event: DragEvent) => void;
+  /** Callback when a movable node is dropped onto or between other nodes */
+  onMove?: (data: TreeMoveData) => void;
   /** Initially selected node ID */
   selectedId?: string;
   /** Initially expanded node IDs */
@@ -78,8 +101,12 @@ export class TreeView {
   private readonly onRename?: (id: string, newName: string) => void;
   private readonly onContextMenu?: (data: ContextMenuData) => void;
   private readonly onDragStart?: (id: string, node: TreeNode, event: DragEvent) => void;
+  private readonly onMove?: (data: TreeMoveData) => void;
   private nodeMap = new Map<string, TreeNode>();
+  private parentMap = new Map<string, string>();
   private editingId: string | null = null;
+  /** ID of the node being moved by an in-tree drag */
+  private movingId: string | null = null;
 
   constructor(options: TreeViewOptions = {}) {
     this.onSelect = options.onSelect;
@@ -87,6 +114,7 @@ export class TreeView {
     this.onRename = options.onRename;
     this.onContextMenu = options.onContextMenu;
     this.onDragStart = options.onDragStart;
+    this.onMove = options.onMove;
     this.selectedId = options.selectedId ?? null;
     this.expandedIds = options.expandedIds ?? new Set();
 
@@ -221,15 +249,20 @@ export class TreeView {
   dispose(): void {
     this.container.innerHTML = '';
     this.nodeMap.clear();
+    this.parentMap.clear();
   }
 
   private buildNodeMap(nodes: TreeNode[]): void {
     this.nodeMap.clear();
-    const traverse = (nodeList: TreeNode[]) => {
+    this.parentMap.clear();
+    const traverse = (nodeList: TreeNode[], parentId?: string) => {
       for (const node of nodeList) {
         this.nodeMap.set(node.id, node);
+        if (parentId !== undefined) {
+          this.parentMap.set(node.id, parentId);
+        }
         if (node.children) {
-          traverse(node.children);
+          traverse(node.children, node.id);
         }
       }
     };
@@ -303,6 +336,10 @@ export class TreeView {
       });
     }
 
+    if (this.onMove) {
+      this.setupMoveHandlers(node, item);
+    }
+
     // Double-click handler for renaming
     name.addEventListener('dblclick', (e) => {
       e.stopPropagation();
@@ -373,6 +410,90 @@ export class TreeView {
     }
   }
 
+  /**
+   * Wire in-tree drag-and-drop: movable nodes can be dragged, and every
+   * node is a drop target that shows where the dragged node will land.
+   */
+  private setupMoveHandlers(node: TreeNode, item: HTMLDivElement): void {
+    if (node.movable && !node.draggable) {
+      item.draggable = true;
+      item.addEventListener('dragstart', (e) => {
+        this.movingId = node.id;
+        item.classList.add('dragging');
+        if (e.dataTransfer) {
+          e.dataTransfer.setData('application/x-tree-node-id', node.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }
+      });
+      item.addEventListener('dragend', () => {
+        this.movingId = null;
+        item.classList.remove('dragging');
+        this.clearDropIndicators();
+      });
+    }
+
+    item.addEventListener('dragover', (e) => {
+      const position = this.getDropPosition(node, item, e);
+      if (!position) return;
+
+      e.preventDefault();
+      if (e.dataTransfer) {
+        e.dataTransfer.dropEffect = 'move';
+      }
+      this.clearDropIndicators();
+      item.classList.add(`drop-${position}`);
+    });
+
+    item.addEventListener('dragleave', () => {
+      item.classList.remove('drop-before', 'drop-after', 'drop-inside');
+    });
+
+    item.addEventListener('drop', (e) => {
+      const position = this.getDropPosition(node, item, e);
+      const movingId = this.movingId;
+      this.movingId = null;
+      this.clearDropIndicators();
+      if (!position || !movingId) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+
+      // Show the moved node in its new place
+      if (position === 'inside') {
+        this.expandedIds.add(node.id);
+      }
+
+      this.onMove?.({ id: movingId, targetId: node.id, position });
+    });
+  }
+
+  /**
+   * Work out where the node being moved would land on a target, or null
+   * if it can't be dropped there (onto itself or into its own subtree).
+   * The top and bottom quarters of a movable target mean before/after.
+   */
+  private getDropPosition(target: TreeNode, item: HTMLDivElement, e: DragEvent): TreeDropPosition | null {
+    if (!this.movingId) return null;
+
+    for (let id: string | undefined = target.id; id !== undefined; id = this.parentMap.get(id)) {
+      if (id === this.movingId) return null;
+    }
+
+    if (!target.movable) return 'inside';
+
+    const rect = item.getBoundingClientRect();
+    const ratio = rect.height > 0 ? (e.clientY - rect.top) / rect.height : 0.5;
+    if (ratio < 0.25) return 'before';
+    if (ratio > 0.75) return 'after';
+    return 'inside';
+  }
+
+  private clearDropIndicators(): void {
+    this.container.querySelectorAll('.drop-before, .drop-after, .drop-inside').forEach(el => {
+      el.classList.remove('drop-before', 'drop-after', 'drop-inside');
+    });
+  }
+
   /**
    * Start inline editing of a node's name.
    */
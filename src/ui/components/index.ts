@@ -27,3 +27,6 @@ export type { ContextMenuItem, ContextMenuOptions } from './ContextMenu';
 
 export { ConfirmDialog, showConfirmDialog, showUnsavedChangesDialog } from './ConfirmDialog';
 export type { ConfirmDialogOptions, UnsavedChangesResult } from './ConfirmDialog';
+
+export { showProjectChooserDialog, validateProjectName } from './ProjectChooserDialog';
+export type { ProjectChooserDialogOptions } from './ProjectChooserDialog';
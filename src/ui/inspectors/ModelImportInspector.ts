@@ -246,6 +246,11 @@ export class ModelImportInspector {
     materialsSection.setContent(this.createMaterialsSection());
     this.container.appendChild(materialsSection.element);
 
+    // Animations Section
+    const animationsSection = this.createTrackedSection('Animations', true);
+    animationsSection.setContent(this.createAnimationsSection());
+    this.container.appendChild(animationsSection.element);
+
     // Action Buttons
     this.container.appendChild(this.createActionButtons());
 
@@ -508,6 +513,87 @@ export class ModelImportInspector {
     return group;
   }
 
+  /**
+   * Create animations import settings section.
+   */
+  private createAnimationsSection(): HTMLElement {
+    const group = document.createElement('div');
+    group.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+    `;
+
+    // Import Animations
+    group.appendChild(this.createCheckboxField(
+      'import-animations',
+      'Import Animations',
+      this.pendingSettings!.animations.importAnimations,
+      (checked) => {
+        if (this.pendingSettings) {
+          this.pendingSettings.animations.importAnimations = checked;
+          this.updateActionButtons();
+        }
+      }
+    ));
+
+    // Name Prefix
+    const prefixGroup = document.createElement('div');
+    const prefixLabel = document.createElement('label');
+    prefixLabel.className = 'label';
+    prefixLabel.textContent = 'Name Prefix';
+    prefixGroup.appendChild(prefixLabel);
+
+    const prefixInput = document.createElement('input');
+    prefixInput.type = 'text';
+    prefixInput.className = 'input';
+    prefixInput.value = this.pendingSettings!.animations.animationNamePrefix;
+    prefixInput.placeholder = 'e.g., Hero_';
+    prefixInput.addEventListener('input', () => {
+      if (this.pendingSettings) {
+        this.pendingSettings.animations.animationNamePrefix = prefixInput.value;
+        this.updateActionButtons();
+      }
+    });
+    prefixGroup.appendChild(prefixInput);
+    group.appendChild(prefixGroup);
+
+    // Sample Rate
+    const rateGroup = document.createElement('div');
+    const rateLabel = document.createElement('label');
+    rateLabel.className = 'label';
+    rateLabel.textContent = 'Sample Rate (fps)';
+    rateGroup.appendChild(rateLabel);
+
+    const rateInput = new DraggableNumberInput({
+      value: this.pendingSettings!.animations.sampleRate,
+      step: 1,
+      min: 0,
+      max: 240,
+      precision: 0,
+      onChange: (value) => {
+        if (this.pendingSettings) {
+          this.pendingSettings.animations.sampleRate = value;
+          this.updateActionButtons();
+        }
+      },
+    });
+    rateGroup.appendChild(rateInput.element);
+
+    const rateHelp = document.createElement('div');
+    rateHelp.className = 'help-text';
+    rateHelp.style.cssText = `
+      font-size: var(--font-size-xs);
+      color: var(--text-muted);
+      margin-top: 2px;
+    `;
+    rateHelp.textContent = 'Use 0 to keep the source keyframes';
+    rateGroup.appendChild(rateHelp);
+    group.appendChild(rateGroup);
+
+    return group;
+  }
+
   /**
    * Create a checkbox field.
    */
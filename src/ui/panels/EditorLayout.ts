@@ -21,6 +21,7 @@
 
 import { EventBus } from '@core/EventBus';
 import { SceneGraph } from '@core/SceneGraph';
+import { CameraEntity } from '@core/CameraEntity';
 import type { SettingsService } from '@core/SettingsService';
 import type { AssetRegistry } from '@core/assets/AssetRegistry';
 import type { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
@@ -28,12 +29,18 @@ import type { ShaderAssetFactory } from '@core/assets/ShaderAssetFactory';
 import type { AssetMetaService } from '@core/assets/AssetMetaService';
 import type { ProjectService } from '@core/ProjectService';
 import type { ShaderEditorService } from '@core/ShaderEditorService';
+import type { AnimationPlayer } from '@core/AnimationPlayer';
+import type { SceneEnvironment } from '@core/SceneEnvironment';
 import { PrimitiveRegistry } from '@plugins/primitives';
+import { DirectionalLight, PointLight, SpotLight } from '@plugins/lights';
+import type { IEntity } from '@core/interfaces';
 import { TopMenuBar, DEFAULT_MENUS } from '../components/TopMenuBar';
+import { LIGHT_ITEMS, OTHER_ITEMS } from '../shared/CreateMenuDefinitions';
 import { ResizablePanel } from '../components/ResizablePanel';
 import { AboutDialog } from '../components/AboutDialog';
 import { HierarchyPanel } from './HierarchyPanel';
 import { ViewportPanel } from './ViewportPanel';
+import { TimelinePanel } from './TimelinePanel';
 import { PropertiesPanel, DEFAULT_SHADER_CODE } from './PropertiesPanel';
 import { AssetsPanel } from './AssetsPanel';
 
@@ -62,6 +69,10 @@ export interface EditorLayoutOptions {
   shaderEditorService?: ShaderEditorService;
   /** Asset meta service for reading .assetmeta files (optional) */
   assetMetaService?: AssetMetaService;
+  /** Animation player for the timeline below the viewport (optional) */
+  animationPlayer?: AnimationPlayer;
+  /** Scene environment edited in the Properties Panel (optional) */
+  sceneEnvironment?: SceneEnvironment;
 }
 
 /**
@@ -81,6 +92,8 @@ export class EditorLayout {
   private readonly projectService: ProjectService | null;
   private readonly shaderEditorService: ShaderEditorService | null;
   private readonly assetMetaService: AssetMetaService | null;
+  private readonly animationPlayer: AnimationPlayer | null;
+  private readonly sceneEnvironment: SceneEnvironment | null;
 
   private root: HTMLDivElement | null = null;
   private menuBar: TopMenuBar | null = null;
@@ -89,6 +102,7 @@ export class EditorLayout {
   private assetsResizablePanel: ResizablePanel | null = null;
   private hierarchyPanel: HierarchyPanel | null = null;
   private viewportPanel: ViewportPanel | null = null;
+  private timelinePanel: TimelinePanel | null = null;
   private propertiesPanel: PropertiesPanel | null = null;
   private assetsPanel: AssetsPanel | null = null;
   private aboutDialog: AboutDialog | null = null;
@@ -108,6 +122,8 @@ export class EditorLayout {
     this.projectService = options.projectService ?? null;
     this.shaderEditorService = options.shaderEditorService ?? null;
     this.assetMetaService = options.assetMetaService ?? null;
+    this.animationPlayer = options.animationPlayer ?? null;
+    this.sceneEnvironment = options.sceneEnvironment ?? null;
   }
 
   /**
@@ -149,13 +165,25 @@ export class EditorLayout {
     this.leftPanel.setContent(this.hierarchyPanel.element);
     main.appendChild(this.leftPanel.element);
 
-    // Create viewport (center)
+    // Create viewport (center) with the animation timeline below it
+    const center = document.createElement('div');
+    center.className = 'editor-center';
+
     this.viewportPanel = new ViewportPanel({
       eventBus: this.eventBus,
       gl: this.gl,
       settingsService: this.settingsService ?? undefined
     });
-    main.appendChild(this.viewportPanel.element);
+    center.appendChild(this.viewportPanel.element);
+
+    if (this.animationPlayer) {
+      this.timelinePanel = new TimelinePanel({
+        eventBus: this.eventBus,
+        animationPlayer: this.animationPlayer
+      });
+      center.appendChild(this.timelinePanel.element);
+    }
+    main.appendChild(center);
 
     // Create right panel (Properties)
     this.rightPanel = new ResizablePanel({
@@ -173,6 +201,7 @@ export class EditorLayout {
       shaderEditorService: this.shaderEditorService ?? undefined,
       shaderFactory: this.shaderFactory ?? undefined,
       projectService: this.projectService ?? undefined,
+      sceneEnvironment: this.sceneEnvironment ?? undefined,
     });
     this.propertiesPanel.setShaderCode(DEFAULT_SHADER_CODE);
 
@@ -213,9 +242,15 @@ export class EditorLayout {
     // Setup property change handler for name changes
     this.eventBus.on('object:propertyChanged', this.handlePropertyChanged.bind(this));
 
-    // Setup hierarchy context menu handler for Create primitives
+    // Setup hierarchy context menu handler for Create primitives, lights and cameras
     this.eventBus.on('hierarchy:createPrimitive', (data: { type: string }) => {
-      this.createPrimitive(data.type);
+      if (LIGHT_ITEMS.some(item => item.label === data.type)) {
+        this.createLight(data.type);
+      } else if (data.type === OTHER_ITEMS.camera.label) {
+        this.createCamera();
+      } else {
+        this.createPrimitive(data.type);
+      }
     });
 
     // Trigger initial viewport resize after layout is attached to DOM
@@ -254,6 +289,7 @@ export class EditorLayout {
     this.rightPanel?.dispose();
     this.hierarchyPanel?.dispose();
     this.viewportPanel?.dispose();
+    this.timelinePanel?.dispose();
     this.propertiesPanel?.dispose();
 
     if (this.root) {
@@ -272,6 +308,25 @@ export class EditorLayout {
       return;
     }
 
+    // Handle Create menu - Lights submenu
+    if (menuName === 'Create' && itemLabel.startsWith('Lights/')) {
+      this.createLight(itemLabel.replace('Lights/', ''));
+      return;
+    }
+
+    // Handle Create menu - Camera
+    if (menuName === 'Create' && itemLabel === OTHER_ITEMS.camera.label) {
+      this.createCamera();
+      return;
+    }
+
+    // Handle Rendering menu - Pipeline submenu
+    if (menuName === 'Rendering' && itemLabel.startsWith('Pipeline/')) {
+      const type = itemLabel.replace('Pipeline/', '').toLowerCase();
+      this.eventBus.emit('command:setRenderPipeline', { type });
+      return;
+    }
+
     // Handle common menu actions
     switch (itemLabel) {
       case 'New':
@@ -298,12 +353,21 @@ export class EditorLayout {
       case 'Open Project':
         this.eventBus.emit('command:openProject');
         break;
+      case 'Import Project':
+        this.eventBus.emit('command:importProject');
+        break;
+      case 'Export Project':
+        this.eventBus.emit('command:exportProject');
+        break;
       case 'Close Project':
         this.eventBus.emit('command:closeProject');
         break;
       case 'Render':
         this.eventBus.emit('command:render');
         break;
+      case 'Output':
+        this.eventBus.emit('command:renderOutput');
+        break;
       case 'Settings':
         this.eventBus.emit('command:settings');
         break;
@@ -350,6 +414,48 @@ export class EditorLayout {
     }
   }
 
+  /**
+   * Create a light from its Create menu label and add it to the scene.
+   */
+  private createLight(label: string): void {
+    let light: IEntity;
+    switch (label) {
+      case 'Directional Light':
+        light = new DirectionalLight();
+        break;
+      case 'Point Light':
+        light = new PointLight();
+        break;
+      case 'Spot Light':
+        light = new SpotLight();
+        break;
+      default:
+        console.warn(`Failed to create light: ${label}`);
+        return;
+    }
+
+    this.sceneGraph.add(light);
+
+    // Auto-select the newly created light
+    this.eventBus.emit('selection:changed', { id: light.id });
+
+    console.log(`Created ${label}: ${light.name}`);
+  }
+
+  /**
+   * Create a scene camera and add it to the scene.
+   */
+  private createCamera(): void {
+    const camera = new CameraEntity({ name: 'Camera' });
+
+    this.sceneGraph.add(camera);
+
+    // Auto-select the newly created camera
+    this.eventBus.emit('selection:changed', { id: camera.id });
+
+    console.log(`Created Camera: ${camera.name}`);
+  }
+
   /**
    * Handle property changes from the properties panel.
    * Routes name changes to SceneGraph.rename() for two-way binding with hierarchy.
@@ -2,6 +2,9 @@
  * HierarchyPanel
  *
  * Displays the scene graph as a tree view.
+ * Objects can be dragged onto another object to reparent them, or between
+ * objects to reorder siblings; moves go through 'entity:requestReparent'
+ * so they are undoable.
  * NOT a plugin - standard UI panel.
  *
  * @example
@@ -17,7 +20,7 @@
 import { EventBus } from '@core/EventBus';
 import { SceneGraph, SceneObject } from '@core/SceneGraph';
 import { isEntity } from '@core/interfaces';
-import { TreeView, TreeNode, ContextMenuData } from '../components/TreeView';
+import { TreeView, TreeNode, ContextMenuData, TreeMoveData } from '../components/TreeView';
 import { ContextMenu, ContextMenuItem } from '../components/ContextMenu';
 import { buildContextMenuCreateItems } from '../shared/CreateMenuDefinitions';
 
@@ -79,6 +82,7 @@ export class HierarchyPanel {
       onToggle: this.handleToggle.bind(this),
       onRename: this.handleRename.bind(this),
       onContextMenu: this.handleContextMenu.bind(this),
+      onMove: this.handleMove.bind(this),
       expandedIds: new Set(['root'])
     });
 
@@ -126,6 +130,7 @@ export class HierarchyPanel {
     this.eventBus.off('scene:objectAdded', this.handleSceneChange);
     this.eventBus.off('scene:objectRemoved', this.handleSceneChange);
     this.eventBus.off('scene:objectRenamed', this.handleSceneChange);
+    this.eventBus.off('scene:objectReparented', this.handleSceneChange);
     this.eventBus.off('selection:changed', this.handleExternalSelectionChange);
     this.treeView.dispose();
   }
@@ -138,6 +143,7 @@ export class HierarchyPanel {
     this.eventBus.on('scene:objectAdded', this.handleSceneChange);
     this.eventBus.on('scene:objectRemoved', this.handleSceneChange);
     this.eventBus.on('scene:objectRenamed', this.handleSceneChange);
+    this.eventBus.on('scene:objectReparented', this.handleSceneChange);
     this.eventBus.on('selection:changed', this.handleExternalSelectionChange);
     this.eventBus.on('scene:stateChanged', this.handleSceneStateChange);
   }
@@ -182,6 +188,36 @@ export class HierarchyPanel {
     }
   }
 
+  /**
+   * Handle a tree node dropped onto or between other nodes.
+   * Resolves the drop to a parent and sibling index and requests the move.
+   */
+  private handleMove(data: TreeMoveData): void {
+    const object = this.sceneGraph.find(data.id);
+    const target = this.sceneGraph.find(data.targetId);
+    if (!object || !target) return;
+
+    let parent = target;
+    let index: number | undefined;
+
+    if (data.position !== 'inside') {
+      parent = target.parent ?? this.sceneGraph.getRoot();
+      const siblings = parent.children.filter(child => child !== object);
+      index = siblings.indexOf(target) + (data.position === 'after' ? 1 : 0);
+
+      // Dropped right where it already is
+      if (object.parent === parent && parent.children.indexOf(object) === index) {
+        return;
+      }
+    }
+
+    this.eventBus.emit('entity:requestReparent', {
+      id: object.id,
+      parentId: parent.id,
+      index
+    });
+  }
+
   /**
    * Handle right-click context menu on a tree node.
    * Only shows context menu for mesh entities (not cameras).
@@ -252,8 +288,7 @@ export class HierarchyPanel {
     const node: TreeNode = {
       id: obj.id,
       name: displayName,
-      type: 'group',
-      selectable: false, // Root node is not selectable
+      type: 'group', // Selecting the root shows the scene environment settings
       children: obj.children.map(child => this.convertObjectToNode(child))
     };
     return node;
@@ -264,6 +299,7 @@ export class HierarchyPanel {
       id: obj.id,
       name: obj.name,
       type: this.getNodeType(obj),
+      movable: true,
       children: obj.children.map(child => this.convertObjectToNode(child))
     };
     return node;
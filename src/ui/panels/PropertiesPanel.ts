@@ -4,6 +4,9 @@
  * Displays properties of the selected object with tabbed interface.
  * Includes Details tab, Text Editor tab, and Asset Browser tab.
  * Supports Entity Component System for dynamic property display.
+ * Multi-selections show the shared transform fields, with mixed values
+ * left blank; edits apply to every selected object in one undo step.
+ * Selecting the scene root shows the scene's Environment settings.
  * NOT a plugin - standard UI panel.
  *
  * @example
@@ -21,8 +24,8 @@
 
 import { EventBus } from '@core/EventBus';
 import { SceneGraph } from '@core/SceneGraph';
-import type { ISceneObject, IMeshComponent, IMaterialComponent, ICameraComponent, CameraClearFlags, ILightComponent } from '@core/interfaces';
-import { isEntity } from '@core/interfaces';
+import type { ISceneObject, IComponent, IMeshComponent, IMaterialComponent, ICameraComponent, CameraClearFlags, CameraProjection, ILightComponent } from '@core/interfaces';
+import { isEntity, supportsShadows, SHADOW_RESOLUTIONS, DEFAULT_SHADOW_SETTINGS } from '@core/interfaces';
 import { CollapsibleSection } from '../components/CollapsibleSection';
 import { DraggableNumberInput } from '../components/DraggableNumberInput';
 import type { AssetRegistry } from '@core/assets/AssetRegistry';
@@ -30,6 +33,7 @@ import type { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
 import type { ShaderAssetFactory } from '@core/assets/ShaderAssetFactory';
 import type { IShaderAsset } from '@core/assets/interfaces/IShaderAsset';
 import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
 import { AssetBrowserTab } from '../tabs/AssetBrowserTab';
 import type { AssetSelectedEvent } from '../tabs/AssetBrowserTab';
 import { MonacoShaderEditor } from '../editors/MonacoShaderEditor';
@@ -39,6 +43,7 @@ import type { ProjectService } from '@core/ProjectService';
 import type { ShaderEditorService, ShaderCompilationEvent } from '@core/ShaderEditorService';
 import type { AssetMetaService } from '@core/assets/AssetMetaService';
 import type { IModelAssetMeta } from '@core/assets/interfaces/IModelAssetMeta';
+import type { SceneEnvironment } from '@core/SceneEnvironment';
 
 /**
  * Event emitted when a model meta is selected in the Asset Browser.
@@ -65,6 +70,39 @@ export interface PropertiesPanelOptions {
   projectService?: ProjectService;
   /** Asset meta service for reading/writing .assetmeta files (optional) */
   assetMetaService?: AssetMetaService;
+  /** Environment settings of the open scene, edited on the scene root (optional) */
+  sceneEnvironment?: SceneEnvironment;
+}
+
+/**
+ * Generation parameter of a parametric primitive, as read by the Geometry section.
+ * Mirrors PrimitiveParameterDefinition without importing the primitives plugin.
+ */
+interface PrimitiveParameterField {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+/**
+ * Placeholder shown by multi-selection fields whose values differ.
+ */
+const MIXED_PLACEHOLDER = '\u2014';
+
+/**
+ * Numeric component field shown for a multi-selection.
+ */
+interface MultiNumberField {
+  label: string;
+  property: string;
+  values: number[];
+  step: number;
+  min?: number;
+  max?: number;
+  precision: number;
 }
 
 /**
@@ -88,6 +126,9 @@ export class PropertiesPanel {
 
   private selectedObject: ISceneObject | null = null;
 
+  /** Objects of a multi-selection (empty when zero or one object is selected) */
+  private selectedObjects: ISceneObject[] = [];
+
   /** Track collapsed state of sections by title (persists across re-renders) */
   private sectionStates: Map<string, boolean> = new Map();
 
@@ -115,10 +156,16 @@ export class PropertiesPanel {
   /** Model import inspector for displaying .assetmeta import settings */
   private modelImportInspector: ModelImportInspector | null = null;
 
+  /** Environment settings of the open scene */
+  private sceneEnvironment: SceneEnvironment | null = null;
+
 
   /** Cleanup function for compilation event listener */
   private compilationUnsubscribe: (() => void) | null = null;
 
+  /** Pending animation frame for a coalesced details re-render */
+  private renderFrame: number | null = null;
+
   constructor(options: PropertiesPanelOptions) {
     this.eventBus = options.eventBus;
     this.sceneGraph = options.sceneGraph;
@@ -172,6 +219,7 @@ export class PropertiesPanel {
     this.materialFactory = options.materialFactory ?? null;
     this.projectService = options.projectService ?? null;
     this.assetMetaService = options.assetMetaService ?? null;
+    this.sceneEnvironment = options.sceneEnvironment ?? null;
 
     // Create Model Import Inspector if dependencies are available
     if (this.assetMetaService && this.projectService) {
@@ -303,6 +351,8 @@ export class PropertiesPanel {
     this.eventBus.off('selection:changed', this.handleSelectionChange);
     this.eventBus.off('entity:propertyUpdated', this.handleExternalPropertyUpdate);
     this.eventBus.off('scene:objectRenamed', this.handleObjectRenamed);
+    this.eventBus.off('scene:environmentChanged', this.handleEnvironmentChanged);
+    this.cancelScheduledRender();
 
     if (this.compilationUnsubscribe) {
       this.compilationUnsubscribe();
@@ -314,6 +364,7 @@ export class PropertiesPanel {
     this.handleSelectionChange = this.handleSelectionChange.bind(this);
     this.handleExternalPropertyUpdate = this.handleExternalPropertyUpdate.bind(this);
     this.handleObjectRenamed = this.handleObjectRenamed.bind(this);
+    this.handleEnvironmentChanged = this.handleEnvironmentChanged.bind(this);
 
     this.eventBus.on('selection:changed', this.handleSelectionChange);
     // Listen for external property updates (from gizmos, scripts, etc.)
@@ -322,6 +373,8 @@ export class PropertiesPanel {
     this.eventBus.on('entity:propertyUpdated', this.handleExternalPropertyUpdate);
     this.eventBus.off('object:propertyChanged', this.handlePropertyChange);
     this.eventBus.on('scene:objectRenamed', this.handleObjectRenamed);
+    // Scene environment edits, undo/redo and scene loads refresh the scene inspector
+    this.eventBus.on('scene:environmentChanged', this.handleEnvironmentChanged);
 
     // Auto-open shader when selected in Asset Browser
     this.eventBus.on<AssetSelectedEvent>('asset:selected', (data) => {
@@ -343,26 +396,60 @@ export class PropertiesPanel {
     });
   }
 
-  private handleSelectionChange(data: { id: string }): void {
-    this.selectedObject = this.sceneGraph.find(data.id) ?? null;
+  private handleSelectionChange(data: { id?: string | null; selected?: ISceneObject[] }): void {
+    if (data.selected && data.selected.length > 1) {
+      this.selectedObjects = [...data.selected];
+      this.selectedObject = null;
+    } else {
+      this.selectedObjects = [];
+      this.selectedObject = data.id
+        ? this.sceneGraph.find(data.id) ?? null
+        : data.selected?.[0] ?? null;
+    }
     this.renderDetails();
   }
 
   /**
    * Handle external property updates (from gizmos, scripts, etc.).
    * Only re-renders if the updated entity is currently selected.
-   * This enables bidirectional sync for future transform gizmos.
+   * Updates are coalesced into one re-render per frame, since a gizmo drag
+   * on a multi-selection emits one update per object on every mouse move.
    */
   private handleExternalPropertyUpdate(data: { id: string; property: string }): void {
-    // Only update if this is the currently selected object
-    if (!this.selectedObject || this.selectedObject.id !== data.id) {
+    // Only update if this is a currently selected object
+    const isSelected = this.selectedObject?.id === data.id ||
+      this.selectedObjects.some((obj) => obj.id === data.id);
+    if (!isSelected) {
       return;
     }
 
     // Re-render to show updated values
     // Note: A future optimization would be to update only the specific input
     // rather than full re-render, but this works for now
-    this.renderDetails();
+    this.scheduleRenderDetails();
+  }
+
+  /**
+   * Re-render the details on the next animation frame. Further requests
+   * before then share that render.
+   */
+  private scheduleRenderDetails(): void {
+    if (this.renderFrame !== null) return;
+
+    this.renderFrame = requestAnimationFrame(() => {
+      this.renderFrame = null;
+      this.renderDetails();
+    });
+  }
+
+  /**
+   * Drop a scheduled re-render.
+   */
+  private cancelScheduledRender(): void {
+    if (this.renderFrame === null) return;
+
+    cancelAnimationFrame(this.renderFrame);
+    this.renderFrame = null;
   }
 
   private handlePropertyChange(): void {
@@ -378,6 +465,12 @@ export class PropertiesPanel {
     }
   }
 
+  private handleEnvironmentChanged(): void {
+    if (this.selectedObject?.id === 'root') {
+      this.renderDetails();
+    }
+  }
+
   /**
    * Handle model meta selection from Asset Browser.
    * Shows the ModelImportInspector for the selected model.
@@ -385,6 +478,7 @@ export class PropertiesPanel {
   private async handleModelMetaSelected(data: ModelMetaSelectedEvent): Promise<void> {
     // Clear entity selection to show model meta inspector
     this.selectedObject = null;
+    this.selectedObjects = [];
     // Get the directory handle for the source file
     if (this.modelImportInspector && this.projectService?.isProjectOpen) {
       const directoryHandle = await this.getDirectoryHandleForMeta(data.meta);
@@ -506,8 +600,15 @@ export class PropertiesPanel {
   }
 
   private renderDetails(): void {
+    // Rendering now supersedes a scheduled render
+    this.cancelScheduledRender();
     this.detailsContent.innerHTML = '';
 
+    if (this.selectedObjects.length > 1) {
+      this.renderMultiDetails();
+      return;
+    }
+
     if (!this.selectedObject) {
       this.detailsContent.innerHTML = `
         <div style="padding: var(--spacing-lg); text-align: center; color: var(--text-muted);">
@@ -562,8 +663,11 @@ export class PropertiesPanel {
     nameSection.setContent(nameContent);
     contentWrapper.appendChild(nameSection.element);
 
-    // Skip Transform and other components for root scene object
+    // The root scene object has no transform or components, only the scene environment
     if (isRootScene) {
+      if (this.sceneEnvironment) {
+        contentWrapper.appendChild(this.createEnvironmentSection(this.sceneEnvironment));
+      }
       this.detailsContent.appendChild(contentWrapper);
       return;
     }
@@ -767,6 +871,31 @@ export class PropertiesPanel {
         cameraContent.style.flexDirection = 'column';
         cameraContent.style.gap = 'var(--spacing-sm)';
 
+        // Projection dropdown
+        const projectionGroup = document.createElement('div');
+        const projectionLabel = document.createElement('label');
+        projectionLabel.className = 'label';
+        projectionLabel.textContent = 'Projection';
+        projectionGroup.appendChild(projectionLabel);
+
+        const projectionSelect = document.createElement('select');
+        projectionSelect.className = 'input';
+        const projectionOptions: CameraProjection[] = ['perspective', 'orthographic'];
+        projectionOptions.forEach(projection => {
+          const option = document.createElement('option');
+          option.value = projection;
+          option.textContent = projection.charAt(0).toUpperCase() + projection.slice(1);
+          if (projection === cameraComponent.projection) {
+            option.selected = true;
+          }
+          projectionSelect.appendChild(option);
+        });
+        projectionSelect.addEventListener('change', () => {
+          this.emitPropertyChange('camera.projection', projectionSelect.value);
+        });
+        projectionGroup.appendChild(projectionSelect);
+        cameraContent.appendChild(projectionGroup);
+
         // Field of View
         const fovGroup = document.createElement('div');
         const fovLabel = document.createElement('label');
@@ -785,6 +914,23 @@ export class PropertiesPanel {
         fovGroup.appendChild(fovInput.element);
         cameraContent.appendChild(fovGroup);
 
+        // Orthographic Size
+        const orthoSizeGroup = document.createElement('div');
+        const orthoSizeLabel = document.createElement('label');
+        orthoSizeLabel.className = 'label';
+        orthoSizeLabel.textContent = 'Orthographic Size';
+        orthoSizeGroup.appendChild(orthoSizeLabel);
+
+        const orthoSizeInput = new DraggableNumberInput({
+          value: cameraComponent.orthographicSize,
+          step: 0.1,
+          min: 0.01,
+          precision: 2,
+          onChange: (value) => this.emitPropertyChange('camera.orthographicSize', value)
+        });
+        orthoSizeGroup.appendChild(orthoSizeInput.element);
+        cameraContent.appendChild(orthoSizeGroup);
+
         // Near Clip Plane
         const nearGroup = document.createElement('div');
         const nearLabel = document.createElement('label');
@@ -1041,6 +1187,28 @@ export class PropertiesPanel {
           });
           spotAngleGroup.appendChild(spotAngleInput.element);
           lightContent.appendChild(spotAngleGroup);
+
+          const innerRatioGroup = document.createElement('div');
+          const innerRatioLabel = document.createElement('label');
+          innerRatioLabel.className = 'label';
+          innerRatioLabel.textContent = 'Inner Spot Ratio';
+          innerRatioGroup.appendChild(innerRatioLabel);
+
+          const innerRatioInput = new DraggableNumberInput({
+            value: lightComponent.innerSpotRatio ?? 0.8,
+            step: 0.05,
+            min: 0,
+            max: 1,
+            precision: 2,
+            onChange: (value) => this.emitPropertyChange('light.innerSpotRatio', value)
+          });
+          innerRatioGroup.appendChild(innerRatioInput.element);
+          lightContent.appendChild(innerRatioGroup);
+        }
+
+        // Shadows (for directional/spot lights only)
+        if (supportsShadows(lightComponent.lightType)) {
+          lightContent.appendChild(this.createLightShadowControls(obj.id, lightComponent));
         }
 
         lightSection.setContent(lightContent);
@@ -1084,6 +1252,26 @@ export class PropertiesPanel {
       contentWrapper.appendChild(sphereSection.element);
     }
 
+    // Geometry Section (if object is a parametric primitive)
+    // Duck typing like the Sphere section - the UI doesn't depend on primitive classes
+    const parametricEntity = obj as {
+      getParameterDefinitions?: () => readonly PrimitiveParameterField[];
+      getParameters?: () => Readonly<Record<string, number>>;
+    };
+    if (
+      typeof parametricEntity.getParameterDefinitions === 'function' &&
+      typeof parametricEntity.getParameters === 'function'
+    ) {
+      const geometrySection = this.createTrackedSection('Geometry', true);
+      geometrySection.setContent(
+        this.createPrimitiveParameterControls(
+          parametricEntity.getParameterDefinitions(),
+          parametricEntity.getParameters()
+        )
+      );
+      contentWrapper.appendChild(geometrySection.element);
+    }
+
     // Fallback Material Section (for non-entity objects without material component)
     if (!isEntity(obj) || !obj.hasComponent('material')) {
       const materialSection = this.createTrackedSection('Material', true);
@@ -1101,6 +1289,41 @@ export class PropertiesPanel {
     this.detailsContent.appendChild(contentWrapper);
   }
 
+  /**
+   * Create number inputs for a parametric primitive's generation parameters.
+   * Edits are emitted as 'geometry.<name>' and rebuild the mesh.
+   */
+  private createPrimitiveParameterControls(
+    definitions: readonly PrimitiveParameterField[],
+    values: Readonly<Record<string, number>>
+  ): HTMLElement {
+    const container = document.createElement('div');
+    container.style.display = 'flex';
+    container.style.flexDirection = 'column';
+    container.style.gap = 'var(--spacing-sm)';
+
+    for (const definition of definitions) {
+      const group = document.createElement('div');
+      const label = document.createElement('label');
+      label.className = 'label';
+      label.textContent = definition.label;
+      group.appendChild(label);
+
+      const input = new DraggableNumberInput({
+        value: values[definition.name] ?? definition.min,
+        step: definition.step,
+        min: definition.min,
+        max: definition.max,
+        precision: definition.integer ? 0 : 3,
+        onChange: (value) => this.emitPropertyChange(`geometry.${definition.name}`, value)
+      });
+      group.appendChild(input.element);
+      container.appendChild(group);
+    }
+
+    return container;
+  }
+
   /**
    * Create a readonly field display.
    */
@@ -1122,11 +1345,693 @@ export class PropertiesPanel {
     return group;
   }
 
+  /**
+   * Create the scene Environment section: ambient light, background color,
+   * grid visibility and the HDRI environment map. Edits are emitted on the
+   * root as 'environment.*' properties and become undoable commands.
+   */
+  private createEnvironmentSection(environment: SceneEnvironment): HTMLElement {
+    const settings = environment.getSettings();
+    const section = this.createTrackedSection('Environment', true);
+    const content = document.createElement('div');
+    content.style.display = 'flex';
+    content.style.flexDirection = 'column';
+    content.style.gap = 'var(--spacing-sm)';
+
+    const createColorGroup = (label: string, property: string, color: readonly number[]): HTMLElement => {
+      const group = document.createElement('div');
+      const labelEl = document.createElement('label');
+      labelEl.className = 'label';
+      labelEl.textContent = label;
+      group.appendChild(labelEl);
+
+      const row = document.createElement('div');
+      row.style.display = 'flex';
+      row.style.gap = 'var(--spacing-sm)';
+
+      const hexColor = '#' + color
+        .map((channel) => Math.round(channel * 255).toString(16).padStart(2, '0'))
+        .join('');
+
+      const picker = document.createElement('input');
+      picker.type = 'color';
+      picker.className = 'input';
+      picker.style.width = '64px';
+      picker.value = hexColor;
+
+      const text = document.createElement('input');
+      text.type = 'text';
+      text.className = 'input';
+      text.style.flex = '1';
+      text.value = hexColor;
+
+      picker.addEventListener('change', () => {
+        text.value = picker.value;
+        this.emitPropertyChange(property, picker.value);
+      });
+      text.addEventListener('change', () => {
+        picker.value = text.value;
+        this.emitPropertyChange(property, text.value);
+      });
+
+      row.appendChild(picker);
+      row.appendChild(text);
+      group.appendChild(row);
+      return group;
+    };
+
+    content.appendChild(createColorGroup('Ambient Color', 'environment.ambientColor', settings.ambientColor));
+
+    const intensityGroup = document.createElement('div');
+    const intensityLabel = document.createElement('label');
+    intensityLabel.className = 'label';
+    intensityLabel.textContent = 'Ambient Intensity';
+    intensityGroup.appendChild(intensityLabel);
+
+    const intensityInput = new DraggableNumberInput({
+      value: settings.ambientIntensity,
+      step: 0.05,
+      min: 0,
+      max: 10,
+      precision: 2,
+      onChange: (value) => this.emitPropertyChange('environment.ambientIntensity', value)
+    });
+    intensityGroup.appendChild(intensityInput.element);
+    content.appendChild(intensityGroup);
+
+    content.appendChild(createColorGroup('Background Color', 'environment.backgroundColor', settings.backgroundColor));
+
+    const gridGroup = document.createElement('div');
+    gridGroup.style.display = 'flex';
+    gridGroup.style.alignItems = 'center';
+    gridGroup.style.gap = 'var(--spacing-sm)';
+
+    const gridCheckbox = document.createElement('input');
+    gridCheckbox.type = 'checkbox';
+    gridCheckbox.checked = settings.showGrid;
+    gridCheckbox.id = 'scene-show-grid';
+    gridCheckbox.addEventListener('change', () => {
+      this.emitPropertyChange('environment.showGrid', gridCheckbox.checked);
+    });
+
+    const gridLabel = document.createElement('label');
+    gridLabel.htmlFor = 'scene-show-grid';
+    gridLabel.className = 'label';
+    gridLabel.style.marginBottom = '0';
+    gridLabel.textContent = 'Show Grid';
+
+    gridGroup.appendChild(gridCheckbox);
+    gridGroup.appendChild(gridLabel);
+    content.appendChild(gridGroup);
+
+    // Environment map: any texture imported as an HDRI
+    const mapGroup = document.createElement('div');
+    const mapLabel = document.createElement('label');
+    mapLabel.className = 'label';
+    mapLabel.textContent = 'Environment Map';
+    mapGroup.appendChild(mapLabel);
+
+    const mapSelect = document.createElement('select');
+    mapSelect.className = 'input';
+    const noneOption = document.createElement('option');
+    noneOption.value = '';
+    noneOption.textContent = 'None';
+    mapSelect.appendChild(noneOption);
+
+    const environmentMaps = (this.assetRegistry?.getByType<ITextureAsset>('texture') ?? [])
+      .filter((texture) => texture.importSettings.textureType === 'hdri');
+    environmentMaps.forEach((texture) => {
+      const option = document.createElement('option');
+      option.value = texture.uuid;
+      option.textContent = texture.name;
+      mapSelect.appendChild(option);
+    });
+    mapSelect.value = settings.environmentMap?.uuid ?? '';
+    mapSelect.addEventListener('change', () => {
+      this.emitPropertyChange('environment.environmentMap', mapSelect.value);
+    });
+    mapGroup.appendChild(mapSelect);
+    content.appendChild(mapGroup);
+
+    const environmentIntensityGroup = document.createElement('div');
+    const environmentIntensityLabel = document.createElement('label');
+    environmentIntensityLabel.className = 'label';
+    environmentIntensityLabel.textContent = 'Environment Intensity';
+    environmentIntensityGroup.appendChild(environmentIntensityLabel);
+
+    const environmentIntensityInput = new DraggableNumberInput({
+      value: settings.environmentIntensity,
+      step: 0.05,
+      min: 0,
+      max: 10,
+      precision: 2,
+      onChange: (value) => this.emitPropertyChange('environment.environmentIntensity', value)
+    });
+    environmentIntensityGroup.appendChild(environmentIntensityInput.element);
+    content.appendChild(environmentIntensityGroup);
+
+    section.setContent(content);
+    return section.element;
+  }
+
+  /**
+   * Create the shadow settings for a shadow-casting light.
+   */
+  private createLightShadowControls(entityId: string, lightComponent: ILightComponent): HTMLElement {
+    const container = document.createElement('div');
+    container.style.display = 'flex';
+    container.style.flexDirection = 'column';
+    container.style.gap = 'var(--spacing-sm)';
+
+    // Cast Shadows checkbox
+    const castGroup = document.createElement('div');
+    castGroup.style.display = 'flex';
+    castGroup.style.alignItems = 'center';
+    castGroup.style.gap = 'var(--spacing-sm)';
+
+    const castCheckbox = document.createElement('input');
+    castCheckbox.type = 'checkbox';
+    castCheckbox.checked = lightComponent.castShadows ?? false;
+    castCheckbox.id = `light-cast-shadows-${entityId}`;
+    castCheckbox.addEventListener('change', () => {
+      this.emitPropertyChange('light.castShadows', castCheckbox.checked);
+    });
+
+    const castLabel = document.createElement('label');
+    castLabel.htmlFor = `light-cast-shadows-${entityId}`;
+    castLabel.className = 'label';
+    castLabel.style.marginBottom = '0';
+    castLabel.textContent = 'Cast Shadows';
+
+    castGroup.appendChild(castCheckbox);
+    castGroup.appendChild(castLabel);
+    container.appendChild(castGroup);
+
+    const numberFields: Array<{
+      label: string;
+      property: string;
+      value: number;
+      step: number;
+      max: number;
+      precision: number;
+    }> = [
+      {
+        label: 'Shadow Strength',
+        property: 'light.shadowStrength',
+        value: lightComponent.shadowStrength ?? DEFAULT_SHADOW_SETTINGS.strength,
+        step: 0.05,
+        max: 1,
+        precision: 2,
+      },
+      {
+        label: 'Shadow Bias',
+        property: 'light.shadowBias',
+        value: lightComponent.shadowBias ?? DEFAULT_SHADOW_SETTINGS.bias,
+        step: 0.005,
+        max: 1,
+        precision: 3,
+      },
+      {
+        label: 'Shadow Normal Bias',
+        property: 'light.shadowNormalBias',
+        value: lightComponent.shadowNormalBias ?? DEFAULT_SHADOW_SETTINGS.normalBias,
+        step: 0.005,
+        max: 1,
+        precision: 3,
+      },
+    ];
+
+    for (const field of numberFields) {
+      const group = document.createElement('div');
+      const label = document.createElement('label');
+      label.className = 'label';
+      label.textContent = field.label;
+      group.appendChild(label);
+
+      const input = new DraggableNumberInput({
+        value: field.value,
+        step: field.step,
+        min: 0,
+        max: field.max,
+        precision: field.precision,
+        onChange: (value) => this.emitPropertyChange(field.property, value)
+      });
+      group.appendChild(input.element);
+      container.appendChild(group);
+    }
+
+    // Shadow Resolution
+    const resolutionGroup = document.createElement('div');
+    const resolutionLabel = document.createElement('label');
+    resolutionLabel.className = 'label';
+    resolutionLabel.textContent = 'Shadow Resolution';
+    resolutionGroup.appendChild(resolutionLabel);
+
+    const resolutionSelect = document.createElement('select');
+    resolutionSelect.className = 'input';
+    const currentResolution = lightComponent.shadowResolution ?? DEFAULT_SHADOW_SETTINGS.resolution;
+    for (const resolution of SHADOW_RESOLUTIONS) {
+      const option = document.createElement('option');
+      option.value = String(resolution);
+      option.textContent = `${resolution} x ${resolution}`;
+      if (resolution === currentResolution) {
+        option.selected = true;
+      }
+      resolutionSelect.appendChild(option);
+    }
+    resolutionSelect.addEventListener('change', () => {
+      this.emitPropertyChange('light.shadowResolution', Number(resolutionSelect.value));
+    });
+    resolutionGroup.appendChild(resolutionSelect);
+    container.appendChild(resolutionGroup);
+
+    return container;
+  }
+
+  /**
+   * Render the shared fields of a multi-selection.
+   * Transform is always shown; Material, Camera and Light sections appear when
+   * every selected object has that component. Fields whose values differ
+   * across the selection show a mixed indicator.
+   */
+  private renderMultiDetails(): void {
+    const objects = this.selectedObjects;
+    const contentWrapper = document.createElement('div');
+    contentWrapper.style.padding = '0';
+
+    // Selection summary
+    const nameSection = this.createTrackedSection('Object', true);
+    nameSection.setContent(this.createReadonlyField('Selection', `${objects.length} objects`));
+    contentWrapper.appendChild(nameSection.element);
+
+    // Transform Section (shared by every scene object)
+    const transformSection = this.createTrackedSection('Transform', true);
+    const transformContent = document.createElement('div');
+    transformContent.style.display = 'flex';
+    transformContent.style.flexDirection = 'column';
+    transformContent.style.gap = 'var(--spacing-md)';
+
+    const fields: Array<{ label: string; property: 'position' | 'rotation' | 'scale'; step?: number }> = [
+      { label: 'Position', property: 'position' },
+      { label: 'Rotation', property: 'rotation', step: 1 },
+      { label: 'Scale', property: 'scale' },
+    ];
+
+    for (const { label, property, step } of fields) {
+      const values = objects[0].transform[property];
+      const mixed = [0, 1, 2].map((i) =>
+        objects.some((obj) => obj.transform[property][i] !== values[i])
+      ) as [boolean, boolean, boolean];
+
+      transformContent.appendChild(this.createVector3Group(
+        label,
+        values,
+        (axis, value) => this.emitMultiPropertyChange(`${property}.${axis}`, value),
+        step,
+        mixed
+      ));
+    }
+
+    transformSection.setContent(transformContent);
+    contentWrapper.appendChild(transformSection.element);
+
+    const materials = this.getSharedComponents<IMaterialComponent>(objects, 'material');
+    if (materials?.every((material) => material.color)) {
+      const materialSection = this.createTrackedSection('Material', true);
+      materialSection.setContent(this.createMultiFieldList([
+        this.createMultiColorField('Color', materials.map((material) => material.color!), 'material.color'),
+      ]));
+      contentWrapper.appendChild(materialSection.element);
+    }
+
+    const cameras = this.getSharedComponents<ICameraComponent>(objects, 'camera');
+    if (cameras) {
+      contentWrapper.appendChild(this.createMultiCameraSection(cameras));
+    }
+
+    const lights = this.getSharedComponents<ILightComponent>(objects, 'light');
+    if (lights) {
+      contentWrapper.appendChild(this.createMultiLightSection(lights));
+    }
+
+    this.detailsContent.appendChild(contentWrapper);
+  }
+
+  /**
+   * Get a component from every selected object.
+   *
+   * @returns The components in selection order, or null if any object lacks one
+   */
+  private getSharedComponents<T extends IComponent>(objects: ISceneObject[], type: string): T[] | null {
+    const components: T[] = [];
+    for (const obj of objects) {
+      const component = isEntity(obj) ? obj.getComponent<T>(type) : undefined;
+      if (!component) return null;
+      components.push(component);
+    }
+    return components;
+  }
+
+  private createMultiCameraSection(cameras: ICameraComponent[]): HTMLElement {
+    const cameraSection = this.createTrackedSection('Camera', true);
+    const projections: CameraProjection[] = ['perspective', 'orthographic'];
+    const clearFlags: CameraClearFlags[] = ['skybox', 'solidColor', 'depthOnly', 'none'];
+
+    const numberFields: MultiNumberField[] = [
+      {
+        label: 'Field of View',
+        property: 'camera.fieldOfView',
+        values: cameras.map((camera) => camera.fieldOfView),
+        step: 1,
+        min: 1,
+        max: 179,
+        precision: 0,
+      },
+      {
+        label: 'Orthographic Size',
+        property: 'camera.orthographicSize',
+        values: cameras.map((camera) => camera.orthographicSize),
+        step: 0.1,
+        min: 0.01,
+        precision: 2,
+      },
+      {
+        label: 'Near Clip Plane',
+        property: 'camera.nearClipPlane',
+        values: cameras.map((camera) => camera.nearClipPlane),
+        step: 0.01,
+        min: 0.001,
+        precision: 3,
+      },
+      {
+        label: 'Far Clip Plane',
+        property: 'camera.farClipPlane',
+        values: cameras.map((camera) => camera.farClipPlane),
+        step: 10,
+        min: 1,
+        precision: 0,
+      },
+    ];
+
+    cameraSection.setContent(this.createMultiFieldList([
+      this.createMultiSelectField(
+        'Projection',
+        projections.map((projection) => ({
+          value: projection,
+          label: projection.charAt(0).toUpperCase() + projection.slice(1),
+        })),
+        cameras.map((camera) => camera.projection),
+        (value) => this.emitMultiPropertyChange('camera.projection', value)
+      ),
+      ...numberFields.map((field) => this.createMultiNumberField(field)),
+      this.createMultiSelectField(
+        'Clear Flags',
+        clearFlags.map((flag) => ({
+          value: flag,
+          label: flag.charAt(0).toUpperCase() + flag.slice(1).replace(/([A-Z])/g, ' $1'),
+        })),
+        cameras.map((camera) => camera.clearFlags),
+        (value) => this.emitMultiPropertyChange('camera.clearFlags', value)
+      ),
+      this.createMultiColorField(
+        'Background Color',
+        cameras.map((camera) => camera.backgroundColor),
+        'camera.backgroundColor'
+      ),
+    ]));
+
+    return cameraSection.element;
+  }
+
+  /**
+   * Create the Light section for a multi-selection. Range, spot and shadow
+   * fields appear only when every selected light uses them.
+   */
+  private createMultiLightSection(lights: ILightComponent[]): HTMLElement {
+    const lightSection = this.createTrackedSection('Light', true);
+    const fields: HTMLElement[] = [
+      this.createMultiCheckboxField('Enabled', lights.map((light) => light.enabled), 'light.enabled'),
+      this.createMultiColorField('Color', lights.map((light) => light.color), 'light.color'),
+    ];
+
+    const numberFields: MultiNumberField[] = [
+      {
+        label: 'Intensity',
+        property: 'light.intensity',
+        values: lights.map((light) => light.intensity),
+        step: 0.1,
+        min: 0,
+        max: 10,
+        precision: 2,
+      },
+    ];
+
+    if (lights.every((light) => light.lightType === 'point' || light.lightType === 'spot')) {
+      numberFields.push({
+        label: 'Range',
+        property: 'light.range',
+        values: lights.map((light) => light.range ?? 10),
+        step: 0.5,
+        min: 0.1,
+        precision: 1,
+      });
+    }
+
+    if (lights.every((light) => light.lightType === 'spot')) {
+      numberFields.push(
+        {
+          label: 'Spot Angle',
+          property: 'light.spotAngle',
+          values: lights.map((light) => light.spotAngle ?? 30),
+          step: 1,
+          min: 1,
+          max: 179,
+          precision: 0,
+        },
+        {
+          label: 'Inner Spot Ratio',
+          property: 'light.innerSpotRatio',
+          values: lights.map((light) => light.innerSpotRatio ?? 0.8),
+          step: 0.05,
+          min: 0,
+          max: 1,
+          precision: 2,
+        }
+      );
+    }
+
+    fields.push(...numberFields.map((field) => this.createMultiNumberField(field)));
+
+    if (lights.every((light) => supportsShadows(light.lightType))) {
+      fields.push(this.createMultiCheckboxField(
+        'Cast Shadows',
+        lights.map((light) => light.castShadows ?? false),
+        'light.castShadows'
+      ));
+
+      const shadowFields: MultiNumberField[] = [
+        {
+          label: 'Shadow Strength',
+          property: 'light.shadowStrength',
+          values: lights.map((light) => light.shadowStrength ?? DEFAULT_SHADOW_SETTINGS.strength),
+          step: 0.05,
+          min: 0,
+          max: 1,
+          precision: 2,
+        },
+        {
+          label: 'Shadow Bias',
+          property: 'light.shadowBias',
+          values: lights.map((light) => light.shadowBias ?? DEFAULT_SHADOW_SETTINGS.bias),
+          step: 0.005,
+          min: 0,
+          max: 1,
+          precision: 3,
+        },
+        {
+          label: 'Shadow Normal Bias',
+          property: 'light.shadowNormalBias',
+          values: lights.map((light) => light.shadowNormalBias ?? DEFAULT_SHADOW_SETTINGS.normalBias),
+          step: 0.005,
+          min: 0,
+          max: 1,
+          precision: 3,
+        },
+      ];
+      fields.push(...shadowFields.map((field) => this.createMultiNumberField(field)));
+
+      fields.push(this.createMultiSelectField(
+        'Shadow Resolution',
+        SHADOW_RESOLUTIONS.map((resolution) => ({
+          value: String(resolution),
+          label: `${resolution} x ${resolution}`,
+        })),
+        lights.map((light) => String(light.shadowResolution ?? DEFAULT_SHADOW_SETTINGS.resolution)),
+        (value) => this.emitMultiPropertyChange('light.shadowResolution', Number(value))
+      ));
+    }
+
+    lightSection.setContent(this.createMultiFieldList(fields));
+    return lightSection.element;
+  }
+
+  private createMultiFieldList(fields: HTMLElement[]): HTMLElement {
+    const content = document.createElement('div');
+    content.style.display = 'flex';
+    content.style.flexDirection = 'column';
+    content.style.gap = 'var(--spacing-sm)';
+    for (const field of fields) {
+      content.appendChild(field);
+    }
+    return content;
+  }
+
+  private createMultiNumberField(field: MultiNumberField): HTMLElement {
+    const group = document.createElement('div');
+    const label = document.createElement('label');
+    label.className = 'label';
+    label.textContent = field.label;
+    group.appendChild(label);
+
+    const input = new DraggableNumberInput({
+      value: field.values[0],
+      step: field.step,
+      min: field.min,
+      max: field.max,
+      precision: field.precision,
+      mixed: field.values.some((value) => value !== field.values[0]),
+      onChange: (value) => this.emitMultiPropertyChange(field.property, value)
+    });
+    group.appendChild(input.element);
+    return group;
+  }
+
+  private createMultiColorField(label: string, colors: [number, number, number][], property: string): HTMLElement {
+    const group = document.createElement('div');
+    const labelEl = document.createElement('label');
+    labelEl.className = 'label';
+    labelEl.textContent = label;
+    group.appendChild(labelEl);
+
+    const row = document.createElement('div');
+    row.style.display = 'flex';
+    row.style.gap = 'var(--spacing-sm)';
+
+    // Convert [0-1] RGB to hex
+    const hexColors = colors.map((color) =>
+      '#' + color.map((c) => Math.round(c * 255).toString(16).padStart(2, '0')).join('')
+    );
+    const mixed = hexColors.some((hex) => hex !== hexColors[0]);
+
+    const picker = document.createElement('input');
+    picker.type = 'color';
+    picker.className = 'input';
+    picker.style.width = '64px';
+    picker.value = hexColors[0];
+
+    const text = document.createElement('input');
+    text.type = 'text';
+    text.className = 'input';
+    text.style.flex = '1';
+    text.value = mixed ? '' : hexColors[0];
+    if (mixed) {
+      text.classList.add('mixed');
+      text.placeholder = MIXED_PLACEHOLDER;
+    }
+
+    picker.addEventListener('change', () => {
+      text.value = picker.value;
+      text.classList.remove('mixed');
+      this.emitMultiPropertyChange(property, picker.value);
+    });
+
+    text.addEventListener('change', () => {
+      picker.value = text.value;
+      text.classList.remove('mixed');
+      this.emitMultiPropertyChange(property, text.value);
+    });
+
+    row.appendChild(picker);
+    row.appendChild(text);
+    group.appendChild(row);
+    return group;
+  }
+
+  private createMultiCheckboxField(label: string, values: boolean[], property: string): HTMLElement {
+    const group = document.createElement('div');
+    group.style.display = 'flex';
+    group.style.alignItems = 'center';
+    group.style.gap = 'var(--spacing-sm)';
+
+    const id = `multi-${property.replace('.', '-')}`;
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.id = id;
+    checkbox.checked = values[0];
+    // Indeterminate until the user picks a value for the whole selection
+    checkbox.indeterminate = values.some((value) => value !== values[0]);
+    checkbox.addEventListener('change', () => {
+      this.emitMultiPropertyChange(property, checkbox.checked);
+    });
+
+    const labelEl = document.createElement('label');
+    labelEl.htmlFor = id;
+    labelEl.className = 'label';
+    labelEl.style.marginBottom = '0';
+    labelEl.textContent = label;
+
+    group.appendChild(checkbox);
+    group.appendChild(labelEl);
+    return group;
+  }
+
+  private createMultiSelectField(
+    label: string,
+    options: Array<{ value: string; label: string }>,
+    values: string[],
+    onChange: (value: string) => void
+  ): HTMLElement {
+    const group = document.createElement('div');
+    const labelEl = document.createElement('label');
+    labelEl.className = 'label';
+    labelEl.textContent = label;
+    group.appendChild(labelEl);
+
+    const select = document.createElement('select');
+    select.className = 'input';
+    const mixed = values.some((value) => value !== values[0]);
+
+    // A disabled placeholder keeps the select from claiming one of the values
+    if (mixed) {
+      const placeholder = document.createElement('option');
+      placeholder.value = '';
+      placeholder.textContent = MIXED_PLACEHOLDER;
+      placeholder.disabled = true;
+      placeholder.selected = true;
+      select.appendChild(placeholder);
+    }
+
+    for (const { value, label: optionLabel } of options) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = optionLabel;
+      if (!mixed && value === values[0]) {
+        option.selected = true;
+      }
+      select.appendChild(option);
+    }
+
+    select.addEventListener('change', () => onChange(select.value));
+    group.appendChild(select);
+    return group;
+  }
+
   private createVector3Group(
     label: string,
     values: [number, number, number],
     onChange: (axis: 'x' | 'y' | 'z', value: number) => void,
-    step: number = 0.1
+    step: number = 0.1,
+    mixed: [boolean, boolean, boolean] = [false, false, false]
   ): HTMLElement {
     const group = document.createElement('div');
 
@@ -1152,6 +2057,7 @@ export class PropertiesPanel {
         value: values[index],
         step: step,
         precision: step < 1 ? 1 : 0,
+        mixed: mixed[index],
         onChange: (value) => onChange(axis, value)
       });
       item.appendChild(input.element);
@@ -1173,6 +2079,16 @@ export class PropertiesPanel {
     });
   }
 
+  private emitMultiPropertyChange(property: string, value: unknown): void {
+    if (this.selectedObjects.length === 0) return;
+
+    this.eventBus.emit('objects:propertyChanged', {
+      ids: this.selectedObjects.map((obj) => obj.id),
+      property,
+      value
+    });
+  }
+
   /**
    * Resolve the current shader UUID from a material component.
    *
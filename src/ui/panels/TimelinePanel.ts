@@ -0,0 +1,223 @@
+/**
+ * TimelinePanel
+ *
+ * Playback controls for previewing animation clips: clip selector,
+ * play/pause, stop, loop toggle and a scrubber. Sits below the viewport
+ * and is hidden while the project has no animation clips.
+ * NOT a plugin - standard UI panel.
+ *
+ * @example
+ * ```ts
+ * const panel = new TimelinePanel({
+ *   eventBus,
+ *   animationPlayer
+ * });
+ * container.appendChild(panel.element);
+ * ```
+ */
+
+import { EventBus } from '@core/EventBus';
+import type {
+  AnimationPlayer,
+  AnimationStateChangedEvent,
+  AnimationTimeChangedEvent,
+} from '@core/AnimationPlayer';
+
+export interface TimelinePanelOptions {
+  /** Event bus for communication */
+  eventBus: EventBus;
+  /** Player driving the previewed clip */
+  animationPlayer: AnimationPlayer;
+}
+
+/**
+ * Play icon SVG.
+ */
+const PLAY_ICON_SVG = `
+<svg viewBox="0 0 16 16" width="14" height="14" fill="currentColor">
+  <path d="M4 2.5v11a.5.5 0 0 0 .76.43l9-5.5a.5.5 0 0 0 0-.86l-9-5.5A.5.5 0 0 0 4 2.5z"/>
+</svg>
+`;
+
+/**
+ * Pause icon SVG.
+ */
+const PAUSE_ICON_SVG = `
+<svg viewBox="0 0 16 16" width="14" height="14" fill="currentColor">
+  <path d="M3.5 2h3v12h-3V2zm6 0h3v12h-3V2z"/>
+</svg>
+`;
+
+/**
+ * Stop icon SVG.
+ */
+const STOP_ICON_SVG = `
+<svg viewBox="0 0 16 16" width="14" height="14" fill="currentColor">
+  <path d="M3 3h10v10H3V3z"/>
+</svg>
+`;
+
+/**
+ * Loop icon SVG.
+ */
+const LOOP_ICON_SVG = `
+<svg viewBox="0 0 16 16" width="14" height="14" fill="currentColor">
+  <path d="M4 4h7V2l3 3-3 3V6H4a1 1 0 0 0-1 1v2H1V7a3 3 0 0 1 3-3zm8 8H5v2l-3-3 3-3v2h7a1 1 0 0 0 1-1V7h2v2a3 3 0 0 1-3 3z"/>
+</svg>
+`;
+
+/**
+ * Animation timeline panel.
+ * NOT a plugin - receives dependencies via constructor.
+ */
+export class TimelinePanel {
+  private readonly container: HTMLDivElement;
+  private readonly eventBus: EventBus;
+  private readonly player: AnimationPlayer;
+  private readonly clipSelect: HTMLSelectElement;
+  private readonly playButton: HTMLButtonElement;
+  private readonly stopButton: HTMLButtonElement;
+  private readonly loopButton: HTMLButtonElement;
+  private readonly scrubber: HTMLInputElement;
+  private readonly timeLabel: HTMLSpanElement;
+  private readonly unsubscribers: Array<() => void> = [];
+
+  constructor(options: TimelinePanelOptions) {
+    this.eventBus = options.eventBus;
+    this.player = options.animationPlayer;
+
+    this.container = document.createElement('div');
+    this.container.className = 'timeline-panel';
+
+    this.clipSelect = document.createElement('select');
+    this.clipSelect.className = 'timeline-clip-select';
+    this.clipSelect.title = 'Animation Clip';
+    this.clipSelect.addEventListener('change', () => {
+      this.player.setClip(this.clipSelect.value || null);
+    });
+
+    this.playButton = this.createButton('Play', PLAY_ICON_SVG, () => {
+      if (this.player.getState() === 'playing') {
+        this.player.pause();
+      } else {
+        this.player.play();
+      }
+    });
+
+    this.stopButton = this.createButton('Stop', STOP_ICON_SVG, () => {
+      this.player.stop();
+    });
+
+    this.loopButton = this.createButton('Loop', LOOP_ICON_SVG, () => {
+      this.player.setLooping(!this.player.isLooping());
+      this.loopButton.classList.toggle('active', this.player.isLooping());
+    });
+    this.loopButton.classList.toggle('active', this.player.isLooping());
+
+    this.scrubber = document.createElement('input');
+    this.scrubber.type = 'range';
+    this.scrubber.className = 'timeline-scrubber';
+    this.scrubber.min = '0';
+    this.scrubber.step = '0.001';
+    this.scrubber.addEventListener('input', () => {
+      this.player.pause();
+      this.player.seek(parseFloat(this.scrubber.value));
+    });
+
+    this.timeLabel = document.createElement('span');
+    this.timeLabel.className = 'timeline-time';
+
+    this.container.appendChild(this.clipSelect);
+    this.container.appendChild(this.playButton);
+    this.container.appendChild(this.stopButton);
+    this.container.appendChild(this.loopButton);
+    this.container.appendChild(this.scrubber);
+    this.container.appendChild(this.timeLabel);
+
+    this.setupEvents();
+    this.refreshClips();
+    this.updateState();
+    this.updateTime(this.player.getTime(), this.player.getDuration());
+  }
+
+  /**
+   * Get the root DOM element.
+   */
+  get element(): HTMLDivElement {
+    return this.container;
+  }
+
+  /**
+   * Clean up.
+   */
+  dispose(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers.length = 0;
+  }
+
+  private createButton(title: string, icon: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'viewport-toolbar-button';
+    button.title = title;
+    button.innerHTML = icon;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private setupEvents(): void {
+    this.unsubscribers.push(
+      this.eventBus.on('animation:clipsChanged', () => this.refreshClips()),
+      this.eventBus.on<AnimationStateChangedEvent>('animation:stateChanged', () => this.updateState()),
+      this.eventBus.on<AnimationTimeChangedEvent>('animation:timeChanged', (data) => {
+        this.updateTime(data.time, data.duration);
+      }),
+    );
+  }
+
+  /**
+   * Rebuild the clip list and show the panel only when clips exist.
+   * The first clip is selected when none is active.
+   */
+  private refreshClips(): void {
+    const clips = this.player
+      .getClips()
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    this.clipSelect.innerHTML = '';
+    for (const clip of clips) {
+      const option = document.createElement('option');
+      option.value = clip.uuid;
+      option.textContent = clip.name;
+      this.clipSelect.appendChild(option);
+    }
+
+    this.container.style.display = clips.length > 0 ? '' : 'none';
+
+    if (!this.player.getClip() && clips.length > 0) {
+      this.player.setClip(clips[0].uuid);
+    }
+    this.clipSelect.value = this.player.getClip()?.uuid ?? '';
+  }
+
+  private updateState(): void {
+    const hasClip = this.player.getClip() !== null;
+    const playing = this.player.getState() === 'playing';
+
+    this.clipSelect.value = this.player.getClip()?.uuid ?? '';
+    this.playButton.innerHTML = playing ? PAUSE_ICON_SVG : PLAY_ICON_SVG;
+    this.playButton.title = playing ? 'Pause' : 'Play';
+    this.playButton.classList.toggle('active', playing);
+    this.playButton.disabled = !hasClip;
+    this.stopButton.disabled = !hasClip;
+    this.scrubber.disabled = !hasClip;
+  }
+
+  private updateTime(time: number, duration: number): void {
+    this.scrubber.max = String(duration);
+    this.scrubber.value = String(time);
+    this.timeLabel.textContent = `${time.toFixed(2)} / ${duration.toFixed(2)} s`;
+  }
+}
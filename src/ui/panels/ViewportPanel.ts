@@ -3,6 +3,8 @@
  *
  * Displays the WebGL canvas and viewport controls.
  * Supports drag-and-drop of assets from the Asset Browser.
+ * Draws the box/lasso selection marquee reported by SelectionController
+ * as an SVG overlay.
  * NOT a plugin - standard UI panel.
  *
  * @example
@@ -17,6 +19,11 @@
 
 import { EventBus } from '@core/EventBus';
 import type { SettingsService } from '@core/SettingsService';
+import type { CameraProjection } from '@core/interfaces';
+import type { GizmoOrientation, PivotMode } from '@plugins/gizmos';
+import type { FlyModeChangedEvent } from '@plugins/navigation';
+import { getMarqueePolygon } from '@plugins/tools/MarqueeSelection';
+import type { MarqueeShape, MarqueeTool } from '@plugins/tools/MarqueeSelection';
 
 export interface ViewportPanelOptions {
   /** Event bus for communication */
@@ -45,6 +52,51 @@ export interface ViewportDropEvent {
   ndcY: number;
 }
 
+/**
+ * Camera preview inset drawn by the renderer, for positioning its label.
+ * Canvas pixels, origin bottom-left (GL convention).
+ */
+export interface ViewportCameraPreview {
+  /** Name of the previewed camera */
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pivot modes offered in the viewport header.
+ */
+const PIVOT_MODE_OPTIONS: Array<{ mode: PivotMode; label: string }> = [
+  { mode: 'median', label: 'Median Point' },
+  { mode: 'active', label: 'Active Object' },
+  { mode: 'individual', label: 'Individual Origins' },
+  { mode: 'cursor', label: '3D Cursor' },
+];
+
+/**
+ * Gizmo orientations offered in the viewport header.
+ */
+const ORIENTATION_OPTIONS: Array<{ orientation: GizmoOrientation; label: string }> = [
+  { orientation: 'world', label: 'World' },
+  { orientation: 'local', label: 'Local' },
+  { orientation: 'view', label: 'View' },
+];
+
+/**
+ * Marquee selection tools offered in the viewport header.
+ */
+const MARQUEE_TOOL_OPTIONS: Array<{ tool: MarqueeTool; label: string }> = [
+  { tool: 'box', label: 'Box Select' },
+  { tool: 'lasso', label: 'Lasso Select' },
+];
+
+/**
+ * SVG namespace for the marquee overlay.
+ */
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
 /**
  * Grid icon SVG for the viewport toolbar.
  * Uses a 16x16 viewBox for consistent sizing.
@@ -55,6 +107,24 @@ const GRID_ICON_SVG = `
 </svg>
 `;
 
+/**
+ * Paper plane icon SVG for the fly navigation toggle.
+ */
+const FLY_ICON_SVG = `
+<svg viewBox="0 0 16 16" width="14" height="14" fill="currentColor">
+  <path d="M15 1L1 7l5 2 2 5 7-13zM6.6 8.4l5.6-4.6-4.1 5.9-.4 2.2-1.1-3.5z" opacity="0.8"/>
+</svg>
+`;
+
+/**
+ * Camera icon SVG for the look-through toggle.
+ */
+const CAMERA_ICON_SVG = `
+<svg viewBox="0 0 16 16" width="14" height="14" fill="currentColor">
+  <path d="M1 4.5A1.5 1.5 0 0 1 2.5 3h7A1.5 1.5 0 0 1 11 4.5v1.2l3.2-1.9a.5.5 0 0 1 .8.4v7.6a.5.5 0 0 1-.8.4L11 10.3v1.2A1.5 1.5 0 0 1 9.5 13h-7A1.5 1.5 0 0 1 1 11.5v-7z" opacity="0.8"/>
+</svg>
+`;
+
 /**
  * Viewport panel displaying the WebGL canvas.
  * NOT a plugin - receives dependencies via constructor.
@@ -68,6 +138,18 @@ export class ViewportPanel {
   private readonly canvasContainer: HTMLDivElement;
   private readonly canvas: HTMLCanvasElement;
   private readonly status: HTMLDivElement;
+  private readonly cameraPreview: HTMLDivElement;
+  private readonly marqueeOverlay: SVGSVGElement;
+  private readonly marqueePolygon: SVGPolygonElement;
+  private viewLabel: HTMLSpanElement | null = null;
+  private viewCameraName: string | null = null;
+  private editorProjection: CameraProjection = 'perspective';
+  private flyMode: FlyModeChangedEvent | null = null;
+  private pivotSelect: HTMLSelectElement | null = null;
+  private orientationSelect: HTMLSelectElement | null = null;
+  private marqueeToolSelect: HTMLSelectElement | null = null;
+  private lookThroughButton: HTMLButtonElement | null = null;
+  private flyButton: HTMLButtonElement | null = null;
   private gridToggleButton: HTMLButtonElement | null = null;
   private resizeObserver: ResizeObserver | null = null;
 
@@ -101,9 +183,23 @@ export class ViewportPanel {
     this.status.className = 'viewport-status';
     this.status.style.display = 'none';
 
+    // Create camera preview frame (the image itself is drawn by the renderer)
+    this.cameraPreview = document.createElement('div');
+    this.cameraPreview.className = 'viewport-camera-preview';
+    this.cameraPreview.style.display = 'none';
+
+    // Create marquee selection overlay
+    this.marqueeOverlay = document.createElementNS(SVG_NS, 'svg');
+    this.marqueeOverlay.classList.add('viewport-marquee');
+    this.marqueeOverlay.style.display = 'none';
+    this.marqueePolygon = document.createElementNS(SVG_NS, 'polygon');
+    this.marqueeOverlay.appendChild(this.marqueePolygon);
+
     // Assemble
     this.canvasContainer.appendChild(this.canvas);
     this.canvasContainer.appendChild(this.status);
+    this.canvasContainer.appendChild(this.cameraPreview);
+    this.canvasContainer.appendChild(this.marqueeOverlay);
     this.container.appendChild(this.header);
     this.container.appendChild(this.canvasContainer);
 
@@ -141,6 +237,37 @@ export class ViewportPanel {
     this.status.textContent = message;
   }
 
+  /**
+   * Show the frame and label over the camera preview inset, or hide it.
+   */
+  setCameraPreview(preview: ViewportCameraPreview | null): void {
+    if (!preview) {
+      this.cameraPreview.style.display = 'none';
+      return;
+    }
+
+    this.cameraPreview.textContent = preview.label;
+    this.cameraPreview.style.display = '';
+    this.cameraPreview.style.left = `${preview.x}px`;
+    this.cameraPreview.style.top = `${this.canvas.height - preview.y - preview.height}px`;
+    this.cameraPreview.style.width = `${preview.width}px`;
+    this.cameraPreview.style.height = `${preview.height}px`;
+  }
+
+  /**
+   * Show the selection marquee outline, or hide it.
+   */
+  setMarquee(shape: MarqueeShape | null): void {
+    const polygon = shape ? getMarqueePolygon(shape) : [];
+    if (polygon.length < 2) {
+      this.marqueeOverlay.style.display = 'none';
+      return;
+    }
+
+    this.marqueeOverlay.style.display = '';
+    this.marqueePolygon.setAttribute('points', polygon.map(([x, y]) => `${x},${y}`).join(' '));
+  }
+
   /**
    * Force resize handling (useful when panel becomes visible).
    */
@@ -170,6 +297,52 @@ export class ViewportPanel {
     this.eventBus.on('render:request', () => {
       this.eventBus.emit('viewport:render');
     });
+
+    // Show which camera the viewport is looking through
+    this.eventBus.on('viewport:viewCameraChanged', (data: { name: string | null }) => {
+      this.viewCameraName = data.name;
+      this.updateViewLabel();
+      this.lookThroughButton?.classList.toggle('active', data.name !== null);
+    });
+
+    // Show the editor camera's projection
+    this.eventBus.on('viewport:projectionChanged', (data: { projection: CameraProjection }) => {
+      this.editorProjection = data.projection;
+      this.updateViewLabel();
+    });
+
+    // Show fly navigation and its speed
+    this.eventBus.on('navigation:flyModeChanged', (data: FlyModeChangedEvent) => {
+      this.flyMode = data.active ? data : null;
+      this.updateViewLabel();
+      this.flyButton?.classList.toggle('active', data.active);
+    });
+
+    // Keep the pivot selector in sync with the gizmo
+    this.eventBus.on('gizmo:pivotModeChanged', (data: { mode: PivotMode }) => {
+      if (this.pivotSelect) {
+        this.pivotSelect.value = data.mode;
+      }
+    });
+
+    // Draw the selection marquee while it is dragged
+    this.eventBus.on('selection:marqueeChanged', (data: { shape: MarqueeShape | null }) => {
+      this.setMarquee(data.shape);
+    });
+
+    // Keep the marquee tool selector in sync with the selection controller
+    this.eventBus.on('selection:marqueeToolChanged', (data: { tool: MarqueeTool }) => {
+      if (this.marqueeToolSelect) {
+        this.marqueeToolSelect.value = data.tool;
+      }
+    });
+
+    // Keep the orientation selector in sync with the gizmo
+    this.eventBus.on('gizmo:orientationChanged', (data: { orientation: GizmoOrientation }) => {
+      if (this.orientationSelect) {
+        this.orientationSelect.value = data.orientation;
+      }
+    });
   }
 
   /**
@@ -247,6 +420,24 @@ export class ViewportPanel {
     }
   }
 
+  /**
+   * Show the look-through camera's name, or the editor camera's projection
+   * and fly speed.
+   */
+  private updateViewLabel(): void {
+    if (!this.viewLabel) return;
+
+    if (this.viewCameraName) {
+      this.viewLabel.textContent = `Camera: ${this.viewCameraName}`;
+      return;
+    }
+
+    const projection = this.editorProjection === 'orthographic' ? 'Orthographic' : 'Perspective';
+    this.viewLabel.textContent = this.flyMode
+      ? `${projection} · Fly ${formatFlySpeed(this.flyMode.speed)}`
+      : projection;
+  }
+
   /**
    * Build the viewport header with title, controls, and grid toggle.
    */
@@ -261,9 +452,9 @@ export class ViewportPanel {
     controls.className = 'viewport-controls';
 
     // Perspective indicator
-    const perspective = document.createElement('span');
-    perspective.textContent = 'Perspective';
-    controls.appendChild(perspective);
+    this.viewLabel = document.createElement('span');
+    this.viewLabel.textContent = 'Perspective';
+    controls.appendChild(this.viewLabel);
 
     // Separator
     const separator1 = document.createElement('span');
@@ -280,6 +471,73 @@ export class ViewportPanel {
     separator2.textContent = '|';
     controls.appendChild(separator2);
 
+    // Marquee selection tool selector
+    this.marqueeToolSelect = document.createElement('select');
+    this.marqueeToolSelect.className = 'viewport-header-select';
+    this.marqueeToolSelect.title = 'Drag Selection Tool (Shift=add, Ctrl=subtract, Shift+Ctrl=intersect)';
+    for (const { tool, label } of MARQUEE_TOOL_OPTIONS) {
+      const option = document.createElement('option');
+      option.value = tool;
+      option.textContent = label;
+      this.marqueeToolSelect.appendChild(option);
+    }
+    this.marqueeToolSelect.addEventListener('change', () => {
+      this.eventBus.emit('selection:setMarqueeTool', { tool: this.marqueeToolSelect?.value as MarqueeTool });
+    });
+    controls.appendChild(this.marqueeToolSelect);
+
+    // Pivot mode selector for multi-object transforms
+    this.pivotSelect = document.createElement('select');
+    this.pivotSelect.className = 'viewport-header-select';
+    this.pivotSelect.title = 'Transform Pivot Point';
+    for (const { mode, label } of PIVOT_MODE_OPTIONS) {
+      const option = document.createElement('option');
+      option.value = mode;
+      option.textContent = label;
+      this.pivotSelect.appendChild(option);
+    }
+    this.pivotSelect.addEventListener('change', () => {
+      this.eventBus.emit('gizmo:setPivotMode', { mode: this.pivotSelect?.value as PivotMode });
+    });
+    controls.appendChild(this.pivotSelect);
+
+    // Gizmo orientation selector
+    this.orientationSelect = document.createElement('select');
+    this.orientationSelect.className = 'viewport-header-select';
+    this.orientationSelect.title = 'Transform Orientation';
+    for (const { orientation, label } of ORIENTATION_OPTIONS) {
+      const option = document.createElement('option');
+      option.value = orientation;
+      option.textContent = label;
+      this.orientationSelect.appendChild(option);
+    }
+    this.orientationSelect.addEventListener('change', () => {
+      this.eventBus.emit('gizmo:setOrientation', {
+        orientation: this.orientationSelect?.value as GizmoOrientation,
+      });
+    });
+    controls.appendChild(this.orientationSelect);
+
+    // Look through camera button
+    this.lookThroughButton = document.createElement('button');
+    this.lookThroughButton.className = 'viewport-toolbar-button';
+    this.lookThroughButton.title = 'Look Through Selected Camera (0)';
+    this.lookThroughButton.innerHTML = CAMERA_ICON_SVG;
+    this.lookThroughButton.addEventListener('click', () => {
+      this.eventBus.emit('command:toggleLookThroughCamera');
+    });
+    controls.appendChild(this.lookThroughButton);
+
+    // Fly navigation button
+    this.flyButton = document.createElement('button');
+    this.flyButton.className = 'viewport-toolbar-button';
+    this.flyButton.title = 'Fly Navigation (`): WASD to move, Q/E down/up, right-drag to look, scroll for speed';
+    this.flyButton.innerHTML = FLY_ICON_SVG;
+    this.flyButton.addEventListener('click', () => {
+      this.eventBus.emit('command:toggleFlyMode');
+    });
+    controls.appendChild(this.flyButton);
+
     // Grid toggle button
     this.gridToggleButton = document.createElement('button');
     this.gridToggleButton.className = 'viewport-toolbar-button';
@@ -316,3 +574,10 @@ export class ViewportPanel {
     this.header.appendChild(controls);
   }
 }
+
+/**
+ * Format a fly speed for the view label, with more precision when slow.
+ */
+function formatFlySpeed(speed: number): string {
+  return speed < 10 ? speed.toFixed(1) : Math.round(speed).toString();
+}
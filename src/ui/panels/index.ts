@@ -8,7 +8,10 @@ export { HierarchyPanel } from './HierarchyPanel';
 export type { HierarchyPanelOptions } from './HierarchyPanel';
 
 export { ViewportPanel } from './ViewportPanel';
-export type { ViewportPanelOptions } from './ViewportPanel';
+export type { ViewportPanelOptions, ViewportCameraPreview } from './ViewportPanel';
+
+export { TimelinePanel } from './TimelinePanel';
+export type { TimelinePanelOptions } from './TimelinePanel';
 
 export { PropertiesPanel, DEFAULT_SHADER_CODE } from './PropertiesPanel';
 export type { PropertiesPanelOptions } from './PropertiesPanel';
@@ -36,10 +36,11 @@ interface LightItem {
 export const PRIMITIVE_ITEMS: PrimitiveItem[] = [
   { label: 'Cube', enabled: true },
   { label: 'Sphere', enabled: true },
-  { label: 'Plane', enabled: false },
-  { label: 'Cylinder', enabled: false },
-  { label: 'Cone', enabled: false },
-  { label: 'Torus', enabled: false },
+  { label: 'Plane', enabled: true },
+  { label: 'Cylinder', enabled: true },
+  { label: 'Cone', enabled: true },
+  { label: 'Torus', enabled: true },
+  { label: 'Capsule', enabled: true },
 ];
 
 /**
@@ -47,16 +48,16 @@ export const PRIMITIVE_ITEMS: PrimitiveItem[] = [
  * Set enabled: true when the light type is implemented.
  */
 export const LIGHT_ITEMS: LightItem[] = [
-  { label: 'Point Light', enabled: false },
-  { label: 'Directional Light', enabled: false },
-  { label: 'Spot Light', enabled: false },
+  { label: 'Point Light', enabled: true },
+  { label: 'Directional Light', enabled: true },
+  { label: 'Spot Light', enabled: true },
 ];
 
 /**
  * Other create menu items.
  */
 export const OTHER_ITEMS = {
-  camera: { label: 'Camera', enabled: false },
+  camera: { label: 'Camera', enabled: true },
   empty: { label: 'Empty', enabled: false },
 };
 
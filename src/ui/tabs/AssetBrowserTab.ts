@@ -26,6 +26,7 @@ import type { ShaderAssetFactory } from '@core/assets/ShaderAssetFactory';
 import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
 import type { IShaderAsset } from '@core/assets/interfaces/IShaderAsset';
 import type { IModelAsset } from '@core/assets/interfaces/IModelAsset';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
 import type { IAsset } from '@core/assets/interfaces/IAsset';
 import type { IModelAssetMeta } from '@core/assets/interfaces/IModelAssetMeta';
 import type { IDerivedMeshRef, IDerivedMaterialRef } from '@core/assets/interfaces/IAssetMeta';
@@ -424,6 +425,20 @@ export class AssetBrowserTab {
       };
     }
 
+    // Image files are registered as texture assets by ProjectService.
+    if (lower.endsWith('.png') || lower.endsWith('.jpg') || lower.endsWith('.jpeg') || lower.endsWith('.hdr')) {
+      const fullPath = dirPath ? `${dirPath}/${filename}` : filename;
+      const texture = this.assetRegistry
+        .getByType<ITextureAsset>('texture')
+        .find((asset) => asset.source.projectPath === fullPath);
+      if (!texture) return null;
+      return {
+        id: texture.uuid,
+        name: filename,
+        type: 'texture',
+      };
+    }
+
     // Unrecognised file types are skipped for now.
     return null;
   }
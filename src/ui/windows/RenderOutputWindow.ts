@@ -0,0 +1,337 @@
+/**
+ * RenderOutputWindow
+ *
+ * Non-modal, draggable window for rendering a still image to a file.
+ * Lets the user pick the output resolution, the camera, the supersampling
+ * factor and the file format, then emits 'command:renderOutputImage' with
+ * the chosen settings. The render itself is done by whoever listens.
+ *
+ * @example
+ * ```typescript
+ * const outputWindow = new RenderOutputWindow({ eventBus });
+ * outputWindow.show([{ id: camera.id, name: camera.name }], camera.id);
+ * ```
+ */
+
+import type { EventBus } from '@core/EventBus';
+
+/**
+ * Camera the user can render from.
+ */
+export interface RenderOutputCameraOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Payload of 'command:renderOutputImage'.
+ */
+export interface RenderOutputRequest {
+  width: number;
+  height: number;
+  cameraId: string;
+  supersampling: 1 | 2 | 4;
+  format: 'png' | 'exr';
+}
+
+/**
+ * Options for RenderOutputWindow constructor.
+ */
+export interface RenderOutputWindowOptions {
+  /** Event bus for communication */
+  eventBus: EventBus;
+}
+
+/**
+ * Drag state for window movement.
+ */
+interface DragState {
+  isDragging: boolean;
+  startX: number;
+  startY: number;
+  startLeft: number;
+  startTop: number;
+}
+
+/** Largest width or height accepted, before supersampling */
+const MAX_OUTPUT_DIMENSION = 8192;
+
+/**
+ * Render output settings window component.
+ */
+export class RenderOutputWindow {
+  private readonly eventBus: EventBus;
+
+  private container: HTMLDivElement | null = null;
+  private statusLabel: HTMLSpanElement | null = null;
+  private renderButton: HTMLButtonElement | null = null;
+
+  // Values kept between openings
+  private width = 1920;
+  private height = 1080;
+  private supersampling: RenderOutputRequest['supersampling'] = 1;
+  private format: RenderOutputRequest['format'] = 'png';
+
+  // Drag state
+  private dragState: DragState = {
+    isDragging: false,
+    startX: 0,
+    startY: 0,
+    startLeft: 0,
+    startTop: 0,
+  };
+
+  // Bound handlers for cleanup
+  private boundHandleMouseMove: (e: MouseEvent) => void;
+  private boundHandleMouseUp: () => void;
+  private boundHandleKeyDown: (e: KeyboardEvent) => void;
+
+  constructor(options: RenderOutputWindowOptions) {
+    this.eventBus = options.eventBus;
+
+    this.boundHandleMouseMove = this.handleMouseMove.bind(this);
+    this.boundHandleMouseUp = this.handleMouseUp.bind(this);
+    this.boundHandleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  /**
+   * Show the window, rebuilding the camera list.
+   *
+   * @param cameras - Cameras in the scene
+   * @param selectedCameraId - Camera selected initially
+   */
+  show(cameras: readonly RenderOutputCameraOption[], selectedCameraId?: string): void {
+    this.hide();
+    this.createWindow(cameras, selectedCameraId);
+  }
+
+  /**
+   * Hide the window.
+   */
+  hide(): void {
+    if (!this.container) return;
+
+    this.container.remove();
+    this.container = null;
+    this.statusLabel = null;
+    this.renderButton = null;
+
+    document.removeEventListener('mousemove', this.boundHandleMouseMove);
+    document.removeEventListener('mouseup', this.boundHandleMouseUp);
+    document.removeEventListener('keydown', this.boundHandleKeyDown);
+  }
+
+  /**
+   * Check if the window is currently visible.
+   */
+  isVisible(): boolean {
+    return this.container !== null;
+  }
+
+  /**
+   * Disable the Render button while a render is being produced or saved.
+   */
+  setBusy(busy: boolean): void {
+    if (this.renderButton) {
+      this.renderButton.disabled = busy;
+    }
+  }
+
+  /**
+   * Show a status or error message below the settings.
+   */
+  setStatus(text: string): void {
+    if (this.statusLabel) {
+      this.statusLabel.textContent = text;
+    }
+  }
+
+  /**
+   * Create the window DOM structure.
+   */
+  private createWindow(cameras: readonly RenderOutputCameraOption[], selectedCameraId?: string): void {
+    this.container = document.createElement('div');
+    this.container.className = 'render-window render-output-window';
+    this.container.style.left = `${Math.max(50, window.innerWidth / 2 - 160)}px`;
+    this.container.style.top = `${Math.max(50, window.innerHeight / 2 - 200)}px`;
+
+    // Create header (draggable)
+    const header = document.createElement('div');
+    header.className = 'render-window-header';
+    header.innerHTML = `
+      <span class="render-window-title">Render Output</span>
+      <button class="render-window-close" title="Close (Esc)">×</button>
+    `;
+
+    header.addEventListener('mousedown', (e) => {
+      if ((e.target as HTMLElement).classList.contains('render-window-close')) {
+        return;
+      }
+      this.startDrag(e);
+    });
+
+    header.querySelector('.render-window-close')?.addEventListener('click', () => this.hide());
+
+    const body = document.createElement('div');
+    body.className = 'render-output-body';
+    body.innerHTML = `
+      <div class="settings-group">
+        <label class="settings-label">Resolution</label>
+        <div class="settings-slider-row">
+          <input type="number" id="render-output-width" class="settings-number-input" min="1" max="${MAX_OUTPUT_DIMENSION}" step="1" value="${this.width}">
+          <span>×</span>
+          <input type="number" id="render-output-height" class="settings-number-input" min="1" max="${MAX_OUTPUT_DIMENSION}" step="1" value="${this.height}">
+        </div>
+      </div>
+
+      <div class="settings-group">
+        <label class="settings-label" for="render-output-camera">Camera</label>
+        <select id="render-output-camera" class="settings-select"></select>
+      </div>
+
+      <div class="settings-group">
+        <label class="settings-label" for="render-output-supersampling">Supersampling</label>
+        <select id="render-output-supersampling" class="settings-select">
+          <option value="1">Off</option>
+          <option value="2">2×2</option>
+          <option value="4">4×4</option>
+        </select>
+      </div>
+
+      <div class="settings-group">
+        <label class="settings-label" for="render-output-format">Format</label>
+        <select id="render-output-format" class="settings-select">
+          <option value="png">PNG (8-bit)</option>
+          <option value="exr">OpenEXR (32-bit float)</option>
+        </select>
+      </div>
+    `;
+
+    // Camera names come from the scene, so they are set as text, not markup
+    const cameraSelect = body.querySelector('#render-output-camera') as HTMLSelectElement;
+    for (const camera of cameras) {
+      const option = document.createElement('option');
+      option.value = camera.id;
+      option.textContent = camera.name;
+      cameraSelect.appendChild(option);
+    }
+    if (selectedCameraId !== undefined) {
+      cameraSelect.value = selectedCameraId;
+    }
+
+    (body.querySelector('#render-output-supersampling') as HTMLSelectElement).value = String(this.supersampling);
+    (body.querySelector('#render-output-format') as HTMLSelectElement).value = this.format;
+
+    const footer = document.createElement('div');
+    footer.className = 'render-window-footer';
+
+    this.statusLabel = document.createElement('span');
+    this.statusLabel.className = 'render-window-status';
+
+    this.renderButton = document.createElement('button');
+    this.renderButton.className = 'settings-button';
+    this.renderButton.textContent = 'Render Image';
+    this.renderButton.disabled = cameras.length === 0;
+    this.renderButton.addEventListener('click', () => this.submit(body));
+
+    footer.appendChild(this.statusLabel);
+    footer.appendChild(this.renderButton);
+    this.container.appendChild(header);
+    this.container.appendChild(body);
+    this.container.appendChild(footer);
+
+    document.body.appendChild(this.container);
+
+    document.addEventListener('mousemove', this.boundHandleMouseMove);
+    document.addEventListener('mouseup', this.boundHandleMouseUp);
+    document.addEventListener('keydown', this.boundHandleKeyDown);
+  }
+
+  /**
+   * Read and validate the form, then request the render.
+   */
+  private submit(body: HTMLElement): void {
+    const widthInput = body.querySelector('#render-output-width') as HTMLInputElement;
+    const heightInput = body.querySelector('#render-output-height') as HTMLInputElement;
+    const cameraSelect = body.querySelector('#render-output-camera') as HTMLSelectElement;
+    const supersamplingSelect = body.querySelector('#render-output-supersampling') as HTMLSelectElement;
+    const formatSelect = body.querySelector('#render-output-format') as HTMLSelectElement;
+
+    this.width = clampDimension(parseInt(widthInput.value, 10), this.width);
+    this.height = clampDimension(parseInt(heightInput.value, 10), this.height);
+    widthInput.value = String(this.width);
+    heightInput.value = String(this.height);
+
+    this.supersampling = parseInt(supersamplingSelect.value, 10) as RenderOutputRequest['supersampling'];
+    this.format = formatSelect.value as RenderOutputRequest['format'];
+
+    const request: RenderOutputRequest = {
+      width: this.width,
+      height: this.height,
+      cameraId: cameraSelect.value,
+      supersampling: this.supersampling,
+      format: this.format,
+    };
+    this.eventBus.emit('command:renderOutputImage', request);
+  }
+
+  /**
+   * Start dragging the window.
+   */
+  private startDrag(e: MouseEvent): void {
+    if (!this.container) return;
+
+    e.preventDefault();
+
+    this.dragState = {
+      isDragging: true,
+      startX: e.clientX,
+      startY: e.clientY,
+      startLeft: this.container.offsetLeft,
+      startTop: this.container.offsetTop,
+    };
+
+    this.container.classList.add('dragging');
+  }
+
+  /**
+   * Handle window drag.
+   */
+  private handleMouseMove(e: MouseEvent): void {
+    if (!this.dragState.isDragging || !this.container) return;
+
+    const dx = e.clientX - this.dragState.startX;
+    const dy = e.clientY - this.dragState.startY;
+
+    // Keep window within viewport bounds
+    const left = Math.max(0, Math.min(this.dragState.startLeft + dx, window.innerWidth - 100));
+    const top = Math.max(0, Math.min(this.dragState.startTop + dy, window.innerHeight - 50));
+
+    this.container.style.left = `${left}px`;
+    this.container.style.top = `${top}px`;
+  }
+
+  /**
+   * Handle mouse up - end dragging.
+   */
+  private handleMouseUp(): void {
+    if (this.dragState.isDragging) {
+      this.dragState.isDragging = false;
+      this.container?.classList.remove('dragging');
+    }
+  }
+
+  /**
+   * Handle keyboard events.
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape' && this.isVisible()) {
+      this.hide();
+    }
+  }
+}
+
+function clampDimension(value: number, fallback: number): number {
+  if (isNaN(value)) return fallback;
+  return Math.min(Math.max(value, 1), MAX_OUTPUT_DIMENSION);
+}
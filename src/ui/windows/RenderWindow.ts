@@ -0,0 +1,283 @@
+/**
+ * RenderWindow
+ *
+ * Non-modal, draggable window that displays a progressive path traced render.
+ * Shows the image as samples accumulate, the sample count and a Stop button.
+ * The window only displays results; the render itself is driven by whoever
+ * listens for 'command:stopRender'.
+ *
+ * @example
+ * ```typescript
+ * const renderWindow = new RenderWindow({ eventBus });
+ * renderWindow.show(640, 360, 256);
+ * renderWindow.updateProgress(1, pixels, false);
+ * ```
+ */
+
+import type { EventBus } from '@core/EventBus';
+
+/**
+ * Options for RenderWindow constructor.
+ */
+export interface RenderWindowOptions {
+  /** Event bus for communication */
+  eventBus: EventBus;
+}
+
+/**
+ * Drag state for window movement.
+ */
+interface DragState {
+  isDragging: boolean;
+  startX: number;
+  startY: number;
+  startLeft: number;
+  startTop: number;
+}
+
+/**
+ * Render result window component.
+ */
+export class RenderWindow {
+  private readonly eventBus: EventBus;
+
+  private container: HTMLDivElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private statusLabel: HTMLSpanElement | null = null;
+  private stopButton: HTMLButtonElement | null = null;
+  private maxSamples = 0;
+
+  // Drag state
+  private dragState: DragState = {
+    isDragging: false,
+    startX: 0,
+    startY: 0,
+    startLeft: 0,
+    startTop: 0,
+  };
+
+  // Bound handlers for cleanup
+  private boundHandleMouseMove: (e: MouseEvent) => void;
+  private boundHandleMouseUp: () => void;
+  private boundHandleKeyDown: (e: KeyboardEvent) => void;
+
+  constructor(options: RenderWindowOptions) {
+    this.eventBus = options.eventBus;
+
+    this.boundHandleMouseMove = this.handleMouseMove.bind(this);
+    this.boundHandleMouseUp = this.handleMouseUp.bind(this);
+    this.boundHandleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  /**
+   * Show the window for a new render, clearing any previous image.
+   *
+   * @param width - Render width in pixels
+   * @param height - Render height in pixels
+   * @param maxSamples - Samples per pixel the render stops at
+   */
+  show(width: number, height: number, maxSamples: number): void {
+    if (!this.container) {
+      this.createWindow();
+    }
+
+    this.maxSamples = maxSamples;
+    if (this.canvas) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.setStatus(`Rendering ${width}×${height}…`);
+    this.setRunning(true);
+  }
+
+  /**
+   * Hide the window, stopping the render if it is still running.
+   */
+  hide(): void {
+    if (!this.container) return;
+
+    if (this.stopButton && !this.stopButton.disabled) {
+      this.eventBus.emit('command:stopRender');
+    }
+
+    this.container.remove();
+    this.container = null;
+    this.canvas = null;
+    this.statusLabel = null;
+    this.stopButton = null;
+
+    document.removeEventListener('mousemove', this.boundHandleMouseMove);
+    document.removeEventListener('mouseup', this.boundHandleMouseUp);
+    document.removeEventListener('keydown', this.boundHandleKeyDown);
+  }
+
+  /**
+   * Check if the window is currently visible.
+   */
+  isVisible(): boolean {
+    return this.container !== null;
+  }
+
+  /**
+   * Display the latest image from the render.
+   *
+   * @param samples - Samples per pixel accumulated so far
+   * @param pixels - 8-bit RGBA pixels matching the size passed to show()
+   * @param done - Whether the render has finished
+   */
+  updateProgress(samples: number, pixels: Uint8ClampedArray, done: boolean): void {
+    if (!this.canvas) return;
+
+    const context = this.canvas.getContext('2d');
+    if (context && pixels.length === this.canvas.width * this.canvas.height * 4) {
+      const image = context.createImageData(this.canvas.width, this.canvas.height);
+      image.data.set(pixels);
+      context.putImageData(image, 0, 0);
+    }
+
+    this.setStatus(`${samples} / ${this.maxSamples} samples${done ? ' (done)' : ''}`);
+    if (done) {
+      this.setRunning(false);
+    }
+  }
+
+  /**
+   * Mark the render as stopped, keeping the last image.
+   */
+  markStopped(): void {
+    if (!this.statusLabel) return;
+
+    this.setStatus(`${this.statusLabel.textContent ?? ''} (stopped)`);
+    this.setRunning(false);
+  }
+
+  /**
+   * Show a render failure.
+   */
+  showError(message: string): void {
+    this.setStatus(`Render failed: ${message}`);
+    this.setRunning(false);
+  }
+
+  /**
+   * Create the window DOM structure.
+   */
+  private createWindow(): void {
+    this.container = document.createElement('div');
+    this.container.className = 'render-window';
+    this.container.style.left = `${Math.max(50, window.innerWidth / 2 - 340)}px`;
+    this.container.style.top = `${Math.max(50, window.innerHeight / 2 - 240)}px`;
+
+    // Create header (draggable)
+    const header = document.createElement('div');
+    header.className = 'render-window-header';
+    header.innerHTML = `
+      <span class="render-window-title">Render</span>
+      <button class="render-window-close" title="Close (Esc)">×</button>
+    `;
+
+    header.addEventListener('mousedown', (e) => {
+      if ((e.target as HTMLElement).classList.contains('render-window-close')) {
+        return;
+      }
+      this.startDrag(e);
+    });
+
+    header.querySelector('.render-window-close')?.addEventListener('click', () => this.hide());
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'render-window-canvas';
+
+    const footer = document.createElement('div');
+    footer.className = 'render-window-footer';
+
+    this.statusLabel = document.createElement('span');
+    this.statusLabel.className = 'render-window-status';
+
+    this.stopButton = document.createElement('button');
+    this.stopButton.className = 'settings-button';
+    this.stopButton.textContent = 'Stop';
+    this.stopButton.addEventListener('click', () => {
+      this.eventBus.emit('command:stopRender');
+    });
+
+    footer.appendChild(this.statusLabel);
+    footer.appendChild(this.stopButton);
+    this.container.appendChild(header);
+    this.container.appendChild(this.canvas);
+    this.container.appendChild(footer);
+
+    document.body.appendChild(this.container);
+
+    document.addEventListener('mousemove', this.boundHandleMouseMove);
+    document.addEventListener('mouseup', this.boundHandleMouseUp);
+    document.addEventListener('keydown', this.boundHandleKeyDown);
+  }
+
+  private setStatus(text: string): void {
+    if (this.statusLabel) {
+      this.statusLabel.textContent = text;
+    }
+  }
+
+  private setRunning(running: boolean): void {
+    if (this.stopButton) {
+      this.stopButton.disabled = !running;
+    }
+  }
+
+  /**
+   * Start dragging the window.
+   */
+  private startDrag(e: MouseEvent): void {
+    if (!this.container) return;
+
+    e.preventDefault();
+
+    this.dragState = {
+      isDragging: true,
+      startX: e.clientX,
+      startY: e.clientY,
+      startLeft: this.container.offsetLeft,
+      startTop: this.container.offsetTop,
+    };
+
+    this.container.classList.add('dragging');
+  }
+
+  /**
+   * Handle window drag.
+   */
+  private handleMouseMove(e: MouseEvent): void {
+    if (!this.dragState.isDragging || !this.container) return;
+
+    const dx = e.clientX - this.dragState.startX;
+    const dy = e.clientY - this.dragState.startY;
+
+    // Keep window within viewport bounds
+    const left = Math.max(0, Math.min(this.dragState.startLeft + dx, window.innerWidth - 100));
+    const top = Math.max(0, Math.min(this.dragState.startTop + dy, window.innerHeight - 50));
+
+    this.container.style.left = `${left}px`;
+    this.container.style.top = `${top}px`;
+  }
+
+  /**
+   * Handle mouse up - end dragging.
+   */
+  private handleMouseUp(): void {
+    if (this.dragState.isDragging) {
+      this.dragState.isDragging = false;
+      this.container?.classList.remove('dragging');
+    }
+  }
+
+  /**
+   * Handle keyboard events.
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape' && this.isVisible()) {
+      this.hide();
+    }
+  }
+}
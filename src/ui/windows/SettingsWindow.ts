@@ -18,6 +18,7 @@
 import type { EventBus } from '@core/EventBus';
 import type { SettingsService } from '@core/SettingsService';
 import { GridSettingsPanel } from './panels/GridSettingsPanel';
+import { RendererSettingsPanel } from './panels/RendererSettingsPanel';
 
 /**
  * Settings category definition.
@@ -33,6 +34,7 @@ interface SettingsCategory {
  */
 const CATEGORIES: SettingsCategory[] = [
   { id: 'grid', label: 'Grid', icon: '⊞' },
+  { id: 'renderer', label: 'Rendering', icon: '◐' },
   // Future categories:
   // { id: 'themes', label: 'Themes', icon: '🎨' },
   // { id: 'hotkeys', label: 'Hotkeys', icon: '⌨' },
@@ -87,6 +89,7 @@ export class SettingsWindow {
 
   // Cached panels
   private gridSettingsPanel: GridSettingsPanel | null = null;
+  private rendererSettingsPanel: RendererSettingsPanel | null = null;
 
   // Drag state
   private dragState: DragState = {
@@ -475,6 +478,17 @@ export class SettingsWindow {
         this.contentArea.appendChild(this.gridSettingsPanel.element);
         break;
 
+      case 'renderer':
+        if (!this.rendererSettingsPanel) {
+          this.rendererSettingsPanel = new RendererSettingsPanel({
+            settingsService: this.settingsService,
+          });
+        } else {
+          this.rendererSettingsPanel.refresh();
+        }
+        this.contentArea.appendChild(this.rendererSettingsPanel.element);
+        break;
+
       default:
         this.contentArea.innerHTML = `
           <div class="settings-placeholder">
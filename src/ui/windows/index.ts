@@ -6,3 +6,11 @@
 
 export { SettingsWindow } from './SettingsWindow';
 export type { SettingsWindowOptions } from './SettingsWindow';
+export { RenderWindow } from './RenderWindow';
+export type { RenderWindowOptions } from './RenderWindow';
+export { RenderOutputWindow } from './RenderOutputWindow';
+export type {
+  RenderOutputWindowOptions,
+  RenderOutputRequest,
+  RenderOutputCameraOption,
+} from './RenderOutputWindow';
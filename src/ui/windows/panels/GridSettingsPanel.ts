@@ -3,7 +3,7 @@
  *
  * Settings panel for grid configuration within the SettingsWindow.
  * Provides controls for all grid-related settings with both sliders and
- * editable number inputs.
+ * editable number inputs, plus the transform gizmo snap increments.
  *
  * @example
  * ```typescript
@@ -59,6 +59,7 @@ export class GridSettingsPanel {
    */
   private render(): void {
     const settings = this.settingsService.get('grid');
+    const snap = this.settingsService.get('snap');
 
     this.container.innerHTML = `
       <h3 class="settings-panel-title">Grid Settings</h3>
@@ -135,6 +136,30 @@ export class GridSettingsPanel {
         </label>
       </div>
 
+      <h3 class="settings-panel-title">Snapping</h3>
+
+      <div class="settings-group">
+        <label class="settings-checkbox">
+          <input type="checkbox" id="snap-enabled" ${snap.enabled ? 'checked' : ''}>
+          <span>Snap by Default (hold Ctrl to toggle)</span>
+        </label>
+      </div>
+
+      <div class="settings-group">
+        <label class="settings-label" for="snap-translate-input">Move Increment</label>
+        <input type="number" id="snap-translate-input" class="settings-number-input" min="0.001" step="0.1" value="${snap.translateIncrement}">
+      </div>
+
+      <div class="settings-group">
+        <label class="settings-label" for="snap-rotate-input">Rotate Increment (degrees)</label>
+        <input type="number" id="snap-rotate-input" class="settings-number-input" min="0.1" max="180" step="1" value="${snap.rotateIncrement}">
+      </div>
+
+      <div class="settings-group">
+        <label class="settings-label" for="snap-scale-input">Scale Increment</label>
+        <input type="number" id="snap-scale-input" class="settings-number-input" min="0.001" step="0.05" value="${snap.scaleIncrement}">
+      </div>
+
       <div class="settings-group settings-reset">
         <button class="settings-button" id="grid-reset">Reset to Defaults</button>
       </div>
@@ -302,11 +327,43 @@ export class GridSettingsPanel {
       this.settingsService.set('grid', 'showAxisLines', axisCheckbox.checked);
     });
 
+    // Snap by default checkbox
+    const snapCheckbox = this.container.querySelector('#snap-enabled') as HTMLInputElement;
+    snapCheckbox?.addEventListener('change', () => {
+      this.settingsService.set('snap', 'enabled', snapCheckbox.checked);
+    });
+
+    // Snap increments - positive numbers only
+    this.attachIncrementInput('#snap-translate-input', 'translateIncrement', 0.001);
+    this.attachIncrementInput('#snap-rotate-input', 'rotateIncrement', 0.1, 180);
+    this.attachIncrementInput('#snap-scale-input', 'scaleIncrement', 0.001);
+
     // Reset button
     const resetButton = this.container.querySelector('#grid-reset') as HTMLButtonElement;
     resetButton?.addEventListener('click', () => {
       this.settingsService.resetSection('grid');
+      this.settingsService.resetSection('snap');
       this.render();
     });
   }
+
+  /**
+   * Attach a change handler to a snap increment input, clamping to [min, max].
+   * Invalid input falls back to the current setting.
+   */
+  private attachIncrementInput(
+    selector: string,
+    property: 'translateIncrement' | 'rotateIncrement' | 'scaleIncrement',
+    min: number,
+    max = Infinity
+  ): void {
+    const input = this.container.querySelector(selector) as HTMLInputElement;
+    input?.addEventListener('change', () => {
+      let value = parseFloat(input.value);
+      if (isNaN(value)) value = this.settingsService.get('snap', property);
+      value = Math.min(Math.max(value, min), max);
+      input.value = String(value);
+      this.settingsService.set('snap', property, value);
+    });
+  }
 }
@@ -0,0 +1,210 @@
+/**
+ * RendererSettingsPanel
+ *
+ * Settings panel for the post-processing stack within the SettingsWindow.
+ * Each effect has an enable checkbox followed by its parameters, edited
+ * with both sliders and number inputs as in the grid settings.
+ *
+ * @example
+ * ```typescript
+ * const panel = new RendererSettingsPanel({
+ *   settingsService,
+ * });
+ * container.appendChild(panel.element);
+ * ```
+ */
+
+import type { SettingsService, RendererSettings } from '@core/SettingsService';
+
+/**
+ * Options for RendererSettingsPanel constructor.
+ */
+export interface RendererSettingsPanelOptions {
+  /** Settings service for reading/writing values */
+  settingsService: SettingsService;
+}
+
+/**
+ * Renderer settings edited with a checkbox.
+ */
+type ToggleSetting = 'toneMapping' | 'bloom' | 'ssao' | 'fxaa' | 'colorGrading';
+
+/**
+ * Renderer settings edited with a slider and number input.
+ */
+type NumberSetting = Exclude<keyof RendererSettings, ToggleSetting>;
+
+/**
+ * Slider and input ranges of a numeric setting. The slider covers the
+ * common range; the number input accepts [min, max].
+ */
+interface NumberRange {
+  label: string;
+  sliderMin: number;
+  sliderMax: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const NUMBER_RANGES: Record<NumberSetting, NumberRange> = {
+  exposure: { label: 'Exposure', sliderMin: 0, sliderMax: 4, min: 0, max: 16, step: 0.05 },
+  bloomThreshold: { label: 'Threshold', sliderMin: 0, sliderMax: 4, min: 0, max: 16, step: 0.05 },
+  bloomIntensity: { label: 'Intensity', sliderMin: 0, sliderMax: 2, min: 0, max: 8, step: 0.05 },
+  ssaoRadius: { label: 'Radius', sliderMin: 0.05, sliderMax: 2, min: 0.01, max: 10, step: 0.05 },
+  ssaoIntensity: { label: 'Intensity', sliderMin: 0, sliderMax: 4, min: 0, max: 8, step: 0.1 },
+  contrast: { label: 'Contrast', sliderMin: 0.5, sliderMax: 2, min: 0, max: 4, step: 0.05 },
+  saturation: { label: 'Saturation', sliderMin: 0, sliderMax: 2, min: 0, max: 4, step: 0.05 },
+  temperature: { label: 'Temperature', sliderMin: -1, sliderMax: 1, min: -1, max: 1, step: 0.05 },
+};
+
+/**
+ * Renderer settings panel component.
+ */
+export class RendererSettingsPanel {
+  private readonly container: HTMLDivElement;
+  private readonly settingsService: SettingsService;
+
+  constructor(options: RendererSettingsPanelOptions) {
+    this.settingsService = options.settingsService;
+
+    this.container = document.createElement('div');
+    this.container.className = 'settings-panel renderer-settings-panel';
+
+    this.render();
+  }
+
+  /**
+   * Get the root DOM element.
+   */
+  get element(): HTMLDivElement {
+    return this.container;
+  }
+
+  /**
+   * Refresh the panel with current settings.
+   */
+  refresh(): void {
+    this.render();
+  }
+
+  /**
+   * Render the panel contents.
+   */
+  private render(): void {
+    const settings = this.settingsService.get('renderer');
+
+    this.container.innerHTML = `
+      <h3 class="settings-panel-title">Tone Mapping</h3>
+      ${this.renderToggle(settings, 'toneMapping', 'ACES Tone Mapping')}
+      ${this.renderNumber(settings, 'exposure')}
+
+      <h3 class="settings-panel-title">Bloom</h3>
+      ${this.renderToggle(settings, 'bloom', 'Enable Bloom')}
+      ${this.renderNumber(settings, 'bloomThreshold')}
+      ${this.renderNumber(settings, 'bloomIntensity')}
+
+      <h3 class="settings-panel-title">Ambient Occlusion</h3>
+      ${this.renderToggle(settings, 'ssao', 'Enable SSAO')}
+      ${this.renderNumber(settings, 'ssaoRadius')}
+      ${this.renderNumber(settings, 'ssaoIntensity')}
+
+      <h3 class="settings-panel-title">Anti-Aliasing</h3>
+      ${this.renderToggle(settings, 'fxaa', 'Enable FXAA')}
+
+      <h3 class="settings-panel-title">Color Grading</h3>
+      ${this.renderToggle(settings, 'colorGrading', 'Enable Color Grading')}
+      ${this.renderNumber(settings, 'contrast')}
+      ${this.renderNumber(settings, 'saturation')}
+      ${this.renderNumber(settings, 'temperature')}
+
+      <p class="settings-hint">Post-processing needs float render target support (EXT_color_buffer_float).</p>
+
+      <div class="settings-group settings-reset">
+        <button class="settings-button" id="renderer-reset">Reset to Defaults</button>
+      </div>
+    `;
+
+    this.attachEventHandlers();
+  }
+
+  private renderToggle(settings: RendererSettings, key: ToggleSetting, label: string): string {
+    return `
+      <div class="settings-group">
+        <label class="settings-checkbox">
+          <input type="checkbox" id="renderer-${key}" ${settings[key] ? 'checked' : ''}>
+          <span>${label}</span>
+        </label>
+      </div>
+    `;
+  }
+
+  private renderNumber(settings: RendererSettings, key: NumberSetting): string {
+    const range = NUMBER_RANGES[key];
+    const value = settings[key];
+    return `
+      <div class="settings-group">
+        <label class="settings-label">${range.label}</label>
+        <div class="settings-slider-row">
+          <input type="range" id="renderer-${key}-slider" min="${range.sliderMin}" max="${range.sliderMax}" step="${range.step}" value="${value}">
+          <input type="number" id="renderer-${key}-input" class="settings-number-input" min="${range.min}" max="${range.max}" step="${range.step}" value="${value}">
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Attach event handlers to form elements.
+   */
+  private attachEventHandlers(): void {
+    const toggles: ToggleSetting[] = ['toneMapping', 'bloom', 'ssao', 'fxaa', 'colorGrading'];
+    for (const key of toggles) {
+      const checkbox = this.container.querySelector(`#renderer-${key}`) as HTMLInputElement;
+      checkbox?.addEventListener('change', () => {
+        this.settingsService.set('renderer', key, checkbox.checked);
+      });
+    }
+
+    for (const key of Object.keys(NUMBER_RANGES) as NumberSetting[]) {
+      this.attachNumberInput(key);
+    }
+
+    // Reset button
+    const resetButton = this.container.querySelector('#renderer-reset') as HTMLButtonElement;
+    resetButton?.addEventListener('click', () => {
+      this.settingsService.resetSection('renderer');
+      this.render();
+    });
+  }
+
+  /**
+   * Keep a slider and number input pair in sync and write changes,
+   * clamping typed values to the setting's range. Invalid input falls back
+   * to the current setting.
+   */
+  private attachNumberInput(key: NumberSetting): void {
+    const range = NUMBER_RANGES[key];
+    const slider = this.container.querySelector(`#renderer-${key}-slider`) as HTMLInputElement;
+    const input = this.container.querySelector(`#renderer-${key}-input`) as HTMLInputElement;
+    if (!slider || !input) return;
+
+    const clampToSlider = (value: number): string =>
+      String(Math.min(Math.max(value, range.sliderMin), range.sliderMax));
+
+    slider.addEventListener('input', () => {
+      input.value = slider.value;
+    });
+    slider.addEventListener('change', () => {
+      this.settingsService.set('renderer', key, parseFloat(slider.value));
+    });
+
+    input.addEventListener('change', () => {
+      let value = parseFloat(input.value);
+      if (isNaN(value)) value = this.settingsService.get('renderer', key);
+      value = Math.min(Math.max(value, range.min), range.max);
+      input.value = String(value);
+      slider.value = clampToSlider(value);
+      this.settingsService.set('renderer', key, value);
+    });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * File Transfer Utilities
+ *
+ * Browser helpers for moving files between the editor and the user's disk
+ * without the File System Access API.
+ *
+ * @example
+ * ```typescript
+ * import { downloadBlob, pickFile } from '@utils/files';
+ *
+ * downloadBlob(new Blob([json], { type: 'application/json' }), 'scene.json');
+ * const file = await pickFile('.zip,application/zip');
+ * ```
+ */
+
+/**
+ * Download a file through a temporary object URL.
+ *
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Let the user choose a single file through a hidden input element.
+ *
+ * @param accept - Accepted file types, as for the input's accept attribute
+ * @returns The selected file or null if cancelled
+ */
+export function pickFile(accept: string): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
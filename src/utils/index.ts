@@ -10,3 +10,10 @@ export { EntityIdGenerator } from './EntityIdGenerator';
 
 // UUID generation
 export { generateUUID, isValidUUID } from './uuid';
+
+// ZIP archives
+export { createZip, readZip, ZipFormatError } from './zip';
+export type { IZipEntry } from './zip';
+
+// File download and upload
+export { downloadBlob, pickFile } from './files';
@@ -5,11 +5,14 @@
  */
 
 export * from './transforms';
+export * from './quaternion';
 
 // Re-export ray utilities (excluding mat4Inverse which is already in transforms)
 export {
   unprojectScreenToRay,
   rayAABBIntersection,
+  rayTriangleIntersection,
+  rayMeshIntersection,
   createAABB,
   createAABBFromTransform,
 } from './ray';
@@ -0,0 +1,98 @@
+/**
+ * Quaternion Utilities
+ *
+ * Unit quaternion helpers used by model import and animation playback.
+ * Quaternions are stored as [x, y, z, w].
+ */
+
+/**
+ * Type alias for a quaternion [x, y, z, w].
+ */
+export type Quat = [number, number, number, number];
+
+/**
+ * Normalize a quaternion.
+ *
+ * @param q - Quaternion to normalize
+ * @returns A new unit quaternion (identity for a zero-length input)
+ */
+export function quatNormalize(q: Quat): Quat {
+  const length = Math.hypot(q[0], q[1], q[2], q[3]);
+  if (length === 0) {
+    return [0, 0, 0, 1];
+  }
+  return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+}
+
+/**
+ * Spherical linear interpolation between two unit quaternions.
+ * Takes the shortest path and falls back to normalized linear
+ * interpolation when the inputs are nearly parallel.
+ *
+ * @param a - Start quaternion
+ * @param b - End quaternion
+ * @param t - Interpolation factor in [0, 1]
+ * @returns A new unit quaternion
+ */
+export function quatSlerp(a: Quat, b: Quat, t: number): Quat {
+  let bx = b[0];
+  let by = b[1];
+  let bz = b[2];
+  let bw = b[3];
+
+  let cosTheta = a[0] * bx + a[1] * by + a[2] * bz + a[3] * bw;
+  if (cosTheta < 0) {
+    cosTheta = -cosTheta;
+    bx = -bx;
+    by = -by;
+    bz = -bz;
+    bw = -bw;
+  }
+
+  let wa: number;
+  let wb: number;
+  if (cosTheta > 0.9995) {
+    wa = 1 - t;
+    wb = t;
+  } else {
+    const theta = Math.acos(cosTheta);
+    const sinTheta = Math.sin(theta);
+    wa = Math.sin((1 - t) * theta) / sinTheta;
+    wb = Math.sin(t * theta) / sinTheta;
+  }
+
+  return quatNormalize([
+    wa * a[0] + wb * bx,
+    wa * a[1] + wb * by,
+    wa * a[2] + wb * bz,
+    wa * a[3] + wb * bw,
+  ]);
+}
+
+/**
+ * Convert a unit quaternion to Euler angles in degrees matching the entity
+ * rotation convention (model matrix R = Rz · Ry · Rx).
+ *
+ * @param q - Unit quaternion
+ * @returns Euler angles [x, y, z] in degrees
+ */
+export function quatToEulerDegrees(q: Quat): [number, number, number] {
+  const [qx, qy, qz, qw] = q;
+
+  // Roll (X-axis rotation)
+  const sinrCosp = 2 * (qw * qx + qy * qz);
+  const cosrCosp = 1 - 2 * (qx * qx + qy * qy);
+  const roll = Math.atan2(sinrCosp, cosrCosp);
+
+  // Pitch (Y-axis rotation), clamped at the poles
+  const sinp = 2 * (qw * qy - qz * qx);
+  const pitch = Math.abs(sinp) >= 1 ? Math.sign(sinp) * Math.PI / 2 : Math.asin(sinp);
+
+  // Yaw (Z-axis rotation)
+  const sinyCosp = 2 * (qw * qz + qx * qy);
+  const cosyCosp = 1 - 2 * (qy * qy + qz * qz);
+  const yaw = Math.atan2(sinyCosp, cosyCosp);
+
+  const RAD_TO_DEG = 180 / Math.PI;
+  return [roll * RAD_TO_DEG, pitch * RAD_TO_DEG, yaw * RAD_TO_DEG];
+}
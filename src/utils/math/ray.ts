@@ -7,9 +7,23 @@
  * ```typescript
  * const ray = unprojectScreenToRay(mouseX, mouseY, viewportWidth, viewportHeight, invViewProj);
  * const hit = rayAABBIntersection(ray, bounds);
+ * const meshHit = rayMeshIntersection(ray, entity.getMeshData(), entity.getModelMatrix());
  * ```
  */
 
+import type { IMeshData } from '@core/interfaces/IMeshData';
+
+/**
+ * Smallest triangle determinant (and hit distance) treated as non-zero.
+ */
+const TRIANGLE_EPSILON = 1e-8;
+
+/**
+ * Barycentric slack so rays through shared edges and vertices can't slip
+ * between neighbouring triangles.
+ */
+const EDGE_TOLERANCE = 1e-6;
+
 /**
  * A ray in 3D space defined by origin and direction.
  */
@@ -160,6 +174,186 @@ export function rayAABBIntersection(ray: Ray, aabb: AABB): RayHit {
   return { hit: true, distance, point };
 }
 
+/**
+ * Test ray intersection with a triangle (Möller–Trumbore).
+ *
+ * @param ray - The ray to test
+ * @param v0 - First vertex
+ * @param v1 - Second vertex
+ * @param v2 - Third vertex
+ * @param cullBackFaces - Ignore triangles facing away from the ray (clockwise
+ *   as seen from the ray origin), like a renderer with back-face culling
+ * @returns Intersection result
+ */
+export function rayTriangleIntersection(
+  ray: Ray,
+  v0: [number, number, number],
+  v1: [number, number, number],
+  v2: [number, number, number],
+  cullBackFaces = false
+): RayHit {
+  const distance = intersectTriangle(
+    ray.origin,
+    ray.direction,
+    [...v0, ...v1, ...v2],
+    0, 1, 2,
+    cullBackFaces ? 1 : 0
+  );
+
+  if (distance < 0) {
+    return { hit: false, distance: Infinity, point: null };
+  }
+
+  return { hit: true, distance, point: pointAlongRay(ray, distance) };
+}
+
+/**
+ * Test ray intersection with the triangles of a mesh.
+ * The ray is moved into the mesh's model space, so non-uniform scale,
+ * rotation and parenting are handled exactly. Distances stay in world units.
+ *
+ * @param ray - The ray to test (world space)
+ * @param meshData - Mesh geometry (model space)
+ * @param modelMatrix - World transform of the mesh
+ * @param cullBackFaces - Ignore triangles facing away from the ray
+ * @returns The closest intersection
+ */
+export function rayMeshIntersection(
+  ray: Ray,
+  meshData: IMeshData,
+  modelMatrix: Float32Array,
+  cullBackFaces = false
+): RayHit {
+  const miss: RayHit = { hit: false, distance: Infinity, point: null };
+
+  const inv = mat4Inverse(modelMatrix);
+  if (!inv) return miss;
+
+  // Direction is not renormalized, so the ray parameter stays a world distance
+  const [ox, oy, oz] = ray.origin;
+  const [dx, dy, dz] = ray.direction;
+  const localOrigin: [number, number, number] = [
+    inv[0] * ox + inv[4] * oy + inv[8] * oz + inv[12],
+    inv[1] * ox + inv[5] * oy + inv[9] * oz + inv[13],
+    inv[2] * ox + inv[6] * oy + inv[10] * oz + inv[14],
+  ];
+  const localDirection: [number, number, number] = [
+    inv[0] * dx + inv[4] * dy + inv[8] * dz,
+    inv[1] * dx + inv[5] * dy + inv[9] * dz,
+    inv[2] * dx + inv[6] * dy + inv[10] * dz,
+  ];
+
+  // Skip meshes whose bounds the ray misses
+  const localRay: Ray = { origin: localOrigin, direction: localDirection };
+  if (!rayAABBIntersection(localRay, meshData.bounds).hit) {
+    return miss;
+  }
+
+  // A mirroring transform flips the winding seen on screen
+  let cull = 0;
+  if (cullBackFaces) {
+    cull = determinant3(modelMatrix) < 0 ? -1 : 1;
+  }
+
+  const { positions, indices } = meshData;
+  let closest = Infinity;
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const distance = intersectTriangle(
+      localOrigin,
+      localDirection,
+      positions,
+      indices[i],
+      indices[i + 1],
+      indices[i + 2],
+      cull
+    );
+    if (distance >= 0 && distance < closest) {
+      closest = distance;
+    }
+  }
+
+  if (closest === Infinity) return miss;
+
+  return { hit: true, distance: closest, point: pointAlongRay(ray, closest) };
+}
+
+/**
+ * Möller–Trumbore intersection against a triangle in a flat position array.
+ *
+ * @param cull - 1 to skip back faces, -1 to skip front faces, 0 for both sides
+ * @returns Distance along the ray, or -1 for a miss
+ */
+function intersectTriangle(
+  origin: [number, number, number],
+  direction: [number, number, number],
+  positions: ArrayLike<number>,
+  i0: number,
+  i1: number,
+  i2: number,
+  cull: number
+): number {
+  const ax = positions[i0 * 3];
+  const ay = positions[i0 * 3 + 1];
+  const az = positions[i0 * 3 + 2];
+
+  const e1x = positions[i1 * 3] - ax;
+  const e1y = positions[i1 * 3 + 1] - ay;
+  const e1z = positions[i1 * 3 + 2] - az;
+  const e2x = positions[i2 * 3] - ax;
+  const e2y = positions[i2 * 3 + 1] - ay;
+  const e2z = positions[i2 * 3 + 2] - az;
+
+  // p = direction x e2
+  const px = direction[1] * e2z - direction[2] * e2y;
+  const py = direction[2] * e2x - direction[0] * e2z;
+  const pz = direction[0] * e2y - direction[1] * e2x;
+
+  // Positive determinant: counter-clockwise (front face) as seen by the ray
+  const det = e1x * px + e1y * py + e1z * pz;
+  if (Math.abs(det) < TRIANGLE_EPSILON || det * cull < 0) return -1;
+
+  const invDet = 1 / det;
+  const tx = origin[0] - ax;
+  const ty = origin[1] - ay;
+  const tz = origin[2] - az;
+
+  const u = (tx * px + ty * py + tz * pz) * invDet;
+  if (u < -EDGE_TOLERANCE || u > 1 + EDGE_TOLERANCE) return -1;
+
+  // q = t x e1
+  const qx = ty * e1z - tz * e1y;
+  const qy = tz * e1x - tx * e1z;
+  const qz = tx * e1y - ty * e1x;
+
+  const v = (direction[0] * qx + direction[1] * qy + direction[2] * qz) * invDet;
+  if (v < -EDGE_TOLERANCE || u + v > 1 + EDGE_TOLERANCE) return -1;
+
+  const distance = (e2x * qx + e2y * qy + e2z * qz) * invDet;
+  return distance > TRIANGLE_EPSILON ? distance : -1;
+}
+
+/**
+ * Point at a distance along a ray.
+ */
+function pointAlongRay(ray: Ray, distance: number): [number, number, number] {
+  return [
+    ray.origin[0] + ray.direction[0] * distance,
+    ray.origin[1] + ray.direction[1] * distance,
+    ray.origin[2] + ray.direction[2] * distance,
+  ];
+}
+
+/**
+ * Determinant of the upper-left 3x3 of a column-major 4x4 matrix.
+ */
+function determinant3(m: Float32Array): number {
+  return (
+    m[0] * (m[5] * m[10] - m[9] * m[6]) -
+    m[4] * (m[1] * m[10] - m[9] * m[2]) +
+    m[8] * (m[1] * m[6] - m[5] * m[2])
+  );
+}
+
 /**
  * Create an AABB from a position and half-extents.
  *
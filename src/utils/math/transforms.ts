@@ -74,6 +74,42 @@ export function mat4Perspective(
   return out;
 }
 
+/**
+ * Create an orthographic projection matrix.
+ *
+ * @param left - Left clipping plane
+ * @param right - Right clipping plane
+ * @param bottom - Bottom clipping plane
+ * @param top - Top clipping plane
+ * @param near - Near clipping plane distance
+ * @param far - Far clipping plane distance
+ * @returns A new orthographic projection matrix
+ */
+export function mat4Orthographic(
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number
+): Mat4 {
+  const out = new Float32Array(16);
+  const lr = 1 / (left - right);
+  const bt = 1 / (bottom - top);
+  const nf = 1 / (near - far);
+
+  out[0] = -2 * lr;
+  out[5] = -2 * bt;
+  out[10] = 2 * nf;
+
+  out[12] = (left + right) * lr;
+  out[13] = (top + bottom) * bt;
+  out[14] = (far + near) * nf;
+  out[15] = 1;
+
+  return out;
+}
+
 /**
  * Create a look-at view matrix.
  *
@@ -317,6 +353,21 @@ export function vec3Dot(a: Vec3, b: Vec3): number {
   return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
 }
 
+/**
+ * Calculate the cross product of two 3D vectors.
+ *
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns A new vector perpendicular to both: a x b
+ */
+export function vec3Cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
 /**
  * Subtract two 3D vectors.
  *
@@ -467,3 +518,73 @@ export function normalMatrix(model: Mat4): Mat3 {
   const inverse = mat3Inverse(mat3);
   return mat3Transpose(inverse);
 }
+
+/**
+ * Compose a model matrix from a position, Euler rotation and scale.
+ * Uses the editor convention: Translation × RotationZ × RotationY × RotationX × Scale.
+ *
+ * @param position - Translation [x, y, z]
+ * @param rotation - Euler rotation in degrees [x, y, z]
+ * @param scale - Scale factors [x, y, z]
+ * @returns A new model matrix
+ */
+export function mat4FromTRS(position: Vec3, rotation: Vec3, scale: Vec3): Mat4 {
+  let model = mat4Multiply(
+    mat4Translation(position[0], position[1], position[2]),
+    mat4RotationZ(degToRad(rotation[2]))
+  );
+  model = mat4Multiply(model, mat4RotationY(degToRad(rotation[1])));
+  model = mat4Multiply(model, mat4RotationX(degToRad(rotation[0])));
+  return mat4Multiply(model, mat4Scale(scale[0], scale[1], scale[2]));
+}
+
+/**
+ * Decompose a model matrix into position, Euler rotation and scale.
+ * Inverse of mat4FromTRS for matrices without shear. A negative
+ * determinant is folded into the X scale.
+ *
+ * @param m - The matrix to decompose
+ * @returns Position, rotation in degrees and scale
+ */
+export function mat4Decompose(m: Mat4): { position: Vec3; rotation: Vec3; scale: Vec3 } {
+  let sx = Math.hypot(m[0], m[1], m[2]);
+  const sy = Math.hypot(m[4], m[5], m[6]);
+  const sz = Math.hypot(m[8], m[9], m[10]);
+
+  const det =
+    m[0] * (m[5] * m[10] - m[6] * m[9]) -
+    m[4] * (m[1] * m[10] - m[2] * m[9]) +
+    m[8] * (m[1] * m[6] - m[2] * m[5]);
+  if (det < 0) {
+    sx = -sx;
+  }
+
+  // Rotation matrix elements (row, column) with scale removed
+  const r00 = sx !== 0 ? m[0] / sx : 1;
+  const r10 = sx !== 0 ? m[1] / sx : 0;
+  const r20 = sx !== 0 ? m[2] / sx : 0;
+  const r11 = sy !== 0 ? m[5] / sy : 1;
+  const r21 = sy !== 0 ? m[6] / sy : 0;
+  const r12 = sz !== 0 ? m[9] / sz : 0;
+  const r22 = sz !== 0 ? m[10] / sz : 1;
+
+  // R = Rz × Ry × Rx, so r20 = -sin(y)
+  const sinY = Math.min(Math.max(-r20, -1), 1);
+  const y = Math.asin(sinY);
+  let x: number;
+  let z: number;
+  if (Math.abs(sinY) < 0.9999999) {
+    x = Math.atan2(r21, r22);
+    z = Math.atan2(r10, r00);
+  } else {
+    // Gimbal lock: only x ± z is defined, so put it all in x
+    x = Math.atan2(-r12, r11);
+    z = 0;
+  }
+
+  return {
+    position: [m[12], m[13], m[14]],
+    rotation: [radToDeg(x), radToDeg(y), radToDeg(z)],
+    scale: [sx, sy, sz],
+  };
+}
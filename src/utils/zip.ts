@@ -0,0 +1,303 @@
+/**
+ * ZIP Archive Utilities
+ *
+ * Minimal reader and writer for ZIP archives, enough to pack a project
+ * folder into one file and unpack it again. Entries are deflated with the
+ * browser's CompressionStream when that makes them smaller and stored
+ * otherwise. ZIP64, encryption and multi-disk archives are not supported.
+ *
+ * @example
+ * ```typescript
+ * import { createZip, readZip } from '@utils/zip';
+ *
+ * const bytes = await createZip([
+ *   { path: 'project.json', data: new TextEncoder().encode('{}') },
+ * ]);
+ * const entries = await readZip(bytes);
+ * ```
+ */
+
+/**
+ * A file inside a ZIP archive.
+ */
+export interface IZipEntry {
+  /** Path inside the archive, '/'-separated (e.g. "assets/materials/a.material.json") */
+  path: string;
+  /** Uncompressed file contents */
+  data: Uint8Array;
+  /** Modification time stored with the entry. Default: now */
+  lastModified?: Date;
+}
+
+/**
+ * Thrown when an archive cannot be read.
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/** General purpose flag: file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+const FLAG_ENCRYPTED = 0x0001;
+
+/** Version 2.0: deflate and folders */
+const ZIP_VERSION = 20;
+
+/** Largest size or offset representable without ZIP64 */
+const MAX_32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+/**
+ * Pack files into a ZIP archive.
+ *
+ * @param entries - Files to store; paths must be unique
+ * @returns The archive bytes
+ * @throws ZipFormatError if the archive would need ZIP64
+ */
+export async function createZip(entries: readonly IZipEntry[]): Promise<Uint8Array> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new ZipFormatError(`Too many files for a ZIP archive: ${entries.length}`);
+  }
+
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const deflated = await deflate(entry.data);
+    const compressed = deflated && deflated.length < entry.data.length ? deflated : entry.data;
+    const method = compressed === entry.data ? METHOD_STORE : METHOD_DEFLATE;
+    const [time, date] = toDosDateTime(entry.lastModified ?? new Date());
+
+    if (entry.data.length > MAX_32 || offset > MAX_32) {
+      throw new ZipFormatError(`Archive too large (ZIP64 is not supported): ${entry.path}`);
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, FLAG_UTF8, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, compressed.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, compressed);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize > MAX_32) {
+    throw new ZipFormatError('Archive too large (ZIP64 is not supported)');
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Unpack the files in a ZIP archive. Folder entries are skipped.
+ *
+ * @param archive - The archive bytes
+ * @returns Files in central directory order
+ * @throws ZipFormatError if the archive is malformed, encrypted, uses an
+ *         unsupported compression method, or fails its checksum
+ */
+export async function readZip(archive: Uint8Array): Promise<IZipEntry[]> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  const decoder = new TextDecoder();
+  const entries: IZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipFormatError('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) {
+      continue;
+    }
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipFormatError(`Encrypted entries are not supported: ${path}`);
+    }
+    if (localOffset + 30 > archive.length || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipFormatError(`Corrupt ZIP entry: ${path}`);
+    }
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > archive.length) {
+      throw new ZipFormatError(`Truncated ZIP entry: ${path}`);
+    }
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORE) {
+      data = compressed.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflate(compressed, path);
+    } else {
+      throw new ZipFormatError(`Unsupported compression method ${method}: ${path}`);
+    }
+
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new ZipFormatError(`Checksum mismatch: ${path}`);
+    }
+
+    entries.push({ path, data, lastModified: fromDosDateTime(time, date) });
+  }
+
+  return entries;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Locate the end of central directory record, which may be followed by a
+ * comment of up to 64 KiB.
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a ZIP archive');
+}
+
+/**
+ * Raw-deflate data, or return null where CompressionStream is unavailable.
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined' || data.length === 0) {
+    return null;
+  }
+  return pipe(data, new CompressionStream('deflate-raw'));
+}
+
+async function inflate(data: Uint8Array, path: string): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ZipFormatError(`Deflated entries are not supported in this browser: ${path}`);
+  }
+  try {
+    return await pipe(data, new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new ZipFormatError(`Corrupt compressed data: ${path}`);
+  }
+}
+
+async function pipe(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const written = writer.write(data).then(() => writer.close());
+  const [, output] = await Promise.all([written, new Response(stream.readable).arrayBuffer()]);
+  return new Uint8Array(output);
+}
+
+function concat(parts: readonly Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * MS-DOS time and date fields (local time, 2-second resolution, 1980+).
+ */
+function toDosDateTime(value: Date): [number, number] {
+  const year = Math.min(Math.max(value.getFullYear(), 1980), 2107);
+  const time = (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1);
+  const date = ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate();
+  return [time, date];
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,57 @@
+/**
+ * Camera Fixtures
+ *
+ * Provides ICamera objects for render pass and viewport tool tests.
+ */
+
+import type { ICamera } from '@core/interfaces';
+import { mat4Identity, mat4LookAt, mat4Multiply } from '@utils/math';
+
+/**
+ * Create a camera whose view and projection matrices are identity.
+ *
+ * @param overrides - Fields to replace on the default camera
+ * @returns A camera at [0, -10, 5] looking at the origin
+ */
+export function createCamera(overrides: Partial<ICamera> = {}): ICamera {
+  return {
+    position: [0, -10, 5],
+    target: [0, 0, 0],
+    up: [0, 0, 1],
+    fov: Math.PI / 3,
+    aspect: 1.5,
+    near: 0.1,
+    far: 1000,
+    getViewMatrix: () => mat4Identity(),
+    getProjectionMatrix: () => mat4Identity(),
+    getViewProjectionMatrix: () => mat4Identity(),
+    ...overrides,
+  };
+}
+
+/**
+ * Create a camera looking from a position at the origin.
+ *
+ * @param position - Camera position in world space
+ * @param projection - Projection matrix
+ * @param overrides - Fields to replace; target and up also shape the view matrix
+ * @returns A Z-up camera unless overrides.up is given
+ */
+export function createLookAtCamera(
+  position: [number, number, number],
+  projection: Float32Array,
+  overrides: Partial<ICamera> = {}
+): ICamera {
+  const target = overrides.target ?? [0, 0, 0];
+  const up = overrides.up ?? [0, 0, 1];
+  const view = mat4LookAt(position, target, up);
+  return createCamera({
+    position,
+    target,
+    up,
+    getViewMatrix: () => view,
+    getProjectionMatrix: () => projection,
+    getViewProjectionMatrix: () => mat4Multiply(projection, view),
+    ...overrides,
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Image Comparison Utilities
+ *
+ * Per-pixel comparison of RGBA8 images with a channel tolerance, and
+ * golden-image assertions backed by PNG files in tests/golden/.
+ *
+ * Goldens are written when missing (outside CI) or when the
+ * UPDATE_GOLDEN environment variable is set:
+ *
+ *   UPDATE_GOLDEN=1 npx vitest run tests/unit/plugins/renderers
+ *
+ * When an image does not match, the actual image and a diff (differing
+ * pixels in red over a faded copy of the golden) are written to
+ * tests/golden/__diff__/ for inspection.
+ */
+
+import { expect } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { deflateSync, inflateSync } from 'node:zlib';
+import type { SoftwareImage } from './software-gl';
+
+/**
+ * Tolerances for an image comparison.
+ */
+export interface ImageCompareOptions {
+  /** Largest per-channel difference (0-255) still counted as equal. Default: 2 */
+  channelTolerance?: number;
+  /** Number of differing pixels allowed before the images mismatch. Default: 0 */
+  maxDifferentPixels?: number;
+}
+
+/**
+ * Result of comparing two images.
+ */
+export interface ImageComparison {
+  /** Whether the images match within the tolerances */
+  readonly matches: boolean;
+  /** Pixels with any channel differing by more than the tolerance */
+  readonly differentPixels: number;
+  /** Largest per-channel difference over all pixels */
+  readonly maxChannelDifference: number;
+  /** Differing pixels in red over a faded copy of the expected image */
+  readonly diff: SoftwareImage;
+}
+
+/** Resolved from the project root, where vitest runs */
+const GOLDEN_DIR = resolve('tests', 'golden');
+const DIFF_DIR = join(GOLDEN_DIR, '__diff__');
+
+/**
+ * Compare two images pixel by pixel.
+ *
+ * @throws Error if the images differ in size
+ */
+export function compareImages(
+  actual: SoftwareImage,
+  expected: SoftwareImage,
+  options: ImageCompareOptions = {}
+): ImageComparison {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Image size ${actual.width}x${actual.height} does not match ${expected.width}x${expected.height}`
+    );
+  }
+
+  const channelTolerance = options.channelTolerance ?? 2;
+  const maxDifferentPixels = options.maxDifferentPixels ?? 0;
+  const diff = new Uint8ClampedArray(actual.data.length);
+  let differentPixels = 0;
+  let maxChannelDifference = 0;
+
+  for (let i = 0; i < actual.data.length; i += 4) {
+    let pixelDifference = 0;
+    for (let c = 0; c < 4; c++) {
+      pixelDifference = Math.max(pixelDifference, Math.abs(actual.data[i + c] - expected.data[i + c]));
+    }
+    maxChannelDifference = Math.max(maxChannelDifference, pixelDifference);
+
+    if (pixelDifference > channelTolerance) {
+      differentPixels++;
+      diff.set([255, 0, 0, 255], i);
+    } else {
+      const gray = (expected.data[i] + expected.data[i + 1] + expected.data[i + 2]) / 3;
+      const faded = 255 - (255 - gray) * 0.25;
+      diff.set([faded, faded, faded, 255], i);
+    }
+  }
+
+  return {
+    matches: differentPixels <= maxDifferentPixels,
+    differentPixels,
+    maxChannelDifference,
+    diff: { width: actual.width, height: actual.height, data: diff },
+  };
+}
+
+/**
+ * Assert that an image matches its golden file (tests/golden/<name>.png).
+ *
+ * @param image - Rendered image
+ * @param name - Golden file name without extension
+ * @param options - Comparison tolerances
+ */
+export function expectToMatchGolden(
+  image: SoftwareImage,
+  name: string,
+  options: ImageCompareOptions = {}
+): void {
+  const goldenPath = join(GOLDEN_DIR, `${name}.png`);
+  const exists = existsSync(goldenPath);
+
+  if (process.env.UPDATE_GOLDEN || (!exists && !process.env.CI)) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(goldenPath, encodePNG(image));
+    return;
+  }
+
+  expect(exists, `Missing golden image ${name}.png (run with UPDATE_GOLDEN=1 to create it)`).toBe(true);
+
+  const comparison = compareImages(image, decodePNG(readFileSync(goldenPath)), options);
+  if (!comparison.matches) {
+    mkdirSync(DIFF_DIR, { recursive: true });
+    writeFileSync(join(DIFF_DIR, `${name}.actual.png`), encodePNG(image));
+    writeFileSync(join(DIFF_DIR, `${name}.diff.png`), encodePNG(comparison.diff));
+  }
+
+  expect(
+    comparison.differentPixels,
+    `${comparison.differentPixels} pixels differ from ${name}.png ` +
+      `(max channel difference ${comparison.maxChannelDifference}); see tests/golden/__diff__/`
+  ).toBeLessThanOrEqual(options.maxDifferentPixels ?? 0);
+}
+
+/**
+ * Read the RGBA value of one pixel (origin top-left).
+ */
+export function getPixel(image: SoftwareImage, x: number, y: number): [number, number, number, number] {
+  const i = (y * image.width + x) * 4;
+  return [image.data[i], image.data[i + 1], image.data[i + 2], image.data[i + 3]];
+}
+
+// -----------------------------------------------------------------------------
+// PNG (8-bit RGBA, non-interlaced)
+// -----------------------------------------------------------------------------
+
+const PNG_SIGNATURE = Uint8Array.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  chunk.set(data, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+/**
+ * Encode an RGBA8 image as a PNG file (no row filtering).
+ */
+export function encodePNG(image: SoftwareImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit, RGBA, deflate, no filter, no interlace
+
+  const rowBytes = image.width * 4;
+  const raw = Buffer.alloc((rowBytes + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    raw.set(image.data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflateSync(raw)),
+    createChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * Decode an 8-bit RGB or RGBA non-interlaced PNG file.
+ *
+ * @throws Error for other PNG formats
+ */
+export function decodePNG(file: Uint8Array): SoftwareImage {
+  const bytes = Buffer.from(file.buffer, file.byteOffset, file.byteLength);
+  if (!bytes.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 4;
+  const compressed: Buffer[] = [];
+
+  for (let offset = 8; offset < bytes.length;) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString('ascii', offset + 4, offset + 8);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      const [bitDepth, colorType, , , interlace] = data.subarray(8, 13);
+      if (bitDepth !== 8 || (colorType !== 6 && colorType !== 2) || interlace !== 0) {
+        throw new Error('Only 8-bit RGB/RGBA non-interlaced PNG files are supported');
+      }
+      channels = colorType === 6 ? 4 : 3;
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const raw = inflateSync(Buffer.concat(compressed));
+  const rowBytes = width * channels;
+  const pixels = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowBytes + 1)];
+    const row = raw.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1));
+    const out = pixels.subarray(y * rowBytes, (y + 1) * rowBytes);
+    const previous = y > 0 ? pixels.subarray((y - 1) * rowBytes, y * rowBytes) : null;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= channels ? out[x - channels] : 0;
+      const up = previous ? previous[x] : 0;
+      const upLeft = previous && x >= channels ? previous[x - channels] : 0;
+      out[x] = row[x] + unfilterPredictor(filter, left, up, upLeft);
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += channels) {
+    data[i] = pixels[j];
+    data[i + 1] = pixels[j + 1];
+    data[i + 2] = pixels[j + 2];
+    data[i + 3] = channels === 4 ? pixels[j + 3] : 255;
+  }
+  return { width, height, data };
+}
+
+/**
+ * Predictor added back to a filtered byte (PNG filter types 0-4).
+ */
+function unfilterPredictor(filter: number, left: number, up: number, upLeft: number): number {
+  switch (filter) {
+    case 1: return left;
+    case 2: return up;
+    case 3: return (left + up) >>> 1;
+    case 4: {
+      const p = left + up - upLeft;
+      const pa = Math.abs(p - left);
+      const pb = Math.abs(p - up);
+      const pc = Math.abs(p - upLeft);
+      return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+    }
+    default: return 0;
+  }
+}
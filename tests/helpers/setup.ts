@@ -8,6 +8,42 @@ afterEach(() => {
   vi.clearAllMocks();
 });
 
+/**
+ * jsdom's Blob lacks the promise-based readers that File System Access
+ * code (and the in-memory storage backend) relies on.
+ */
+function readBlob(blob: Blob, asText: boolean): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result);
+    reader.onerror = () => reject(reader.error);
+    if (asText) {
+      reader.readAsText(blob);
+    } else {
+      reader.readAsArrayBuffer(blob);
+    }
+  });
+}
+
+if (typeof Blob.prototype.arrayBuffer !== 'function') {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    // Copy into a Node-allocated buffer: Node APIs such as crypto.subtle
+    // reject ArrayBuffers from jsdom's realm
+    return readBlob(this, false).then((result) => {
+      const bytes = new Uint8Array(result as ArrayBuffer);
+      const copy = Buffer.alloc(bytes.length);
+      copy.set(bytes);
+      return copy.buffer;
+    });
+  };
+}
+
+if (typeof Blob.prototype.text !== 'function') {
+  Blob.prototype.text = function (this: Blob) {
+    return readBlob(this, true) as Promise<string>;
+  };
+}
+
 global.ResizeObserver = vi.fn().mockImplementation(() => ({
   observe: vi.fn(),
   unobserve: vi.fn(),
@@ -0,0 +1,1230 @@
+/**
+ * Software WebGL2 Context
+ *
+ * A CPU implementation of the WebGL2 subset used by the forward renderer,
+ * so whole frames can be rendered in Node without a GPU.
+ *
+ * Programs are matched to CPU stand-ins by their GLSL sources (see
+ * software-shaders.ts). Draws are rasterized into the default framebuffer
+ * with GL conventions: near-plane clipping, perspective-correct varyings,
+ * the top-left fill rule, face culling, depth testing and alpha blending.
+ * Draws with programs that have no stand-in, or into other framebuffers
+ * (such as shadow maps), are skipped and counted.
+ *
+ * @example
+ * ```typescript
+ * const softwareGL = createSoftwareGL(64, 48);
+ * const gl = softwareGL as unknown as WebGL2RenderingContext;
+ * await renderer.initialize({ gl, ... } as IPluginContext);
+ * renderer.beginFrame(camera);
+ * renderer.render(scene);
+ * const pixels = new Uint8Array(64 * 48 * 4);
+ * gl.readPixels(0, 0, 64, 48, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+ * ```
+ */
+
+import { BUILT_IN_SOFTWARE_PROGRAMS } from './software-shaders';
+
+/**
+ * Four-component vector (clip positions, colors and texels).
+ */
+export type Vec4 = [number, number, number, number];
+
+/**
+ * Uniform values and samplers available to a software program.
+ * Uniforms that were never set read as zero, as in GL.
+ */
+export interface SoftwareUniforms {
+  float(name: string, index?: number): number;
+  int(name: string, index?: number): number;
+  bool(name: string): boolean;
+  vec2(name: string, index?: number): [number, number];
+  vec3(name: string, index?: number): [number, number, number];
+  /** Column-major 3x3 matrix */
+  mat3(name: string): ArrayLike<number>;
+  /** Column-major 4x4 matrix */
+  mat4(name: string): ArrayLike<number>;
+  /** Sample the 2D texture bound to a sampler uniform */
+  texture(name: string, u: number, v: number): Vec4;
+  /** Fetch one texel of the 2D texture bound to a sampler uniform */
+  texelFetch(name: string, x: number, y: number): Vec4;
+}
+
+/**
+ * CPU stand-in for a GLSL program.
+ */
+export interface SoftwareShaderProgram {
+  /** Vertex shader source this program stands in for */
+  readonly vertexSource: string;
+  /** Fragment shader source this program stands in for */
+  readonly fragmentSource: string;
+  /** Vertex attribute names, in location order */
+  readonly attributes: readonly string[];
+  /** Uniform names; getUniformLocation returns null for any other name */
+  readonly uniforms: readonly string[];
+  /** Number of floats passed from the vertex to the fragment stage */
+  readonly varyingCount: number;
+  /**
+   * Vertex stage.
+   *
+   * @param attributes - Attribute values in location order (missing components are 0, 0, 0, 1)
+   * @param uniforms - Uniform values
+   * @param varyings - Outputs for the fragment stage
+   * @returns Clip-space position
+   */
+  vertex(attributes: readonly Vec4[], uniforms: SoftwareUniforms, varyings: Float32Array): Vec4;
+  /**
+   * Fragment stage.
+   *
+   * @param varyings - Perspective-correct interpolated vertex outputs
+   * @param uniforms - Uniform values
+   * @returns Output color, or null to discard the fragment
+   */
+  fragment(varyings: Float32Array, uniforms: SoftwareUniforms): Vec4 | null;
+}
+
+/**
+ * An RGBA8 image with rows ordered top to bottom.
+ */
+export interface SoftwareImage {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+}
+
+class SoftwareBuffer {
+  data = new ArrayBuffer(0);
+}
+
+class SoftwareShader {
+  source = '';
+  constructor(readonly type: number) {}
+}
+
+class SoftwareTexture {
+  target = 0;
+  width = 0;
+  height = 0;
+  internalFormat = 0;
+  /** Texel data (RGBA8 bytes or RGBA32F floats); null when not uploaded from memory */
+  data: Uint8Array | Float32Array | null = null;
+  readonly parameters = new Map<number, number>();
+}
+
+class SoftwareProgram {
+  readonly shaders: SoftwareShader[] = [];
+  definition: SoftwareShaderProgram | null = null;
+  linked = false;
+  readonly uniformValues = new Map<string, Float32Array>();
+}
+
+interface SoftwareUniformLocation {
+  readonly program: SoftwareProgram;
+  readonly name: string;
+}
+
+interface VertexAttribute {
+  enabled: boolean;
+  buffer: SoftwareBuffer | null;
+  size: number;
+  type: number;
+  normalized: boolean;
+  stride: number;
+  offset: number;
+}
+
+class SoftwareVertexArray {
+  readonly attributes = new Map<number, VertexAttribute>();
+  elementBuffer: SoftwareBuffer | null = null;
+}
+
+/** Framebuffers other than the default one are accepted but never drawn into */
+class SoftwareFramebuffer {}
+
+/**
+ * A vertex after the vertex stage.
+ */
+interface ShadedVertex {
+  readonly position: Vec4;
+  readonly varyings: Float32Array;
+}
+
+/**
+ * A vertex in window coordinates.
+ */
+interface WindowVertex {
+  readonly x: number;
+  readonly y: number;
+  readonly z: number;
+  /** 1 / clip w, for perspective-correct interpolation */
+  readonly invW: number;
+  readonly varyings: Float32Array;
+}
+
+const BYTES_PER_COMPONENT: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5124: 4, // INT
+  5125: 4, // UNSIGNED_INT
+  5126: 4, // FLOAT
+};
+
+/**
+ * Software WebGL2 context. Cast to WebGL2RenderingContext to hand it to
+ * renderer code; methods outside the supported subset are absent.
+ */
+export class SoftwareGL {
+  // Constants
+  readonly NO_ERROR = 0;
+  readonly NONE = 0;
+  readonly ZERO = 0;
+  readonly ONE = 1;
+  readonly LINES = 1;
+  readonly TRIANGLES = 4;
+  readonly DEPTH_BUFFER_BIT = 256;
+  readonly COLOR_BUFFER_BIT = 16384;
+  readonly NEVER = 512;
+  readonly LESS = 513;
+  readonly EQUAL = 514;
+  readonly LEQUAL = 515;
+  readonly GREATER = 516;
+  readonly NOTEQUAL = 517;
+  readonly GEQUAL = 518;
+  readonly ALWAYS = 519;
+  readonly SRC_COLOR = 768;
+  readonly ONE_MINUS_SRC_COLOR = 769;
+  readonly SRC_ALPHA = 770;
+  readonly ONE_MINUS_SRC_ALPHA = 771;
+  readonly DST_ALPHA = 772;
+  readonly ONE_MINUS_DST_ALPHA = 773;
+  readonly FRONT = 1028;
+  readonly BACK = 1029;
+  readonly FRONT_AND_BACK = 1032;
+  readonly CW = 2304;
+  readonly CCW = 2305;
+  readonly CULL_FACE = 2884;
+  readonly DEPTH_TEST = 2929;
+  readonly VIEWPORT = 2978;
+  readonly BLEND = 3042;
+  readonly MAX_TEXTURE_SIZE = 3379;
+  readonly TEXTURE_2D = 3553;
+  readonly BYTE = 5120;
+  readonly UNSIGNED_BYTE = 5121;
+  readonly SHORT = 5122;
+  readonly UNSIGNED_SHORT = 5123;
+  readonly INT = 5124;
+  readonly UNSIGNED_INT = 5125;
+  readonly FLOAT = 5126;
+  readonly RGB = 6407;
+  readonly RGBA = 6408;
+  readonly NEAREST = 9728;
+  readonly LINEAR = 9729;
+  readonly NEAREST_MIPMAP_NEAREST = 9984;
+  readonly LINEAR_MIPMAP_NEAREST = 9985;
+  readonly NEAREST_MIPMAP_LINEAR = 9986;
+  readonly LINEAR_MIPMAP_LINEAR = 9987;
+  readonly TEXTURE_MAG_FILTER = 10240;
+  readonly TEXTURE_MIN_FILTER = 10241;
+  readonly TEXTURE_WRAP_S = 10242;
+  readonly TEXTURE_WRAP_T = 10243;
+  readonly REPEAT = 10497;
+  readonly POLYGON_OFFSET_FILL = 32823;
+  readonly RGBA8 = 32856;
+  readonly CLAMP_TO_EDGE = 33071;
+  readonly RG = 33319;
+  readonly RG16F = 33327;
+  readonly DEPTH_COMPONENT24 = 33190;
+  readonly TEXTURE0 = 33984;
+  readonly MIRRORED_REPEAT = 33648;
+  readonly RGBA32F = 34836;
+  readonly RGBA16F = 34842;
+  readonly TEXTURE_COMPARE_MODE = 34892;
+  readonly TEXTURE_COMPARE_FUNC = 34893;
+  readonly COMPARE_REF_TO_TEXTURE = 34894;
+  readonly ARRAY_BUFFER = 34962;
+  readonly ELEMENT_ARRAY_BUFFER = 34963;
+  readonly STATIC_DRAW = 35044;
+  readonly DYNAMIC_DRAW = 35048;
+  readonly FRAGMENT_SHADER = 35632;
+  readonly VERTEX_SHADER = 35633;
+  readonly COMPILE_STATUS = 35713;
+  readonly LINK_STATUS = 35714;
+  readonly CURRENT_PROGRAM = 35725;
+  readonly TEXTURE_2D_ARRAY = 35866;
+  readonly SRGB8_ALPHA8 = 35907;
+  readonly DEPTH_COMPONENT32F = 36012;
+  readonly FRAMEBUFFER_BINDING = 36006;
+  readonly FRAMEBUFFER_COMPLETE = 36053;
+  readonly COLOR_ATTACHMENT0 = 36064;
+  readonly DEPTH_ATTACHMENT = 36096;
+  readonly FRAMEBUFFER = 36160;
+
+  readonly drawingBufferWidth: number;
+  readonly drawingBufferHeight: number;
+
+  /** Draws rasterized into the default framebuffer */
+  drawCount = 0;
+  /** Draws skipped: unknown program, other framebuffer or unsupported mode */
+  skippedDrawCount = 0;
+
+  private readonly programs: readonly SoftwareShaderProgram[];
+  private readonly color: Uint8ClampedArray;
+  private readonly depth: Float32Array;
+
+  private readonly capabilities = new Set<number>();
+  private viewportRect: [number, number, number, number];
+  private clearColorValue: Vec4 = [0, 0, 0, 0];
+  private clearDepthValue = 1;
+  private depthFuncValue = this.LESS;
+  private depthWrite = true;
+  private cullFaceMode = this.BACK;
+  private frontFaceMode = this.CCW;
+  private blendSource = this.ONE;
+  private blendDestination = this.ZERO;
+
+  private currentProgram: SoftwareProgram | null = null;
+  private framebuffer: SoftwareFramebuffer | null = null;
+  private arrayBuffer: SoftwareBuffer | null = null;
+  private readonly defaultVertexArray = new SoftwareVertexArray();
+  private vertexArray = this.defaultVertexArray;
+  private activeUnit = 0;
+  private readonly textureUnits = new Map<number, Map<number, SoftwareTexture | null>>();
+
+  /**
+   * @param width - Drawing buffer width in pixels
+   * @param height - Drawing buffer height in pixels
+   * @param programs - CPU stand-ins for the GLSL programs that may be linked
+   */
+  constructor(width: number, height: number, programs: readonly SoftwareShaderProgram[]) {
+    this.drawingBufferWidth = width;
+    this.drawingBufferHeight = height;
+    this.programs = programs;
+    this.color = new Uint8ClampedArray(width * height * 4);
+    this.depth = new Float32Array(width * height).fill(1);
+    this.viewportRect = [0, 0, width, height];
+  }
+
+  /**
+   * Copy the default framebuffer, rows ordered top to bottom.
+   */
+  getImage(): SoftwareImage {
+    const { drawingBufferWidth: width, drawingBufferHeight: height } = this;
+    const data = new Uint8ClampedArray(width * height * 4);
+    const rowBytes = width * 4;
+    for (let y = 0; y < height; y++) {
+      const source = (height - 1 - y) * rowBytes;
+      data.set(this.color.subarray(source, source + rowBytes), y * rowBytes);
+    }
+    return { width, height, data };
+  }
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+
+  enable(capability: number): void {
+    this.capabilities.add(capability);
+  }
+
+  disable(capability: number): void {
+    this.capabilities.delete(capability);
+  }
+
+  isEnabled(capability: number): boolean {
+    return this.capabilities.has(capability);
+  }
+
+  viewport(x: number, y: number, width: number, height: number): void {
+    this.viewportRect = [x, y, width, height];
+  }
+
+  depthFunc(func: number): void {
+    this.depthFuncValue = func;
+  }
+
+  depthMask(flag: boolean): void {
+    this.depthWrite = flag;
+  }
+
+  cullFace(mode: number): void {
+    this.cullFaceMode = mode;
+  }
+
+  frontFace(mode: number): void {
+    this.frontFaceMode = mode;
+  }
+
+  blendFunc(source: number, destination: number): void {
+    this.blendSource = source;
+    this.blendDestination = destination;
+  }
+
+  polygonOffset(_factor: number, _units: number): void {
+    // Only affects depth-only passes, which are not rasterized
+  }
+
+  clearColor(r: number, g: number, b: number, a: number): void {
+    this.clearColorValue = [r, g, b, a];
+  }
+
+  clearDepth(depth: number): void {
+    this.clearDepthValue = depth;
+  }
+
+  clear(mask: number): void {
+    if (this.framebuffer) return;
+
+    if (mask & this.COLOR_BUFFER_BIT) {
+      const [r, g, b, a] = this.clearColorValue.map(toUnorm8);
+      for (let i = 0; i < this.color.length; i += 4) {
+        this.color[i] = r;
+        this.color[i + 1] = g;
+        this.color[i + 2] = b;
+        this.color[i + 3] = a;
+      }
+    }
+    if (mask & this.DEPTH_BUFFER_BIT) {
+      this.depth.fill(clamp01(this.clearDepthValue));
+    }
+  }
+
+  getParameter(name: number): unknown {
+    switch (name) {
+      case this.VIEWPORT:
+        return new Int32Array(this.viewportRect);
+      case this.FRAMEBUFFER_BINDING:
+        return this.framebuffer;
+      case this.CURRENT_PROGRAM:
+        return this.currentProgram;
+      case this.MAX_TEXTURE_SIZE:
+        return 4096;
+      default:
+        return null;
+    }
+  }
+
+  getExtension(_name: string): null {
+    return null;
+  }
+
+  getError(): number {
+    return this.NO_ERROR;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shaders and programs
+  // ---------------------------------------------------------------------------
+
+  createShader(type: number): SoftwareShader {
+    return new SoftwareShader(type);
+  }
+
+  shaderSource(shader: SoftwareShader, source: string): void {
+    shader.source = source;
+  }
+
+  compileShader(_shader: SoftwareShader): void {
+    // Sources are matched to software programs at link time
+  }
+
+  getShaderParameter(_shader: SoftwareShader, _name: number): boolean {
+    return true;
+  }
+
+  getShaderInfoLog(_shader: SoftwareShader): string {
+    return '';
+  }
+
+  deleteShader(_shader: SoftwareShader | null): void {
+    // Nothing to release
+  }
+
+  createProgram(): SoftwareProgram {
+    return new SoftwareProgram();
+  }
+
+  attachShader(program: SoftwareProgram, shader: SoftwareShader): void {
+    program.shaders.push(shader);
+  }
+
+  linkProgram(program: SoftwareProgram): void {
+    const vertex = program.shaders.find((shader) => shader.type === this.VERTEX_SHADER);
+    const fragment = program.shaders.find((shader) => shader.type === this.FRAGMENT_SHADER);
+
+    // Programs without a stand-in still link, so their draws can be skipped
+    program.definition = this.programs.find((definition) =>
+      definition.vertexSource === vertex?.source && definition.fragmentSource === fragment?.source
+    ) ?? null;
+    program.linked = true;
+  }
+
+  getProgramParameter(program: SoftwareProgram, _name: number): boolean {
+    return program.linked;
+  }
+
+  getProgramInfoLog(_program: SoftwareProgram): string {
+    return '';
+  }
+
+  useProgram(program: SoftwareProgram | null): void {
+    this.currentProgram = program;
+  }
+
+  deleteProgram(program: SoftwareProgram | null): void {
+    if (program && this.currentProgram === program) {
+      this.currentProgram = null;
+    }
+  }
+
+  getAttribLocation(program: SoftwareProgram, name: string): number {
+    return program.definition?.attributes.indexOf(name) ?? -1;
+  }
+
+  getUniformLocation(program: SoftwareProgram, name: string): SoftwareUniformLocation | null {
+    if (program.definition && !program.definition.uniforms.includes(name)) {
+      return null;
+    }
+    return { program, name };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Uniforms
+  // ---------------------------------------------------------------------------
+
+  uniform1f(location: SoftwareUniformLocation | null, x: number): void {
+    this.setUniform(location, [x]);
+  }
+
+  uniform2f(location: SoftwareUniformLocation | null, x: number, y: number): void {
+    this.setUniform(location, [x, y]);
+  }
+
+  uniform3f(location: SoftwareUniformLocation | null, x: number, y: number, z: number): void {
+    this.setUniform(location, [x, y, z]);
+  }
+
+  uniform4f(location: SoftwareUniformLocation | null, x: number, y: number, z: number, w: number): void {
+    this.setUniform(location, [x, y, z, w]);
+  }
+
+  uniform1i(location: SoftwareUniformLocation | null, x: number): void {
+    this.setUniform(location, [x]);
+  }
+
+  uniform1fv(location: SoftwareUniformLocation | null, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  uniform2fv(location: SoftwareUniformLocation | null, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  uniform3fv(location: SoftwareUniformLocation | null, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  uniform4fv(location: SoftwareUniformLocation | null, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  uniform1iv(location: SoftwareUniformLocation | null, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  uniformMatrix3fv(location: SoftwareUniformLocation | null, _transpose: boolean, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  uniformMatrix4fv(location: SoftwareUniformLocation | null, _transpose: boolean, values: ArrayLike<number>): void {
+    this.setUniform(location, values);
+  }
+
+  private setUniform(location: SoftwareUniformLocation | null, values: ArrayLike<number>): void {
+    if (!location) return;
+    location.program.uniformValues.set(location.name, Float32Array.from(values));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Buffers and vertex arrays
+  // ---------------------------------------------------------------------------
+
+  createBuffer(): SoftwareBuffer {
+    return new SoftwareBuffer();
+  }
+
+  bindBuffer(target: number, buffer: SoftwareBuffer | null): void {
+    if (target === this.ELEMENT_ARRAY_BUFFER) {
+      this.vertexArray.elementBuffer = buffer;
+    } else {
+      this.arrayBuffer = buffer;
+    }
+  }
+
+  bufferData(target: number, data: ArrayBufferView | number, _usage: number): void {
+    const buffer = target === this.ELEMENT_ARRAY_BUFFER ? this.vertexArray.elementBuffer : this.arrayBuffer;
+    if (!buffer) return;
+
+    buffer.data = typeof data === 'number'
+      ? new ArrayBuffer(data)
+      : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  }
+
+  deleteBuffer(_buffer: SoftwareBuffer | null): void {
+    // Released with the last reference
+  }
+
+  createVertexArray(): SoftwareVertexArray {
+    return new SoftwareVertexArray();
+  }
+
+  bindVertexArray(vertexArray: SoftwareVertexArray | null): void {
+    this.vertexArray = vertexArray ?? this.defaultVertexArray;
+  }
+
+  deleteVertexArray(_vertexArray: SoftwareVertexArray | null): void {
+    // Released with the last reference
+  }
+
+  enableVertexAttribArray(index: number): void {
+    this.getAttribute(index).enabled = true;
+  }
+
+  disableVertexAttribArray(index: number): void {
+    this.getAttribute(index).enabled = false;
+  }
+
+  vertexAttribPointer(
+    index: number,
+    size: number,
+    type: number,
+    normalized: boolean,
+    stride: number,
+    offset: number
+  ): void {
+    Object.assign(this.getAttribute(index), {
+      buffer: this.arrayBuffer,
+      size,
+      type,
+      normalized,
+      stride,
+      offset,
+    });
+  }
+
+  private getAttribute(index: number): VertexAttribute {
+    let attribute = this.vertexArray.attributes.get(index);
+    if (!attribute) {
+      attribute = {
+        enabled: false,
+        buffer: null,
+        size: 4,
+        type: this.FLOAT,
+        normalized: false,
+        stride: 0,
+        offset: 0,
+      };
+      this.vertexArray.attributes.set(index, attribute);
+    }
+    return attribute;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Textures
+  // ---------------------------------------------------------------------------
+
+  createTexture(): SoftwareTexture {
+    return new SoftwareTexture();
+  }
+
+  activeTexture(unit: number): void {
+    this.activeUnit = unit - this.TEXTURE0;
+  }
+
+  bindTexture(target: number, texture: SoftwareTexture | null): void {
+    let unit = this.textureUnits.get(this.activeUnit);
+    if (!unit) {
+      unit = new Map();
+      this.textureUnits.set(this.activeUnit, unit);
+    }
+    unit.set(target, texture);
+    if (texture) texture.target = target;
+  }
+
+  deleteTexture(_texture: SoftwareTexture | null): void {
+    // Released with the last reference
+  }
+
+  texParameteri(target: number, name: number, value: number): void {
+    this.getBoundTexture(target)?.parameters.set(name, value);
+  }
+
+  texParameterf(target: number, name: number, value: number): void {
+    this.getBoundTexture(target)?.parameters.set(name, value);
+  }
+
+  /**
+   * Upload texels from memory (9 arguments) or from an image source
+   * (6 arguments). Image sources are not decoded, so they sample as an
+   * incomplete texture. RG and RGB texels are stored as RGBA.
+   */
+  texImage2D(target: number, _level: number, internalFormat: number, ...rest: unknown[]): void {
+    const texture = this.getBoundTexture(target);
+    if (!texture) return;
+
+    texture.internalFormat = internalFormat;
+    if (rest.length < 6) {
+      texture.width = 0;
+      texture.height = 0;
+      texture.data = null;
+      return;
+    }
+
+    const [width, height, , format, type, pixels] = rest as [number, number, number, number, number, ArrayBufferView | null];
+    texture.width = width;
+    texture.height = height;
+    if (!pixels) {
+      texture.data = null;
+      return;
+    }
+
+    const channels = format === this.RG ? 2 : format === this.RGB ? 3 : 4;
+    const source = type === this.FLOAT
+      ? new Float32Array(pixels.buffer, pixels.byteOffset, width * height * channels)
+      : new Uint8Array(pixels.buffer, pixels.byteOffset, width * height * channels);
+    texture.data = expandToRGBA(source, channels, type === this.FLOAT ? 1 : 255);
+  }
+
+  texStorage2D(target: number, _levels: number, internalFormat: number, width: number, height: number): void {
+    const texture = this.getBoundTexture(target);
+    if (!texture) return;
+    Object.assign(texture, { internalFormat, width, height, data: null });
+  }
+
+  texStorage3D(
+    target: number,
+    _levels: number,
+    internalFormat: number,
+    width: number,
+    height: number,
+    _depth: number
+  ): void {
+    // Storage is not allocated: depth arrays are only written by skipped shadow draws
+    this.texStorage2D(target, 1, internalFormat, width, height);
+  }
+
+  generateMipmap(_target: number): void {
+    // Sampling always reads the base level
+  }
+
+  private getBoundTexture(target: number): SoftwareTexture | null {
+    return this.textureUnits.get(this.activeUnit)?.get(target) ?? null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Framebuffers
+  // ---------------------------------------------------------------------------
+
+  createFramebuffer(): SoftwareFramebuffer {
+    return new SoftwareFramebuffer();
+  }
+
+  bindFramebuffer(_target: number, framebuffer: SoftwareFramebuffer | null): void {
+    this.framebuffer = framebuffer;
+  }
+
+  deleteFramebuffer(_framebuffer: SoftwareFramebuffer | null): void {
+    // Released with the last reference
+  }
+
+  framebufferTexture2D(): void {
+    // Attachments of other framebuffers are never drawn into
+  }
+
+  framebufferTextureLayer(): void {
+    // Attachments of other framebuffers are never drawn into
+  }
+
+  checkFramebufferStatus(_target: number): number {
+    return this.FRAMEBUFFER_COMPLETE;
+  }
+
+  drawBuffers(_buffers: number[]): void {
+    // Only the default framebuffer's single color buffer is drawn
+  }
+
+  readBuffer(_source: number): void {
+    // Reads always come from the default framebuffer
+  }
+
+  /**
+   * Read RGBA8 pixels, rows ordered bottom to top as in GL. Reads from
+   * other framebuffers return zeros.
+   */
+  readPixels(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    _format: number,
+    _type: number,
+    pixels: ArrayBufferView
+  ): void {
+    const out = new Uint8Array(pixels.buffer, pixels.byteOffset, width * height * 4);
+    out.fill(0);
+    if (this.framebuffer) return;
+
+    for (let row = 0; row < height; row++) {
+      for (let column = 0; column < width; column++) {
+        const px = x + column;
+        const py = y + row;
+        if (px < 0 || py < 0 || px >= this.drawingBufferWidth || py >= this.drawingBufferHeight) continue;
+        const source = (py * this.drawingBufferWidth + px) * 4;
+        out.set(this.color.subarray(source, source + 4), (row * width + column) * 4);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Drawing
+  // ---------------------------------------------------------------------------
+
+  drawArrays(mode: number, first: number, count: number): void {
+    const indices = Array.from({ length: count }, (_, i) => first + i);
+    this.drawTriangles(mode, indices);
+  }
+
+  drawElements(mode: number, count: number, type: number, offset: number): void {
+    const buffer = this.vertexArray.elementBuffer;
+    if (!buffer) {
+      this.skippedDrawCount++;
+      return;
+    }
+
+    const indices = type === this.UNSIGNED_INT
+      ? new Uint32Array(buffer.data, offset, count)
+      : type === this.UNSIGNED_SHORT
+        ? new Uint16Array(buffer.data, offset, count)
+        : new Uint8Array(buffer.data, offset, count);
+    this.drawTriangles(mode, indices);
+  }
+
+  private drawTriangles(mode: number, indices: ArrayLike<number>): void {
+    const program = this.currentProgram;
+    const definition = program?.definition;
+    if (mode !== this.TRIANGLES || !program || !definition || this.framebuffer) {
+      this.skippedDrawCount++;
+      return;
+    }
+
+    const uniforms = this.createUniformReader(program);
+    const shaded = new Map<number, ShadedVertex>();
+    const shade = (index: number): ShadedVertex => {
+      let vertex = shaded.get(index);
+      if (!vertex) {
+        const varyings = new Float32Array(definition.varyingCount);
+        const attributes = definition.attributes.map((_, location) => this.readAttribute(location, index));
+        vertex = { position: definition.vertex(attributes, uniforms, varyings), varyings };
+        shaded.set(index, vertex);
+      }
+      return vertex;
+    };
+
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const polygon = clipNear([shade(indices[i]), shade(indices[i + 1]), shade(indices[i + 2])]);
+      const window = polygon.map((vertex) => this.toWindow(vertex));
+      for (let j = 1; j + 1 < window.length; j++) {
+        this.rasterizeTriangle(window[0], window[j], window[j + 1], definition, uniforms);
+      }
+    }
+
+    this.drawCount++;
+  }
+
+  /**
+   * Read one vertex attribute; disabled attributes read as (0, 0, 0, 1).
+   */
+  private readAttribute(location: number, index: number): Vec4 {
+    const value: Vec4 = [0, 0, 0, 1];
+    const attribute = this.vertexArray.attributes.get(location);
+    if (!attribute?.enabled || !attribute.buffer) return value;
+
+    const componentBytes = BYTES_PER_COMPONENT[attribute.type] ?? 4;
+    const stride = attribute.stride || attribute.size * componentBytes;
+    const start = attribute.offset + index * stride;
+    const view = new DataView(attribute.buffer.data);
+    if (start + attribute.size * componentBytes > view.byteLength) return value;
+
+    for (let c = 0; c < attribute.size; c++) {
+      const at = start + c * componentBytes;
+      switch (attribute.type) {
+        case this.FLOAT:
+          value[c] = view.getFloat32(at, true);
+          break;
+        case this.UNSIGNED_BYTE:
+          value[c] = view.getUint8(at) / (attribute.normalized ? 255 : 1);
+          break;
+        case this.BYTE:
+          value[c] = attribute.normalized ? Math.max(view.getInt8(at) / 127, -1) : view.getInt8(at);
+          break;
+        case this.UNSIGNED_SHORT:
+          value[c] = view.getUint16(at, true) / (attribute.normalized ? 65535 : 1);
+          break;
+        case this.SHORT:
+          value[c] = attribute.normalized ? Math.max(view.getInt16(at, true) / 32767, -1) : view.getInt16(at, true);
+          break;
+        case this.UNSIGNED_INT:
+          value[c] = view.getUint32(at, true);
+          break;
+        case this.INT:
+          value[c] = view.getInt32(at, true);
+          break;
+      }
+    }
+    return value;
+  }
+
+  private toWindow(vertex: ShadedVertex): WindowVertex {
+    const [x, y, z, w] = vertex.position;
+    const [vx, vy, vw, vh] = this.viewportRect;
+    const invW = 1 / w;
+    return {
+      x: vx + (x * invW * 0.5 + 0.5) * vw,
+      y: vy + (y * invW * 0.5 + 0.5) * vh,
+      z: z * invW * 0.5 + 0.5,
+      invW,
+      varyings: vertex.varyings,
+    };
+  }
+
+  /**
+   * Fill the pixels whose centers a triangle covers (top-left fill rule).
+   */
+  private rasterizeTriangle(
+    v0: WindowVertex,
+    v1: WindowVertex,
+    v2: WindowVertex,
+    definition: SoftwareShaderProgram,
+    uniforms: SoftwareUniforms
+  ): void {
+    const area = edgeFunction(v0, v1, v2.x, v2.y);
+    if (area === 0 || !Number.isFinite(area)) return;
+
+    // Counter-clockwise in window space (y up) is positive area
+    const counterClockwise = area > 0;
+    const frontFacing = this.frontFaceMode === this.CCW ? counterClockwise : !counterClockwise;
+    if (this.capabilities.has(this.CULL_FACE)) {
+      if (this.cullFaceMode === this.FRONT_AND_BACK) return;
+      if (this.cullFaceMode === this.BACK && !frontFacing) return;
+      if (this.cullFaceMode === this.FRONT && frontFacing) return;
+    }
+
+    // Wind counter-clockwise so every edge function is positive inside
+    if (!counterClockwise) {
+      [v1, v2] = [v2, v1];
+    }
+    const signedArea = Math.abs(area);
+
+    const [vx, vy, vw, vh] = this.viewportRect;
+    const minX = Math.max(0, vx, Math.floor(Math.min(v0.x, v1.x, v2.x)));
+    const maxX = Math.min(this.drawingBufferWidth, vx + vw, Math.ceil(Math.max(v0.x, v1.x, v2.x)));
+    const minY = Math.max(0, vy, Math.floor(Math.min(v0.y, v1.y, v2.y)));
+    const maxY = Math.min(this.drawingBufferHeight, vy + vh, Math.ceil(Math.max(v0.y, v1.y, v2.y)));
+
+    const topLeft0 = isTopLeft(v1, v2);
+    const topLeft1 = isTopLeft(v2, v0);
+    const topLeft2 = isTopLeft(v0, v1);
+    const varyings = new Float32Array(definition.varyingCount);
+
+    for (let py = minY; py < maxY; py++) {
+      for (let px = minX; px < maxX; px++) {
+        const cx = px + 0.5;
+        const cy = py + 0.5;
+        const e0 = edgeFunction(v1, v2, cx, cy);
+        const e1 = edgeFunction(v2, v0, cx, cy);
+        const e2 = edgeFunction(v0, v1, cx, cy);
+        if (e0 < 0 || e1 < 0 || e2 < 0) continue;
+        if ((e0 === 0 && !topLeft0) || (e1 === 0 && !topLeft1) || (e2 === 0 && !topLeft2)) continue;
+
+        const b0 = e0 / signedArea;
+        const b1 = e1 / signedArea;
+        const b2 = e2 / signedArea;
+
+        // Depth is linear in window space; the far plane is clipped per pixel
+        const z = b0 * v0.z + b1 * v1.z + b2 * v2.z;
+        if (z < 0 || z > 1) continue;
+
+        const pixel = py * this.drawingBufferWidth + px;
+        const depthTest = this.capabilities.has(this.DEPTH_TEST);
+        if (depthTest && !compareDepth(this.depthFuncValue, z, this.depth[pixel])) continue;
+
+        // Perspective-correct varyings
+        const p0 = b0 * v0.invW;
+        const p1 = b1 * v1.invW;
+        const p2 = b2 * v2.invW;
+        const sum = p0 + p1 + p2;
+        for (let k = 0; k < varyings.length; k++) {
+          varyings[k] = (p0 * v0.varyings[k] + p1 * v1.varyings[k] + p2 * v2.varyings[k]) / sum;
+        }
+
+        const output = definition.fragment(varyings, uniforms);
+        if (!output) continue;
+
+        if (depthTest && this.depthWrite) {
+          this.depth[pixel] = z;
+        }
+        this.writeColor(pixel * 4, output);
+      }
+    }
+  }
+
+  private writeColor(offset: number, output: Vec4): void {
+    const source = output.map(clamp01) as Vec4;
+
+    if (this.capabilities.has(this.BLEND)) {
+      const destination: Vec4 = [
+        this.color[offset] / 255,
+        this.color[offset + 1] / 255,
+        this.color[offset + 2] / 255,
+        this.color[offset + 3] / 255,
+      ];
+      for (let c = 0; c < 4; c++) {
+        const blended =
+          source[c] * this.blendFactor(this.blendSource, source, destination, c) +
+          destination[c] * this.blendFactor(this.blendDestination, source, destination, c);
+        this.color[offset + c] = toUnorm8(blended);
+      }
+      return;
+    }
+
+    for (let c = 0; c < 4; c++) {
+      this.color[offset + c] = toUnorm8(source[c]);
+    }
+  }
+
+  private blendFactor(factor: number, source: Vec4, destination: Vec4, channel: number): number {
+    switch (factor) {
+      case this.ZERO: return 0;
+      case this.ONE: return 1;
+      case this.SRC_COLOR: return source[channel];
+      case this.ONE_MINUS_SRC_COLOR: return 1 - source[channel];
+      case this.SRC_ALPHA: return source[3];
+      case this.ONE_MINUS_SRC_ALPHA: return 1 - source[3];
+      case this.DST_ALPHA: return destination[3];
+      case this.ONE_MINUS_DST_ALPHA: return 1 - destination[3];
+      default: return 1;
+    }
+  }
+
+  private createUniformReader(program: SoftwareProgram): SoftwareUniforms {
+    const values = program.uniformValues;
+    const read = (name: string, offset: number): number => values.get(name)?.[offset] ?? 0;
+    const sampler = (name: string): SoftwareTexture | null =>
+      this.textureUnits.get(read(name, 0))?.get(this.TEXTURE_2D) ?? null;
+
+    return {
+      float: (name, index = 0) => read(name, index),
+      int: (name, index = 0) => Math.trunc(read(name, index)),
+      bool: (name) => read(name, 0) !== 0,
+      vec2: (name, index = 0) => [read(name, index * 2), read(name, index * 2 + 1)],
+      vec3: (name, index = 0) => [read(name, index * 3), read(name, index * 3 + 1), read(name, index * 3 + 2)],
+      mat3: (name) => values.get(name) ?? new Float32Array(9),
+      mat4: (name) => values.get(name) ?? new Float32Array(16),
+      texture: (name, u, v) => sampleTexture(sampler(name), u, v),
+      texelFetch: (name, x, y) => fetchTexel(sampler(name), x, y),
+    };
+  }
+}
+
+/**
+ * Create a software WebGL2 context running the built-in Lambert and Unlit
+ * programs.
+ *
+ * @param width - Drawing buffer width in pixels
+ * @param height - Drawing buffer height in pixels
+ * @param programs - Additional software programs
+ */
+export function createSoftwareGL(
+  width: number,
+  height: number,
+  programs: readonly SoftwareShaderProgram[] = []
+): SoftwareGL {
+  return new SoftwareGL(width, height, [...BUILT_IN_SOFTWARE_PROGRAMS, ...programs]);
+}
+
+// -----------------------------------------------------------------------------
+// Rasterization helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Clip a triangle against the near plane (z >= -w).
+ *
+ * @returns The clipped convex polygon (empty when fully behind the plane)
+ */
+function clipNear(triangle: ShadedVertex[]): ShadedVertex[] {
+  const distance = (vertex: ShadedVertex): number => vertex.position[2] + vertex.position[3];
+  if (triangle.every((vertex) => distance(vertex) >= 0)) return triangle;
+
+  const result: ShadedVertex[] = [];
+  for (let i = 0; i < triangle.length; i++) {
+    const current = triangle[i];
+    const next = triangle[(i + 1) % triangle.length];
+    const dCurrent = distance(current);
+    const dNext = distance(next);
+
+    if (dCurrent >= 0) result.push(current);
+    if ((dCurrent >= 0) !== (dNext >= 0)) {
+      const t = dCurrent / (dCurrent - dNext);
+      result.push(lerpVertex(current, next, t));
+    }
+  }
+  return result;
+}
+
+function lerpVertex(a: ShadedVertex, b: ShadedVertex, t: number): ShadedVertex {
+  const position = a.position.map((value, i) => value + (b.position[i] - value) * t) as Vec4;
+  const varyings = a.varyings.map((value, i) => value + (b.varyings[i] - value) * t);
+  return { position, varyings };
+}
+
+/**
+ * Twice the signed area of (a, b, p); positive when p is left of a→b.
+ */
+function edgeFunction(a: WindowVertex, b: WindowVertex, px: number, py: number): number {
+  return (b.x - a.x) * (py - a.y) - (b.y - a.y) * (px - a.x);
+}
+
+/**
+ * Top-left rule for a counter-clockwise edge with y up: pixels centered
+ * exactly on a top or left edge belong to the triangle.
+ */
+function isTopLeft(a: WindowVertex, b: WindowVertex): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return dy < 0 || (dy === 0 && dx < 0);
+}
+
+function compareDepth(func: number, incoming: number, stored: number): boolean {
+  switch (func) {
+    case 512: return false; // NEVER
+    case 513: return incoming < stored; // LESS
+    case 514: return incoming === stored; // EQUAL
+    case 515: return incoming <= stored; // LEQUAL
+    case 516: return incoming > stored; // GREATER
+    case 517: return incoming !== stored; // NOTEQUAL
+    case 518: return incoming >= stored; // GEQUAL
+    default: return true; // ALWAYS
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Texture sampling
+// -----------------------------------------------------------------------------
+
+/** Incomplete or unbound textures sample as opaque black, as in GL */
+const INCOMPLETE_TEXEL: Vec4 = [0, 0, 0, 1];
+
+/**
+ * Copy uploaded texels into RGBA storage, filling missing channels as GL
+ * does (0 for green/blue, opaque alpha).
+ */
+function expandToRGBA<T extends Uint8Array | Float32Array>(source: T, channels: number, opaque: number): T {
+  if (channels === 4) return source.slice() as T;
+
+  const texelCount = source.length / channels;
+  const data = (source instanceof Float32Array ? new Float32Array(texelCount * 4) : new Uint8Array(texelCount * 4)) as T;
+  for (let i = 0; i < texelCount; i++) {
+    for (let c = 0; c < channels; c++) data[i * 4 + c] = source[i * channels + c];
+    data[i * 4 + 3] = opaque;
+  }
+  return data;
+}
+
+function fetchTexel(texture: SoftwareTexture | null, x: number, y: number): Vec4 {
+  if (!texture?.data || x < 0 || y < 0 || x >= texture.width || y >= texture.height) {
+    return [...INCOMPLETE_TEXEL];
+  }
+
+  const offset = (y * texture.width + x) * 4;
+  const { data } = texture;
+  if (data instanceof Float32Array) {
+    return [data[offset], data[offset + 1], data[offset + 2], data[offset + 3]];
+  }
+
+  const texel: Vec4 = [data[offset] / 255, data[offset + 1] / 255, data[offset + 2] / 255, data[offset + 3] / 255];
+  if (texture.internalFormat === 35907) {
+    // SRGB8_ALPHA8 decodes to linear on sampling
+    for (let c = 0; c < 3; c++) texel[c] = srgbToLinear(texel[c]);
+  }
+  return texel;
+}
+
+/**
+ * Sample the base level with the texture's magnification filter and wrap modes.
+ */
+function sampleTexture(texture: SoftwareTexture | null, u: number, v: number): Vec4 {
+  if (!texture?.data || texture.width === 0 || texture.height === 0) {
+    return [...INCOMPLETE_TEXEL];
+  }
+
+  const wrapS = texture.parameters.get(10242) ?? 10497;
+  const wrapT = texture.parameters.get(10243) ?? 10497;
+  const x = u * texture.width - 0.5;
+  const y = v * texture.height - 0.5;
+
+  if ((texture.parameters.get(10240) ?? 9729) === 9728) {
+    // NEAREST
+    return fetchTexel(
+      texture,
+      wrapCoordinate(Math.floor(x + 0.5), texture.width, wrapS),
+      wrapCoordinate(Math.floor(y + 0.5), texture.height, wrapT)
+    );
+  }
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+  const corner = (dx: number, dy: number): Vec4 => fetchTexel(
+    texture,
+    wrapCoordinate(x0 + dx, texture.width, wrapS),
+    wrapCoordinate(y0 + dy, texture.height, wrapT)
+  );
+  const c00 = corner(0, 0);
+  const c10 = corner(1, 0);
+  const c01 = corner(0, 1);
+  const c11 = corner(1, 1);
+  return c00.map((value, c) =>
+    (value * (1 - fx) + c10[c] * fx) * (1 - fy) + (c01[c] * (1 - fx) + c11[c] * fx) * fy
+  ) as Vec4;
+}
+
+function wrapCoordinate(coordinate: number, size: number, mode: number): number {
+  switch (mode) {
+    case 33071: // CLAMP_TO_EDGE
+      return Math.min(Math.max(coordinate, 0), size - 1);
+    case 33648: { // MIRRORED_REPEAT
+      const period = size * 2;
+      const wrapped = ((coordinate % period) + period) % period;
+      return wrapped < size ? wrapped : period - 1 - wrapped;
+    }
+    default: // REPEAT
+      return ((coordinate % size) + size) % size;
+  }
+}
+
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Convert a normalized value to an 8-bit channel (round to nearest).
+ */
+function toUnorm8(value: number): number {
+  return Math.round(clamp01(value) * 255);
+}
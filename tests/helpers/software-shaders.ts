@@ -0,0 +1,312 @@
+/**
+ * Software Shaders
+ *
+ * CPU ports of the built-in Lambert and Unlit GLSL programs for the
+ * software WebGL2 context. Each port follows its GLSL source line by line
+ * (including the common lighting and skinning includes), so a change to
+ * the shader math needs the same change here.
+ *
+ * Shadow maps are not rendered by the software context, so shadow lookups
+ * treat every surface as lit.
+ */
+
+import { lambertVertexSource, lambertFragmentSource } from '@plugins/renderers/shaders/lambert';
+import { unlitVertexSource, unlitFragmentSource } from '@plugins/renderers/shaders/unlit';
+import type { SoftwareShaderProgram, SoftwareUniforms, Vec4 } from './software-gl';
+
+type Vec3 = [number, number, number];
+
+/** Keep in sync with MAX_LIGHTS in lambert.frag.glsl */
+const MAX_LIGHTS = 8;
+
+/** Light type codes (see lighting.glsl) */
+const LIGHT_TYPE_DIRECTIONAL = 0;
+const LIGHT_TYPE_SPOT = 2;
+
+// -----------------------------------------------------------------------------
+// GLSL built-ins
+// -----------------------------------------------------------------------------
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function length(v: Vec3): number {
+  return Math.sqrt(dot(v, v));
+}
+
+function normalize(v: Vec3): Vec3 {
+  const len = length(v);
+  return [v[0] / len, v[1] / len, v[2] / len];
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Column-major mat4 × vec4.
+ */
+function transform(m: ArrayLike<number>, v: Vec4): Vec4 {
+  return [
+    m[0] * v[0] + m[4] * v[1] + m[8] * v[2] + m[12] * v[3],
+    m[1] * v[0] + m[5] * v[1] + m[9] * v[2] + m[13] * v[3],
+    m[2] * v[0] + m[6] * v[1] + m[10] * v[2] + m[14] * v[3],
+    m[3] * v[0] + m[7] * v[1] + m[11] * v[2] + m[15] * v[3],
+  ];
+}
+
+/**
+ * Column-major mat3 × vec3.
+ */
+function transform3(m: ArrayLike<number>, v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[3] * v[1] + m[6] * v[2],
+    m[1] * v[0] + m[4] * v[1] + m[7] * v[2],
+    m[2] * v[0] + m[5] * v[1] + m[8] * v[2],
+  ];
+}
+
+/**
+ * mat3(m4) × vec3: the upper-left 3x3 of a column-major mat4.
+ */
+function transformDirection(m: ArrayLike<number>, v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[4] * v[1] + m[8] * v[2],
+    m[1] * v[0] + m[5] * v[1] + m[9] * v[2],
+    m[2] * v[0] + m[6] * v[1] + m[10] * v[2],
+  ];
+}
+
+// -----------------------------------------------------------------------------
+// common/skinning.glsl
+// -----------------------------------------------------------------------------
+
+/**
+ * Blend the joint matrices influencing a vertex.
+ *
+ * @returns Skin matrix, or null (identity) when the mesh is not skinned
+ */
+function getSkinMatrix(joints: Vec4, weights: Vec4, uniforms: SoftwareUniforms): Float32Array | null {
+  if (!uniforms.bool('uSkinned')) {
+    return null;
+  }
+
+  const skin = new Float32Array(16);
+  for (let j = 0; j < 4; j++) {
+    const joint = Math.trunc(joints[j]);
+    for (let column = 0; column < 4; column++) {
+      const texel = uniforms.texelFetch('uJointMatrices', column, joint);
+      for (let row = 0; row < 4; row++) {
+        skin[column * 4 + row] += weights[j] * texel[row];
+      }
+    }
+  }
+  return skin;
+}
+
+// -----------------------------------------------------------------------------
+// common/lighting.glsl
+// -----------------------------------------------------------------------------
+
+function lightAttenuation(distance: number, range: number): number {
+  if (range <= 0) {
+    return 1 / (distance * distance + 1);
+  }
+  const attenuation = clamp(1 - Math.pow(distance / range, 4), 0, 1);
+  return (attenuation * attenuation) / (distance * distance + 1);
+}
+
+function spotAttenuation(L: Vec3, spotDirection: Vec3, cone: [number, number]): number {
+  const cosTheta = -dot(L, spotDirection);
+  return smoothstep(cone[0], cone[1], cosTheta);
+}
+
+/**
+ * @returns xyz = normalized direction toward the light, w = attenuation
+ */
+function resolveLight(
+  lightType: number,
+  worldPosition: Vec3,
+  lightDirection: Vec3,
+  lightPosition: Vec3,
+  range: number,
+  cone: [number, number]
+): Vec4 {
+  if (lightType === LIGHT_TYPE_DIRECTIONAL) {
+    const L = normalize([-lightDirection[0], -lightDirection[1], -lightDirection[2]]);
+    return [L[0], L[1], L[2], 1];
+  }
+
+  const toLight: Vec3 = [
+    lightPosition[0] - worldPosition[0],
+    lightPosition[1] - worldPosition[1],
+    lightPosition[2] - worldPosition[2],
+  ];
+  const distance = length(toLight);
+  const scale = 1 / Math.max(distance, 0.0001);
+  const L: Vec3 = [toLight[0] * scale, toLight[1] * scale, toLight[2] * scale];
+  let attenuation = lightAttenuation(distance, range);
+  if (lightType === LIGHT_TYPE_SPOT) {
+    attenuation *= spotAttenuation(L, normalize(lightDirection), cone);
+  }
+  return [L[0], L[1], L[2], attenuation];
+}
+
+// -----------------------------------------------------------------------------
+// Programs
+// -----------------------------------------------------------------------------
+
+/**
+ * lambert.vert.glsl / lambert.frag.glsl
+ *
+ * Varyings: vNormal (0-2), vWorldPosition (3-5), vTexCoord (6-7).
+ */
+export const SOFTWARE_LAMBERT_PROGRAM: SoftwareShaderProgram = {
+  vertexSource: lambertVertexSource,
+  fragmentSource: lambertFragmentSource,
+  attributes: ['aPosition', 'aNormal', 'aTexCoord', 'aJoints', 'aWeights'],
+  uniforms: [
+    'uModelMatrix',
+    'uViewProjectionMatrix',
+    'uNormalMatrix',
+    'uSkinned',
+    'uJointMatrices',
+    'uBaseColor',
+    'uBaseColorMap',
+    'uLightDirections',
+    'uLightColors',
+    'uLightPositions',
+    'uLightTypes',
+    'uLightRanges',
+    'uLightSpotCones',
+    'uLightShadows',
+    'uLightShadowBias',
+    'uLightCount',
+    'uAmbientColor',
+    'uCameraPosition',
+    'uShadowMaps',
+    'uShadowMatrices',
+    'uHDROutput',
+  ],
+  varyingCount: 8,
+
+  vertex([aPosition, aNormal, aTexCoord, aJoints, aWeights], uniforms, varyings) {
+    const skinMatrix = getSkinMatrix(aJoints, aWeights, uniforms);
+    const position: Vec4 = [aPosition[0], aPosition[1], aPosition[2], 1];
+    const worldPosition = transform(
+      uniforms.mat4('uModelMatrix'),
+      skinMatrix ? transform(skinMatrix, position) : position
+    );
+
+    let normal: Vec3 = [aNormal[0], aNormal[1], aNormal[2]];
+    if (skinMatrix) normal = transformDirection(skinMatrix, normal);
+    normal = normalize(transform3(uniforms.mat3('uNormalMatrix'), normal));
+
+    varyings.set(normal, 0);
+    varyings.set(worldPosition.slice(0, 3), 3);
+    varyings.set([aTexCoord[0], aTexCoord[1]], 6);
+    return transform(uniforms.mat4('uViewProjectionMatrix'), worldPosition);
+  },
+
+  fragment(varyings, uniforms) {
+    const normal = normalize([varyings[0], varyings[1], varyings[2]]);
+    const worldPosition: Vec3 = [varyings[3], varyings[4], varyings[5]];
+    const camera = uniforms.vec3('uCameraPosition');
+    const viewDir = normalize([
+      camera[0] - worldPosition[0],
+      camera[1] - worldPosition[1],
+      camera[2] - worldPosition[2],
+    ]);
+    const texel = uniforms.texture('uBaseColorMap', varyings[6], varyings[7]);
+    const baseColor = uniforms.vec3('uBaseColor').map((value, c) => value * texel[c]) as Vec3;
+
+    const diffuse: Vec3 = [0, 0, 0];
+    const lightCount = uniforms.int('uLightCount');
+    for (let i = 0; i < MAX_LIGHTS; i++) {
+      if (i >= lightCount) break;
+
+      const light = resolveLight(
+        uniforms.int('uLightTypes', i),
+        worldPosition,
+        uniforms.vec3('uLightDirections', i),
+        uniforms.vec3('uLightPositions', i),
+        uniforms.float('uLightRanges', i),
+        uniforms.vec2('uLightSpotCones', i)
+      );
+
+      const NdotL = Math.max(dot(normal, [light[0], light[1], light[2]]), 0);
+      if (NdotL <= 0 || light[3] <= 0) continue;
+
+      // Shadow maps are not rendered: computeShadow() is always 1
+      const color = uniforms.vec3('uLightColors', i);
+      for (let c = 0; c < 3; c++) {
+        diffuse[c] += baseColor[c] * color[c] * light[3] * NdotL;
+      }
+    }
+
+    // Hemisphere ambient (Z-up)
+    const hemiFactor = normal[2] * 0.5 + 0.5;
+    const ambientColor = uniforms.vec3('uAmbientColor');
+    const ambient = baseColor.map((value, c) => {
+      const ground = ambientColor[c] * 0.6;
+      return value * (ground + (ambientColor[c] - ground) * hemiFactor);
+    });
+
+    const rimColor: Vec3 = [0, 0, 0];
+    if (lightCount > 0) {
+      let rim = 1 - Math.max(dot(viewDir, normal), 0);
+      rim = Math.pow(rim, 3) * 0.15;
+      const primary = uniforms.vec3('uLightColors', 0);
+      for (let c = 0; c < 3; c++) rimColor[c] = primary[c] * rim;
+    }
+
+    const finalColor = diffuse.map((value, c) => {
+      const color = value + ambient[c] + rimColor[c];
+      return uniforms.bool('uHDROutput') ? color : Math.pow(color, 1 / 2.2);
+    });
+    return [finalColor[0], finalColor[1], finalColor[2], 1];
+  },
+};
+
+/**
+ * unlit.vert.glsl / unlit.frag.glsl
+ *
+ * Varyings: vTexCoord (0-1).
+ */
+export const SOFTWARE_UNLIT_PROGRAM: SoftwareShaderProgram = {
+  vertexSource: unlitVertexSource,
+  fragmentSource: unlitFragmentSource,
+  attributes: ['aPosition', 'aNormal', 'aTexCoord', 'aJoints', 'aWeights'],
+  uniforms: ['uModelMatrix', 'uViewProjectionMatrix', 'uSkinned', 'uJointMatrices', 'uColor', 'uOpacity', 'uHDROutput'],
+  varyingCount: 2,
+
+  vertex([aPosition, , aTexCoord, aJoints, aWeights], uniforms, varyings) {
+    varyings.set([aTexCoord[0], aTexCoord[1]], 0);
+    const skinMatrix = getSkinMatrix(aJoints, aWeights, uniforms);
+    const position: Vec4 = [aPosition[0], aPosition[1], aPosition[2], 1];
+    return transform(
+      uniforms.mat4('uViewProjectionMatrix'),
+      transform(uniforms.mat4('uModelMatrix'), skinMatrix ? transform(skinMatrix, position) : position)
+    );
+  },
+
+  fragment(_varyings, uniforms) {
+    let color = uniforms.vec3('uColor');
+    if (uniforms.bool('uHDROutput')) color = color.map((value) => Math.pow(value, 2.2)) as Vec3;
+    return [color[0], color[1], color[2], uniforms.float('uOpacity')];
+  },
+};
+
+/**
+ * Software stand-ins for the built-in shader assets.
+ */
+export const BUILT_IN_SOFTWARE_PROGRAMS: readonly SoftwareShaderProgram[] = [
+  SOFTWARE_LAMBERT_PROGRAM,
+  SOFTWARE_UNLIT_PROGRAM,
+];
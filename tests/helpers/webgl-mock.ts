@@ -16,6 +16,7 @@ export function createMockGL(): WebGL2RenderingContext {
   const mockProgram = {} as WebGLProgram;
   const mockBuffer = {} as WebGLBuffer;
   const mockVAO = {} as WebGLVertexArrayObject;
+  let textureId = 0;
 
   return {
     canvas: document.createElement('canvas'),
@@ -43,9 +44,49 @@ export function createMockGL(): WebGL2RenderingContext {
     LINES: 1,
     TRIANGLES: 4,
     UNSIGNED_SHORT: 5123,
+    UNSIGNED_INT: 5125,
     BLEND: 3042,
     SRC_ALPHA: 770,
     ONE_MINUS_SRC_ALPHA: 771,
+    TEXTURE_2D: 3553,
+    TEXTURE0: 33984,
+    RGBA: 6408,
+    RGBA8: 32856,
+    SRGB8_ALPHA8: 35907,
+    UNSIGNED_BYTE: 5121,
+    TEXTURE_MAG_FILTER: 10240,
+    TEXTURE_MIN_FILTER: 10241,
+    TEXTURE_WRAP_S: 10242,
+    TEXTURE_WRAP_T: 10243,
+    NEAREST: 9728,
+    LINEAR: 9729,
+    NEAREST_MIPMAP_NEAREST: 9984,
+    LINEAR_MIPMAP_NEAREST: 9985,
+    NEAREST_MIPMAP_LINEAR: 9986,
+    LINEAR_MIPMAP_LINEAR: 9987,
+    REPEAT: 10497,
+    CLAMP_TO_EDGE: 33071,
+    MIRRORED_REPEAT: 33648,
+    TEXTURE_2D_ARRAY: 35866,
+    DEPTH_COMPONENT32F: 36012,
+    TEXTURE_COMPARE_MODE: 34892,
+    TEXTURE_COMPARE_FUNC: 34893,
+    COMPARE_REF_TO_TEXTURE: 34894,
+    FRAMEBUFFER: 36160,
+    FRAMEBUFFER_BINDING: 36006,
+    DEPTH_ATTACHMENT: 36096,
+    NONE: 0,
+    POLYGON_OFFSET_FILL: 32823,
+    VIEWPORT: 2978,
+    MAX_TEXTURE_SIZE: 3379,
+    COLOR_ATTACHMENT0: 36064,
+    FRAMEBUFFER_COMPLETE: 36053,
+    RGBA16F: 34842,
+    RGBA32F: 34836,
+    RGB10_A2: 32857,
+    DEPTH_COMPONENT24: 33190,
+    ALWAYS: 519,
+    ONE: 1,
 
     // Shader methods
     createShader: vi.fn(() => mockShader),
@@ -79,9 +120,35 @@ export function createMockGL(): WebGL2RenderingContext {
     enableVertexAttribArray: vi.fn(),
     vertexAttribPointer: vi.fn(),
 
+    // Texture methods
+    createTexture: vi.fn(() => ({ id: ++textureId } as unknown as WebGLTexture)),
+    bindTexture: vi.fn(),
+    activeTexture: vi.fn(),
+    texImage2D: vi.fn(),
+    texParameteri: vi.fn(),
+    texParameterf: vi.fn(),
+    generateMipmap: vi.fn(),
+    texStorage2D: vi.fn(),
+    texStorage3D: vi.fn(),
+    deleteTexture: vi.fn(),
+    getExtension: vi.fn(() => null),
+    getParameter: vi.fn(() => null),
+
+    // Framebuffer methods
+    createFramebuffer: vi.fn(() => ({} as WebGLFramebuffer)),
+    bindFramebuffer: vi.fn(),
+    deleteFramebuffer: vi.fn(),
+    framebufferTexture2D: vi.fn(),
+    framebufferTextureLayer: vi.fn(),
+    checkFramebufferStatus: vi.fn(() => 36053),
+    drawBuffers: vi.fn(),
+    readBuffer: vi.fn(),
+    readPixels: vi.fn(),
+
     // State methods
     enable: vi.fn(),
     disable: vi.fn(),
+    isEnabled: vi.fn(() => false),
     depthFunc: vi.fn(),
     depthMask: vi.fn(),
     cullFace: vi.fn(),
@@ -92,6 +159,7 @@ export function createMockGL(): WebGL2RenderingContext {
     viewport: vi.fn(),
     getError: vi.fn(() => 0),
     blendFunc: vi.fn(),
+    polygonOffset: vi.fn(),
 
     // Uniform methods
     uniform1f: vi.fn(),
@@ -99,6 +167,9 @@ export function createMockGL(): WebGL2RenderingContext {
     uniform3f: vi.fn(),
     uniform4f: vi.fn(),
     uniform1i: vi.fn(),
+    uniform1iv: vi.fn(),
+    uniform1fv: vi.fn(),
+    uniform2fv: vi.fn(),
     uniform3fv: vi.fn(),
     uniformMatrix3fv: vi.fn(),
     uniformMatrix4fv: vi.fn(),
@@ -0,0 +1,176 @@
+/**
+ * ReparentEntityCommand Unit Tests
+ *
+ * Tests for the ReparentEntityCommand used when moving entities
+ * in the hierarchy (e.g., HierarchyPanel drag-and-drop).
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReparentEntityCommand } from '@core/commands/ReparentEntityCommand';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import type { ISceneObject } from '@core/interfaces';
+import { getObjectWorldMatrix } from '@core/interfaces';
+
+describe('ReparentEntityCommand', () => {
+  let eventBus: EventBus;
+  let sceneGraph: SceneGraph;
+  let group: ISceneObject;
+  let a: ISceneObject;
+  let b: ISceneObject;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    sceneGraph = new SceneGraph(eventBus);
+
+    group = sceneGraph.createObject('Group');
+    group.transform.position = [10, 0, 0];
+    group.transform.rotation = [0, 0, 90];
+    group.transform.scale = [2, 2, 2];
+    a = sceneGraph.createObject('A');
+    a.transform.position = [1, 2, 3];
+    b = sceneGraph.createObject('B');
+
+    sceneGraph.add(group);
+    sceneGraph.add(a);
+    sceneGraph.add(b);
+  });
+
+  const expectMatricesClose = (actual: Float32Array, expected: Float32Array): void => {
+    for (let i = 0; i < 16; i++) {
+      expect(actual[i]).toBeCloseTo(expected[i], 4);
+    }
+  };
+
+  describe('constructor', () => {
+    it('should describe a move to a new parent', () => {
+      const command = new ReparentEntityCommand({ entity: a, newParent: group, sceneGraph, eventBus });
+
+      expect(command.type).toBe('ReparentEntity');
+      expect(command.description).toBe('Move A to Group');
+    });
+
+    it('should describe a reorder within the same parent', () => {
+      const command = new ReparentEntityCommand({
+        entity: b,
+        newParent: sceneGraph.getRoot(),
+        index: 0,
+        sceneGraph,
+        eventBus,
+      });
+
+      expect(command.description).toBe('Reorder B');
+    });
+  });
+
+  describe('execute', () => {
+    it('should move the entity under the new parent', () => {
+      const command = new ReparentEntityCommand({ entity: a, newParent: group, sceneGraph, eventBus });
+
+      command.execute();
+
+      expect(a.parent).toBe(group);
+      expect(group.children).toEqual([a]);
+    });
+
+    it('should keep the world transform by default', () => {
+      const worldBefore = getObjectWorldMatrix(a);
+      const command = new ReparentEntityCommand({ entity: a, newParent: group, sceneGraph, eventBus });
+
+      command.execute();
+
+      expectMatricesClose(getObjectWorldMatrix(a), worldBefore);
+      expect(a.transform.position).not.toEqual([1, 2, 3]);
+    });
+
+    it('should keep the local transform when preserveWorldTransform is false', () => {
+      const command = new ReparentEntityCommand({
+        entity: a,
+        newParent: group,
+        preserveWorldTransform: false,
+        sceneGraph,
+        eventBus,
+      });
+
+      command.execute();
+
+      expect(a.transform.position).toEqual([1, 2, 3]);
+    });
+
+    it('should insert at the given sibling index', () => {
+      const command = new ReparentEntityCommand({
+        entity: b,
+        newParent: sceneGraph.getRoot(),
+        index: 0,
+        sceneGraph,
+        eventBus,
+      });
+
+      command.execute();
+
+      expect(sceneGraph.getRoot().children).toEqual([b, group, a]);
+    });
+
+    it('should emit entity:propertyUpdated when the transform changes', () => {
+      const handler = vi.fn();
+      eventBus.on('entity:propertyUpdated', handler);
+      const command = new ReparentEntityCommand({ entity: a, newParent: group, sceneGraph, eventBus });
+
+      command.execute();
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: a.id, property: 'transform' }));
+    });
+
+    it('should leave the entity alone for a circular move', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      sceneGraph.reparent(a, group);
+      const command = new ReparentEntityCommand({ entity: group, newParent: a, sceneGraph, eventBus });
+
+      command.execute();
+
+      expect(group.parent).toBe(sceneGraph.getRoot());
+      expect(group.transform.position).toEqual([10, 0, 0]);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('undo', () => {
+    it('should restore the previous parent, index and transform', () => {
+      const command = new ReparentEntityCommand({ entity: a, newParent: group, sceneGraph, eventBus });
+
+      command.execute();
+      command.undo();
+
+      expect(a.parent).toBe(sceneGraph.getRoot());
+      expect(sceneGraph.getRoot().children).toEqual([group, a, b]);
+      expect(a.transform.position).toEqual([1, 2, 3]);
+    });
+
+    it('should restore sibling order after a reorder', () => {
+      const command = new ReparentEntityCommand({
+        entity: b,
+        newParent: sceneGraph.getRoot(),
+        index: 0,
+        sceneGraph,
+        eventBus,
+      });
+
+      command.execute();
+      command.undo();
+
+      expect(sceneGraph.getRoot().children).toEqual([group, a, b]);
+    });
+
+    it('should support redo after undo', () => {
+      const command = new ReparentEntityCommand({ entity: a, newParent: group, sceneGraph, eventBus });
+
+      command.execute();
+      const movedPosition = [...a.transform.position];
+      command.undo();
+      command.execute();
+
+      expect(a.parent).toBe(group);
+      a.transform.position.forEach((v, i) => expect(v).toBeCloseTo(movedPosition[i], 5));
+    });
+  });
+});
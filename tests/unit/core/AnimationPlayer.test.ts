@@ -0,0 +1,193 @@
+/**
+ * AnimationPlayer Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnimationPlayer } from '@core/AnimationPlayer';
+import { SceneGraph, SceneObject } from '@core/SceneGraph';
+import { EventBus } from '@core/EventBus';
+import { AssetRegistry } from '@core/assets/AssetRegistry';
+import { PropertyChangeCommand } from '@core/commands/PropertyChangeCommand';
+import { ANIMATION_ASSET_VERSION, type IAnimationAsset } from '@core/assets/interfaces/IAnimationAsset';
+
+function createClip(uuid = 'clip-uuid'): IAnimationAsset {
+  return {
+    uuid,
+    name: 'Wave',
+    type: 'animation',
+    version: ANIMATION_ASSET_VERSION,
+    created: '2026-03-02T12:00:00Z',
+    modified: '2026-03-02T12:00:00Z',
+    isBuiltIn: false,
+    duration: 2,
+    channels: [
+      {
+        targetPath: 'Arm/Hand',
+        property: 'position',
+        interpolation: 'linear',
+        times: [0, 2],
+        values: [0, 0, 0, 4, 0, 0],
+      },
+      {
+        targetPath: 'Hand',
+        property: 'rotation',
+        interpolation: 'linear',
+        times: [0, 2],
+        values: [0, 0, 0, 1, 0, 0, 1, 0],
+      },
+    ],
+  };
+}
+
+describe('AnimationPlayer', () => {
+  let eventBus: EventBus;
+  let sceneGraph: SceneGraph;
+  let assetRegistry: AssetRegistry;
+  let player: AnimationPlayer;
+  let hand: SceneObject;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    sceneGraph = new SceneGraph(eventBus);
+    assetRegistry = new AssetRegistry(eventBus);
+    player = new AnimationPlayer({ eventBus, sceneGraph, assetRegistry });
+
+    const model = new SceneObject('Character');
+    const arm = new SceneObject('Arm');
+    hand = new SceneObject('Hand');
+    hand.transform.position = [1, 1, 1];
+    sceneGraph.add(model);
+    sceneGraph.add(arm, model);
+    sceneGraph.add(hand, arm);
+
+    assetRegistry.register(createClip());
+  });
+
+  it('should list registered clips', () => {
+    expect(player.getClips().map((clip) => clip.uuid)).toEqual(['clip-uuid']);
+  });
+
+  it('should ignore unknown clip UUIDs', () => {
+    player.setClip('missing');
+    expect(player.getClip()).toBeNull();
+    expect(player.getDuration()).toBe(0);
+  });
+
+  it('should drive matching objects while playing', () => {
+    player.setClip('clip-uuid');
+    player.play();
+    player.update(1);
+
+    expect(player.getState()).toBe('playing');
+    expect(hand.transform.position[0]).toBeCloseTo(2);
+    expect(hand.transform.rotation[2]).toBeCloseTo(90);
+  });
+
+  it('should restore transforms on stop', () => {
+    player.setClip('clip-uuid');
+    player.play();
+    player.update(1);
+    player.stop();
+
+    expect(player.getState()).toBe('stopped');
+    expect(player.getTime()).toBe(0);
+    expect(hand.transform.position).toEqual([1, 1, 1]);
+    expect(hand.transform.rotation).toEqual([0, 0, 0]);
+  });
+
+  it('should wrap time when looping', () => {
+    player.setClip('clip-uuid');
+    player.play();
+    player.update(2.5);
+
+    expect(player.getTime()).toBeCloseTo(0.5);
+    expect(player.getState()).toBe('playing');
+  });
+
+  it('should pause at the end when not looping', () => {
+    player.setClip('clip-uuid');
+    player.setLooping(false);
+    player.play();
+    player.update(3);
+
+    expect(player.getTime()).toBe(2);
+    expect(player.getState()).toBe('paused');
+    expect(hand.transform.position[0]).toBeCloseTo(4);
+  });
+
+  it('should preview a pose when seeking while stopped', () => {
+    player.setClip('clip-uuid');
+    player.seek(0.5);
+
+    expect(player.getState()).toBe('paused');
+    expect(hand.transform.position[0]).toBeCloseTo(1);
+  });
+
+  it('should stop before the scene is serialized', () => {
+    player.setClip('clip-uuid');
+    player.seek(1);
+
+    eventBus.emit('scene:serializing');
+
+    expect(player.getState()).toBe('stopped');
+    expect(hand.transform.position).toEqual([1, 1, 1]);
+  });
+
+  it('should keep transform edits made while previewing', () => {
+    const scale = new PropertyChangeCommand({
+      entityId: hand.id,
+      property: 'scale.y',
+      oldValue: 1,
+      newValue: 3,
+      sceneGraph,
+      eventBus,
+    });
+    player.setClip('clip-uuid');
+    player.seek(1);
+
+    scale.execute();
+    player.stop();
+
+    expect(hand.transform.scale).toEqual([1, 3, 1]);
+    expect(hand.transform.position).toEqual([1, 1, 1]);
+  });
+
+  it('should emit state and time events', () => {
+    const onState = vi.fn();
+    const onTime = vi.fn();
+    eventBus.on('animation:stateChanged', onState);
+    eventBus.on('animation:timeChanged', onTime);
+
+    player.setClip('clip-uuid');
+    player.play();
+    player.update(0.5);
+
+    expect(onState).toHaveBeenLastCalledWith({ clipUuid: 'clip-uuid', state: 'playing' });
+    expect(onTime).toHaveBeenLastCalledWith({ time: 0.5, duration: 2 });
+  });
+
+  it('should clear the active clip when its asset is unregistered', () => {
+    const onClips = vi.fn();
+    eventBus.on('animation:clipsChanged', onClips);
+
+    player.setClip('clip-uuid');
+    player.play();
+    player.update(1);
+    assetRegistry.unregister('clip-uuid');
+
+    expect(player.getClip()).toBeNull();
+    expect(hand.transform.position).toEqual([1, 1, 1]);
+    expect(onClips).toHaveBeenCalled();
+  });
+
+  it('should not touch objects whose paths do not match', () => {
+    const other = new SceneObject('Foot');
+    sceneGraph.add(other);
+
+    player.setClip('clip-uuid');
+    player.play();
+    player.update(1);
+
+    expect(other.transform.position).toEqual([0, 0, 0]);
+  });
+});
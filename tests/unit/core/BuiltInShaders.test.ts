@@ -65,6 +65,16 @@ describe('BuiltInShaders', () => {
       expect(BUILT_IN_LAMBERT_SHADER.fragmentSource).toContain('uAmbientColor');
     });
 
+    it('should shade point and spot lights', () => {
+      expect(BUILT_IN_LAMBERT_SHADER.fragmentSource).toContain('uLightTypes');
+      expect(BUILT_IN_LAMBERT_SHADER.fragmentSource).toContain('resolveLight(');
+    });
+
+    it('should sample shadow maps', () => {
+      expect(BUILT_IN_LAMBERT_SHADER.fragmentSource).toContain('uLightShadows');
+      expect(BUILT_IN_LAMBERT_SHADER.fragmentSource).toContain('computeShadow(');
+    });
+
     it('should have base color uniform', () => {
       const uniformNames = BUILT_IN_LAMBERT_SHADER.uniforms.map((u) => u.name);
       expect(uniformNames).toContain('uBaseColor');
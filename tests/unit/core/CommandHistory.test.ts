@@ -501,6 +501,36 @@ describe('CommandHistory', () => {
 
       warnSpy.mockRestore();
     });
+
+    it('should coalesce consecutive batches of mergeable commands', () => {
+      const now = Date.now();
+
+      history.beginBatch();
+      history.execute(createMergeableCommand('entity1', 'position.x', 0, 1, now));
+      history.execute(createMergeableCommand('entity2', 'position.x', 0, 1, now));
+      history.endBatch('Change position.x of 2 objects');
+
+      history.beginBatch();
+      history.execute(createMergeableCommand('entity1', 'position.x', 1, 2, now + 100));
+      history.execute(createMergeableCommand('entity2', 'position.x', 1, 2, now + 100));
+      history.endBatch('Change position.x of 2 objects');
+
+      expect(history.getUndoStackSize()).toBe(1);
+    });
+
+    it('should not coalesce batches with different descriptions', () => {
+      const now = Date.now();
+
+      history.beginBatch();
+      history.execute(createMergeableCommand('entity1', 'position.x', 0, 1, now));
+      history.endBatch('Translate A');
+
+      history.beginBatch();
+      history.execute(createMergeableCommand('entity1', 'position.x', 1, 2, now + 100));
+      history.endBatch('Translate B');
+
+      expect(history.getUndoStackSize()).toBe(2);
+    });
   });
 
   describe('clear()', () => {
@@ -2,7 +2,9 @@
  * EntitySerializer Tests
  *
  * Tests for entity serialization and deserialization.
- * Covers all supported entity types: Cube, Sphere, DirectionalLight, Camera, MeshEntity, GroupEntity.
+ * Covers all supported entity types: Cube, Sphere, Plane, Cylinder, Cone, Torus, Capsule,
+ * DirectionalLight, PointLight, SpotLight,
+ * Camera, MeshEntity, GroupEntity.
  */
 
 import { describe, it, expect } from 'vitest';
@@ -12,7 +14,14 @@ import type { IMaterialComponent, ILightComponent } from '../../../src/core/inte
 import type { ICameraComponent } from '../../../src/core/interfaces/ICameraComponent';
 import { Cube } from '../../../src/plugins/primitives/Cube';
 import { Sphere } from '../../../src/plugins/primitives/Sphere';
+import { Plane } from '../../../src/plugins/primitives/Plane';
+import { Cylinder } from '../../../src/plugins/primitives/Cylinder';
+import { Cone } from '../../../src/plugins/primitives/Cone';
+import { Torus } from '../../../src/plugins/primitives/Torus';
+import { Capsule } from '../../../src/plugins/primitives/Capsule';
 import { DirectionalLight } from '../../../src/plugins/lights/DirectionalLight';
+import { PointLight } from '../../../src/plugins/lights/PointLight';
+import { SpotLight } from '../../../src/plugins/lights/SpotLight';
 import { CameraEntity } from '../../../src/core/CameraEntity';
 import { MeshEntity } from '../../../src/plugins/primitives/MeshEntity';
 import { GroupEntity } from '../../../src/plugins/primitives/GroupEntity';
@@ -77,6 +86,19 @@ describe('EntitySerializer', () => {
 
         expect(serialized.parentUuid).toBeUndefined();
       });
+
+      it('should serialize Cube sibling index', () => {
+        const parent = new Cube('parent-id', 'Parent');
+        const first = new Cube('first-id', 'First');
+        const second = new Cube('second-id', 'Second');
+        parent.children.push(first, second);
+        first.parent = parent;
+        second.parent = parent;
+
+        expect(EntitySerializer.serializeEntity(first).siblingIndex).toBe(0);
+        expect(EntitySerializer.serializeEntity(second).siblingIndex).toBe(1);
+        expect(EntitySerializer.serializeEntity(parent).siblingIndex).toBeUndefined();
+      });
     });
 
     describe('Sphere serialization', () => {
@@ -463,6 +485,74 @@ describe('EntitySerializer', () => {
       });
     });
 
+    describe('PointLight deserialization', () => {
+      it('should deserialize a PointLight with its range', () => {
+        const serialized: ISerializedEntity = {
+          uuid: 'point-uuid',
+          name: 'Lamp',
+          type: 'PointLight',
+          transform: {
+            position: [1, 2, 3],
+            rotation: [0, 0, 0],
+            scale: [1, 1, 1],
+          },
+          components: [
+            {
+              type: 'light',
+              lightType: 'point',
+              color: [1.0, 0.8, 0.6],
+              intensity: 2.0,
+              enabled: true,
+              range: 15,
+            },
+          ],
+        };
+
+        const entity = EntitySerializer.deserializeEntity(serialized) as PointLight;
+
+        expect(entity).toBeInstanceOf(PointLight);
+        expect(entity.id).toBe('point-uuid');
+        expect(entity.transform.position).toEqual([1, 2, 3]);
+        expect(entity.getRange()).toBe(15);
+        expect(entity.getLightComponent().lightType).toBe('point');
+      });
+    });
+
+    describe('SpotLight deserialization', () => {
+      it('should deserialize a SpotLight with its cone settings', () => {
+        const serialized: ISerializedEntity = {
+          uuid: 'spot-uuid',
+          name: 'Spot',
+          type: 'SpotLight',
+          transform: {
+            position: [0, 0, 5],
+            rotation: [30, 0, 0],
+            scale: [1, 1, 1],
+          },
+          components: [
+            {
+              type: 'light',
+              lightType: 'spot',
+              color: [1.0, 1.0, 1.0],
+              intensity: 1.0,
+              enabled: true,
+              range: 20,
+              spotAngle: 45,
+              innerSpotRatio: 0.5,
+            },
+          ],
+        };
+
+        const entity = EntitySerializer.deserializeEntity(serialized) as SpotLight;
+
+        expect(entity).toBeInstanceOf(SpotLight);
+        expect(entity.transform.rotation).toEqual([30, 0, 0]);
+        expect(entity.getRange()).toBe(20);
+        expect(entity.getSpotAngle()).toBe(45);
+        expect(entity.getInnerSpotRatio()).toBe(0.5);
+      });
+    });
+
     describe('CameraEntity deserialization', () => {
       it('should deserialize a CameraEntity', () => {
         const serialized: ISerializedEntity = {
@@ -520,6 +610,48 @@ describe('EntitySerializer', () => {
         expect(cameraComponent?.nearClipPlane).toBe(0.01);
         expect(cameraComponent?.farClipPlane).toBe(5000);
       });
+
+      it('should round-trip camera clear flags and background color', () => {
+        const camera = new CameraEntity({
+          id: 'camera-uuid',
+          clearFlags: 'depthOnly',
+          backgroundColor: [0.2, 0.4, 0.6],
+        });
+
+        const entity = EntitySerializer.deserializeEntity(EntitySerializer.serializeEntity(camera)) as CameraEntity;
+        const cameraComponent = entity.getComponent<ICameraComponent>('camera');
+
+        expect(cameraComponent?.clearFlags).toBe('depthOnly');
+        expect(cameraComponent?.backgroundColor).toEqual([0.2, 0.4, 0.6]);
+      });
+
+      it('should round-trip camera projection and orthographic size', () => {
+        const camera = new CameraEntity({
+          id: 'camera-uuid',
+          projection: 'orthographic',
+          orthographicSize: 12.5,
+        });
+
+        const entity = EntitySerializer.deserializeEntity(EntitySerializer.serializeEntity(camera)) as CameraEntity;
+        const cameraComponent = entity.getComponent<ICameraComponent>('camera');
+
+        expect(cameraComponent?.projection).toBe('orthographic');
+        expect(cameraComponent?.orthographicSize).toBe(12.5);
+      });
+
+      it('should default to perspective projection for older scenes', () => {
+        const serialized: ISerializedEntity = {
+          uuid: 'camera-uuid',
+          name: 'Old Camera',
+          type: 'Camera',
+          transform: { position: [0, -10, 5], rotation: [0, 0, 0], scale: [1, 1, 1] },
+          components: [{ type: 'camera', fieldOfView: 60, nearClipPlane: 0.1, farClipPlane: 1000 }],
+        };
+
+        const entity = EntitySerializer.deserializeEntity(serialized) as CameraEntity;
+
+        expect(entity.getComponent<ICameraComponent>('camera')?.projection).toBe('perspective');
+      });
     });
 
     describe('MeshEntity deserialization', () => {
@@ -785,6 +917,20 @@ describe('EntitySerializer', () => {
       expect(entities[0].children).toContain(entities[1]);
     });
 
+    it('should restore sibling order from sibling indices', () => {
+      const transform = { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] } as ISerializedEntity['transform'];
+      const serializedData: ISerializedEntity[] = [
+        { uuid: 'parent-uuid', name: 'Parent', type: 'Cube', transform, components: [] },
+        { uuid: 'b-uuid', name: 'B', type: 'Cube', parentUuid: 'parent-uuid', siblingIndex: 1, transform, components: [] },
+        { uuid: 'legacy-uuid', name: 'Legacy', type: 'Cube', parentUuid: 'parent-uuid', transform, components: [] },
+        { uuid: 'a-uuid', name: 'A', type: 'Cube', parentUuid: 'parent-uuid', siblingIndex: 0, transform, components: [] },
+      ];
+
+      const entities = EntitySerializer.deserializeEntities(serializedData);
+
+      expect(entities[0].children.map(child => child.id)).toEqual(['a-uuid', 'b-uuid', 'legacy-uuid']);
+    });
+
     it('should handle missing parent gracefully', () => {
       const serializedData: ISerializedEntity[] = [
         {
@@ -895,6 +1041,33 @@ describe('EntitySerializer', () => {
       expect(deserialized.transform.position).toEqual(original.transform.position);
     });
 
+    it.each([
+      ['Plane', () => new Plane('test-id', 'Test Plane', { width: 4, widthSegments: 3 })],
+      ['Cylinder', () => new Cylinder('test-id', 'Test Cylinder', { radius: 1.5, segments: 12 })],
+      ['Cone', () => new Cone('test-id', 'Test Cone', { height: 3, heightSegments: 2 })],
+      ['Torus', () => new Torus('test-id', 'Test Torus', { tubeRadius: 0.2, tubularSegments: 6 })],
+      ['Capsule', () => new Capsule('test-id', 'Test Capsule', { height: 2, rings: 4 })],
+    ])('should preserve %s parameters through serialize/deserialize cycle', (type, create) => {
+      const original = create();
+      original.transform.position = [1, 2, 3];
+      original.setRenderMode('wireframe');
+      const material = original.getComponent<IMaterialComponent>('material');
+      if (material) material.color = [0.1, 0.2, 0.3];
+
+      const serialized = EntitySerializer.serializeEntity(original);
+      const deserialized = EntitySerializer.deserializeEntity(serialized) as typeof original;
+
+      expect(serialized.type).toBe(type);
+      expect(deserialized).toBeInstanceOf(original.constructor);
+      expect(deserialized.id).toBe(original.id);
+      expect(deserialized.name).toBe(original.name);
+      expect(deserialized.transform.position).toEqual([1, 2, 3]);
+      expect(deserialized.getParameters()).toEqual(original.getParameters());
+      expect(deserialized.getRenderMode()).toBe('wireframe');
+      expect(deserialized.getComponent<IMaterialComponent>('material')?.color).toEqual([0.1, 0.2, 0.3]);
+      expect(deserialized.getMeshData().positions).toEqual(original.getMeshData().positions);
+    });
+
     it('should preserve DirectionalLight data through serialize/deserialize cycle', () => {
       const original = new DirectionalLight({
         name: 'Test Light',
@@ -915,6 +1088,47 @@ describe('EntitySerializer', () => {
       expect(deserLight?.intensity).toBe(origLight?.intensity);
     });
 
+    it('should preserve SpotLight data through serialize/deserialize cycle', () => {
+      const original = new SpotLight({
+        name: 'Stage Spot',
+        position: [2, 0, 4],
+        rotation: [20, 0, 90],
+        range: 12,
+        spotAngle: 60,
+        innerSpotRatio: 0.25,
+      });
+
+      const serialized = EntitySerializer.serializeEntity(original);
+      const deserialized = EntitySerializer.deserializeEntity(serialized) as SpotLight;
+
+      expect(deserialized.id).toBe(original.id);
+      expect(deserialized.transform.position).toEqual([2, 0, 4]);
+      expect(deserialized.getRange()).toBe(12);
+      expect(deserialized.getSpotAngle()).toBe(60);
+      expect(deserialized.getInnerSpotRatio()).toBe(0.25);
+      expect(deserialized.getWorldDirection()).toEqual(original.getWorldDirection());
+    });
+
+    it('should preserve light shadow settings through serialize/deserialize cycle', () => {
+      const original = new DirectionalLight({ name: 'Sun' });
+      const light = original.getLightComponent();
+      light.castShadows = false;
+      light.shadowStrength = 0.6;
+      light.shadowBias = 0.1;
+      light.shadowNormalBias = 0.04;
+      light.shadowResolution = 4096;
+
+      const serialized = EntitySerializer.serializeEntity(original);
+      const deserialized = EntitySerializer.deserializeEntity(serialized) as DirectionalLight;
+      const deserLight = deserialized.getLightComponent();
+
+      expect(deserLight.castShadows).toBe(false);
+      expect(deserLight.shadowStrength).toBe(0.6);
+      expect(deserLight.shadowBias).toBe(0.1);
+      expect(deserLight.shadowNormalBias).toBe(0.04);
+      expect(deserLight.shadowResolution).toBe(4096);
+    });
+
     it('should preserve CameraEntity data through serialize/deserialize cycle', () => {
       const original = new CameraEntity({
         id: 'camera-id',
@@ -981,6 +1195,8 @@ describe('EntitySerializer', () => {
       expect(EntitySerializer.isTypeSupported('Cube')).toBe(true);
       expect(EntitySerializer.isTypeSupported('Sphere')).toBe(true);
       expect(EntitySerializer.isTypeSupported('DirectionalLight')).toBe(true);
+      expect(EntitySerializer.isTypeSupported('PointLight')).toBe(true);
+      expect(EntitySerializer.isTypeSupported('SpotLight')).toBe(true);
       expect(EntitySerializer.isTypeSupported('Camera')).toBe(true);
       expect(EntitySerializer.isTypeSupported('MeshEntity')).toBe(true);
       expect(EntitySerializer.isTypeSupported('GroupEntity')).toBe(true);
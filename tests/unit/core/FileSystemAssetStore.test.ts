@@ -0,0 +1,107 @@
+/**
+ * FileSystemAssetStore Unit Tests
+ *
+ * Exercises the store against the in-memory storage backend.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBus } from '@core/EventBus';
+import { FileSystemAssetStore } from '@core/assets/FileSystemAssetStore';
+import { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
+import type { IMaterialAsset } from '@core/assets/interfaces';
+import { FileSystemAccessBackend, MemoryStorageBackend } from '@core/storage';
+
+describe('FileSystemAssetStore', () => {
+  let eventBus: EventBus;
+  let backend: MemoryStorageBackend;
+  let store: FileSystemAssetStore;
+  let material: IMaterialAsset;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    backend = new MemoryStorageBackend();
+    store = new FileSystemAssetStore(eventBus, backend);
+    material = new MaterialAssetFactory().create({
+      name: 'Red',
+      shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+    });
+  });
+
+  it('should default to the File System Access backend', () => {
+    const defaultStore = new FileSystemAssetStore(eventBus);
+
+    expect(defaultStore.defaultBackend).toBeInstanceOf(FileSystemAccessBackend);
+    expect(defaultStore.isSupported()).toBe(false);
+  });
+
+  it('should fail to open with an unsupported backend', async () => {
+    const result = await new FileSystemAssetStore(eventBus).openFolder();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not supported');
+  });
+
+  it('should open a named folder and create the asset folders', async () => {
+    const opened = vi.fn();
+    eventBus.on('assetStore:opened', opened);
+
+    const result = await store.openFolder({ folderName: 'Scratch' });
+
+    expect(result).toEqual({ success: true, folderName: 'Scratch' });
+    expect(store.isOpen).toBe(true);
+    expect(store.backend).toBe(backend);
+    expect(opened).toHaveBeenCalledWith({ folderName: 'Scratch', storage: 'memory' });
+
+    const assets = await store.getRootHandle()!.getDirectoryHandle('assets');
+    await expect(assets.getDirectoryHandle('materials')).resolves.toBeDefined();
+  });
+
+  it('should open with a backend other than the default', async () => {
+    const other = new MemoryStorageBackend();
+
+    await store.openFolder({ backend: other, folderName: 'Other' });
+
+    expect(store.backend).toBe(other);
+    expect(await other.listProjects()).toEqual(['Other']);
+    expect(await backend.listProjects()).toEqual([]);
+  });
+
+  it('should save, list, load and delete assets', async () => {
+    await store.openFolder({ folderName: 'Scratch' });
+
+    const saved = await store.saveAsset(material);
+    expect(saved).toEqual({ success: true, path: `assets/materials/${material.uuid}.material.json` });
+
+    const listed = await store.listAssets('material');
+    expect(listed.map((meta) => meta.uuid)).toEqual([material.uuid]);
+
+    const loaded = await store.loadAsset<IMaterialAsset>(material.uuid, 'material');
+    expect(loaded.success).toBe(true);
+    expect(loaded.asset?.name).toBe('Red');
+
+    expect(await store.deleteAsset(material.uuid, 'material')).toBe(true);
+    expect(await store.listAssets('material')).toEqual([]);
+  });
+
+  it('should report missing assets', async () => {
+    await store.openFolder({ folderName: 'Scratch' });
+
+    const loaded = await store.loadAsset('missing', 'material');
+
+    expect(loaded.success).toBe(false);
+    expect(loaded.error).toBe('Asset not found: missing');
+  });
+
+  it('should keep assets in the backend after closing', async () => {
+    await store.openFolder({ folderName: 'Scratch' });
+    await store.saveAsset(material);
+    store.closeFolder();
+
+    expect(store.isOpen).toBe(false);
+    expect(store.backend).toBeNull();
+    expect(await store.listAssets()).toEqual([]);
+
+    await store.openFolder({ folderName: 'Scratch' });
+    expect((await store.listAssets()).map((meta) => meta.uuid)).toEqual([material.uuid]);
+  });
+});
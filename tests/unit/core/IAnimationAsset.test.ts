@@ -0,0 +1,118 @@
+/**
+ * IAnimationAsset Tests
+ *
+ * Tests for animation asset interfaces, type guards and channel sampling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isAnimationAsset,
+  getAnimationChannelStride,
+  sampleAnimationChannel,
+  ANIMATION_ASSET_VERSION,
+  type IAnimationAsset,
+  type IAnimationChannel,
+} from '../../../src/core/assets/interfaces/IAnimationAsset';
+
+describe('IAnimationAsset', () => {
+  /**
+   * Create a valid animation asset for testing.
+   */
+  function createValidAnimationAsset(): IAnimationAsset {
+    return {
+      uuid: 'test-animation-uuid',
+      name: 'Walk',
+      type: 'animation',
+      version: ANIMATION_ASSET_VERSION,
+      created: '2026-03-02T12:00:00Z',
+      modified: '2026-03-02T12:00:00Z',
+      isBuiltIn: false,
+      duration: 1,
+      channels: [{
+        targetPath: 'Armature/Hips',
+        property: 'position',
+        interpolation: 'linear',
+        times: [0, 1],
+        values: [0, 0, 0, 2, 4, 6],
+      }],
+    };
+  }
+
+  describe('isAnimationAsset', () => {
+    it('should return true for a valid animation asset', () => {
+      expect(isAnimationAsset(createValidAnimationAsset())).toBe(true);
+    });
+
+    it('should return false for other asset types', () => {
+      expect(isAnimationAsset({ ...createValidAnimationAsset(), type: 'mesh' })).toBe(false);
+    });
+
+    it('should return false for missing duration', () => {
+      const asset = createValidAnimationAsset() as unknown as Record<string, unknown>;
+      delete asset.duration;
+      expect(isAnimationAsset(asset)).toBe(false);
+    });
+
+    it('should return false for an invalid channel property', () => {
+      const asset = createValidAnimationAsset();
+      const channels = [{ ...asset.channels[0], property: 'weights' }];
+      expect(isAnimationAsset({ ...asset, channels })).toBe(false);
+    });
+
+    it('should return false for null and primitives', () => {
+      expect(isAnimationAsset(null)).toBe(false);
+      expect(isAnimationAsset('animation')).toBe(false);
+    });
+  });
+
+  describe('getAnimationChannelStride', () => {
+    it('should return 4 for rotation and 3 otherwise', () => {
+      expect(getAnimationChannelStride('rotation')).toBe(4);
+      expect(getAnimationChannelStride('position')).toBe(3);
+      expect(getAnimationChannelStride('scale')).toBe(3);
+    });
+  });
+
+  describe('sampleAnimationChannel', () => {
+    const linear: IAnimationChannel = {
+      targetPath: 'Node',
+      property: 'position',
+      interpolation: 'linear',
+      times: [0, 1, 3],
+      values: [0, 0, 0, 2, 4, 6, 4, 4, 4],
+    };
+
+    it('should interpolate linearly between keys', () => {
+      expect(sampleAnimationChannel(linear, 0.5)).toEqual([1, 2, 3]);
+      expect(sampleAnimationChannel(linear, 2)).toEqual([3, 4, 5]);
+    });
+
+    it('should clamp outside the key range', () => {
+      expect(sampleAnimationChannel(linear, -1)).toEqual([0, 0, 0]);
+      expect(sampleAnimationChannel(linear, 10)).toEqual([4, 4, 4]);
+    });
+
+    it('should hold the previous key for step interpolation', () => {
+      const step: IAnimationChannel = { ...linear, interpolation: 'step' };
+      expect(sampleAnimationChannel(step, 0.99)).toEqual([0, 0, 0]);
+      expect(sampleAnimationChannel(step, 1.5)).toEqual([2, 4, 6]);
+    });
+
+    it('should slerp rotations', () => {
+      const rotation: IAnimationChannel = {
+        targetPath: 'Node',
+        property: 'rotation',
+        interpolation: 'linear',
+        times: [0, 1],
+        values: [0, 0, 0, 1, 0, 0, 1, 0],
+      };
+      const q = sampleAnimationChannel(rotation, 0.5);
+      expect(q[2]).toBeCloseTo(Math.SQRT1_2);
+      expect(q[3]).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('should return an empty value for a channel without keys', () => {
+      expect(sampleAnimationChannel({ ...linear, times: [], values: [] }, 0)).toEqual([]);
+    });
+  });
+});
@@ -191,6 +191,17 @@ describe('IMeshAsset', () => {
     });
   });
 
+  describe('isMeshAsset indexFormat', () => {
+    it('should accept uint16 and uint32 index formats', () => {
+      expect(isMeshAsset({ ...createValidMeshAsset(), indexFormat: 'uint16' })).toBe(true);
+      expect(isMeshAsset({ ...createValidMeshAsset(), indexFormat: 'uint32' })).toBe(true);
+    });
+
+    it('should return false for an unknown index format', () => {
+      expect(isMeshAsset({ ...createValidMeshAsset(), indexFormat: 'uint8' })).toBe(false);
+    });
+  });
+
   describe('calculateMeshBounds', () => {
     it('should calculate bounds for a single point', () => {
       const positions = [1, 2, 3];
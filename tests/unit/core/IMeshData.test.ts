@@ -0,0 +1,55 @@
+/**
+ * IMeshData Tests
+ *
+ * Tests for mesh index width helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getIndexFormat,
+  createIndexArray,
+  MAX_UINT16_INDEX,
+} from '../../../src/core/interfaces/IMeshData';
+
+describe('IMeshData', () => {
+  describe('getIndexFormat', () => {
+    it('should return uint16 when all indices fit', () => {
+      expect(getIndexFormat([0, 1, MAX_UINT16_INDEX])).toBe('uint16');
+    });
+
+    it('should return uint32 for the primitive restart index', () => {
+      expect(getIndexFormat([0, 1, 0xffff])).toBe('uint32');
+    });
+
+    it('should handle index lists too large to spread', () => {
+      const indices = new Uint32Array(500000);
+      indices[indices.length - 1] = 100000;
+
+      expect(getIndexFormat(indices)).toBe('uint32');
+    });
+  });
+
+  describe('createIndexArray', () => {
+    it('should create a Uint16Array for small meshes', () => {
+      const indices = createIndexArray([0, 1, 2]);
+
+      expect(indices).toBeInstanceOf(Uint16Array);
+      expect(Array.from(indices)).toEqual([0, 1, 2]);
+    });
+
+    it('should create a Uint32Array without truncating large indices', () => {
+      const indices = createIndexArray([0, 1, 70000]);
+
+      expect(indices).toBeInstanceOf(Uint32Array);
+      expect(Array.from(indices)).toEqual([0, 1, 70000]);
+    });
+
+    it('should honour a uint32 format hint', () => {
+      expect(createIndexArray([0, 1, 2], 'uint32')).toBeInstanceOf(Uint32Array);
+    });
+
+    it('should widen a stale uint16 format hint', () => {
+      expect(createIndexArray([0, 1, 70000], 'uint16')).toBeInstanceOf(Uint32Array);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * LightManager Unit Tests
+ *
+ * Tests the light data collected for rendering, including lights nested
+ * under transformed parents.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import { LightManager } from '@core/LightManager';
+import { DirectionalLight, SpotLight } from '@plugins/lights';
+import { GroupEntity } from '@plugins/primitives/GroupEntity';
+
+function expectVector(actual: [number, number, number], expected: [number, number, number]): void {
+  expect(actual[0]).toBeCloseTo(expected[0]);
+  expect(actual[1]).toBeCloseTo(expected[1]);
+  expect(actual[2]).toBeCloseTo(expected[2]);
+}
+
+describe('LightManager', () => {
+  let eventBus: EventBus;
+  let sceneGraph: SceneGraph;
+  let lightManager: LightManager;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    sceneGraph = new SceneGraph(eventBus);
+    lightManager = new LightManager({ eventBus, sceneGraph });
+  });
+
+  it('should report top-level lights at their transform', () => {
+    sceneGraph.add(new SpotLight({ position: [1, 2, 3] }));
+
+    const [light] = lightManager.getActiveLights();
+
+    expect(light.position).toEqual([1, 2, 3]);
+    expectVector(light.direction, [0, 0, -1]);
+  });
+
+  it('should place nested lights with their parent transforms', () => {
+    // Tilting the group 90 degrees around X turns local -Z into world +Y
+    const group = new GroupEntity('Rig');
+    group.transform.position = [5, 0, 0];
+    group.transform.rotation = [90, 0, 0];
+    sceneGraph.add(group);
+    sceneGraph.add(new SpotLight({ position: [0, 0, 2] }), group);
+
+    const [light] = lightManager.getActiveLights();
+
+    expectVector(light.position, [5, -2, 0]);
+    expectVector(light.direction, [0, 1, 0]);
+  });
+
+  it('should follow the parent when it moves', () => {
+    const group = new GroupEntity('Rig');
+    sceneGraph.add(group);
+    const sun = new DirectionalLight({ rotation: [0, 0, 0] });
+    sceneGraph.add(sun, group);
+
+    group.transform.rotation = [0, 90, 0];
+
+    // Rotating around Y carries local -Z to world -X
+    expectVector(sun.getWorldDirection(), [-1, 0, 0]);
+    expectVector(lightManager.getActiveLights()[0].direction, [-1, 0, 0]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * MemoryStorageBackend Unit Tests
+ *
+ * Tests for the in-memory storage backend and its directory/file handles.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MemoryStorageBackend,
+  MemoryDirectoryHandle,
+  DEFAULT_BROWSER_PROJECT_NAME,
+} from '@core/storage';
+
+async function writeFile(
+  dir: FileSystemDirectoryHandle,
+  name: string,
+  content: FileSystemWriteChunkType
+): Promise<FileSystemFileHandle> {
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(content);
+  await writable.close();
+  return handle;
+}
+
+async function readText(handle: FileSystemFileHandle): Promise<string> {
+  return (await handle.getFile()).text();
+}
+
+async function listNames(dir: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const [name] of dir.entries()) {
+    names.push(name);
+  }
+  return names;
+}
+
+describe('MemoryDirectoryHandle', () => {
+  let root: MemoryDirectoryHandle;
+
+  beforeEach(() => {
+    root = new MemoryDirectoryHandle('root');
+  });
+
+  it('should write and read files', async () => {
+    const handle = await writeFile(root, 'notes.txt', 'hello');
+
+    const file = await handle.getFile();
+    expect(file.name).toBe('notes.txt');
+    expect(file.size).toBe(5);
+    expect(await file.text()).toBe('hello');
+  });
+
+  it('should write binary data', async () => {
+    const handle = await writeFile(root, 'data.bin', new Uint8Array([1, 2, 3]).buffer);
+
+    const bytes = new Uint8Array(await (await handle.getFile()).arrayBuffer());
+    expect(Array.from(bytes)).toEqual([1, 2, 3]);
+  });
+
+  it('should not change a file until the writable is closed', async () => {
+    const handle = await writeFile(root, 'notes.txt', 'old');
+
+    const writable = await handle.createWritable();
+    await writable.write('new');
+    expect(await readText(handle)).toBe('old');
+
+    await writable.close();
+    expect(await readText(handle)).toBe('new');
+  });
+
+  it('should replace contents unless keepExistingData is set', async () => {
+    const handle = await writeFile(root, 'notes.txt', 'hello world');
+
+    const appending = await handle.createWritable({ keepExistingData: true });
+    await appending.seek(6);
+    await appending.write('there');
+    await appending.close();
+    expect(await readText(handle)).toBe('hello there');
+
+    const replacing = await handle.createWritable();
+    await replacing.write('hi');
+    await replacing.close();
+    expect(await readText(handle)).toBe('hi');
+  });
+
+  it('should truncate files', async () => {
+    const handle = await writeFile(root, 'notes.txt', 'hello world');
+
+    const writable = await handle.createWritable({ keepExistingData: true });
+    await writable.truncate(5);
+    await writable.close();
+
+    expect(await readText(handle)).toBe('hello');
+  });
+
+  it('should create nested directories', async () => {
+    const models = await (await root.getDirectoryHandle('sources', { create: true }))
+      .getDirectoryHandle('models', { create: true });
+    await writeFile(models, 'car.glb', 'glb');
+
+    const sources = await root.getDirectoryHandle('sources');
+    expect(await listNames(sources)).toEqual(['models']);
+    expect(await root.resolve(await models.getFileHandle('car.glb'))).toEqual(['sources', 'models', 'car.glb']);
+  });
+
+  it('should throw NotFoundError for missing entries', async () => {
+    await expect(root.getFileHandle('missing.txt')).rejects.toMatchObject({ name: 'NotFoundError' });
+    await expect(root.getDirectoryHandle('missing')).rejects.toMatchObject({ name: 'NotFoundError' });
+    await expect(root.removeEntry('missing')).rejects.toMatchObject({ name: 'NotFoundError' });
+  });
+
+  it('should throw TypeMismatchError when an entry has the other kind', async () => {
+    await root.getDirectoryHandle('assets', { create: true });
+    await writeFile(root, 'project.json', '{}');
+
+    await expect(root.getFileHandle('assets')).rejects.toMatchObject({ name: 'TypeMismatchError' });
+    await expect(root.getDirectoryHandle('project.json')).rejects.toMatchObject({ name: 'TypeMismatchError' });
+  });
+
+  it('should reject invalid names', async () => {
+    await expect(root.getFileHandle('a/b.txt', { create: true })).rejects.toThrow(TypeError);
+    await expect(root.getDirectoryHandle('..', { create: true })).rejects.toThrow(TypeError);
+  });
+
+  it('should only remove non-empty directories recursively', async () => {
+    const assets = await root.getDirectoryHandle('assets', { create: true });
+    await writeFile(assets, 'a.json', '{}');
+
+    await expect(root.removeEntry('assets')).rejects.toMatchObject({ name: 'InvalidModificationError' });
+    await root.removeEntry('assets', { recursive: true });
+
+    expect(await listNames(root)).toEqual([]);
+  });
+
+  it('should allow removing entries while iterating', async () => {
+    await writeFile(root, 'a.txt', 'a');
+    await writeFile(root, 'b.txt', 'b');
+
+    for await (const name of root.keys()) {
+      await root.removeEntry(name);
+    }
+
+    expect(await listNames(root)).toEqual([]);
+  });
+});
+
+describe('MemoryStorageBackend', () => {
+  let backend: MemoryStorageBackend;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+  });
+
+  it('should always be supported', () => {
+    expect(backend.kind).toBe('memory');
+    expect(backend.isSupported()).toBe(true);
+  });
+
+  it('should open the same project root by name', async () => {
+    const first = await backend.openRoot('Scratch');
+    await writeFile(first, 'a.txt', 'a');
+
+    const second = await backend.openRoot('Scratch');
+
+    expect(second.name).toBe('Scratch');
+    expect(await listNames(second)).toEqual(['a.txt']);
+  });
+
+  it('should open the default project without a name', async () => {
+    const root = await backend.openRoot();
+    expect(root.name).toBe(DEFAULT_BROWSER_PROJECT_NAME);
+  });
+
+  it('should list and delete projects', async () => {
+    await backend.openRoot('Zeta');
+    await backend.openRoot('Alpha');
+
+    expect(await backend.listProjects()).toEqual(['Alpha', 'Zeta']);
+    expect(await backend.deleteProject('Zeta')).toBe(true);
+    expect(await backend.deleteProject('Zeta')).toBe(false);
+    expect(await backend.listProjects()).toEqual(['Alpha']);
+  });
+
+  it('should keep projects separate between backend instances', async () => {
+    await backend.openRoot('Scratch');
+    expect(await new MemoryStorageBackend().listProjects()).toEqual([]);
+  });
+});
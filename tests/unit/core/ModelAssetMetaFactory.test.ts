@@ -256,6 +256,110 @@ describe('ModelAssetMetaFactory', () => {
     });
   });
 
+  describe('updateTextureReferences', () => {
+    const withTextures = (): IGLTFImportResult => ({
+      ...createMockGLTFResult(),
+      textures: [
+        {
+          name: 'BaseColor',
+          image: new Uint8Array([0]),
+          mimeType: 'image/png',
+          width: 256,
+          height: 128,
+          sRGB: true,
+          wrapModeU: 'repeat',
+          wrapModeV: 'repeat',
+        },
+      ],
+    });
+
+    it('should create texture references with dimensions', () => {
+      const meta = factory.createFromGLTFResult(
+        withTextures(),
+        'model.glb',
+        'Assets/Models/model.glb',
+        'size:1234:mtime:1234567890'
+      );
+
+      expect(meta.contents.textures).toHaveLength(1);
+      expect(meta.contents.textures?.[0]).toMatchObject({
+        name: 'BaseColor',
+        sourceIndex: 0,
+        width: 256,
+        height: 128,
+        hasAlpha: true,
+      });
+    });
+
+    it('should preserve existing texture UUIDs when updating', () => {
+      const gltfResult = withTextures();
+      const existingMeta = factory.createFromGLTFResult(
+        gltfResult,
+        'model.glb',
+        'Assets/Models/model.glb',
+        'size:1234:mtime:1234567890'
+      );
+      const originalUuid = existingMeta.contents.textures?.[0].uuid;
+
+      const updated = factory.updateTextureReferences(existingMeta, gltfResult.textures ?? []);
+
+      expect(updated[0].uuid).toBe(originalUuid);
+    });
+  });
+
+  describe('updateAnimationReferences', () => {
+    const withAnimations = (): IGLTFImportResult => ({
+      ...createMockGLTFResult(),
+      animations: [
+        {
+          name: 'Walk',
+          duration: 1.5,
+          channels: [
+            {
+              nodeIndex: 0,
+              path: 'translation',
+              interpolation: 'LINEAR',
+              times: new Float32Array([0, 1.5]),
+              values: new Float32Array([0, 0, 0, 1, 0, 0]),
+            },
+          ],
+        },
+      ],
+    });
+
+    it('should create animation references with duration and channel count', () => {
+      const meta = factory.createFromGLTFResult(
+        withAnimations(),
+        'model.glb',
+        'Assets/Models/model.glb',
+        'size:1234:mtime:1234567890'
+      );
+
+      expect(meta.contents.animations).toHaveLength(1);
+      expect(meta.contents.animations?.[0]).toMatchObject({
+        name: 'Walk',
+        sourceIndex: 0,
+        duration: 1.5,
+        channelCount: 1,
+      });
+    });
+
+    it('should preserve existing animation UUIDs when updating', () => {
+      const gltfResult = withAnimations();
+      const existingMeta = factory.createFromGLTFResult(
+        gltfResult,
+        'model.glb',
+        'Assets/Models/model.glb',
+        'size:1234:mtime:1234567890'
+      );
+      const originalUuid = existingMeta.contents.animations?.[0].uuid;
+
+      const updated = factory.updateAnimationReferences(existingMeta, gltfResult.animations ?? []);
+
+      expect(updated[0].uuid).toBe(originalUuid);
+    });
+  });
+
   describe('createUpdatedContents', () => {
     it('should create updated contents preserving UUIDs', () => {
       const gltfResult = createMockGLTFResult();
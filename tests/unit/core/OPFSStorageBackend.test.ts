@@ -0,0 +1,59 @@
+/**
+ * OPFSStorageBackend Unit Tests
+ *
+ * The Origin Private File System is not available in jsdom, so the
+ * backend is given an in-memory directory as its storage root.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  OPFSStorageBackend,
+  MemoryDirectoryHandle,
+  DEFAULT_BROWSER_PROJECT_NAME,
+} from '@core/storage';
+
+describe('OPFSStorageBackend', () => {
+  let storageRoot: MemoryDirectoryHandle;
+  let backend: OPFSStorageBackend;
+
+  beforeEach(() => {
+    storageRoot = new MemoryDirectoryHandle('');
+    backend = new OPFSStorageBackend(async () => storageRoot);
+  });
+
+  it('should report unsupported without navigator.storage.getDirectory', () => {
+    expect(backend.kind).toBe('opfs');
+    expect(backend.isSupported()).toBe(false);
+  });
+
+  it('should keep each project in a folder under projects/', async () => {
+    const root = await backend.openRoot('My Project');
+
+    const projects = await storageRoot.getDirectoryHandle('projects');
+    expect(root.name).toBe('My Project');
+    expect(await projects.getDirectoryHandle('My Project')).toBe(root);
+  });
+
+  it('should open the default project without a name', async () => {
+    const root = await backend.openRoot();
+    expect(root.name).toBe(DEFAULT_BROWSER_PROJECT_NAME);
+  });
+
+  it('should list project folders and ignore stray files', async () => {
+    await backend.openRoot('Zeta');
+    await backend.openRoot('Alpha');
+    const projects = await storageRoot.getDirectoryHandle('projects');
+    await projects.getFileHandle('readme.txt', { create: true });
+
+    expect(await backend.listProjects()).toEqual(['Alpha', 'Zeta']);
+  });
+
+  it('should delete projects recursively', async () => {
+    const root = await backend.openRoot('Old');
+    await root.getDirectoryHandle('assets', { create: true });
+
+    expect(await backend.deleteProject('Old')).toBe(true);
+    expect(await backend.deleteProject('Old')).toBe(false);
+    expect(await backend.listProjects()).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * ProjectArchiveService Unit Tests
+ *
+ * Exports and imports projects kept in the in-memory storage backend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProjectArchiveService } from '@core/ProjectArchiveService';
+import { ProjectService } from '@core/ProjectService';
+import { EventBus } from '@core/EventBus';
+import { AssetRegistry } from '@core/assets/AssetRegistry';
+import { FileSystemAssetStore } from '@core/assets/FileSystemAssetStore';
+import { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
+import { BUILT_IN_SHADERS } from '@core/assets/BuiltInShaders';
+import { MemoryStorageBackend } from '@core/storage';
+import { createZip, readZip } from '@utils/zip';
+
+const encoder = new TextEncoder();
+
+function toBlob(bytes: Uint8Array): Blob {
+  return new Blob([bytes], { type: 'application/zip' });
+}
+
+async function readArchive(blob: Blob): Promise<Map<string, string>> {
+  const entries = await readZip(new Uint8Array(await blob.arrayBuffer()));
+  return new Map(entries.map((entry) => [entry.path, new TextDecoder().decode(entry.data)]));
+}
+
+describe('ProjectArchiveService', () => {
+  let eventBus: EventBus;
+  let assetRegistry: AssetRegistry;
+  let backend: MemoryStorageBackend;
+  let projectService: ProjectService;
+  let archiveService: ProjectArchiveService;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    assetRegistry = new AssetRegistry(eventBus);
+    for (const shader of BUILT_IN_SHADERS) {
+      assetRegistry.register(shader);
+    }
+    backend = new MemoryStorageBackend();
+    projectService = new ProjectService({
+      eventBus,
+      assetRegistry,
+      assetStore: new FileSystemAssetStore(eventBus, backend),
+    });
+    archiveService = new ProjectArchiveService({ projectService, assetRegistry, storageBackend: backend });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await projectService.closeProject();
+    vi.restoreAllMocks();
+  });
+
+  it('should fail to export without an open project', async () => {
+    const result = await archiveService.exportProject();
+
+    expect(result).toEqual({ success: false, error: 'No project is open.' });
+  });
+
+  it('should export every project file', async () => {
+    const material = new MaterialAssetFactory().create({
+      name: 'Red',
+      shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+    });
+    await projectService.openProject({ projectName: 'Demo' });
+    await projectService.saveAsset(material);
+    await projectService.copySourceFile(new File([new Uint8Array([1, 2, 3])], 'car.glb'), 'models');
+
+    const result = await archiveService.exportProject();
+
+    expect(result).toMatchObject({
+      success: true,
+      fileName: 'Demo.zip',
+      missingFiles: [],
+      unresolvedReferences: [],
+      unreadableFiles: [],
+    });
+    const files = await readArchive(result.blob!);
+    expect(files.has('.ready-set-render/project.json')).toBe(true);
+    expect(files.has(`assets/materials/${material.uuid}.material.json`)).toBe(true);
+    expect(files.has('sources/models/car.glb')).toBe(true);
+    expect(result.fileCount).toBe(files.size);
+  });
+
+  it('should import an exported project under a new name', async () => {
+    const material = new MaterialAssetFactory().create({
+      name: 'Red',
+      shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+    });
+    await projectService.openProject({ projectName: 'Demo' });
+    await projectService.saveAsset(material);
+    const exported = await archiveService.exportProject();
+    await projectService.closeProject();
+    assetRegistry.unregister(material.uuid);
+
+    const result = await archiveService.importProject(exported.blob!);
+
+    expect(result).toMatchObject({ success: true, projectName: 'Demo (2)', unresolvedReferences: [] });
+    expect(projectService.projectName).toBe('Demo (2)');
+    expect(await backend.listProjects()).toEqual(['Demo', 'Demo (2)']);
+    expect(assetRegistry.get(material.uuid)?.name).toBe('Red');
+
+    const files = await readArchive((await archiveService.exportProject()).blob!);
+    expect(JSON.parse(files.get('.ready-set-render/project.json')!).name).toBe('Demo (2)');
+  });
+
+  it('should import archives wrapped in a project folder', async () => {
+    const archive = await createZip([
+      { path: 'Hand Made/.ready-set-render/project.json', data: encoder.encode('{"name":"Hand Made","version":"1.0.0"}') },
+      { path: 'Hand Made/notes.txt', data: encoder.encode('hello') },
+    ]);
+
+    const result = await archiveService.importProject(toBlob(archive));
+
+    expect(result).toMatchObject({ success: true, projectName: 'Hand Made', fileCount: 2 });
+    const root = projectService.getProjectHandle()!;
+    expect(await (await (await root.getFileHandle('notes.txt')).getFile()).text()).toBe('hello');
+  });
+
+  it('should report missing files and unresolved references', async () => {
+    const archive = await createZip([
+      { path: '.ready-set-render/project.json', data: encoder.encode('{"name":"Broken","version":"1.0.0"}') },
+      { path: 'sources/models/tree.glb.assetmeta', data: encoder.encode('{"uuid":"model-1","meshes":[{"uuid":"mesh-1"}]}') },
+      {
+        path: 'assets/materials/m.material.json',
+        data: encoder.encode(JSON.stringify({
+          uuid: 'material-1',
+          type: 'material',
+          shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+          textureRef: { uuid: 'missing-texture', type: 'texture' },
+          meshRef: { uuid: 'mesh-1', type: 'mesh' },
+        })),
+      },
+      { path: 'assets/scenes/bad.scene.json', data: encoder.encode('{ not json') },
+    ]);
+
+    const result = await archiveService.importProject(toBlob(archive));
+
+    expect(result.success).toBe(true);
+    expect(result.missingFiles).toEqual(['sources/models/tree.glb']);
+    expect(result.unresolvedReferences).toEqual([
+      { path: 'assets/materials/m.material.json', uuid: 'missing-texture', type: 'texture' },
+    ]);
+    expect(result.unreadableFiles).toEqual(['assets/scenes/bad.scene.json']);
+  });
+
+  it('should reject archives that are not projects', async () => {
+    const archive = await createZip([{ path: 'readme.txt', data: encoder.encode('hi') }]);
+
+    const result = await archiveService.importProject(toBlob(archive));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not a project');
+    expect(await backend.listProjects()).toEqual([]);
+  });
+
+  it('should reject files that are not archives', async () => {
+    const result = await archiveService.importProject(new Blob(['plain text']));
+
+    expect(result).toEqual({ success: false, error: 'Not a ZIP archive' });
+  });
+
+  it('should reject paths outside the project', async () => {
+    const archive = await createZip([
+      { path: '.ready-set-render/project.json', data: encoder.encode('{"name":"Evil","version":"1.0.0"}') },
+      { path: 'assets/../../escape.txt', data: encoder.encode('x') },
+    ]);
+
+    const result = await archiveService.importProject(toBlob(archive));
+
+    expect(result).toEqual({ success: false, error: 'Unsafe path in archive: assets/../../escape.txt' });
+  });
+
+  it('should refuse to import into a folder that is not empty', async () => {
+    const target = await backend.openRoot('Taken');
+    await target.getFileHandle('existing.txt', { create: true });
+    const archive = await createZip([
+      { path: '.ready-set-render/project.json', data: encoder.encode('{"name":"New","version":"1.0.0"}') },
+    ]);
+
+    const result = await archiveService.importProject(toBlob(archive), { projectName: 'Taken' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not empty');
+    expect(projectService.isProjectOpen).toBe(false);
+  });
+});
@@ -12,6 +12,8 @@ import { FileSystemAssetStore } from '@core/assets/FileSystemAssetStore';
 import { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
 import { BUILT_IN_SHADERS } from '@core/assets/BuiltInShaders';
 import { BUILT_IN_MATERIALS } from '@core/assets/BuiltInMaterials';
+import { MemoryStorageBackend, OPFSStorageBackend } from '@core/storage';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
 
 /**
  * Create a mock FileSystemAssetStore for testing.
@@ -295,3 +297,142 @@ describe('ProjectService with unsupported browser', () => {
     expect(result.error).toContain('not supported');
   });
 });
+
+describe('ProjectService with in-memory storage', () => {
+  let eventBus: EventBus;
+  let assetRegistry: AssetRegistry;
+  let backend: MemoryStorageBackend;
+  let projectService: ProjectService;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    assetRegistry = new AssetRegistry(eventBus);
+    backend = new MemoryStorageBackend();
+    projectService = new ProjectService({
+      eventBus,
+      assetRegistry,
+      assetStore: new FileSystemAssetStore(eventBus, backend),
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await projectService.closeProject();
+    vi.restoreAllMocks();
+  });
+
+  it('should create a new project with metadata', async () => {
+    const opened = vi.fn();
+    eventBus.on('project:opened', opened);
+
+    const result = await projectService.openProject({ projectName: 'Scratch' });
+
+    expect(result).toMatchObject({ success: true, projectName: 'Scratch', isNew: true });
+    expect(projectService.isProjectOpen).toBe(true);
+    expect(projectService.storageKind).toBe('memory');
+    expect(opened).toHaveBeenCalledWith(expect.objectContaining({ projectName: 'Scratch', storage: 'memory' }));
+
+    const root = projectService.getProjectHandle()!;
+    const metadataFile = await (await root.getDirectoryHandle('.ready-set-render')).getFileHandle('project.json');
+    expect(JSON.parse(await (await metadataFile.getFile()).text()).name).toBe('Scratch');
+  });
+
+  it('should rediscover saved assets when the project is reopened', async () => {
+    const material = new MaterialAssetFactory().create({
+      name: 'Saved Material',
+      shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+    });
+    await projectService.openProject({ projectName: 'Scratch' });
+    expect(await projectService.saveAsset(material)).toBe(true);
+    await projectService.closeProject();
+    expect(assetRegistry.get(material.uuid)).toBeUndefined();
+
+    const result = await projectService.openProject({ projectName: 'Scratch' });
+
+    expect(result).toMatchObject({ success: true, isNew: false, assetsDiscovered: 1 });
+    expect(assetRegistry.get(material.uuid)?.name).toBe('Saved Material');
+  });
+
+  it('should copy, read, duplicate and delete source files', async () => {
+    await projectService.openProject({ projectName: 'Scratch' });
+    const file = new File([new Uint8Array([1, 2, 3])], 'car.glb');
+
+    const path = await projectService.copySourceFile(file, 'models');
+    expect(path).toBe('sources/models/car.glb');
+
+    const read = await projectService.readSourceFile(path!);
+    expect(Array.from(new Uint8Array(await read!.arrayBuffer()))).toEqual([1, 2, 3]);
+
+    const copyPath = await projectService.duplicateSourceFile(path!);
+    expect(copyPath).toBe('sources/models/car_copy.glb');
+
+    const sourceFiles = await projectService.scanSourceFiles();
+    expect(sourceFiles.map((source) => source.path).sort()).toEqual([
+      'sources/models/car.glb',
+      'sources/models/car_copy.glb',
+    ]);
+
+    expect(await projectService.deleteSourceFile(path!)).toBe(true);
+    expect(await projectService.readSourceFile(path!)).toBeNull();
+  });
+
+  it('should register project images as texture assets', async () => {
+    await projectService.openProject({ projectName: 'Scratch' });
+    await projectService.copySourceFile(new File([new Uint8Array([137, 80, 78, 71])], 'wood.png'), 'textures');
+
+    await projectService.rescanProject();
+
+    const textures = assetRegistry.getByType('texture');
+    expect(textures).toHaveLength(1);
+    expect(textures[0].name).toBe('wood');
+    expect(projectService.getSourceFiles()[0]).toMatchObject({ path: 'sources/textures/wood.png', isImported: true });
+  });
+
+  it('should register Radiance HDR files as HDRI textures', async () => {
+    await projectService.openProject({ projectName: 'Scratch' });
+    await projectService.copySourceFile(new File([new TextEncoder().encode('#?RADIANCE\n')], 'sky.hdr'), 'textures');
+
+    await projectService.rescanProject();
+
+    const [texture] = assetRegistry.getByType<ITextureAsset>('texture');
+    expect(texture.name).toBe('sky');
+    expect(texture.source.mimeType).toBe('image/vnd.radiance');
+    expect(texture.importSettings.textureType).toBe('hdri');
+    expect(texture.importSettings.sRGB).toBe(false);
+  });
+
+  it('should list the projects kept by the backend', async () => {
+    await projectService.openProject({ projectName: 'Beta' });
+    await projectService.openProject({ projectName: 'Alpha' });
+
+    expect(await projectService.listProjects()).toEqual(['Alpha', 'Beta']);
+    expect(projectService.projectName).toBe('Alpha');
+  });
+
+  it('should close the open project before deleting it', async () => {
+    await projectService.openProject({ projectName: 'Beta' });
+    await projectService.openProject({ projectName: 'Alpha' });
+
+    expect(await projectService.deleteProject('Alpha')).toBe(true);
+
+    expect(projectService.isProjectOpen).toBe(false);
+    expect(await projectService.listProjects()).toEqual(['Beta']);
+    expect(await projectService.deleteProject('Alpha')).toBe(false);
+  });
+
+  it('should not remember in-memory projects for the next session', async () => {
+    localStorage.removeItem('rsr:lastProject');
+
+    await projectService.openProject({ projectName: 'Scratch' });
+
+    expect(ProjectService.getLastProjectName()).toBeNull();
+  });
+
+  it('should fail to open with an unsupported backend', async () => {
+    const result = await projectService.openProject({ backend: new OPFSStorageBackend() });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Browser storage is not supported in this browser.');
+    expect(await projectService.listProjects(new OPFSStorageBackend())).toEqual([]);
+  });
+});
@@ -904,5 +904,29 @@ describe('SceneAssetFactory', () => {
       expect(loadedChild?.parent).toBe(loadedParent);
       expect(loadedParent?.children).toContain(loadedChild);
     });
+
+    it('should preserve sibling order after reordering', () => {
+      const first = new Cube('first-id', 'First');
+      const second = new Cube('second-id', 'Second');
+      const third = new Sphere('third-id', 'Third');
+      sceneGraph.add(first);
+      sceneGraph.add(second);
+      sceneGraph.add(third);
+
+      // Move the last object to the front; insertion order no longer matches
+      sceneGraph.reparent(third, sceneGraph.getRoot(), 0);
+
+      const json = SceneAssetFactory.toJSON(
+        SceneAssetFactory.createFromSceneGraph(sceneGraph, 'Ordered Scene')
+      );
+      const newSceneGraph = new SceneGraph(new EventBus());
+      SceneAssetFactory.loadIntoSceneGraph(SceneAssetFactory.fromJSON(json), newSceneGraph);
+
+      expect(newSceneGraph.getRoot().children.map((child) => child.name)).toEqual([
+        'Third',
+        'First',
+        'Second',
+      ]);
+    });
   });
 });
@@ -0,0 +1,92 @@
+/**
+ * SceneController Unit Tests
+ *
+ * Tests saving the scene while an animation preview poses objects.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SceneController } from '@core/SceneController';
+import { AnimationPlayer } from '@core/AnimationPlayer';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import { AssetRegistry } from '@core/assets/AssetRegistry';
+import { ANIMATION_ASSET_VERSION, type IAnimationAsset } from '@core/assets/interfaces/IAnimationAsset';
+import type { ISceneAsset } from '@core/assets/interfaces/ISceneAsset';
+import { PrimitiveRegistry } from '@plugins/primitives/PrimitiveRegistry';
+import { GroupEntity } from '@plugins/primitives/GroupEntity';
+
+describe('SceneController', () => {
+  let eventBus: EventBus;
+  let sceneGraph: SceneGraph;
+  let player: AnimationPlayer;
+  let controller: SceneController;
+  let rig: GroupEntity;
+  let written: string[];
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    sceneGraph = new SceneGraph(eventBus);
+    const assetRegistry = new AssetRegistry(eventBus);
+    player = new AnimationPlayer({ eventBus, sceneGraph, assetRegistry });
+    controller = new SceneController({
+      eventBus,
+      sceneGraph,
+      primitiveRegistry: new PrimitiveRegistry({ eventBus }),
+    });
+
+    rig = new GroupEntity('Rig');
+    rig.transform.position = [1, 2, 3];
+    sceneGraph.add(rig);
+
+    const slide: IAnimationAsset = {
+      uuid: 'slide',
+      name: 'Slide',
+      type: 'animation',
+      version: ANIMATION_ASSET_VERSION,
+      created: '2026-03-02T12:00:00Z',
+      modified: '2026-03-02T12:00:00Z',
+      isBuiltIn: false,
+      duration: 2,
+      channels: [{
+        targetPath: 'Rig',
+        property: 'position',
+        interpolation: 'linear',
+        times: [0, 2],
+        values: [0, 0, 0, 10, 0, 0],
+      }],
+    };
+    assetRegistry.register(slide);
+    player.setClip('slide');
+
+    written = [];
+    const handle = {
+      name: 'rig.scene',
+      createWritable: async () => ({
+        write: async (data: string) => {
+          written.push(data);
+        },
+        close: async () => {},
+      }),
+    };
+    vi.stubGlobal('showOpenFilePicker', vi.fn());
+    vi.stubGlobal('showSaveFilePicker', vi.fn(async () => handle));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should save the rest transforms while an animation preview is paused', async () => {
+    player.seek(1);
+    expect(rig.transform.position).toEqual([5, 0, 0]);
+
+    const result = await controller.saveSceneAs();
+
+    const scene = JSON.parse(written[0]) as ISceneAsset;
+    const saved = scene.entities.find((entity) => entity.name === 'Rig');
+    expect(result.success).toBe(true);
+    expect(saved?.transform.position).toEqual([1, 2, 3]);
+    expect(player.getState()).toBe('stopped');
+    expect(rig.transform.position).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * SceneEnvironment Unit Tests
+ *
+ * Tests for the scene environment settings, their undoable edits and the
+ * systems that read them.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import { SceneEnvironment } from '@core/SceneEnvironment';
+import { LightManager } from '@core/LightManager';
+import { PropertyChangeHandler } from '@core/PropertyChangeHandler';
+import { CommandHistory, SceneSettingsChangeCommand } from '@core/commands';
+import { createDefaultSceneSettings } from '@core/assets/interfaces/ISceneAsset';
+import { createAssetReference } from '@core/assets/interfaces/IAssetReference';
+
+describe('SceneEnvironment', () => {
+  let eventBus: EventBus;
+  let environment: SceneEnvironment;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    environment = new SceneEnvironment({ eventBus });
+  });
+
+  it('should start with the default scene settings', () => {
+    expect(environment.getSettings()).toEqual(createDefaultSceneSettings());
+  });
+
+  it('should fill missing fields when loading scene settings', () => {
+    const changed = vi.fn();
+    eventBus.on('scene:environmentChanged', changed);
+
+    environment.load({ backgroundColor: [1, 0, 0], showGrid: false });
+
+    expect(environment.getSettings()).toEqual({
+      ...createDefaultSceneSettings(),
+      backgroundColor: [1, 0, 0],
+      showGrid: false,
+    });
+    expect(changed).toHaveBeenCalledWith({ property: null, settings: environment.getSettings() });
+  });
+
+  it('should emit changes only when a value differs', () => {
+    const changed = vi.fn();
+    eventBus.on('scene:environmentChanged', changed);
+
+    environment.set('ambientColor', [0.1, 0.1, 0.1]);
+    environment.set('ambientColor', [0.2, 0.3, 0.4]);
+
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(changed).toHaveBeenCalledWith(expect.objectContaining({ property: 'ambientColor' }));
+  });
+
+  it('should compare environment map references by asset UUID', () => {
+    const changed = vi.fn();
+    eventBus.on('scene:environmentChanged', changed);
+
+    environment.set('environmentMap', createAssetReference('sky-uuid', 'texture'));
+    environment.set('environmentMap', createAssetReference('sky-uuid', 'texture'));
+    environment.set('environmentMap', null);
+
+    expect(changed).toHaveBeenCalledTimes(2);
+    expect(environment.get('environmentMap')).toBeNull();
+  });
+
+  it('should copy settings for serialization', () => {
+    const settings = environment.toSceneSettings();
+    settings.ambientColor![0] = 1;
+
+    expect(environment.get('ambientColor')[0]).toBe(0.1);
+  });
+
+  it('should apply the ambient intensity to the ambient color', () => {
+    environment.set('ambientColor', [0.2, 0.4, 0.8]);
+    environment.set('ambientIntensity', 0.5);
+
+    expect(environment.getAmbientColor()).toEqual([0.1, 0.2, 0.4]);
+  });
+
+  it('should drive the light manager ambient color', () => {
+    const sceneGraph = new SceneGraph(eventBus);
+    const withEnvironment = new LightManager({ eventBus, sceneGraph, sceneEnvironment: environment });
+    const withoutEnvironment = new LightManager({ eventBus, sceneGraph });
+
+    environment.set('ambientIntensity', 2);
+
+    expect(withEnvironment.getAmbientColor()).toEqual([0.2, 0.2, 0.2]);
+    expect(withoutEnvironment.getAmbientColor()).toEqual([0.15, 0.15, 0.2]);
+  });
+});
+
+describe('SceneSettingsChangeCommand', () => {
+  let eventBus: EventBus;
+  let environment: SceneEnvironment;
+  let commandHistory: CommandHistory;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    environment = new SceneEnvironment({ eventBus });
+    commandHistory = new CommandHistory({ eventBus });
+  });
+
+  it('should undo and redo a setting change', () => {
+    commandHistory.execute(new SceneSettingsChangeCommand({
+      environment,
+      property: 'showGrid',
+      oldValue: true,
+      newValue: false,
+    }));
+    expect(environment.get('showGrid')).toBe(false);
+    expect(commandHistory.getUndoDescription()).toBe('Change Scene Show Grid');
+
+    commandHistory.undo();
+    expect(environment.get('showGrid')).toBe(true);
+
+    commandHistory.redo();
+    expect(environment.get('showGrid')).toBe(false);
+  });
+
+  it('should coalesce rapid changes to the same setting', () => {
+    const now = Date.now();
+    for (const [i, value] of [0.8, 0.6, 0.4].entries()) {
+      commandHistory.execute(new SceneSettingsChangeCommand({
+        environment,
+        property: 'ambientIntensity',
+        oldValue: environment.get('ambientIntensity'),
+        newValue: value,
+        timestamp: now + i * 10,
+      }));
+    }
+
+    commandHistory.undo();
+
+    expect(environment.get('ambientIntensity')).toBe(1);
+    expect(commandHistory.canUndo()).toBe(false);
+  });
+});
+
+describe('PropertyChangeHandler environment properties', () => {
+  let eventBus: EventBus;
+  let environment: SceneEnvironment;
+  let commandHistory: CommandHistory;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    environment = new SceneEnvironment({ eventBus });
+    commandHistory = new CommandHistory({ eventBus });
+    new PropertyChangeHandler({
+      eventBus,
+      sceneGraph: new SceneGraph(eventBus),
+      commandHistory,
+      sceneEnvironment: environment,
+    });
+  });
+
+  it('should convert hex colors and make the edit undoable', () => {
+    eventBus.emit('object:propertyChanged', { id: 'root', property: 'environment.backgroundColor', value: '#ff0000' });
+
+    expect(environment.get('backgroundColor')).toEqual([1, 0, 0]);
+
+    commandHistory.undo();
+    expect(environment.get('backgroundColor')).toEqual([0.15, 0.15, 0.15]);
+  });
+
+  it('should convert environment map selections to asset references', () => {
+    eventBus.emit('object:propertyChanged', { id: 'root', property: 'environment.environmentMap', value: 'sky-uuid' });
+
+    expect(environment.get('environmentMap')).toEqual(createAssetReference('sky-uuid', 'texture'));
+
+    eventBus.emit('object:propertyChanged', { id: 'root', property: 'environment.environmentMap', value: '' });
+    expect(environment.get('environmentMap')).toBeNull();
+  });
+
+  it('should ignore unknown environment properties', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    eventBus.emit('object:propertyChanged', { id: 'root', property: 'environment.fog', value: 1 });
+
+    expect(commandHistory.canUndo()).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
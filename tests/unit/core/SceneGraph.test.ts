@@ -280,6 +280,37 @@ describe('SceneGraph', () => {
 
       consoleSpy.mockRestore();
     });
+
+    it('should insert at the given sibling index', () => {
+      const parent = sceneGraph.createObject('Parent');
+      const a = sceneGraph.createObject('A');
+      const b = sceneGraph.createObject('B');
+      const moved = sceneGraph.createObject('Moved');
+
+      sceneGraph.add(parent);
+      sceneGraph.add(a, parent);
+      sceneGraph.add(b, parent);
+      sceneGraph.add(moved);
+
+      sceneGraph.reparent(moved, parent, 1);
+
+      expect(parent.children).toEqual([a, moved, b]);
+    });
+
+    it('should reorder within the same parent', () => {
+      const a = sceneGraph.createObject('A');
+      const b = sceneGraph.createObject('B');
+      const c = sceneGraph.createObject('C');
+
+      sceneGraph.add(a);
+      sceneGraph.add(b);
+      sceneGraph.add(c);
+
+      sceneGraph.reparent(c, sceneGraph.getRoot(), 0);
+
+      expect(sceneGraph.getRoot().children).toEqual([c, a, b]);
+      expect(c.parent).toBe(sceneGraph.getRoot());
+    });
   });
 
   describe('rename()', () => {
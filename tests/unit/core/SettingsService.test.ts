@@ -105,6 +105,37 @@ describe('SettingsService', () => {
       expect(service.get('grid', 'opacity')).toBe(1.0);
       expect(service.get('grid', 'lineColor')).toBe('#444444');
     });
+
+    it('should add default snap settings to stored data without them', () => {
+      localStorageMock.setItem('test-no-snap', JSON.stringify({ grid: { size: 15 } }));
+
+      const service = new SettingsService({
+        eventBus,
+        storageKey: 'test-no-snap',
+      });
+
+      expect(service.get('snap')).toEqual({
+        enabled: false,
+        translateIncrement: 1,
+        rotateIncrement: 15,
+        scaleIncrement: 0.1,
+      });
+    });
+
+    it('should merge stored renderer settings with post-processing defaults', () => {
+      localStorageMock.setItem('test-renderer', JSON.stringify({ renderer: { bloom: false, exposure: 2 } }));
+
+      const service = new SettingsService({
+        eventBus,
+        storageKey: 'test-renderer',
+      });
+
+      expect(service.get('renderer', 'bloom')).toBe(false);
+      expect(service.get('renderer', 'exposure')).toBe(2);
+      expect(service.get('renderer', 'toneMapping')).toBe(true);
+      expect(service.get('renderer', 'fxaa')).toBe(true);
+      expect(service.get('renderer', 'ssao')).toBe(false);
+    });
   });
 
   describe('get', () => {
@@ -265,6 +265,20 @@ describe('Cube', () => {
       expect(model[0]).toBeCloseTo(0);
       expect(model[8]).toBeCloseTo(1);
     });
+
+    it('should include the parent transform', () => {
+      const parent = new Cube();
+      parent.transform.position = [10, 0, 0];
+      parent.transform.scale = [2, 2, 2];
+      const child = new Cube();
+      child.transform.position = [1, 0, 0];
+      child.parent = parent;
+
+      const model = child.getModelMatrix();
+
+      expect(model[0]).toBeCloseTo(2);
+      expect(model[12]).toBeCloseTo(12);
+    });
   });
 
   describe('getNormalMatrix', () => {
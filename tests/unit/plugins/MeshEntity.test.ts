@@ -14,6 +14,8 @@ import {
 import type { IMeshAsset } from '../../../src/core/assets/interfaces/IMeshAsset';
 import { MESH_ASSET_VERSION } from '../../../src/core/assets/interfaces/IMeshAsset';
 import type { IMaterialComponent } from '../../../src/core/interfaces/IMaterialComponent';
+import { SceneGraph, SceneObject } from '../../../src/core/SceneGraph';
+import { EventBus } from '../../../src/core/EventBus';
 
 describe('MeshEntity', () => {
   /**
@@ -169,6 +171,30 @@ describe('MeshEntity', () => {
       expect(meshData?.bounds.max).toEqual([1, 1, 0]);
     });
 
+    it('should use 32-bit indices for meshes beyond the 16-bit range', () => {
+      const mockAsset = createMockMeshAsset();
+      mockAsset.indices = [0, 1, 70000];
+      setMeshAssetResolver(() => mockAsset);
+
+      const entity = new MeshEntity();
+      entity.meshAssetRef = { uuid: 'test-mesh-asset-uuid', type: 'mesh' };
+
+      const meshData = entity.getMeshData();
+
+      expect(meshData?.indices).toBeInstanceOf(Uint32Array);
+      expect(Array.from(meshData?.indices ?? [])).toEqual([0, 1, 70000]);
+    });
+
+    it('should honour a uint32 index format from the asset', () => {
+      const mockAsset = { ...createMockMeshAsset(), indexFormat: 'uint32' as const };
+      setMeshAssetResolver(() => mockAsset);
+
+      const entity = new MeshEntity();
+      entity.meshAssetRef = { uuid: 'test-mesh-asset-uuid', type: 'mesh' };
+
+      expect(entity.getMeshData()?.indices).toBeInstanceOf(Uint32Array);
+    });
+
     it('should cache mesh data', () => {
       const mockAsset = createMockMeshAsset();
       const resolver = vi.fn((uuid: string) =>
@@ -235,6 +261,31 @@ describe('MeshEntity', () => {
     });
   });
 
+  describe('getEdgeData with 32-bit indices', () => {
+    it('should build edges that reference vertices beyond the 16-bit range', () => {
+      const vertexCount = 70001;
+      const positions = new Array<number>(vertexCount * 3).fill(0);
+      positions[70000 * 3] = 5;
+      const mockAsset: IMeshAsset = {
+        ...createMockMeshAsset(),
+        positions,
+        normals: new Array<number>(vertexCount * 3).fill(0),
+        indices: [0, 1, 70000],
+        vertexCount,
+      };
+      setMeshAssetResolver(() => mockAsset);
+
+      const entity = new MeshEntity();
+      entity.meshAssetRef = { uuid: 'test-mesh-asset-uuid', type: 'mesh' };
+
+      const edgeData = entity.getEdgeData();
+
+      expect(edgeData?.lineCount).toBe(3);
+      // Edge 1-70000 ends at the far vertex (x = 5), not a truncated index
+      expect(edgeData?.lineVertices[9]).toBe(5);
+    });
+  });
+
   describe('invalidateCache', () => {
     it('should clear cached mesh data', () => {
       const mockAsset = createMockMeshAsset();
@@ -322,6 +373,70 @@ describe('MeshEntity', () => {
     });
   });
 
+  describe('skinning', () => {
+    /**
+     * Build Model > [Hips, Body] with Body skinned to Hips, bound 1 unit up.
+     */
+    function createSkinnedModel(): { hips: SceneObject; body: MeshEntity } {
+      const sceneGraph = new SceneGraph(new EventBus());
+      const model = new SceneObject('Model');
+      const hips = new SceneObject('Hips');
+      hips.transform.position = [0, 0, 1];
+      const body = new MeshEntity('body-id', 'Body');
+      body.skin = {
+        joints: ['Model/Hips'],
+        inverseBindMatrices: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, -1, 1],
+      };
+      sceneGraph.add(model);
+      sceneGraph.add(hips, model);
+      sceneGraph.add(body, model);
+      return { hips, body };
+    }
+
+    it('should return null for unskinned meshes', () => {
+      expect(new MeshEntity().getJointMatrices()).toBeNull();
+    });
+
+    it('should return identity joint matrices in the bind pose', () => {
+      const { body } = createSkinnedModel();
+
+      const matrices = body.getJointMatrices()!;
+
+      expect(matrices).toHaveLength(16);
+      [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1].forEach((v, i) => {
+        expect(matrices[i]).toBeCloseTo(v);
+      });
+    });
+
+    it('should follow joint movement relative to the mesh', () => {
+      const { hips, body } = createSkinnedModel();
+      hips.transform.position = [0, 0, 3];
+      body.transform.position = [1, 0, 0];
+
+      const matrices = body.getJointMatrices()!;
+
+      expect(matrices[12]).toBeCloseTo(-1);
+      expect(matrices[14]).toBeCloseTo(2);
+    });
+
+    it('should use identity for joints that cannot be found', () => {
+      const { body } = createSkinnedModel();
+      body.skin = { joints: ['Missing'], inverseBindMatrices: new Array(16).fill(0) };
+
+      expect(body.getJointMatrices()![0]).toBe(1);
+    });
+
+    it('should keep the skin through clone and serialization', () => {
+      const { body } = createSkinnedModel();
+
+      expect(body.clone().skin).toEqual(body.skin);
+
+      const restored = new MeshEntity();
+      restored.fromJSON(body.toJSON());
+      expect(restored.skin).toEqual(body.skin);
+    });
+  });
+
   describe('serialization', () => {
     it('should serialize to JSON', () => {
       const entity = new MeshEntity('test-id', 'Test Mesh Entity');
@@ -0,0 +1,428 @@
+/**
+ * Parametric Primitive Tests
+ *
+ * Unit tests for the Plane, Cylinder, Cone, Torus and Capsule primitives.
+ * Shared behaviour (geometry validity, parameter editing, cloning) is tested
+ * for every primitive; shape-specific tests follow.
+ * GPU resource tests are in MeshGPUCache.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Plane, PlaneFactory } from '@plugins/primitives/Plane';
+import { Cylinder, CylinderFactory } from '@plugins/primitives/Cylinder';
+import { Cone, ConeFactory } from '@plugins/primitives/Cone';
+import { Torus, TorusFactory } from '@plugins/primitives/Torus';
+import { Capsule, CapsuleFactory } from '@plugins/primitives/Capsule';
+import type { ParametricPrimitive, PrimitiveParameters } from '@plugins/primitives/ParametricPrimitive';
+import { sanitizePrimitiveParameters } from '@plugins/primitives/ParametricPrimitive';
+import type { IPrimitiveFactory } from '@plugins/primitives/interfaces/IPrimitiveFactory';
+import { PropertyChangeCommand } from '@core/commands/PropertyChangeCommand';
+import { SceneGraph } from '@core/SceneGraph';
+import { EventBus } from '@core/EventBus';
+import { isMeshProvider, isPropertyEditable } from '@core/interfaces';
+import type { IMeshComponent } from '@core/interfaces';
+import type { IMeshData } from '@core/interfaces/IMeshData';
+
+interface PrimitiveCase {
+  type: string;
+  create: () => ParametricPrimitive<PrimitiveParameters>;
+  factory: IPrimitiveFactory;
+  icon: string;
+  /** Expected bounds for the default parameters */
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+  /** A segment-count parameter to edit */
+  segmentParameter: string;
+}
+
+const CASES: PrimitiveCase[] = [
+  {
+    type: 'Plane',
+    create: () => new Plane(),
+    factory: new PlaneFactory(),
+    icon: 'plane',
+    bounds: { min: [-0.5, -0.5, 0], max: [0.5, 0.5, 0] },
+    segmentParameter: 'widthSegments',
+  },
+  {
+    type: 'Cylinder',
+    create: () => new Cylinder(),
+    factory: new CylinderFactory(),
+    icon: 'cylinder',
+    bounds: { min: [-0.5, -0.5, -0.5], max: [0.5, 0.5, 0.5] },
+    segmentParameter: 'segments',
+  },
+  {
+    type: 'Cone',
+    create: () => new Cone(),
+    factory: new ConeFactory(),
+    icon: 'cone',
+    bounds: { min: [-0.5, -0.5, -0.5], max: [0.5, 0.5, 0.5] },
+    segmentParameter: 'segments',
+  },
+  {
+    type: 'Torus',
+    create: () => new Torus(),
+    factory: new TorusFactory(),
+    icon: 'torus',
+    bounds: { min: [-0.5, -0.5, -0.125], max: [0.5, 0.5, 0.125] },
+    segmentParameter: 'radialSegments',
+  },
+  {
+    type: 'Capsule',
+    create: () => new Capsule(),
+    factory: new CapsuleFactory(),
+    icon: 'capsule',
+    bounds: { min: [-0.25, -0.25, -0.5], max: [0.25, 0.25, 0.5] },
+    segmentParameter: 'segments',
+  },
+];
+
+/**
+ * Read vertex i of a packed attribute array.
+ */
+function vec3(array: Float32Array, i: number): [number, number, number] {
+  return [array[i * 3], array[i * 3 + 1], array[i * 3 + 2]];
+}
+
+/**
+ * Count triangles whose winding disagrees with their vertex normals.
+ * Degenerate triangles are ignored.
+ */
+function countInvertedTriangles(meshData: IMeshData): number {
+  const { positions, normals, indices } = meshData;
+  let inverted = 0;
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [indices[t], indices[t + 1], indices[t + 2]].map((i) => vec3(positions, i));
+    const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const face = [
+      e1[1] * e2[2] - e1[2] * e2[1],
+      e1[2] * e2[0] - e1[0] * e2[2],
+      e1[0] * e2[1] - e1[1] * e2[0],
+    ];
+    if (Math.hypot(face[0], face[1], face[2]) < 1e-9) continue;
+
+    const normalSum = [0, 0, 0];
+    for (let k = 0; k < 3; k++) {
+      const n = vec3(normals, indices[t + k]);
+      normalSum[0] += n[0];
+      normalSum[1] += n[1];
+      normalSum[2] += n[2];
+    }
+    if (face[0] * normalSum[0] + face[1] * normalSum[1] + face[2] * normalSum[2] <= 0) {
+      inverted++;
+    }
+  }
+
+  return inverted;
+}
+
+describe.each(CASES)('$type', ({ type, create, factory, icon, bounds, segmentParameter }) => {
+  describe('constructor', () => {
+    it('should use the type as default name', () => {
+      const primitive = create();
+
+      expect(primitive.name).toBe(type);
+      expect(primitive.id.length).toBeGreaterThan(0);
+      expect(primitive.entityType).toBe(type);
+    });
+
+    it('should initialize with default transform and components', () => {
+      const primitive = create();
+
+      expect(primitive.transform).toEqual({
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+      });
+      expect(primitive.hasComponent('mesh')).toBe(true);
+      expect(primitive.hasComponent('material')).toBe(true);
+      expect(primitive.getRenderMode()).toBe('solid');
+    });
+
+    it('should implement IMeshProvider and IPropertyEditable', () => {
+      const primitive = create();
+
+      expect(isMeshProvider(primitive)).toBe(true);
+      expect(isPropertyEditable(primitive)).toBe(true);
+    });
+  });
+
+  describe('getMeshData', () => {
+    it('should have matching attribute and valid index arrays', () => {
+      const meshData = create().getMeshData();
+      const vertexCount = meshData.positions.length / 3;
+
+      expect(meshData.normals.length).toBe(meshData.positions.length);
+      expect(meshData.uvs?.length).toBe(vertexCount * 2);
+      expect(meshData.indices.length % 3).toBe(0);
+      expect(meshData.indices.length).toBeGreaterThan(0);
+      for (const index of meshData.indices) {
+        expect(index).toBeLessThan(vertexCount);
+      }
+    });
+
+    it('should have unit length normals', () => {
+      const { normals } = create().getMeshData();
+
+      for (let i = 0; i < normals.length / 3; i++) {
+        const [x, y, z] = vec3(normals, i);
+        expect(Math.hypot(x, y, z)).toBeCloseTo(1, 5);
+      }
+    });
+
+    it('should have UVs in the 0..1 range', () => {
+      const uvs = create().getMeshData().uvs!;
+
+      for (const value of uvs) {
+        expect(value).toBeGreaterThanOrEqual(-1e-6);
+        expect(value).toBeLessThanOrEqual(1 + 1e-6);
+      }
+    });
+
+    it('should wind triangles counter-clockwise around their normals', () => {
+      expect(countInvertedTriangles(create().getMeshData())).toBe(0);
+    });
+
+    it('should have correct bounds for the default parameters', () => {
+      const meshData = create().getMeshData();
+
+      for (let axis = 0; axis < 3; axis++) {
+        expect(meshData.bounds.min[axis]).toBeCloseTo(bounds.min[axis], 5);
+        expect(meshData.bounds.max[axis]).toBeCloseTo(bounds.max[axis], 5);
+      }
+    });
+
+    it('should return the same cached object on multiple calls', () => {
+      const primitive = create();
+
+      expect(primitive.getMeshData()).toBe(primitive.getMeshData());
+      expect(primitive.getEdgeData()).toBe(primitive.getEdgeData());
+    });
+  });
+
+  describe('getEdgeData', () => {
+    it('should have edges within the mesh bounds', () => {
+      const primitive = create();
+      const { lineVertices, lineCount } = primitive.getEdgeData();
+      const { min, max } = primitive.getMeshData().bounds;
+
+      expect(lineCount).toBeGreaterThan(0);
+      expect(lineVertices.length).toBe(lineCount * 6);
+      for (let i = 0; i < lineVertices.length / 3; i++) {
+        const point = vec3(lineVertices, i);
+        for (let axis = 0; axis < 3; axis++) {
+          expect(point[axis]).toBeGreaterThanOrEqual(min[axis] - 1e-5);
+          expect(point[axis]).toBeLessThanOrEqual(max[axis] + 1e-5);
+        }
+      }
+    });
+  });
+
+  describe('parameters', () => {
+    it('should expose a definition for every parameter', () => {
+      const primitive = create();
+      const names = primitive.getParameterDefinitions().map((definition) => definition.name);
+
+      expect(names.sort()).toEqual(Object.keys(primitive.getParameters()).sort());
+    });
+
+    it('should rebuild geometry and mesh component when a parameter changes', () => {
+      const primitive = create();
+      const before = primitive.getMeshData();
+      const current = primitive.getParameters()[segmentParameter];
+
+      expect(primitive.setProperty(`geometry.${segmentParameter}`, current + 2)).toBe(true);
+
+      const after = primitive.getMeshData();
+      expect(after).not.toBe(before);
+      expect(after.positions.length).toBeGreaterThan(before.positions.length);
+      expect(primitive.getProperty(`geometry.${segmentParameter}`)).toBe(current + 2);
+      expect(primitive.getComponent<IMeshComponent>('mesh')?.vertexCount).toBe(after.positions.length / 3);
+      expect(primitive.getComponent<IMeshComponent>('mesh')?.edgeCount).toBe(primitive.getEdgeData().lineCount);
+    });
+
+    it('should not rebuild when the value is unchanged', () => {
+      const primitive = create();
+      const before = primitive.getMeshData();
+
+      expect(primitive.setParameters({ ...primitive.getParameters() })).toBe(false);
+      expect(primitive.getMeshData()).toBe(before);
+    });
+
+    it('should clamp and round segment counts', () => {
+      const primitive = create();
+      const definition = primitive.getParameterDefinitions().find((d) => d.name === segmentParameter)!;
+
+      primitive.setProperty(`geometry.${segmentParameter}`, 4.6);
+      expect(primitive.getParameters()[segmentParameter]).toBe(Math.max(definition.min, 5));
+
+      primitive.setProperty(`geometry.${segmentParameter}`, -10);
+      expect(primitive.getParameters()[segmentParameter]).toBe(definition.min);
+    });
+
+    it('should reject unknown properties and non-numeric values', () => {
+      const primitive = create();
+
+      expect(primitive.setProperty('geometry.unknown', 3)).toBe(false);
+      expect(primitive.setProperty(`geometry.${segmentParameter}`, 'many')).toBe(false);
+      expect(primitive.setProperty(segmentParameter, 3)).toBe(false);
+      expect(primitive.getProperty('geometry.unknown')).toBeUndefined();
+    });
+  });
+
+  describe('clone', () => {
+    it('should copy parameters and produce independent geometry', () => {
+      const primitive = create();
+      primitive.setProperty(`geometry.${segmentParameter}`, 7);
+      primitive.transform.position = [1, 2, 3];
+
+      const cloned = primitive.clone();
+
+      expect(cloned).toBeInstanceOf(primitive.constructor);
+      expect(cloned.id).not.toBe(primitive.id);
+      expect(cloned.getParameters()).toEqual(primitive.getParameters());
+      expect(cloned.transform.position).toEqual([1, 2, 3]);
+
+      cloned.setProperty(`geometry.${segmentParameter}`, 9);
+      expect(primitive.getParameters()[segmentParameter]).toBe(7);
+    });
+  });
+
+  describe('factory', () => {
+    it('should describe the primitive', () => {
+      expect(factory.type).toBe(type);
+      expect(factory.category).toBe('Mesh');
+      expect(factory.icon).toBe(icon);
+    });
+
+    it('should create named instances', () => {
+      const primitive = factory.create('Custom') as ParametricPrimitive<PrimitiveParameters>;
+
+      expect(primitive.entityType).toBe(type);
+      expect(primitive.name).toBe('Custom');
+    });
+  });
+});
+
+describe('Plane', () => {
+  it('should build a grid with one line per grid row and column', () => {
+    const plane = new Plane(undefined, undefined, { widthSegments: 2, lengthSegments: 3 });
+
+    expect(plane.getMeshData().positions.length / 3).toBe(12);
+    expect(plane.getMeshData().indices.length / 3).toBe(12);
+    expect(plane.getEdgeData().lineCount).toBe(7);
+  });
+
+  it('should face +Z', () => {
+    const { normals } = new Plane().getMeshData();
+
+    expect(vec3(normals, 0)).toEqual([0, 0, 1]);
+  });
+});
+
+describe('Cylinder', () => {
+  it('should build side, caps and rim edges', () => {
+    const cylinder = new Cylinder(undefined, undefined, { segments: 8, heightSegments: 2 });
+
+    // Side: 3 rings of 9 vertices; caps: center + 9 rim vertices each
+    expect(cylinder.getMeshData().positions.length / 3).toBe(27 + 20);
+    // Side: 2 × 8 quads; caps: 8 triangles each
+    expect(cylinder.getMeshData().indices.length / 3).toBe(32 + 16);
+    // 8 vertical lines of 2 segments, 3 rings of 8
+    expect(cylinder.getEdgeData().lineCount).toBe(16 + 24);
+  });
+});
+
+describe('Cone', () => {
+  it('should collapse the apex ring into single triangles', () => {
+    const cone = new Cone(undefined, undefined, { segments: 8, heightSegments: 1 });
+
+    // Side: 8 triangles to the apex; base: 8 triangles
+    expect(cone.getMeshData().indices.length / 3).toBe(16);
+    // 8 slant lines and the base ring
+    expect(cone.getEdgeData().lineCount).toBe(16);
+  });
+
+  it('should tilt side normals towards +Z by the slant angle', () => {
+    const cone = new Cone(undefined, undefined, { radius: 1, height: 1 });
+    const [x, , z] = vec3(cone.getMeshData().normals, 0);
+
+    expect(x).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(z).toBeCloseTo(Math.SQRT1_2, 5);
+  });
+});
+
+describe('Torus', () => {
+  it('should point inner normals towards the axis', () => {
+    const { positions, normals } = new Torus().getMeshData();
+
+    // The first profile point is on the inside of the ring
+    expect(vec3(positions, 0)[0]).toBeCloseTo(0.25, 5);
+    expect(vec3(normals, 0)[0]).toBeCloseTo(-1, 5);
+  });
+});
+
+describe('Capsule', () => {
+  it('should become a sphere when height is less than the diameter', () => {
+    const capsule = new Capsule(undefined, undefined, { radius: 0.5, height: 0.2 });
+    const { bounds } = capsule.getMeshData();
+
+    expect(bounds.min[2]).toBeCloseTo(-0.5, 5);
+    expect(bounds.max[2]).toBeCloseTo(0.5, 5);
+  });
+
+  it('should stretch the body with height', () => {
+    const capsule = new Capsule(undefined, undefined, { radius: 0.5, height: 3 });
+    const { bounds } = capsule.getMeshData();
+
+    expect(bounds.min[2]).toBeCloseTo(-1.5, 5);
+    expect(bounds.max[2]).toBeCloseTo(1.5, 5);
+    expect(bounds.max[0]).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe('sanitizePrimitiveParameters', () => {
+  const definitions = [
+    { name: 'size', label: 'Size', min: 0.1, max: 10, step: 0.1 },
+    { name: 'count', label: 'Count', min: 1, max: 8, step: 1, integer: true },
+  ];
+
+  it('should clamp values and round integers', () => {
+    expect(sanitizePrimitiveParameters(definitions, { size: 20, count: 2.4 })).toEqual({ size: 10, count: 2 });
+  });
+
+  it('should drop unknown and non-finite values', () => {
+    expect(sanitizePrimitiveParameters(definitions, { size: NaN, other: 3 })).toEqual({});
+  });
+});
+
+describe('geometry property commands', () => {
+  it('should apply and undo parameter changes through PropertyChangeCommand', () => {
+    const eventBus = new EventBus();
+    const sceneGraph = new SceneGraph(eventBus);
+    const cylinder = new Cylinder();
+    sceneGraph.add(cylinder);
+
+    const updates: string[] = [];
+    eventBus.on('entity:propertyUpdated', (data: { property: string }) => updates.push(data.property));
+
+    const command = new PropertyChangeCommand({
+      entityId: cylinder.id,
+      property: 'geometry.segments',
+      oldValue: 32,
+      newValue: 6,
+      sceneGraph,
+      eventBus,
+    });
+
+    command.execute();
+    expect(cylinder.getParameters().segments).toBe(6);
+    expect(updates).toEqual(['geometry.segments']);
+
+    command.undo();
+    expect(cylinder.getParameters().segments).toBe(32);
+    expect(command.description).toBe('Change Cylinder Geometry segments');
+  });
+});
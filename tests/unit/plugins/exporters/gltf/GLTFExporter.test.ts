@@ -0,0 +1,281 @@
+/**
+ * GLTFExporter Tests
+ *
+ * Round-trip coverage through GLTFImportService plus checks on the written
+ * glTF JSON for materials and KHR_lights_punctual.
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { GLTFExporter } from '@plugins/exporters/gltf/GLTFExporter';
+import { GLTFImportService } from '@plugins/importers/gltf/GLTFImportService';
+import { SceneGraph } from '@core/SceneGraph';
+import { EventBus } from '@core/EventBus';
+import { AssetRegistry } from '@core/assets/AssetRegistry';
+import { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
+import type { IMaterialComponent } from '@core/interfaces';
+import { Cube } from '@plugins/primitives/Cube';
+import { DirectionalLight } from '@plugins/lights/DirectionalLight';
+import { SpotLight } from '@plugins/lights/SpotLight';
+
+type Vec3 = [number, number, number];
+
+interface ExportedJSON {
+  asset: { generator?: string };
+  extensionsUsed?: string[];
+  extensions?: Record<string, { lights: Array<Record<string, unknown>> }>;
+  nodes: Array<{
+    name?: string;
+    translation?: number[];
+    rotation?: number[];
+    children?: number[];
+    mesh?: number;
+    extensions?: Record<string, { light: number }>;
+  }>;
+  meshes: Array<{ primitives: Array<{ material?: number }> }>;
+  materials?: Array<{
+    name?: string;
+    pbrMetallicRoughness?: { baseColorFactor?: number[]; metallicFactor?: number; roughnessFactor?: number };
+    emissiveFactor?: number[];
+    alphaMode?: string;
+  }>;
+}
+
+function createFileLike(bytes: Uint8Array, filename: string): File {
+  return {
+    name: filename,
+    arrayBuffer: async () => bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength
+    ),
+  } as File;
+}
+
+/**
+ * Rotate a vector by a unit quaternion.
+ */
+function rotate(q: number[], v: Vec3): Vec3 {
+  const [x, y, z, w] = q;
+  const tx = 2 * (y * v[2] - z * v[1]);
+  const ty = 2 * (z * v[0] - x * v[2]);
+  const tz = 2 * (x * v[1] - y * v[0]);
+  return [
+    v[0] + w * tx + (y * tz - z * ty),
+    v[1] + w * ty + (z * tx - x * tz),
+    v[2] + w * tz + (x * ty - y * tx),
+  ];
+}
+
+function expectVec3Close(actual: number[], expected: number[], digits = 5): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], digits));
+}
+
+describe('GLTFExporter', () => {
+  let sceneGraph: SceneGraph;
+  let exporter: GLTFExporter;
+
+  async function exportJSON(): Promise<ExportedJSON> {
+    const result = await exporter.export(sceneGraph, { format: 'gltf' });
+    return JSON.parse(new TextDecoder().decode(result.data)) as ExportedJSON;
+  }
+
+  beforeEach(() => {
+    sceneGraph = new SceneGraph(new EventBus());
+    exporter = new GLTFExporter();
+  });
+
+  it('writes a GLB that re-imports with the same geometry and transforms', async () => {
+    const cube = new Cube(undefined, 'Box');
+    cube.transform.position = [1, 2, 3];
+    cube.transform.rotation = [30, -20, 45];
+    cube.transform.scale = [1, 2, 3];
+    sceneGraph.add(cube);
+
+    const result = await exporter.export(sceneGraph);
+    expect(result.fileExtension).toBe('.glb');
+    expect(result.mimeType).toBe('model/gltf-binary');
+
+    const imported = await new GLTFImportService().import(createFileLike(result.data, 'scene.glb'));
+    expect(imported.meshes).toHaveLength(1);
+    expect(imported.hierarchy).toHaveLength(1);
+
+    const meshData = cube.getMeshData();
+    expectVec3Close(Array.from(imported.meshes[0].positions), Array.from(meshData.positions));
+    expectVec3Close(Array.from(imported.meshes[0].normals), Array.from(meshData.normals));
+    expect(Array.from(imported.meshes[0].indices)).toEqual(Array.from(meshData.indices));
+
+    const node = imported.hierarchy[0];
+    expect(node.name).toBe('Box');
+    expectVec3Close(node.transform.position, [1, 2, 3]);
+    expectVec3Close(node.transform.rotation, [30, -20, 45], 3);
+    expectVec3Close(node.transform.scale, [1, 2, 3]);
+  });
+
+  it('converts positions from Z-up to Y-up', async () => {
+    const cube = new Cube();
+    cube.transform.position = [1, 2, 3];
+    sceneGraph.add(cube);
+
+    const json = await exportJSON();
+
+    expect(json.nodes[0].translation).toEqual([1, 3, -2]);
+    expect(json.asset.generator).toBe('Ready Set Render');
+  });
+
+  it('preserves the hierarchy', async () => {
+    const parent = new Cube(undefined, 'Parent');
+    const child = new Cube(undefined, 'Child');
+    child.transform.position = [0, 0, 2];
+    sceneGraph.add(parent);
+    sceneGraph.add(child, parent);
+
+    const imported = await new GLTFImportService().import(
+      createFileLike((await exporter.export(sceneGraph)).data, 'scene.glb')
+    );
+
+    expect(imported.hierarchy).toHaveLength(1);
+    expect(imported.hierarchy[0].children).toHaveLength(1);
+    expect(imported.hierarchy[0].children[0].name).toBe('Child');
+    expectVec3Close(imported.hierarchy[0].children[0].transform.position, [0, 0, 2]);
+  });
+
+  it('maps inline PBR material properties', async () => {
+    const cube = new Cube();
+    const material = cube.getComponent<IMaterialComponent>('material')!;
+    material.color = [1, 0, 0];
+    material.metallic = 0.3;
+    material.roughness = 0.7;
+    material.emission = [0, 1, 0];
+    material.emissionStrength = 0.5;
+    sceneGraph.add(cube);
+
+    const json = await exportJSON();
+    const exported = json.materials![json.meshes[0].primitives[0].material!];
+
+    expect(exported.pbrMetallicRoughness?.baseColorFactor).toEqual([1, 0, 0, 1]);
+    expect(exported.pbrMetallicRoughness?.metallicFactor).toBeCloseTo(0.3);
+    expect(exported.pbrMetallicRoughness?.roughnessFactor).toBeCloseTo(0.7);
+    expect(exported.emissiveFactor).toEqual([0, 0.5, 0]);
+    expect(exported.alphaMode).toBeUndefined();
+  });
+
+  it('uses material asset parameters and shares the material between objects', async () => {
+    const registry = new AssetRegistry(new EventBus());
+    const asset = new MaterialAssetFactory().create({
+      name: 'Gold',
+      shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+      parameters: { uBaseColor: [1, 0.8, 0.2], uMetallic: 0.9, uRoughness: 0.2 },
+    });
+    registry.register(asset);
+    exporter = new GLTFExporter({ assetRegistry: registry });
+
+    for (const name of ['A', 'B']) {
+      const cube = new Cube(undefined, name);
+      cube.getComponent<IMaterialComponent>('material')!.materialAssetRef = { uuid: asset.uuid, type: 'material' };
+      sceneGraph.add(cube);
+    }
+
+    const json = await exportJSON();
+
+    expect(json.materials).toHaveLength(1);
+    expect(json.materials![0].name).toBe('Gold');
+    expect(json.materials![0].pbrMetallicRoughness?.metallicFactor).toBeCloseTo(0.9);
+    expectVec3Close(json.materials![0].pbrMetallicRoughness!.baseColorFactor!, [1, 0.8, 0.2, 1]);
+  });
+
+  it('clamps emission above 1.0 with a warning', async () => {
+    const cube = new Cube();
+    const material = cube.getComponent<IMaterialComponent>('material')!;
+    material.emission = [1, 1, 1];
+    material.emissionStrength = 4;
+    sceneGraph.add(cube);
+
+    const result = await exporter.export(sceneGraph, { format: 'gltf' });
+    const json = JSON.parse(new TextDecoder().decode(result.data)) as ExportedJSON;
+
+    expect(json.materials![0].emissiveFactor).toEqual([1, 1, 1]);
+    expect(result.warnings.some((w) => w.includes('clamped'))).toBe(true);
+  });
+
+  it('exports the viewport default inner cone when a spot light has no ratio', async () => {
+    const spot = new SpotLight({ name: 'Spot', spotAngle: 60 });
+    delete spot.getLightComponent().innerSpotRatio;
+    sceneGraph.add(spot);
+
+    const json = await exportJSON();
+    const cone = json.extensions!.KHR_lights_punctual.lights[0].spot as { innerConeAngle: number; outerConeAngle: number };
+
+    expect(cone.innerConeAngle).toBeCloseTo(cone.outerConeAngle * 0.8);
+  });
+
+  it('writes lights with KHR_lights_punctual pointing the same way', async () => {
+    const sun = new DirectionalLight({ name: 'Sun', rotation: [40, 10, 30], intensity: 2 });
+    const spot = new SpotLight({ name: 'Spot', range: 12, spotAngle: 60, innerSpotRatio: 0.5 });
+    sceneGraph.add(sun);
+    sceneGraph.add(spot);
+
+    const json = await exportJSON();
+    const lights = json.extensions!.KHR_lights_punctual.lights;
+
+    expect(json.extensionsUsed).toContain('KHR_lights_punctual');
+    expect(lights).toHaveLength(2);
+    expect(lights[0]).toMatchObject({ name: 'Sun', type: 'directional', intensity: 2 });
+    expect(lights[1]).toMatchObject({ name: 'Spot', type: 'spot', range: 12 });
+
+    const cone = lights[1].spot as { innerConeAngle: number; outerConeAngle: number };
+    expect(cone.outerConeAngle).toBeCloseTo(Math.PI / 6);
+    expect(cone.innerConeAngle).toBeCloseTo(Math.PI / 12);
+
+    const sunNode = json.nodes.find((n) => n.name === 'Sun')!;
+    expect(sunNode.extensions?.KHR_lights_punctual.light).toBe(0);
+
+    // glTF lights shine along local -Z; convert back to Z-up and compare
+    const d = rotate(sunNode.rotation!, [0, 0, -1]);
+    expectVec3Close([d[0], -d[2], d[1]], sun.getWorldDirection());
+  });
+
+  it('keeps children of lights in place', async () => {
+    const sun = new DirectionalLight({ name: 'Sun', rotation: [0, 0, 0] });
+    const child = new Cube(undefined, 'Child');
+    child.transform.position = [1, 2, 3];
+    sceneGraph.add(sun);
+    sceneGraph.add(child, sun);
+
+    const json = await exportJSON();
+    const sunNode = json.nodes.find((n) => n.name === 'Sun')!;
+    const childNode = json.nodes.find((n) => n.name === 'Child')!;
+
+    const world = rotate(sunNode.rotation!, childNode.translation as Vec3);
+    expectVec3Close(world, [1, 3, -2]);
+  });
+
+  it('omits the light extension for scenes without lights', async () => {
+    sceneGraph.add(new Cube());
+
+    const json = await exportJSON();
+
+    expect(json.extensionsUsed).toBeUndefined();
+    expect(json.extensions).toBeUndefined();
+  });
+
+  it('exports disabled lights as empty nodes with a warning', async () => {
+    sceneGraph.add(new DirectionalLight({ name: 'Off', enabled: false }));
+
+    const result = await exporter.export(sceneGraph, { format: 'gltf' });
+    const json = JSON.parse(new TextDecoder().decode(result.data)) as ExportedJSON;
+
+    expect(json.nodes[0].name).toBe('Off');
+    expect(json.nodes[0].extensions).toBeUndefined();
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('embeds the buffer in .gltf output', async () => {
+    sceneGraph.add(new Cube());
+
+    const result = await exporter.export(sceneGraph, { format: 'gltf' });
+    const json = JSON.parse(new TextDecoder().decode(result.data)) as { buffers: Array<{ uri: string }> };
+
+    expect(result.fileExtension).toBe('.gltf');
+    expect(json.buffers[0].uri.startsWith('data:application/octet-stream;base64,')).toBe(true);
+  });
+});
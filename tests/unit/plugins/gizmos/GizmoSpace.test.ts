@@ -0,0 +1,72 @@
+/**
+ * GizmoSpace Unit Tests
+ *
+ * Tests the gizmo orientation frame helpers and incremental snapping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getRotationMatrix,
+  inverseRotateDirection,
+  inverseRotatePointAround,
+  rotateDirection,
+  rotatePointAround,
+  snapDelta,
+  snapValue,
+} from '@plugins/gizmos/GizmoSpace';
+
+const expectVectorClose = (actual: number[], expected: number[]): void => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+};
+
+describe('GizmoSpace', () => {
+  describe('orientation frames', () => {
+    const frame = getRotationMatrix([0, 0, 90]);
+
+    it('should rotate gizmo axes into world space', () => {
+      expectVectorClose(rotateDirection(frame, [1, 0, 0]), [0, 1, 0]);
+    });
+
+    it('should rotate world directions into gizmo space', () => {
+      expectVectorClose(inverseRotateDirection(frame, [0, 1, 0]), [1, 0, 0]);
+    });
+
+    it('should rotate points around a center', () => {
+      expectVectorClose(rotatePointAround(frame, [3, 2, 5], [2, 2, 0]), [2, 3, 5]);
+    });
+
+    it('should invert a rotation around a center', () => {
+      const point: [number, number, number] = [4, -1, 2];
+      const rotated = rotatePointAround(frame, point, [1, 1, 1]);
+
+      expectVectorClose(inverseRotatePointAround(frame, rotated, [1, 1, 1]), point);
+    });
+  });
+
+  describe('snapValue', () => {
+    it('should round to the nearest increment', () => {
+      expect(snapValue(7, 15)).toBe(0);
+      expect(snapValue(8, 15)).toBe(15);
+      expect(snapValue(-1.3, 0.5)).toBe(-1.5);
+    });
+
+    it('should not produce negative zero', () => {
+      expect(Object.is(snapValue(-0.2, 1), 0)).toBe(true);
+    });
+
+    it('should leave the value alone for a non-positive increment', () => {
+      expect(snapValue(1.23, 0)).toBe(1.23);
+      expect(snapValue(1.23, -1)).toBe(1.23);
+    });
+  });
+
+  describe('snapDelta', () => {
+    const increments = { translate: 1, rotate: 15, scale: 0.25 };
+
+    it('should use the increment for the gizmo mode', () => {
+      expect(snapDelta('translate', [1.4, -2.6, 0], increments)).toEqual([1, -3, 0]);
+      expect(snapDelta('rotate', [0, 0, 37], increments)).toEqual([0, 0, 30]);
+      expect(snapDelta('scale', [0.3, 0.3, 0.3], increments)).toEqual([0.25, 0.25, 0.25]);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * PivotTransform Unit Tests
+ *
+ * Tests the multi-object transform helpers used by the transform gizmo:
+ * transform roots, pivot points per pivot mode and applying drag deltas.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import type { ISceneObject } from '@core/interfaces';
+import {
+  applyPivotTransform,
+  computePivotPoint,
+  getTransformRoots,
+} from '@plugins/gizmos/PivotTransform';
+import { getRotationMatrix } from '@plugins/gizmos/GizmoSpace';
+import type { GizmoDragTarget } from '@plugins/gizmos/interfaces';
+
+/**
+ * Capture drag targets from objects' current transforms.
+ */
+function createTargets(objects: ISceneObject[]): GizmoDragTarget[] {
+  return objects.map((entity) => ({
+    entity,
+    startPosition: [...entity.transform.position] as [number, number, number],
+    startRotation: [...entity.transform.rotation] as [number, number, number],
+    startScale: [...entity.transform.scale] as [number, number, number],
+  }));
+}
+
+const expectVectorClose = (actual: number[], expected: number[]): void => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+};
+
+describe('PivotTransform', () => {
+  let sceneGraph: SceneGraph;
+  let a: ISceneObject;
+  let b: ISceneObject;
+
+  /**
+   * Add a child at local [1, 0, 0] under a parent at [10, 0, 0] turned 90
+   * degrees around Z, placing the child at world [10, 1, 0].
+   */
+  const createNestedChild = (): ISceneObject => {
+    const parent = sceneGraph.createObject('Parent');
+    parent.transform.position = [10, 0, 0];
+    parent.transform.rotation = [0, 0, 90];
+    sceneGraph.add(parent);
+    const child = sceneGraph.createObject('Child');
+    child.transform.position = [1, 0, 0];
+    sceneGraph.add(child, parent);
+    return child;
+  };
+
+  beforeEach(() => {
+    sceneGraph = new SceneGraph(new EventBus());
+    a = sceneGraph.createObject('A');
+    a.transform.position = [0, 0, 0];
+    b = sceneGraph.createObject('B');
+    b.transform.position = [4, 0, 2];
+    sceneGraph.add(a);
+    sceneGraph.add(b);
+  });
+
+  describe('getTransformRoots', () => {
+    it('should keep unrelated objects', () => {
+      expect(getTransformRoots([a, b])).toEqual([a, b]);
+    });
+
+    it('should drop objects whose ancestor is also selected', () => {
+      const child = sceneGraph.createObject('Child');
+      sceneGraph.add(child, a);
+
+      expect(getTransformRoots([child, a, b])).toEqual([a, b]);
+    });
+  });
+
+  describe('computePivotPoint', () => {
+    it('should use the median of the positions', () => {
+      expect(computePivotPoint('median', [a, b], a, [9, 9, 9])).toEqual([2, 0, 1]);
+    });
+
+    it('should use the median for the gizmo in individual mode', () => {
+      expect(computePivotPoint('individual', [a, b], a, [9, 9, 9])).toEqual([2, 0, 1]);
+    });
+
+    it('should use the active object position', () => {
+      expect(computePivotPoint('active', [a, b], b, [9, 9, 9])).toEqual([4, 0, 2]);
+    });
+
+    it('should use the 3D cursor', () => {
+      expect(computePivotPoint('cursor', [a, b], a, [9, 8, 7])).toEqual([9, 8, 7]);
+    });
+
+    it('should use world positions of nested objects', () => {
+      const child = createNestedChild();
+
+      expectVectorClose(computePivotPoint('active', [child], child, [0, 0, 0]), [10, 1, 0]);
+      expectVectorClose(computePivotPoint('median', [child, b], child, [0, 0, 0]), [7, 0.5, 1]);
+    });
+  });
+
+  describe('applyPivotTransform', () => {
+    it('should move every target by the translation delta', () => {
+      const targets = createTargets([a, b]);
+
+      applyPivotTransform('translate', 'median', targets, [2, 0, 1], [1, 2, 3]);
+
+      expect(a.transform.position).toEqual([1, 2, 3]);
+      expect(b.transform.position).toEqual([5, 2, 5]);
+    });
+
+    it('should rotate targets and orbit them around the pivot', () => {
+      const targets = createTargets([a, b]);
+
+      applyPivotTransform('rotate', 'median', targets, [2, 0, 1], [0, 0, 90]);
+
+      expect(a.transform.rotation).toEqual([0, 0, 90]);
+      expect(b.transform.rotation).toEqual([0, 0, 90]);
+      expectVectorClose(a.transform.position, [2, -2, 0]);
+      expectVectorClose(b.transform.position, [2, 2, 2]);
+    });
+
+    it('should rotate targets in place for individual origins', () => {
+      const targets = createTargets([a, b]);
+
+      applyPivotTransform('rotate', 'individual', targets, [2, 0, 1], [0, 0, 90]);
+
+      expect(b.transform.rotation).toEqual([0, 0, 90]);
+      expect(b.transform.position).toEqual([4, 0, 2]);
+    });
+
+    it('should scale targets and their offsets from the pivot', () => {
+      const targets = createTargets([a, b]);
+
+      applyPivotTransform('scale', 'active', targets, [0, 0, 0], [1, 1, 1]);
+
+      expect(b.transform.scale).toEqual([2, 2, 2]);
+      expect(a.transform.position).toEqual([0, 0, 0]);
+      expect(b.transform.position).toEqual([8, 0, 4]);
+    });
+
+    it('should keep positions when scaling individual origins', () => {
+      const targets = createTargets([a, b]);
+
+      applyPivotTransform('scale', 'individual', targets, [2, 0, 1], [1, 0, 0]);
+
+      expect(b.transform.scale).toEqual([2, 1, 1]);
+      expect(b.transform.position).toEqual([4, 0, 2]);
+    });
+
+    it('should clamp scale to a small positive minimum', () => {
+      const targets = createTargets([a]);
+
+      applyPivotTransform('scale', 'median', targets, [0, 0, 0], [-5, 0, 0]);
+
+      expect(a.transform.scale[0]).toBe(0.01);
+    });
+
+    it('should move along the rotated gizmo axes', () => {
+      const targets = createTargets([b]);
+
+      applyPivotTransform('translate', 'median', targets, [4, 0, 2], [1, 0, 0], getRotationMatrix([0, 0, 90]));
+
+      expectVectorClose(b.transform.position, [4, 1, 2]);
+    });
+
+    it('should rotate around a rotated gizmo axis', () => {
+      b.transform.rotation = [0, 0, 90];
+      const targets = createTargets([b]);
+
+      // Local X of an object turned 90 degrees around Z is world Y
+      applyPivotTransform('rotate', 'median', targets, [4, 0, 2], [30, 0, 0], getRotationMatrix([0, 0, 90]));
+
+      expectVectorClose(b.transform.rotation, [30, 0, 90]);
+    });
+
+    it('should keep Euler angles continuous past 180 degrees', () => {
+      b.transform.rotation = [0, 0, 170];
+      const targets = createTargets([b]);
+
+      applyPivotTransform('rotate', 'median', targets, [4, 0, 2], [0, 0, 20]);
+
+      expectVectorClose(b.transform.rotation, [0, 0, 190]);
+    });
+
+    it('should move nested objects along world axes', () => {
+      const child = createNestedChild();
+      const targets = createTargets([child]);
+
+      applyPivotTransform('translate', 'median', targets, [10, 1, 0], [1, 0, 0]);
+
+      // World [11, 1, 0] relative to the parent at [10, 0, 0] turned 90 degrees
+      expectVectorClose(child.transform.position, [1, -1, 0]);
+    });
+
+    it('should orbit nested objects around a world pivot', () => {
+      const child = createNestedChild();
+      const targets = createTargets([child, b]);
+
+      applyPivotTransform('rotate', 'median', targets, [7, 0.5, 1], [0, 0, 180]);
+
+      // World [10, 1, 0] swings to [4, 0, 0], which is [0, 6, 0] in the parent
+      expectVectorClose(child.transform.position, [0, 6, 0]);
+      expectVectorClose(child.transform.rotation, [0, 0, 180]);
+      expectVectorClose(b.transform.position, [10, 1, 2]);
+    });
+
+    it('should rotate nested objects around the world axis', () => {
+      const child = createNestedChild();
+      child.parent!.transform.rotation = [90, 0, 0];
+      const targets = createTargets([child]);
+
+      applyPivotTransform('rotate', 'individual', targets, [0, 0, 0], [0, 0, 90]);
+
+      // Tilting the parent around X turns its local Y into world Z
+      expectVectorClose(child.transform.rotation, [0, 90, 0]);
+    });
+
+    it('should start from the drag-start values on every call', () => {
+      const targets = createTargets([a, b]);
+
+      applyPivotTransform('translate', 'median', targets, [2, 0, 1], [1, 0, 0]);
+      applyPivotTransform('translate', 'median', targets, [2, 0, 1], [2, 0, 0]);
+
+      expect(b.transform.position).toEqual([6, 0, 2]);
+    });
+  });
+});
@@ -9,6 +9,7 @@
  * - RotateGizmo: X, Y, Z axis rotations
  * - ScaleGizmo: X, Y, Z axis and uniform scaling
  * - Batch commands for multi-axis operations
+ * - Multi-object transforms and multi-selection property edits
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -16,6 +17,7 @@ import { EventBus } from '@core/EventBus';
 import { SceneGraph } from '@core/SceneGraph';
 import { CommandHistory } from '@core/commands/CommandHistory';
 import { PropertyChangeCommand } from '@core/commands/PropertyChangeCommand';
+import { PropertyChangeHandler } from '@core/PropertyChangeHandler';
 import type { ISceneObject } from '@core/interfaces';
 
 /**
@@ -703,4 +705,54 @@ describe('TransformGizmo Undo/Redo Integration', () => {
       expect(entity.transform.position[0]).toBe(0);
     });
   });
+
+  describe('Multi-Object Operations', () => {
+    it('should undo a transform of several objects in one step', () => {
+      const a = createMockEntity('a', 'A');
+      const b = createMockEntity('b', 'B');
+      sceneGraph.add(a);
+      sceneGraph.add(b);
+
+      commandHistory.beginBatch();
+      for (const entity of [a, b]) {
+        commandHistory.execute(new PropertyChangeCommand({
+          entityId: entity.id,
+          property: 'position.x',
+          oldValue: 0,
+          newValue: 2,
+          sceneGraph,
+          eventBus,
+        }));
+      }
+      commandHistory.endBatch('Translate 2 objects');
+
+      expect(commandHistory.getUndoDescription()).toBe('Translate 2 objects');
+
+      commandHistory.undo();
+
+      expect(a.transform.position[0]).toBe(0);
+      expect(b.transform.position[0]).toBe(0);
+    });
+
+    it('should apply a multi-selection property edit as one undo entry', () => {
+      const handler = new PropertyChangeHandler({ eventBus, sceneGraph, commandHistory });
+      const a = createMockEntity('a', 'A');
+      const b = createMockEntity('b', 'B');
+      b.transform.scale = [3, 3, 3];
+      sceneGraph.add(a);
+      sceneGraph.add(b);
+
+      eventBus.emit('objects:propertyChanged', { ids: [a.id, b.id], property: 'scale.z', value: 2 });
+
+      expect(a.transform.scale[2]).toBe(2);
+      expect(b.transform.scale[2]).toBe(2);
+      expect(commandHistory.getUndoStackSize()).toBe(1);
+
+      commandHistory.undo();
+
+      expect(a.transform.scale[2]).toBe(1);
+      expect(b.transform.scale[2]).toBe(3);
+      handler.dispose();
+    });
+  });
 });
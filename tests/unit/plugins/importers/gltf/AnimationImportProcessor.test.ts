@@ -0,0 +1,141 @@
+/**
+ * AnimationImportProcessor Tests
+ *
+ * Tests for applying animation import settings to extracted GLTF clips.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AnimationImportProcessor } from '@plugins/importers/gltf/AnimationImportProcessor';
+import type {
+  IGLTFAnimationChannelData,
+  IGLTFImportResult,
+} from '@plugins/importers/gltf/GLTFImportService';
+import { createDefaultModelImportSettings } from '@core/assets/DefaultImportSettings';
+import type { IAnimationImportSettings, IModelImportSettings } from '@core/assets/interfaces/IModelAssetMeta';
+
+function createSettings(animations: Partial<IAnimationImportSettings> = {}): IModelImportSettings {
+  const defaults = createDefaultModelImportSettings();
+  return {
+    ...defaults,
+    animations: { ...defaults.animations, ...animations },
+  };
+}
+
+function createResult(channels: IGLTFAnimationChannelData[]): IGLTFImportResult {
+  return {
+    meshes: [],
+    materials: [],
+    hierarchy: [],
+    animations: [{ name: 'Walk', duration: 1, channels }],
+    warnings: [],
+  };
+}
+
+function createChannel(
+  values: number[],
+  times: number[] = [0, 1],
+  extra: Partial<IGLTFAnimationChannelData> = {}
+): IGLTFAnimationChannelData {
+  return {
+    nodeIndex: 0,
+    path: 'translation',
+    interpolation: 'LINEAR',
+    times: new Float32Array(times),
+    values: new Float32Array(values),
+    ...extra,
+  };
+}
+
+describe('AnimationImportProcessor', () => {
+  const processor = new AnimationImportProcessor();
+
+  it('drops every animation when importAnimations is off', () => {
+    const result = processor.process(
+      createResult([createChannel([0, 0, 0, 1, 1, 1])]),
+      createSettings({ importAnimations: false })
+    );
+
+    expect(result.animations).toEqual([]);
+  });
+
+  it('prefixes clip names', () => {
+    const result = processor.process(
+      createResult([createChannel([0, 0, 0, 1, 1, 1])]),
+      createSettings({ animationNamePrefix: 'Hero_', sampleRate: 0 })
+    );
+
+    expect(result.animations![0].name).toBe('Hero_Walk');
+  });
+
+  it('resamples linear channels at the sample rate', () => {
+    const result = processor.process(
+      createResult([createChannel([0, 0, 0, 4, 8, 12])]),
+      createSettings({ sampleRate: 4 })
+    );
+
+    const channel = result.animations![0].channels[0];
+    expect(Array.from(channel.times)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(channel.values[3]).toBeCloseTo(1);
+    expect(channel.values[7]).toBeCloseTo(4);
+    expect(channel.values[14]).toBeCloseTo(12);
+  });
+
+  it('keeps source keys when the sample rate is 0', () => {
+    const input = createChannel([0, 0, 0, 1, 1, 1, 2, 2, 2], [0, 0.1, 1]);
+    const result = processor.process(createResult([input]), createSettings({ sampleRate: 0 }));
+
+    const channel = result.animations![0].channels[0];
+    expect(Array.from(channel.times)).toEqual(Array.from(input.times));
+    expect(Array.from(channel.values)).toEqual(Array.from(input.values));
+  });
+
+  it('passes step channels through unchanged', () => {
+    const input = createChannel([0, 0, 0, 1, 1, 1], [0, 1], { interpolation: 'STEP' });
+    const result = processor.process(createResult([input]), createSettings({ sampleRate: 30 }));
+
+    expect(result.animations![0].channels[0]).toBe(input);
+  });
+
+  it('evaluates cubic spline channels and bakes them to linear', () => {
+    // Keys store [in-tangent, value, out-tangent]; zero tangents give smoothstep
+    const input = createChannel(
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 10, 0, 0, 0, 0, 0],
+      [0, 1],
+      { interpolation: 'CUBICSPLINE' }
+    );
+    const result = processor.process(createResult([input]), createSettings({ sampleRate: 2 }));
+
+    const channel = result.animations![0].channels[0];
+    expect(channel.interpolation).toBe('LINEAR');
+    expect(Array.from(channel.times)).toEqual([0, 0.5, 1]);
+    expect(channel.values[3]).toBeCloseTo(5);
+    expect(channel.values[6]).toBeCloseTo(10);
+  });
+
+  it('drops cubic tangents when keeping source keys', () => {
+    const input = createChannel(
+      [9, 9, 9, 1, 2, 3, 9, 9, 9, 9, 9, 9, 4, 5, 6, 9, 9, 9],
+      [0, 1],
+      { interpolation: 'CUBICSPLINE' }
+    );
+    const result = processor.process(createResult([input]), createSettings({ sampleRate: 0 }));
+
+    const channel = result.animations![0].channels[0];
+    expect(channel.interpolation).toBe('LINEAR');
+    expect(Array.from(channel.values)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('normalizes resampled rotations', () => {
+    const input = createChannel(
+      [0, 0, 0, 1, 0, 0, 1, 0],
+      [0, 1],
+      { path: 'rotation' }
+    );
+    const result = processor.process(createResult([input]), createSettings({ sampleRate: 2 }));
+
+    const values = result.animations![0].channels[0].values;
+    const length = Math.hypot(values[4], values[5], values[6], values[7]);
+    expect(length).toBeCloseTo(1);
+    expect(values[6]).toBeCloseTo(Math.SQRT1_2);
+  });
+});
@@ -1,8 +1,8 @@
 /**
  * GLTFImportService Tests
  *
- * Focused parser regression coverage for GLTF primitive extraction and
- * generated fallback normals.
+ * Focused parser regression coverage for GLTF primitive extraction,
+ * generated fallback normals, skins and animations.
  */
 
 import { existsSync, readFileSync } from 'node:fs';
@@ -135,6 +135,94 @@ describe('GLTFImportService', () => {
     expect(secondTriangleNormal).not.toEqual(firstTriangleNormal);
   });
 
+  it('extracts skins, joint attributes and animations in Z-up space', async () => {
+    const doc = createDocumentWithBuffer();
+    const buffer = doc.getRoot().listBuffers()[0];
+    const positions = createVec3Accessor(doc, [
+      0, 0, 0,
+      1, 0, 0,
+      0, 1, 0,
+    ]);
+    const joints = doc
+      .createAccessor()
+      .setType('VEC4')
+      .setArray(new Uint16Array([0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0]))
+      .setBuffer(buffer);
+    const weights = doc
+      .createAccessor()
+      .setType('VEC4')
+      .setArray(new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 0.5, 0.5, 0, 0]))
+      .setBuffer(buffer);
+    const primitive = doc
+      .createPrimitive()
+      .setAttribute('POSITION', positions)
+      .setAttribute('JOINTS_0', joints)
+      .setAttribute('WEIGHTS_0', weights)
+      .setIndices(createScalarAccessor(doc, [0, 1, 2]));
+    const mesh = doc.createMesh('Body').addPrimitive(primitive);
+
+    const spine = doc.createNode('Spine').setTranslation([0, 1, 0]);
+    const hips = doc.createNode('Hips').addChild(spine);
+    // Inverse bind matrices: identity and a translation of -1 along glTF Y
+    const inverseBindMatrices = doc
+      .createAccessor()
+      .setType('MAT4')
+      .setArray(new Float32Array([
+        1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1,
+        1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -1, 0, 1,
+      ]))
+      .setBuffer(buffer);
+    const skin = doc
+      .createSkin('Rig')
+      .addJoint(hips)
+      .addJoint(spine)
+      .setInverseBindMatrices(inverseBindMatrices);
+    const body = doc.createNode('Body').setMesh(mesh).setSkin(skin);
+    doc.createScene('Scene').addChild(hips).addChild(body);
+
+    const sampler = doc
+      .createAnimationSampler()
+      .setInput(doc.createAccessor().setType('SCALAR').setArray(new Float32Array([0, 1])).setBuffer(buffer))
+      .setOutput(createVec3Accessor(doc, [0, 0, 0, 0, 2, 0]))
+      .setInterpolation('LINEAR');
+    const channel = doc
+      .createAnimationChannel()
+      .setTargetNode(spine)
+      .setTargetPath('translation')
+      .setSampler(sampler);
+    doc.createAnimation('Bend').addSampler(sampler).addChannel(channel);
+
+    const file = await createFileFromDocument(doc);
+    const result = await new GLTFImportService().import(file);
+
+    // Skin joints resolve to nodes kept in the hierarchy
+    expect(result.skins).toHaveLength(1);
+    expect(result.skins![0].name).toBe('Rig');
+    expect(result.skins![0].joints).toHaveLength(2);
+    const ibm = result.skins![0].inverseBindMatrices;
+    expect(ibm[16 + 13]).toBeCloseTo(0);
+    expect(ibm[16 + 14]).toBeCloseTo(-1);
+
+    const hipsNode = result.hierarchy.find(node => node.name === 'Hips');
+    const bodyNode = result.hierarchy.find(node => node.name === 'Body');
+    expect(hipsNode?.children.map(node => node.name)).toEqual(['Spine']);
+    expect(hipsNode?.children[0].nodeIndex).toBe(result.skins![0].joints[1]);
+    expect(bodyNode?.skinIndex).toBe(0);
+
+    const meshData = result.meshes[0];
+    expect(Array.from(meshData.joints!.slice(0, 8))).toEqual([0, 0, 0, 0, 1, 0, 0, 0]);
+    expect(Array.from(meshData.weights!.slice(8, 12))).toEqual([0.5, 0.5, 0, 0]);
+
+    // glTF +Y translation becomes +Z
+    expect(result.animations).toHaveLength(1);
+    const animation = result.animations![0];
+    expect(animation.name).toBe('Bend');
+    expect(animation.duration).toBe(1);
+    expect(animation.channels[0]).toMatchObject({ path: 'translation', interpolation: 'LINEAR' });
+    const values = Array.from(animation.channels[0].values.slice(3, 6));
+    [0, 0, 2].forEach((expected, i) => expect(values[i]).toBeCloseTo(expected));
+  });
+
   it.skipIf(!existsSync(STUDIO_SETUP_GLB_PATH))(
     'imports the studio_setup.glb integration fixture when it is available',
     async () => {
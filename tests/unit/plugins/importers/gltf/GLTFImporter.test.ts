@@ -9,6 +9,9 @@ import { GLTFImporter } from '@plugins/importers/gltf/GLTFImporter';
 import type { GLTFImportService, IGLTFImportResult } from '@plugins/importers/gltf/GLTFImportService';
 import type { AssetRegistry } from '@core/assets/AssetRegistry';
 import type { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import type { IModelAssetMeta } from '@core/assets/interfaces/IModelAssetMeta';
+import { createDefaultModelImportSettings } from '@core/assets/DefaultImportSettings';
 
 describe('GLTFImporter', () => {
   // Mock dependencies
@@ -200,12 +203,80 @@ describe('GLTFImporter', () => {
         expect.objectContaining({
           name: 'Red Material',
           parameters: expect.objectContaining({
-            albedo: [1, 0, 0],
+            uBaseColor: [1, 0, 0],
+            uMetallic: 0,
+            uRoughness: 0.5,
+            uBaseColorMap: null,
+          }),
+        })
+      );
+    });
+
+    it('should create texture assets for embedded textures and reference them from materials', async () => {
+      const mockGLTFResult: IGLTFImportResult = {
+        meshes: [],
+        materials: [
+          {
+            name: 'Wood',
+            baseColor: [1, 1, 1],
+            alpha: 1,
             metallic: 0,
-            roughness: 0.5,
+            roughness: 1,
+            transparent: false,
+            baseColorTextureIndex: 0,
+            metallicRoughnessTextureIndex: 1,
+          },
+        ],
+        textures: [
+          {
+            name: 'WoodColor',
+            image: new Uint8Array([1, 2, 3]),
+            mimeType: 'image/png',
+            width: 4,
+            height: 4,
+            sRGB: true,
+            wrapModeU: 'repeat',
+            wrapModeV: 'clamp',
+          },
+          {
+            name: 'WoodORM',
+            image: new Uint8Array([4, 5, 6]),
+            mimeType: 'image/jpeg',
+            width: 4,
+            height: 4,
+            sRGB: false,
+            wrapModeU: 'repeat',
+            wrapModeV: 'repeat',
+          },
+        ],
+        hierarchy: [],
+        warnings: [],
+      };
+
+      vi.mocked(mockImportService.import).mockResolvedValue(mockGLTFResult);
+
+      const importer = new GLTFImporter(mockImportService, mockAssetRegistry, mockMaterialFactory);
+      const result = await importer.import(new File([], 'wood.glb'));
+
+      const textures = result.assets.filter(a => a.type === 'texture') as ITextureAsset[];
+      expect(textures).toHaveLength(2);
+      expect(textures[0].importSettings.sRGB).toBe(true);
+      expect(textures[0].importSettings.wrapModeV).toBe('clamp');
+      expect(textures[1].importSettings.sRGB).toBe(false);
+      expect(textures[0].data).toBeInstanceOf(Blob);
+
+      expect(mockMaterialFactory.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          parameters: expect.objectContaining({
+            uBaseColorMap: { uuid: textures[0].uuid, type: 'texture' },
+            uMetallicRoughnessMap: { uuid: textures[1].uuid, type: 'texture' },
           }),
         })
       );
+
+      const registered = vi.mocked(mockAssetRegistry.register).mock.calls.map(c => (c[0] as { uuid: string }).uuid);
+      expect(registered).toContain(textures[0].uuid);
+      expect(registered).toContain(textures[1].uuid);
     });
 
     it('should preserve all primitives from a multi-primitive GLTF node as child mesh entities', async () => {
@@ -450,6 +521,41 @@ describe('GLTFImporter', () => {
       expect((entity as { transform: { scale: number[] } }).transform.scale).toEqual([2, 2, 2]);
     });
 
+    it('should apply the scale factor from import settings to geometry and hierarchy', async () => {
+      const mockGLTFResult: IGLTFImportResult = {
+        meshes: [
+          {
+            name: 'Tri',
+            positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+            normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+            indices: new Uint16Array([0, 1, 2]),
+            bounds: { min: [0, 0, 0], max: [1, 1, 0] },
+            vertexCount: 3,
+            triangleCount: 1,
+          },
+        ],
+        materials: [],
+        hierarchy: [
+          {
+            name: 'Tri',
+            meshIndex: 0,
+            transform: { position: [1, 2, 3], rotation: [0, 0, 0], scale: [1, 1, 1] },
+            children: [],
+          },
+        ],
+        warnings: [],
+      };
+
+      vi.mocked(mockImportService.import).mockResolvedValue(mockGLTFResult);
+
+      const importer = new GLTFImporter(mockImportService, mockAssetRegistry, mockMaterialFactory);
+      const result = await importer.import(new File([], 'tri.glb'), { importSettings: { scaleFactor: 2 } });
+
+      const meshAsset = result.assets.find(a => a.type === 'mesh') as unknown as { positions: number[] };
+      expect(meshAsset.positions).toEqual([0, 0, 0, 2, 0, 0, 0, 2, 0]);
+      expect((result.entities[0] as { transform: { position: number[] } }).transform.position).toEqual([2, 4, 6]);
+    });
+
     it('registers an IModelAsset in the registry alongside meshes/materials', async () => {
       const mockGLTFResult: IGLTFImportResult = {
         meshes: [
@@ -492,6 +598,102 @@ describe('GLTFImporter', () => {
       const registeredTypes = registerCalls.map(call => (call[0] as { type: string }).type);
       expect(registeredTypes).toContain('model');
     });
+
+    it('creates animation assets and binds skinned meshes to joint name paths', async () => {
+      const mockGLTFResult: IGLTFImportResult = {
+        meshes: [
+          {
+            name: 'Body',
+            positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+            normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+            indices: new Uint16Array([0, 1, 2]),
+            joints: new Uint16Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+            weights: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]),
+            bounds: { min: [0, 0, 0], max: [1, 1, 0] },
+            vertexCount: 3,
+            triangleCount: 1,
+          },
+        ],
+        materials: [],
+        hierarchy: [
+          {
+            name: 'Armature',
+            nodeIndex: 0,
+            transform: { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
+            children: [
+              {
+                name: 'Hips',
+                nodeIndex: 1,
+                transform: { position: [0, 0, 1], rotation: [0, 0, 0], scale: [1, 1, 1] },
+                children: [],
+              },
+            ],
+          },
+          {
+            name: 'Body',
+            nodeIndex: 2,
+            meshIndex: 0,
+            skinIndex: 0,
+            transform: { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
+            children: [],
+          },
+        ],
+        skins: [
+          {
+            name: 'Rig',
+            joints: [1],
+            inverseBindMatrices: new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, -1, 1]),
+          },
+        ],
+        animations: [
+          {
+            name: 'Wave',
+            duration: 1,
+            channels: [
+              {
+                nodeIndex: 1,
+                path: 'rotation',
+                interpolation: 'STEP',
+                times: new Float32Array([0, 1]),
+                values: new Float32Array([0, 0, 0, 1, 0, 0, 1, 0]),
+              },
+            ],
+          },
+        ],
+        warnings: [],
+      };
+
+      vi.mocked(mockImportService.import).mockResolvedValue(mockGLTFResult);
+
+      const importer = new GLTFImporter(mockImportService, mockAssetRegistry, mockMaterialFactory);
+      const result = await importer.import(new File([], 'rig.glb'));
+
+      const animationAssets = result.assets.filter(a => a.type === 'animation') as unknown as Array<{
+        name: string;
+        duration: number;
+        channels: Array<{ targetPath: string; property: string; interpolation: string }>;
+      }>;
+      expect(animationAssets).toHaveLength(1);
+      expect(animationAssets[0].name).toBe('Wave');
+      expect(animationAssets[0].duration).toBe(1);
+      expect(animationAssets[0].channels[0]).toMatchObject({
+        targetPath: 'Armature/Hips',
+        property: 'rotation',
+        interpolation: 'step',
+      });
+
+      // The empty joint node is kept so the clip and the skin can bind to it
+      expect(result.entities[0].children.map(child => child.name)).toEqual(['Hips']);
+
+      const body = result.entities[1] as unknown as {
+        skin: { joints: string[]; inverseBindMatrices: number[] } | null;
+      };
+      expect(body.skin?.joints).toEqual(['Armature/Hips']);
+      expect(body.skin?.inverseBindMatrices[14]).toBe(-1);
+
+      const meshAsset = result.assets.find(a => a.type === 'mesh') as unknown as { joints?: number[] };
+      expect(meshAsset.joints).toHaveLength(12);
+    });
   });
 
   describe('loadFromMeta', () => {
@@ -581,6 +783,51 @@ describe('GLTFImporter', () => {
     });
   });
 
+  describe('reimport', () => {
+    it('should apply the import settings stored in the meta', async () => {
+      const mockGLTFResult: IGLTFImportResult = {
+        meshes: [
+          {
+            name: 'Tri',
+            positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+            normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+            indices: new Uint16Array([0, 1, 2]),
+            bounds: { min: [0, 0, 0], max: [1, 1, 0] },
+            vertexCount: 3,
+            triangleCount: 1,
+          },
+        ],
+        materials: [],
+        hierarchy: [],
+        warnings: [],
+      };
+
+      vi.mocked(mockImportService.import).mockResolvedValue(mockGLTFResult);
+
+      const meta: IModelAssetMeta = {
+        version: 1,
+        uuid: 'model-uuid',
+        type: 'model',
+        importedAt: '2026-03-04T12:00:00.000Z',
+        sourceHash: 'size:0:mtime:0',
+        isDirty: true,
+        sourcePath: 'sources/models/tri.glb',
+        importSettings: { ...createDefaultModelImportSettings(), scaleFactor: 0.5 },
+        contents: {
+          meshes: [{ uuid: 'mesh-uuid', name: 'Tri', sourceIndex: 0, vertexCount: 3, triangleCount: 1 }],
+          materials: [],
+        },
+        hierarchy: [],
+      };
+
+      const importer = new GLTFImporter(mockImportService, mockAssetRegistry, mockMaterialFactory);
+      const result = await importer.reimport(new File([], 'tri.glb'), meta);
+
+      const meshAsset = result.assets.find(a => a.uuid === 'mesh-uuid') as unknown as { positions: number[] };
+      expect(meshAsset.positions).toEqual([0, 0, 0, 0.5, 0, 0, 0, 0.5, 0]);
+    });
+  });
+
   describe('initialize', () => {
     it('should complete without error', async () => {
       const importer = new GLTFImporter(mockImportService, mockAssetRegistry, mockMaterialFactory);
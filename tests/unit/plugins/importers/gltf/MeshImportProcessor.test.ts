@@ -0,0 +1,369 @@
+/**
+ * MeshImportProcessor Tests
+ *
+ * Tests for applying model import settings to extracted GLTF geometry.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MeshImportProcessor } from '@plugins/importers/gltf/MeshImportProcessor';
+import type { IGLTFImportResult, IGLTFMeshData } from '@plugins/importers/gltf/GLTFImportService';
+import { createDefaultModelImportSettings } from '@core/assets/DefaultImportSettings';
+import type { IMeshImportSettings, IModelImportSettings } from '@core/assets/interfaces/IModelAssetMeta';
+
+/** Settings with every geometry step switched off unless overridden. */
+function createSettings(
+  meshes: Partial<IMeshImportSettings> = {},
+  overrides: Partial<IModelImportSettings> = {}
+): IModelImportSettings {
+  const defaults = createDefaultModelImportSettings();
+  return {
+    ...defaults,
+    ...overrides,
+    meshes: {
+      ...defaults.meshes,
+      generateNormals: false,
+      generateTangents: false,
+      weldVertices: false,
+      optimizeMesh: false,
+      ...meshes,
+    },
+  };
+}
+
+function createMesh(
+  positions: number[],
+  normals: number[],
+  indices: number[],
+  extra: Partial<IGLTFMeshData> = {}
+): IGLTFMeshData {
+  return {
+    name: 'Mesh',
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: new Uint16Array(indices),
+    bounds: { min: [0, 0, 0], max: [0, 0, 0] },
+    vertexCount: positions.length / 3,
+    triangleCount: indices.length / 3,
+    ...extra,
+  };
+}
+
+function createResult(mesh: IGLTFMeshData): IGLTFImportResult {
+  return {
+    meshes: [mesh],
+    materials: [],
+    hierarchy: [
+      {
+        name: 'Root',
+        meshIndex: 0,
+        transform: { position: [1, 2, 3], rotation: [0, 0, 0], scale: [1, 1, 1] },
+        children: [
+          {
+            name: 'Child',
+            transform: { position: [0, 0, 4], rotation: [0, 0, 0], scale: [1, 1, 1] },
+            children: [],
+          },
+        ],
+      },
+    ],
+    warnings: [],
+  };
+}
+
+/** Triangles as sorted position triples, for order-independent comparison. */
+function triangleSet(mesh: IGLTFMeshData): string[] {
+  const triangles: string[] = [];
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const corners = [0, 1, 2].map((k) => {
+      const v = mesh.indices[t + k];
+      return Array.from(mesh.positions.subarray(v * 3, v * 3 + 3)).map((n) => n.toFixed(4)).join(',');
+    });
+    triangles.push(corners.sort().join('|'));
+  }
+  return triangles.sort();
+}
+
+/** Average cache miss ratio for a FIFO post-transform cache. */
+function averageCacheMissRatio(indices: ArrayLike<number>, cacheSize = 16): number {
+  const cache: number[] = [];
+  let misses = 0;
+  for (let i = 0; i < indices.length; i++) {
+    if (!cache.includes(indices[i])) {
+      misses++;
+      cache.push(indices[i]);
+      if (cache.length > cacheSize) cache.shift();
+    }
+  }
+  return misses / (indices.length / 3);
+}
+
+/** Two triangles forming a unit quad in the XY plane, with duplicated shared corners. */
+const SPLIT_QUAD_POSITIONS = [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 1, 0];
+const SPLIT_QUAD_NORMALS = Array.from({ length: 6 }, () => [0, 0, 1]).flat();
+const SPLIT_QUAD_UVS = [0, 0, 1, 0, 1, 1, 0, 0, 1, 1, 0, 1];
+
+/** Two mirrored faces meeting at a 90° ridge along the Y axis, each with its own flat normals. */
+function createRoof(): IGLTFMeshData {
+  const s = Math.SQRT1_2;
+  return createMesh(
+    [
+      -1, 0, 0, 0, 0, 1, 0, 1, 1, -1, 1, 0,
+      0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1, 1,
+    ],
+    [
+      -s, 0, s, -s, 0, s, -s, 0, s, -s, 0, s,
+      s, 0, s, s, 0, s, s, 0, s, s, 0, s,
+    ],
+    [0, 1, 2, 0, 2, 3, 4, 5, 7, 5, 6, 7],
+    { generatedNormals: true }
+  );
+}
+
+describe('MeshImportProcessor', () => {
+  const processor = new MeshImportProcessor();
+
+  describe('scale factor', () => {
+    it('should scale positions, bounds and node translations', () => {
+      const mesh = createMesh([0, 0, 0, 1, 0, 0, 0, 1, 0], [0, 0, 1, 0, 0, 1, 0, 0, 1], [0, 1, 2]);
+      const result = processor.process(createResult(mesh), createSettings({}, { scaleFactor: 2 }));
+
+      expect(Array.from(result.meshes[0].positions)).toEqual([0, 0, 0, 2, 0, 0, 0, 2, 0]);
+      expect(result.meshes[0].bounds).toEqual({ min: [0, 0, 0], max: [2, 2, 0] });
+      expect(result.hierarchy[0].transform.position).toEqual([2, 4, 6]);
+      expect(result.hierarchy[0].children[0].transform.position).toEqual([0, 0, 8]);
+      expect(result.hierarchy[0].transform.scale).toEqual([1, 1, 1]);
+    });
+
+    it('should not modify the input result', () => {
+      const mesh = createMesh([0, 0, 0, 1, 0, 0, 0, 1, 0], [0, 0, 1, 0, 0, 1, 0, 0, 1], [0, 1, 2]);
+      const input = createResult(mesh);
+      processor.process(input, createSettings({ optimizeMesh: true }, { scaleFactor: 3 }));
+
+      expect(Array.from(input.meshes[0].positions)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+      expect(input.hierarchy[0].transform.position).toEqual([1, 2, 3]);
+    });
+
+    it('should scale skin bind translations and animation translation keys', () => {
+      const mesh = createMesh([0, 0, 0, 1, 0, 0, 0, 1, 0], [0, 0, 1, 0, 0, 1, 0, 0, 1], [0, 1, 2]);
+      const input: IGLTFImportResult = {
+        ...createResult(mesh),
+        skins: [{
+          name: 'Rig',
+          joints: [0],
+          inverseBindMatrices: new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 1, 2, 3, 1]),
+        }],
+        animations: [{
+          name: 'Move',
+          duration: 1,
+          channels: [
+            { nodeIndex: 0, path: 'translation', interpolation: 'LINEAR', times: new Float32Array([0, 1]), values: new Float32Array([0, 0, 1, 0, 0, 2]) },
+            { nodeIndex: 0, path: 'scale', interpolation: 'LINEAR', times: new Float32Array([0, 1]), values: new Float32Array([1, 1, 1, 2, 2, 2]) },
+          ],
+        }],
+      };
+      const result = processor.process(input, createSettings({}, { scaleFactor: 2 }));
+
+      expect(Array.from(result.skins![0].inverseBindMatrices.slice(12))).toEqual([2, 4, 6, 1]);
+      expect(result.skins![0].inverseBindMatrices[0]).toBe(1);
+      expect(Array.from(result.animations![0].channels[0].values)).toEqual([0, 0, 2, 0, 0, 4]);
+      expect(Array.from(result.animations![0].channels[1].values)).toEqual([1, 1, 1, 2, 2, 2]);
+    });
+
+    it('should warn and fall back to 1 for an invalid scale factor', () => {
+      const mesh = createMesh([0, 0, 0, 1, 0, 0, 0, 1, 0], [0, 0, 1, 0, 0, 1, 0, 0, 1], [0, 1, 2]);
+      const result = processor.process(createResult(mesh), createSettings({}, { scaleFactor: 0 }));
+
+      expect(Array.from(result.meshes[0].positions)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toContain('scale factor');
+    });
+  });
+
+  describe('weld vertices', () => {
+    it('should merge coincident vertices with matching attributes', () => {
+      const mesh = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5], {
+        uvs: new Float32Array(SPLIT_QUAD_UVS),
+      });
+      const result = processor.process(createResult(mesh), createSettings({ weldVertices: true }));
+
+      expect(result.meshes[0].vertexCount).toBe(4);
+      expect(result.meshes[0].triangleCount).toBe(2);
+      expect(triangleSet(result.meshes[0])).toEqual(triangleSet(mesh));
+    });
+
+    it('should keep vertices apart when their UVs differ', () => {
+      const uvs = [...SPLIT_QUAD_UVS];
+      uvs[6] = 0.5; // second copy of the origin gets a different UV
+      const mesh = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5], {
+        uvs: new Float32Array(uvs),
+      });
+      const result = processor.process(createResult(mesh), createSettings({ weldVertices: true }));
+
+      expect(result.meshes[0].vertexCount).toBe(5);
+    });
+
+    it('should keep vertices apart when their joint weights differ', () => {
+      const joints = new Uint16Array(6 * 4);
+      const weights = Array.from({ length: 6 }, () => [1, 0, 0, 0]).flat();
+      weights[12] = 0.5; // second copy of the origin is shared with joint 1
+      weights[13] = 0.5;
+      const mesh = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5], {
+        joints,
+        weights: new Float32Array(weights),
+      });
+      const result = processor.process(createResult(mesh), createSettings({ weldVertices: true }));
+
+      expect(result.meshes[0].vertexCount).toBe(5);
+      expect(result.meshes[0].weights).toHaveLength(5 * 4);
+    });
+
+    it('should drop triangles that collapse after welding', () => {
+      const mesh = createMesh(
+        [0, 0, 0, 1, 0, 0, 0, 1, 0, 0.00001, 0, 0],
+        [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1],
+        [0, 1, 2, 0, 3, 2]
+      );
+      const result = processor.process(createResult(mesh), createSettings({ weldVertices: true, weldThreshold: 0.001 }));
+
+      expect(result.meshes[0].triangleCount).toBe(1);
+      expect(result.meshes[0].vertexCount).toBe(3);
+    });
+  });
+
+  describe('smoothing angle', () => {
+    it('should keep a hard edge when the face angle exceeds the threshold', () => {
+      const result = processor.process(
+        createResult(createRoof()),
+        createSettings({ generateNormals: true, normalAngleThreshold: 60 })
+      );
+      const { normals, vertexCount } = result.meshes[0];
+
+      expect(vertexCount).toBe(8);
+      for (let v = 0; v < vertexCount; v++) {
+        expect(Math.abs(normals[v * 3])).toBeCloseTo(Math.SQRT1_2, 5);
+      }
+    });
+
+    it('should smooth across an edge within the threshold', () => {
+      const result = processor.process(
+        createResult(createRoof()),
+        createSettings({ generateNormals: true, normalAngleThreshold: 120 })
+      );
+      const { positions, normals, vertexCount } = result.meshes[0];
+
+      expect(vertexCount).toBe(6);
+      for (let v = 0; v < vertexCount; v++) {
+        if (positions[v * 3] === 0) {
+          // Ridge vertices average both faces and point straight up
+          expect(normals[v * 3]).toBeCloseTo(0, 5);
+          expect(normals[v * 3 + 2]).toBeCloseTo(1, 5);
+        }
+      }
+    });
+
+    it('should leave normals untouched when normal generation is disabled', () => {
+      const roof = createRoof();
+      const result = processor.process(createResult(roof), createSettings({ normalAngleThreshold: 120 }));
+
+      expect(Array.from(result.meshes[0].normals)).toEqual(Array.from(roof.normals));
+    });
+
+    it('should not recompute normals supplied by the source file', () => {
+      const roof = { ...createRoof(), generatedNormals: false };
+      const result = processor.process(
+        createResult(roof),
+        createSettings({ generateNormals: true, normalAngleThreshold: 120 })
+      );
+
+      expect(result.meshes[0].vertexCount).toBe(8);
+    });
+  });
+
+  describe('optimize mesh', () => {
+    it('should renumber vertices in first-use order', () => {
+      const mesh = createMesh(
+        [5, 0, 0, 0, 0, 0, 0, 1, 0, 1, 0, 0],
+        [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1],
+        [3, 2, 1]
+      );
+      const result = processor.process(createResult(mesh), createSettings({ optimizeMesh: true }));
+
+      expect(Array.from(result.meshes[0].indices)).toEqual([0, 1, 2]);
+      expect(result.meshes[0].vertexCount).toBe(3);
+      expect(triangleSet(result.meshes[0])).toEqual(triangleSet(mesh));
+    });
+
+    it('should improve vertex cache reuse on a shuffled grid', () => {
+      const size = 16;
+      const positions: number[] = [];
+      const normals: number[] = [];
+      for (let y = 0; y <= size; y++) {
+        for (let x = 0; x <= size; x++) {
+          positions.push(x, y, 0);
+          normals.push(0, 0, 1);
+        }
+      }
+      const triangles: number[][] = [];
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const a = y * (size + 1) + x;
+          triangles.push([a, a + 1, a + size + 2], [a, a + size + 2, a + size + 1]);
+        }
+      }
+      // Deterministic shuffle so the input has poor locality
+      let seed = 7;
+      for (let i = triangles.length - 1; i > 0; i--) {
+        seed = (seed * 16807) % 2147483647;
+        const j = seed % (i + 1);
+        [triangles[i], triangles[j]] = [triangles[j], triangles[i]];
+      }
+      const mesh = createMesh(positions, normals, triangles.flat());
+
+      const result = processor.process(createResult(mesh), createSettings({ optimizeMesh: true }));
+
+      expect(triangleSet(result.meshes[0])).toEqual(triangleSet(mesh));
+      expect(averageCacheMissRatio(result.meshes[0].indices)).toBeLessThan(averageCacheMissRatio(mesh.indices));
+    });
+  });
+
+  describe('tangents', () => {
+    it('should generate tangents aligned with the U direction', () => {
+      const mesh = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5], {
+        uvs: new Float32Array(SPLIT_QUAD_UVS),
+      });
+      const result = processor.process(createResult(mesh), createSettings({ generateTangents: true }));
+      const tangents = result.meshes[0].tangents!;
+
+      expect(tangents).toHaveLength(result.meshes[0].vertexCount * 4);
+      for (let v = 0; v < result.meshes[0].vertexCount; v++) {
+        expect(tangents[v * 4]).toBeCloseTo(1, 5);
+        expect(tangents[v * 4 + 1]).toBeCloseTo(0, 5);
+        expect(tangents[v * 4 + 2]).toBeCloseTo(0, 5);
+        expect(tangents[v * 4 + 3]).toBe(1);
+      }
+    });
+
+    it('should flip handedness for mirrored UVs', () => {
+      const uvs = SPLIT_QUAD_UVS.map((value, i) => (i % 2 === 0 ? 1 - value : value));
+      const mesh = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5], {
+        uvs: new Float32Array(uvs),
+      });
+      const result = processor.process(createResult(mesh), createSettings({ generateTangents: true }));
+      const tangents = result.meshes[0].tangents!;
+
+      expect(tangents[0]).toBeCloseTo(-1, 5);
+      expect(tangents[3]).toBe(-1);
+    });
+
+    it('should skip tangents for meshes without UVs or when disabled', () => {
+      const noUVs = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5]);
+      const withUVs = createMesh(SPLIT_QUAD_POSITIONS, SPLIT_QUAD_NORMALS, [0, 1, 2, 3, 4, 5], {
+        uvs: new Float32Array(SPLIT_QUAD_UVS),
+      });
+
+      expect(processor.process(createResult(noUVs), createSettings({ generateTangents: true })).meshes[0].tangents)
+        .toBeUndefined();
+      expect(processor.process(createResult(withUVs), createSettings()).meshes[0].tangents).toBeUndefined();
+    });
+  });
+});
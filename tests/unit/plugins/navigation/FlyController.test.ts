@@ -0,0 +1,224 @@
+/**
+ * FlyController Tests
+ *
+ * Tests WASD movement with acceleration, mouse look, scroll speed and how
+ * movement keys are kept from other keyboard handlers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlyController, FLY_SPEED_MAX } from '@plugins/navigation';
+import { EventBus } from '@core/EventBus';
+import { CameraEntity } from '@core/CameraEntity';
+import { InputManager, type DragEvent, type KeyEvent, type ModifierState } from '@core/InputManager';
+
+/** Fly speed in world units per second */
+const SPEED = 2;
+
+const NO_MODIFIERS: ModifierState = { alt: false, ctrl: false, shift: false, meta: false };
+
+describe('FlyController', () => {
+  let eventBus: EventBus;
+  let camera: CameraEntity;
+  let controller: FlyController;
+
+  const keyDown = (code: string, modifiers: Partial<ModifierState> = {}): boolean => {
+    let consumed = false;
+    const event: KeyEvent = {
+      key: code.replace('Key', '').toLowerCase(),
+      code,
+      modifiers: { ...NO_MODIFIERS, ...modifiers },
+      consume: () => {
+        consumed = true;
+      },
+    };
+    eventBus.emit('input:keyDown', event);
+    return consumed;
+  };
+
+  const keyUp = (code: string): void => {
+    eventBus.emit('input:keyUp', { key: '', code, modifiers: NO_MODIFIERS, consume: () => {} });
+  };
+
+  const rightDrag = (deltaX: number, deltaY: number): void => {
+    const event: DragEvent = {
+      button: 2,
+      startX: 0,
+      startY: 0,
+      currentX: deltaX,
+      currentY: deltaY,
+      deltaX,
+      deltaY,
+      modifiers: NO_MODIFIERS,
+    };
+    eventBus.emit('input:dragStart', { ...event, deltaX: 0, deltaY: 0 });
+    eventBus.emit('input:drag', event);
+    eventBus.emit('input:dragEnd', event);
+  };
+
+  /** Run updates for a duration in fixed steps */
+  const run = (seconds: number, step = 1 / 60): void => {
+    for (let t = 0; t < seconds; t += step) {
+      controller.update(step);
+    }
+  };
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    // On -Y looking along +Y
+    camera = new CameraEntity({ position: [0, -10, 0], target: [0, 0, 0] });
+    controller = new FlyController(camera, eventBus, document.createElement('canvas'), { speed: SPEED });
+    controller.setActive(true);
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  describe('movement', () => {
+    it('should move forward while W is held, keeping the target ahead', () => {
+      keyDown('KeyW');
+      run(2);
+
+      const position = camera.transform.position;
+      expect(position[1]).toBeGreaterThan(-10 + SPEED * 1.5);
+      expect(position[0]).toBeCloseTo(0);
+      expect(camera.target[1] - position[1]).toBeCloseTo(10);
+    });
+
+    it('should accelerate toward the fly speed', () => {
+      keyDown('KeyW');
+
+      controller.update(0.05);
+      const firstStep = camera.transform.position[1] + 10;
+      run(1);
+      const before = camera.transform.position[1];
+      controller.update(0.05);
+      const cruisingStep = camera.transform.position[1] - before;
+
+      expect(firstStep).toBeLessThan(SPEED * 0.05 * 0.5);
+      expect(cruisingStep).toBeCloseTo(SPEED * 0.05, 3);
+    });
+
+    it('should ease to a stop after the key is released', () => {
+      keyDown('KeyW');
+      run(1);
+      keyUp('KeyW');
+      const released = camera.transform.position[1];
+
+      run(2);
+      const stopped = camera.transform.position[1];
+      controller.update(0.1);
+
+      expect(stopped).toBeGreaterThan(released);
+      expect(camera.transform.position[1]).toBe(stopped);
+    });
+
+    it('should strafe with A/D and rise with E along world axes', () => {
+      keyDown('KeyD');
+      keyDown('KeyE');
+      run(2);
+
+      const position = camera.transform.position;
+      expect(position[0]).toBeGreaterThan(0);
+      expect(position[2]).toBeGreaterThan(0);
+      expect(position[0]).toBeCloseTo(position[2]);
+      expect(position[1]).toBeCloseTo(-10);
+    });
+
+    it('should move faster while Shift is held', () => {
+      keyDown('KeyW', { shift: true });
+      run(2);
+
+      expect(camera.transform.position[1]).toBeGreaterThan(-10 + SPEED * 2 * 1.5);
+    });
+
+    it('should stop moving when the window loses focus', () => {
+      keyDown('KeyW');
+      eventBus.emit('input:blur');
+      run(1);
+
+      expect(camera.transform.position).toEqual([0, -10, 0]);
+    });
+
+    it('should ignore movement keys when inactive', () => {
+      controller.setActive(false);
+
+      expect(keyDown('KeyW')).toBe(false);
+      run(1);
+      expect(camera.transform.position).toEqual([0, -10, 0]);
+    });
+  });
+
+  describe('keyboard handling', () => {
+    it('should consume movement keys but not shortcuts with Ctrl', () => {
+      expect(keyDown('KeyW')).toBe(true);
+      expect(keyDown('KeyD', { shift: true })).toBe(true);
+      expect(keyDown('KeyS', { ctrl: true })).toBe(false);
+      expect(keyDown('KeyF')).toBe(false);
+    });
+
+    it('should keep consumed keys from window keydown handlers', () => {
+      const canvas = document.createElement('canvas');
+      const inputManager = new InputManager(canvas, eventBus);
+      const shortcutHandler = vi.fn();
+      window.addEventListener('keydown', shortcutHandler);
+
+      document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'w', code: 'KeyW', bubbles: true }));
+      document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'r', code: 'KeyR', bubbles: true }));
+
+      expect(shortcutHandler).toHaveBeenCalledTimes(1);
+      expect(shortcutHandler.mock.calls[0][0].key).toBe('r');
+
+      window.removeEventListener('keydown', shortcutHandler);
+      inputManager.dispose();
+    });
+  });
+
+  describe('mouse look', () => {
+    it('should turn right when dragging right', () => {
+      rightDrag(100, 0);
+
+      const position = camera.transform.position;
+      const target = camera.target;
+      expect(position).toEqual([0, -10, 0]);
+      expect(target[0]).toBeGreaterThan(0);
+      expect(Math.hypot(target[0] - position[0], target[1] - position[1], target[2] - position[2])).toBeCloseTo(10);
+    });
+
+    it('should look down when dragging down, stopping short of straight down', () => {
+      rightDrag(0, 100000);
+
+      const target = camera.target;
+      expect(target[2]).toBeLessThan(-9.9);
+      expect(Math.hypot(target[0], target[1] + 10)).toBeGreaterThan(0);
+    });
+
+    it('should leave left drags to selection and gizmos', () => {
+      eventBus.emit('input:dragStart', { button: 0, deltaX: 0, deltaY: 0, modifiers: NO_MODIFIERS });
+      eventBus.emit('input:drag', { button: 0, deltaX: 50, deltaY: 0, modifiers: NO_MODIFIERS });
+
+      expect(camera.target).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('speed', () => {
+    it('should change speed with the scroll wheel', () => {
+      const onChanged = vi.fn();
+      eventBus.on('navigation:flyModeChanged', onChanged);
+
+      eventBus.emit('input:wheel', { deltaX: 0, deltaY: -100, deltaZ: 0, modifiers: NO_MODIFIERS });
+      expect(controller.getSpeed()).toBeGreaterThan(SPEED);
+      expect(onChanged).toHaveBeenLastCalledWith({ active: true, speed: controller.getSpeed() });
+
+      eventBus.emit('input:wheel', { deltaX: 0, deltaY: 100, deltaZ: 0, modifiers: NO_MODIFIERS });
+      eventBus.emit('input:wheel', { deltaX: 0, deltaY: 100, deltaZ: 0, modifiers: NO_MODIFIERS });
+      expect(controller.getSpeed()).toBeLessThan(SPEED);
+    });
+
+    it('should clamp the speed', () => {
+      controller.setSpeed(1e6);
+
+      expect(controller.getSpeed()).toBe(FLY_SPEED_MAX);
+    });
+  });
+});
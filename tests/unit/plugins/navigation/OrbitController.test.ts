@@ -0,0 +1,186 @@
+/**
+ * OrbitController Tests
+ *
+ * Tests standard views, their eased transitions and orthographic projection
+ * on the editor camera.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OrbitController, VIEW_TRANSITION_DURATION } from '@plugins/navigation';
+import { EventBus } from '@core/EventBus';
+import { CameraEntity } from '@core/CameraEntity';
+import type { DragEvent } from '@core/InputManager';
+
+/** Distance from the camera to the pivot */
+const RADIUS = 10;
+
+function expectPosition(camera: CameraEntity, expected: [number, number, number]): void {
+  const position = camera.transform.position;
+  expect(position[0]).toBeCloseTo(expected[0], 2);
+  expect(position[1]).toBeCloseTo(expected[1], 2);
+  expect(position[2]).toBeCloseTo(expected[2], 2);
+}
+
+describe('OrbitController', () => {
+  let eventBus: EventBus;
+  let camera: CameraEntity;
+  let controller: OrbitController;
+
+  const altDrag = (deltaX: number, deltaY: number): void => {
+    const event: DragEvent = {
+      button: 0,
+      startX: 0,
+      startY: 0,
+      currentX: deltaX,
+      currentY: deltaY,
+      deltaX,
+      deltaY,
+      modifiers: { alt: true, ctrl: false, shift: false, meta: false },
+    };
+    eventBus.emit('input:drag', event);
+  };
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    // Start in the front view: on -Y looking at the origin
+    camera = new CameraEntity({ position: [0, -RADIUS, 0], target: [0, 0, 0] });
+    controller = new OrbitController(camera, eventBus, document.createElement('canvas'));
+  });
+
+  describe('standard views', () => {
+    it('should jump to a view when not animated', () => {
+      controller.setStandardView('right', false);
+
+      expectPosition(camera, [RADIUS, 0, 0]);
+      expect(controller.getStandardView()).toBe('right');
+      expect(controller.isTransitioning()).toBe(false);
+    });
+
+    it('should look straight down in the top view', () => {
+      controller.setStandardView('top', false);
+
+      expectPosition(camera, [0, 0, RADIUS]);
+      expect(camera.target).toEqual([0, 0, 0]);
+    });
+
+    it('should ease to a view over the transition duration', () => {
+      controller.setStandardView('right');
+
+      expectPosition(camera, [0, -RADIUS, 0]);
+      expect(controller.isTransitioning()).toBe(true);
+
+      controller.update(VIEW_TRANSITION_DURATION / 2);
+      const halfway = Math.SQRT1_2 * RADIUS;
+      expectPosition(camera, [halfway, -halfway, 0]);
+
+      controller.update(VIEW_TRANSITION_DURATION / 2);
+      expectPosition(camera, [RADIUS, 0, 0]);
+      expect(controller.isTransitioning()).toBe(false);
+    });
+
+    it('should rotate the short way around', () => {
+      controller.setStandardView('left');
+      controller.update(VIEW_TRANSITION_DURATION / 2);
+
+      // Front (-Y) to left (-X) passes through -X -Y, not +X +Y
+      const position = camera.transform.position;
+      expect(position[0]).toBeLessThan(0);
+      expect(position[1]).toBeLessThan(0);
+    });
+
+    it('should switch to the opposite view', () => {
+      controller.setStandardView('top', false);
+      controller.setOppositeView(false);
+
+      expect(controller.getStandardView()).toBe('bottom');
+      expectPosition(camera, [0, 0, -RADIUS]);
+    });
+
+    it('should view from across the pivot when orbiting freely', () => {
+      camera.setPosition(6, -6, 2);
+      controller = new OrbitController(camera, eventBus, document.createElement('canvas'));
+
+      controller.setOppositeView(false);
+
+      expectPosition(camera, [-6, 6, -2]);
+    });
+
+    it('should leave the standard view when the user orbits', () => {
+      controller.setStandardView('top');
+      altDrag(10, 0);
+
+      expect(controller.getStandardView()).toBeNull();
+      expect(controller.isTransitioning()).toBe(false);
+    });
+
+    it('should not snap back to the phi limit when orbiting from the top view', () => {
+      controller.setStandardView('top', false);
+      altDrag(10, 0);
+
+      // Turning sideways keeps looking straight down
+      expect(camera.transform.position[2]).toBeCloseTo(RADIUS, 2);
+    });
+  });
+
+  describe('syncing', () => {
+    it('should orbit around the camera target after something else moved the camera', () => {
+      camera.setPosition(0, -5, 0);
+      camera.setTarget(0, 5, 0);
+
+      controller.syncFromCamera();
+      controller.setStandardView('right', false);
+
+      expectPosition(camera, [RADIUS, 5, 0]);
+      expect(controller.getPivot()).toEqual([0, 5, 0]);
+    });
+
+    it('should keep the view direction when framing a point', () => {
+      camera.setPosition(10, 0, 0);
+      camera.setTarget(0, 0, 0);
+
+      controller.framePoint([0, 0, 1], 4);
+
+      expectPosition(camera, [4, 0, 1]);
+    });
+  });
+
+  describe('projection', () => {
+    it('should toggle orthographic projection', () => {
+      controller.toggleOrthographic();
+      expect(camera.getCameraComponent().projection).toBe('orthographic');
+
+      controller.toggleOrthographic();
+      expect(camera.getCameraComponent().projection).toBe('perspective');
+    });
+
+    it('should size the orthographic view to match the perspective view at the pivot', () => {
+      controller.setProjection('orthographic');
+
+      const halfFov = (camera.getCameraComponent().fieldOfView * Math.PI) / 360;
+      expect(camera.getCameraComponent().orthographicSize).toBeCloseTo(RADIUS * Math.tan(halfFov));
+    });
+
+    it('should zoom the orthographic view with the wheel', () => {
+      controller.setProjection('orthographic');
+      const size = camera.getCameraComponent().orthographicSize;
+
+      eventBus.emit('input:wheel', { deltaX: 0, deltaY: -1, deltaZ: 0, modifiers: {} });
+
+      expect(camera.getCameraComponent().orthographicSize).toBeLessThan(size);
+    });
+
+    it('should render with an orthographic projection matrix', () => {
+      controller.setProjection('orthographic');
+      const renderCamera = camera.asRenderCamera(2);
+      const size = camera.getCameraComponent().orthographicSize;
+
+      const projection = renderCamera.getProjectionMatrix();
+
+      expect(renderCamera.projection).toBe('orthographic');
+      expect(projection[0]).toBeCloseTo(1 / (size * 2));
+      expect(projection[5]).toBeCloseTo(1 / size);
+      expect(projection[11]).toBe(0);
+      expect(projection[15]).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * BVH Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BVH, createBVHHit } from '@plugins/renderers/raytracing/BVH';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Horizontal square made of two triangles, centered at (cx, cy, z).
+ */
+function quad(cx: number, cy: number, z: number, half = 0.5): number[] {
+  return [
+    cx - half, cy - half, z, cx + half, cy - half, z, cx + half, cy + half, z,
+    cx - half, cy - half, z, cx + half, cy + half, z, cx - half, cy + half, z,
+  ];
+}
+
+/**
+ * Reference closest hit by testing every triangle.
+ */
+function bruteForce(positions: Float32Array, origin: Vec3, direction: Vec3): number {
+  let closest = Infinity;
+  for (let tri = 0; tri < positions.length / 9; tri++) {
+    const single = new BVH(positions.slice(tri * 9, tri * 9 + 9));
+    const hit = createBVHHit();
+    if (single.intersect(origin, direction, Infinity, hit)) {
+      closest = Math.min(closest, hit.t);
+    }
+  }
+  return closest;
+}
+
+describe('BVH', () => {
+  it('should return the closest of overlapping triangles', () => {
+    const bvh = new BVH(new Float32Array([...quad(0, 0, 0), ...quad(0, 0, 2)]));
+    const hit = createBVHHit();
+
+    expect(bvh.intersect([0.1, 0.2, 5], [0, 0, -1], Infinity, hit)).toBe(true);
+
+    expect(hit.t).toBeCloseTo(3);
+    expect(hit.triangle).toBeGreaterThanOrEqual(2);
+    expect(hit.u + hit.v).toBeLessThanOrEqual(1);
+  });
+
+  it('should miss rays that pass beside the geometry', () => {
+    const bvh = new BVH(new Float32Array(quad(0, 0, 0)));
+
+    expect(bvh.intersect([2, 0, 5], [0, 0, -1], Infinity, createBVHHit())).toBe(false);
+    expect(bvh.intersect([0, 0, 5], [0, 0, 1], Infinity, createBVHHit())).toBe(false);
+  });
+
+  it('should only report occlusion closer than tMax', () => {
+    const bvh = new BVH(new Float32Array(quad(0, 0, 0)));
+
+    expect(bvh.occluded([0, 0, 5], [0, 0, -1], 10)).toBe(true);
+    expect(bvh.occluded([0, 0, 5], [0, 0, -1], 4)).toBe(false);
+  });
+
+  it('should match a brute-force search on a larger mesh', () => {
+    const triangles: number[] = [];
+    for (let x = 0; x < 12; x++) {
+      for (let y = 0; y < 12; y++) {
+        triangles.push(...quad(x, y, Math.sin(x) + Math.cos(y), 0.6));
+      }
+    }
+    const positions = new Float32Array(triangles);
+    const bvh = new BVH(positions);
+
+    expect(bvh.triangleCount).toBe(288);
+    expect(bvh.getNodeCount()).toBeGreaterThan(1);
+
+    for (let i = 0; i < 25; i++) {
+      const origin: Vec3 = [(i * 7) % 12, (i * 5) % 12, 10];
+      const direction: Vec3 = [0.05 * (i % 3), -0.04 * (i % 4), -1];
+      const hit = createBVHHit();
+      const expected = bruteForce(positions, origin, direction);
+
+      expect(bvh.intersect(origin, direction, Infinity, hit)).toBe(expected < Infinity);
+      if (expected < Infinity) {
+        expect(hit.t).toBeCloseTo(expected, 4);
+      }
+    }
+  });
+
+  it('should split triangles that share a centroid', () => {
+    const triangles: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      const h = 0.5 + i * 0.01;
+      triangles.push(-h, -h, 0, h, -h, 0, 0, 2 * h, 0);
+    }
+    const bvh = new BVH(new Float32Array(triangles));
+
+    expect(bvh.getNodeCount()).toBeGreaterThan(1);
+    expect(bvh.intersect([0.1, -0.2, 1], [0, 0, -1], Infinity, createBVHHit())).toBe(true);
+  });
+
+  it('should handle an empty scene', () => {
+    const bvh = new BVH(new Float32Array(0));
+
+    expect(bvh.getBounds()).toBeNull();
+    expect(bvh.intersect([0, 0, 0], [0, 0, 1], Infinity, createBVHHit())).toBe(false);
+    expect(bvh.occluded([0, 0, 0], [0, 0, 1], Infinity)).toBe(false);
+  });
+});
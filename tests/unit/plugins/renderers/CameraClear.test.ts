@@ -0,0 +1,65 @@
+/**
+ * CameraClear Tests
+ *
+ * Unit tests for applying camera clear flags. Uses mock WebGL context.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearForCamera,
+  getCameraBackground,
+  DEFAULT_BACKGROUND_COLOR,
+} from '@plugins/renderers/shared/CameraClear';
+import { createMockGL } from '../../../helpers/webgl-mock';
+import { createCamera } from '../../../helpers/camera';
+
+describe('CameraClear', () => {
+  let gl: WebGL2RenderingContext;
+
+  beforeEach(() => {
+    gl = createMockGL();
+  });
+
+  it('should clear color and depth to the background color for solidColor', () => {
+    clearForCamera(gl, createCamera({ clearFlags: 'solidColor', backgroundColor: [1, 0.5, 0] }));
+
+    expect(gl.clearColor).toHaveBeenCalledWith(1, 0.5, 0, 1.0);
+    expect(gl.clear).toHaveBeenCalledWith(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+  });
+
+  it('should use the default background for cameras without clear settings', () => {
+    expect(getCameraBackground(createCamera())).toEqual(DEFAULT_BACKGROUND_COLOR);
+  });
+
+  it('should use the default background for skybox until skyboxes exist', () => {
+    const camera = createCamera({ clearFlags: 'skybox', backgroundColor: [1, 0, 0] });
+
+    expect(getCameraBackground(camera)).toEqual(DEFAULT_BACKGROUND_COLOR);
+  });
+
+  it('should clear skybox cameras and cameras without a color to the scene background', () => {
+    const sceneBackground: [number, number, number] = [0.2, 0.3, 0.4];
+
+    expect(getCameraBackground(createCamera({ clearFlags: 'skybox', backgroundColor: [1, 0, 0] }), sceneBackground))
+      .toEqual(sceneBackground);
+    expect(getCameraBackground(createCamera(), sceneBackground)).toEqual(sceneBackground);
+    expect(getCameraBackground(createCamera({ clearFlags: 'solidColor', backgroundColor: [1, 0, 0] }), sceneBackground))
+      .toEqual([1, 0, 0]);
+  });
+
+  it('should only clear depth for depthOnly', () => {
+    const camera = createCamera({ clearFlags: 'depthOnly' });
+
+    clearForCamera(gl, camera);
+
+    expect(getCameraBackground(camera)).toBeNull();
+    expect(gl.clearColor).not.toHaveBeenCalled();
+    expect(gl.clear).toHaveBeenCalledWith(gl.DEPTH_BUFFER_BIT);
+  });
+
+  it('should clear nothing for none', () => {
+    clearForCamera(gl, createCamera({ clearFlags: 'none' }));
+
+    expect(gl.clear).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * DeferredRenderer Tests
+ *
+ * Unit tests for the deferred pipeline's pass sequencing, light batching
+ * and forward fallback. Uses mock WebGL context.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeferredRenderer, LIGHT_BATCH_SIZE } from '@plugins/renderers/deferred/DeferredRenderer';
+import { EventBus } from '@core/EventBus';
+import { BUILT_IN_SHADER_IDS } from '@core/assets/BuiltInShaders';
+import type { IMaterialComponent, IPluginContext, IScene } from '@core/interfaces';
+import type { LightData, LightManager } from '@core/LightManager';
+import type { ShaderEditorService } from '@core/ShaderEditorService';
+import { SettingsService } from '@core/SettingsService';
+import { BLOOM_BLUR_PASSES } from '@plugins/renderers/postprocess/PostProcessStack';
+import { Cube } from '@plugins/primitives/Cube';
+import { createMockGL } from '../../../helpers/webgl-mock';
+import { createCamera } from '../../../helpers/camera';
+
+function createPointLights(count: number): LightData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lightType: 'point' as const,
+    direction: [0, 0, -1] as [number, number, number],
+    position: [i, 0, 2] as [number, number, number],
+    color: [1, 1, 1] as [number, number, number],
+    enabled: true,
+    range: 10,
+  }));
+}
+
+function createScene(objects: unknown[]): IScene {
+  return {
+    traverse: (callback) => objects.forEach(callback),
+    getRenderables: () => objects,
+  };
+}
+
+describe('DeferredRenderer', () => {
+  let gl: WebGL2RenderingContext;
+  let lights: LightData[];
+  let lightManager: Pick<LightManager, 'getActiveLights' | 'getAmbientColor'>;
+  let shaderEditorService: Pick<
+    ShaderEditorService,
+    'hasCachedProgram' | 'getCompiledProgram' | 'getUniformLocations'
+  >;
+  let renderer: DeferredRenderer;
+
+  beforeEach(async () => {
+    gl = createMockGL();
+    lights = createPointLights(1);
+    lightManager = {
+      getActiveLights: vi.fn(() => lights),
+      getAmbientColor: vi.fn(() => [0.1, 0.1, 0.1] as [number, number, number]),
+    };
+    shaderEditorService = {
+      hasCachedProgram: vi.fn(() => false),
+      getCompiledProgram: vi.fn(() => ({} as WebGLProgram)),
+      getUniformLocations: vi.fn(() => new Map()),
+    };
+
+    renderer = new DeferredRenderer();
+    await renderer.initialize({
+      gl,
+      eventBus: new EventBus(),
+      lightManager: lightManager as LightManager,
+      shaderEditorService: shaderEditorService as ShaderEditorService,
+    } as unknown as IPluginContext);
+  });
+
+  function renderFrame(objects: unknown[]): void {
+    renderer.beginFrame(createCamera());
+    renderer.render(createScene(objects));
+    renderer.endFrame();
+  }
+
+  it('should compile the geometry, lighting and composite programs', () => {
+    // One more for the shadow depth pass
+    expect(gl.createProgram).toHaveBeenCalledTimes(4);
+    expect(renderer.type).toBe('deferred');
+    expect(renderer.isInitialized()).toBe(true);
+  });
+
+  it('should size the G-buffer to the drawing buffer with four color targets', () => {
+    renderFrame([new Cube()]);
+
+    expect(renderer.getGBuffer()?.getSize()).toEqual([800, 600]);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.DEPTH_COMPONENT24, 800, 600);
+    expect(gl.drawBuffers).toHaveBeenCalledWith([
+      gl.COLOR_ATTACHMENT0,
+      gl.COLOR_ATTACHMENT0 + 1,
+      gl.COLOR_ATTACHMENT0 + 2,
+      gl.COLOR_ATTACHMENT0 + 3,
+    ]);
+  });
+
+  it('should draw lit meshes into the G-buffer', () => {
+    renderFrame([new Cube(), new Cube()]);
+
+    expect(gl.drawElements).toHaveBeenCalledTimes(2);
+    expect(shaderEditorService.getCompiledProgram).not.toHaveBeenCalled();
+  });
+
+  it('should request every light and shade them in batches', () => {
+    lights = createPointLights(LIGHT_BATCH_SIZE * 2 + 3);
+
+    renderFrame([new Cube()]);
+
+    expect(lightManager.getActiveLights).toHaveBeenCalledWith(Infinity);
+    expect(renderer.getLightBatchCount()).toBe(3);
+    // Lighting batches plus the composite pass
+    expect(gl.drawArrays).toHaveBeenCalledTimes(4);
+    expect(gl.uniform1i).toHaveBeenCalledWith(expect.anything(), 3);
+  });
+
+  it('should still run one lighting draw when the scene has no lights', () => {
+    lights = [];
+
+    renderFrame([new Cube()]);
+
+    // Falls back to the default directional light
+    expect(renderer.getLightBatchCount()).toBe(1);
+  });
+
+  it('should add lighting batches additively', () => {
+    renderFrame([new Cube()]);
+
+    expect(gl.blendFunc).toHaveBeenCalledWith(gl.ONE, gl.ONE);
+    expect(gl.blendFunc).toHaveBeenLastCalledWith(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  });
+
+  it('should composite to the default framebuffer and restore depth state', () => {
+    renderFrame([new Cube()]);
+
+    expect(gl.depthFunc).toHaveBeenCalledWith(gl.ALWAYS);
+    expect(gl.depthFunc).toHaveBeenLastCalledWith(gl.LESS);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+  });
+
+  it('should size the G-buffer to a render target and composite into it', () => {
+    const framebuffer = {} as WebGLFramebuffer;
+    renderer.setRenderTarget({ framebuffer, width: 1024, height: 256 });
+
+    renderFrame([new Cube()]);
+
+    expect(renderer.getGBuffer()?.getSize()).toEqual([1024, 256]);
+    expect(gl.viewport).toHaveBeenCalledWith(0, 0, 1024, 256);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, framebuffer);
+
+    renderer.setRenderTarget(null);
+    renderFrame([new Cube()]);
+
+    expect(renderer.getGBuffer()?.getSize()).toEqual([800, 600]);
+  });
+
+  it('should keep separate G-buffers for the viewport and render targets', () => {
+    renderFrame([new Cube()]);
+    renderer.setRenderTarget({ framebuffer: {} as WebGLFramebuffer, width: 200, height: 100 });
+    renderFrame([new Cube()]);
+    renderer.setRenderTarget(null);
+    vi.mocked(gl.texStorage2D).mockClear();
+
+    renderFrame([new Cube()]);
+
+    // Switching back to the viewport does not reallocate its targets
+    expect(gl.texStorage2D).not.toHaveBeenCalled();
+  });
+
+  it('should clear to the camera background color', () => {
+    renderer.beginFrame(createCamera({ clearFlags: 'solidColor', backgroundColor: [0.2, 0.3, 0.4] }));
+
+    expect(gl.clearColor).toHaveBeenCalledWith(0.2, 0.3, 0.4, 1.0);
+  });
+
+  it('should keep the background when the camera only clears depth', () => {
+    renderer.beginFrame({ ...createCamera(), clearFlags: 'depthOnly' });
+
+    expect(gl.clear).toHaveBeenCalledWith(gl.DEPTH_BUFFER_BIT);
+    expect(gl.clearColor).not.toHaveBeenCalledWith(0.15, 0.15, 0.17, 1.0);
+  });
+
+  it('should draw unlit materials with the forward path after compositing', () => {
+    const unlit = new Cube();
+    unlit.getComponent<IMaterialComponent>('material')!.shaderName = 'unlit';
+
+    renderFrame([new Cube(), unlit]);
+
+    expect(shaderEditorService.getCompiledProgram).toHaveBeenCalledWith(BUILT_IN_SHADER_IDS.UNLIT);
+    expect(gl.drawElements).toHaveBeenCalledTimes(2);
+
+    const compositeOrder = vi.mocked(gl.drawArrays).mock.invocationCallOrder.at(-1)!;
+    const forwardOrder = vi.mocked(gl.drawElements).mock.invocationCallOrder.at(-1)!;
+    expect(forwardOrder).toBeGreaterThan(compositeOrder);
+  });
+
+  it('should resolve through the post-processing stack when float targets are available', async () => {
+    vi.mocked(gl.getExtension).mockReturnValue({});
+    const eventBus = new EventBus();
+    renderer = new DeferredRenderer();
+    await renderer.initialize({
+      gl,
+      eventBus,
+      lightManager: lightManager as LightManager,
+      shaderEditorService: shaderEditorService as ShaderEditorService,
+      settingsService: new SettingsService({ eventBus, storageKey: 'deferred-renderer-test' }),
+    } as unknown as IPluginContext);
+    const unlit = new Cube();
+    unlit.getComponent<IMaterialComponent>('material')!.shaderName = 'unlit';
+
+    renderFrame([new Cube(), unlit]);
+
+    // Lighting and composite, then bloom (prefilter and blurs), the post composite and FXAA
+    expect(gl.drawArrays).toHaveBeenCalledTimes(2 + 1 + BLOOM_BLUR_PASSES * 2 + 2);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+
+    // Forward objects are drawn before the stack resolves the frame
+    const resolveOrder = vi.mocked(gl.drawArrays).mock.invocationCallOrder.at(-1)!;
+    const forwardOrder = vi.mocked(gl.drawElements).mock.invocationCallOrder.at(-1)!;
+    expect(resolveOrder).toBeGreaterThan(forwardOrder);
+  });
+
+  it('should release GPU resources on dispose', async () => {
+    renderFrame([new Cube()]);
+
+    await renderer.dispose();
+
+    // Four shader programs, G-buffer and light buffer framebuffers plus the shadow framebuffer
+    expect(gl.deleteProgram).toHaveBeenCalledTimes(4);
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(3);
+    expect(renderer.isInitialized()).toBe(false);
+    expect(renderer.getGBuffer()).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * EnvironmentMapCache Tests
+ *
+ * Unit tests for loading, baking and caching HDRI environment maps.
+ * Uses mock WebGL context and an injected HDR decoder.
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { EnvironmentMapCache, type HDRImageDecoder } from '@plugins/renderers/environment/EnvironmentMapCache';
+import { PREFILTERED_MIP_LEVELS } from '@plugins/renderers/environment/EnvironmentMapBaker';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import { createTextureImportSettings } from '@core/assets/DefaultImportSettings';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+/**
+ * Create an HDRI texture asset with embedded data.
+ */
+function createEnvironmentAsset(uuid: string, modified = '2026-03-04T12:00:00Z'): ITextureAsset {
+  return {
+    uuid,
+    name: uuid,
+    type: 'texture',
+    version: 1,
+    created: '2026-03-04T12:00:00Z',
+    modified,
+    isBuiltIn: false,
+    source: { filename: `${uuid}.hdr`, mimeType: 'image/vnd.radiance' },
+    importSettings: createTextureImportSettings('hdri'),
+    data: new Blob([new Uint8Array([0])]),
+  };
+}
+
+/**
+ * Wait for pending decode/bake promises to settle.
+ */
+async function flushLoads(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('EnvironmentMapCache', () => {
+  let gl: WebGL2RenderingContext;
+  let decodeImage: Mock<HDRImageDecoder>;
+  let cache: EnvironmentMapCache;
+
+  beforeEach(() => {
+    gl = createMockGL();
+    decodeImage = vi.fn<HDRImageDecoder>(async () => ({ width: 128, height: 64, data: new Float32Array(128 * 64 * 3) }));
+    cache = new EnvironmentMapCache({ gl, decodeImage });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should return null while an environment is loading', () => {
+    expect(cache.getOrCreate(createEnvironmentAsset('sky'))).toBeNull();
+    expect(cache.isReady('sky')).toBe(false);
+  });
+
+  it('should bake irradiance and prefiltered maps once loaded', async () => {
+    const asset = createEnvironmentAsset('sky');
+    cache.getOrCreate(asset);
+    await flushLoads();
+
+    const maps = cache.getOrCreate(asset);
+    expect(cache.isReady('sky')).toBe(true);
+    expect(maps?.prefilteredLevels).toBe(PREFILTERED_MIP_LEVELS);
+    expect(new Set([maps?.environment, maps?.irradiance, maps?.prefiltered]).size).toBe(3);
+    // 6 faces for the environment and irradiance maps, 6 per prefiltered mip
+    expect(gl.drawArrays).toHaveBeenCalledTimes(6 * (2 + PREFILTERED_MIP_LEVELS));
+    expect(decodeImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to LDR cube maps without float render targets', async () => {
+    cache.getOrCreate(createEnvironmentAsset('sky'));
+    await flushLoads();
+
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_CUBE_MAP, expect.any(Number), gl.RGBA8, 32, 32);
+  });
+
+  it('should downsample images larger than the import max size', async () => {
+    const asset = createEnvironmentAsset('sky');
+    asset.importSettings.maxSize = 32;
+    cache.getOrCreate(asset);
+    await flushLoads();
+
+    expect(gl.texImage2D).toHaveBeenCalledWith(
+      gl.TEXTURE_2D, 0, gl.RGB16F, 32, 16, 0, gl.RGB, gl.FLOAT, expect.any(Float32Array)
+    );
+  });
+
+  it('should rebake when the asset is modified', async () => {
+    cache.getOrCreate(createEnvironmentAsset('sky'));
+    await flushLoads();
+    const previous = cache.getOrCreate(createEnvironmentAsset('sky'));
+
+    expect(cache.getOrCreate(createEnvironmentAsset('sky', '2026-03-05T12:00:00Z'))).toBeNull();
+    await flushLoads();
+
+    expect(decodeImage).toHaveBeenCalledTimes(2);
+    expect(gl.deleteTexture).toHaveBeenCalledWith(previous?.irradiance);
+    expect(gl.deleteTexture).toHaveBeenCalledWith(previous?.prefiltered);
+    expect(cache.isReady('sky')).toBe(true);
+  });
+
+  it('should mark environments that fail to decode as failed', async () => {
+    decodeImage.mockRejectedValueOnce(new Error('Not a Radiance HDR file'));
+    cache.getOrCreate(createEnvironmentAsset('broken'));
+    await flushLoads();
+
+    expect(cache.isReady('broken')).toBe(false);
+    expect(cache.getOrCreate(createEnvironmentAsset('broken'))).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith('Failed to load environment map "broken":', expect.any(Error));
+  });
+
+  it('should share one fallback cube for every map and release it on disposeAll', () => {
+    const fallback = cache.getFallback();
+
+    expect(fallback.irradiance).toBe(fallback.prefiltered);
+    expect(cache.getFallback()).toBe(fallback);
+
+    cache.disposeAll();
+    expect(gl.deleteTexture).toHaveBeenCalledWith(fallback.irradiance);
+  });
+});
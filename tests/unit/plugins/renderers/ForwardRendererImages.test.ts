@@ -0,0 +1,264 @@
+/**
+ * ForwardRenderer Image Tests
+ *
+ * Regression tests for what the forward renderer draws. Scenes are
+ * serialized to an ISceneAsset, rendered on the CPU through the software
+ * WebGL2 context and checked pixel by pixel or against golden images.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import { CameraEntity } from '@core/CameraEntity';
+import { SceneAssetFactory } from '@core/assets/SceneAssetFactory';
+import { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
+import { BUILT_IN_LAMBERT_SHADER } from '@core/assets/BuiltInShaders';
+import { createAssetReference } from '@core/assets/interfaces/IAssetReference';
+import type { IMaterialComponent, ISceneObject } from '@core/interfaces';
+import { Cube } from '@plugins/primitives/Cube';
+import { Plane } from '@plugins/primitives/Plane';
+import { Sphere } from '@plugins/primitives/Sphere';
+import { DirectionalLight } from '@plugins/lights/DirectionalLight';
+import { PointLight } from '@plugins/lights/PointLight';
+import { renderSceneAsset } from '../../../helpers/headless-render';
+import type { HeadlessRenderOptions, HeadlessRenderResult } from '../../../helpers/headless-render';
+import {
+  compareImages,
+  decodePNG,
+  encodePNG,
+  expectToMatchGolden,
+  getPixel,
+} from '../../../helpers/image-compare';
+import type { SoftwareImage } from '../../../helpers/software-gl';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+const CENTER_X = WIDTH / 2;
+const CENTER_Y = HEIGHT / 2;
+const BACKGROUND = [51, 102, 153, 255];
+
+/** Ambient color returned by LightManager */
+const AMBIENT: [number, number, number] = [0.15, 0.15, 0.2];
+
+/**
+ * Expected Lambert output for a +Z facing surface lit straight down by a
+ * white light, following lambert.frag.glsl.
+ */
+function expectedLambert(
+  baseColor: [number, number, number],
+  viewDir: [number, number, number]
+): number[] {
+  const rim = Math.pow(1 - Math.max(viewDir[2], 0), 3) * 0.15;
+  const color = baseColor.map((base, c) => Math.pow(base + base * AMBIENT[c] + rim, 1 / 2.2));
+  return [...color.map((value) => Math.round(Math.min(value, 1) * 255)), 255];
+}
+
+const expectPixelClose = (actual: number[], expected: number[], tolerance = 2): void => {
+  actual.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(tolerance));
+};
+
+function setMaterial(object: ISceneObject, material: Partial<IMaterialComponent>): void {
+  const component = (object as Cube).getComponent<IMaterialComponent>('material');
+  Object.assign(component!, material);
+}
+
+describe('ForwardRenderer images', () => {
+  let sceneGraph: SceneGraph;
+  let camera: CameraEntity;
+
+  beforeEach(() => {
+    sceneGraph = new SceneGraph(new EventBus());
+    camera = new CameraEntity({
+      position: [0, -4, 4],
+      target: [0, 0, 0],
+      fieldOfView: 60,
+      backgroundColor: [0.2, 0.4, 0.6],
+    });
+    sceneGraph.add(camera);
+  });
+
+  function add<T extends ISceneObject>(object: T): T {
+    sceneGraph.add(object);
+    return object;
+  }
+
+  function addPlane(scale: number, position: [number, number, number] = [0, 0, 0]): Plane {
+    const plane = add(new Plane());
+    plane.transform.position = position;
+    plane.transform.scale = [scale, scale, 1];
+    return plane;
+  }
+
+  function render(options: HeadlessRenderOptions = {}): Promise<HeadlessRenderResult> {
+    const scene = SceneAssetFactory.createFromSceneGraph(sceneGraph, 'Render Test');
+    return renderSceneAsset(scene, { width: WIDTH, height: HEIGHT, ...options });
+  }
+
+  it('should clear to the camera background color', async () => {
+    const { image, drawCount } = await render();
+
+    expect(drawCount).toBe(0);
+    expect(getPixel(image, 0, 0)).toEqual(BACKGROUND);
+    expect(getPixel(image, WIDTH - 1, HEIGHT - 1)).toEqual(BACKGROUND);
+  });
+
+  it('should draw unlit materials with their exact color and opacity', async () => {
+    setMaterial(addPlane(2), { shaderName: 'unlit', color: [1, 0, 0], opacity: 1 });
+
+    const { image, drawCount } = await render();
+
+    expect(drawCount).toBe(1);
+    expect(getPixel(image, CENTER_X, CENTER_Y)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(image, 0, 0)).toEqual(BACKGROUND);
+  });
+
+  it('should blend translucent unlit materials over the background', async () => {
+    setMaterial(addPlane(2), { shaderName: 'unlit', color: [1, 1, 1], opacity: 0.5 });
+
+    const { image } = await render();
+
+    expectPixelClose(getPixel(image, CENTER_X, CENTER_Y), [153, 179, 204, 191], 1);
+  });
+
+  it('should shade Lambert surfaces facing the light', async () => {
+    addPlane(2);
+    add(new DirectionalLight({ rotation: [0, 0, 0], color: [1, 1, 1], intensity: 1 }));
+
+    const { image } = await render();
+
+    const viewDir: [number, number, number] = [0, -Math.SQRT1_2, Math.SQRT1_2];
+    expectPixelClose(getPixel(image, CENTER_X, CENTER_Y), expectedLambert([0.8, 0.8, 0.8], viewDir));
+  });
+
+  it('should apply material asset parameters through the uniform setter', async () => {
+    const material = new MaterialAssetFactory().create(
+      {
+        name: 'Green',
+        shaderRef: createAssetReference(BUILT_IN_LAMBERT_SHADER.uuid, 'shader'),
+        parameters: { uBaseColor: [0.1, 0.6, 0.2] },
+      },
+      BUILT_IN_LAMBERT_SHADER
+    );
+    setMaterial(addPlane(2), { materialAssetRef: createAssetReference(material.uuid, 'material') });
+    add(new DirectionalLight({ rotation: [0, 0, 0], color: [1, 1, 1], intensity: 1 }));
+
+    const { image } = await render({ assets: [material] });
+
+    const viewDir: [number, number, number] = [0, -Math.SQRT1_2, Math.SQRT1_2];
+    expectPixelClose(getPixel(image, CENTER_X, CENTER_Y), expectedLambert([0.1, 0.6, 0.2], viewDir));
+  });
+
+  it('should hide surfaces behind nearer ones regardless of draw order', async () => {
+    // Centered on the view ray, between the camera and the far plane
+    const near = addPlane(2, [0, -1, 1]);
+    setMaterial(near, { shaderName: 'unlit', color: [0, 0, 1] });
+    const far = addPlane(2);
+    setMaterial(far, { shaderName: 'unlit', color: [1, 0, 0] });
+
+    const first = await render();
+    sceneGraph.remove(near);
+    sceneGraph.add(near);
+    const second = await render();
+
+    expect(getPixel(first.image, CENTER_X, CENTER_Y)).toEqual([0, 0, 255, 255]);
+    expect(getPixel(second.image, CENTER_X, CENTER_Y)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should cull back faces', async () => {
+    setMaterial(addPlane(2), { shaderName: 'unlit', color: [1, 0, 0] });
+    camera.setPosition(0, -4, -4);
+
+    const { image, drawCount } = await render();
+
+    expect(drawCount).toBe(1);
+    expect(getPixel(image, CENTER_X, CENTER_Y)).toEqual(BACKGROUND);
+  });
+
+  it('should clip geometry crossing the near plane', async () => {
+    // A ground plane extending behind a camera looking at the horizon
+    setMaterial(addPlane(200), { shaderName: 'unlit', color: [0, 1, 0] });
+    camera.setPosition(0, -5, 1);
+    camera.setTarget(0, 0, 1);
+
+    const { image } = await render();
+
+    expect(getPixel(image, CENTER_X, HEIGHT - 1)).toEqual([0, 255, 0, 255]);
+    expect(getPixel(image, 0, HEIGHT - 1)).toEqual([0, 255, 0, 255]);
+    expect(getPixel(image, CENTER_X, 0)).toEqual(BACKGROUND);
+  });
+
+  it('should skip draws whose program has no software implementation', async () => {
+    setMaterial(addPlane(2), { shaderName: 'pbr' });
+
+    const { image, drawCount, skippedDrawCount } = await render();
+
+    expect(drawCount).toBe(0);
+    expect(skippedDrawCount).toBe(1);
+    expect(getPixel(image, CENTER_X, CENTER_Y)).toEqual(BACKGROUND);
+  });
+
+  it('should match the golden image of lit primitives', async () => {
+    camera.setPosition(2.5, -3.2, 2);
+    addPlane(6);
+    const cube = add(new Cube());
+    cube.transform.position = [-0.8, 0, 0.5];
+    cube.transform.rotation = [0, 0, 30];
+    setMaterial(cube, { color: [0.9, 0.3, 0.2] });
+    const sphere = add(new Sphere());
+    sphere.transform.position = [0.9, 0.4, 0.5];
+    setMaterial(sphere, { color: [0.2, 0.5, 0.9] });
+    add(new DirectionalLight({ rotation: [50, -30, 180], color: [1, 0.95, 0.9], intensity: 1 }));
+    add(new PointLight({ position: [1.5, -1.5, 2], color: [1, 0.6, 0.3], intensity: 2, range: 8 }));
+
+    const { image } = await render({ width: 96, height: 72 });
+
+    expectToMatchGolden(image, 'forward-lit-primitives');
+  });
+});
+
+describe('image comparison', () => {
+  function createImage(width: number, height: number, rgba: number[]): SoftwareImage {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+    return { width, height, data };
+  }
+
+  it('should count pixels differing by more than the channel tolerance', () => {
+    const expected = createImage(4, 4, [100, 100, 100, 255]);
+    const actual = createImage(4, 4, [100, 100, 100, 255]);
+    actual.data.set([102, 100, 100, 255], 0);
+    actual.data.set([110, 100, 100, 255], 4);
+
+    const comparison = compareImages(actual, expected, { channelTolerance: 2 });
+
+    expect(comparison.differentPixels).toBe(1);
+    expect(comparison.maxChannelDifference).toBe(10);
+    expect(comparison.matches).toBe(false);
+    expect(Array.from(comparison.diff.data.subarray(4, 8))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should match when differing pixels are within the allowance', () => {
+    const expected = createImage(4, 4, [0, 0, 0, 255]);
+    const actual = createImage(4, 4, [0, 0, 0, 255]);
+    actual.data.set([255, 255, 255, 255], 0);
+
+    expect(compareImages(actual, expected, { maxDifferentPixels: 1 }).matches).toBe(true);
+  });
+
+  it('should reject images of different sizes', () => {
+    expect(() => compareImages(createImage(2, 2, [0, 0, 0, 0]), createImage(2, 3, [0, 0, 0, 0]))).toThrow(
+      'does not match'
+    );
+  });
+
+  it('should round-trip images through PNG', () => {
+    const image = createImage(3, 2, [10, 20, 30, 40]);
+    image.data.set([200, 150, 100, 255], 8);
+
+    const decoded = decodePNG(encodePNG(image));
+
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+});
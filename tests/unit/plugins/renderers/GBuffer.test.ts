@@ -0,0 +1,96 @@
+/**
+ * GBuffer Tests
+ *
+ * Unit tests for deferred render target allocation. Uses mock WebGL context.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GBuffer } from '@plugins/renderers/deferred/GBuffer';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+describe('GBuffer', () => {
+  let gl: WebGL2RenderingContext;
+
+  beforeEach(() => {
+    gl = createMockGL();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should use half-float targets when float color buffers are supported', () => {
+    vi.mocked(gl.getExtension).mockReturnValue({});
+    const gBuffer = new GBuffer(gl);
+
+    gBuffer.resize(320, 240);
+
+    expect(gBuffer.isHDR()).toBe(true);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA16F, 320, 240);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.SRGB8_ALPHA8, 320, 240);
+  });
+
+  it('should fall back to RGBA8 targets without EXT_color_buffer_float', () => {
+    const gBuffer = new GBuffer(gl);
+
+    gBuffer.resize(320, 240);
+
+    expect(gBuffer.isHDR()).toBe(false);
+    expect(gl.texStorage2D).not.toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA16F, 320, 240);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should allocate five G-buffer textures and a light buffer', () => {
+    const gBuffer = new GBuffer(gl);
+
+    gBuffer.resize(100, 50);
+
+    expect(gl.texStorage2D).toHaveBeenCalledTimes(6);
+    expect(gl.createFramebuffer).toHaveBeenCalledTimes(2);
+    expect(gBuffer.textures).not.toBeNull();
+    expect(gBuffer.lightBuffer).not.toBeNull();
+  });
+
+  it('should only reallocate when the size changes', () => {
+    const gBuffer = new GBuffer(gl);
+
+    gBuffer.resize(100, 50);
+    gBuffer.resize(100, 50);
+    expect(gl.texStorage2D).toHaveBeenCalledTimes(6);
+
+    gBuffer.resize(200, 100);
+    expect(gl.texStorage2D).toHaveBeenCalledTimes(12);
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(6);
+    expect(gBuffer.getSize()).toEqual([200, 100]);
+  });
+
+  it('should throw when a framebuffer is incomplete', () => {
+    vi.mocked(gl.checkFramebufferStatus).mockReturnValue(0);
+    const gBuffer = new GBuffer(gl);
+
+    expect(() => gBuffer.resize(100, 50)).toThrow('framebuffer incomplete');
+  });
+
+  it('should require resize before binding targets', () => {
+    const gBuffer = new GBuffer(gl);
+
+    expect(() => gBuffer.bindGeometryTargets()).toThrow();
+  });
+
+  it('should set the viewport when binding targets', () => {
+    const gBuffer = new GBuffer(gl);
+    gBuffer.resize(100, 50);
+
+    gBuffer.bindLightTarget();
+
+    expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 100, 50);
+  });
+
+  it('should delete all targets on dispose', () => {
+    const gBuffer = new GBuffer(gl);
+    gBuffer.resize(100, 50);
+
+    gBuffer.dispose();
+
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(6);
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(2);
+    expect(gBuffer.textures).toBeNull();
+  });
+});
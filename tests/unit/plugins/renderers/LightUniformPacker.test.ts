@@ -0,0 +1,77 @@
+/**
+ * LightUniformPacker Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LightUniformPacker,
+  getShadableLights,
+  getSpotConeCosines,
+} from '@plugins/renderers/shared/LightUniformPacker';
+import type { LightData } from '@core/LightManager';
+
+function createLight(overrides: Partial<LightData> = {}): LightData {
+  return {
+    lightType: 'directional',
+    direction: [0, 0, -2],
+    position: [0, 0, 0],
+    color: [1, 1, 1],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('LightUniformPacker', () => {
+  it('should pack light data into uniform arrays', () => {
+    const packer = new LightUniformPacker(4);
+
+    const count = packer.pack([
+      createLight({ color: [1, 0.5, 0.25] }),
+      createLight({ lightType: 'point', position: [1, 2, 3], range: 7 }),
+    ]);
+
+    expect(count).toBe(2);
+    expect(packer.count).toBe(2);
+    expect(Array.from(packer.directions.slice(0, 3))).toEqual([0, 0, -1]);
+    expect(Array.from(packer.colors.slice(0, 3))).toEqual([1, 0.5, 0.25]);
+    expect(Array.from(packer.positions.slice(3, 6))).toEqual([1, 2, 3]);
+    expect(Array.from(packer.types.slice(0, 2))).toEqual([0, 1]);
+    expect(packer.ranges[1]).toBe(7);
+  });
+
+  it('should pack a batch starting at an offset and clear unused slots', () => {
+    const packer = new LightUniformPacker(2);
+    const lights = [
+      createLight(),
+      createLight({ lightType: 'point' }),
+      createLight({ lightType: 'spot', spotAngle: 60 }),
+    ];
+
+    packer.pack(lights, 0);
+    expect(packer.count).toBe(2);
+
+    packer.pack(lights, 2);
+    expect(packer.count).toBe(1);
+    expect(Array.from(packer.types)).toEqual([2, 0]);
+    expect(packer.spotCones[0]).toBeCloseTo(Math.cos(Math.PI / 6));
+    expect(packer.spotCones[2]).toBe(0);
+  });
+
+  it('should pack nothing past the end of the list', () => {
+    const packer = new LightUniformPacker(2);
+
+    expect(packer.pack([createLight()], 4)).toBe(0);
+  });
+
+  it('should filter out lights without a shading model', () => {
+    const lights = getShadableLights([createLight(), createLight({ lightType: 'area' })]);
+
+    expect(lights).toHaveLength(1);
+  });
+
+  it('should keep the inner spot cone inside the outer cone', () => {
+    const [cosOuter, cosInner] = getSpotConeCosines(createLight({ spotAngle: 40, innerSpotRatio: 1 }));
+
+    expect(cosInner).toBeGreaterThan(cosOuter);
+  });
+});
@@ -34,6 +34,8 @@ function createMockGL(): WebGL2RenderingContext {
     ELEMENT_ARRAY_BUFFER: 0x8893,
     STATIC_DRAW: 0x88E4,
     FLOAT: 0x1406,
+    UNSIGNED_SHORT: 0x1403,
+    UNSIGNED_INT: 0x1405,
   } as unknown as WebGL2RenderingContext;
 }
 
@@ -115,6 +117,24 @@ describe('MeshGPUCache', () => {
       expect(resources.indexCount).toBe(3);
     });
 
+    it('should draw 16-bit indices as UNSIGNED_SHORT', () => {
+      const resources = cache.getOrCreateSolid('mesh1', createMockMeshData(), program);
+
+      expect(resources.indexType).toBe(gl.UNSIGNED_SHORT);
+    });
+
+    it('should upload and draw 32-bit indices as UNSIGNED_INT', () => {
+      const meshData = createMockMeshData();
+      meshData.indices = new Uint32Array([0, 1, 70000]);
+
+      const resources = cache.getOrCreateSolid('mesh1', meshData, program);
+
+      expect(resources.indexType).toBe(gl.UNSIGNED_INT);
+      expect(gl.bufferData).toHaveBeenCalledWith(
+        gl.ELEMENT_ARRAY_BUFFER, meshData.indices, gl.STATIC_DRAW
+      );
+    });
+
     it('should call WebGL methods for resource creation', () => {
       const meshData = createMockMeshData();
 
@@ -144,6 +164,15 @@ describe('MeshGPUCache', () => {
       expect(gl.createVertexArray).toHaveBeenCalledTimes(1);
     });
 
+    it('should recreate resources when the mesh data object changes', () => {
+      const resources1 = cache.getOrCreateSolid('mesh1', createMockMeshData(), program);
+      const resources2 = cache.getOrCreateSolid('mesh1', createMockMeshData(), program);
+
+      expect(resources2).not.toBe(resources1);
+      expect(gl.deleteVertexArray).toHaveBeenCalledWith(resources1.vao);
+      expect(cache.getSolidCacheSize()).toBe(1);
+    });
+
     it('should create separate resources for different shader programs', () => {
       const meshData = createMockMeshData();
       const otherProgram = createMockProgram('other-program');
@@ -203,6 +232,42 @@ describe('MeshGPUCache', () => {
 
       expect(resources.uvVbo).toBeUndefined();
     });
+
+    it('should upload joints as an unnormalized float attribute and weights as floats', () => {
+      const meshData = createMockMeshData();
+      meshData.joints = new Uint16Array([0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0]);
+      meshData.weights = new Float32Array([0.5, 0.5, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]);
+      vi.mocked(gl.getAttribLocation).mockImplementation((_program, name) => {
+        if (name === 'aJoints') return 7;
+        if (name === 'aWeights') return 8;
+        return -1;
+      });
+
+      const resources = cache.getOrCreateSolid('mesh1', meshData, program);
+
+      expect(resources.jointsVbo).toBeDefined();
+      expect(resources.weightsVbo).toBeDefined();
+      expect(gl.vertexAttribPointer).toHaveBeenCalledWith(7, 4, gl.UNSIGNED_SHORT, false, 0, 0);
+      expect(gl.vertexAttribPointer).toHaveBeenCalledWith(8, 4, gl.FLOAT, false, 0, 0);
+
+      cache.dispose('mesh1');
+      expect(gl.deleteBuffer).toHaveBeenCalledWith(resources.jointsVbo);
+      expect(gl.deleteBuffer).toHaveBeenCalledWith(resources.weightsVbo);
+    });
+
+    it('should skip skinning buffers when the program does not read them', () => {
+      const meshData = createMockMeshData();
+      meshData.joints = new Uint16Array(12);
+      meshData.weights = new Float32Array(12);
+      vi.mocked(gl.getAttribLocation).mockImplementation((_program, name) => (
+        name === 'aJoints' || name === 'aWeights' ? -1 : 0
+      ));
+
+      const resources = cache.getOrCreateSolid('mesh1', meshData, program);
+
+      expect(resources.jointsVbo).toBeUndefined();
+      expect(resources.weightsVbo).toBeUndefined();
+    });
   });
 
   describe('getOrCreateWireframe', () => {
@@ -235,6 +300,15 @@ describe('MeshGPUCache', () => {
       expect(resources1).toBe(resources2);
     });
 
+    it('should recreate wireframe resources when the edge data object changes', () => {
+      const resources1 = cache.getOrCreateWireframe('mesh1', createMockEdgeData(), program);
+      const resources2 = cache.getOrCreateWireframe('mesh1', createMockEdgeData(), program);
+
+      expect(resources2).not.toBe(resources1);
+      expect(gl.deleteVertexArray).toHaveBeenCalledWith(resources1.vao);
+      expect(cache.getWireframeCacheSize()).toBe(1);
+    });
+
     it('should create separate wireframe resources for different shader programs', () => {
       const edgeData = createMockEdgeData();
       const otherProgram = createMockProgram('other-program');
@@ -0,0 +1,97 @@
+/**
+ * OffscreenRenderTarget Tests
+ *
+ * Unit tests for offscreen framebuffer allocation, readback and cleanup.
+ * Uses mock WebGL context.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OffscreenRenderTarget } from '@plugins/renderers/output/OffscreenRenderTarget';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+describe('OffscreenRenderTarget', () => {
+  let gl: WebGL2RenderingContext;
+
+  beforeEach(() => {
+    gl = createMockGL();
+  });
+
+  it('should allocate RGBA8 color and 24-bit depth at the requested size', () => {
+    const target = new OffscreenRenderTarget(gl, 1920, 1080);
+
+    expect(target.width).toBe(1920);
+    expect(target.height).toBe(1080);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA8, 1920, 1080);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.DEPTH_COMPONENT24, 1920, 1080);
+    expect(gl.framebufferTexture2D).toHaveBeenCalledWith(
+      gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, expect.anything(), 0
+    );
+    expect(gl.framebufferTexture2D).toHaveBeenCalledWith(
+      gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.TEXTURE_2D, expect.anything(), 0
+    );
+  });
+
+  it('should restore the previous framebuffer binding', () => {
+    const previous = {} as WebGLFramebuffer;
+    vi.mocked(gl.getParameter).mockImplementation((pname) => (pname === gl.FRAMEBUFFER_BINDING ? previous : null));
+
+    new OffscreenRenderTarget(gl, 64, 64);
+
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, previous);
+  });
+
+  it('should reject sizes above MAX_TEXTURE_SIZE', () => {
+    vi.mocked(gl.getParameter).mockImplementation((pname) => (pname === gl.MAX_TEXTURE_SIZE ? 4096 : null));
+
+    expect(() => new OffscreenRenderTarget(gl, 8192, 1024)).toThrow('maximum texture size of 4096');
+  });
+
+  it('should reject empty sizes', () => {
+    expect(() => new OffscreenRenderTarget(gl, 0, 100)).toThrow('Invalid render target size');
+  });
+
+  it('should release resources and throw when the framebuffer is incomplete', () => {
+    vi.mocked(gl.checkFramebufferStatus).mockReturnValue(0);
+
+    expect(() => new OffscreenRenderTarget(gl, 64, 64)).toThrow('incomplete');
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read back RGBA bytes from its own framebuffer', () => {
+    const target = new OffscreenRenderTarget(gl, 4, 2);
+
+    const pixels = target.readPixels();
+
+    expect(pixels).toHaveLength(4 * 2 * 4);
+    expect(gl.bindFramebuffer).toHaveBeenCalledWith(gl.FRAMEBUFFER, target.framebuffer);
+    expect(gl.readPixels).toHaveBeenCalledWith(0, 0, 4, 2, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+  });
+
+  it('should allocate and read back half-float color when linear', () => {
+    vi.mocked(gl.getExtension).mockReturnValue({});
+    const target = new OffscreenRenderTarget(gl, 4, 2, true);
+
+    const pixels = target.readLinearPixels();
+
+    expect(target.linear).toBe(true);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA16F, 4, 2);
+    expect(gl.readPixels).toHaveBeenCalledWith(0, 0, 4, 2, gl.RGBA, gl.FLOAT, pixels);
+    expect(() => target.readPixels()).toThrow('readLinearPixels');
+  });
+
+  it('should reject linear targets without EXT_color_buffer_float', () => {
+    expect(() => new OffscreenRenderTarget(gl, 4, 2, true)).toThrow('EXT_color_buffer_float');
+  });
+
+  it('should delete its resources once on dispose', () => {
+    const target = new OffscreenRenderTarget(gl, 4, 2);
+
+    target.dispose();
+    target.dispose();
+
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(2);
+    expect(() => target.readPixels()).toThrow('disposed');
+  });
+});
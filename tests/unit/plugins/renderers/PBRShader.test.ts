@@ -12,7 +12,7 @@ import {
   PBR_VERTEX_SHADER,
   PBR_FRAGMENT_SHADER,
 } from '@plugins/renderers/shaders/pbr';
-import { GLSL_MATH, GLSL_BRDF, GLSL_LIGHTING, composeShader } from '@plugins/renderers/shaders/common';
+import { GLSL_MATH, GLSL_BRDF, GLSL_LIGHTING, GLSL_SHADOWS, GLSL_IBL, composeShader } from '@plugins/renderers/shaders/common';
 import type { IMaterialComponent } from '@core/interfaces';
 
 /**
@@ -134,6 +134,39 @@ describe('GLSL Shader Modules', () => {
     it('should export light attenuation function', () => {
       expect(GLSL_LIGHTING).toContain('float lightAttenuation(float distance, float range)');
     });
+
+    it('should export spot cone and per-type light resolution', () => {
+      expect(GLSL_LIGHTING).toContain('float spotAttenuation(vec3 L, vec3 spotDirection, vec2 cone)');
+      expect(GLSL_LIGHTING).toContain('vec4 resolveLight(');
+      expect(GLSL_LIGHTING).toContain('#define LIGHT_TYPE_SPOT 2');
+    });
+  });
+
+  describe('GLSL_SHADOWS', () => {
+    it('should declare the shadow map array and matrices', () => {
+      expect(GLSL_SHADOWS).toContain('uniform highp sampler2DArrayShadow uShadowMaps');
+      expect(GLSL_SHADOWS).toContain('uniform mat4 uShadowMatrices[MAX_SHADOW_MAPS]');
+      expect(GLSL_SHADOWS).toContain('#define MAX_SHADOW_MAPS 8');
+    });
+
+    it('should export PCF shadow lookup', () => {
+      expect(GLSL_SHADOWS).toContain('float sampleShadowLayer(int layer, vec3 worldPosition)');
+      expect(GLSL_SHADOWS).toContain('float computeShadow(vec3 shadow, vec2 bias, vec3 worldPosition, vec3 N, vec3 L)');
+    });
+  });
+
+  describe('GLSL_IBL', () => {
+    it('should declare the image-based lighting maps', () => {
+      expect(GLSL_IBL).toContain('uniform samplerCube uIrradianceMap');
+      expect(GLSL_IBL).toContain('uniform samplerCube uPrefilteredMap');
+      expect(GLSL_IBL).toContain('uniform sampler2D uBrdfLut');
+      expect(GLSL_IBL).toContain('uniform bool uUseEnvironment');
+    });
+
+    it('should fall back to the hemisphere ambient without an environment', () => {
+      expect(GLSL_IBL).toContain('vec3 ambientLighting(vec3 N, vec3 V, vec3 albedo, float metallic, float roughness, vec3 F0, vec3 ambientColor)');
+      expect(GLSL_IBL).toContain('hemisphereAmbient(N, ambientColor, ambientColor * 0.5)');
+    });
   });
 
   describe('composeShader', () => {
@@ -177,11 +210,18 @@ describe('PBR Vertex Shader', () => {
   });
 
   it('should transform position to world space', () => {
-    expect(PBR_VERTEX_SHADER).toContain('uModelMatrix * vec4(aPosition, 1.0)');
+    expect(PBR_VERTEX_SHADER).toContain('uModelMatrix * skinMatrix * vec4(aPosition, 1.0)');
   });
 
   it('should transform normal using normal matrix', () => {
-    expect(PBR_VERTEX_SHADER).toContain('uNormalMatrix * aNormal');
+    expect(PBR_VERTEX_SHADER).toContain('uNormalMatrix * mat3(skinMatrix) * aNormal');
+  });
+
+  it('should deform skinned meshes by their joint matrices', () => {
+    expect(PBR_VERTEX_SHADER).toContain('in vec4 aJoints');
+    expect(PBR_VERTEX_SHADER).toContain('in vec4 aWeights');
+    expect(PBR_VERTEX_SHADER).toContain('#include "../common/skinning.glsl"');
+    expect(PBR_VERTEX_SHADER).toContain('getSkinMatrix(aJoints, aWeights)');
   });
 });
 
@@ -223,6 +263,25 @@ describe('PBR Fragment Shader', () => {
     expect(PBR_FRAGMENT_SHADER).toContain('uniform vec3 uCameraPosition');
   });
 
+  it('should declare point and spot light uniforms', () => {
+    expect(PBR_FRAGMENT_SHADER).toContain('uniform vec3 uLightPositions[MAX_LIGHTS]');
+    expect(PBR_FRAGMENT_SHADER).toContain('uniform int uLightTypes[MAX_LIGHTS]');
+    expect(PBR_FRAGMENT_SHADER).toContain('uniform float uLightRanges[MAX_LIGHTS]');
+    expect(PBR_FRAGMENT_SHADER).toContain('uniform vec2 uLightSpotCones[MAX_LIGHTS]');
+    expect(PBR_FRAGMENT_SHADER).toContain('resolveLight(');
+  });
+
+  it('should attenuate lights by their shadow maps', () => {
+    expect(PBR_FRAGMENT_SHADER).toContain('uniform vec3 uLightShadows[MAX_LIGHTS]');
+    expect(PBR_FRAGMENT_SHADER).toContain('uniform vec2 uLightShadowBias[MAX_LIGHTS]');
+    expect(PBR_FRAGMENT_SHADER).toContain('computeShadow(');
+  });
+
+  it('should take ambient lighting from the environment map', () => {
+    expect(PBR_FRAGMENT_SHADER).toContain('#include "../common/ibl.glsl"');
+    expect(PBR_FRAGMENT_SHADER).toContain('ambientLighting(N, V, albedo, metallic, roughness, F0, uAmbientColor)');
+  });
+
   it('should define MAX_LIGHTS constant', () => {
     expect(PBR_FRAGMENT_SHADER).toContain('#define MAX_LIGHTS 8');
   });
@@ -0,0 +1,168 @@
+/**
+ * PathTracer Tests
+ *
+ * Small renders with fixed seeds: direct lighting against the forward
+ * shader's BRDF, shadowing, emission, the sky and progressive accumulation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PathTracer } from '@plugins/renderers/raytracing/PathTracer';
+import type {
+  PathTracerLight,
+  PathTracerMaterial,
+  PathTracerScene,
+  PathTracerSettings,
+} from '@plugins/renderers/raytracing/types';
+
+type Vec3 = [number, number, number];
+
+const GRAY: PathTracerMaterial = { baseColor: [0.8, 0.8, 0.8], metallic: 0, roughness: 1, emission: [0, 0, 0] };
+
+const SUN: PathTracerLight = {
+  type: 'directional',
+  direction: [0, 0, -1],
+  position: [0, 0, 0],
+  color: [1, 1, 1],
+  range: 0,
+  spotCone: [0, 0],
+};
+
+/**
+ * Horizontal square with upward normals.
+ */
+function quad(half: number, z: number): { positions: number[]; normals: number[] } {
+  return {
+    positions: [
+      -half, -half, z, half, -half, z, half, half, z,
+      -half, -half, z, half, half, z, -half, half, z,
+    ],
+    normals: Array.from({ length: 6 }, () => [0, 0, 1]).flat(),
+  };
+}
+
+function createScene(options: {
+  quads?: Array<{ half: number; z: number; material: number }>;
+  materials?: PathTracerMaterial[];
+  lights?: PathTracerLight[];
+  ambientColor?: Vec3;
+  cameraTarget?: Vec3;
+  fov?: number;
+}): PathTracerScene {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const materialIndices: number[] = [];
+
+  for (const q of options.quads ?? []) {
+    const geometry = quad(q.half, q.z);
+    positions.push(...geometry.positions);
+    normals.push(...geometry.normals);
+    materialIndices.push(q.material, q.material);
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    materialIndices: new Uint32Array(materialIndices),
+    materials: options.materials ?? [GRAY],
+    lights: options.lights ?? [SUN],
+    ambientColor: options.ambientColor ?? [0, 0, 0],
+    camera: {
+      position: [0, 0, 2],
+      target: options.cameraTarget ?? [0, 0, 0],
+      up: [0, 1, 0],
+      fov: options.fov ?? Math.PI / 3,
+    },
+  };
+}
+
+const SETTINGS: PathTracerSettings = { width: 4, height: 4, maxSamples: 4, maxBounces: 3, seed: 7 };
+
+function render(scene: PathTracerScene, settings: PathTracerSettings = SETTINGS): PathTracer {
+  const tracer = new PathTracer(scene, settings);
+  while (!tracer.isComplete()) {
+    tracer.renderSample();
+  }
+  return tracer;
+}
+
+describe('PathTracer', () => {
+  it('should match the forward BRDF for direct light at normal incidence', () => {
+    const scene = createScene({ quads: [{ half: 10, z: 0, material: 0 }], fov: 0.001 });
+    const tracer = render(scene, { width: 1, height: 1, maxSamples: 1, maxBounces: 0 });
+
+    // Rough dielectric: (kD * albedo + D * G * F / 4) / PI with D = 1/PI, G = 1, F = 0.04
+    const expected = ((1 - 0.04) * 0.8 + 0.04 / 4) / Math.PI;
+    expect(tracer.getPixelRadiance(0, 0)[0]).toBeCloseTo(expected, 3);
+  });
+
+  it('should shadow surfaces blocked from the light', () => {
+    const lit = render(createScene({ quads: [{ half: 10, z: 0, material: 0 }] }));
+    const shadowed = render(createScene({
+      quads: [
+        { half: 10, z: 0, material: 0 },
+        { half: 50, z: 5, material: 0 },
+      ],
+    }));
+
+    expect(lit.getPixelRadiance(1, 1)[0]).toBeGreaterThan(0.1);
+    expect(shadowed.getPixelRadiance(1, 1)[0]).toBeLessThan(0.01);
+  });
+
+  it('should attenuate point lights with distance', () => {
+    const pointLight = (z: number): PathTracerLight => ({ ...SUN, type: 'point', position: [0, 0, z], range: 0 });
+    const near = render(createScene({ quads: [{ half: 10, z: 0, material: 0 }], lights: [pointLight(1)] }));
+    const far = render(createScene({ quads: [{ half: 10, z: 0, material: 0 }], lights: [pointLight(1.9)] }));
+
+    expect(near.getPixelRadiance(1, 1)[0]).toBeGreaterThan(far.getPixelRadiance(1, 1)[0]);
+  });
+
+  it('should return the emission of emissive surfaces', () => {
+    const emissive: PathTracerMaterial = { baseColor: [0, 0, 0], metallic: 0, roughness: 1, emission: [2, 1, 0.5] };
+    const tracer = render(createScene({ quads: [{ half: 10, z: 0, material: 0 }], materials: [emissive], lights: [] }));
+
+    const radiance = tracer.getPixelRadiance(2, 2);
+    expect(radiance[0]).toBeCloseTo(2);
+    expect(radiance[1]).toBeCloseTo(1);
+    expect(radiance[2]).toBeCloseTo(0.5);
+  });
+
+  it('should light escaping rays with the hemisphere sky', () => {
+    const up = render(createScene({ ambientColor: [0.4, 0.4, 0.4], cameraTarget: [0, 0, 3], lights: [] }));
+    const down = render(createScene({ ambientColor: [0.4, 0.4, 0.4], lights: [] }));
+
+    expect(up.getPixelRadiance(1, 1)[0]).toBeGreaterThan(down.getPixelRadiance(1, 1)[0]);
+    expect(down.getPixelRadiance(1, 1)[0]).toBeGreaterThanOrEqual(0.2);
+  });
+
+  it('should accumulate samples progressively', () => {
+    const tracer = new PathTracer(createScene({ quads: [{ half: 10, z: 0, material: 0 }] }), SETTINGS);
+
+    expect(tracer.sampleCount).toBe(0);
+    tracer.renderSample();
+    tracer.renderSample();
+
+    expect(tracer.sampleCount).toBe(2);
+    expect(tracer.isComplete()).toBe(false);
+  });
+
+  it('should be repeatable for a fixed seed', () => {
+    const scene = () => createScene({
+      quads: [{ half: 10, z: 0, material: 0 }],
+      ambientColor: [0.3, 0.3, 0.3],
+    });
+
+    expect(Array.from(render(scene()).toRGBA())).toEqual(Array.from(render(scene()).toRGBA()));
+  });
+
+  it('should resolve to opaque 8-bit pixels', () => {
+    const pixels = render(createScene({ quads: [{ half: 10, z: 0, material: 0 }] })).toRGBA();
+
+    expect(pixels).toHaveLength(4 * 4 * 4);
+    expect(pixels[3]).toBe(255);
+    expect(pixels[0]).toBeGreaterThan(0);
+  });
+
+  it('should reject an empty image size', () => {
+    expect(() => new PathTracer(createScene({}), { ...SETTINGS, width: 0 })).toThrow('Invalid render size');
+  });
+});
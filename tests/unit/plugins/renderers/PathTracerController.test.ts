@@ -0,0 +1,113 @@
+/**
+ * PathTracerController Tests
+ *
+ * Uses a fake worker to check message handling and worker lifetime.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PathTracerController } from '@plugins/renderers/raytracing/PathTracerController';
+import type {
+  PathTracerScene,
+  PathTracerSettings,
+  PathTracerWorkerResponse,
+} from '@plugins/renderers/raytracing/types';
+
+interface FakeWorker {
+  postMessage: ReturnType<typeof vi.fn>;
+  terminate: ReturnType<typeof vi.fn>;
+  onmessage: ((event: MessageEvent<PathTracerWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+function createScene(): PathTracerScene {
+  return {
+    positions: new Float32Array(9),
+    normals: new Float32Array(9),
+    materialIndices: new Uint32Array(1),
+    materials: [{ baseColor: [1, 1, 1], metallic: 0, roughness: 1, emission: [0, 0, 0] }],
+    lights: [],
+    ambientColor: [0, 0, 0],
+    camera: { position: [0, 0, 1], target: [0, 0, 0], up: [0, 1, 0], fov: 1 },
+  };
+}
+
+const SETTINGS: PathTracerSettings = { width: 2, height: 2, maxSamples: 2, maxBounces: 1 };
+
+describe('PathTracerController', () => {
+  let workers: FakeWorker[];
+  let controller: PathTracerController;
+
+  beforeEach(() => {
+    workers = [];
+    controller = new PathTracerController({
+      createWorker: () => {
+        const worker: FakeWorker = { postMessage: vi.fn(), terminate: vi.fn(), onmessage: null, onerror: null };
+        workers.push(worker);
+        return worker as unknown as Worker;
+      },
+    });
+  });
+
+  function respond(worker: FakeWorker, data: PathTracerWorkerResponse): void {
+    worker.onmessage?.({ data } as MessageEvent<PathTracerWorkerResponse>);
+  }
+
+  it('should post the scene to a new worker, transferring its buffers', () => {
+    const scene = createScene();
+
+    controller.start(scene, SETTINGS, { onProgress: vi.fn() });
+
+    expect(controller.isRunning()).toBe(true);
+    expect(workers[0].postMessage).toHaveBeenCalledWith(
+      { type: 'start', scene, settings: SETTINGS },
+      [scene.positions.buffer, scene.normals.buffer, scene.materialIndices.buffer]
+    );
+  });
+
+  it('should forward progress and release the worker when done', () => {
+    const onProgress = vi.fn();
+    controller.start(createScene(), SETTINGS, { onProgress });
+    const pixels = new Uint8ClampedArray(16);
+
+    respond(workers[0], { type: 'progress', samples: 1, pixels, done: false });
+    expect(onProgress).toHaveBeenLastCalledWith(1, pixels, false);
+    expect(controller.isRunning()).toBe(true);
+
+    respond(workers[0], { type: 'progress', samples: 2, pixels, done: true });
+    expect(onProgress).toHaveBeenLastCalledWith(2, pixels, true);
+    expect(controller.isRunning()).toBe(false);
+    expect(workers[0].terminate).toHaveBeenCalled();
+  });
+
+  it('should stop the worker on request', () => {
+    controller.start(createScene(), SETTINGS, { onProgress: vi.fn() });
+
+    controller.stop();
+
+    expect(workers[0].postMessage).toHaveBeenLastCalledWith({ type: 'stop' });
+    expect(workers[0].terminate).toHaveBeenCalled();
+    expect(controller.isRunning()).toBe(false);
+  });
+
+  it('should replace a running render and ignore its late messages', () => {
+    const first = vi.fn();
+    controller.start(createScene(), SETTINGS, { onProgress: first });
+    controller.start(createScene(), SETTINGS, { onProgress: vi.fn() });
+
+    respond(workers[0], { type: 'progress', samples: 1, pixels: new Uint8ClampedArray(16), done: false });
+
+    expect(workers).toHaveLength(2);
+    expect(workers[0].terminate).toHaveBeenCalled();
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  it('should report worker errors and stop', () => {
+    const onError = vi.fn();
+    controller.start(createScene(), SETTINGS, { onProgress: vi.fn(), onError });
+
+    respond(workers[0], { type: 'error', message: 'boom' });
+
+    expect(onError).toHaveBeenCalledWith('boom');
+    expect(controller.isRunning()).toBe(false);
+  });
+});
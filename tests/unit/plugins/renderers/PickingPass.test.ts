@@ -0,0 +1,132 @@
+/**
+ * PickingPass Tests
+ *
+ * Unit tests for the ID-buffer picking pass: pick matrix, id encoding and
+ * the pick flow against a mock WebGL context.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PickingPass,
+  decodePickId,
+  encodePickId,
+  getPickMatrix,
+  type PickDrawItem,
+} from '@plugins/renderers/picking';
+import type { IMeshData } from '@core/interfaces';
+import { mat4Identity } from '@utils/math';
+import { createMockGL } from '../../../helpers/webgl-mock';
+import { createCamera } from '../../../helpers/camera';
+
+/**
+ * Create a single-triangle draw item.
+ */
+function createDrawItem(id: string): PickDrawItem {
+  const meshData: IMeshData = {
+    positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+    normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+    indices: new Uint16Array([0, 1, 2]),
+    bounds: { min: [0, 0, 0], max: [1, 1, 0] },
+  };
+  return { id, meshData, modelMatrix: mat4Identity() };
+}
+
+/**
+ * Make readPixels return the given pick id.
+ */
+function mockPickedId(gl: WebGL2RenderingContext, id: number): void {
+  vi.mocked(gl.readPixels).mockImplementation((...args: unknown[]) => {
+    (args[6] as Uint8Array).set(id > 0 ? encodePickId(id) : [0, 0, 0, 0]);
+  });
+}
+
+describe('PickingPass', () => {
+  describe('getPickMatrix', () => {
+    it('should map the picked pixel onto the whole clip space', () => {
+      const m = getPickMatrix(30, 10, 40, 20);
+
+      // Pixel (30, 10) is centered at NDC (0.525, -0.05)
+      const centerX = m[0] * 0.525 + m[12];
+      const centerY = m[5] * -0.05 + m[13];
+      expect(centerX).toBeCloseTo(0);
+      expect(centerY).toBeCloseTo(0);
+
+      // The pixel's right edge lands on the clip space edge
+      expect(m[0] * (0.525 + 1 / 40) + m[12]).toBeCloseTo(1);
+    });
+  });
+
+  describe('pick ids', () => {
+    it('should round-trip ids through RGBA8', () => {
+      for (const id of [1, 255, 256, 70000, 0xfffffe]) {
+        expect(decodePickId(encodePickId(id))).toBe(id);
+      }
+    });
+
+    it('should decode cleared pixels as nothing', () => {
+      expect(decodePickId([0, 0, 0, 0])).toBe(0);
+    });
+  });
+
+  describe('pick', () => {
+    let gl: WebGL2RenderingContext;
+    let pass: PickingPass;
+
+    beforeEach(() => {
+      gl = createMockGL();
+      pass = new PickingPass(gl);
+    });
+
+    it('should return the id of the item under the pixel', () => {
+      mockPickedId(gl, 2);
+
+      const id = pass.pick(createCamera(), [createDrawItem('a'), createDrawItem('b')], 5, 5, 100, 100);
+
+      expect(id).toBe('b');
+      expect(gl.drawElements).toHaveBeenCalledTimes(2);
+      expect(gl.uniform4f).toHaveBeenLastCalledWith(expect.anything(), 2 / 255, 0, 0, 1);
+    });
+
+    it('should return null when no mesh covers the pixel', () => {
+      mockPickedId(gl, 0);
+
+      expect(pass.pick(createCamera(), [createDrawItem('a')], 5, 5, 100, 100)).toBeNull();
+    });
+
+    it('should not render for pixels outside the viewport', () => {
+      expect(pass.pick(createCamera(), [createDrawItem('a')], 100, 5, 100, 100)).toBeNull();
+      expect(gl.drawElements).not.toHaveBeenCalled();
+    });
+
+    it('should render into a 1x1 target and restore the viewport', () => {
+      mockPickedId(gl, 1);
+
+      pass.pick(createCamera(), [createDrawItem('a')], 5, 5, 100, 80);
+
+      expect(gl.viewport).toHaveBeenCalledWith(0, 0, 1, 1);
+      expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 100, 80);
+      expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+    });
+
+    it('should upload joint matrices for skinned items', () => {
+      mockPickedId(gl, 1);
+      const item = { ...createDrawItem('a'), jointMatrices: mat4Identity() };
+
+      pass.pick(createCamera(), [item], 5, 5, 100, 100);
+
+      expect(gl.texImage2D).toHaveBeenCalledWith(
+        gl.TEXTURE_2D, 0, gl.RGBA32F, 4, 1, 0, gl.RGBA, gl.FLOAT, expect.any(Float32Array)
+      );
+    });
+
+    it('should release GPU meshes of items that are gone', () => {
+      mockPickedId(gl, 0);
+      pass.pick(createCamera(), [createDrawItem('a')], 5, 5, 100, 100);
+      vi.mocked(gl.deleteVertexArray).mockClear();
+
+      pass.pick(createCamera(), [], 5, 5, 100, 100);
+
+      expect(gl.deleteVertexArray).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * PostProcessStack Tests
+ *
+ * Unit tests for post-processing target management and pass ordering.
+ * Uses mock WebGL context.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PostProcessStack, BLOOM_BLUR_PASSES } from '@plugins/renderers/postprocess/PostProcessStack';
+import type { PostProcessFrame } from '@plugins/renderers/postprocess/PostProcessStack';
+import type { RendererSettings } from '@core/SettingsService';
+import { Camera } from '@core/Camera';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+function createSettings(overrides: Partial<RendererSettings> = {}): RendererSettings {
+  return {
+    exposure: 1,
+    toneMapping: true,
+    bloom: false,
+    bloomThreshold: 1,
+    bloomIntensity: 0.6,
+    ssao: false,
+    ssaoRadius: 0.5,
+    ssaoIntensity: 1.5,
+    fxaa: false,
+    colorGrading: false,
+    contrast: 1,
+    saturation: 1,
+    temperature: 0,
+    ...overrides,
+  };
+}
+
+describe('PostProcessStack', () => {
+  let gl: WebGL2RenderingContext;
+  let camera: Camera;
+
+  const frame = (settings: RendererSettings, output: WebGLFramebuffer | null = null): PostProcessFrame => ({
+    output,
+    camera,
+    settings,
+    background: 'color',
+  });
+
+  beforeEach(() => {
+    gl = createMockGL();
+    vi.mocked(gl.getExtension).mockReturnValue({});
+    camera = new Camera();
+  });
+
+  it('should be unsupported without EXT_color_buffer_float', () => {
+    vi.mocked(gl.getExtension).mockReturnValue(null);
+
+    expect(new PostProcessStack(gl).isSupported()).toBe(false);
+  });
+
+  it('should bind a half-float scene target sized to the output', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.beginScene(320, 240, false);
+
+    expect(stack.sceneFramebuffer).not.toBeNull();
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, stack.sceneFramebuffer);
+    expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 320, 240);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA16F, 320, 240);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.DEPTH_COMPONENT24, 320, 240);
+  });
+
+  it('should keep separate targets for viewport and offscreen outputs', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.beginScene(320, 240, false);
+    const viewportFramebuffer = stack.sceneFramebuffer;
+    stack.resolve(frame(createSettings()));
+
+    stack.beginScene(64, 64, true);
+    const offscreenFramebuffer = stack.sceneFramebuffer;
+    stack.resolve(frame(createSettings()));
+
+    vi.mocked(gl.texStorage2D).mockClear();
+    stack.beginScene(320, 240, false);
+
+    expect(offscreenFramebuffer).not.toBe(viewportFramebuffer);
+    expect(stack.sceneFramebuffer).toBe(viewportFramebuffer);
+    expect(gl.texStorage2D).not.toHaveBeenCalled();
+  });
+
+  it('should composite straight to the output when every effect is off', () => {
+    const stack = new PostProcessStack(gl);
+    const output = {} as WebGLFramebuffer;
+
+    stack.beginScene(100, 100, true);
+    stack.resolve(frame(createSettings(), output));
+
+    expect(gl.drawArrays).toHaveBeenCalledTimes(1);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, output);
+    expect(stack.sceneFramebuffer).toBeNull();
+  });
+
+  it('should add bloom and FXAA passes when enabled', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.beginScene(100, 100, false);
+    stack.resolve(frame(createSettings({ bloom: true, fxaa: true })));
+
+    // Prefilter, horizontal + vertical blurs, composite, FXAA
+    expect(gl.drawArrays).toHaveBeenCalledTimes(1 + BLOOM_BLUR_PASSES * 2 + 2);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+  });
+
+  it('should add an SSAO pass and its blur when enabled', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.beginScene(100, 100, false);
+    stack.resolve(frame(createSettings({ ssao: true })));
+
+    // SSAO, horizontal + vertical blur, composite
+    expect(gl.drawArrays).toHaveBeenCalledTimes(4);
+  });
+
+  it('should write linear color without FXAA to a linear output', () => {
+    vi.mocked(gl.getUniformLocation).mockImplementation((_program, name) => ({ name }) as WebGLUniformLocation);
+    const stack = new PostProcessStack(gl);
+    const output = {} as WebGLFramebuffer;
+
+    stack.beginScene(100, 100, true);
+    stack.resolve({ ...frame(createSettings({ fxaa: true }), output), linearOutput: true });
+
+    // Composite only
+    expect(gl.drawArrays).toHaveBeenCalledTimes(1);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, output);
+    expect(gl.uniform1i).toHaveBeenCalledWith({ name: 'uLinearOutput' }, 1);
+  });
+
+  it('should restore the renderer pipeline state after resolving', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.beginScene(100, 100, false);
+    stack.resolve(frame(createSettings({ fxaa: true })));
+
+    expect(gl.depthFunc).toHaveBeenLastCalledWith(gl.LESS);
+    expect(gl.enable).toHaveBeenCalledWith(gl.CULL_FACE);
+    expect(gl.enable).toHaveBeenCalledWith(gl.BLEND);
+    expect(gl.blendFunc).toHaveBeenLastCalledWith(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  });
+
+  it('should do nothing when resolving without beginScene', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.resolve(frame(createSettings({ bloom: true, fxaa: true })));
+
+    expect(gl.drawArrays).not.toHaveBeenCalled();
+  });
+
+  it('should release targets and programs on dispose', () => {
+    const stack = new PostProcessStack(gl);
+
+    stack.beginScene(100, 100, false);
+    stack.resolve(frame(createSettings()));
+    stack.dispose();
+
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(6);
+    expect(gl.deleteProgram).toHaveBeenCalledTimes(5);
+    expect(stack.sceneFramebuffer).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * RenderOutputService Tests
+ *
+ * Unit tests for offline still rendering through a render pipeline and
+ * saving the result. Uses mock WebGL context and a recording pipeline.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RenderOutputService } from '@plugins/renderers/output/RenderOutputService';
+import type { RenderOutputImage, RenderOutputSettings } from '@plugins/renderers/output/RenderOutputService';
+import { CameraEntity } from '@core/CameraEntity';
+import type { IRenderPipeline, IRenderTarget, IScene } from '@core/interfaces';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+function createPipeline(): IRenderPipeline {
+  return {
+    id: 'test-pipeline',
+    name: 'Test Pipeline',
+    version: '1.0.0',
+    type: 'forward',
+    initialize: vi.fn(),
+    dispose: vi.fn(),
+    beginFrame: vi.fn(),
+    render: vi.fn(),
+    endFrame: vi.fn(),
+    resize: vi.fn(),
+    setRenderTarget: vi.fn(),
+  } as unknown as IRenderPipeline;
+}
+
+const scene: IScene = {
+  traverse: () => {},
+  getRenderables: () => [],
+};
+
+describe('RenderOutputService', () => {
+  let gl: WebGL2RenderingContext;
+  let pipeline: IRenderPipeline;
+  let service: RenderOutputService;
+  let settings: RenderOutputSettings;
+
+  const previousFramebuffer = {} as WebGLFramebuffer;
+  const previousViewport = new Int32Array([0, 0, 800, 600]);
+
+  beforeEach(() => {
+    gl = createMockGL();
+    vi.mocked(gl.getParameter).mockImplementation((pname) => {
+      if (pname === gl.FRAMEBUFFER_BINDING) return previousFramebuffer;
+      if (pname === gl.VIEWPORT) return previousViewport;
+      return null;
+    });
+    pipeline = createPipeline();
+    service = new RenderOutputService({ gl, scene, getPipeline: () => pipeline });
+    settings = { width: 40, height: 20, camera: new CameraEntity(), supersampling: 1, format: 'exr' };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should render one frame of the scene into a target of the output size', async () => {
+    const image = await service.render(settings);
+
+    const target = vi.mocked(pipeline.setRenderTarget).mock.calls[0][0] as IRenderTarget;
+    expect(target.width).toBe(40);
+    expect(target.height).toBe(20);
+    expect(pipeline.render).toHaveBeenCalledWith(scene);
+    expect(pipeline.endFrame).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(pipeline.beginFrame).mock.calls[0][0].aspect).toBe(2);
+
+    expect(image).toMatchObject({ width: 40, height: 20, format: 'exr' });
+    expect(image.blob.type).toBe('image/x-exr');
+  });
+
+  it('should render supersampled images at the larger size', async () => {
+    const image = await service.render({ ...settings, supersampling: 4 });
+
+    const target = vi.mocked(pipeline.setRenderTarget).mock.calls[0][0] as IRenderTarget;
+    expect(target.width).toBe(160);
+    expect(target.height).toBe(80);
+    expect(gl.readPixels).toHaveBeenCalledWith(0, 0, 160, 80, gl.RGBA, gl.UNSIGNED_BYTE, expect.any(Uint8Array));
+    expect(image.width).toBe(40);
+  });
+
+  it('should render EXR files from a linear half-float target', async () => {
+    vi.mocked(gl.getExtension).mockReturnValue({});
+    vi.mocked(gl.readPixels).mockImplementation((...args: unknown[]) => {
+      (args[6] as Float32Array).fill(4);
+    });
+
+    const image = await service.render(settings);
+
+    const target = vi.mocked(pipeline.setRenderTarget).mock.calls[0][0] as IRenderTarget;
+    expect(target.linear).toBe(true);
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA16F, 40, 20);
+    expect(gl.readPixels).toHaveBeenCalledWith(0, 0, 40, 20, gl.RGBA, gl.FLOAT, expect.any(Float32Array));
+
+    // Radiance above 1 survives; the file ends with the last pixel's red channel
+    const bytes = new DataView(await image.blob.arrayBuffer());
+    expect(bytes.getFloat32(bytes.byteLength - 4, true)).toBe(4);
+  });
+
+  it('should render PNG files from a display target', async () => {
+    vi.mocked(gl.getExtension).mockReturnValue({});
+    // jsdom has no 2D canvas, so PNG encoding fails after the render
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+
+    await expect(service.render({ ...settings, format: 'png' })).rejects.toThrow('2D canvas');
+
+    getContext.mockRestore();
+    expect(gl.texStorage2D).toHaveBeenCalledWith(gl.TEXTURE_2D, 1, gl.RGBA8, 40, 20);
+  });
+
+  it('should restore the viewport state and release the target afterwards', async () => {
+    await service.render(settings);
+
+    expect(pipeline.setRenderTarget).toHaveBeenLastCalledWith(null);
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, previousFramebuffer);
+    expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 800, 600);
+  });
+
+  it('should restore state when the pipeline throws', async () => {
+    vi.mocked(pipeline.render).mockImplementation(() => {
+      throw new Error('draw failed');
+    });
+
+    await expect(service.render(settings)).rejects.toThrow('draw failed');
+    expect(pipeline.setRenderTarget).toHaveBeenLastCalledWith(null);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, previousFramebuffer);
+  });
+
+  it('should reject an empty output size without rendering', async () => {
+    await expect(service.render({ ...settings, width: 0 })).rejects.toThrow('Invalid output size');
+    expect(pipeline.beginFrame).not.toHaveBeenCalled();
+  });
+
+  describe('save', () => {
+    const image: RenderOutputImage = {
+      blob: new Blob(['exr'], { type: 'image/x-exr' }),
+      width: 40,
+      height: 20,
+      format: 'exr',
+    };
+
+    it('should write through a save file picker', async () => {
+      const writable = { write: vi.fn(), close: vi.fn() };
+      const showSaveFilePicker = vi.fn(async () => ({ createWritable: async () => writable }));
+      vi.stubGlobal('showSaveFilePicker', showSaveFilePicker);
+
+      const result = await service.save(image, 'My Scene');
+
+      expect(result).toEqual({ success: true });
+      expect(showSaveFilePicker).toHaveBeenCalledWith(expect.objectContaining({ suggestedName: 'My_Scene.exr' }));
+      expect(writable.write).toHaveBeenCalledWith(image.blob);
+      expect(writable.close).toHaveBeenCalled();
+    });
+
+    it('should report a cancelled save dialog', async () => {
+      vi.stubGlobal('showSaveFilePicker', vi.fn(async () => {
+        throw new DOMException('cancelled', 'AbortError');
+      }));
+
+      expect(await service.save(image, 'Scene')).toEqual({ success: false, cancelled: true });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * ShadowMapPass Tests
+ *
+ * Unit tests for shadow map layer allocation, light matrices and resource
+ * management. Uses mock WebGL context.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ShadowMapPass,
+  MAX_SHADOW_MAPS,
+  SHADOW_CASCADE_COUNT,
+  type ShadowDrawItem,
+} from '@plugins/renderers/forward/ShadowMapPass';
+import { MeshGPUCache } from '@plugins/renderers/shared/MeshGPUCache';
+import type { IMeshData } from '@core/interfaces';
+import type { LightData } from '@core/LightManager';
+import { mat4Identity } from '@utils/math';
+import { createMockGL } from '../../../helpers/webgl-mock';
+import { createCamera } from '../../../helpers/camera';
+
+/**
+ * Create light data with shadows enabled.
+ */
+function createLight(overrides: Partial<LightData> = {}): LightData {
+  return {
+    lightType: 'directional',
+    direction: [0, 0, -1],
+    position: [0, 0, 0],
+    color: [1, 1, 1],
+    enabled: true,
+    castShadows: true,
+    shadowStrength: 1,
+    shadowBias: 0.05,
+    shadowNormalBias: 0.02,
+    shadowResolution: 1024,
+    ...overrides,
+  };
+}
+
+/**
+ * Create a single-triangle draw item.
+ */
+function createDrawItem(): ShadowDrawItem {
+  const meshData: IMeshData = {
+    positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+    normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+    indices: new Uint16Array([0, 1, 2]),
+    bounds: { min: [0, 0, 0], max: [1, 1, 0] },
+  };
+  return { id: 'mesh-1', meshData, modelMatrix: mat4Identity() };
+}
+
+/**
+ * Transform a point by a column-major matrix with perspective divide.
+ */
+function project(m: Float32Array, p: [number, number, number]): [number, number, number] {
+  const x = m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12];
+  const y = m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13];
+  const z = m[2] * p[0] + m[6] * p[1] + m[10] * p[2] + m[14];
+  const w = m[3] * p[0] + m[7] * p[1] + m[11] * p[2] + m[15];
+  return [x / w, y / w, z / w];
+}
+
+describe('ShadowMapPass', () => {
+  let gl: WebGL2RenderingContext;
+  let pass: ShadowMapPass;
+
+  beforeEach(() => {
+    gl = createMockGL();
+    pass = new ShadowMapPass(gl, new MeshGPUCache(gl));
+  });
+
+  it('should keep a 1x1 placeholder map when no light casts shadows', () => {
+    pass.render(createCamera(), [createLight({ castShadows: false })], [createDrawItem()]);
+
+    const uniforms = pass.getUniforms();
+    expect(pass.getTextureSize()).toBe(1);
+    expect(pass.getLayerCount()).toBe(1);
+    expect(Array.from(uniforms.lightShadows).every((v) => v === 0)).toBe(true);
+    expect(gl.drawElements).not.toHaveBeenCalled();
+  });
+
+  it('should allocate cascades for a directional light', () => {
+    pass.render(createCamera(), [createLight({ shadowStrength: 0.75 })], [createDrawItem()]);
+
+    const { lightShadows, lightShadowBias } = pass.getUniforms();
+    expect(Array.from(lightShadows.slice(0, 3))).toEqual([0, SHADOW_CASCADE_COUNT, 0.75]);
+    expect(lightShadowBias[0]).toBeCloseTo(0.05);
+    expect(lightShadowBias[1]).toBeCloseTo(0.02);
+    expect(pass.getLayerCount()).toBe(SHADOW_CASCADE_COUNT);
+    expect(gl.texStorage3D).toHaveBeenLastCalledWith(
+      gl.TEXTURE_2D_ARRAY, 1, gl.DEPTH_COMPONENT32F, 1024, 1024, SHADOW_CASCADE_COUNT
+    );
+    expect(gl.drawElements).toHaveBeenCalledTimes(SHADOW_CASCADE_COUNT);
+  });
+
+  it('should give spot lights one layer after earlier lights', () => {
+    pass.render(createCamera(), [
+      createLight(),
+      createLight({ lightType: 'point', position: [1, 1, 1], range: 10 }),
+      createLight({ lightType: 'spot', position: [0, 0, 5], range: 10, spotAngle: 60, shadowResolution: 2048 }),
+    ], []);
+
+    const { lightShadows } = pass.getUniforms();
+    expect(lightShadows[4]).toBe(0);
+    expect(Array.from(lightShadows.slice(6, 9))).toEqual([SHADOW_CASCADE_COUNT, 1, 1]);
+    expect(pass.getLayerCount()).toBe(SHADOW_CASCADE_COUNT + 1);
+    expect(pass.getTextureSize()).toBe(2048);
+  });
+
+  it('should leave lights unshadowed once the layer budget is used', () => {
+    const lights = Array.from({ length: 4 }, () => createLight());
+    pass.render(createCamera(), lights, []);
+
+    const fitting = Math.floor(MAX_SHADOW_MAPS / SHADOW_CASCADE_COUNT);
+    const { lightShadows } = pass.getUniforms();
+    expect(lightShadows[(fitting - 1) * 3 + 1]).toBe(SHADOW_CASCADE_COUNT);
+    expect(lightShadows[fitting * 3 + 1]).toBe(0);
+    expect(pass.getLayerCount()).toBe(fitting * SHADOW_CASCADE_COUNT);
+  });
+
+  it('should clamp the resolution to the maximum texture size', () => {
+    vi.mocked(gl.getParameter).mockImplementation((pname: number) => (pname === gl.MAX_TEXTURE_SIZE ? 512 : null));
+    pass = new ShadowMapPass(gl, new MeshGPUCache(gl));
+
+    pass.render(createCamera(), [createLight({ shadowResolution: 4096 })], []);
+
+    expect(pass.getTextureSize()).toBe(512);
+  });
+
+  it('should map points inside a spot cone into shadow texture space', () => {
+    pass.render(createCamera(), [
+      createLight({ lightType: 'spot', position: [0, 0, 5], direction: [0, 0, -1], range: 10, spotAngle: 60 }),
+    ], []);
+
+    const matrix = pass.getUniforms().shadowMatrices.slice(0, 16);
+    const near = project(matrix, [0, 0, 4]);
+    const far = project(matrix, [0.5, 0.5, 0]);
+
+    for (const coord of [...near, ...far]) {
+      expect(coord).toBeGreaterThanOrEqual(0);
+      expect(coord).toBeLessThanOrEqual(1);
+    }
+    expect(near[0]).toBeCloseTo(0.5);
+    expect(near[1]).toBeCloseTo(0.5);
+    expect(far[2]).toBeGreaterThan(near[2]);
+  });
+
+  it('should cover the camera focus with the first cascade', () => {
+    pass.render(createCamera(), [createLight({ direction: [0.3, 0.2, -1] })], []);
+
+    const matrix = pass.getUniforms().shadowMatrices.slice(0, 16);
+    const coord = project(matrix, [0, -8, 4]);
+
+    for (const c of coord) {
+      expect(c).toBeGreaterThanOrEqual(0);
+      expect(c).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should upload joint matrices for skinned items', () => {
+    const item = { ...createDrawItem(), jointMatrices: mat4Identity() };
+
+    pass.render(createCamera(), [createLight()], [item]);
+
+    expect(gl.uniform1i).toHaveBeenCalledWith(expect.anything(), 1);
+    expect(gl.texImage2D).toHaveBeenCalledWith(
+      gl.TEXTURE_2D, 0, gl.RGBA32F, 4, 1, 0, gl.RGBA, gl.FLOAT, expect.any(Float32Array)
+    );
+  });
+
+  it('should draw unskinned items without joint matrices', () => {
+    pass.render(createCamera(), [createLight()], [createDrawItem()]);
+
+    expect(gl.uniform1i).toHaveBeenCalledWith(expect.anything(), 0);
+    expect(gl.texImage2D).not.toHaveBeenCalled();
+  });
+
+  it('should restore cull state after drawing', () => {
+    pass.render(createCamera(), [createLight()], [createDrawItem()]);
+
+    expect(gl.disable).toHaveBeenCalledWith(gl.CULL_FACE);
+    expect(gl.enable).toHaveBeenLastCalledWith(gl.CULL_FACE);
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+  });
+
+  it('should delete GPU resources on dispose', () => {
+    pass.dispose();
+
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(1);
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+    expect(gl.deleteProgram).toHaveBeenCalledTimes(1);
+    expect(pass.getLayerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * TextureGPUCache Tests
+ *
+ * Unit tests for texture decoding, upload and caching.
+ * Uses mock WebGL context and an injected image decoder.
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { TextureGPUCache, type TextureImageDecoder } from '@plugins/renderers/shared/TextureGPUCache';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import type { ITextureImportSettings } from '@core/assets/interfaces/ITextureAssetMeta';
+import { createDefaultTextureImportSettings } from '@core/assets/DefaultImportSettings';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+/**
+ * Create a texture asset with embedded data.
+ */
+function createTextureAsset(
+  uuid: string,
+  settings: Partial<ITextureImportSettings> = {}
+): ITextureAsset {
+  return {
+    uuid,
+    name: uuid,
+    type: 'texture',
+    version: 1,
+    created: '2026-03-04T12:00:00Z',
+    modified: '2026-03-04T12:00:00Z',
+    isBuiltIn: false,
+    source: { filename: `${uuid}.png`, mimeType: 'image/png' },
+    importSettings: { ...createDefaultTextureImportSettings(), ...settings },
+    data: new Blob([new Uint8Array([0])], { type: 'image/png' }),
+  };
+}
+
+/**
+ * Wait for pending decode/upload promises to settle.
+ */
+async function flushLoads(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('TextureGPUCache', () => {
+  let gl: WebGL2RenderingContext;
+  let decodeImage: Mock<TextureImageDecoder>;
+  let cache: TextureGPUCache;
+
+  beforeEach(() => {
+    gl = createMockGL();
+    decodeImage = vi.fn<TextureImageDecoder>(async () => ({ width: 4, height: 4, close: vi.fn() }) as unknown as ImageBitmap);
+    cache = new TextureGPUCache({ gl, decodeImage });
+  });
+
+  it('should return the fallback texture while an image is loading', () => {
+    const texture = cache.getOrCreate(createTextureAsset('tex-1'));
+
+    expect(texture).toBe(cache.getFallback());
+    expect(cache.isReady('tex-1')).toBe(false);
+  });
+
+  it('should upload the decoded image once loaded', async () => {
+    const asset = createTextureAsset('tex-1');
+    cache.getOrCreate(asset);
+    await flushLoads();
+
+    expect(cache.isReady('tex-1')).toBe(true);
+    expect(cache.getOrCreate(asset)).not.toBe(cache.getFallback());
+    expect(decodeImage).toHaveBeenCalledTimes(1);
+    expect(decodeImage).toHaveBeenCalledWith(asset.data, asset.importSettings);
+  });
+
+  it('should use an sRGB internal format for color textures', async () => {
+    cache.getOrCreate(createTextureAsset('srgb', { sRGB: true }));
+    cache.getOrCreate(createTextureAsset('linear', { sRGB: false }));
+    await flushLoads();
+
+    const formats = (vi.mocked(gl.texImage2D).mock.calls as unknown[][])
+      .filter((call) => call.length === 6)
+      .map((call) => call[2]);
+    expect(formats).toEqual([gl.SRGB8_ALPHA8, gl.RGBA8]);
+  });
+
+  it('should map wrap and filter settings to sampler parameters', async () => {
+    cache.getOrCreate(createTextureAsset('tex-1', {
+      wrapModeU: 'clamp',
+      wrapModeV: 'mirror',
+      filterMode: 'point',
+      generateMipMaps: true,
+    }));
+    await flushLoads();
+
+    expect(gl.texParameteri).toHaveBeenCalledWith(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    expect(gl.texParameteri).toHaveBeenCalledWith(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.MIRRORED_REPEAT);
+    expect(gl.texParameteri).toHaveBeenCalledWith(
+      gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST_MIPMAP_NEAREST
+    );
+    expect(gl.texParameteri).toHaveBeenCalledWith(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    expect(gl.generateMipmap).toHaveBeenCalledWith(gl.TEXTURE_2D);
+  });
+
+  it('should skip mipmap generation when disabled', async () => {
+    cache.getOrCreate(createTextureAsset('tex-1', {
+      generateMipMaps: false,
+      filterMode: 'trilinear',
+    }));
+    await flushLoads();
+
+    expect(gl.generateMipmap).not.toHaveBeenCalled();
+    expect(gl.texParameteri).toHaveBeenCalledWith(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  });
+
+  it('should load project textures through the source loader', async () => {
+    const loadSource = vi.fn(async () => new Blob([new Uint8Array([1])]));
+    cache = new TextureGPUCache({ gl, decodeImage, loadSource });
+
+    const asset = createTextureAsset('tex-1');
+    delete asset.data;
+    asset.source.projectPath = 'sources/textures/tex-1.png';
+
+    cache.getOrCreate(asset);
+    await flushLoads();
+
+    expect(loadSource).toHaveBeenCalledWith(asset);
+    expect(cache.isReady('tex-1')).toBe(true);
+  });
+
+  it('should keep the fallback when the source cannot be loaded', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const asset = createTextureAsset('tex-1');
+    delete asset.data;
+
+    cache.getOrCreate(asset);
+    await flushLoads();
+
+    expect(cache.isReady('tex-1')).toBe(false);
+    expect(cache.getOrCreate(asset)).toBe(cache.getFallback());
+    expect(decodeImage).not.toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('should reload when the asset is modified', async () => {
+    const asset = createTextureAsset('tex-1');
+    cache.getOrCreate(asset);
+    await flushLoads();
+
+    cache.getOrCreate({ ...asset, modified: '2026-03-05T12:00:00Z' });
+    await flushLoads();
+
+    expect(decodeImage).toHaveBeenCalledTimes(2);
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discard a load that completes after dispose', async () => {
+    cache.getOrCreate(createTextureAsset('tex-1'));
+    cache.dispose('tex-1');
+    await flushLoads();
+
+    // Only the 1x1 fallback was uploaded
+    expect(cache.isReady('tex-1')).toBe(false);
+    expect(gl.texImage2D).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete all textures including the fallback on disposeAll', async () => {
+    cache.getOrCreate(createTextureAsset('tex-1'));
+    cache.getOrCreate(createTextureAsset('tex-2'));
+    await flushLoads();
+
+    cache.disposeAll();
+
+    // Two uploaded textures + the fallback
+    expect(gl.deleteTexture).toHaveBeenCalledTimes(3);
+    expect(cache.isReady('tex-1')).toBe(false);
+  });
+});
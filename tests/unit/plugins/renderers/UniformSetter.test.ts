@@ -5,9 +5,34 @@ import { AssetRegistry } from '@core/assets/AssetRegistry';
 import type { IShaderAsset } from '@core/assets/interfaces/IShaderAsset';
 import type { IMaterialAsset } from '@core/assets/interfaces/IMaterialAsset';
 import type { ShaderEditorService } from '@core/ShaderEditorService';
-import { UniformSetter } from '@plugins/renderers/forward/UniformSetter';
+import type { ITextureAsset } from '@core/assets/interfaces/ITextureAsset';
+import {
+  UniformSetter,
+  SHADOW_MAP_TEXTURE_UNIT,
+  JOINT_MATRIX_TEXTURE_UNIT,
+  IRRADIANCE_MAP_TEXTURE_UNIT,
+  PREFILTERED_MAP_TEXTURE_UNIT,
+  BRDF_LUT_TEXTURE_UNIT,
+} from '@plugins/renderers/forward/UniformSetter';
+import type { ShadowUniforms } from '@plugins/renderers/forward/UniformSetter';
+import { TextureGPUCache } from '@plugins/renderers/shared/TextureGPUCache';
+import { EnvironmentMapCache } from '@plugins/renderers/environment/EnvironmentMapCache';
+import type { EnvironmentMaps } from '@plugins/renderers/environment/EnvironmentMapBaker';
+import { createDefaultTextureImportSettings } from '@core/assets/DefaultImportSettings';
 import { createMockGL } from '../../../helpers/webgl-mock';
 
+/**
+ * Create empty shadow uniforms (no shadowed lights).
+ */
+function createShadowUniforms(): ShadowUniforms {
+  return {
+    shadowMap: {} as WebGLTexture,
+    shadowMatrices: new Float32Array(8 * 16),
+    lightShadows: new Float32Array(8 * 3),
+    lightShadowBias: new Float32Array(8 * 2),
+  };
+}
+
 describe('UniformSetter', () => {
   let gl: WebGL2RenderingContext;
   let assetRegistry: AssetRegistry;
@@ -46,8 +71,15 @@ describe('UniformSetter', () => {
       cameraPosition: [1, 2, 3],
       lightDirections,
       lightColors,
+      lightPositions: new Float32Array(24),
+      lightTypes: new Int32Array(8),
+      lightRanges: new Float32Array(8),
+      lightSpotCones: new Float32Array(16),
       lightCount: 2,
       ambientColor: [0.1, 0.2, 0.3],
+      shadows: createShadowUniforms(),
+      environment: { maps: null, intensity: 1 },
+      hdrOutput: false,
     });
 
     expect(gl.uniformMatrix4fv).toHaveBeenCalledWith(vpLoc, false, viewProjection);
@@ -55,6 +87,205 @@ describe('UniformSetter', () => {
     expect(gl.uniform1i).toHaveBeenCalledWith(lightCountLoc, 2);
   });
 
+  it('should tell shaders when they write HDR for post-processing', () => {
+    const hdrOutputLoc = {} as WebGLUniformLocation;
+    locations.set('uHDROutput', hdrOutputLoc);
+
+    setter.setFrameUniforms('shader-1', {
+      viewProjectionMatrix: new Float32Array(16),
+      cameraPosition: [0, 0, 0],
+      lightDirections: new Float32Array(24),
+      lightColors: new Float32Array(24),
+      lightPositions: new Float32Array(24),
+      lightTypes: new Int32Array(8),
+      lightRanges: new Float32Array(8),
+      lightSpotCones: new Float32Array(16),
+      lightCount: 0,
+      ambientColor: [0, 0, 0],
+      shadows: createShadowUniforms(),
+      environment: { maps: null, intensity: 1 },
+      hdrOutput: true,
+    });
+
+    expect(gl.uniform1i).toHaveBeenCalledWith(hdrOutputLoc, 1);
+  });
+
+  it('should set point and spot light uniforms when locations exist', () => {
+    const positionsLoc = {} as WebGLUniformLocation;
+    const typesLoc = {} as WebGLUniformLocation;
+    const rangesLoc = {} as WebGLUniformLocation;
+    const conesLoc = {} as WebGLUniformLocation;
+    locations.set('uLightPositions', positionsLoc);
+    locations.set('uLightTypes', typesLoc);
+    locations.set('uLightRanges', rangesLoc);
+    locations.set('uLightSpotCones', conesLoc);
+
+    const lightPositions = new Float32Array(24);
+    const lightTypes = new Int32Array([1, 2, 0, 0, 0, 0, 0, 0]);
+    const lightRanges = new Float32Array(8);
+    const lightSpotCones = new Float32Array(16);
+
+    setter.setFrameUniforms('shader-1', {
+      viewProjectionMatrix: new Float32Array(16),
+      cameraPosition: [0, 0, 0],
+      lightDirections: new Float32Array(24),
+      lightColors: new Float32Array(24),
+      lightPositions,
+      lightTypes,
+      lightRanges,
+      lightSpotCones,
+      lightCount: 2,
+      ambientColor: [0, 0, 0],
+      shadows: createShadowUniforms(),
+      environment: { maps: null, intensity: 1 },
+      hdrOutput: false,
+    });
+
+    expect(gl.uniform3fv).toHaveBeenCalledWith(positionsLoc, lightPositions);
+    expect(gl.uniform1iv).toHaveBeenCalledWith(typesLoc, lightTypes);
+    expect(gl.uniform1fv).toHaveBeenCalledWith(rangesLoc, lightRanges);
+    expect(gl.uniform2fv).toHaveBeenCalledWith(conesLoc, lightSpotCones);
+  });
+
+  it('should bind the shadow map array to its reserved texture unit', () => {
+    const shadowMapLoc = {} as WebGLUniformLocation;
+    const matricesLoc = {} as WebGLUniformLocation;
+    const lightShadowsLoc = {} as WebGLUniformLocation;
+    const biasLoc = {} as WebGLUniformLocation;
+    locations.set('uShadowMaps', shadowMapLoc);
+    locations.set('uShadowMatrices', matricesLoc);
+    locations.set('uLightShadows', lightShadowsLoc);
+    locations.set('uLightShadowBias', biasLoc);
+
+    const shadows = createShadowUniforms();
+    setter.setFrameUniforms('shader-1', {
+      viewProjectionMatrix: new Float32Array(16),
+      cameraPosition: [0, 0, 0],
+      lightDirections: new Float32Array(24),
+      lightColors: new Float32Array(24),
+      lightPositions: new Float32Array(24),
+      lightTypes: new Int32Array(8),
+      lightRanges: new Float32Array(8),
+      lightSpotCones: new Float32Array(16),
+      lightCount: 1,
+      ambientColor: [0, 0, 0],
+      shadows,
+      environment: { maps: null, intensity: 1 },
+      hdrOutput: false,
+    });
+
+    expect(gl.activeTexture).toHaveBeenCalledWith(gl.TEXTURE0 + SHADOW_MAP_TEXTURE_UNIT);
+    expect(gl.bindTexture).toHaveBeenCalledWith(gl.TEXTURE_2D_ARRAY, shadows.shadowMap);
+    expect(gl.uniform1i).toHaveBeenCalledWith(shadowMapLoc, SHADOW_MAP_TEXTURE_UNIT);
+    expect(gl.uniformMatrix4fv).toHaveBeenCalledWith(matricesLoc, false, shadows.shadowMatrices);
+    expect(gl.uniform3fv).toHaveBeenCalledWith(lightShadowsLoc, shadows.lightShadows);
+    expect(gl.uniform2fv).toHaveBeenCalledWith(biasLoc, shadows.lightShadowBias);
+  });
+
+  it('should bind environment maps to the reserved IBL texture units', () => {
+    const environmentCache = new EnvironmentMapCache({ gl });
+    setter = new UniformSetter({
+      gl,
+      shaderEditorService: shaderEditorService as ShaderEditorService,
+      assetRegistry,
+      environmentCache,
+    });
+    const useLoc = {} as WebGLUniformLocation;
+    const irradianceLoc = {} as WebGLUniformLocation;
+    const prefilteredLoc = {} as WebGLUniformLocation;
+    const brdfLoc = {} as WebGLUniformLocation;
+    const maxLodLoc = {} as WebGLUniformLocation;
+    locations.set('uUseEnvironment', useLoc);
+    locations.set('uIrradianceMap', irradianceLoc);
+    locations.set('uPrefilteredMap', prefilteredLoc);
+    locations.set('uBrdfLut', brdfLoc);
+    locations.set('uPrefilteredMaxLod', maxLodLoc);
+
+    const maps: EnvironmentMaps = {
+      environment: {} as WebGLTexture,
+      irradiance: {} as WebGLTexture,
+      prefiltered: {} as WebGLTexture,
+      prefilteredLevels: 5,
+    };
+    setter.setEnvironmentUniforms(locations, { maps, intensity: 2 });
+
+    expect(BRDF_LUT_TEXTURE_UNIT).toBeLessThan(JOINT_MATRIX_TEXTURE_UNIT);
+    expect(gl.uniform1i).toHaveBeenCalledWith(useLoc, 1);
+    expect(gl.uniform1f).toHaveBeenCalledWith(maxLodLoc, 4);
+    expect(gl.bindTexture).toHaveBeenCalledWith(gl.TEXTURE_CUBE_MAP, maps.irradiance);
+    expect(gl.uniform1i).toHaveBeenCalledWith(irradianceLoc, IRRADIANCE_MAP_TEXTURE_UNIT);
+    expect(gl.bindTexture).toHaveBeenCalledWith(gl.TEXTURE_CUBE_MAP, maps.prefiltered);
+    expect(gl.uniform1i).toHaveBeenCalledWith(prefilteredLoc, PREFILTERED_MAP_TEXTURE_UNIT);
+    expect(gl.bindTexture).toHaveBeenCalledWith(gl.TEXTURE_2D, environmentCache.getBRDFLookupTable());
+    expect(gl.uniform1i).toHaveBeenCalledWith(brdfLoc, BRDF_LUT_TEXTURE_UNIT);
+  });
+
+  it('should bind fallback environment maps and disable IBL without an environment', () => {
+    const environmentCache = new EnvironmentMapCache({ gl });
+    setter = new UniformSetter({
+      gl,
+      shaderEditorService: shaderEditorService as ShaderEditorService,
+      assetRegistry,
+      environmentCache,
+    });
+    const useLoc = {} as WebGLUniformLocation;
+    const irradianceLoc = {} as WebGLUniformLocation;
+    locations.set('uUseEnvironment', useLoc);
+    locations.set('uIrradianceMap', irradianceLoc);
+
+    setter.setEnvironmentUniforms(locations, { maps: null, intensity: 1 });
+
+    expect(gl.uniform1i).toHaveBeenCalledWith(useLoc, 0);
+    expect(gl.bindTexture).toHaveBeenCalledWith(gl.TEXTURE_CUBE_MAP, environmentCache.getFallback().irradiance);
+    expect(gl.uniform1i).toHaveBeenCalledWith(irradianceLoc, IRRADIANCE_MAP_TEXTURE_UNIT);
+  });
+
+  it('should upload joint matrices to the reserved joint texture unit for skinned draws', () => {
+    const skinnedLoc = {} as WebGLUniformLocation;
+    const jointsLoc = {} as WebGLUniformLocation;
+    locations.set('uSkinned', skinnedLoc);
+    locations.set('uJointMatrices', jointsLoc);
+    const jointMatrices = new Float32Array(2 * 16);
+
+    setter.setObjectUniforms({
+      shaderUUID: 'missing-shader',
+      modelMatrix: new Float32Array(16),
+      normalMatrix: new Float32Array(9),
+      material: null,
+      jointMatrices,
+    });
+
+    expect(JOINT_MATRIX_TEXTURE_UNIT).toBeLessThan(SHADOW_MAP_TEXTURE_UNIT);
+    expect(gl.uniform1i).toHaveBeenCalledWith(skinnedLoc, 1);
+    expect(gl.activeTexture).toHaveBeenLastCalledWith(gl.TEXTURE0 + JOINT_MATRIX_TEXTURE_UNIT);
+    expect(gl.texImage2D).toHaveBeenLastCalledWith(
+      gl.TEXTURE_2D, 0, gl.RGBA32F, 4, 2, 0, gl.RGBA, gl.FLOAT, jointMatrices,
+    );
+    expect(gl.uniform1i).toHaveBeenCalledWith(jointsLoc, JOINT_MATRIX_TEXTURE_UNIT);
+  });
+
+  it('should keep the joint texture bound but disable skinning for unskinned draws', () => {
+    const skinnedLoc = {} as WebGLUniformLocation;
+    const jointsLoc = {} as WebGLUniformLocation;
+    locations.set('uSkinned', skinnedLoc);
+    locations.set('uJointMatrices', jointsLoc);
+
+    setter.setObjectUniforms({
+      shaderUUID: 'missing-shader',
+      modelMatrix: new Float32Array(16),
+      normalMatrix: new Float32Array(9),
+      material: null,
+    });
+
+    expect(gl.uniform1i).toHaveBeenCalledWith(skinnedLoc, 0);
+    expect(gl.uniform1i).toHaveBeenCalledWith(jointsLoc, JOINT_MATRIX_TEXTURE_UNIT);
+    // Only the identity placeholder is uploaded
+    expect(gl.texImage2D).toHaveBeenCalledTimes(1);
+
+    setter.dispose();
+    expect(gl.deleteTexture).toHaveBeenCalled();
+  });
+
   it('should set shader-declared material parameters by type', () => {
     const floatLoc = {} as WebGLUniformLocation;
     const vec3Loc = {} as WebGLUniformLocation;
@@ -147,4 +378,124 @@ describe('UniformSetter', () => {
     expect(gl.uniform3fv).toHaveBeenCalledWith(colorLoc, [0.1, 0.2, 0.3]);
     expect(gl.uniform1f).toHaveBeenCalledWith(opacityLoc, 0.4);
   });
+
+  describe('sampler2D uniforms', () => {
+    let textureCache: TextureGPUCache;
+    let texture: ITextureAsset;
+
+    const samplerShader: IShaderAsset = {
+      uuid: 'shader-tex',
+      type: 'shader',
+      name: 'Textured',
+      version: 1,
+      created: '2026-01-28T12:00:00Z',
+      modified: '2026-01-28T12:00:00Z',
+      isBuiltIn: false,
+      vertexSource: '',
+      fragmentSource: '',
+      uniforms: [
+        { name: 'uBaseColorMap', type: 'sampler2D', displayName: 'Base', defaultValue: null },
+        { name: 'uDetailMap', type: 'sampler2D', displayName: 'Detail', defaultValue: null },
+      ],
+    };
+
+    const createMaterial = (parameters: Record<string, unknown>): IMaterialAsset => ({
+      uuid: 'material-tex',
+      type: 'material',
+      name: 'Textured Material',
+      version: 1,
+      created: '2026-01-28T12:00:00Z',
+      modified: '2026-01-28T12:00:00Z',
+      isBuiltIn: false,
+      shaderRef: { uuid: 'shader-tex', type: 'shader' },
+      parameters,
+    });
+
+    const draw = (): void => {
+      setter.setObjectUniforms({
+        shaderUUID: 'shader-tex',
+        modelMatrix: new Float32Array(16),
+        normalMatrix: new Float32Array(9),
+        material: { materialAssetRef: { uuid: 'material-tex', type: 'material' } } as IMaterialComponent,
+      });
+    };
+
+    beforeEach(() => {
+      textureCache = new TextureGPUCache({
+        gl,
+        decodeImage: vi.fn(async () => ({ close: vi.fn() }) as unknown as ImageBitmap),
+      });
+      setter = new UniformSetter({
+        gl,
+        shaderEditorService: shaderEditorService as ShaderEditorService,
+        assetRegistry,
+        textureCache,
+      });
+
+      texture = {
+        uuid: 'texture-1',
+        type: 'texture',
+        name: 'Wood',
+        version: 1,
+        created: '2026-01-28T12:00:00Z',
+        modified: '2026-01-28T12:00:00Z',
+        isBuiltIn: false,
+        source: { filename: 'wood.png', mimeType: 'image/png' },
+        importSettings: createDefaultTextureImportSettings(),
+        data: new Blob([new Uint8Array([0])]),
+      };
+      assetRegistry.register(samplerShader);
+      assetRegistry.register(texture);
+    });
+
+    it('should bind referenced textures to consecutive texture units', () => {
+      const baseLoc = {} as WebGLUniformLocation;
+      const detailLoc = {} as WebGLUniformLocation;
+      locations.set('uBaseColorMap', baseLoc);
+      locations.set('uDetailMap', detailLoc);
+      assetRegistry.register(createMaterial({
+        uBaseColorMap: { uuid: 'texture-1', type: 'texture' },
+        uDetailMap: 'texture-1',
+      }));
+
+      draw();
+
+      expect(gl.activeTexture).toHaveBeenNthCalledWith(1, gl.TEXTURE0);
+      expect(gl.activeTexture).toHaveBeenNthCalledWith(2, gl.TEXTURE0 + 1);
+      expect(gl.uniform1i).toHaveBeenCalledWith(baseLoc, 0);
+      expect(gl.uniform1i).toHaveBeenCalledWith(detailLoc, 1);
+      expect(gl.bindTexture).toHaveBeenCalledWith(gl.TEXTURE_2D, textureCache.getOrCreate(texture));
+    });
+
+    it('should restart texture unit allocation for every draw', () => {
+      const baseLoc = {} as WebGLUniformLocation;
+      locations.set('uBaseColorMap', baseLoc);
+      assetRegistry.register(createMaterial({ uBaseColorMap: { uuid: 'texture-1', type: 'texture' } }));
+
+      draw();
+      draw();
+
+      expect(gl.uniform1i).toHaveBeenNthCalledWith(1, baseLoc, 0);
+      expect(gl.uniform1i).toHaveBeenNthCalledWith(2, baseLoc, 0);
+    });
+
+    it('should bind the fallback texture for unassigned or unknown textures', () => {
+      const baseLoc = {} as WebGLUniformLocation;
+      const detailLoc = {} as WebGLUniformLocation;
+      locations.set('uBaseColorMap', baseLoc);
+      locations.set('uDetailMap', detailLoc);
+      assetRegistry.register(createMaterial({
+        uBaseColorMap: null,
+        uDetailMap: { uuid: 'missing-texture', type: 'texture' },
+      }));
+
+      draw();
+
+      const fallback = textureCache.getFallback();
+      const boundTextures = vi.mocked(gl.bindTexture).mock.calls
+        .filter(([, tex]) => tex !== null)
+        .map(([, tex]) => tex);
+      expect(boundTextures.slice(-2)).toEqual([fallback, fallback]);
+    });
+  });
 });
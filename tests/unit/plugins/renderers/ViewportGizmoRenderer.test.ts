@@ -0,0 +1,80 @@
+/**
+ * ViewportGizmoRenderer Tests
+ *
+ * Unit tests for picking standard views from the orientation gizmo's axis
+ * ends. Uses mock WebGL context.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ViewportGizmoRenderer } from '@plugins/renderers/gizmos/ViewportGizmoRenderer';
+import type { ICamera } from '@core/interfaces';
+import { mat4Perspective } from '@utils/math';
+import { createLookAtCamera } from '../../../helpers/camera';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+/** Canvas size in pixels */
+const WIDTH = 800;
+const HEIGHT = 400;
+
+/** Gizmo placement, in NDC */
+const SIZE = 1;
+const OFFSET: [number, number] = [-0.5, -0.5];
+
+/**
+ * Create a Z-up camera looking at the origin from a position.
+ */
+function createCamera(position: [number, number, number]): ICamera {
+  const projection = mat4Perspective(Math.PI / 3, WIDTH / HEIGHT, 0.1, 100);
+  return createLookAtCamera(position, projection, { aspect: WIDTH / HEIGHT, far: 100 });
+}
+
+/**
+ * Pixel position of a point on the gizmo, given its rotated screen-space
+ * offset in gizmo units (right, up).
+ */
+function gizmoPoint(right: number, up: number): [number, number] {
+  const ndcX = OFFSET[0] + (right * SIZE * 0.15) / (WIDTH / HEIGHT);
+  const ndcY = OFFSET[1] + up * SIZE * 0.15;
+  return [((ndcX + 1) / 2) * WIDTH, ((1 - ndcY) / 2) * HEIGHT];
+}
+
+describe('ViewportGizmoRenderer', () => {
+  let gizmo: ViewportGizmoRenderer;
+
+  beforeEach(() => {
+    gizmo = new ViewportGizmoRenderer(createMockGL(), { size: SIZE, screenOffset: OFFSET });
+  });
+
+  describe('pickView', () => {
+    it('should pick the view from the side of a clicked axis end', () => {
+      // From the front, +X points right and +Z points up
+      const camera = createCamera([0, -10, 0]);
+
+      expect(gizmo.pickView(...gizmoPoint(1, 0), camera, WIDTH, HEIGHT)).toBe('right');
+      expect(gizmo.pickView(...gizmoPoint(0, 1), camera, WIDTH, HEIGHT)).toBe('top');
+      expect(gizmo.pickView(...gizmoPoint(0, -0.6), camera, WIDTH, HEIGHT)).toBe('bottom');
+    });
+
+    it('should pick the end nearer the viewer when ends overlap', () => {
+      // From the front, the Y axis points straight into the screen
+      const camera = createCamera([0, -10, 0]);
+
+      expect(gizmo.pickView(...gizmoPoint(0, 0), camera, WIDTH, HEIGHT)).toBe('front');
+    });
+
+    it('should follow the camera orientation', () => {
+      // From the right, +Y points right on screen
+      const camera = createCamera([10, 0, 0]);
+
+      expect(gizmo.pickView(...gizmoPoint(1, 0), camera, WIDTH, HEIGHT)).toBe('back');
+      expect(gizmo.pickView(...gizmoPoint(-0.6, 0), camera, WIDTH, HEIGHT)).toBe('front');
+    });
+
+    it('should return null away from the axis ends', () => {
+      const camera = createCamera([0, -10, 0]);
+
+      expect(gizmo.pickView(WIDTH / 2, HEIGHT / 2, camera, WIDTH, HEIGHT)).toBeNull();
+      expect(gizmo.pickView(...gizmoPoint(0, 0), camera, 0, 0)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * BRDF Lookup Table Tests
+ *
+ * Unit tests for the split-sum environment BRDF integration.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeBRDFLookupTable, integrateBRDF } from '@plugins/renderers/environment/brdfLookupTable';
+
+describe('integrateBRDF', () => {
+  it('should reflect all light at normal incidence on a smooth surface', () => {
+    const [scale, bias] = integrateBRDF(1, 0);
+
+    expect(scale).toBeCloseTo(1, 2);
+    expect(bias).toBeCloseTo(0, 2);
+  });
+
+  it('should raise the Fresnel bias at grazing angles', () => {
+    const [, normalBias] = integrateBRDF(1, 0.2);
+    const [, grazingBias] = integrateBRDF(0.1, 0.2);
+
+    expect(grazingBias).toBeGreaterThan(normalBias);
+  });
+
+  it('should never reflect more light than arrives', () => {
+    for (const NdotV of [0.05, 0.5, 1]) {
+      for (const roughness of [0, 0.5, 1]) {
+        const [scale, bias] = integrateBRDF(NdotV, roughness, 64);
+        expect(scale + bias).toBeLessThanOrEqual(1.0001);
+      }
+    }
+  });
+});
+
+describe('computeBRDFLookupTable', () => {
+  it('should store scale and bias per texel with roughness along rows', () => {
+    const table = computeBRDFLookupTable(4, 16);
+
+    expect(table).toHaveLength(4 * 4 * 2);
+    // Last texel of the first row: highest NdotV, lowest roughness
+    const [scale, bias] = integrateBRDF(0.875, 0.125, 16);
+    expect(table[3 * 2]).toBeCloseTo(scale, 6);
+    expect(table[3 * 2 + 1]).toBeCloseTo(bias, 6);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * buildPathTracerScene Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildPathTracerScene } from '@plugins/renderers/raytracing/buildPathTracerScene';
+import { SceneGraph } from '@core/SceneGraph';
+import { EventBus } from '@core/EventBus';
+import { AssetRegistry } from '@core/assets/AssetRegistry';
+import { MaterialAssetFactory } from '@core/assets/MaterialAssetFactory';
+import type { IMaterialComponent } from '@core/interfaces';
+import type { LightData, LightManager } from '@core/LightManager';
+import { Cube } from '@plugins/primitives/Cube';
+import { createCamera } from '../../../helpers/camera';
+
+function createLightManager(lights: LightData[]): Pick<LightManager, 'getActiveLights' | 'getAmbientColor'> {
+  return {
+    getActiveLights: () => lights,
+    getAmbientColor: () => [0.1, 0.2, 0.3],
+  };
+}
+
+describe('buildPathTracerScene', () => {
+  let sceneGraph: SceneGraph;
+
+  beforeEach(() => {
+    sceneGraph = new SceneGraph(new EventBus());
+  });
+
+  it('should flatten meshes into world-space triangles', () => {
+    const cube = new Cube();
+    cube.transform.position = [5, 0, 0];
+    sceneGraph.add(cube);
+
+    const scene = buildPathTracerScene({ scene: sceneGraph, camera: createCamera() });
+
+    expect(scene.positions).toHaveLength(12 * 9);
+    expect(scene.normals).toHaveLength(12 * 9);
+    expect(scene.materialIndices).toHaveLength(12);
+
+    const xs = Array.from(scene.positions).filter((_, i) => i % 3 === 0);
+    expect(Math.min(...xs)).toBeCloseTo(4.5);
+    expect(Math.max(...xs)).toBeCloseTo(5.5);
+  });
+
+  it('should rotate normals with the object', () => {
+    const cube = new Cube();
+    cube.transform.rotation = [0, 0, 90];
+    sceneGraph.add(cube);
+
+    const scene = buildPathTracerScene({ scene: sceneGraph, camera: createCamera() });
+
+    for (let i = 0; i < scene.normals.length; i += 3) {
+      const length = Math.hypot(scene.normals[i], scene.normals[i + 1], scene.normals[i + 2]);
+      expect(length).toBeCloseTo(1);
+    }
+  });
+
+  it('should resolve inline PBR, Lambert and unlit materials', () => {
+    const pbr = new Cube();
+    Object.assign(pbr.getComponent<IMaterialComponent>('material')!, {
+      shaderName: 'pbr',
+      color: [1, 0, 0],
+      metallic: 0.7,
+      roughness: 0.2,
+      emission: [0, 1, 0],
+      emissionStrength: 3,
+    });
+    const lambert = new Cube();
+    const unlit = new Cube();
+    Object.assign(unlit.getComponent<IMaterialComponent>('material')!, { shaderName: 'unlit', color: [0, 0, 1] });
+    [pbr, lambert, unlit].forEach((cube) => sceneGraph.add(cube));
+
+    const { materials } = buildPathTracerScene({ scene: sceneGraph, camera: createCamera() });
+
+    expect(materials[0]).toEqual({ baseColor: [1, 0, 0], metallic: 0.7, roughness: 0.2, emission: [0, 3, 0] });
+    expect(materials[1]).toEqual({ baseColor: [0.8, 0.8, 0.8], metallic: 0, roughness: 1, emission: [0, 0, 0] });
+    expect(materials[2].emission).toEqual([0, 0, 1]);
+    expect(materials[2].baseColor).toEqual([0, 0, 0]);
+  });
+
+  it('should use material asset parameters and share them between objects', () => {
+    const registry = new AssetRegistry(new EventBus());
+    const asset = new MaterialAssetFactory().create({
+      name: 'Gold',
+      shaderRef: { uuid: 'built-in-shader-pbr', type: 'shader' },
+      parameters: { uBaseColor: [1, 0.8, 0.2], uMetallic: 0.9, uRoughness: 0.2 },
+    });
+    registry.register(asset);
+
+    for (let i = 0; i < 2; i++) {
+      const cube = new Cube();
+      cube.getComponent<IMaterialComponent>('material')!.materialAssetRef = { uuid: asset.uuid, type: 'material' };
+      sceneGraph.add(cube);
+    }
+
+    const scene = buildPathTracerScene({ scene: sceneGraph, camera: createCamera(), assetRegistry: registry });
+
+    expect(scene.materials).toHaveLength(1);
+    expect(scene.materials[0].metallic).toBeCloseTo(0.9);
+    expect(scene.materials[0].baseColor).toEqual([1, 0.8, 0.2]);
+    expect(new Set(scene.materialIndices)).toEqual(new Set([0]));
+  });
+
+  it('should resolve every light with normalized directions and spot cones', () => {
+    const lightManager = createLightManager([
+      { lightType: 'spot', direction: [0, 0, -3], position: [0, 0, 4], color: [2, 2, 2], enabled: true, spotAngle: 60 },
+      { lightType: 'area', direction: [0, 0, -1], position: [0, 0, 0], color: [1, 1, 1], enabled: true },
+    ]);
+
+    const scene = buildPathTracerScene({ scene: sceneGraph, camera: createCamera(), lightManager });
+
+    expect(scene.lights).toHaveLength(1);
+    expect(scene.lights[0].direction).toEqual([0, 0, -1]);
+    expect(scene.lights[0].spotCone[0]).toBeCloseTo(Math.cos(Math.PI / 6));
+    expect(scene.ambientColor).toEqual([0.1, 0.2, 0.3]);
+  });
+
+  it('should fall back to the default light like the rasterizers', () => {
+    const scene = buildPathTracerScene({
+      scene: sceneGraph,
+      camera: createCamera(),
+      lightManager: createLightManager([]),
+    });
+
+    expect(scene.lights).toHaveLength(1);
+    expect(scene.lights[0].type).toBe('directional');
+  });
+
+  it('should copy the camera', () => {
+    const camera = createCamera({ fov: Math.PI / 4 });
+
+    const scene = buildPathTracerScene({ scene: sceneGraph, camera });
+    camera.position[0] = 99;
+
+    expect(scene.camera.position).toEqual([0, -10, 5]);
+    expect(scene.camera.fov).toBeCloseTo(Math.PI / 4);
+  });
+});
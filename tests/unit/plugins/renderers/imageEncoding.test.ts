@@ -0,0 +1,144 @@
+/**
+ * Image Encoding Tests
+ *
+ * Unit tests for render output row flipping, linear conversion,
+ * supersampling downsampling and the OpenEXR writer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeToLinear,
+  downsample,
+  encodeEXR,
+  encodeFromLinear,
+  flipRows,
+} from '@plugins/renderers/output/imageEncoding';
+
+/**
+ * Find a null-terminated ASCII string in a byte array.
+ */
+function indexOfString(bytes: Uint8Array, text: string): number {
+  const pattern = [...text].map((c) => c.charCodeAt(0)).concat(0);
+  outer: for (let i = 0; i + pattern.length <= bytes.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+describe('imageEncoding', () => {
+  describe('flipRows', () => {
+    it('should reverse the row order', () => {
+      // 1×3 image, one byte value per row
+      const pixels = new Uint8Array([1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3]);
+
+      expect([...flipRows(pixels, 1, 3)]).toEqual([3, 3, 3, 3, 2, 2, 2, 2, 1, 1, 1, 1]);
+    });
+  });
+
+  describe('decodeToLinear / encodeFromLinear', () => {
+    it('should round-trip 8-bit values', () => {
+      const pixels = new Uint8Array([0, 64, 128, 255, 255, 200, 10, 0]);
+
+      expect([...encodeFromLinear(decodeToLinear(pixels))]).toEqual([...pixels]);
+    });
+
+    it('should undo gamma 2.2 on color but not alpha', () => {
+      const linear = decodeToLinear(new Uint8Array([128, 128, 128, 128]));
+
+      expect(linear[0]).toBeCloseTo(Math.pow(128 / 255, 2.2), 5);
+      expect(linear[3]).toBeCloseTo(128 / 255, 5);
+    });
+  });
+
+  describe('downsample', () => {
+    it('should average each block', () => {
+      // 2×2 image: one white pixel, three black
+      const linear = new Float32Array([
+        1, 1, 1, 1, 0, 0, 0, 1,
+        0, 0, 0, 1, 0, 0, 0, 1,
+      ]);
+
+      expect([...downsample(linear, 2, 2, 2)]).toEqual([0.25, 0.25, 0.25, 1]);
+    });
+
+    it('should keep blocks separate', () => {
+      // 4×2 image: left block red, right block green
+      const red = [1, 0, 0, 1];
+      const green = [0, 1, 0, 1];
+      const linear = new Float32Array([...red, ...red, ...green, ...green, ...red, ...red, ...green, ...green]);
+
+      expect([...downsample(linear, 4, 2, 2)]).toEqual([...red, ...green]);
+    });
+
+    it('should return the input unchanged for a factor of 1', () => {
+      const linear = new Float32Array(16);
+
+      expect(downsample(linear, 2, 2, 1)).toBe(linear);
+    });
+
+    it('should reject sizes that are not a multiple of the factor', () => {
+      expect(() => downsample(new Float32Array(3 * 2 * 4), 3, 2, 2)).toThrow('not a multiple');
+    });
+  });
+
+  describe('encodeEXR', () => {
+    const width = 3;
+    const height = 2;
+    const linear = new Float32Array(width * height * 4).map((_, i) => i / 10);
+    const bytes = encodeEXR(linear, width, height);
+    const view = new DataView(bytes.buffer);
+
+    it('should start with the OpenEXR magic number and version 2', () => {
+      expect(view.getInt32(0, true)).toBe(20000630);
+      expect(view.getInt32(4, true)).toBe(2);
+    });
+
+    it('should write the required header attributes', () => {
+      for (const name of [
+        'channels',
+        'compression',
+        'dataWindow',
+        'displayWindow',
+        'lineOrder',
+        'pixelAspectRatio',
+        'screenWindowCenter',
+        'screenWindowWidth',
+      ]) {
+        expect(indexOfString(bytes, name)).toBeGreaterThan(0);
+      }
+    });
+
+    it('should write the data window as the full image', () => {
+      const attribute = indexOfString(bytes, 'dataWindow');
+      // name, type "box2i", int32 size
+      const value = attribute + 'dataWindow'.length + 1 + 'box2i'.length + 1 + 4;
+
+      expect(view.getInt32(value, true)).toBe(0);
+      expect(view.getInt32(value + 4, true)).toBe(0);
+      expect(view.getInt32(value + 8, true)).toBe(width - 1);
+      expect(view.getInt32(value + 12, true)).toBe(height - 1);
+    });
+
+    it('should store each scanline as A, B, G, R float planes', () => {
+      const headerEnd = indexOfString(bytes, 'screenWindowWidth') + 'screenWindowWidth'.length + 1 + 'float'.length + 1 + 4 + 4 + 1;
+      const lineSize = 8 + width * 4 * 4;
+
+      // Offset table points at consecutive chunks after the table
+      const firstChunk = view.getUint32(headerEnd, true);
+      expect(firstChunk).toBe(headerEnd + height * 8);
+      expect(view.getUint32(headerEnd + 8, true)).toBe(firstChunk + lineSize);
+      expect(bytes.length).toBe(firstChunk + height * lineSize);
+
+      // Second scanline, pixel 1
+      const chunk = firstChunk + lineSize;
+      const pixel = (1 * width + 1) * 4;
+      expect(view.getInt32(chunk, true)).toBe(1);
+      expect(view.getInt32(chunk + 4, true)).toBe(width * 4 * 4);
+      expect(view.getFloat32(chunk + 8 + 1 * 4, true)).toBeCloseTo(linear[pixel + 3]);
+      expect(view.getFloat32(chunk + 8 + (3 * width + 1) * 4, true)).toBeCloseTo(linear[pixel]);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Radiance HDR Decoder Tests
+ *
+ * Unit tests for decoding flat and run-length encoded RGBE images.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeRadianceHDR, HDRFormatError } from '@plugins/renderers/environment/radianceHDR';
+
+/**
+ * Build an .hdr file from a header and raw pixel bytes.
+ */
+function createHDRFile(resolution: string, pixels: number[], header = 'FORMAT=32-bit_rle_rgbe'): Uint8Array {
+  const text = new TextEncoder().encode(`#?RADIANCE\n${header}\n\n${resolution}\n`);
+  const bytes = new Uint8Array(text.length + pixels.length);
+  bytes.set(text);
+  bytes.set(pixels, text.length);
+  return bytes;
+}
+
+describe('decodeRadianceHDR', () => {
+  it('should decode flat RGBE pixels to linear floats', () => {
+    // Exponent 128 scales mantissas by 1/256; exponent 129 by 2/256
+    const image = decodeRadianceHDR(createHDRFile('-Y 1 +X 2', [128, 64, 0, 129, 128, 0, 0, 128]));
+
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(1);
+    expect(Array.from(image.data)).toEqual([1, 0.5, 0, 0.5, 0, 0]);
+  });
+
+  it('should decode zero exponents as black', () => {
+    const image = decodeRadianceHDR(createHDRFile('-Y 1 +X 1', [255, 255, 255, 0]));
+
+    expect(Array.from(image.data)).toEqual([0, 0, 0]);
+  });
+
+  it('should decode run-length encoded scanlines', () => {
+    // Width 8: red is a run of 8, green and blue are literal spans, exponent a run
+    const scanline = [
+      2, 2, 0, 8,
+      128 + 8, 128,
+      8, 0, 16, 32, 48, 64, 80, 96, 112,
+      128 + 8, 0,
+      128 + 8, 128,
+    ];
+    const image = decodeRadianceHDR(createHDRFile('-Y 1 +X 8', scanline));
+
+    expect(image.width).toBe(8);
+    expect(image.data[0]).toBe(0.5);
+    expect(image.data[1]).toBe(0);
+    expect(image.data[7 * 3 + 1]).toBe(112 / 256);
+    expect(image.data[7 * 3 + 2]).toBe(0);
+  });
+
+  it('should return bottom-up images top row first', () => {
+    const image = decodeRadianceHDR(createHDRFile('+Y 2 +X 1', [128, 0, 0, 129, 0, 128, 0, 129]));
+
+    // The first stored row is the bottom one
+    expect(Array.from(image.data)).toEqual([0, 1, 0, 1, 0, 0]);
+  });
+
+  it('should reject files that are not Radiance images', () => {
+    expect(() => decodeRadianceHDR(new TextEncoder().encode('P6\n1 1\n255\n'))).toThrow(HDRFormatError);
+  });
+
+  it('should reject unsupported pixel formats and orientations', () => {
+    expect(() => decodeRadianceHDR(createHDRFile('-Y 1 +X 1', [0, 0, 0, 0], 'FORMAT=32-bit_rle_xyze')))
+      .toThrow('Unsupported pixel format: 32-bit_rle_xyze');
+    expect(() => decodeRadianceHDR(createHDRFile('+X 1 -Y 1', [0, 0, 0, 0])))
+      .toThrow('Unsupported image orientation');
+  });
+
+  it('should reject truncated pixel data', () => {
+    expect(() => decodeRadianceHDR(createHDRFile('-Y 2 +X 1', [128, 0, 0, 129])))
+      .toThrow('Unexpected end of pixel data');
+  });
+
+  it('should reject corrupt run-length data', () => {
+    const scanline = [2, 2, 0, 8, 128 + 9, 0];
+    expect(() => decodeRadianceHDR(createHDRFile('-Y 1 +X 8', scanline))).toThrow('Corrupt run-length data');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * MarqueeSelection Tests
+ *
+ * Unit tests for the box/lasso selection geometry helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMarqueeMode,
+  getMarqueePolygon,
+  isMeshInPolygon,
+  isPointInPolygon,
+  projectToScreen,
+  type ScreenPoint,
+} from '@plugins/tools/MarqueeSelection';
+import type { IMeshData } from '@core/interfaces';
+import { mat4Identity, mat4LookAt, mat4Multiply, mat4Perspective } from '@utils/math';
+
+/**
+ * A square quad in the XY plane from -0.5 to 0.5.
+ */
+const QUAD: IMeshData = {
+  positions: new Float32Array([-0.5, -0.5, 0, 0.5, -0.5, 0, 0.5, 0.5, 0, -0.5, 0.5, 0]),
+  normals: new Float32Array(12),
+  indices: new Uint16Array([0, 1, 2, 0, 2, 3]),
+  bounds: { min: [-0.5, -0.5, 0], max: [0.5, 0.5, 0] },
+};
+
+/** Box covering pixels (x0, y0) to (x1, y1) */
+const box = (x0: number, y0: number, x1: number, y1: number): ScreenPoint[] =>
+  getMarqueePolygon({ tool: 'box', points: [[x0, y0], [x1, y1]] });
+
+describe('MarqueeSelection', () => {
+  describe('getMarqueeMode', () => {
+    it('should map modifiers to selection modes', () => {
+      expect(getMarqueeMode({})).toBe('replace');
+      expect(getMarqueeMode({ shift: true })).toBe('add');
+      expect(getMarqueeMode({ ctrl: true })).toBe('subtract');
+      expect(getMarqueeMode({ shift: true, ctrl: true })).toBe('intersect');
+    });
+  });
+
+  describe('getMarqueePolygon', () => {
+    it('should expand a box into its four corners', () => {
+      expect(box(10, 20, 0, 5)).toEqual([[10, 20], [0, 20], [0, 5], [10, 5]]);
+    });
+
+    it('should use lasso points as they are', () => {
+      const points: ScreenPoint[] = [[0, 0], [10, 0], [5, 8]];
+
+      expect(getMarqueePolygon({ tool: 'lasso', points })).toBe(points);
+    });
+
+    it('should return nothing for a box without an end corner', () => {
+      expect(getMarqueePolygon({ tool: 'box', points: [[1, 1]] })).toEqual([]);
+    });
+  });
+
+  describe('isPointInPolygon', () => {
+    // A "C" shape open to the right
+    const lasso: ScreenPoint[] = [[0, 0], [10, 0], [10, 3], [3, 3], [3, 7], [10, 7], [10, 10], [0, 10]];
+
+    it('should find points inside concave outlines', () => {
+      expect(isPointInPolygon([1, 5], lasso)).toBe(true);
+      expect(isPointInPolygon([8, 1], lasso)).toBe(true);
+    });
+
+    it('should reject points in the concavity', () => {
+      expect(isPointInPolygon([8, 5], lasso)).toBe(false);
+    });
+  });
+
+  describe('projectToScreen', () => {
+    it('should map NDC to pixels with Y down', () => {
+      expect(projectToScreen([0, 0, 0], mat4Identity(), 200, 100)).toEqual([100, 50]);
+      expect(projectToScreen([1, 1, 0], mat4Identity(), 200, 100)).toEqual([200, 0]);
+    });
+
+    it('should reject points behind the camera', () => {
+      const view = mat4LookAt([0, 0, 5], [0, 0, 0], [0, 1, 0]);
+      const viewProjection = mat4Multiply(mat4Perspective(Math.PI / 2, 1, 0.1, 100), view);
+
+      expect(projectToScreen([0, 0, 10], viewProjection, 100, 100)).toBeNull();
+    });
+  });
+
+  describe('isMeshInPolygon', () => {
+    // Identity projection: the quad covers pixels 25..75 of a 100px viewport
+    const mvp = mat4Identity();
+
+    it('should include meshes with a vertex inside the shape', () => {
+      expect(isMeshInPolygon(box(70, 70, 90, 90), QUAD, mvp, 100, 100)).toBe(true);
+    });
+
+    it('should include meshes when the shape lies within a face', () => {
+      expect(isMeshInPolygon(box(45, 45, 55, 55), QUAD, mvp, 100, 100)).toBe(true);
+    });
+
+    it('should include meshes when a thin shape is dragged across a face', () => {
+      // No quad corner is inside the box and no box corner is inside the quad
+      expect(isMeshInPolygon(box(10, 48, 90, 52), QUAD, mvp, 100, 100)).toBe(true);
+      expect(isMeshInPolygon(box(48, 90, 52, 10), QUAD, mvp, 100, 100)).toBe(true);
+    });
+
+    it('should include meshes when a lasso outline cuts through a face', () => {
+      const lasso: ScreenPoint[] = [[10, 50], [50, 10], [90, 50], [50, 5]];
+      expect(isMeshInPolygon(lasso, QUAD, mvp, 100, 100)).toBe(true);
+    });
+
+    it('should exclude meshes outside the shape', () => {
+      expect(isMeshInPolygon(box(80, 80, 95, 95), QUAD, mvp, 100, 100)).toBe(false);
+    });
+
+    it('should exclude meshes for degenerate shapes', () => {
+      expect(isMeshInPolygon([[0, 0], [100, 100]], QUAD, mvp, 100, 100)).toBe(false);
+    });
+  });
+});
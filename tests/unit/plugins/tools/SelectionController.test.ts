@@ -0,0 +1,221 @@
+/**
+ * SelectionController Tests
+ *
+ * Tests viewport click selection with ray-triangle picking (no WebGL
+ * context, so the CPU fallback is used) and box/lasso marquee selection.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SelectionController } from '@plugins/tools/SelectionController';
+import type { OrbitController } from '@plugins/navigation';
+import { EventBus } from '@core/EventBus';
+import { SceneGraph } from '@core/SceneGraph';
+import { SelectionManager } from '@core/SelectionManager';
+import type { ICamera } from '@core/interfaces';
+import { Sphere } from '@plugins/primitives/Sphere';
+import { mat4Orthographic } from '@utils/math';
+import { createLookAtCamera } from '../../../helpers/camera';
+
+/** Viewport size in pixels; the camera shows [-1, 1] on both axes */
+const VIEWPORT_SIZE = 100;
+
+/**
+ * Create an orthographic camera looking down -Z at the origin.
+ */
+function createCamera(): ICamera {
+  const projection = mat4Orthographic(-1, 1, -1, 1, 0.1, 100);
+  return createLookAtCamera([0, 0, 10], projection, { up: [0, 1, 0], aspect: 1, far: 100 });
+}
+
+/**
+ * Convert a world XY point to viewport pixels.
+ */
+function toScreen(x: number, y: number): { x: number; y: number } {
+  return {
+    x: ((x + 1) / 2) * VIEWPORT_SIZE,
+    y: ((1 - y) / 2) * VIEWPORT_SIZE,
+  };
+}
+
+describe('SelectionController', () => {
+  let eventBus: EventBus;
+  let sceneGraph: SceneGraph;
+  let selectionManager: SelectionManager;
+  let controller: SelectionController;
+  let sphere: Sphere;
+
+  const click = (x: number, y: number, ctrl = false): void => {
+    eventBus.emit('input:mouseUp', { button: 0, ...toScreen(x, y), modifiers: { alt: false, ctrl } });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    eventBus = new EventBus();
+    sceneGraph = new SceneGraph(eventBus);
+    selectionManager = new SelectionManager(eventBus);
+    sphere = new Sphere('sphere', 'Sphere');
+    sceneGraph.add(sphere);
+
+    controller = new SelectionController({
+      eventBus,
+      selectionManager,
+      sceneGraph,
+      getCamera: createCamera,
+      orbitController: { framePoint: vi.fn() } as unknown as OrbitController,
+    });
+    eventBus.emit('viewport:resized', { width: VIEWPORT_SIZE, height: VIEWPORT_SIZE });
+  });
+
+  it('should select a mesh clicked on its surface', () => {
+    click(0.1, 0.1);
+
+    expect(selectionManager.getPrimary()).toBe(sphere);
+  });
+
+  it('should not select a sphere through the corner of its bounding box', () => {
+    click(0.45, 0.45);
+
+    expect(selectionManager.getPrimary()).toBeNull();
+  });
+
+  it('should follow the mesh transform', () => {
+    sphere.transform.scale = [3, 1, 1];
+
+    click(0.9, 0);
+
+    expect(selectionManager.getPrimary()).toBe(sphere);
+  });
+
+  it('should pick the nearest of overlapping meshes', () => {
+    const front = new Sphere('front', 'Front');
+    front.transform.position = [0, 0, 2];
+    sceneGraph.add(front);
+
+    click(0, 0.1);
+
+    expect(selectionManager.getPrimary()).toBe(front);
+  });
+
+  it('should still pick objects without geometry by their box', () => {
+    const group = sceneGraph.createObject('Group');
+    group.transform.position = [0.8, 0.8, 0];
+    group.transform.scale = [0.2, 0.2, 0.2];
+    sceneGraph.add(group);
+
+    click(0.8, 0.8);
+
+    expect(selectionManager.getPrimary()).toBe(group);
+  });
+
+  it('should clear the selection when clicking empty space', () => {
+    selectionManager.select(sphere);
+
+    click(-0.9, -0.9);
+
+    expect(selectionManager.getPrimary()).toBeNull();
+    controller.dispose();
+  });
+
+  describe('marquee selection', () => {
+    let left: Sphere;
+
+    /**
+     * Drag from one world XY point through others and release.
+     */
+    const drag = (points: Array<[number, number]>, modifiers: { shift?: boolean; ctrl?: boolean } = {}): void => {
+      const mods = { alt: false, ctrl: false, shift: false, ...modifiers };
+      const [first, ...rest] = points.map(([x, y]) => toScreen(x, y));
+      eventBus.emit('input:mouseDown', { button: 0, ...first, modifiers: mods });
+      for (const point of rest) {
+        eventBus.emit('input:mouseMove', { ...point, modifiers: mods });
+      }
+      eventBus.emit('input:mouseUp', { button: 0, ...rest[rest.length - 1], modifiers: mods });
+    };
+
+    beforeEach(() => {
+      sphere.transform.position = [0.5, 0, 0];
+      sphere.transform.scale = [0.4, 0.4, 0.4];
+      left = new Sphere('left', 'Left');
+      left.transform.position = [-0.5, 0, 0];
+      left.transform.scale = [0.4, 0.4, 0.4];
+      sceneGraph.add(left);
+    });
+
+    it('should select every object inside a box', () => {
+      drag([[-0.9, 0.9], [0.9, -0.9]]);
+
+      expect(selectionManager.getSelected()).toEqual([sphere, left]);
+    });
+
+    it('should replace the selection with the objects inside', () => {
+      selectionManager.select(left);
+
+      drag([[0.1, 0.9], [0.9, -0.9]]);
+
+      expect(selectionManager.getSelected()).toEqual([sphere]);
+    });
+
+    it('should add to the selection with Shift', () => {
+      selectionManager.select(left);
+
+      drag([[0.1, 0.9], [0.9, -0.9]], { shift: true });
+
+      expect(selectionManager.getSelected()).toEqual([left, sphere]);
+    });
+
+    it('should subtract from the selection with Ctrl', () => {
+      selectionManager.select(left);
+      selectionManager.addToSelection(sphere);
+
+      drag([[0.1, 0.9], [0.9, -0.9]], { ctrl: true });
+
+      expect(selectionManager.getSelected()).toEqual([left]);
+    });
+
+    it('should intersect with the selection with Shift+Ctrl', () => {
+      selectionManager.select(left);
+
+      drag([[-0.9, 0.9], [0.9, -0.9]], { shift: true, ctrl: true });
+
+      expect(selectionManager.getSelected()).toEqual([left]);
+    });
+
+    it('should select inside a lasso outline', () => {
+      eventBus.emit('selection:setMarqueeTool', { tool: 'lasso' });
+
+      drag([[0.1, 0.9], [0.9, 0.9], [0.9, -0.9], [0.1, -0.9]]);
+
+      expect(controller.getMarqueeTool()).toBe('lasso');
+      expect(selectionManager.getSelected()).toEqual([sphere]);
+    });
+
+    it('should broadcast the marquee while dragging and clear it on release', () => {
+      const handler = vi.fn();
+      eventBus.on('selection:marqueeChanged', handler);
+
+      drag([[-0.9, 0.9], [0, 0]]);
+
+      expect(handler).toHaveBeenCalledWith({ shape: expect.objectContaining({ tool: 'box' }) });
+      expect(handler).toHaveBeenLastCalledWith({ shape: null });
+    });
+
+    it('should treat small movements as a click', () => {
+      selectionManager.select(left);
+
+      drag([[0.9, 0.9], [0.91, 0.9]]);
+
+      expect(selectionManager.getSelected()).toEqual([]);
+    });
+
+    it('should not draw a marquee during a gizmo drag', () => {
+      const handler = vi.fn();
+      eventBus.on('selection:marqueeChanged', handler);
+
+      eventBus.emit('input:mouseDown', { button: 0, ...toScreen(-0.9, 0.9), modifiers: { alt: false, ctrl: false } });
+      eventBus.emit('gizmo:dragStart', {});
+      eventBus.emit('input:mouseMove', { ...toScreen(0.9, -0.9) });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
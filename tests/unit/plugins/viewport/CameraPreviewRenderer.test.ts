@@ -0,0 +1,117 @@
+/**
+ * CameraPreviewRenderer Tests
+ *
+ * Unit tests for the selected-camera inset: placement, offscreen rendering
+ * through the pipeline and drawing onto the default framebuffer.
+ * Uses mock WebGL context and a recording pipeline.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CameraPreviewRenderer, getCameraPreviewRect } from '@plugins/viewport/CameraPreviewRenderer';
+import { CameraEntity } from '@core/CameraEntity';
+import type { IRenderPipeline, IRenderTarget, IScene } from '@core/interfaces';
+import { createMockGL } from '../../../helpers/webgl-mock';
+
+function createPipeline(): IRenderPipeline {
+  return {
+    id: 'test-pipeline',
+    name: 'Test Pipeline',
+    version: '1.0.0',
+    type: 'forward',
+    initialize: vi.fn(),
+    dispose: vi.fn(),
+    beginFrame: vi.fn(),
+    render: vi.fn(),
+    endFrame: vi.fn(),
+    resize: vi.fn(),
+    setRenderTarget: vi.fn(),
+  } as unknown as IRenderPipeline;
+}
+
+const scene: IScene = {
+  traverse: () => {},
+  getRenderables: () => [],
+};
+
+describe('getCameraPreviewRect', () => {
+  it('should place a quarter-width inset with the viewport aspect in the bottom-right corner', () => {
+    expect(getCameraPreviewRect(800, 400)).toEqual({ x: 588, y: 12, width: 200, height: 100 });
+  });
+
+  it('should return null when the viewport is too small', () => {
+    expect(getCameraPreviewRect(40, 30)).toBeNull();
+    expect(getCameraPreviewRect(0, 0)).toBeNull();
+  });
+});
+
+describe('CameraPreviewRenderer', () => {
+  let gl: WebGL2RenderingContext;
+  let pipeline: IRenderPipeline;
+  let preview: CameraPreviewRenderer;
+  let camera: CameraEntity;
+
+  beforeEach(() => {
+    gl = createMockGL();
+    pipeline = createPipeline();
+    preview = new CameraPreviewRenderer(gl);
+    preview.initialize();
+    camera = new CameraEntity({ name: 'Shot Camera' });
+  });
+
+  it('should render nothing before initialization', () => {
+    const uninitialized = new CameraPreviewRenderer(gl);
+
+    expect(uninitialized.render(pipeline, scene, camera, 800, 400)).toBeNull();
+    expect(pipeline.beginFrame).not.toHaveBeenCalled();
+  });
+
+  it('should render the scene from the camera into a target of the inset size', () => {
+    const rect = preview.render(pipeline, scene, camera, 800, 400);
+
+    const target = vi.mocked(pipeline.setRenderTarget).mock.calls[0][0] as IRenderTarget;
+    expect(target.width).toBe(rect!.width);
+    expect(target.height).toBe(rect!.height);
+    expect(vi.mocked(pipeline.beginFrame).mock.calls[0][0].aspect).toBe(2);
+    expect(pipeline.render).toHaveBeenCalledWith(scene);
+    expect(pipeline.endFrame).toHaveBeenCalledTimes(1);
+    expect(pipeline.setRenderTarget).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should draw the image into the inset and restore the full viewport', () => {
+    preview.render(pipeline, scene, camera, 800, 400);
+
+    expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null);
+    expect(gl.viewport).toHaveBeenCalledWith(588, 12, 200, 100);
+    expect(gl.drawArrays).toHaveBeenCalledWith(gl.TRIANGLES, 0, 3);
+    expect(gl.viewport).toHaveBeenLastCalledWith(0, 0, 800, 400);
+  });
+
+  it('should reuse the target until the inset size changes', () => {
+    preview.render(pipeline, scene, camera, 800, 400);
+    preview.render(pipeline, scene, camera, 800, 400);
+    expect(gl.createFramebuffer).toHaveBeenCalledTimes(1);
+
+    preview.render(pipeline, scene, camera, 1200, 600);
+    expect(gl.createFramebuffer).toHaveBeenCalledTimes(2);
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the target when the pipeline throws', () => {
+    vi.mocked(pipeline.render).mockImplementation(() => {
+      throw new Error('draw failed');
+    });
+
+    expect(() => preview.render(pipeline, scene, camera, 800, 400)).toThrow('draw failed');
+    expect(pipeline.setRenderTarget).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should delete its resources on dispose', () => {
+    preview.render(pipeline, scene, camera, 800, 400);
+
+    preview.dispose();
+
+    expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(1);
+    expect(gl.deleteProgram).toHaveBeenCalled();
+    expect(preview.render(pipeline, scene, camera, 800, 400)).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { EventBus } from '@core/EventBus';
 import { SettingsService } from '@core/SettingsService';
+import { SceneEnvironment } from '@core/SceneEnvironment';
 import { GridRenderer } from '@plugins/viewport/GridRenderer';
 import { createMockGL, createMockCanvas } from '../../../helpers/webgl-mock';
 import type { IPluginContext } from '@core/interfaces';
@@ -213,6 +214,16 @@ describe('GridRenderer', () => {
       settingsService.set('grid', 'visible', false);
       expect(gridRenderer.isVisible()).toBe(false);
     });
+
+    it('should return false when the scene hides the grid', async () => {
+      const sceneEnvironment = new SceneEnvironment({ eventBus });
+      await gridRenderer.initialize({ ...pluginContext, sceneEnvironment });
+
+      sceneEnvironment.set('showGrid', false);
+
+      expect(gridRenderer.isVisible()).toBe(false);
+      expect(settingsService.get('grid', 'visible')).toBe(true);
+    });
   });
 
   describe('toggleVisibility', () => {
@@ -193,6 +193,40 @@ describe('DraggableNumberInput', () => {
     });
   });
 
+  describe('mixed state', () => {
+    let mixedInput: DraggableNumberInput;
+
+    beforeEach(() => {
+      mixedInput = new DraggableNumberInput({ value: 2, mixed: true, onChange });
+    });
+
+    afterEach(() => {
+      mixedInput.dispose();
+    });
+
+    it('should show a placeholder instead of the value', () => {
+      expect(mixedInput.isMixed()).toBe(true);
+      expect(mixedInput.inputElement.value).toBe('');
+      expect(mixedInput.inputElement.classList.contains('mixed')).toBe(true);
+    });
+
+    it('should stay blank on blur without input', () => {
+      mixedInput.inputElement.dispatchEvent(new Event('blur'));
+
+      expect(mixedInput.inputElement.value).toBe('');
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should clear the mixed state when a value is entered', () => {
+      mixedInput.inputElement.value = '3';
+      mixedInput.inputElement.dispatchEvent(new Event('change'));
+
+      expect(mixedInput.isMixed()).toBe(false);
+      expect(mixedInput.inputElement.value).toBe('3.0');
+      expect(onChange).toHaveBeenCalledWith(3);
+    });
+  });
+
   describe('dispose', () => {
     it('should clean up without errors', () => {
       expect(() => input.dispose()).not.toThrow();
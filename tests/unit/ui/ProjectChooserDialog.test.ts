@@ -0,0 +1,116 @@
+/**
+ * ProjectChooserDialog Component Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { showProjectChooserDialog, validateProjectName } from '@ui/components/ProjectChooserDialog';
+
+/**
+ * Wait for pending promise callbacks to run.
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('ProjectChooserDialog', () => {
+  let projects: string[];
+  let listProjects: () => Promise<string[]>;
+  let deleteProject: (name: string) => Promise<boolean>;
+
+  const open = () => showProjectChooserDialog({
+    storageName: 'Browser storage',
+    listProjects,
+    deleteProject,
+    lastProject: 'Beta',
+  });
+
+  const projectRow = (name: string) =>
+    document.querySelector(`.pcd-project[data-project="${name}"]`) as HTMLLIElement;
+
+  beforeEach(() => {
+    projects = ['Alpha', 'Beta'];
+    listProjects = vi.fn(async () => [...projects]);
+    deleteProject = vi.fn(async (name: string) => {
+      projects = projects.filter((project) => project !== name);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should list the stored projects and open the chosen one', async () => {
+    const result = open();
+    await flush();
+
+    const rows = document.querySelectorAll('.pcd-project');
+    expect(Array.from(rows).map((row) => row.textContent)).toEqual([
+      'AlphaOpenDelete',
+      'Beta (last opened)OpenDelete',
+    ]);
+
+    (projectRow('Alpha').querySelector('.pcd-open') as HTMLButtonElement).click();
+
+    expect(await result).toBe('Alpha');
+    expect(document.querySelector('.project-chooser')).toBeNull();
+  });
+
+  it('should create a project with a new name', async () => {
+    const result = open();
+    await flush();
+
+    const input = document.querySelector('.pcd-name') as HTMLInputElement;
+    const form = document.querySelector('.pcd-create') as HTMLFormElement;
+
+    input.value = 'Beta';
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    expect(document.querySelector('.pcd-error')?.textContent).toBe('A project named "Beta" already exists.');
+
+    input.value = '  Gamma ';
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+
+    expect(await result).toBe('Gamma');
+  });
+
+  it('should delete a project after confirmation', async () => {
+    const result = open();
+    await flush();
+
+    (projectRow('Alpha').querySelector('.pcd-delete') as HTMLButtonElement).click();
+    (document.querySelector('.confirm-confirm-btn') as HTMLButtonElement).click();
+    await flush();
+
+    expect(deleteProject).toHaveBeenCalledWith('Alpha');
+    expect(projectRow('Alpha')).toBeNull();
+    expect(projectRow('Beta')).not.toBeNull();
+
+    (document.querySelector('.pcd-cancel') as HTMLButtonElement).click();
+    expect(await result).toBeNull();
+  });
+
+  it('should keep the project when deletion is cancelled', async () => {
+    const result = open();
+    await flush();
+
+    (projectRow('Alpha').querySelector('.pcd-delete') as HTMLButtonElement).click();
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    await flush();
+
+    expect(deleteProject).not.toHaveBeenCalled();
+    expect(projectRow('Alpha')).not.toBeNull();
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(await result).toBeNull();
+  });
+
+  describe('validateProjectName', () => {
+    it('should reject empty, reserved and duplicate names', () => {
+      expect(validateProjectName('', [])).toBe('Enter a project name.');
+      expect(validateProjectName('..', [])).not.toBeNull();
+      expect(validateProjectName('a/b', [])).not.toBeNull();
+      expect(validateProjectName('Alpha', ['Alpha'])).toBe('A project named "Alpha" already exists.');
+      expect(validateProjectName('Alpha', ['Beta'])).toBeNull();
+    });
+  });
+});
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { TreeView, TreeNode } from '@ui/components/TreeView';
+import { TreeView, TreeNode, TreeMoveData } from '@ui/components/TreeView';
 
 describe('TreeView', () => {
   let treeView: TreeView;
@@ -201,6 +201,107 @@ describe('TreeView', () => {
     });
   });
 
+  describe('drag-and-drop moving', () => {
+    let onMove: ReturnType<typeof vi.fn<(data: TreeMoveData) => void>>;
+
+    const movableData: TreeNode[] = [
+      {
+        id: 'root',
+        name: 'Scene',
+        type: 'group',
+        children: [
+          { id: 'cube-1', name: 'Cube.001', type: 'mesh', movable: true },
+          {
+            id: 'group-1',
+            name: 'Objects',
+            type: 'group',
+            movable: true,
+            children: [
+              { id: 'cube-2', name: 'Cube.002', type: 'mesh', movable: true }
+            ]
+          }
+        ]
+      }
+    ];
+
+    const getItem = (id: string): HTMLElement =>
+      treeView.element.querySelector(`[data-id="${id}"]`) as HTMLElement;
+
+    /** Dispatch a drag event at a vertical fraction of a 20px-tall item. */
+    const dispatchDrag = (type: string, id: string, fraction = 0.5): Event => {
+      const item = getItem(id);
+      item.getBoundingClientRect = () => ({ top: 0, height: 20 }) as DOMRect;
+      const event = new Event(type, { bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'clientY', { value: fraction * 20 });
+      item.dispatchEvent(event);
+      return event;
+    };
+
+    beforeEach(() => {
+      onMove = vi.fn<(data: TreeMoveData) => void>();
+      treeView = new TreeView({
+        onMove,
+        expandedIds: new Set(['root', 'group-1'])
+      });
+      treeView.setData(movableData);
+    });
+
+    it('should make movable nodes draggable', () => {
+      expect(getItem('cube-1').draggable).toBe(true);
+      expect(getItem('root').draggable).toBe(false);
+    });
+
+    it('should report a drop onto the middle of a node as inside', () => {
+      dispatchDrag('dragstart', 'cube-1');
+      dispatchDrag('drop', 'group-1', 0.5);
+
+      expect(onMove).toHaveBeenCalledWith({ id: 'cube-1', targetId: 'group-1', position: 'inside' });
+    });
+
+    it('should report drops on the top and bottom edges as before and after', () => {
+      dispatchDrag('dragstart', 'cube-2');
+      dispatchDrag('drop', 'cube-1', 0.1);
+      dispatchDrag('dragstart', 'cube-2');
+      dispatchDrag('drop', 'cube-1', 0.9);
+
+      expect(onMove).toHaveBeenNthCalledWith(1, { id: 'cube-2', targetId: 'cube-1', position: 'before' });
+      expect(onMove).toHaveBeenNthCalledWith(2, { id: 'cube-2', targetId: 'cube-1', position: 'after' });
+    });
+
+    it('should only allow dropping inside non-movable nodes', () => {
+      dispatchDrag('dragstart', 'cube-2');
+      dispatchDrag('drop', 'root', 0.1);
+
+      expect(onMove).toHaveBeenCalledWith({ id: 'cube-2', targetId: 'root', position: 'inside' });
+    });
+
+    it('should reject drops onto the node itself or its descendants', () => {
+      dispatchDrag('dragstart', 'group-1');
+      const over = dispatchDrag('dragover', 'cube-2');
+      dispatchDrag('drop', 'group-1');
+
+      expect(over.defaultPrevented).toBe(false);
+      expect(onMove).not.toHaveBeenCalled();
+    });
+
+    it('should show a drop indicator while dragging over a target', () => {
+      dispatchDrag('dragstart', 'cube-1');
+      const over = dispatchDrag('dragover', 'cube-2', 0.9);
+
+      expect(over.defaultPrevented).toBe(true);
+      expect(getItem('cube-2').classList.contains('drop-after')).toBe(true);
+
+      dispatchDrag('dragend', 'cube-1');
+      expect(getItem('cube-2').classList.contains('drop-after')).toBe(false);
+    });
+
+    it('should ignore drops when no node is being moved', () => {
+      dispatchDrag('drop', 'group-1');
+
+      expect(onMove).not.toHaveBeenCalled();
+    });
+  });
+
   describe('dispose', () => {
     it('should clear the container', () => {
       treeView.dispose();
@@ -0,0 +1,45 @@
+/**
+ * File Transfer Utility Tests
+ *
+ * Tests for downloading blobs and picking files through hidden elements.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { downloadBlob, pickFile } from '../../../src/utils/files';
+
+describe('File Transfer Utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should download a blob through a temporary object URL', () => {
+    const createObjectURL = vi.fn(() => 'blob:test');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const blob = new Blob(['data']);
+
+    downloadBlob(blob, 'scene.json');
+
+    const anchor = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(createObjectURL).toHaveBeenCalledWith(blob);
+    expect(anchor.download).toBe('scene.json');
+    expect(anchor.isConnected).toBe(false);
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:test');
+  });
+
+  it('should resolve null when the file dialog is cancelled', async () => {
+    let input: HTMLInputElement | undefined;
+    vi.spyOn(HTMLInputElement.prototype, 'click').mockImplementation(function (this: HTMLInputElement) {
+      input = this;
+    });
+
+    const result = pickFile('.zip');
+    expect(input?.type).toBe('file');
+    expect(input?.accept).toBe('.zip');
+    input?.oncancel?.(new Event('cancel'));
+
+    expect(await result).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Quaternion Utilities Tests
+ *
+ * Unit tests for quaternion normalization, slerp and Euler conversion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { quatNormalize, quatSlerp, quatToEulerDegrees } from '@utils/math/quaternion';
+import type { Quat } from '@utils/math/quaternion';
+
+const HALF_SQRT2 = Math.SQRT1_2;
+
+describe('Quaternion Utilities', () => {
+  describe('quatNormalize', () => {
+    it('should scale a quaternion to unit length', () => {
+      const q = quatNormalize([0, 0, 2, 0]);
+      expect(q).toEqual([0, 0, 1, 0]);
+    });
+
+    it('should return identity for a zero quaternion', () => {
+      expect(quatNormalize([0, 0, 0, 0])).toEqual([0, 0, 0, 1]);
+    });
+  });
+
+  describe('quatSlerp', () => {
+    it('should return the endpoints at t = 0 and t = 1', () => {
+      const a: Quat = [0, 0, 0, 1];
+      const b: Quat = [0, 0, HALF_SQRT2, HALF_SQRT2];
+
+      quatSlerp(a, b, 0).forEach((v, i) => expect(v).toBeCloseTo(a[i]));
+      quatSlerp(a, b, 1).forEach((v, i) => expect(v).toBeCloseTo(b[i]));
+    });
+
+    it('should interpolate the rotation angle evenly', () => {
+      // Identity to 90 degrees about Z; halfway is 45 degrees
+      const q = quatSlerp([0, 0, 0, 1], [0, 0, HALF_SQRT2, HALF_SQRT2], 0.5);
+      expect(quatToEulerDegrees(q)[2]).toBeCloseTo(45);
+    });
+
+    it('should take the shortest path for opposite-sign inputs', () => {
+      // -b is the same rotation as b
+      const q = quatSlerp([0, 0, 0, 1], [0, 0, -HALF_SQRT2, -HALF_SQRT2], 0.5);
+      expect(quatToEulerDegrees(q)[2]).toBeCloseTo(45);
+    });
+  });
+
+  describe('quatToEulerDegrees', () => {
+    it('should convert single-axis rotations', () => {
+      expect(quatToEulerDegrees([HALF_SQRT2, 0, 0, HALF_SQRT2])[0]).toBeCloseTo(90);
+      expect(quatToEulerDegrees([0, HALF_SQRT2, 0, HALF_SQRT2])[1]).toBeCloseTo(90);
+      expect(quatToEulerDegrees([0, 0, HALF_SQRT2, HALF_SQRT2])[2]).toBeCloseTo(90);
+    });
+
+    it('should return zero angles for identity', () => {
+      quatToEulerDegrees([0, 0, 0, 1]).forEach((v) => expect(v).toBeCloseTo(0));
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Ray Utilities Tests
+ *
+ * Unit tests for ray-triangle and ray-mesh intersection used by picking.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rayMeshIntersection, rayTriangleIntersection } from '@utils/math/ray';
+import type { Ray } from '@utils/math/ray';
+import { mat4FromTRS, mat4Identity } from '@utils/math/transforms';
+import { Sphere } from '@plugins/primitives/Sphere';
+
+/**
+ * A ray looking straight down -Z from above a point.
+ */
+function downRay(x: number, y: number): Ray {
+  return { origin: [x, y, 10], direction: [0, 0, -1] };
+}
+
+describe('Ray Utilities', () => {
+  describe('rayTriangleIntersection', () => {
+    // Counter-clockwise seen from +Z
+    const v0: [number, number, number] = [0, 0, 0];
+    const v1: [number, number, number] = [1, 0, 0];
+    const v2: [number, number, number] = [0, 1, 0];
+
+    it('should hit inside the triangle', () => {
+      const hit = rayTriangleIntersection(downRay(0.25, 0.25), v0, v1, v2);
+
+      expect(hit.hit).toBe(true);
+      expect(hit.distance).toBeCloseTo(10);
+      expect(hit.point).toEqual([0.25, 0.25, 0]);
+    });
+
+    it('should miss outside the triangle', () => {
+      const hit = rayTriangleIntersection(downRay(0.75, 0.75), v0, v1, v2);
+
+      expect(hit.hit).toBe(false);
+      expect(hit.point).toBeNull();
+    });
+
+    it('should miss triangles behind the ray', () => {
+      const ray: Ray = { origin: [0.25, 0.25, -1], direction: [0, 0, -1] };
+
+      expect(rayTriangleIntersection(ray, v0, v1, v2).hit).toBe(false);
+    });
+
+    it('should hit back faces unless culling', () => {
+      const ray: Ray = { origin: [0.25, 0.25, -10], direction: [0, 0, 1] };
+
+      expect(rayTriangleIntersection(ray, v0, v1, v2).hit).toBe(true);
+      expect(rayTriangleIntersection(ray, v0, v1, v2, true).hit).toBe(false);
+    });
+  });
+
+  describe('rayMeshIntersection', () => {
+    const meshData = new Sphere().getMeshData();
+
+    it('should hit the surface of the mesh', () => {
+      const hit = rayMeshIntersection(downRay(0, 0), meshData, mat4Identity());
+
+      expect(hit.hit).toBe(true);
+      expect(hit.distance).toBeCloseTo(9.5, 1);
+    });
+
+    it('should miss the empty corner of the bounding box', () => {
+      // Inside the sphere's AABB but outside the sphere
+      const hit = rayMeshIntersection(downRay(0.45, 0.45), meshData, mat4Identity());
+
+      expect(hit.hit).toBe(false);
+    });
+
+    it('should apply the model transform and report world distances', () => {
+      const model = mat4FromTRS([5, 0, 0], [0, 0, 45], [4, 1, 1]);
+
+      expect(rayMeshIntersection(downRay(0, 0), meshData, model).hit).toBe(false);
+
+      const hit = rayMeshIntersection(downRay(5, 0), meshData, model);
+      expect(hit.hit).toBe(true);
+      expect(hit.distance).toBeCloseTo(9.5, 1);
+      expect(hit.point![2]).toBeCloseTo(0.5, 1);
+    });
+
+    it('should hit a point only the stretched mesh covers', () => {
+      // 1.5 units along the long axis, rotated 45 degrees around Z
+      const model = mat4FromTRS([0, 0, 0], [0, 0, 45], [4, 1, 1]);
+      const offset = 1.5 / Math.SQRT2;
+
+      expect(rayMeshIntersection(downRay(offset, offset), meshData, model).hit).toBe(true);
+      expect(rayMeshIntersection(downRay(offset, -offset), meshData, model).hit).toBe(false);
+    });
+
+    it('should cull the far side when culling back faces', () => {
+      const hit = rayMeshIntersection(downRay(0, 0), meshData, mat4Identity(), true);
+
+      // The near (top) side faces the ray
+      expect(hit.distance).toBeCloseTo(9.5, 1);
+    });
+
+    it('should flip culling for mirrored transforms', () => {
+      const mirrored = mat4FromTRS([0, 0, 0], [0, 0, 0], [-1, 1, 1]);
+      const hit = rayMeshIntersection(downRay(0, 0), meshData, mirrored, true);
+
+      // Mirroring reverses the winding, so the rasterizer shows the far side
+      expect(hit.hit).toBe(true);
+      expect(hit.distance).toBeCloseTo(10.5, 1);
+    });
+
+    it('should miss when the model matrix is singular', () => {
+      const flat = mat4FromTRS([0, 0, 0], [0, 0, 0], [1, 1, 0]);
+
+      expect(rayMeshIntersection(downRay(0, 0), meshData, flat).hit).toBe(false);
+    });
+  });
+});
@@ -8,6 +8,7 @@ import { describe, it, expect } from 'vitest';
 import {
   mat4Identity,
   mat4Perspective,
+  mat4Orthographic,
   mat4LookAt,
   mat4Multiply,
   mat4Translation,
@@ -17,6 +18,9 @@ import {
   mat4RotationZ,
   degToRad,
   radToDeg,
+  vec3Cross,
+  mat4FromTRS,
+  mat4Decompose,
 } from '@utils/math/transforms';
 
 describe('Transform Utilities', () => {
@@ -83,6 +87,29 @@ describe('Transform Utilities', () => {
     });
   });
 
+  describe('mat4Orthographic', () => {
+    it('should map the box corners to the NDC cube', () => {
+      const ortho = mat4Orthographic(-2, 4, -1, 3, 0.5, 10);
+
+      // Column-major: x' = m0*x + m12, y' = m5*y + m13, z' = m10*z + m14
+      expect(ortho[0] * -2 + ortho[12]).toBeCloseTo(-1);
+      expect(ortho[0] * 4 + ortho[12]).toBeCloseTo(1);
+      expect(ortho[5] * -1 + ortho[13]).toBeCloseTo(-1);
+      expect(ortho[5] * 3 + ortho[13]).toBeCloseTo(1);
+
+      // View space looks down -Z, so near maps to -1 and far to +1
+      expect(ortho[10] * -0.5 + ortho[14]).toBeCloseTo(-1);
+      expect(ortho[10] * -10 + ortho[14]).toBeCloseTo(1);
+    });
+
+    it('should have no perspective divide', () => {
+      const ortho = mat4Orthographic(-1, 1, -1, 1, 0.1, 100);
+
+      expect(ortho[11]).toBe(0);
+      expect(ortho[15]).toBe(1);
+    });
+  });
+
   describe('mat4LookAt', () => {
     it('should create a view matrix looking along -Z', () => {
       const eye: [number, number, number] = [0, 0, 5];
@@ -373,4 +400,65 @@ describe('Transform Utilities', () => {
       expect(result).toBeCloseTo(original);
     });
   });
+
+  describe('vec3Cross', () => {
+    it('should follow the right-hand rule', () => {
+      expect(vec3Cross([1, 0, 0], [0, 1, 0])).toEqual([0, 0, 1]);
+      expect(vec3Cross([0, 1, 0], [1, 0, 0])).toEqual([0, 0, -1]);
+    });
+
+    it('should return zero for parallel vectors', () => {
+      expect(vec3Cross([0, 0, 2], [0, 0, 5])).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('mat4FromTRS', () => {
+    it('should match T × Rz × Ry × Rx × S', () => {
+      const expected = mat4Multiply(
+        mat4Multiply(
+          mat4Multiply(
+            mat4Multiply(mat4Translation(1, 2, 3), mat4RotationZ(degToRad(30))),
+            mat4RotationY(degToRad(20))
+          ),
+          mat4RotationX(degToRad(10))
+        ),
+        mat4Scale(2, 3, 4)
+      );
+
+      const result = mat4FromTRS([1, 2, 3], [10, 20, 30], [2, 3, 4]);
+
+      for (let i = 0; i < 16; i++) {
+        expect(result[i]).toBeCloseTo(expected[i], 5);
+      }
+    });
+  });
+
+  describe('mat4Decompose', () => {
+    it('should recover position, rotation and scale', () => {
+      const { position, rotation, scale } = mat4Decompose(
+        mat4FromTRS([1, -2, 3], [15, -40, 120], [2, 0.5, 3])
+      );
+
+      position.forEach((v, i) => expect(v).toBeCloseTo([1, -2, 3][i], 4));
+      rotation.forEach((v, i) => expect(v).toBeCloseTo([15, -40, 120][i], 3));
+      scale.forEach((v, i) => expect(v).toBeCloseTo([2, 0.5, 3][i], 4));
+    });
+
+    it('should fold a mirrored axis into negative X scale', () => {
+      const { scale } = mat4Decompose(mat4Scale(-2, 1, 1));
+
+      expect(scale[0]).toBeCloseTo(-2, 5);
+      expect(scale[1]).toBeCloseTo(1, 5);
+    });
+
+    it('should produce an equivalent matrix at gimbal lock', () => {
+      const original = mat4FromTRS([0, 0, 0], [30, 90, 45], [1, 1, 1]);
+      const { position, rotation, scale } = mat4Decompose(original);
+      const rebuilt = mat4FromTRS(position, rotation, scale);
+
+      for (let i = 0; i < 16; i++) {
+        expect(rebuilt[i]).toBeCloseTo(original[i], 4);
+      }
+    });
+  });
 });
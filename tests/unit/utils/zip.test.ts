@@ -0,0 +1,60 @@
+/**
+ * ZIP Utility Tests
+ *
+ * Tests for packing and unpacking ZIP archives.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip, ZipFormatError } from '../../../src/utils/zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('ZIP Utilities', () => {
+  it('should round-trip files', async () => {
+    const archive = await createZip([
+      { path: 'project.json', data: encoder.encode('{"name":"Demo"}') },
+      { path: 'sources/models/car.glb', data: new Uint8Array([0, 1, 2, 255]) },
+      { path: 'empty.txt', data: new Uint8Array(0) },
+    ]);
+
+    const entries = await readZip(archive);
+
+    expect(entries.map((entry) => entry.path)).toEqual(['project.json', 'sources/models/car.glb', 'empty.txt']);
+    expect(decoder.decode(entries[0].data)).toBe('{"name":"Demo"}');
+    expect(Array.from(entries[1].data)).toEqual([0, 1, 2, 255]);
+    expect(entries[2].data.length).toBe(0);
+  });
+
+  it('should deflate compressible files', async () => {
+    const text = encoder.encode('repeat '.repeat(1000));
+
+    const archive = await createZip([{ path: 'a.txt', data: text }]);
+    const [entry] = await readZip(archive);
+
+    expect(archive.length).toBeLessThan(text.length / 10);
+    expect(decoder.decode(entry.data)).toBe('repeat '.repeat(1000));
+  });
+
+  it('should keep UTF-8 names and modification times', async () => {
+    const lastModified = new Date(2024, 4, 17, 13, 45, 30);
+
+    const archive = await createZip([{ path: 'assets/Matériau 🎨.json', data: encoder.encode('{}'), lastModified }]);
+    const [entry] = await readZip(archive);
+
+    expect(entry.path).toBe('assets/Matériau 🎨.json');
+    expect(entry.lastModified).toEqual(lastModified);
+  });
+
+  it('should reject data that is not an archive', async () => {
+    await expect(readZip(encoder.encode('not a zip file at all'))).rejects.toThrow(ZipFormatError);
+  });
+
+  it('should detect corrupted contents', async () => {
+    const archive = await createZip([{ path: 'a.bin', data: new Uint8Array([1, 2, 3, 4]) }]);
+    // Stored data follows the 30-byte local header and the 5-byte name
+    archive[35] ^= 0xff;
+
+    await expect(readZip(archive)).rejects.toThrow('Checksum mismatch: a.bin');
+  });
+});